@@ -0,0 +1,24 @@
+-- Migration: Create llm_outputs table
+-- Version: 003
+-- Description: Durable LLM output store for /admin/v1/llm-output (LLM_OUTPUT_STORE_TYPE=postgres)
+
+CREATE TABLE IF NOT EXISTS llm_outputs (
+  request_id VARCHAR(255) PRIMARY KEY,
+  output_hash VARCHAR(64) NOT NULL,
+  raw_text TEXT NOT NULL,
+  parsed_json JSONB,
+  node_count INTEGER NOT NULL,
+  edge_count INTEGER NOT NULL,
+  stored_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  model VARCHAR(255),
+  prompt_version VARCHAR(128)
+);
+
+-- Indexes for admin search (newest first) and retention pruning
+CREATE INDEX IF NOT EXISTS idx_llm_outputs_stored_at ON llm_outputs(stored_at);
+CREATE INDEX IF NOT EXISTS idx_llm_outputs_model ON llm_outputs(model, stored_at);
+CREATE INDEX IF NOT EXISTS idx_llm_outputs_prompt_version ON llm_outputs(prompt_version, stored_at);
+
+-- Comments for documentation
+COMMENT ON TABLE llm_outputs IS 'Raw LLM outputs per request, redacted at write time';
+COMMENT ON COLUMN llm_outputs.output_hash IS 'SHA-256 of the output before redaction (matches trace.llm_raw.output_hash)';
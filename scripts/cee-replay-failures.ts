@@ -0,0 +1,234 @@
+/**
+ * CEE draft failure replay CLI
+ *
+ * Replays stored draft failures through a running assistants service via
+ * `POST /admin/v1/draft-failures/replay` (or `/:id/replay` for a single
+ * failure) and prints which failures are now fixed, still failing or
+ * changed. Batch results are streamed (NDJSON) and printed as each replay
+ * finishes. Use it to validate prompt and normaliser changes against real
+ * production failures before rollout.
+ *
+ * Usage (from repo root):
+ *
+ *   # Re-test post-processing on the last 20 captured raw outputs (no LLM calls)
+ *   ADMIN_API_KEY=xxx pnpm cee:replay-failures --mode raw_output
+ *
+ *   # Re-draft failures from one model against prompt version 4 on another model
+ *   ADMIN_API_KEY=xxx pnpm cee:replay-failures \
+ *     --filter-model gpt-4o --prompt-version 4 --model claude-sonnet-4-20250514 --limit 10
+ *
+ *   # Single failure, JSON output for scripting
+ *   ADMIN_API_KEY=xxx pnpm cee:replay-failures --id <failure-uuid> --json
+ *
+ * Options:
+ *   --mode pipeline|raw_output   Replay mode (default: pipeline)
+ *   --model <id>                 Model for the draft call (pipeline mode)
+ *   --prompt-version <n>         Managed draft_graph prompt version (pipeline mode)
+ *   --id <uuid>                  Replay a single failure
+ *   --request-id <id>            Filter: original request ID
+ *   --filter-model <id>          Filter: model that produced the failure
+ *   --filter-prompt-version <v>  Filter: prompt version that produced the failure
+ *   --since <iso>                Filter: failures created at or after
+ *   --limit <n>                  Filter: max failures (default 20, max 50)
+ *   --json                       Print the raw response (one JSON line per result in batch mode)
+ *
+ * Env vars:
+ *   - ASSIST_BASE_URL / ASSISTANTS_BASE_URL (default: http://localhost:3101)
+ *   - ADMIN_API_KEY (write key; replays may call the LLM)
+ *
+ * Exit codes: 0 all fixed or skipped, 1 request failed, 2 some still failing, changed or errored.
+ */
+
+import { env } from "node:process";
+
+interface CliOptions {
+  mode: "pipeline" | "raw_output";
+  model?: string;
+  promptVersion?: number;
+  id?: string;
+  filter: {
+    request_id?: string;
+    model?: string;
+    prompt_version?: string;
+    since?: string;
+    limit?: number;
+  };
+  json: boolean;
+}
+
+interface ReplayResult {
+  failure_id: string;
+  outcome: "fixed" | "still_failing" | "changed" | "skipped" | "errored";
+  skip_reason?: string;
+  error?: string;
+  original: { validation_error: string; missing_kinds: string[] };
+  replay?: { status_code: number; error_code?: string; message?: string; missing_kinds: string[] };
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { mode: "pipeline", filter: {}, json: false };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    const next = () => argv[++i];
+    switch (arg) {
+      case "--mode": {
+        const mode = next();
+        if (mode !== "pipeline" && mode !== "raw_output") {
+          throw new Error(`--mode must be pipeline or raw_output (got ${mode})`);
+        }
+        options.mode = mode;
+        break;
+      }
+      case "--model":
+        options.model = next();
+        break;
+      case "--prompt-version":
+        options.promptVersion = Number(next());
+        break;
+      case "--id":
+        options.id = next();
+        break;
+      case "--request-id":
+        options.filter.request_id = next();
+        break;
+      case "--filter-model":
+        options.filter.model = next();
+        break;
+      case "--filter-prompt-version":
+        options.filter.prompt_version = next();
+        break;
+      case "--since":
+        options.filter.since = next();
+        break;
+      case "--limit":
+        options.filter.limit = Number(next());
+        break;
+      case "--json":
+      case "-j":
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function formatResult(result: ReplayResult): string {
+  const id = result.failure_id.slice(0, 8);
+  if (result.outcome === "skipped") {
+    return `- ${id} SKIPPED (${result.skip_reason ?? "unknown"})`;
+  }
+  if (result.outcome === "fixed") {
+    return `- ${id} FIXED (was: ${result.original.validation_error})`;
+  }
+  if (result.outcome === "errored") {
+    return `- ${id} ERRORED: ${result.error ?? "unknown"}`;
+  }
+  const replay = result.replay;
+  const missing = replay?.missing_kinds.length ? ` missing=${replay.missing_kinds.join(",")}` : "";
+  const label = result.outcome === "still_failing" ? "STILL FAILING" : "CHANGED";
+  return `- ${id} ${label} ${replay?.status_code ?? "?"} ${replay?.error_code ?? ""}: ${replay?.message ?? ""}${missing}`;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const baseUrl = (env.ASSIST_BASE_URL || env.ASSISTANTS_BASE_URL || "http://localhost:3101").replace(/\/$/, "");
+  const adminKey = env.ADMIN_API_KEY;
+  if (!adminKey) {
+    console.error("[cee-replay-failures] ADMIN_API_KEY is required");
+    process.exit(1);
+  }
+
+  const url = options.id
+    ? `${baseUrl}/admin/v1/draft-failures/${encodeURIComponent(options.id)}/replay`
+    : `${baseUrl}/admin/v1/draft-failures/replay`;
+  const body = {
+    mode: options.mode,
+    model: options.model,
+    prompt_version: options.promptVersion,
+    ...(options.id ? {} : { filter: options.filter }),
+  };
+
+  console.error(`[cee-replay-failures] Target: ${url} (mode=${options.mode})`);
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Admin-Key": adminKey },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    const json = (await res.json().catch(() => undefined)) as any;
+    console.error(`[cee-replay-failures] Replay failed (status=${res.status}): ${json?.message ?? res.statusText}`);
+    process.exit(1);
+  }
+
+  const results: ReplayResult[] = [];
+
+  if (options.id) {
+    const json = (await res.json()) as ReplayResult;
+    results.push(json);
+    if (options.json) {
+      console.log(JSON.stringify(json, null, 2));
+    } else {
+      console.log("Draft Failure Replay");
+      console.log("====================");
+      console.log(formatResult(json));
+    }
+  } else {
+    if (!options.json) {
+      console.log("Draft Failure Replay");
+      console.log("====================");
+    }
+    for await (const line of readLines(res)) {
+      if (options.json) {
+        console.log(line);
+      }
+      const event = JSON.parse(line) as any;
+      if (event.type === "result") {
+        results.push(event as ReplayResult);
+        if (!options.json) console.log(formatResult(event));
+      } else if (event.type === "summary" && !options.json) {
+        const s = event.summary;
+        console.log("");
+        console.log(
+          `total=${s.total} fixed=${s.fixed} still_failing=${s.still_failing} changed=${s.changed} skipped=${s.skipped} errored=${s.errored}`
+        );
+      } else if (event.type === "error") {
+        console.error(`[cee-replay-failures] Replay aborted: ${event.message}`);
+        process.exit(1);
+      }
+    }
+  }
+
+  const regressions = results.filter((r) => r.outcome === "still_failing" || r.outcome === "changed" || r.outcome === "errored");
+  process.exit(regressions.length > 0 ? 2 : 0);
+}
+
+/**
+ * Non-empty lines of a streamed (NDJSON) response body
+ */
+async function* readLines(res: Response): AsyncGenerator<string> {
+  if (!res.body) return;
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+    buffered += decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffered.indexOf("\n")) >= 0) {
+      const line = buffered.slice(0, newline).trim();
+      buffered = buffered.slice(newline + 1);
+      if (line) yield line;
+    }
+  }
+  if (buffered.trim()) yield buffered.trim();
+}
+
+main().catch((error) => {
+  console.error("[cee-replay-failures] Unexpected error:", error);
+  process.exit(1);
+});
@@ -182,6 +182,21 @@ if (llmProvider === 'openai' && !process.env.OPENAI_API_KEY) {
   });
 }
 
+if (llmProvider === 'local' && !process.env.LOCAL_LLM_BASE_URL) {
+  validate({
+    name: 'LOCAL_LLM_BASE_URL',
+    status: 'fail',
+    message: 'Missing local LLM server base URL',
+  });
+} else if (llmProvider === 'local') {
+  validate({
+    name: 'LOCAL_LLM_BASE_URL',
+    status: 'pass',
+    message: `Local LLM server configured (${process.env.LOCAL_LLM_API_STYLE || 'openai'} API style)`,
+    value: process.env.LOCAL_LLM_BASE_URL,
+  });
+}
+
 // Auth Configuration Validation
 console.log('\n--- Authentication Configuration ---');
 
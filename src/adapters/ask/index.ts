@@ -9,6 +9,11 @@
  * 2. Enforce model-bound invariant (always return actions, highlights, or follow-up)
  * 3. Validate all IDs in responses against graph_snapshot
  * 4. Generate attribution metadata
+ * 5. Apply the scenario's decision memory (long-horizon conversation context)
+ *
+ * Simulate handler (what-if): parses hypothetical factor/edge changes into
+ * model_actions for preview and, with local inference enabled, explains how
+ * the option ranking would shift.
  *
  * P0 handlers (must ship):
  * - explain/clarify - Grounded to selected nodes/edges with highlights
@@ -32,6 +37,16 @@ import type {
 import { validateActionIds, validateHighlightIds } from "../../schemas/working-set.js";
 import { inferIntent, isP0Intent } from "../../services/intent-inference.js";
 import type { GraphT } from "../../schemas/graph.js";
+import { config } from "../../config/index.js";
+import { retrieveChunks, type ChunkIndex } from "../../grounding/retrieval.js";
+import type { DecisionMemoryItem } from "../../services/decision-memory.js";
+import {
+  parseWhatIf,
+  simulateRankingShift,
+  findPathToTarget,
+  type WhatIfChange,
+  type UnresolvedWhatIf,
+} from "../../services/what-if.js";
 
 // ============================================================================
 // Types
@@ -44,6 +59,10 @@ export interface AskAdapterOpts {
   requestId: string;
   timeoutMs: number;
   abortSignal?: AbortSignal;
+  /** Index over the request's attachments (set when retrieval is enabled) */
+  chunkIndex?: ChunkIndex;
+  /** Decision memory items selected for this request, within the token budget */
+  decisionMemory?: DecisionMemoryItem[];
 }
 
 /**
@@ -58,6 +77,17 @@ interface HandlerResult {
   updated_decision_state_summary?: string;
 }
 
+/**
+ * Receives response parts as they become final, for streaming (SSE) clients.
+ * Items are only emitted after ID validation, so they match the final response.
+ */
+export interface AskStreamSink {
+  onMessageDelta(delta: string): Promise<void>;
+  onModelAction(action: ModelActionT): Promise<void>;
+  onHighlight(highlight: HighlightT): Promise<void>;
+  onWhy(item: ProvenanceItemT): Promise<void>;
+}
+
 /**
  * Extended response that includes the inferred intent for telemetry/session.
  * The route should use this for logging and session caching.
@@ -101,12 +131,126 @@ function generateAttribution(
 // Intent Handlers
 // ============================================================================
 
+/**
+ * Cite the attachment chunks most relevant to the question and its focus
+ * (why items with source "document").
+ */
+function withDocumentEvidence(result: HandlerResult, queries: string[], opts: AskAdapterOpts): HandlerResult {
+  if (!opts.chunkIndex) return result;
+
+  const hits = retrieveChunks(opts.chunkIndex, queries, { maxChunks: config.retrieval.topK });
+  if (hits.length === 0) return result;
+
+  const cite = (chunk: (typeof hits)[number]["chunk"]) =>
+    chunk.locations[0] ? `${chunk.source} (${chunk.locations[0]})` : chunk.source;
+
+  return {
+    ...result,
+    message: `${result.message.trim()} Supporting evidence: ${[...new Set(hits.map((h) => cite(h.chunk)))].join("; ")}.`,
+    why: [
+      ...(result.why ?? []),
+      ...hits.map(({ chunk }) => ({
+        source: "document" as const,
+        // Lexical match only: relevant, not verified support
+        confidence: "medium" as const,
+        note: `${cite(chunk)}: ${chunk.text.replace(/\s+/g, " ")}`.slice(0, 500),
+        references: { chunk_ids: [chunk.id] },
+      })),
+    ],
+  };
+}
+
+const MEMORY_KIND_LABELS: Record<DecisionMemoryItem["kind"], string> = {
+  fact: "agreed",
+  rejected_option: "ruled out",
+  open_question: "open question",
+  preference: "preference",
+};
+
+/** Maximum decision memory items cited in `why` */
+const MAX_MEMORY_WHY_ITEMS = 3;
+
+/**
+ * Apply the scenario's decision memory: drop options the user ruled out from
+ * ideate/compare highlights, restate preferences, resurface open questions
+ * when clarifying, and cite the memory used (why items with source
+ * "conversation").
+ */
+function withDecisionMemory(
+  result: HandlerResult,
+  intent: AskIntentT,
+  request: WorkingSetRequestT,
+  opts: AskAdapterOpts
+): HandlerResult {
+  const items = opts.decisionMemory ?? [];
+  if (items.length === 0) return result;
+
+  const graphNodeIds = new Set(request.graph_snapshot.nodes.map((n) => n.id));
+  const rejected = items.filter((i) => i.kind === "rejected_option");
+  const preferences = items.filter((i) => i.kind === "preference");
+  const openQuestions = items.filter((i) => i.kind === "open_question");
+  const weighsOptions = intent === "ideate" || intent === "compare";
+
+  const next: HandlerResult = { ...result };
+  const notes: string[] = [];
+  const quote = (item: DecisionMemoryItem) => `"${item.text}"`;
+
+  if (weighsOptions && rejected.length > 0) {
+    const rejectedIds = new Set(rejected.flatMap((i) => i.node_ids));
+    const highlights = (next.highlights ?? [])
+      .map((h) => (h.type === "node" ? { ...h, ids: h.ids.filter((id) => !rejectedIds.has(id)) } : h))
+      .filter((h) => h.ids.length > 0);
+    next.highlights = highlights.length > 0 ? highlights : undefined;
+    notes.push(`Earlier you ruled out: ${rejected.map(quote).join(", ")}.`);
+  }
+  if (weighsOptions && preferences.length > 0) {
+    notes.push(`You also told me: ${preferences.map(quote).join(", ")}.`);
+  }
+  if (notes.length > 0) {
+    next.message = `${next.message.trim()} ${notes.join(" ")}`.slice(0, 1000);
+  }
+
+  if (intent === "clarify" && !request.selection?.node_id && openQuestions.length > 0) {
+    next.follow_up_question = `Earlier you asked: "${openQuestions[0].text}" Shall we pick that up?`.slice(0, 500);
+  }
+
+  // Cite memory about the elements this answer is about (or used above)
+  const focusIds = new Set([
+    ...(next.highlights ?? []).filter((h) => h.type === "node").flatMap((h) => h.ids),
+    ...(request.selection?.node_id ? [request.selection.node_id] : []),
+  ]);
+  const cited = items
+    .filter(
+      (i) =>
+        i.node_ids.some((id) => focusIds.has(id)) ||
+        (weighsOptions && (i.kind === "rejected_option" || i.kind === "preference"))
+    )
+    .slice(0, MAX_MEMORY_WHY_ITEMS);
+
+  if (cited.length > 0) {
+    next.why = [
+      ...(next.why ?? []),
+      ...cited.map((item) => {
+        const nodeIds = item.node_ids.filter((id) => graphNodeIds.has(id));
+        return {
+          source: "conversation" as const,
+          confidence: "medium" as const,
+          note: `Earlier in this conversation (${MEMORY_KIND_LABELS[item.kind]}): ${item.text}`.slice(0, 500),
+          ...(nodeIds.length > 0 ? { references: { node_ids: nodeIds } } : {}),
+        };
+      }),
+    ];
+  }
+
+  return next;
+}
+
 /**
  * Handle "explain" intent - explain why something is in the graph.
  */
 async function handleExplain(
   request: WorkingSetRequestT,
-  _opts: AskAdapterOpts
+  opts: AskAdapterOpts
 ): Promise<HandlerResult> {
   const { message, selection, graph_snapshot } = request;
 
@@ -114,7 +258,7 @@ async function handleExplain(
   if (selection?.node_id) {
     const node = graph_snapshot.nodes.find((n) => n.id === selection.node_id);
     if (node) {
-      return {
+      return withDocumentEvidence({
         message: `The "${node.label || node.id}" ${node.kind} is part of this decision model because it ${getNodeExplanation(node.kind)}. ${node.body || ""}`,
         highlights: [
           {
@@ -132,7 +276,7 @@ async function handleExplain(
             references: { node_ids: [node.id] },
           },
         ],
-      };
+      }, [message, node.label ?? node.id, node.body ?? ""], opts);
     }
   }
 
@@ -145,7 +289,7 @@ async function handleExplain(
     if (edge) {
       const fromNode = graph_snapshot.nodes.find((n) => n.id === from);
       const toNode = graph_snapshot.nodes.find((n) => n.id === to);
-      return {
+      return withDocumentEvidence({
         message: `This connection shows that "${fromNode?.label || from}" influences "${toNode?.label || to}". The relationship strength is ${edge.belief ? `${(edge.belief * 100).toFixed(0)}%` : "not specified"}.`,
         highlights: [
           {
@@ -162,7 +306,7 @@ async function handleExplain(
             references: { edge_ids: [selection.edge_id] },
           },
         ],
-      };
+      }, [message, `${fromNode?.label ?? from} ${toNode?.label ?? to}`], opts);
     }
   }
 
@@ -171,7 +315,7 @@ async function handleExplain(
   if (mentionedNodeIds.length > 0) {
     const node = graph_snapshot.nodes.find((n) => n.id === mentionedNodeIds[0]);
     if (node) {
-      return {
+      return withDocumentEvidence({
         message: `"${node.label || node.id}" is a ${node.kind} in this decision. ${getNodeExplanation(node.kind)}`,
         highlights: [
           {
@@ -180,7 +324,7 @@ async function handleExplain(
             style: "primary",
           },
         ],
-      };
+      }, [message, node.label ?? node.id], opts);
     }
   }
 
@@ -489,6 +633,173 @@ async function handleChallenge(
   };
 }
 
+/** Maximum options listed when describing a ranking shift */
+const MAX_SHIFT_OPTIONS = 3;
+
+/**
+ * Format a simulated value for messages and action labels.
+ */
+function formatSimValue(value: number | undefined, unit?: string): string {
+  if (value === undefined) return "unset";
+  const text = Number.isInteger(value) ? value.toLocaleString("en-GB") : String(Number(value.toPrecision(4)));
+  if (!unit) return text;
+  return unit === "%" || unit === "percent" ? `${text}%` : /^[£$€¥₹]$/.test(unit) ? `${unit}${text}` : `${text} ${unit}`;
+}
+
+function describeWhatIfChange(change: WhatIfChange): string {
+  const subject = change.kind === "edge_strength" ? `${change.label} strength` : change.label;
+  return `${subject} ${formatSimValue(change.from_value, change.unit)} → ${formatSimValue(change.to_value, change.unit)}`;
+}
+
+function unresolvedQuestion(item: UnresolvedWhatIf): string {
+  switch (item.reason) {
+    case "no_amount":
+      return `By how much should "${item.label}" change?`.slice(0, 500);
+    case "no_baseline":
+      return `"${item.label}" has no value in the model yet. What is it today?`.slice(0, 500);
+    default:
+      return `Which factor in the model does "${item.phrase}" refer to?`.slice(0, 500);
+  }
+}
+
+/**
+ * Handle "simulate" intent - what-if changes to factor values or edge
+ * strengths. Changes are returned as model_actions the UI can preview; when
+ * local inference is enabled the expected shift in option ranking is
+ * explained, with the affected paths highlighted.
+ */
+async function handleSimulate(
+  request: WorkingSetRequestT,
+  _opts: AskAdapterOpts
+): Promise<HandlerResult> {
+  const { message, graph_snapshot, selection } = request;
+  const { changes, unresolved } = parseWhatIf(message, graph_snapshot, selection);
+
+  if (changes.length === 0) {
+    const factors = graph_snapshot.nodes.filter((n) => n.kind === "factor");
+    const example = factors[0]?.label ?? factors[0]?.id;
+    return {
+      message: "I can simulate a what-if change to a factor or connection in this model.",
+      follow_up_question: unresolved[0]
+        ? unresolvedQuestion(unresolved[0])
+        : `Which factor should change, and by how much?${example ? ` For example: "What if ${example} doubles?"` : ""}`,
+      highlights: factors.length > 0
+        ? [{ type: "node", ids: factors.map((n) => n.id), style: "secondary", label: "Factors you can change" }]
+        : undefined,
+    };
+  }
+
+  const actions: ModelActionT[] = changes.map((change) => {
+    if (change.kind === "edge_strength") {
+      return {
+        action_id: randomUUID(),
+        op: "update_edge",
+        target_id: change.target_id,
+        payload: { strength_mean: change.to_value },
+        reason_code: "what_if_edge_strength",
+        label: describeWhatIfChange(change).slice(0, 100),
+      };
+    }
+    const node = graph_snapshot.nodes.find((n) => n.id === change.target_id);
+    return {
+      action_id: randomUUID(),
+      op: "update_node",
+      target_id: change.target_id,
+      payload: { data: { ...(node?.data ?? {}), value: change.to_value } },
+      reason_code: "what_if_factor_value",
+      label: describeWhatIfChange(change).slice(0, 100),
+    };
+  });
+
+  const shift = simulateRankingShift(graph_snapshot, changes);
+  const targetId = shift?.before.target_id ?? graph_snapshot.nodes.find((n) => n.kind === "goal")?.id;
+
+  // Paths from each changed factor (or edge) to the goal
+  const highlights: HighlightT[] = [];
+  for (const change of changes) {
+    const [from, to] = change.kind === "edge_strength" ? change.target_id.split("->") : [change.target_id];
+    const rest = targetId ? findPathToTarget(graph_snapshot, to ?? from, targetId) : [];
+    const path = to ? [from, ...rest] : rest;
+    highlights.push(
+      path.length > 1
+        ? { type: "path", ids: path, style: "primary", label: `Affected path: ${change.label}`.slice(0, 100) }
+        : { type: "node", ids: to ? [from, to] : [from], style: "primary", label: "Simulated change" }
+    );
+  }
+
+  const summary = `Simulating ${changes.map(describeWhatIfChange).join("; ")}.`;
+  const why: ProvenanceItemT[] = changes.map((change) => ({
+    source: "graph" as const,
+    confidence: change.confidence,
+    note: `"${change.phrase}" read as ${describeWhatIfChange(change)}`.slice(0, 500),
+    references: change.kind === "edge_strength"
+      ? { edge_ids: [change.target_id] }
+      : { node_ids: [change.target_id] },
+  }));
+
+  if (!shift) {
+    return {
+      message: `${summary} Preview the changes on the canvas, then run the analysis to see how the option ranking shifts.`.slice(0, 1000),
+      model_actions: actions,
+      highlights,
+      follow_up_question: unresolved[0] ? unresolvedQuestion(unresolved[0]) : undefined,
+      why,
+    };
+  }
+
+  const { before, after } = shift;
+  const beforeById = new Map(before.outcomes.map((o) => [o.option_id, o]));
+  const shifts = after.outcomes
+    .slice(0, MAX_SHIFT_OPTIONS)
+    .map((o) => `${o.label} ${beforeById.get(o.option_id)?.mean ?? "?"} → ${o.mean}`);
+  const [leaderBefore] = before.outcomes;
+  const [leaderAfter] = after.outcomes;
+
+  let ranking: string;
+  if (after.outcomes.length < 2) {
+    ranking = `Expected ${after.target_label} would move from ${leaderBefore.mean} to ${leaderAfter.mean}.`;
+  } else if (shift.leader_changed) {
+    ranking = `${leaderAfter.label} would overtake ${leaderBefore.label} as the best option (expected ${after.target_label}: ${shifts.join(", ")}).`;
+  } else if (shift.moved_option_ids.length > 0) {
+    ranking = `${leaderAfter.label} stays ahead, but the order behind it changes (expected ${after.target_label}: ${shifts.join(", ")}).`;
+  } else {
+    ranking = `The ranking holds: ${leaderAfter.label} stays ahead (expected ${after.target_label}: ${shifts.join(", ")}).`;
+  }
+
+  const movedIds = shift.leader_changed || shift.moved_option_ids.length > 0
+    ? [...new Set([leaderBefore.option_id, leaderAfter.option_id, ...shift.moved_option_ids])]
+    : [leaderAfter.option_id];
+  const optionIds = movedIds.filter((id) => graph_snapshot.nodes.some((n) => n.id === id));
+  if (optionIds.length > 0) {
+    highlights.push({
+      type: "node",
+      ids: optionIds,
+      style: shift.leader_changed || shift.moved_option_ids.length > 0 ? "warning" : "secondary",
+      label: shift.leader_changed || shift.moved_option_ids.length > 0 ? "Ranking shifts" : "Still preferred",
+    });
+  }
+
+  why.push({
+    source: "engine",
+    confidence: "medium",
+    note: `Local simulation over ${after.samples} samples (seed ${after.seed}); probability best: ${after.outcomes
+      .slice(0, MAX_SHIFT_OPTIONS)
+      .map((o) => `${o.label} ${Math.round((beforeById.get(o.option_id)?.probability_best ?? 0) * 100)}% → ${Math.round(o.probability_best * 100)}%`)
+      .join(", ")}`.slice(0, 500),
+    ...(optionIds.length > 0 ? { references: { node_ids: optionIds } } : {}),
+  });
+
+  return {
+    message: `${summary} ${ranking}`.slice(0, 1000),
+    model_actions: actions,
+    highlights,
+    follow_up_question: unresolved[0]
+      ? unresolvedQuestion(unresolved[0])
+      : "Would you like to apply these changes to the model?",
+    why,
+  };
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -536,6 +847,14 @@ function findMentionedNodes(message: string, graph: GraphT): string[] {
   return mentioned;
 }
 
+/**
+ * Split a message into word tokens (each keeps its trailing whitespace),
+ * so joining the tokens reproduces the message exactly.
+ */
+export function tokenizeMessage(message: string): string[] {
+  return message.match(/\s*\S+\s*/g) ?? (message ? [message] : []);
+}
+
 // ============================================================================
 // Main Adapter Function
 // ============================================================================
@@ -545,11 +864,14 @@ function findMentionedNodes(message: string, graph: GraphT): string[] {
  *
  * @param request - The working set request
  * @param opts - Adapter options (requestId, timeout, etc.)
+ * @param sink - Optional streaming sink: receives the message token-by-token,
+ *   then each model action, highlight and why item once validated
  * @returns AskProcessResult with response, inferred intent, and confidence
  */
 export async function processAskRequest(
   request: WorkingSetRequestT,
-  opts: AskAdapterOpts
+  opts: AskAdapterOpts,
+  sink?: AskStreamSink
 ): Promise<AskProcessResult> {
   const startTime = Date.now();
 
@@ -596,6 +918,9 @@ export async function processAskRequest(
       case "challenge":
         result = await handleChallenge(request, opts);
         break;
+      case "simulate":
+        result = await handleSimulate(request, opts);
+        break;
       default:
         result = await handleClarify(request, opts);
     }
@@ -611,6 +936,15 @@ export async function processAskRequest(
     };
   }
 
+  result = withDecisionMemory(result, intent, request, opts);
+
+  // The message is final once the handler returns - stream it first
+  if (sink) {
+    for (const token of tokenizeMessage(result.message)) {
+      await sink.onMessageDelta(token);
+    }
+  }
+
   // Validate model actions if present
   if (result.model_actions && result.model_actions.length > 0) {
     const validation = validateActionIds(result.model_actions, request.graph_snapshot);
@@ -625,6 +959,12 @@ export async function processAskRequest(
     }
   }
 
+  if (sink) {
+    for (const action of result.model_actions ?? []) {
+      await sink.onModelAction(action);
+    }
+  }
+
   // Validate highlights if present
   if (result.highlights && result.highlights.length > 0) {
     const addedNodeIds = new Set(
@@ -688,6 +1028,15 @@ export async function processAskRequest(
     }
   }
 
+  if (sink) {
+    for (const highlight of result.highlights ?? []) {
+      await sink.onHighlight(highlight);
+    }
+    for (const item of result.why ?? []) {
+      await sink.onWhy(item);
+    }
+  }
+
   // Generate attribution
   const attribution = generateAttribution(
     "cee",
@@ -22,6 +22,7 @@ import type {
 import { logger } from '../../utils/simple-logger.js';
 import { parseTimeout, parseMaxRetries } from './config.js';
 import { config } from '../../config/index.js';
+import { injectTraceContext, recordSpanError, withSpan, SpanKind } from '../../utils/tracing.js';
 
 /**
  * ISL Client for causal validation
@@ -302,10 +303,28 @@ export class ISLClient {
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
     try {
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal,
-      });
+      const response = await withSpan(
+        `isl ${path}`,
+        {
+          'http.request.method': options.method ?? 'GET',
+          'url.full': url,
+          'isl.attempt': attempt,
+        },
+        async (span) => {
+          const res = await fetch(url, {
+            ...options,
+            // Continue the current trace in ISL (W3C traceparent)
+            headers: injectTraceContext({ ...(options.headers as Record<string, string>) }),
+            signal: controller.signal,
+          });
+          span.setAttribute('http.response.status_code', res.status);
+          if (!res.ok) {
+            recordSpanError(span, `HTTP ${res.status}`);
+          }
+          return res;
+        },
+        SpanKind.CLIENT,
+      );
 
       clearTimeout(timeoutId);
 
@@ -50,7 +50,7 @@ function getCacheEnabled(): boolean {
  * Sorted JSON replacer for deterministic cache keys (module-level for efficiency)
  * Ensures consistent cache keys regardless of property order
  */
-function sortedReplacer(_key: string, value: unknown): unknown {
+export function sortedReplacer(_key: string, value: unknown): unknown {
   if (value && typeof value === 'object' && !Array.isArray(value)) {
     return Object.keys(value as object)
       .sort()
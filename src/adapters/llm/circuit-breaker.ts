@@ -0,0 +1,278 @@
+/**
+ * Provider Circuit Breakers
+ *
+ * Per-provider breakers shared by every FailoverAdapter instance, so an outage
+ * detected while serving one task is skipped up front by all other tasks.
+ *
+ * States:
+ * - closed: requests flow; outcomes are recorded in a rolling window
+ * - open: provider is skipped until openMs has elapsed
+ * - half_open: a limited number of probe requests decide whether to close
+ *   (probe succeeds) or re-open (probe fails)
+ *
+ * The breaker trips when, with at least minRequests samples in the window,
+ * either the error rate or the slow-call rate reaches its threshold.
+ *
+ * Configuration: config.llm.circuitBreaker (LLM_CIRCUIT_* env vars)
+ */
+
+import { config } from "../../config/index.js";
+import { emit, log, TelemetryEvents } from "../../utils/telemetry.js";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerSettings {
+  windowMs: number;
+  minRequests: number;
+  errorRateThreshold: number;
+  slowCallMs: number;
+  slowCallRateThreshold: number;
+  openMs: number;
+  halfOpenMaxProbes: number;
+}
+
+/**
+ * Permission to send one request through a breaker
+ */
+export interface CircuitPermit {
+  /** True when the request is a half-open probe */
+  probe: boolean;
+}
+
+/**
+ * Breaker state as reported by /v1/status
+ */
+export interface CircuitBreakerSnapshot {
+  provider: string;
+  state: CircuitState;
+  samples: number;
+  error_rate: number;
+  slow_call_rate: number;
+  avg_latency_ms: number;
+  health_score: number;
+  opened_at: string | null;
+  retry_at: string | null;
+}
+
+interface Sample {
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export class ProviderCircuitBreaker {
+  private state: CircuitState = "closed";
+  private samples: Sample[] = [];
+  private openedAt: number | null = null;
+  private probesInFlight = 0;
+
+  constructor(
+    readonly provider: string,
+    private readonly settings: () => CircuitBreakerSettings,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Current state (moves open → half_open once openMs has elapsed)
+   */
+  getState(): CircuitState {
+    if (this.state === "open" && this.openedAt !== null) {
+      if (this.now() - this.openedAt >= this.settings().openMs) {
+        this.transition("half_open");
+      }
+    }
+    return this.state;
+  }
+
+  /**
+   * Ask to send a request. Returns null when the provider should be skipped.
+   */
+  acquire(): CircuitPermit | null {
+    const state = this.getState();
+    if (state === "closed") {
+      return { probe: false };
+    }
+    if (state === "half_open" && this.probesInFlight < this.settings().halfOpenMaxProbes) {
+      this.probesInFlight++;
+      return { probe: true };
+    }
+    return null;
+  }
+
+  /**
+   * Give back a permit without recording an outcome (e.g. caller aborted)
+   */
+  release(permit: CircuitPermit): void {
+    if (permit.probe) {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    }
+  }
+
+  recordSuccess(permit: CircuitPermit, latencyMs: number): void {
+    this.release(permit);
+    if (permit.probe && this.state === "half_open") {
+      this.samples = [];
+      this.transition("closed", { probe_latency_ms: latencyMs });
+      return;
+    }
+    this.addSample(true, latencyMs);
+    this.evaluate();
+  }
+
+  recordFailure(permit: CircuitPermit, latencyMs: number): void {
+    this.release(permit);
+    if (permit.probe && this.state === "half_open") {
+      this.trip("probe_failed");
+      return;
+    }
+    this.addSample(false, latencyMs);
+    this.evaluate();
+  }
+
+  /**
+   * Health score in [0, 1] used to order providers: 1 is fully healthy,
+   * 0 means open. Errors weigh fully, slow calls at half weight.
+   */
+  healthScore(): number {
+    const state = this.getState();
+    if (state === "open") return 0;
+    const { errorRate, slowCallRate } = this.rates();
+    return round((1 - errorRate) * (1 - 0.5 * slowCallRate));
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    const state = this.getState();
+    const { errorRate, slowCallRate, avgLatencyMs, count } = this.rates();
+    const retryAt =
+      state === "open" && this.openedAt !== null ? this.openedAt + this.settings().openMs : null;
+
+    return {
+      provider: this.provider,
+      state,
+      samples: count,
+      error_rate: round(errorRate),
+      slow_call_rate: round(slowCallRate),
+      avg_latency_ms: Math.round(avgLatencyMs),
+      health_score: this.healthScore(),
+      opened_at: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retry_at: retryAt !== null ? new Date(retryAt).toISOString() : null,
+    };
+  }
+
+  private addSample(ok: boolean, latencyMs: number): void {
+    this.samples.push({ at: this.now(), ok, latencyMs });
+    this.prune();
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - this.settings().windowMs;
+    while (this.samples.length > 0 && this.samples[0].at < cutoff) {
+      this.samples.shift();
+    }
+  }
+
+  private rates(): { errorRate: number; slowCallRate: number; avgLatencyMs: number; count: number } {
+    this.prune();
+    const count = this.samples.length;
+    if (count === 0) {
+      return { errorRate: 0, slowCallRate: 0, avgLatencyMs: 0, count };
+    }
+    const { slowCallMs } = this.settings();
+    const failures = this.samples.filter((s) => !s.ok).length;
+    const slow = this.samples.filter((s) => s.latencyMs >= slowCallMs).length;
+    const totalLatency = this.samples.reduce((sum, s) => sum + s.latencyMs, 0);
+    return {
+      errorRate: failures / count,
+      slowCallRate: slow / count,
+      avgLatencyMs: totalLatency / count,
+      count,
+    };
+  }
+
+  private evaluate(): void {
+    if (this.state !== "closed") return;
+
+    const settings = this.settings();
+    const { errorRate, slowCallRate, count } = this.rates();
+    if (count < settings.minRequests) return;
+
+    if (errorRate >= settings.errorRateThreshold) {
+      this.trip("error_rate", { error_rate: round(errorRate), samples: count });
+    } else if (slowCallRate >= settings.slowCallRateThreshold) {
+      this.trip("slow_calls", { slow_call_rate: round(slowCallRate), samples: count });
+    }
+  }
+
+  private trip(reason: string, data: Record<string, unknown> = {}): void {
+    this.openedAt = this.now();
+    this.transition("open", { reason, ...data });
+  }
+
+  private transition(to: CircuitState, data: Record<string, unknown> = {}): void {
+    const from = this.state;
+    if (from === to) return;
+    this.state = to;
+
+    if (to === "closed") {
+      this.openedAt = null;
+      this.probesInFlight = 0;
+    }
+
+    const event =
+      to === "open" ? TelemetryEvents.ProviderCircuitOpened :
+      to === "half_open" ? TelemetryEvents.ProviderCircuitHalfOpen :
+      TelemetryEvents.ProviderCircuitClosed;
+
+    emit(event, { provider: this.provider, from_state: from, to_state: to, ...data });
+
+    const logData = { provider: this.provider, from_state: from, to_state: to, ...data };
+    if (to === "open") {
+      log.warn(logData, "Provider circuit opened - skipping provider");
+    } else {
+      log.info(logData, "Provider circuit state changed");
+    }
+  }
+}
+
+function settingsFromConfig(): CircuitBreakerSettings {
+  return config.llm.circuitBreaker;
+}
+
+/**
+ * Whether circuit breaking is enabled (LLM_CIRCUIT_BREAKER_ENABLED)
+ */
+export function isCircuitBreakerEnabled(): boolean {
+  return config.llm.circuitBreaker.enabled;
+}
+
+const breakers = new Map<string, ProviderCircuitBreaker>();
+
+/**
+ * Get (or create) the shared breaker for a provider
+ */
+export function getCircuitBreaker(provider: string): ProviderCircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new ProviderCircuitBreaker(provider, settingsFromConfig);
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Snapshot of every breaker created so far (for /v1/status)
+ */
+export function getCircuitBreakerSnapshots(): CircuitBreakerSnapshot[] {
+  return [...breakers.values()].map((b) => b.snapshot());
+}
+
+/**
+ * Reset all breakers (useful for testing).
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
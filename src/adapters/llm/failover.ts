@@ -14,6 +14,11 @@
  * Configuration:
  * - LLM_FAILOVER_PROVIDERS: Comma-separated list (e.g., "anthropic,openai,fixtures")
  * - First provider is primary, others are fallbacks
+ *
+ * Circuit breaking (see ./circuit-breaker.ts):
+ * - Providers with an open circuit are skipped without paying retry latency
+ * - Degraded providers (low health score) are tried after healthy ones
+ * - Disable with LLM_CIRCUIT_BREAKER_ENABLED=false
  */
 
 import { log, emit, TelemetryEvents } from "../../utils/telemetry.js";
@@ -34,6 +39,26 @@ import type {
   CallOpts,
   DraftStreamEvent,
 } from "./types.js";
+import { UpstreamHTTPError } from "./errors.js";
+import { getCircuitBreaker, isCircuitBreakerEnabled } from "./circuit-breaker.js";
+
+/**
+ * Providers scoring below this (see ProviderCircuitBreaker.healthScore) are
+ * tried after healthy providers
+ */
+const DEGRADED_HEALTH_SCORE = 0.5;
+
+/**
+ * Whether a failure says something about provider health. Caller aborts and
+ * client errors (bad request, auth) must not trip the breaker.
+ */
+function isProviderFault(error: unknown, opts: CallOpts): boolean {
+  if (opts.abortSignal?.aborted) return false;
+  if (error instanceof UpstreamHTTPError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+}
 
 /**
  * Failover adapter that tries multiple providers in sequence
@@ -66,6 +91,49 @@ export class FailoverAdapter implements LLMAdapter {
     };
   }
 
+  /**
+   * Order adapters for a request.
+   *
+   * With circuit breaking enabled, providers whose breaker is open are skipped
+   * up front. Healthy providers (and half-open ones, so they receive probe
+   * traffic) keep their configured order; degraded providers move to the back.
+   */
+  private planRoute(operation: string, opts: CallOpts): LLMAdapter[] {
+    if (!isCircuitBreakerEnabled()) {
+      return this.adapters;
+    }
+
+    const healthy: LLMAdapter[] = [];
+    const degraded: LLMAdapter[] = [];
+
+    for (const adapter of this.adapters) {
+      const breaker = getCircuitBreaker(adapter.name);
+      const state = breaker.getState();
+
+      if (state === "open") {
+        this.emitSkipped(adapter, operation, opts, state);
+        continue;
+      }
+
+      if (state === "closed" && breaker.healthScore() < DEGRADED_HEALTH_SCORE) {
+        degraded.push(adapter);
+      } else {
+        healthy.push(adapter);
+      }
+    }
+
+    return [...healthy, ...degraded];
+  }
+
+  private emitSkipped(adapter: LLMAdapter, operation: string, opts: CallOpts, state: string): void {
+    emit(TelemetryEvents.ProviderCircuitSkipped, {
+      operation,
+      provider: adapter.name,
+      circuit_state: state,
+      request_id: opts.requestId,
+    });
+  }
+
   /**
    * Execute operation with automatic failover
    */
@@ -74,23 +142,43 @@ export class FailoverAdapter implements LLMAdapter {
     fn: (adapter: LLMAdapter) => Promise<T>,
     opts: CallOpts
   ): Promise<T> {
+    const breakersEnabled = isCircuitBreakerEnabled();
+    const route = this.planRoute(operation, opts);
     const errors: Array<{ provider: string; error: unknown }> = [];
 
-    for (let i = 0; i < this.adapters.length; i++) {
-      const adapter = this.adapters[i];
-      const isLastAdapter = i === this.adapters.length - 1;
+    for (const adapter of this.adapters) {
+      if (!route.includes(adapter)) {
+        errors.push({ provider: adapter.name, error: new Error("circuit open") });
+      }
+    }
+
+    for (let i = 0; i < route.length; i++) {
+      const adapter = route[i];
+      const next = route[i + 1];
+      const breaker = breakersEnabled ? getCircuitBreaker(adapter.name) : undefined;
+      const permit = breaker?.acquire();
+
+      if (breaker && !permit) {
+        // Half-open with its probe slots taken
+        this.emitSkipped(adapter, operation, opts, breaker.getState());
+        errors.push({ provider: adapter.name, error: new Error("circuit open") });
+        continue;
+      }
+
+      const startedAt = Date.now();
 
       try {
         // Try the adapter
         const result = await fn(adapter);
+        if (breaker && permit) breaker.recordSuccess(permit, Date.now() - startedAt);
 
         // Success - emit telemetry if this was a failover (not primary)
-        if (i > 0) {
+        if (adapter !== this.adapters[0]) {
           emit(TelemetryEvents.ProviderFailoverSuccess, {
             operation,
             primary_provider: this.adapters[0].name,
             fallback_provider: adapter.name,
-            fallback_index: i,
+            fallback_index: this.adapters.indexOf(adapter),
             failed_providers: errors.map((e) => e.provider),
             request_id: opts.requestId,
           });
@@ -100,7 +188,7 @@ export class FailoverAdapter implements LLMAdapter {
               operation,
               primary: this.adapters[0].name,
               fallback: adapter.name,
-              fallback_index: i,
+              fallback_index: this.adapters.indexOf(adapter),
             },
             "Provider failover successful"
           );
@@ -108,63 +196,68 @@ export class FailoverAdapter implements LLMAdapter {
 
         return result;
       } catch (error) {
+        if (breaker && permit) {
+          if (isProviderFault(error, opts)) {
+            breaker.recordFailure(permit, Date.now() - startedAt);
+          } else {
+            breaker.release(permit);
+          }
+        }
         errors.push({ provider: adapter.name, error });
 
-        if (isLastAdapter) {
-          // All adapters exhausted - aggregate all errors for debuggability
-          emit(TelemetryEvents.ProviderFailoverExhausted, {
+        if (next) {
+          // Not last adapter - emit failover event and try next
+          emit(TelemetryEvents.ProviderFailover, {
             operation,
-            providers_tried: this.adapters.map((a) => a.name),
-            total_attempts: this.adapters.length,
+            from_provider: adapter.name,
+            to_provider: next.name,
+            fallback_index: this.adapters.indexOf(next),
+            reason: error instanceof Error ? error.message : String(error),
             request_id: opts.requestId,
           });
 
-          log.error(
+          log.warn(
             {
               operation,
-              providers_tried: this.adapters.map((a) => a.name),
-              errors: errors.map((e) => ({
-                provider: e.provider,
-                message: e.error instanceof Error ? e.error.message : String(e.error),
-              })),
+              from: adapter.name,
+              to: next.name,
+              reason: error instanceof Error ? error.message : String(error),
             },
-            "Provider failover exhausted - all providers failed"
-          );
-
-          // Throw AggregateError with all provider failures for incident response
-          const errorMessages = errors.map(
-            (e) => `${e.provider}: ${e.error instanceof Error ? e.error.message : String(e.error)}`
-          );
-          throw new AggregateError(
-            errors.map((e) => e.error),
-            `All ${this.adapters.length} providers failed for ${operation}: ${errorMessages.join("; ")}`
+            "Provider failed, trying fallback"
           );
         }
-
-        // Not last adapter - emit failover event and try next
-        emit(TelemetryEvents.ProviderFailover, {
-          operation,
-          from_provider: adapter.name,
-          to_provider: this.adapters[i + 1].name,
-          fallback_index: i + 1,
-          reason: error instanceof Error ? error.message : String(error),
-          request_id: opts.requestId,
-        });
-
-        log.warn(
-          {
-            operation,
-            from: adapter.name,
-            to: this.adapters[i + 1].name,
-            reason: error instanceof Error ? error.message : String(error),
-          },
-          "Provider failed, trying fallback"
-        );
       }
     }
 
-    // Should never reach here
-    throw new Error("Failover logic error - no result or error");
+    // All adapters exhausted (or skipped) - aggregate all errors for debuggability
+    emit(TelemetryEvents.ProviderFailoverExhausted, {
+      operation,
+      providers_tried: route.map((a) => a.name),
+      providers_skipped: this.adapters.filter((a) => !route.includes(a)).map((a) => a.name),
+      total_attempts: route.length,
+      request_id: opts.requestId,
+    });
+
+    log.error(
+      {
+        operation,
+        providers_tried: route.map((a) => a.name),
+        errors: errors.map((e) => ({
+          provider: e.provider,
+          message: e.error instanceof Error ? e.error.message : String(e.error),
+        })),
+      },
+      "Provider failover exhausted - all providers failed"
+    );
+
+    // Throw AggregateError with all provider failures for incident response
+    const errorMessages = errors.map(
+      (e) => `${e.provider}: ${e.error instanceof Error ? e.error.message : String(e.error)}`
+    );
+    throw new AggregateError(
+      errors.map((e) => e.error),
+      `All ${this.adapters.length} providers failed for ${operation}: ${errorMessages.join("; ")}`
+    );
   }
 
   async draftGraph(args: DraftGraphArgs, opts: CallOpts): Promise<DraftGraphResult> {
@@ -207,14 +300,15 @@ export class FailoverAdapter implements LLMAdapter {
   }
 
   /**
-   * Stream support - delegates to primary adapter only
-   * (Failover not supported for streaming to maintain simplicity)
+   * Stream support - delegates to the first routable adapter
+   * (Failover not supported mid-stream to maintain simplicity; providers with
+   * an open circuit are skipped up front)
    */
   async *streamDraftGraph(
     args: DraftGraphArgs,
     opts: CallOpts
   ): AsyncIterable<DraftStreamEvent> {
-    const primary = this.adapters[0];
+    const primary = this.planRoute("draft_graph_stream", opts)[0] ?? this.adapters[0];
     if (!primary.streamDraftGraph) {
       throw new Error(`Primary adapter ${primary.name} does not support streaming`);
     }
@@ -0,0 +1,354 @@
+/**
+ * Hedged Request Adapter - Tail-Latency Protection for Fast-Tier Tasks
+ *
+ * Wraps a primary adapter with a secondary (provider and/or model). If the
+ * primary has not responded within a percentile deadline, the same request is
+ * fired at the secondary and whichever valid result arrives first wins. The
+ * losing call is cancelled through CallOpts.abortSignal.
+ *
+ * Deadline:
+ * - Until minSamples primary latencies have been observed: initialDelayMs
+ * - Afterwards: the configured percentile of recent primary latencies,
+ *   floored at minDelayMs
+ *
+ * Errors:
+ * - A primary failure before the hedge fires is returned as-is (failover is
+ *   FailoverAdapter's job, not ours)
+ * - Once both calls are in flight, the first success wins; if both fail the
+ *   primary's error is thrown
+ *
+ * Cost: usage from both calls is reported in assist.llm.hedge_completed once
+ * the loser settles. A loser cancelled mid-flight returns no usage, but its
+ * prompt was already sent, so it is reported with cancelled: true and an
+ * estimated input token count (the winner's input tokens for the same
+ * request, or a character-based estimate of the arguments).
+ *
+ * Configuration: config.llm.hedging (LLM_HEDGE_* env vars)
+ */
+
+import { config } from "../../config/index.js";
+import { toCeeTask } from "../../config/model-routing.js";
+import { emit, log, calculateCost, TelemetryEvents } from "../../utils/telemetry.js";
+import { estimateTokens } from "../../utils/costGuard.js";
+import type {
+  LLMAdapter,
+  DraftGraphArgs,
+  DraftGraphResult,
+  SuggestOptionsArgs,
+  SuggestOptionsResult,
+  ExplainDiffArgs,
+  ExplainDiffResult,
+  RepairGraphArgs,
+  RepairGraphResult,
+  ClarifyBriefArgs,
+  ClarifyBriefResult,
+  CritiqueGraphArgs,
+  CritiqueGraphResult,
+  CallOpts,
+  DraftStreamEvent,
+  UsageMetrics,
+} from "./types.js";
+
+// Recent primary latencies kept per adapter/task for the percentile deadline
+const MAX_LATENCY_SAMPLES = 200;
+
+export interface HedgeSettings {
+  percentile: number;
+  initialDelayMs: number;
+  minDelayMs: number;
+  minSamples: number;
+}
+
+/**
+ * Rolling primary latency samples used to derive the hedge deadline
+ */
+export class LatencyTracker {
+  private samples: number[] = [];
+
+  record(latencyMs: number): void {
+    this.samples.push(latencyMs);
+    if (this.samples.length > MAX_LATENCY_SAMPLES) {
+      this.samples.shift();
+    }
+  }
+
+  get count(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Nearest-rank percentile of recorded samples (undefined when empty)
+   */
+  percentile(p: number): number | undefined {
+    if (this.samples.length === 0) return undefined;
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const rank = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+    return sorted[rank];
+  }
+
+  deadlineMs(settings: HedgeSettings): number {
+    if (this.samples.length < settings.minSamples) {
+      return settings.initialDelayMs;
+    }
+    return Math.max(settings.minDelayMs, this.percentile(settings.percentile) ?? settings.initialDelayMs);
+  }
+}
+
+const trackers = new Map<string, LatencyTracker>();
+
+function getLatencyTracker(key: string): LatencyTracker {
+  let tracker = trackers.get(key);
+  if (!tracker) {
+    tracker = new LatencyTracker();
+    trackers.set(key, tracker);
+  }
+  return tracker;
+}
+
+/**
+ * Whether hedging is enabled for a router task (e.g. "clarify_brief")
+ */
+export function isHedgingEnabledForTask(task?: string): boolean {
+  if (!task) return false;
+  const { enabled, tasks } = config.llm.hedging;
+  if (!enabled) return false;
+  // LLM_HEDGE_TASKS uses CEE task names (as in TASK_MODEL_DEFAULTS)
+  return tasks.includes(toCeeTask(task) ?? task);
+}
+
+type Role = "primary" | "secondary";
+
+interface Attempt<T> {
+  role: Role;
+  adapter: LLMAdapter;
+  controller: AbortController;
+  startedAt: number;
+  promise: Promise<T>;
+  result?: T;
+  error?: unknown;
+}
+
+
+/**
+ * Adapter that races a secondary against a slow primary
+ */
+export class HedgedAdapter implements LLMAdapter {
+  readonly name: string;
+  readonly model: string;
+  private readonly latency: LatencyTracker;
+
+  constructor(
+    private readonly primary: LLMAdapter,
+    private readonly secondary: LLMAdapter,
+    private readonly task: string = "unknown"
+  ) {
+    // Primary determines name/model for telemetry
+    this.name = primary.name;
+    this.model = primary.model;
+    this.latency = getLatencyTracker(`${task}:${primary.name}:${primary.model}`);
+  }
+
+  /**
+   * Current hedge deadline for this task
+   */
+  getHedgeDelayMs(): number {
+    return this.latency.deadlineMs(config.llm.hedging);
+  }
+
+  private async hedge<T extends { usage: UsageMetrics }>(
+    operation: string,
+    args: unknown,
+    call: (adapter: LLMAdapter, opts: CallOpts) => Promise<T>,
+    opts: CallOpts
+  ): Promise<T> {
+    const delayMs = this.getHedgeDelayMs();
+    const startedAt = Date.now();
+    const attempts: Attempt<T>[] = [];
+
+    const launch = (role: Role, adapter: LLMAdapter): Attempt<T> => {
+      // Per-attempt controller so the loser can be cancelled independently,
+      // while still honouring the caller's abort signal
+      const controller = new AbortController();
+      const onCallerAbort = () => controller.abort();
+      if (opts.abortSignal?.aborted) {
+        controller.abort();
+      } else {
+        opts.abortSignal?.addEventListener("abort", onCallerAbort, { once: true });
+      }
+
+      const attempt = { role, adapter, controller, startedAt: Date.now() } as Attempt<T>;
+      attempt.promise = call(adapter, { ...opts, abortSignal: controller.signal })
+        .then((result) => {
+          attempt.result = result;
+          return result;
+        })
+        .catch((error: unknown) => {
+          attempt.error = error;
+          throw error;
+        })
+        .finally(() => opts.abortSignal?.removeEventListener("abort", onCallerAbort));
+
+      attempts.push(attempt);
+      return attempt;
+    };
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const settle = (winner: Attempt<T> | undefined, error?: unknown) => {
+        settled = true;
+        if (timer) clearTimeout(timer);
+
+        if (winner) {
+          if (winner.role === "primary") {
+            this.latency.record(Date.now() - winner.startedAt);
+          }
+          for (const other of attempts) {
+            if (other !== winner) other.controller.abort();
+          }
+          resolve(winner.result as T);
+        } else {
+          reject(error);
+        }
+
+        if (attempts.length > 1) {
+          void this.reportHedge(operation, args, attempts, winner, startedAt, opts);
+        }
+      };
+
+      const watch = (attempt: Attempt<T>) => {
+        attempt.promise.then(
+          () => {
+            if (!settled) settle(attempt);
+          },
+          (error: unknown) => {
+            if (settled) return;
+            const hedgePending = attempts.length === 1;
+            if (attempt.role === "primary" && hedgePending) {
+              // Failed before the deadline - hedging only protects against slowness
+              settle(undefined, error);
+              return;
+            }
+            if (attempts.every((a) => a.error !== undefined)) {
+              settle(undefined, attempts[0].error);
+            }
+          }
+        );
+      };
+
+      watch(launch("primary", this.primary));
+
+      timer = setTimeout(() => {
+        if (settled || opts.abortSignal?.aborted) return;
+
+        emit(TelemetryEvents.LlmHedgeFired, {
+          task: this.task,
+          operation,
+          primary_provider: this.primary.name,
+          primary_model: this.primary.model,
+          secondary_provider: this.secondary.name,
+          secondary_model: this.secondary.model,
+          hedge_delay_ms: delayMs,
+          request_id: opts.requestId,
+        });
+
+        log.info(
+          { task: this.task, operation, hedge_delay_ms: delayMs, secondary: this.secondary.name },
+          "Primary slower than hedge deadline, firing secondary request"
+        );
+
+        watch(launch("secondary", this.secondary));
+      }, delayMs);
+    });
+  }
+
+  /**
+   * Emit cost and outcome for both calls once the loser has settled
+   */
+  private async reportHedge<T extends { usage: UsageMetrics }>(
+    operation: string,
+    args: unknown,
+    attempts: Attempt<T>[],
+    winner: Attempt<T> | undefined,
+    startedAt: number,
+    opts: CallOpts
+  ): Promise<void> {
+    await Promise.allSettled(attempts.map((a) => a.promise));
+
+    // Same request to both adapters, so the winner's prompt size stands in for the loser's
+    const promptTokens = winner?.result?.usage.input_tokens ?? estimateTokens(JSON.stringify(args).length);
+
+    const calls = attempts.map((a) => {
+      const cancelled = a !== winner && a.result === undefined && a.controller.signal.aborted;
+      const inputTokens = a.result?.usage.input_tokens ?? (cancelled ? promptTokens : 0);
+      const outputTokens = a.result?.usage.output_tokens ?? 0;
+      return {
+        role: a.role,
+        provider: a.adapter.name,
+        model: a.adapter.model,
+        succeeded: a.result !== undefined,
+        cancelled,
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        tokens_estimated: cancelled,
+        cost_usd: calculateCost(a.adapter.model, inputTokens, outputTokens),
+      };
+    });
+
+    emit(TelemetryEvents.LlmHedgeCompleted, {
+      task: this.task,
+      operation,
+      winner: winner?.role ?? "none",
+      winner_provider: winner?.adapter.name,
+      winner_model: winner?.adapter.model,
+      duration_ms: Date.now() - startedAt,
+      calls,
+      total_input_tokens: calls.reduce((sum, c) => sum + c.input_tokens, 0),
+      total_output_tokens: calls.reduce((sum, c) => sum + c.output_tokens, 0),
+      total_cost_usd: calls.reduce((sum, c) => sum + c.cost_usd, 0),
+      request_id: opts.requestId,
+    });
+  }
+
+  async draftGraph(args: DraftGraphArgs, opts: CallOpts): Promise<DraftGraphResult> {
+    return this.hedge("draft_graph", args, (adapter, o) => adapter.draftGraph(args, o), opts);
+  }
+
+  async suggestOptions(args: SuggestOptionsArgs, opts: CallOpts): Promise<SuggestOptionsResult> {
+    return this.hedge("suggest_options", args, (adapter, o) => adapter.suggestOptions(args, o), opts);
+  }
+
+  async repairGraph(args: RepairGraphArgs, opts: CallOpts): Promise<RepairGraphResult> {
+    return this.hedge("repair_graph", args, (adapter, o) => adapter.repairGraph(args, o), opts);
+  }
+
+  async clarifyBrief(args: ClarifyBriefArgs, opts: CallOpts): Promise<ClarifyBriefResult> {
+    return this.hedge("clarify_brief", args, (adapter, o) => adapter.clarifyBrief(args, o), opts);
+  }
+
+  async critiqueGraph(args: CritiqueGraphArgs, opts: CallOpts): Promise<CritiqueGraphResult> {
+    return this.hedge("critique_graph", args, (adapter, o) => adapter.critiqueGraph(args, o), opts);
+  }
+
+  async explainDiff(args: ExplainDiffArgs, opts: CallOpts): Promise<ExplainDiffResult> {
+    return this.hedge("explain_diff", args, (adapter, o) => adapter.explainDiff(args, o), opts);
+  }
+
+  /**
+   * Streams are not hedged - delegates to the primary
+   */
+  async *streamDraftGraph(args: DraftGraphArgs, opts: CallOpts): AsyncIterable<DraftStreamEvent> {
+    if (!this.primary.streamDraftGraph) {
+      throw new Error(`Primary adapter ${this.primary.name} does not support streaming`);
+    }
+    yield* this.primary.streamDraftGraph(args, opts);
+  }
+}
+
+/**
+ * Reset latency samples (useful for testing).
+ */
+export function resetHedgeLatencies(): void {
+  trackers.clear();
+}
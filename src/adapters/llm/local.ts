@@ -0,0 +1,872 @@
+/**
+ * Local / Self-Hosted LLM Adapter
+ *
+ * Talks to an operator-configured base URL so the full CEE pipeline can run
+ * on-prem (air-gapped deployments) or against a local stand-in model during
+ * development instead of fixtures.
+ *
+ * Supported wire formats (LOCAL_LLM_API_STYLE):
+ * - "openai": OpenAI-compatible `POST {base}/chat/completions`
+ *   (vLLM, llama.cpp server, LM Studio). Base URL usually ends in `/v1`.
+ * - "ollama": Ollama native `POST {base}/api/chat` with NDJSON streaming.
+ *
+ * Configuration:
+ * - LOCAL_LLM_BASE_URL: Server base URL (required when LLM_PROVIDER=local)
+ * - LOCAL_LLM_API_STYLE: "openai" | "ollama" (default: "openai")
+ * - LOCAL_LLM_MODEL: Model name served by the local server (falls back to LLM_MODEL)
+ * - LOCAL_LLM_API_KEY: Optional bearer token for gateways in front of the server
+ * - LOCAL_LLM_TIMEOUT_MS: Per-call timeout (default: REASONING_MODEL_TIMEOUT_MS)
+ * - LOCAL_LLM_JSON_MODE: Request JSON-constrained output (default: true)
+ *
+ * Prompts come from the centralized prompt management system so prompt
+ * versions and experiments apply to local models exactly as to hosted ones.
+ */
+
+import { z } from "zod";
+import { config } from "../../config/index.js";
+import { REASONING_MODEL_TIMEOUT_MS } from "../../config/timeouts.js";
+import type { GraphT, NodeT, EdgeT } from "../../schemas/graph.js";
+import { ProvenanceSource, NodeKind, StructuredProvenance, NodeData } from "../../schemas/graph.js";
+import { GRAPH_MAX_NODES, GRAPH_MAX_EDGES } from "../../config/graphCaps.js";
+import { log, emit, TelemetryEvents } from "../../utils/telemetry.js";
+import { formatEdgeId, type CorrectionCollector } from "../../cee/corrections.js";
+import { withRetry } from "../../utils/retry.js";
+import { generateDeterministicLayout } from "../../utils/layout.js";
+import type { DocPreview } from "../../services/docProcessing.js";
+import type {
+  LLMAdapter,
+  DraftGraphArgs,
+  DraftGraphResult,
+  SuggestOptionsArgs,
+  SuggestOptionsResult,
+  RepairGraphArgs,
+  RepairGraphResult,
+  ClarifyBriefArgs,
+  ClarifyBriefResult,
+  CritiqueGraphArgs,
+  CritiqueGraphResult,
+  ExplainDiffArgs,
+  ExplainDiffResult,
+  CallOpts,
+  DraftStreamEvent,
+  UsageMetrics,
+} from "./types.js";
+import { UpstreamTimeoutError, UpstreamHTTPError } from "./errors.js";
+import { makeIdempotencyKey } from "./idempotency.js";
+import { normaliseDraftResponse, ensureControllableFactorBaselines } from "./normalisation.js";
+import { getMaxTokensFromConfig } from "./router.js";
+import { getSystemPrompt, getSystemPromptMeta } from "./prompt-loader.js";
+
+// ============================================================================
+// Zod schemas for local model response validation (same contract as hosted providers)
+
+const LocalNode = z.object({
+  id: z.string().min(1),
+  kind: NodeKind,
+  label: z.string().optional(),
+  body: z.string().max(200).optional(),
+  data: NodeData.optional(),
+});
+
+const EdgeStrength = z.object({
+  mean: z.number(),
+  std: z.number().positive(),
+}).optional();
+
+const LocalEdge = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  strength: EdgeStrength,
+  exists_probability: z.number().min(0).max(1).optional(),
+  strength_mean: z.number().optional(),
+  strength_std: z.number().optional(),
+  belief_exists: z.number().optional(),
+  effect_direction: z.enum(["positive", "negative"]).optional(),
+  weight: z.number().optional(),
+  belief: z.number().min(0).max(1).optional(),
+  provenance: StructuredProvenance.optional(),
+  provenance_source: ProvenanceSource.optional(),
+});
+
+const LocalDraftResponse = z.object({
+  nodes: z.array(LocalNode),
+  edges: z.array(LocalEdge),
+  rationales: z.array(z.object({ target: z.string(), why: z.string() })).optional(),
+});
+
+const LocalOptionsResponse = z.object({
+  options: z.array(
+    z.object({
+      id: z.string().min(1),
+      title: z.string().min(3),
+      pros: z.array(z.string()).min(2).max(3),
+      cons: z.array(z.string()).min(2).max(3),
+      evidence_to_gather: z.array(z.string()).min(2).max(3),
+    })
+  ),
+});
+
+const LocalClarifyResponse = z.object({
+  questions: z.array(
+    z.object({
+      question: z.string().min(10),
+      choices: z.array(z.string()).optional(),
+      why_we_ask: z.string().min(20),
+      impacts_draft: z.string().min(20),
+    })
+  ).min(1).max(5),
+  confidence: z.number().min(0).max(1),
+  should_continue: z.boolean(),
+});
+
+const LocalCritiqueResponse = z.object({
+  issues: z.array(
+    z.object({
+      level: z.enum(["BLOCKER", "IMPROVEMENT", "OBSERVATION"]),
+      note: z.string().min(10).max(280),
+      target: z.string().optional(),
+    })
+  ),
+  suggested_fixes: z.array(z.string()).max(5),
+  overall_quality: z.enum(["poor", "fair", "good", "excellent"]).optional(),
+});
+
+const LocalExplainDiffResponse = z.object({
+  rationales: z.array(
+    z.object({
+      target: z.string().min(1),
+      why: z.string().min(10).max(280),
+      provenance_source: z.string().optional(),
+    })
+  ).min(1),
+});
+
+/**
+ * Explain-diff has no managed prompt, so the local adapter carries its own
+ * (mirrors the instructions used by the Anthropic adapter).
+ */
+const EXPLAIN_DIFF_SYSTEM_PROMPT = `You are an expert at explaining changes to decision graphs.
+
+For each added node or edge in the patch, write a rationale:
+- target: The node ID or edge ID (format "from::to::index") the rationale refers to
+- why: A concise explanation (10-280 chars) of why the change helps the decision model
+- provenance_source: (optional) "user_brief" when the change is grounded in the brief
+
+Return rationales sorted by target.
+
+## Output Format (JSON)
+{
+  "rationales": [
+    { "target": "opt_2", "why": "Adds a lower-cost alternative mentioned in the brief", "provenance_source": "user_brief" }
+  ]
+}
+
+Respond ONLY with valid JSON.`;
+
+const RAW_LLM_TEXT_MAX_CHARS = 10_000;
+const RAW_LLM_PREVIEW_MAX_CHARS = 500;
+
+/** Emit a streaming progress stage at most every N received characters */
+const STREAM_PROGRESS_INTERVAL_CHARS = 2_000;
+
+export type LocalApiStyle = "openai" | "ollama";
+
+/**
+ * A single chat completion request against the local server.
+ */
+interface LocalChatRequest {
+  operation: string;
+  system: string;
+  user: string;
+  temperature: number;
+  maxTokens?: number;
+  seed?: number;
+}
+
+/**
+ * Normalised completion returned by either wire format.
+ */
+interface LocalChatResponse {
+  content: string;
+  usage: UsageMetrics;
+  finishReason?: string;
+  latencyMs: number;
+}
+
+/**
+ * An in-flight HTTP call to the local server.
+ */
+interface InFlightCall {
+  response: Response;
+  release: () => void;
+  fail: (error: unknown) => unknown;
+  startTime: number;
+}
+
+function getLocalTimeoutMs(): number {
+  return config.llm.localTimeoutMs ?? REASONING_MODEL_TIMEOUT_MS;
+}
+
+/**
+ * Strip markdown code fences that small local models often add despite JSON mode.
+ */
+export function extractJsonText(content: string): string {
+  let jsonText = content.trim();
+  if (jsonText.startsWith("```json")) {
+    jsonText = jsonText.replace(/^```json\s*\n/, "").replace(/\n```\s*$/, "");
+  } else if (jsonText.startsWith("```")) {
+    jsonText = jsonText.replace(/^```\s*\n/, "").replace(/\n```\s*$/, "");
+  }
+  return jsonText;
+}
+
+function formatSchemaErrors(error: z.ZodError): string {
+  const flatErrors = error.flatten();
+  const fieldIssues = Object.entries(flatErrors.fieldErrors || {})
+    .map(([field, msgs]) => `${field}: ${(msgs as string[]).join(", ")}`)
+    .join("; ");
+  const formIssues = (flatErrors.formErrors || []).join("; ");
+  return [fieldIssues, formIssues].filter(Boolean).join(" | ") || "unknown validation error";
+}
+
+function buildDocContext(docs: DocPreview[]): string {
+  return docs.length
+    ? `\n\n## Attached Documents\n${docs
+        .map((d) => {
+          const locationInfo = d.locationHint ? ` (${d.locationHint})` : "";
+          return `**${d.source}** (${d.type}${locationInfo}):\n${d.preview}`;
+        })
+        .join("\n\n")}`
+    : "";
+}
+
+function sortGraph(graph: { nodes: NodeT[]; edges: EdgeT[] }): { nodes: NodeT[]; edges: EdgeT[] } {
+  const nodesSorted = [...graph.nodes].sort((a, b) => a.id.localeCompare(b.id));
+
+  // Assign stable IDs to edges if missing
+  const edgeGroups = new Map<string, number>();
+  const edgesWithIds = graph.edges.map((edge) => {
+    const key = `${edge.from}::${edge.to}`;
+    const idx = edgeGroups.get(key) || 0;
+    edgeGroups.set(key, idx + 1);
+    return { ...edge, id: edge.id || `${key}::${idx}` };
+  });
+
+  const edgesSorted = [...edgesWithIds].sort((a, b) => {
+    const from = a.from.localeCompare(b.from);
+    if (from !== 0) return from;
+    const to = a.to.localeCompare(b.to);
+    if (to !== 0) return to;
+    return (a.id ?? "").localeCompare(b.id ?? "");
+  });
+
+  return { nodes: nodesSorted, edges: edgesSorted };
+}
+
+/**
+ * Normalise, validate, cap and sort a raw graph payload from the model.
+ * Shared by draft, streaming draft and repair so all paths apply identical guards.
+ */
+export function parseGraphPayload(
+  rawJson: unknown,
+  operation: string,
+  collector?: CorrectionCollector
+): { nodes: NodeT[]; edges: EdgeT[]; rationales: Array<{ target: string; why: string }> } {
+  const normalised = normaliseDraftResponse(rawJson);
+  const { response: withBaselines, defaultedFactors } = ensureControllableFactorBaselines(normalised);
+  if (defaultedFactors.length > 0) {
+    log.info({ defaultedFactors }, `Defaulted baseline values for ${defaultedFactors.length} controllable factor(s)`);
+  }
+
+  const parseResult = LocalDraftResponse.safeParse(withBaselines);
+  if (!parseResult.success) {
+    log.error({
+      errors: parseResult.error.flatten(),
+      operation,
+      event: "llm.validation.schema_failed",
+    }, "Local LLM response failed schema validation after normalisation");
+    throw new Error(`local_response_invalid_schema: ${formatSchemaErrors(parseResult.error)}`);
+  }
+
+  const parsed = parseResult.data;
+
+  if (parsed.nodes.length > GRAPH_MAX_NODES) {
+    log.warn({ count: parsed.nodes.length, max: GRAPH_MAX_NODES }, "Local LLM returned too many nodes, capping");
+    parsed.nodes = parsed.nodes.slice(0, GRAPH_MAX_NODES);
+  }
+  if (parsed.edges.length > GRAPH_MAX_EDGES) {
+    log.warn({ count: parsed.edges.length, max: GRAPH_MAX_EDGES }, "Local LLM returned too many edges, capping");
+    parsed.edges = parsed.edges.slice(0, GRAPH_MAX_EDGES);
+  }
+
+  // Filter edges to only valid node IDs (Stage 5: Dangling Edge Filter #1)
+  const nodeIds = new Set(parsed.nodes.map((n) => n.id));
+  const danglingEdges = parsed.edges.filter((e) => !nodeIds.has(e.from) || !nodeIds.has(e.to));
+
+  if (danglingEdges.length > 0) {
+    log.warn({
+      event: `llm.${operation === "repair_graph" ? "repair" : "draft"}.dangling_edges_removed`,
+      removed_count: danglingEdges.length,
+      dangling_edges: danglingEdges.map((e) => ({
+        from: e.from,
+        to: e.to,
+        missing_from: !nodeIds.has(e.from),
+        missing_to: !nodeIds.has(e.to),
+      })).slice(0, 10),
+    }, `Removed ${danglingEdges.length} edge(s) with dangling node references`);
+
+    if (collector) {
+      for (const edge of danglingEdges) {
+        const missingNode = !nodeIds.has(edge.from) ? edge.from : edge.to;
+        collector.addByStage(
+          5,
+          "edge_removed",
+          { edge_id: formatEdgeId(edge.from, edge.to) },
+          `Node "${missingNode}" not found`,
+          edge,
+          null
+        );
+      }
+    }
+  }
+
+  const validEdges = parsed.edges.filter((e) => nodeIds.has(e.from) && nodeIds.has(e.to));
+  const sorted = sortGraph({ nodes: parsed.nodes as NodeT[], edges: validEdges as EdgeT[] });
+
+  return { ...sorted, rationales: parsed.rationales || [] };
+}
+
+/**
+ * Local/self-hosted adapter implementing the LLMAdapter interface.
+ */
+export class LocalAdapter implements LLMAdapter {
+  readonly name = "local" as const;
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiStyle: LocalApiStyle;
+
+  constructor(model?: string) {
+    const baseUrl = config.llm.localBaseUrl;
+    if (!baseUrl) {
+      throw new Error("LOCAL_LLM_BASE_URL environment variable is required but not set");
+    }
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.apiStyle = config.llm.localApiStyle;
+    this.model = model || config.llm.localModel || config.llm.model || "llama3.1";
+  }
+
+  async draftGraph(args: DraftGraphArgs, opts: CallOpts): Promise<DraftGraphResult> {
+    const request = this.buildDraftRequest(args);
+
+    log.info(
+      { brief_chars: args.brief.length, doc_count: args.docs?.length ?? 0, model: this.model, provider: "local", api_style: this.apiStyle },
+      "calling local LLM for draft"
+    );
+
+    const response = await this.complete(request, opts);
+    return this.buildDraftResult(args, request, response, opts.collector);
+  }
+
+  /**
+   * Stream draft generation. The local server streams tokens; we surface
+   * progress stages while accumulating, then validate the complete graph once.
+   */
+  async *streamDraftGraph(args: DraftGraphArgs, opts: CallOpts): AsyncIterable<DraftStreamEvent> {
+    const request = this.buildDraftRequest(args);
+    yield { type: "stage", stage: "drafting", data: { provider: "local", model: this.model } };
+
+    const startTime = Date.now();
+    let content = "";
+    let usage: UsageMetrics = { input_tokens: 0, output_tokens: 0 };
+    let finishReason: string | undefined;
+    let lastProgressAt = 0;
+
+    try {
+      for await (const chunk of this.completeStream(request, opts)) {
+        if (chunk.delta) {
+          content += chunk.delta;
+          if (content.length - lastProgressAt >= STREAM_PROGRESS_INTERVAL_CHARS) {
+            lastProgressAt = content.length;
+            yield { type: "stage", stage: "streaming", data: { received_chars: content.length } };
+          }
+        }
+        if (chunk.usage) usage = chunk.usage;
+        if (chunk.finishReason) finishReason = chunk.finishReason;
+      }
+
+      const result = this.buildDraftResult(
+        args,
+        request,
+        { content, usage, finishReason, latencyMs: Date.now() - startTime },
+        opts.collector
+      );
+      yield { type: "complete", result };
+    } catch (error) {
+      log.error({ error, request_id: opts.requestId }, "Local LLM streaming draft failed");
+      yield { type: "error", error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async suggestOptions(args: SuggestOptionsArgs, opts: CallOpts): Promise<SuggestOptionsResult> {
+    const existingContext = args.existingOptions?.length
+      ? `\n\n## Existing Options\nAvoid duplicating these:\n${args.existingOptions.map((o) => `- ${o}`).join("\n")}`
+      : "";
+    const constraintsContext = args.constraints
+      ? `\n\n## Constraints\n${JSON.stringify(args.constraints, null, 2)}`
+      : "";
+
+    const response = await this.complete({
+      operation: "suggest_options",
+      system: getSystemPrompt("suggest_options"),
+      user: `## Goal\n${args.goal}${constraintsContext}${existingContext}`,
+      temperature: 0.7,
+      maxTokens: getMaxTokensFromConfig("suggest_options"),
+    }, opts);
+
+    const parsed = this.parseStructured(response.content, LocalOptionsResponse, "options");
+    return { options: parsed.options, usage: response.usage };
+  }
+
+  async repairGraph(args: RepairGraphArgs, opts: CallOpts): Promise<RepairGraphResult> {
+    const graphJson = JSON.stringify({ nodes: args.graph.nodes, edges: args.graph.edges }, null, 2);
+    const violationsText = args.violations.map((v, i) => `${i + 1}. ${v}`).join("\n");
+
+    const response = await this.complete({
+      operation: "repair_graph",
+      system: getSystemPrompt("repair_graph"),
+      user: `## Current Graph (INVALID)\n${graphJson}\n\n## Violations Found\n${violationsText}`,
+      temperature: 0,
+      maxTokens: getMaxTokensFromConfig("repair_graph"),
+    }, opts);
+
+    const rawJson = this.parseJson(response.content, "repair");
+    const repaired = parseGraphPayload(rawJson, "repair_graph", opts.collector);
+
+    return {
+      graph: { ...args.graph, nodes: repaired.nodes, edges: repaired.edges },
+      rationales: repaired.rationales,
+      usage: response.usage,
+    };
+  }
+
+  async clarifyBrief(args: ClarifyBriefArgs, opts: CallOpts): Promise<ClarifyBriefResult> {
+    const previousContext = args.previous_answers?.length
+      ? `\n\n## Previous Q&A (Round ${args.round})\n${args.previous_answers.map((qa, i) => `${i + 1}. Q: ${qa.question}\n   A: ${qa.answer}`).join("\n")}`
+      : "";
+
+    const response = await this.complete({
+      operation: "clarify_brief",
+      system: getSystemPrompt("clarify_brief"),
+      user: `## Brief\n${args.brief}\n${previousContext}`,
+      temperature: 0.5,
+      maxTokens: getMaxTokensFromConfig("clarify_brief") ?? 1500,
+      seed: args.seed,
+    }, opts);
+
+    emit(TelemetryEvents.ClarifierRoundComplete, {
+      request_id: opts.requestId,
+      round: args.round,
+      provider: "local",
+      model: this.model,
+      duration_ms: response.latencyMs,
+      input_tokens: response.usage.input_tokens,
+      output_tokens: response.usage.output_tokens,
+    });
+
+    const parsed = this.parseStructured(response.content, LocalClarifyResponse, "clarify");
+    return {
+      questions: parsed.questions,
+      confidence: parsed.confidence,
+      should_continue: parsed.should_continue,
+      round: args.round,
+      usage: response.usage,
+    };
+  }
+
+  async critiqueGraph(args: CritiqueGraphArgs, opts: CallOpts): Promise<CritiqueGraphResult> {
+    const graphJson = JSON.stringify({ nodes: args.graph.nodes, edges: args.graph.edges }, null, 2);
+    const briefContext = args.brief ? `\n\n## Original Brief\n${args.brief}` : "";
+    const focusContext = args.focus_areas?.length
+      ? `\n\n## Focus Areas\nPrioritize issues in: ${args.focus_areas.join(", ")}`
+      : "";
+
+    const response = await this.complete({
+      operation: "critique_graph",
+      system: getSystemPrompt("critique_graph"),
+      user: `## Graph to Critique\n${graphJson}\n${briefContext}${focusContext}`,
+      temperature: 0,
+      maxTokens: getMaxTokensFromConfig("critique_graph") ?? 2048,
+    }, opts);
+
+    const parsed = this.parseStructured(response.content, LocalCritiqueResponse, "critique");
+    return {
+      issues: parsed.issues,
+      suggested_fixes: parsed.suggested_fixes,
+      overall_quality: parsed.overall_quality,
+      usage: response.usage,
+    };
+  }
+
+  async explainDiff(args: ExplainDiffArgs, opts: CallOpts): Promise<ExplainDiffResult> {
+    const briefContext = args.brief ? `\n\n## Brief\n${args.brief}` : "";
+    const summaryContext = args.graph_summary
+      ? `\n\n## Graph Summary\n${args.graph_summary.node_count} nodes, ${args.graph_summary.edge_count} edges`
+      : "";
+
+    const response = await this.complete({
+      operation: "explain_diff",
+      system: EXPLAIN_DIFF_SYSTEM_PROMPT,
+      user: `## Patch\n${JSON.stringify(args.patch, null, 2)}${briefContext}${summaryContext}`,
+      temperature: 0,
+      maxTokens: 1024,
+    }, opts);
+
+    const parsed = this.parseStructured(response.content, LocalExplainDiffResponse, "explain_diff");
+    const rationales = [...parsed.rationales].sort((a, b) => a.target.localeCompare(b.target));
+    return { rationales, usage: response.usage };
+  }
+
+  // ==========================================================================
+  // Draft helpers
+
+  private buildDraftRequest(args: DraftGraphArgs): LocalChatRequest {
+    return {
+      operation: "draft_graph",
+      system: getSystemPrompt("draft_graph"),
+      user: `## Brief\n${args.brief}${buildDocContext(args.docs ?? [])}`,
+      temperature: 0,
+      maxTokens: getMaxTokensFromConfig("draft_graph"),
+      seed: args.seed,
+    };
+  }
+
+  private buildDraftResult(
+    args: DraftGraphArgs,
+    request: LocalChatRequest,
+    response: LocalChatResponse,
+    collector?: CorrectionCollector
+  ): DraftGraphResult {
+    const promptMeta = getSystemPromptMeta("draft_graph");
+    const rawJson = this.parseJson(response.content, "draft");
+    const rawNodeKinds = Array.isArray((rawJson as any)?.nodes)
+      ? ((rawJson as any).nodes as any[]).map((n: any) => n?.kind ?? n?.type ?? "unknown").filter(Boolean)
+      : [];
+
+    const { nodes, edges, rationales } = parseGraphPayload(rawJson, "draft_graph", collector);
+
+    const roots = nodes.filter((n) => !edges.some((e) => e.to === n.id)).map((n) => n.id);
+    const leaves = nodes.filter((n) => !edges.some((e) => e.from === n.id)).map((n) => n.id);
+
+    const graph: GraphT = {
+      version: "1",
+      default_seed: args.seed,
+      nodes,
+      edges,
+      meta: {
+        roots,
+        leaves,
+        suggested_positions: generateDeterministicLayout(nodes, edges, roots),
+        source: "assistant",
+      },
+    };
+
+    const content = response.content;
+    const unsafeCaptureEnabled = args.includeDebug === true && args.flags?.unsafe_capture === true;
+
+    return {
+      graph,
+      rationales,
+      debug: unsafeCaptureEnabled ? { raw_llm_output: rawJson, raw_llm_output_truncated: false } : undefined,
+      meta: {
+        model: this.model,
+        prompt_version: promptMeta.prompt_version,
+        prompt_hash: promptMeta.prompt_hash,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        seed: args.seed,
+        token_usage: {
+          prompt_tokens: response.usage.input_tokens,
+          completion_tokens: response.usage.output_tokens,
+          total_tokens: response.usage.input_tokens + response.usage.output_tokens,
+        },
+        finish_reason: response.finishReason,
+        provider_latency_ms: response.latencyMs,
+        node_kinds_raw_json: rawNodeKinds,
+        raw_output_preview: content.slice(0, RAW_LLM_PREVIEW_MAX_CHARS),
+        raw_llm_text: content.slice(0, RAW_LLM_TEXT_MAX_CHARS),
+        ...(unsafeCaptureEnabled ? { raw_llm_json: rawJson } : {}),
+      },
+      usage: response.usage,
+    };
+  }
+
+  // ==========================================================================
+  // Parsing helpers
+
+  private parseJson(content: string, operation: string): unknown {
+    const jsonText = extractJsonText(content);
+    if (!jsonText) {
+      throw new Error("local_empty_response");
+    }
+    try {
+      return JSON.parse(jsonText);
+    } catch (parseError) {
+      log.error({ error: parseError, content: jsonText.slice(0, 500), operation }, "Failed to parse local LLM response as JSON");
+      throw new Error(`local_${operation}_invalid_json: Response was not valid JSON`);
+    }
+  }
+
+  private parseStructured<T extends z.ZodTypeAny>(content: string, schema: T, operation: string): z.infer<T> {
+    const rawJson = this.parseJson(content, operation);
+    const parseResult = schema.safeParse(rawJson);
+    if (!parseResult.success) {
+      log.error({
+        errors: parseResult.error.flatten(),
+        event: `llm.validation.${operation}_schema_failed`,
+      }, `Local LLM ${operation} response failed schema validation`);
+      throw new Error(`local_${operation}_invalid_schema: ${formatSchemaErrors(parseResult.error)}`);
+    }
+    return parseResult.data;
+  }
+
+  // ==========================================================================
+  // Transport
+
+  private buildRequestInit(request: LocalChatRequest, stream: boolean): { url: string; init: globalThis.RequestInit } {
+    const messages = [
+      { role: "system", content: request.system },
+      { role: "user", content: request.user },
+    ];
+    const jsonMode = config.llm.localJsonMode;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "Idempotency-Key": makeIdempotencyKey(),
+    };
+    if (config.llm.localApiKey) {
+      headers.Authorization = `Bearer ${config.llm.localApiKey}`;
+    }
+
+    if (this.apiStyle === "ollama") {
+      return {
+        url: `${this.baseUrl}/api/chat`,
+        init: {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            model: this.model,
+            messages,
+            stream,
+            ...(jsonMode ? { format: "json" } : {}),
+            options: {
+              temperature: request.temperature,
+              ...(request.seed !== undefined ? { seed: request.seed } : {}),
+              ...(request.maxTokens ? { num_predict: request.maxTokens } : {}),
+            },
+          }),
+        },
+      };
+    }
+
+    return {
+      url: `${this.baseUrl}/chat/completions`,
+      init: {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: this.model,
+          messages,
+          temperature: request.temperature,
+          ...(request.seed !== undefined ? { seed: request.seed } : {}),
+          ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+          ...(jsonMode ? { response_format: { type: "json_object" } } : {}),
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+      },
+    };
+  }
+
+  /**
+   * Issue a fetch that aborts on the adapter timeout or the caller's abort signal.
+   * The returned `release` clears the timer and detaches from the caller signal.
+   */
+  private async send(request: LocalChatRequest, opts: CallOpts, stream: boolean): Promise<InFlightCall> {
+    const { url, init } = this.buildRequestInit(request, stream);
+    const abortController = new AbortController();
+    const effectiveTimeout = opts.timeoutMs || getLocalTimeoutMs();
+    const timeoutId = setTimeout(() => abortController.abort(), effectiveTimeout);
+    const onCallerAbort = () => abortController.abort();
+    opts.abortSignal?.addEventListener("abort", onCallerAbort, { once: true });
+    const startTime = Date.now();
+    const release = () => {
+      clearTimeout(timeoutId);
+      opts.abortSignal?.removeEventListener("abort", onCallerAbort);
+    };
+
+    try {
+      const response = await withRetry(
+        async () => {
+          const res = await fetch(url, { ...init, signal: abortController.signal });
+          if (!res.ok) {
+            const body = await res.text().catch(() => "");
+            const err = new Error(`local ${request.operation} failed with HTTP ${res.status}: ${body.slice(0, 200)}`) as Error & { status: number };
+            err.status = res.status;
+            throw err;
+          }
+          return res;
+        },
+        { adapter: "local", model: this.model, operation: request.operation }
+      );
+      return {
+        response,
+        release,
+        fail: (error) => this.classifyError(error, request.operation, startTime, effectiveTimeout, abortController.signal.aborted),
+        startTime,
+      };
+    } catch (error) {
+      release();
+      throw this.classifyError(error, request.operation, startTime, effectiveTimeout, abortController.signal.aborted);
+    }
+  }
+
+  private classifyError(
+    error: unknown,
+    operation: string,
+    startTime: number,
+    timeoutMs: number,
+    aborted: boolean
+  ): unknown {
+    const elapsedMs = Date.now() - startTime;
+
+    if (error instanceof Error) {
+      if (error.name === "AbortError" || aborted) {
+        log.error({ timeout_ms: timeoutMs, elapsed_ms: elapsedMs, operation }, "Local LLM call timed out");
+        return new UpstreamTimeoutError(
+          `Local LLM ${operation} timed out`,
+          "local",
+          operation,
+          "body",
+          elapsedMs,
+          error
+        );
+      }
+
+      if ("status" in error && typeof (error as any).status === "number") {
+        const status = (error as any).status as number;
+        log.error({ status, elapsed_ms: elapsedMs, operation }, "Local LLM server returned non-2xx status");
+        return new UpstreamHTTPError(
+          `Local LLM ${operation} failed: ${error.message}`,
+          "local",
+          status,
+          undefined,
+          undefined,
+          elapsedMs,
+          error
+        );
+      }
+    }
+
+    log.error({ error, operation }, "Local LLM call failed");
+    return error;
+  }
+
+  private async complete(request: LocalChatRequest, opts: CallOpts): Promise<LocalChatResponse> {
+    const call = await this.send(request, opts, false);
+
+    try {
+      const body = (await call.response.json()) as any;
+      const latencyMs = Date.now() - call.startTime;
+
+      if (this.apiStyle === "ollama") {
+        return {
+          content: body?.message?.content ?? "",
+          usage: {
+            input_tokens: body?.prompt_eval_count ?? 0,
+            output_tokens: body?.eval_count ?? 0,
+          },
+          finishReason: body?.done_reason,
+          latencyMs,
+        };
+      }
+
+      return {
+        content: body?.choices?.[0]?.message?.content ?? "",
+        usage: {
+          input_tokens: body?.usage?.prompt_tokens ?? 0,
+          output_tokens: body?.usage?.completion_tokens ?? 0,
+        },
+        finishReason: body?.choices?.[0]?.finish_reason ?? undefined,
+        latencyMs,
+      };
+    } catch (error) {
+      throw call.fail(error);
+    } finally {
+      call.release();
+    }
+  }
+
+  /**
+   * Stream completion chunks. OpenAI-style servers emit SSE `data:` lines;
+   * Ollama emits one JSON object per line.
+   */
+  private async *completeStream(
+    request: LocalChatRequest,
+    opts: CallOpts
+  ): AsyncGenerator<{ delta?: string; usage?: UsageMetrics; finishReason?: string }> {
+    const call = await this.send(request, opts, true);
+
+    if (!call.response.body) {
+      call.release();
+      throw new Error("local_stream_missing_body");
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      for await (const bytes of call.response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(bytes, { stream: true });
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf("\n")) >= 0) {
+          const line = buffer.slice(0, newlineIndex).trim();
+          buffer = buffer.slice(newlineIndex + 1);
+          const chunk = this.parseStreamLine(line);
+          if (chunk) yield chunk;
+        }
+      }
+      const tail = this.parseStreamLine(buffer.trim());
+      if (tail) yield tail;
+    } catch (error) {
+      throw call.fail(error);
+    } finally {
+      call.release();
+    }
+  }
+
+  private parseStreamLine(line: string): { delta?: string; usage?: UsageMetrics; finishReason?: string } | null {
+    if (!line) return null;
+
+    if (this.apiStyle === "ollama") {
+      const event = JSON.parse(line);
+      return {
+        delta: event?.message?.content || undefined,
+        usage: event?.done
+          ? { input_tokens: event.prompt_eval_count ?? 0, output_tokens: event.eval_count ?? 0 }
+          : undefined,
+        finishReason: event?.done ? event.done_reason : undefined,
+      };
+    }
+
+    if (!line.startsWith("data:")) return null;
+    const data = line.slice(5).trim();
+    if (data === "[DONE]") return null;
+
+    const event = JSON.parse(data);
+    return {
+      delta: event?.choices?.[0]?.delta?.content || undefined,
+      usage: event?.usage
+        ? { input_tokens: event.usage.prompt_tokens ?? 0, output_tokens: event.usage.completion_tokens ?? 0 }
+        : undefined,
+      finishReason: event?.choices?.[0]?.finish_reason ?? undefined,
+    };
+  }
+}
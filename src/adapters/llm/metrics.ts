@@ -0,0 +1,131 @@
+/**
+ * Metrics Adapter - Per-Provider LLM Latency and Token Counts
+ *
+ * Wraps a provider adapter and emits a provider_call event for every call
+ * with its latency, outcome and token usage, tagged by provider, model and
+ * operation. The event feeds the StatsD and Prometheus metrics in
+ * utils/telemetry.ts.
+ */
+
+import { emit, TelemetryEvents } from "../../utils/telemetry.js";
+import type {
+  LLMAdapter,
+  DraftGraphArgs,
+  DraftGraphResult,
+  SuggestOptionsArgs,
+  SuggestOptionsResult,
+  ExplainDiffArgs,
+  ExplainDiffResult,
+  RepairGraphArgs,
+  RepairGraphResult,
+  ClarifyBriefArgs,
+  ClarifyBriefResult,
+  CritiqueGraphArgs,
+  CritiqueGraphResult,
+  CallOpts,
+  DraftStreamEvent,
+  UsageMetrics,
+} from "./types.js";
+
+/**
+ * Adapter that emits latency and token metrics for each call
+ */
+export class MetricsAdapter implements LLMAdapter {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(private readonly adapter: LLMAdapter) {
+    this.name = adapter.name;
+    this.model = adapter.model;
+  }
+
+  private record(
+    operation: string,
+    startedAt: number,
+    status: "success" | "error",
+    usage?: UsageMetrics
+  ): void {
+    emit(TelemetryEvents.LlmProviderCall, {
+      provider: this.adapter.name,
+      model: this.adapter.model,
+      operation,
+      status,
+      latency_ms: Date.now() - startedAt,
+      input_tokens: usage?.input_tokens,
+      output_tokens: usage?.output_tokens,
+    });
+  }
+
+  private async measure<T extends { usage: UsageMetrics }>(
+    operation: string,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await call();
+      this.record(operation, startedAt, "success", result.usage);
+      return result;
+    } catch (error) {
+      this.record(operation, startedAt, "error");
+      throw error;
+    }
+  }
+
+  async draftGraph(args: DraftGraphArgs, opts: CallOpts): Promise<DraftGraphResult> {
+    return this.measure("draft_graph", () => this.adapter.draftGraph(args, opts));
+  }
+
+  async suggestOptions(args: SuggestOptionsArgs, opts: CallOpts): Promise<SuggestOptionsResult> {
+    return this.measure("suggest_options", () => this.adapter.suggestOptions(args, opts));
+  }
+
+  async repairGraph(args: RepairGraphArgs, opts: CallOpts): Promise<RepairGraphResult> {
+    return this.measure("repair_graph", () => this.adapter.repairGraph(args, opts));
+  }
+
+  async clarifyBrief(args: ClarifyBriefArgs, opts: CallOpts): Promise<ClarifyBriefResult> {
+    return this.measure("clarify_brief", () => this.adapter.clarifyBrief(args, opts));
+  }
+
+  async critiqueGraph(args: CritiqueGraphArgs, opts: CallOpts): Promise<CritiqueGraphResult> {
+    return this.measure("critique_graph", () => this.adapter.critiqueGraph(args, opts));
+  }
+
+  async explainDiff(args: ExplainDiffArgs, opts: CallOpts): Promise<ExplainDiffResult> {
+    return this.measure("explain_diff", () => this.adapter.explainDiff(args, opts));
+  }
+
+  /**
+   * Latency covers the whole stream; usage is taken from the complete event
+   */
+  async *streamDraftGraph(args: DraftGraphArgs, opts: CallOpts): AsyncIterable<DraftStreamEvent> {
+    if (!this.adapter.streamDraftGraph) {
+      throw new Error(`Adapter ${this.adapter.name} does not support streaming`);
+    }
+
+    const startedAt = Date.now();
+    let recorded = false;
+    try {
+      for await (const event of this.adapter.streamDraftGraph(args, opts)) {
+        if (event.type === "complete") {
+          this.record("stream_draft_graph", startedAt, "success", event.result.usage);
+          recorded = true;
+        } else if (event.type === "error") {
+          this.record("stream_draft_graph", startedAt, "error");
+          recorded = true;
+        }
+        yield event;
+      }
+    } catch (error) {
+      if (!recorded) this.record("stream_draft_graph", startedAt, "error");
+      throw error;
+    }
+  }
+}
+
+/**
+ * Wrap a provider adapter with per-call metrics
+ */
+export function withMetrics(adapter: LLMAdapter): LLMAdapter {
+  return new MetricsAdapter(adapter);
+}
@@ -0,0 +1,51 @@
+/**
+ * Scoped LLM overrides
+ *
+ * Lets a caller run the normal pipeline with a different adapter or system
+ * prompt without touching global routing, e.g. to replay a stored draft
+ * failure against a chosen model and prompt version. Overrides propagate
+ * via AsyncLocalStorage, so concurrent requests are unaffected.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { LLMAdapter } from "./types.js";
+
+/**
+ * System prompt used instead of the managed prompt for an operation
+ */
+export interface PromptOverride {
+  content: string;
+  source: "store" | "default";
+  prompt_version: string;
+  prompt_hash?: string;
+}
+
+export interface LLMOverrideScope {
+  /** Adapter to use for a task (undefined falls through to normal routing) */
+  resolveAdapter?: (task?: string) => LLMAdapter | undefined;
+  /** System prompts keyed by LLM operation (e.g. "draft_graph") */
+  prompts?: Record<string, PromptOverride>;
+}
+
+const overrideStorage = new AsyncLocalStorage<LLMOverrideScope>();
+
+/**
+ * Run fn with LLM overrides applied to every adapter and prompt lookup inside it
+ */
+export function runWithLLMOverrides<T>(scope: LLMOverrideScope, fn: () => T): T {
+  return overrideStorage.run(scope, fn);
+}
+
+/**
+ * Adapter override for a task in the current scope
+ */
+export function getAdapterOverride(task?: string): LLMAdapter | undefined {
+  return overrideStorage.getStore()?.resolveAdapter?.(task);
+}
+
+/**
+ * System prompt override for an operation in the current scope
+ */
+export function getPromptOverride(operation: string): PromptOverride | undefined {
+  return overrideStorage.getStore()?.prompts?.[operation];
+}
@@ -33,6 +33,7 @@ import { loadPromptSync, loadPrompt, getDefaultPrompts, type CeeTaskId, type Loa
 import { registerAllDefaultPrompts } from '../../prompts/defaults.js';
 import { log, emit, TelemetryEvents } from '../../utils/telemetry.js';
 import { createHash } from 'node:crypto';
+import { getPromptOverride, type PromptOverride } from './overrides.js';
 
 // Flag to track if defaults have been initialized in this module instance
 let defaultsInitialized = false;
@@ -88,9 +89,10 @@ const inflightRefresh = new Map<CeeTaskId, Promise<void>>();
  * Get the system prompt for an LLM operation.
  *
  * Resolution order:
- * 1. Check cache (if not expired)
- * 2. Load from prompt management system (store -> defaults)
- * 3. Cache the result
+ * 1. Scoped override (see ./overrides.ts)
+ * 2. Check cache (if not expired)
+ * 3. Load from prompt management system (store -> defaults)
+ * 4. Cache the result
  *
  * @param operation - The LLM operation name (e.g., 'draft_graph')
  * @param variables - Optional variables to interpolate
@@ -109,6 +111,11 @@ export function getSystemPrompt(
     throw new Error(`Unknown LLM operation: ${operation}. No prompt mapping defined.`);
   }
 
+  const override = getPromptOverride(operation);
+  if (override) {
+    return override.content;
+  }
+
   const hasVariables = Boolean(variables && Object.keys(variables).length > 0);
 
   const now = Date.now();
@@ -199,6 +206,16 @@ export function getSystemPromptMeta(operation: string): {
     throw new Error(`Unknown LLM operation: ${operation}. No prompt mapping defined.`);
   }
 
+  const override = getPromptOverride(operation);
+  if (override) {
+    return {
+      taskId,
+      source: override.source,
+      prompt_version: override.prompt_version,
+      prompt_hash: override.prompt_hash,
+    };
+  }
+
   const cached = promptCache.get(taskId);
   const source: 'store' | 'default' = cached?.source ?? 'default';
   const promptId = cached?.promptId;
@@ -219,6 +236,36 @@ export function getSystemPromptMeta(operation: string): {
   };
 }
 
+/**
+ * Load a specific managed version of an operation's prompt, in the shape
+ * used by runWithLLMOverrides() (e.g. to replay drafts against it).
+ *
+ * @returns null if that version is not in the prompt store
+ */
+export async function getSystemPromptVersion(
+  operation: string,
+  version: number,
+): Promise<PromptOverride | null> {
+  ensureDefaultsRegistered();
+
+  const taskId = OPERATION_TO_TASK_ID[operation];
+  if (!taskId) {
+    throw new Error(`Unknown LLM operation: ${operation}. No prompt mapping defined.`);
+  }
+
+  const loaded = await loadPrompt(taskId, { version });
+  if (loaded.source !== 'store' || loaded.version !== version) {
+    return null;
+  }
+
+  return {
+    content: loaded.content,
+    source: 'store',
+    prompt_version: `${loaded.promptId}@v${loaded.version}`,
+    prompt_hash: createHash('sha256').update(loaded.content).digest('hex'),
+  };
+}
+
 /**
  * Clear the prompt cache (for testing or forced refresh)
  */
@@ -0,0 +1,272 @@
+/**
+ * LLM Provider Registry
+ *
+ * Single source of truth for which LLM providers exist, what they can do and
+ * which models they serve. The router resolves every provider name through
+ * this registry, so new adapters (including internal ones shipped outside this
+ * repo) can be added without editing the router.
+ *
+ * Built-in providers (anthropic, openai, local, fixtures) are registered at
+ * module load. Additional providers are registered either programmatically via
+ * registerProvider() or by listing plugin modules in LLM_PROVIDER_MODULES.
+ *
+ * A plugin module must do one of:
+ * - export default a ProviderDefinition
+ * - export `providers`: ProviderDefinition[]
+ * - call registerProvider() as a side effect of being imported
+ */
+
+import { isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { log } from "../../utils/telemetry.js";
+import { config } from "../../config/index.js";
+import { MODEL_REGISTRY, type ModelConfig } from "../../config/models.js";
+import type { LLMAdapter } from "./types.js";
+import { AnthropicAdapter } from "./anthropic.js";
+import { OpenAIAdapter } from "./openai.js";
+import { LocalAdapter } from "./local.js";
+import { FixturesAdapter } from "./fixtures.js";
+
+/**
+ * Provider names that ship with the service
+ */
+export type BuiltinProviderName = 'anthropic' | 'openai' | 'local' | 'fixtures';
+
+/**
+ * Any registered provider name (built-in names kept for autocompletion)
+ */
+export type ProviderName = BuiltinProviderName | (string & {});
+
+/**
+ * Optional features a provider supports
+ */
+export interface ProviderCapabilities {
+  /** Implements streamDraftGraph with incremental upstream output */
+  streaming: boolean;
+  /** Upstream can enforce JSON output (response_format / format=json) */
+  jsonMode: boolean;
+  /** Accepts a reasoning effort parameter for reasoning models */
+  reasoningEffort: boolean;
+  /** Supports provider-side prompt caching */
+  promptCaching: boolean;
+}
+
+/**
+ * Provider registration
+ */
+export interface ProviderDefinition {
+  /** Provider name used in LLM_PROVIDER, providers.json and LLM_FAILOVER_PROVIDERS */
+  name: string;
+  capabilities: ProviderCapabilities;
+  /** Model catalogue; entries are added to MODEL_REGISTRY on registration */
+  models?: ModelConfig[];
+  /** Create an adapter instance (model undefined = adapter default) */
+  create(model?: string): LLMAdapter;
+  /** Whether credentials/endpoint are configured (defaults to true) */
+  isConfigured?(): boolean;
+}
+
+const providers = new Map<string, ProviderDefinition>();
+
+// Model IDs each provider added to MODEL_REGISTRY (removed again on unregister)
+const catalogueEntries = new Map<string, string[]>();
+
+const BUILTIN_PROVIDERS: ProviderDefinition[] = [
+  {
+    name: 'anthropic',
+    capabilities: { streaming: false, jsonMode: false, reasoningEffort: false, promptCaching: true },
+    create: (model) => new AnthropicAdapter(model),
+    isConfigured: () => Boolean(config.llm.anthropicApiKey),
+  },
+  {
+    name: 'openai',
+    capabilities: { streaming: false, jsonMode: true, reasoningEffort: true, promptCaching: false },
+    create: (model) => new OpenAIAdapter(model),
+    isConfigured: () => Boolean(config.llm.openaiApiKey),
+  },
+  {
+    name: 'local',
+    capabilities: { streaming: true, jsonMode: true, reasoningEffort: false, promptCaching: false },
+    create: (model) => new LocalAdapter(model),
+    isConfigured: () => Boolean(config.llm.localBaseUrl),
+  },
+  {
+    name: 'fixtures',
+    capabilities: { streaming: false, jsonMode: false, reasoningEffort: false, promptCaching: false },
+    create: () => new FixturesAdapter(),
+  },
+];
+
+/**
+ * Register an LLM provider.
+ *
+ * Throws if the name is already taken unless `replace` is set. Adapters the
+ * router already created for a replaced provider stay cached until
+ * resetAdapterCache() is called.
+ */
+export function registerProvider(
+  definition: ProviderDefinition,
+  options: { replace?: boolean } = {}
+): void {
+  const name = definition.name?.trim();
+  if (!name) {
+    throw new Error("LLM provider registration requires a name");
+  }
+  if (providers.has(name) && !options.replace) {
+    throw new Error(`LLM provider already registered: ${name}`);
+  }
+  for (const id of catalogueEntries.get(name) ?? []) {
+    delete MODEL_REGISTRY[id];
+  }
+
+  const added: string[] = [];
+  for (const model of definition.models ?? []) {
+    const existing = MODEL_REGISTRY[model.id];
+    if (existing && existing.provider !== name) {
+      log.warn(
+        { provider: name, model: model.id, registered_provider: existing.provider },
+        "Model ID already belongs to another provider, skipping catalogue entry"
+      );
+      continue;
+    }
+    MODEL_REGISTRY[model.id] = { ...model, provider: name };
+    added.push(model.id);
+  }
+
+  catalogueEntries.set(name, added);
+  providers.set(name, definition.name === name ? definition : { ...definition, name });
+  log.debug({ provider: name, capabilities: definition.capabilities }, "Registered LLM provider");
+}
+
+/**
+ * Remove a provider and its catalogue entries (useful for testing).
+ */
+export function unregisterProvider(name: string): boolean {
+  if (!providers.delete(name)) return false;
+  for (const id of catalogueEntries.get(name) ?? []) {
+    delete MODEL_REGISTRY[id];
+  }
+  catalogueEntries.delete(name);
+  return true;
+}
+
+/**
+ * Look up a registered provider
+ */
+export function getProvider(name: string): ProviderDefinition | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Check whether a provider is registered
+ */
+export function hasProvider(name: string): boolean {
+  return providers.has(name);
+}
+
+/**
+ * Names of all registered providers, in registration order
+ */
+export function listProviders(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Capabilities of a registered provider
+ */
+export function getProviderCapabilities(name: string): ProviderCapabilities | undefined {
+  return providers.get(name)?.capabilities;
+}
+
+/**
+ * Model catalogue for a provider (all MODEL_REGISTRY entries it serves)
+ */
+export function getProviderModels(name: string): ModelConfig[] {
+  return Object.values(MODEL_REGISTRY).filter((m) => m.provider === name);
+}
+
+/**
+ * Whether a provider is registered and has its credentials/endpoint configured
+ */
+export function isProviderConfigured(name: string): boolean {
+  const provider = providers.get(name);
+  if (!provider) return false;
+  return provider.isConfigured ? provider.isConfigured() : true;
+}
+
+/**
+ * Create an adapter through the registry.
+ *
+ * @throws Error if the provider is not registered
+ */
+export function createProviderAdapter(name: string, model?: string): LLMAdapter {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown provider: ${name} (registered: ${listProviders().join(', ')})`);
+  }
+  return provider.create(model);
+}
+
+function isProviderDefinition(value: unknown): value is ProviderDefinition {
+  const candidate = value as ProviderDefinition | undefined;
+  return Boolean(
+    candidate &&
+    typeof candidate.name === 'string' &&
+    typeof candidate.create === 'function' &&
+    candidate.capabilities
+  );
+}
+
+/**
+ * Import provider plugin modules and register what they export.
+ *
+ * Relative paths resolve against the working directory; bare specifiers
+ * resolve as packages.
+ *
+ * @returns Names of providers registered by the loaded modules
+ */
+export async function loadProviderModules(specifiers: string[]): Promise<string[]> {
+  const before = new Set(providers.keys());
+
+  for (const specifier of specifiers) {
+    const isPath = specifier.startsWith('.') || isAbsolute(specifier);
+    const url = isPath ? pathToFileURL(resolve(process.cwd(), specifier)).href : specifier;
+
+    const mod = await import(url);
+    const exported: unknown[] = [
+      ...(isProviderDefinition(mod.default) ? [mod.default] : []),
+      ...(Array.isArray(mod.providers) ? mod.providers : []),
+    ];
+
+    for (const definition of exported) {
+      if (!isProviderDefinition(definition)) {
+        throw new Error(`Invalid provider definition exported by ${specifier}`);
+      }
+      // Tolerate modules that both self-register and export their definition
+      if (getProvider(definition.name) === definition) continue;
+      registerProvider(definition);
+    }
+  }
+
+  const added = [...providers.keys()].filter((name) => !before.has(name));
+  log.info({ modules: specifiers, providers: added }, "Loaded LLM provider plugins");
+  return added;
+}
+
+/**
+ * Restore the registry to built-in providers only (useful for testing).
+ */
+export function resetProviderRegistry(): void {
+  for (const name of [...providers.keys()]) {
+    if (!BUILTIN_PROVIDERS.some((p) => p.name === name)) {
+      unregisterProvider(name);
+    }
+  }
+  for (const definition of BUILTIN_PROVIDERS) {
+    registerProvider(definition, { replace: true });
+  }
+}
+
+for (const definition of BUILTIN_PROVIDERS) {
+  registerProvider(definition);
+}
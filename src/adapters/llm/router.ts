@@ -1,7 +1,8 @@
 /**
  * Provider router for multi-provider LLM orchestration.
  *
- * Selects LLM adapter (Anthropic, OpenAI, Fixtures) based on:
+ * Selects LLM adapter (Anthropic, OpenAI, Local, Fixtures, or any provider
+ * registered via ./registry.ts) based on:
  * 1. LLM_FAILOVER_PROVIDERS → FailoverAdapter (if configured)
  * 2. providers.json overrides → task-specific provider
  * 3. CEE_MODEL_* env vars → explicit operator override (e.g., CEE_MODEL_DRAFT)
@@ -10,18 +11,50 @@
  * 6. Adapter default → gpt-4o-mini
  *
  * Precedence: failover → providers.json → CEE_MODEL_* → TASK_MODEL_DEFAULTS → env → default
+ *
+ * The selected model is checked against the provider's registered
+ * capabilities: reasoning models routed to a provider without reasoning
+ * effort support fall back to that provider's default model.
+ *
+ * When LLM_HEDGING_ENABLED is set, the selected adapter for hedged tasks
+ * (clarification, explainer, preflight by default) is wrapped in a
+ * HedgedAdapter racing a secondary provider/model (see ./hedging.ts).
+ *
+ * When SEMANTIC_CACHE_ENABLED is set, adapters are wrapped in a
+ * SemanticCachingAdapter beneath the exact-match prompt cache, so
+ * near-identical briefs reuse earlier results (see ./semantic-cache.ts).
+ *
+ * When BUDGETS_ENABLED is set, provider instances record their spend against
+ * the caller's key (see ./spend.ts), and keys close to their budget get
+ * fast-tier models for tasks outside QUALITY_REQUIRED_TASKS.
+ *
+ * When OTEL_TRACING_ENABLED is set, provider instances record a span per
+ * call with token usage (see ./tracing.ts).
+ *
+ * Provider instances always emit per-call latency and token metrics for
+ * StatsD and Prometheus (see ./metrics.ts).
+ *
+ * Adapters set with runWithLLMOverrides() (see ./overrides.ts) take
+ * precedence over all of the above for calls made inside that scope.
  */
 
 import { readFileSync, existsSync } from "node:fs";
 import { join } from "node:path";
-import { log } from "../../utils/telemetry.js";
 import { config } from "../../config/index.js";
 import type { LLMAdapter } from "./types.js";
-import { AnthropicAdapter } from "./anthropic.js";
-import { OpenAIAdapter } from "./openai.js";
+import { createProviderAdapter, getProviderCapabilities, type ProviderName } from "./registry.js";
 import { FailoverAdapter } from "./failover.js";
+import { getAdapterOverride } from "./overrides.js";
 import { withCaching } from "./caching.js";
-import { isValidCeeTask, getDefaultModelForTask } from "../../config/model-routing.js";
+import { withSemanticCache } from "./semantic-cache.js";
+import { HedgedAdapter, isHedgingEnabledForTask } from "./hedging.js";
+import { withSpendTracking } from "./spend.js";
+import { withTracing } from "./tracing.js";
+import { withMetrics } from "./metrics.js";
+import { isValidCeeTask, getDefaultModelForTask, isQualityRequired, toCeeTask } from "../../config/model-routing.js";
+import { getModelProvider, getModelConfig, getEnabledModelsByTier, isReasoningModel } from "../../config/models.js";
+import { getBudgetScope, shouldDowngradeForBudget } from "../../utils/budget.js";
+import { log, emit, TelemetryEvents } from "../../utils/telemetry.js";
 
 /**
  * Map task names to CEE model config keys.
@@ -76,8 +109,14 @@ export function getMaxTokensFromConfig(task?: string): number | undefined {
   }
 }
 
+/**
+ * Provider names accepted by LLM_PROVIDER, providers.json and LLM_FAILOVER_PROVIDERS
+ * (any provider registered in ./registry.ts)
+ */
+export type LLMProviderName = ProviderName;
+
 // Default configuration (OpenAI for cost-effectiveness)
-const DEFAULT_PROVIDER: 'anthropic' | 'openai' | 'fixtures' = 'openai';
+const DEFAULT_PROVIDER: LLMProviderName = 'openai';
 const DEFAULT_MODEL = 'auto'; // Let each adapter choose its default
 
 // Optional config file path (from centralized config or default)
@@ -91,11 +130,11 @@ function getConfigPath(): string {
  */
 interface ProviderConfig {
   defaults?: {
-    provider: 'anthropic' | 'openai' | 'fixtures';
+    provider: LLMProviderName;
     model?: string;
   };
   overrides?: Record<string, {
-    provider: 'anthropic' | 'openai' | 'fixtures';
+    provider: LLMProviderName;
     model?: string;
   }>;
 }
@@ -121,9 +160,12 @@ function loadConfig(): ProviderConfig | null {
 // Lazy-load config on first use
 let configCache: ProviderConfig | null | undefined;
 
-// Cached wrapper instances (caching, failover) to preserve state across requests
+// Cached wrapper instances (caching, semantic cache, failover, hedging) to preserve state across requests
 const wrappedAdapters = new Map<string, LLMAdapter>();
 
+// Hedge configurations already rejected (avoids re-logging on every request)
+const hedgeDisabled = new Set<string>();
+
 function getConfig(): ProviderConfig | null {
   if (configCache === undefined) {
     configCache = loadConfig();
@@ -131,207 +173,27 @@ function getConfig(): ProviderConfig | null {
   return configCache;
 }
 
-/**
- * Fixtures adapter for testing without API keys.
- * Returns minimal fixture graph for all operations.
- */
-class FixturesAdapter implements LLMAdapter {
-  readonly name = 'fixtures' as const;
-  readonly model = 'fixture-v1';
-
-  async draftGraph(_args: any, _opts: any): Promise<any> {
-    // Import fixture dynamically to avoid circular deps
-    const { fixtureGraph } = await import("../../utils/fixtures.js");
-
-    const unsafeCaptureEnabled = Boolean(_args?.includeDebug === true && _args?.flags?.unsafe_capture === true);
-    const rawNodeKinds = Array.isArray((fixtureGraph as any)?.nodes)
-      ? ((fixtureGraph as any).nodes as any[])
-        .map((n: any) => n?.kind ?? n?.type ?? 'unknown')
-        .filter(Boolean)
-      : [];
-
-    return {
-      graph: fixtureGraph,
-      rationales: [],
-      debug: unsafeCaptureEnabled ? {
-        raw_llm_output: { _fixture: true, graph: fixtureGraph },
-        raw_llm_output_truncated: false,
-      } : undefined,
-      meta: {
-        model: this.model,
-        prompt_version: 'fixture:draft_graph',
-        temperature: 0,
-        token_usage: {
-          prompt_tokens: 0,
-          completion_tokens: 0,
-          total_tokens: 0,
-        },
-        finish_reason: 'fixture',
-        provider_latency_ms: 0,
-        node_kinds_raw_json: rawNodeKinds,
-        ...(unsafeCaptureEnabled ? {
-          raw_output_preview: '{"_fixture":true}',
-          raw_llm_text: '{"_fixture":true}',
-          raw_llm_json: { _fixture: true, graph: fixtureGraph },
-        } : {}),
-      },
-      usage: {
-        input_tokens: 0,
-        output_tokens: 0,
-      },
-    };
-  }
-
-  async suggestOptions(_args: any, _opts: any): Promise<any> {
-    return {
-      options: [
-        {
-          id: "opt_a",
-          title: "Fixture Option A",
-          pros: ["Fast", "Reliable"],
-          cons: ["Not real", "Generic"],
-          evidence_to_gather: ["User feedback", "Metrics"],
-        },
-        {
-          id: "opt_b",
-          title: "Fixture Option B",
-          pros: ["Alternative", "Predictable"],
-          cons: ["Not tailored", "Static"],
-          evidence_to_gather: ["A/B test", "Analytics"],
-        },
-        {
-          id: "opt_c",
-          title: "Fixture Option C",
-          pros: ["Comprehensive", "Well-tested"],
-          cons: ["Placeholder", "Not customized"],
-          evidence_to_gather: ["Benchmarks", "Case studies"],
-        },
-      ],
-      usage: {
-        input_tokens: 0,
-        output_tokens: 0,
-      },
-    };
-  }
-
-  async repairGraph(args: any, _opts: any): Promise<any> {
-    // For fixtures, just return the input graph unchanged
-    return {
-      graph: args.graph,
-      rationales: [{ target: "graph", why: "Fixture repair - no actual changes" }],
-      usage: {
-        input_tokens: 0,
-        output_tokens: 0,
-      },
-    };
-  }
-
-  async clarifyBrief(args: any, _opts: any): Promise<any> {
-    return {
-      questions: [
-        {
-          question: "What is the primary goal of this decision?",
-          choices: ["Revenue growth", "Cost reduction", "Risk mitigation", "Strategic positioning"],
-          why_we_ask: "Helps prioritize decision criteria",
-          impacts_draft: "Shapes the goal node and outcome weights",
-        },
-      ],
-      confidence: 0.7,
-      should_continue: false,
-      round: args.round,
-      usage: {
-        input_tokens: 0,
-        output_tokens: 0,
-      },
-    };
-  }
-
-  async critiqueGraph(_args: any, _opts: any): Promise<any> {
-    return {
-      issues: [
-        {
-          level: "OBSERVATION",
-          note: "Fixture critique - no actual analysis performed",
-        },
-      ],
-      suggested_fixes: [],
-      overall_quality: "fair",
-      usage: {
-        input_tokens: 0,
-        output_tokens: 0,
-      },
-    };
-  }
-
-  async explainDiff(args: any, _opts: any): Promise<any> {
-    const rationales: Array<{ target: string; why: string; provenance_source?: string }> = [];
-
-    // Generate rationales for added nodes
-    if (args.patch.adds?.nodes) {
-      for (const node of args.patch.adds.nodes) {
-        const target = node.id || 'unknown_node';
-        rationales.push({
-          target,
-          why: `Added ${node.kind || 'node'} to represent ${node.label || 'a decision element'}`,
-          provenance_source: args.brief ? 'user_brief' : undefined,
-        });
-      }
-    }
-
-    // Generate rationales for added edges
-    if (args.patch.adds?.edges) {
-      for (const edge of args.patch.adds.edges) {
-        const target = edge.id || `${edge.from}::${edge.to}`;
-        rationales.push({
-          target,
-          why: `Connected ${edge.from} to ${edge.to} to show the relationship`,
-          provenance_source: args.brief ? 'user_brief' : undefined,
-        });
-      }
-    }
-
-    // Sort rationales deterministically by target
-    rationales.sort((a, b) => a.target.localeCompare(b.target));
-
-    return {
-      rationales,
-      usage: {
-        input_tokens: 0,
-        output_tokens: 0,
-      },
-    };
-  }
-}
-
 // Adapter instances cache
 const adapters: Map<string, LLMAdapter> = new Map();
 
 /**
  * Get or create an adapter instance for the given provider and model.
+ * Providers are resolved through the registry (see ./registry.ts).
+ *
+ * The provider is wrapped, innermost first, in spend tracking, metrics and
+ * tracing. Caching, failover and hedging are layered over these instances in
+ * getAdapter, so every upstream call (each failover attempt and hedge
+ * included) is priced, counted and traced against the provider and model
+ * that served it, and cache hits record nothing.
  */
-function getAdapterInstance(provider: 'anthropic' | 'openai' | 'fixtures', model?: string): LLMAdapter {
+function getAdapterInstance(provider: LLMProviderName, model?: string): LLMAdapter {
   const cacheKey = `${provider}:${model || 'default'}`;
 
   if (adapters.has(cacheKey)) {
     return adapters.get(cacheKey)!;
   }
 
-  let adapter: LLMAdapter;
-
-  switch (provider) {
-    case 'anthropic':
-      adapter = new AnthropicAdapter(model);
-      break;
-    case 'openai':
-      adapter = new OpenAIAdapter(model);
-      break;
-    case 'fixtures':
-      adapter = new FixturesAdapter();
-      break;
-    default:
-      throw new Error(`Unknown provider: ${provider}`);
-  }
-
+  const adapter = withTracing(withMetrics(withSpendTracking(createProviderAdapter(provider, model))));
   adapters.set(cacheKey, adapter);
   log.info(
     { provider: adapter.name, model: adapter.model, cache_key: cacheKey },
@@ -369,7 +231,7 @@ function createFailoverAdapter(task?: string): LLMAdapter | null {
   const adapterList: LLMAdapter[] = [];
   for (const providerName of providerNames) {
     try {
-      const provider = providerName as 'anthropic' | 'openai' | 'fixtures';
+      const provider = providerName as LLMProviderName;
       const adapter = getAdapterInstance(provider);
       adapterList.push(adapter);
     } catch (error) {
@@ -415,13 +277,19 @@ function createFailoverAdapter(task?: string): LLMAdapter | null {
  * ```
  */
 export function getAdapter(task?: string): LLMAdapter {
+  // Scoped overrides (e.g. draft failure replay) bypass routing and caching
+  const override = getAdapterOverride(task);
+  if (override) {
+    return override;
+  }
+
   // Check for failover configuration first
   const failoverAdapter = createFailoverAdapter(task);
   if (failoverAdapter) {
     // Reuse cached failover wrapper to preserve cache state
     const cacheKey = `failover:${task || "default"}`;
     if (!wrappedAdapters.has(cacheKey)) {
-      wrappedAdapters.set(cacheKey, withCaching(failoverAdapter));
+      wrappedAdapters.set(cacheKey, withCaching(withSemanticCache(failoverAdapter)));
     }
     return wrappedAdapters.get(cacheKey)!;
   }
@@ -431,7 +299,7 @@ export function getAdapter(task?: string): LLMAdapter {
   const envProvider = config.llm.provider || DEFAULT_PROVIDER;
   const envModel = config.llm.model || DEFAULT_MODEL;
 
-  let selectedProvider: 'anthropic' | 'openai' | 'fixtures' = envProvider;
+  let selectedProvider: LLMProviderName = envProvider;
   let selectedModel: string | undefined = envModel === 'auto' ? undefined : envModel;
 
   // Check for task-specific override in config file (providers.json)
@@ -475,9 +343,11 @@ export function getAdapter(task?: string): LLMAdapter {
     );
     selectedModel = ceeModel;
   } else if (!ceeModel && task && isValidCeeTask(task)) {
-    // No env override - use TASK_MODEL_DEFAULTS
+    // No env override - use TASK_MODEL_DEFAULTS, unless the model catalogue says
+    // the default belongs to a different provider than the one selected
     const taskDefault = getDefaultModelForTask(task);
-    if (taskDefault && selectedModel !== taskDefault) {
+    const defaultProvider = taskDefault ? getModelProvider(taskDefault) : undefined;
+    if (taskDefault && selectedModel !== taskDefault && (!defaultProvider || defaultProvider === selectedProvider)) {
       log.info(
         { task, previous_model: selectedModel, task_default: taskDefault, source: 'task_default' },
         "Using task default model from TASK_MODEL_DEFAULTS"
@@ -486,20 +356,153 @@ export function getAdapter(task?: string): LLMAdapter {
     }
   }
 
+  selectedModel = checkModelCapabilities(task, selectedProvider, selectedModel);
+
+  const budgetModel = getBudgetDowngradeModel(task, selectedProvider, selectedModel);
+  if (budgetModel) {
+    selectedModel = budgetModel;
+  }
+
+  if (isHedgingEnabledForTask(task)) {
+    const hedged = getHedgedAdapter(task!, selectedProvider, selectedModel);
+    if (hedged) return hedged;
+  }
+
   // Reuse cached wrapper to preserve cache state across requests
   const cacheKey = `single:${selectedProvider}:${selectedModel || "default"}`;
   if (!wrappedAdapters.has(cacheKey)) {
     const adapter = getAdapterInstance(selectedProvider, selectedModel);
-    wrappedAdapters.set(cacheKey, withCaching(adapter));
+    wrappedAdapters.set(cacheKey, withCaching(withSemanticCache(adapter)));
   }
   return wrappedAdapters.get(cacheKey)!;
 }
 
+/**
+ * Validate the selected model against the provider's registered capabilities.
+ * Reasoning models need a provider that accepts a reasoning effort parameter;
+ * otherwise the request is routed to the provider's default model instead of
+ * failing upstream.
+ */
+function checkModelCapabilities(
+  task: string | undefined,
+  provider: LLMProviderName,
+  model?: string
+): string | undefined {
+  if (!model || !isReasoningModel(model)) return model;
+
+  const capabilities = getProviderCapabilities(provider);
+  if (!capabilities || capabilities.reasoningEffort) return model;
+
+  log.warn(
+    { task, provider, model, missing_capability: "reasoningEffort", source: "capability_check" },
+    "Provider does not support reasoning models - using provider default model"
+  );
+  return undefined;
+}
+
+/**
+ * Fast-tier model to use when the caller's key is close to its spend budget.
+ * Returns undefined when no downgrade applies: budget healthy, task in
+ * QUALITY_REQUIRED_TASKS, model already fast-tier, or no enabled fast-tier
+ * model for the provider.
+ */
+function getBudgetDowngradeModel(
+  task: string | undefined,
+  provider: LLMProviderName,
+  model?: string
+): string | undefined {
+  if (!task || !shouldDowngradeForBudget()) return undefined;
+
+  const ceeTask = toCeeTask(task);
+  if (ceeTask && isQualityRequired(ceeTask)) return undefined;
+  if (model && getModelConfig(model)?.tier === "fast") return undefined;
+
+  const fastModels = getEnabledModelsByTier("fast").filter((m) => m.provider === provider);
+  if (fastModels.length === 0) return undefined;
+  const fastModel = fastModels.reduce((best, current) =>
+    current.qualityScore > best.qualityScore ? current : best
+  );
+
+  const scope = getBudgetScope()!;
+  scope.downgradedTasks.push(task);
+  emit(TelemetryEvents.BudgetModelDowngraded, {
+    key_id: scope.keyId,
+    task,
+    provider,
+    previous_model: model,
+    model: fastModel.id,
+  });
+  log.info(
+    { task, key_id: scope.keyId, previous_model: model, model: fastModel.id, source: "budget_downgrade" },
+    "Spend budget nearly exhausted - using fast-tier model"
+  );
+
+  return fastModel.id;
+}
+
+/**
+ * Wrap the selected adapter in a HedgedAdapter racing the configured
+ * secondary (LLM_HEDGE_PROVIDER / LLM_HEDGE_MODEL). Returns null if the
+ * secondary cannot be created or is identical to the primary.
+ */
+function getHedgedAdapter(
+  task: string,
+  provider: LLMProviderName,
+  model?: string
+): LLMAdapter | null {
+  const hedging = config.llm.hedging;
+  const secondaryProvider = hedging.provider || provider;
+  const secondaryModel = checkModelCapabilities(task, secondaryProvider, hedging.model);
+
+  const cacheKey = `hedged:${task}:${provider}:${model || "default"}:${secondaryProvider}:${secondaryModel || "default"}`;
+  if (wrappedAdapters.has(cacheKey)) {
+    return wrappedAdapters.get(cacheKey)!;
+  }
+  if (hedgeDisabled.has(cacheKey)) {
+    return null;
+  }
+
+  const primary = getAdapterInstance(provider, model);
+  let secondary: LLMAdapter;
+  try {
+    secondary = getAdapterInstance(secondaryProvider, secondaryModel);
+  } catch (error) {
+    log.warn(
+      { task, provider: secondaryProvider, model: secondaryModel, error },
+      "Failed to create hedge adapter, hedging disabled for task"
+    );
+    hedgeDisabled.add(cacheKey);
+    return null;
+  }
+
+  if (secondary.name === primary.name && secondary.model === primary.model) {
+    log.warn(
+      { task, provider: primary.name, model: primary.model },
+      "Hedge target is the same provider and model as the primary, hedging disabled for task"
+    );
+    hedgeDisabled.add(cacheKey);
+    return null;
+  }
+
+  log.info(
+    {
+      task,
+      primary: { provider: primary.name, model: primary.model },
+      secondary: { provider: secondary.name, model: secondary.model },
+    },
+    "Hedging enabled - slow primary requests will be raced against secondary"
+  );
+
+  const adapter = withCaching(withSemanticCache(new HedgedAdapter(primary, secondary, task)));
+  wrappedAdapters.set(cacheKey, adapter);
+  return adapter;
+}
+
 /**
  * Get adapter for a specific provider (useful for testing).
  */
 export function getAdapterForProvider(
-  provider: 'anthropic' | 'openai' | 'fixtures',
+  provider: LLMProviderName,
   model?: string
 ): LLMAdapter {
   return getAdapterInstance(provider, model);
@@ -511,6 +514,7 @@ export function getAdapterForProvider(
 export function resetAdapterCache(): void {
   adapters.clear();
   wrappedAdapters.clear();
+  hedgeDisabled.clear();
   configCache = undefined;
 }
 
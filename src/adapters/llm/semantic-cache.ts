@@ -0,0 +1,367 @@
+/**
+ * Semantic Cache Adapter - Near-duplicate Brief Reuse
+ *
+ * CachingAdapter only hits on byte-identical inputs, so a brief with a trivial
+ * wording change costs a full premium draft_graph call. This layer normalises
+ * the brief and compares a locally computed similarity signature against
+ * recent calls, returning the cached result when similarity is above the
+ * configured threshold.
+ *
+ * Normalisation:
+ * - Unicode NFKC, lowercasing, punctuation and whitespace collapsed
+ * - Stop-words removed, naive plural stemming
+ * - Numbers canonicalised via cee/extraction/numeric-parser.ts
+ *   ("$100k" == "$100,000"); numeric values must match exactly for a hit
+ *
+ * Signature: term frequencies of content-word unigrams and bigrams, compared
+ * by cosine similarity. No embeddings or network calls.
+ *
+ * Scope:
+ * - Entries are partitioned by tenant (caller key ID), model and every
+ *   non-text argument (docs, flags, seed...), so graphs never cross tenants
+ * - In-memory per instance (no Redis backend)
+ * - Hits report usage as zero tokens and are marked with
+ *   meta.cache = "semantic" and meta.cache_similarity (draft_graph only)
+ *
+ * Configuration: config.semanticCache (SEMANTIC_CACHE_* env vars), with
+ * per-tenant overrides in SEMANTIC_CACHE_TENANT_OVERRIDES
+ */
+
+import { config } from "../../config/index.js";
+import { getCurrentCallerContext } from "../../context/caller.js";
+import { parseNumericValue } from "../../cee/extraction/numeric-parser.js";
+import { emit, log, TelemetryEvents } from "../../utils/telemetry.js";
+import { fastHash } from "../../utils/hash.js";
+import { sortedReplacer } from "./caching.js";
+import type {
+  LLMAdapter,
+  DraftGraphArgs,
+  DraftGraphResult,
+  SuggestOptionsArgs,
+  SuggestOptionsResult,
+  ExplainDiffArgs,
+  ExplainDiffResult,
+  RepairGraphArgs,
+  RepairGraphResult,
+  ClarifyBriefArgs,
+  ClarifyBriefResult,
+  CritiqueGraphArgs,
+  CritiqueGraphResult,
+  CallOpts,
+  DraftStreamEvent,
+  UsageMetrics,
+} from "./types.js";
+
+export type SemanticCacheTask = "draft_graph" | "clarify_brief" | "suggest_options";
+
+// Tenant used when no caller context is available (auth disabled)
+const ANONYMOUS_TENANT = "anonymous";
+
+const STOP_WORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "if", "of", "to", "in", "on", "at", "by", "for", "with",
+  "from", "into", "about", "as", "is", "are", "was", "were", "be", "been", "being", "am",
+  "do", "does", "did", "have", "has", "had", "i", "we", "you", "they", "it", "he", "she",
+  "me", "us", "our", "ours", "my", "your", "their", "its", "this", "that", "these", "those",
+  "there", "here", "so", "than", "then", "too", "very", "just", "also", "should", "would",
+  "could", "can", "will", "shall", "may", "might", "must", "whether", "which", "what", "who",
+  "how", "when", "where", "why", "re", "ll", "ve", "d", "s", "t", "m", "please", "currently",
+]);
+
+// Currency amounts, percentages, magnitudes and multipliers ("£1.5m", "20%", "2x")
+const NUMERIC_PATTERN =
+  /(?:[£$€¥₹]\s*)?\d+(?:,\d{3})*(?:\.\d+)?(?:\s*(?:%|percent\b|thousand\b|million\b|billion\b|bn\b|mn\b|[kmb]\b|x\b))?/gi;
+
+/**
+ * Similarity signature of a normalised brief
+ */
+export interface BriefSignature {
+  /** Canonical numeric values, sorted; must match exactly for a hit */
+  numbers: string[];
+  /** Unigram and bigram term frequencies */
+  terms: Map<string, number>;
+  norm: number;
+}
+
+function canonicalNumber(text: string): string {
+  const parsed = parseNumericValue(text);
+  if (!parsed) return text.replace(/[\s,]/g, "").toLowerCase();
+  const kind = parsed.relativeKind === "multiplier" ? "x" : (parsed.unit ?? "").toLowerCase();
+  return `${kind}${parsed.value}`;
+}
+
+function stem(word: string): string {
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Normalise a brief into content words and canonical numbers
+ */
+export function normaliseBrief(text: string): { words: string[]; numbers: string[] } {
+  const numbers: string[] = [];
+  const withoutNumbers = text.normalize("NFKC").replace(NUMERIC_PATTERN, (match) => {
+    numbers.push(canonicalNumber(match));
+    return " ";
+  });
+
+  const words = withoutNumbers
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .split(" ")
+    .filter((word) => word.length > 0 && !STOP_WORDS.has(word))
+    .map(stem);
+
+  return { words, numbers: numbers.sort() };
+}
+
+/**
+ * Compute the similarity signature for a brief
+ */
+export function computeSignature(text: string): BriefSignature {
+  const { words, numbers } = normaliseBrief(text);
+  const terms = new Map<string, number>();
+  const add = (term: string) => terms.set(term, (terms.get(term) ?? 0) + 1);
+
+  for (let i = 0; i < words.length; i++) {
+    add(words[i]);
+    if (i > 0) add(`${words[i - 1]} ${words[i]}`);
+  }
+
+  let sumSquares = 0;
+  for (const count of terms.values()) sumSquares += count * count;
+
+  return { numbers, terms, norm: Math.sqrt(sumSquares) };
+}
+
+/**
+ * Cosine similarity of two signatures (0 when numeric values differ)
+ */
+export function signatureSimilarity(a: BriefSignature, b: BriefSignature): number {
+  if (a.numbers.length !== b.numbers.length || a.numbers.some((n, i) => n !== b.numbers[i])) {
+    return 0;
+  }
+  if (a.norm === 0 || b.norm === 0) {
+    return a.norm === b.norm ? 1 : 0;
+  }
+
+  const [smaller, larger] = a.terms.size <= b.terms.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, count] of smaller.terms) {
+    dot += count * (larger.terms.get(term) ?? 0);
+  }
+  return dot / (a.norm * b.norm);
+}
+
+/**
+ * Effective settings for a task and tenant (tenant overrides take precedence)
+ */
+export function getSemanticCacheSettings(
+  task: SemanticCacheTask,
+  tenant?: string
+): { enabled: boolean; threshold: number } {
+  const settings = config.semanticCache;
+  const override = tenant ? settings.tenantOverrides?.[tenant] : undefined;
+  const tasks = override?.tasks ?? settings.tasks;
+
+  return {
+    enabled: settings.enabled && (override?.enabled ?? true) && tasks.includes(task),
+    threshold: override?.threshold ?? settings.threshold,
+  };
+}
+
+interface SemanticEntry {
+  partition: string;
+  signature: BriefSignature;
+  /** Stringified result (deep-cloned on read, as in CachingAdapter) */
+  json: string;
+  expiresAt: number;
+}
+
+// Shared across adapter instances; insertion order gives oldest-first eviction
+const entries = new Map<string, SemanticEntry>();
+
+function findBestEntry(
+  partition: string,
+  signature: BriefSignature,
+  threshold: number
+): { entry: SemanticEntry; similarity: number } | undefined {
+  const now = Date.now();
+  let best: { entry: SemanticEntry; similarity: number } | undefined;
+
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt <= now) {
+      entries.delete(key);
+      continue;
+    }
+    if (entry.partition !== partition) continue;
+
+    const similarity = signatureSimilarity(signature, entry.signature);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { entry, similarity };
+    }
+  }
+  return best;
+}
+
+function storeEntry(key: string, entry: SemanticEntry): void {
+  entries.delete(key);
+  entries.set(key, entry);
+  const maxEntries = config.semanticCache.maxEntries;
+  while (entries.size > maxEntries) {
+    const oldest = entries.keys().next().value as string;
+    entries.delete(oldest);
+  }
+}
+
+/**
+ * Adapter serving near-identical requests from the semantic cache
+ */
+export class SemanticCachingAdapter implements LLMAdapter {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(private readonly adapter: LLMAdapter) {
+    this.name = adapter.name;
+    this.model = adapter.model;
+  }
+
+  private async withSemanticCache<T extends { usage: UsageMetrics }>(
+    task: SemanticCacheTask,
+    text: string,
+    rest: Record<string, unknown>,
+    opts: CallOpts,
+    fn: () => Promise<T>,
+    mark: (result: T, similarity: number) => T
+  ): Promise<T> {
+    if (opts.bypassCache) {
+      return fn();
+    }
+
+    const tenant = getCurrentCallerContext()?.keyId ?? ANONYMOUS_TENANT;
+    const { enabled, threshold } = getSemanticCacheSettings(task, tenant);
+    if (!enabled) {
+      return fn();
+    }
+
+    const partition = fastHash(
+      JSON.stringify({ task, tenant, model: this.model, args: rest }, sortedReplacer),
+      16
+    );
+    const signature = computeSignature(text);
+
+    const match = findBestEntry(partition, signature, threshold);
+    if (match) {
+      const similarity = Math.round(match.similarity * 1000) / 1000;
+      emit(TelemetryEvents.SemanticCacheHit, {
+        operation: task,
+        provider: this.adapter.name,
+        model: this.model,
+        similarity,
+        threshold,
+        request_id: opts.requestId,
+      });
+      log.debug({ operation: task, similarity, tenant }, "Semantic cache hit");
+
+      const cached = JSON.parse(match.entry.json) as T;
+      // No tokens were consumed for this request
+      return mark({ ...cached, usage: { input_tokens: 0, output_tokens: 0 } } as T, similarity);
+    }
+
+    emit(TelemetryEvents.SemanticCacheMiss, {
+      operation: task,
+      provider: this.adapter.name,
+      model: this.model,
+      request_id: opts.requestId,
+    });
+
+    const result = await fn();
+    storeEntry(`${partition}:${fastHash(text, 16)}`, {
+      partition,
+      signature,
+      json: JSON.stringify(result),
+      expiresAt: Date.now() + config.semanticCache.ttlMs,
+    });
+    return result;
+  }
+
+  async draftGraph(args: DraftGraphArgs, opts: CallOpts): Promise<DraftGraphResult> {
+    const { brief, ...rest } = args;
+    return this.withSemanticCache(
+      "draft_graph",
+      brief,
+      rest,
+      opts,
+      () => this.adapter.draftGraph(args, opts),
+      (result, similarity) => ({
+        ...result,
+        meta: { ...result.meta, model: result.meta?.model ?? this.model, cache: "semantic" as const, cache_similarity: similarity },
+      })
+    );
+  }
+
+  async suggestOptions(args: SuggestOptionsArgs, opts: CallOpts): Promise<SuggestOptionsResult> {
+    const { goal, ...rest } = args;
+    return this.withSemanticCache(
+      "suggest_options",
+      goal,
+      rest,
+      opts,
+      () => this.adapter.suggestOptions(args, opts),
+      (result) => result
+    );
+  }
+
+  async clarifyBrief(args: ClarifyBriefArgs, opts: CallOpts): Promise<ClarifyBriefResult> {
+    const { brief, ...rest } = args;
+    return this.withSemanticCache(
+      "clarify_brief",
+      brief,
+      rest,
+      opts,
+      () => this.adapter.clarifyBrief(args, opts),
+      (result) => result
+    );
+  }
+
+  async repairGraph(args: RepairGraphArgs, opts: CallOpts): Promise<RepairGraphResult> {
+    return this.adapter.repairGraph(args, opts);
+  }
+
+  async critiqueGraph(args: CritiqueGraphArgs, opts: CallOpts): Promise<CritiqueGraphResult> {
+    return this.adapter.critiqueGraph(args, opts);
+  }
+
+  async explainDiff(args: ExplainDiffArgs, opts: CallOpts): Promise<ExplainDiffResult> {
+    return this.adapter.explainDiff(args, opts);
+  }
+
+  /**
+   * Streams are not cached - delegates to the underlying adapter
+   */
+  async *streamDraftGraph(args: DraftGraphArgs, opts: CallOpts): AsyncIterable<DraftStreamEvent> {
+    if (!this.adapter.streamDraftGraph) {
+      throw new Error(`Adapter ${this.adapter.name} does not support streaming`);
+    }
+    yield* this.adapter.streamDraftGraph(args, opts);
+  }
+}
+
+/**
+ * Wrap an adapter with the semantic cache if enabled
+ * Returns the original adapter if the semantic cache is disabled
+ */
+export function withSemanticCache(adapter: LLMAdapter): LLMAdapter {
+  if (!config.semanticCache.enabled) {
+    return adapter;
+  }
+  return new SemanticCachingAdapter(adapter);
+}
+
+/**
+ * Clear all semantic cache entries (useful for testing).
+ */
+export function resetSemanticCache(): void {
+  entries.clear();
+}
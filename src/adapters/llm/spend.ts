@@ -0,0 +1,103 @@
+/**
+ * Spend Tracking Adapter - Per-Key LLM Budget Accounting
+ *
+ * Wraps a provider adapter and records the cost of every call (priced from
+ * the returned UsageMetrics) against the API key of the current request's
+ * budget scope (see utils/budget.ts).
+ *
+ * Only installed when BUDGETS_ENABLED=true; calls outside a budget scope
+ * (unauthenticated or background work) are not recorded.
+ */
+
+import { calculateCost } from "../../utils/telemetry.js";
+import { isBudgetEnforcementEnabled, recordScopedSpend } from "../../utils/budget.js";
+import type {
+  LLMAdapter,
+  DraftGraphArgs,
+  DraftGraphResult,
+  SuggestOptionsArgs,
+  SuggestOptionsResult,
+  ExplainDiffArgs,
+  ExplainDiffResult,
+  RepairGraphArgs,
+  RepairGraphResult,
+  ClarifyBriefArgs,
+  ClarifyBriefResult,
+  CritiqueGraphArgs,
+  CritiqueGraphResult,
+  CallOpts,
+  DraftStreamEvent,
+  UsageMetrics,
+} from "./types.js";
+
+/**
+ * Adapter that records the cost of each call against the caller's budget
+ */
+export class SpendTrackingAdapter implements LLMAdapter {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(private readonly adapter: LLMAdapter) {
+    this.name = adapter.name;
+    this.model = adapter.model;
+  }
+
+  private async track<T extends { usage: UsageMetrics }>(call: Promise<T>): Promise<T> {
+    const result = await call;
+    await this.record(result.usage);
+    return result;
+  }
+
+  private async record(usage: UsageMetrics | undefined): Promise<void> {
+    if (!usage) return;
+    const cost = calculateCost(this.adapter.model, usage.input_tokens, usage.output_tokens);
+    await recordScopedSpend(cost, { provider: this.adapter.name, model: this.adapter.model });
+  }
+
+  async draftGraph(args: DraftGraphArgs, opts: CallOpts): Promise<DraftGraphResult> {
+    return this.track(this.adapter.draftGraph(args, opts));
+  }
+
+  async suggestOptions(args: SuggestOptionsArgs, opts: CallOpts): Promise<SuggestOptionsResult> {
+    return this.track(this.adapter.suggestOptions(args, opts));
+  }
+
+  async repairGraph(args: RepairGraphArgs, opts: CallOpts): Promise<RepairGraphResult> {
+    return this.track(this.adapter.repairGraph(args, opts));
+  }
+
+  async clarifyBrief(args: ClarifyBriefArgs, opts: CallOpts): Promise<ClarifyBriefResult> {
+    return this.track(this.adapter.clarifyBrief(args, opts));
+  }
+
+  async critiqueGraph(args: CritiqueGraphArgs, opts: CallOpts): Promise<CritiqueGraphResult> {
+    return this.track(this.adapter.critiqueGraph(args, opts));
+  }
+
+  async explainDiff(args: ExplainDiffArgs, opts: CallOpts): Promise<ExplainDiffResult> {
+    return this.track(this.adapter.explainDiff(args, opts));
+  }
+
+  async *streamDraftGraph(args: DraftGraphArgs, opts: CallOpts): AsyncIterable<DraftStreamEvent> {
+    if (!this.adapter.streamDraftGraph) {
+      throw new Error(`Adapter ${this.adapter.name} does not support streaming`);
+    }
+
+    for await (const event of this.adapter.streamDraftGraph(args, opts)) {
+      if (event.type === "complete") {
+        await this.record(event.result.usage);
+      }
+      yield event;
+    }
+  }
+}
+
+/**
+ * Wrap a provider adapter with spend tracking when budgets are enabled
+ */
+export function withSpendTracking(adapter: LLMAdapter): LLMAdapter {
+  if (!isBudgetEnforcementEnabled()) {
+    return adapter;
+  }
+  return new SpendTrackingAdapter(adapter);
+}
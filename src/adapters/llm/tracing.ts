@@ -0,0 +1,138 @@
+/**
+ * Tracing Adapter - OpenTelemetry Spans for LLM Calls
+ *
+ * Wraps a provider adapter and records a client span for every call, named
+ * after the operation (llm.draft_graph, llm.repair_graph, ...) and carrying
+ * the provider, model and token usage (see utils/tracing.ts).
+ *
+ * Only installed when tracing is enabled (OTEL_TRACING_ENABLED=true).
+ */
+
+import {
+  getTracer,
+  isTracingEnabled,
+  recordSpanError,
+  setTokenUsageAttributes,
+  withSpan,
+  SpanKind,
+} from "../../utils/tracing.js";
+import type {
+  LLMAdapter,
+  DraftGraphArgs,
+  DraftGraphResult,
+  SuggestOptionsArgs,
+  SuggestOptionsResult,
+  ExplainDiffArgs,
+  ExplainDiffResult,
+  RepairGraphArgs,
+  RepairGraphResult,
+  ClarifyBriefArgs,
+  ClarifyBriefResult,
+  CritiqueGraphArgs,
+  CritiqueGraphResult,
+  CallOpts,
+  DraftStreamEvent,
+  UsageMetrics,
+} from "./types.js";
+
+/**
+ * Adapter that records an OpenTelemetry span for each call
+ */
+export class TracingAdapter implements LLMAdapter {
+  readonly name: string;
+  readonly model: string;
+
+  constructor(private readonly adapter: LLMAdapter) {
+    this.name = adapter.name;
+    this.model = adapter.model;
+  }
+
+  private attributes(operation: string, opts: CallOpts) {
+    return {
+      "gen_ai.operation.name": operation,
+      "gen_ai.system": this.adapter.name,
+      "gen_ai.request.model": this.adapter.model,
+      ...(opts.requestId && { "olumi.request_id": opts.requestId }),
+    };
+  }
+
+  private trace<T extends { usage: UsageMetrics }>(
+    operation: string,
+    opts: CallOpts,
+    call: () => Promise<T>
+  ): Promise<T> {
+    return withSpan(
+      `llm.${operation}`,
+      this.attributes(operation, opts),
+      async (span) => {
+        const result = await call();
+        setTokenUsageAttributes(span, result.usage);
+        return result;
+      },
+      SpanKind.CLIENT
+    );
+  }
+
+  async draftGraph(args: DraftGraphArgs, opts: CallOpts): Promise<DraftGraphResult> {
+    return this.trace("draft_graph", opts, () => this.adapter.draftGraph(args, opts));
+  }
+
+  async suggestOptions(args: SuggestOptionsArgs, opts: CallOpts): Promise<SuggestOptionsResult> {
+    return this.trace("suggest_options", opts, () => this.adapter.suggestOptions(args, opts));
+  }
+
+  async repairGraph(args: RepairGraphArgs, opts: CallOpts): Promise<RepairGraphResult> {
+    return this.trace("repair_graph", opts, () => this.adapter.repairGraph(args, opts));
+  }
+
+  async clarifyBrief(args: ClarifyBriefArgs, opts: CallOpts): Promise<ClarifyBriefResult> {
+    return this.trace("clarify_brief", opts, () => this.adapter.clarifyBrief(args, opts));
+  }
+
+  async critiqueGraph(args: CritiqueGraphArgs, opts: CallOpts): Promise<CritiqueGraphResult> {
+    return this.trace("critique_graph", opts, () => this.adapter.critiqueGraph(args, opts));
+  }
+
+  async explainDiff(args: ExplainDiffArgs, opts: CallOpts): Promise<ExplainDiffResult> {
+    return this.trace("explain_diff", opts, () => this.adapter.explainDiff(args, opts));
+  }
+
+  /**
+   * The span covers the whole stream; usage is taken from the complete event
+   */
+  async *streamDraftGraph(args: DraftGraphArgs, opts: CallOpts): AsyncIterable<DraftStreamEvent> {
+    if (!this.adapter.streamDraftGraph) {
+      throw new Error(`Adapter ${this.adapter.name} does not support streaming`);
+    }
+
+    const span = getTracer().startSpan("llm.stream_draft_graph", {
+      kind: SpanKind.CLIENT,
+      attributes: this.attributes("stream_draft_graph", opts),
+    });
+    try {
+      for await (const event of this.adapter.streamDraftGraph(args, opts)) {
+        if (event.type === "complete") {
+          setTokenUsageAttributes(span, event.result.usage);
+        } else if (event.type === "error") {
+          recordSpanError(span, event.error);
+        }
+        yield event;
+      }
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+}
+
+/**
+ * Wrap a provider adapter with tracing when tracing is enabled
+ */
+export function withTracing(adapter: LLMAdapter): LLMAdapter {
+  if (!isTracingEnabled()) {
+    return adapter;
+  }
+  return new TracingAdapter(adapter);
+}
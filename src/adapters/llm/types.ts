@@ -1,7 +1,7 @@
 /**
  * Provider-agnostic LLM adapter interface for multi-provider orchestration.
  *
- * All adapters (Anthropic, OpenAI, etc.) must implement this interface to ensure
+ * All adapters (Anthropic, OpenAI, Local, etc.) must implement this interface to ensure
  * consistent behavior across providers while respecting spec v04 constraints.
  */
 
@@ -62,6 +62,9 @@ export interface DraftGraphResult {
     };
     finish_reason?: string;
     provider_latency_ms?: number;
+    // Set when served from the semantic cache (see semantic-cache.ts)
+    cache?: "semantic";
+    cache_similarity?: number;
 
     // Safe diagnostics
     node_kinds_raw_json?: string[];
@@ -247,7 +250,7 @@ export interface LLMAdapter {
   /**
    * Provider name for telemetry and routing.
    */
-  readonly name: 'anthropic' | 'openai' | 'fixtures' | string;
+  readonly name: 'anthropic' | 'openai' | 'local' | 'fixtures' | string;
 
   /**
    * Model identifier (provider-specific, e.g., "claude-3-5-sonnet-20241022", "gpt-4o-mini").
@@ -14,6 +14,12 @@ export {
   type ServiceDecisionReviewRequest,
 } from './service.js';
 
+// Local approximation exports
+export {
+  createLocalApproximations,
+  type LocalApproximations,
+} from './local-approximations.js';
+
 // Template exports
 export {
   formatSensitivityExplanation,
@@ -33,6 +39,8 @@ export {
   NodeKindSchema,
   type NodeKind,
   // ISL analysis schemas
+  AnalysisSourceSchema,
+  type AnalysisSource,
   ISLSensitivityResultSchema,
   ISLContrastiveResultSchema,
   ISLConformalResultSchema,
@@ -0,0 +1,631 @@
+/**
+ * Local Approximations for Decision Review
+ *
+ * In-process stand-ins for the four ISL analyses, used when ISL is not
+ * configured, the circuit breaker is open, or an individual call fails.
+ * Every result carries `source: 'local_approximation'` so reviewers can
+ * tell it apart from ISL output.
+ *
+ * Model: the linear structural model of the local inference engine
+ * (cee/inference/engine.ts), evaluated deterministically at expected values.
+ * Factor values are normalised against their baseline and range, every other
+ * node is the sum of strength × parent over its incoming edges, and an
+ * option switches itself on and fixes the factors it intervenes on.
+ *
+ * - Sensitivity: finite differences. Each factor is swept across its range
+ *   (value ± 2σ without one); a node's score is its share of the total swing
+ *   in the target (first goal, else the first sink outcome).
+ * - Contrastive: options ranked by target value, plus a single-factor search
+ *   for the value at which the runner-up would overtake the leader.
+ * - Conformal: bootstrap interval, resampling factor values from their
+ *   uncertainty with a seeded PRNG. Not calibrated against observations.
+ * - Validation strategies: measure the factors that drive the most swing,
+ *   and quantify factors that have no value.
+ *
+ * Expects the graph normalised for ISL (normalizeGraphForISL), so V3
+ * observed_state values and derived value_std are already on node.data.
+ */
+
+import type { GraphV1 } from '../../contracts/plot/engine.js';
+import {
+  createDegradedSensitivity,
+  createDegradedContrastive,
+  createDegradedConformal,
+  createDegradedValidationSuggestions,
+  type ISLSensitivityResult,
+  type ISLContrastiveResult,
+  type ISLConformalResult,
+  type ValidationSuggestion,
+  type ValidationSuggestions,
+} from './schema.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LocalApproximations {
+  sensitivity(nodeId: string): ISLSensitivityResult;
+  contrastive(decisionNodeId: string): ISLContrastiveResult;
+  conformal(nodeId: string): ISLConformalResult;
+  validationStrategies(): ValidationSuggestions;
+}
+
+interface LocalNode {
+  id: string;
+  kind: string;
+  label?: string;
+  title?: string;
+  data?: {
+    value?: number;
+    baseline?: number;
+    range?: { min?: number; max?: number };
+    rangeMin?: number;
+    rangeMax?: number;
+    value_std?: number;
+    interventions?: Record<string, number>;
+  };
+}
+
+interface LocalEdge {
+  from: string;
+  to: string;
+  strength_mean?: number;
+  weight?: number;
+  belief?: number;
+  belief_exists?: number;
+  effect_direction?: 'positive' | 'negative';
+}
+
+interface FactorModel {
+  id: string;
+  label: string;
+  /** Raw value the normalised scale is centred on (baseline, else value) */
+  reference: number;
+  scale: number;
+  /** Normalised current value */
+  x: number;
+  /** Normalised sweep bounds */
+  low: number;
+  high: number;
+  /** Normalised standard deviation for bootstrap draws */
+  std: number;
+  hasRange: boolean;
+}
+
+interface Scenario {
+  optionId?: string;
+  /** Node → normalised value, fixed (do-semantics) */
+  fixed: Map<string, number>;
+}
+
+interface PreparedModel {
+  nodes: Map<string, LocalNode>;
+  order: string[];
+  incoming: Map<string, Array<{ from: string; strength: number }>>;
+  outgoing: Map<string, string[]>;
+  factors: Map<string, FactorModel>;
+  targetId: string;
+}
+
+const SOURCE = 'local_approximation' as const;
+const DEFAULT_EDGE_STRENGTH = 0.5;
+/** Relative spread assumed for a factor with neither range nor value_std */
+const DEFAULT_CV = 0.2;
+const BOOTSTRAP_SAMPLES = 500;
+const CONFORMAL_CONFIDENCE = 0.9;
+const DEFAULT_SEED = 17;
+const MAX_LISTED_FACTORS = 3;
+const MAX_COUNTERFACTUALS = 3;
+const MAX_STRATEGIES = 5;
+/** Assumed impact of quantifying a factor that has no value */
+const QUANTIFY_IMPACT = 0.2;
+
+// ============================================================================
+// Model preparation
+// ============================================================================
+
+function labelOf(node: LocalNode | undefined, fallback: string): string {
+  return node?.label ?? node?.title ?? fallback;
+}
+
+function edgeStrength(edge: LocalEdge): number {
+  const mean = typeof edge.strength_mean === 'number'
+    ? edge.strength_mean
+    : typeof edge.weight === 'number'
+      ? edge.weight
+      : edge.effect_direction === 'negative' ? -DEFAULT_EDGE_STRENGTH : DEFAULT_EDGE_STRENGTH;
+  return mean * (edge.belief_exists ?? edge.belief ?? 1);
+}
+
+function toFactorModel(node: LocalNode, value: number): FactorModel {
+  const data = node.data ?? {};
+  const min = data.range?.min ?? data.rangeMin;
+  const max = data.range?.max ?? data.rangeMax;
+  const hasRange = min !== undefined && max !== undefined && max > min;
+  const reference = data.baseline ?? value;
+  const scale = hasRange ? max! - min! : Math.abs(reference) || Math.abs(value) || 1;
+  const rawStd = data.value_std ?? (hasRange ? (max! - min!) / 4 : DEFAULT_CV * Math.abs(value));
+
+  const x = (value - reference) / scale;
+  const std = rawStd / scale;
+  return {
+    id: node.id,
+    label: labelOf(node, node.id),
+    reference,
+    scale,
+    x,
+    low: hasRange ? (min! - reference) / scale : x - 2 * std,
+    high: hasRange ? (max! - reference) / scale : x + 2 * std,
+    std,
+    hasRange,
+  };
+}
+
+function resolveTargetId(nodes: LocalNode[], edges: LocalEdge[]): string | null {
+  const goal = nodes.find((n) => n.kind === 'goal');
+  if (goal) return goal.id;
+
+  const sources = new Set(edges.map((e) => e.from));
+  const outcome = nodes.find((n) => n.kind === 'outcome' && !sources.has(n.id))
+    ?? nodes.find((n) => n.kind === 'outcome');
+  return outcome?.id ?? null;
+}
+
+function prepare(graph: GraphV1): PreparedModel | string {
+  const nodes = ((graph as { nodes?: LocalNode[] }).nodes ?? []);
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  const edges = ((graph as { edges?: LocalEdge[] }).edges ?? [])
+    .filter((e) => nodeMap.has(e.from) && nodeMap.has(e.to));
+
+  const targetId = resolveTargetId(nodes, edges);
+  if (!targetId) {
+    return 'Graph has no goal or outcome node to evaluate';
+  }
+
+  const incoming = new Map<string, Array<{ from: string; strength: number }>>();
+  const outgoing = new Map<string, string[]>();
+  const indegree = new Map(nodes.map((n) => [n.id, 0]));
+  for (const edge of edges) {
+    incoming.set(edge.to, [...(incoming.get(edge.to) ?? []), { from: edge.from, strength: edgeStrength(edge) }]);
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge.to]);
+    indegree.set(edge.to, (indegree.get(edge.to) ?? 0) + 1);
+  }
+
+  const queue = nodes.map((n) => n.id).filter((id) => indegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const next of outgoing.get(id) ?? []) {
+      const remaining = (indegree.get(next) ?? 0) - 1;
+      indegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+  if (order.length !== nodes.length) {
+    return 'Graph contains a cycle';
+  }
+
+  const factors = new Map<string, FactorModel>();
+  for (const node of nodes) {
+    const value = node.data?.value;
+    if (node.kind === 'factor' && typeof value === 'number' && Number.isFinite(value)) {
+      factors.set(node.id, toFactorModel(node, value));
+    }
+  }
+
+  return { nodes: nodeMap, order, incoming, outgoing, factors, targetId };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function optionScenario(model: PreparedModel, optionId: string): Scenario {
+  const fixed = new Map<string, number>();
+  for (const [factorId, raw] of Object.entries(model.nodes.get(optionId)?.data?.interventions ?? {})) {
+    const factor = model.factors.get(factorId);
+    if (factor && typeof raw === 'number') {
+      fixed.set(factorId, (raw - factor.reference) / factor.scale);
+    }
+  }
+  return { optionId, fixed };
+}
+
+const BASELINE: Scenario = { fixed: new Map() };
+
+/**
+ * Node values under a scenario; `overrides` fix nodes unless the scenario
+ * already does (an option's interventions win over a factor sweep)
+ */
+function evaluate(
+  model: PreparedModel,
+  scenario: Scenario,
+  overrides?: Map<string, number>,
+): Map<string, number> {
+  const values = new Map<string, number>();
+
+  for (const id of model.order) {
+    const fixed = scenario.fixed.get(id) ?? overrides?.get(id);
+    if (fixed !== undefined) {
+      values.set(id, fixed);
+      continue;
+    }
+
+    const kind = model.nodes.get(id)?.kind;
+    if (kind === 'option') {
+      values.set(id, id === scenario.optionId ? 1 : 0);
+      continue;
+    }
+    if (kind === 'decision') {
+      values.set(id, 0);
+      continue;
+    }
+
+    let value = model.factors.get(id)?.x ?? 0;
+    for (const edge of model.incoming.get(id) ?? []) {
+      value += edge.strength * (values.get(edge.from) ?? 0);
+    }
+    values.set(id, value);
+  }
+
+  return values;
+}
+
+function targetValue(model: PreparedModel, scenario: Scenario, overrides?: Map<string, number>): number {
+  return evaluate(model, scenario, overrides).get(model.targetId) ?? 0;
+}
+
+/**
+ * Mulberry32 PRNG (deterministic across runs for the same seed)
+ */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(rng: () => number, mean: number, std: number): number {
+  const u = Math.max(rng(), Number.EPSILON);
+  return mean + std * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+function round(value: number, places = 4): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(round(value, 2));
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+// ============================================================================
+// Analyses
+// ============================================================================
+
+function classify(score: number): 'low' | 'medium' | 'high' {
+  if (score >= 0.5) return 'high';
+  if (score >= 0.2) return 'medium';
+  return 'low';
+}
+
+function unavailable(reason: string): string {
+  return `Local approximation unavailable: ${reason}`;
+}
+
+/**
+ * Build local approximations of the ISL analyses for a graph.
+ * Intermediate results (factor sweeps, bootstrap draws) are computed once
+ * and shared across nodes.
+ */
+export function createLocalApproximations(graph: GraphV1): LocalApproximations {
+  const prepared = prepare(graph);
+  const seed = graph.default_seed ?? DEFAULT_SEED;
+
+  if (typeof prepared === 'string') {
+    return {
+      sensitivity: () => createDegradedSensitivity(unavailable(prepared), SOURCE),
+      contrastive: () => createDegradedContrastive(unavailable(prepared), SOURCE),
+      conformal: () => createDegradedConformal(unavailable(prepared), SOURCE),
+      validationStrategies: () => createDegradedValidationSuggestions(unavailable(prepared), SOURCE),
+    };
+  }
+
+  const model = prepared;
+  const targetLabel = labelOf(model.nodes.get(model.targetId), model.targetId);
+
+  // Per factor: node values at the low and high ends of its sweep
+  let sweeps: Map<string, { low: Map<string, number>; high: Map<string, number> }> | null = null;
+  const getSweeps = () => {
+    if (!sweeps) {
+      sweeps = new Map();
+      for (const factor of model.factors.values()) {
+        sweeps.set(factor.id, {
+          low: evaluate(model, BASELINE, new Map([[factor.id, factor.low]])),
+          high: evaluate(model, BASELINE, new Map([[factor.id, factor.high]])),
+        });
+      }
+    }
+    return sweeps;
+  };
+
+  /** Change in a node across each factor's sweep */
+  const nodeDeltas = (nodeId: string): Array<{ factor: FactorModel; delta: number }> =>
+    [...model.factors.values()]
+      .map((factor) => {
+        const sweep = getSweeps().get(factor.id)!;
+        return { factor, delta: (sweep.high.get(nodeId) ?? 0) - (sweep.low.get(nodeId) ?? 0) };
+      })
+      .filter((d) => d.delta !== 0);
+
+  const totalSwing = () =>
+    nodeDeltas(model.targetId).reduce((sum, d) => sum + Math.abs(d.delta), 0);
+
+  /** dTarget/dNode, by fixing the node one unit above its current value */
+  const targetGradient = (nodeId: string): number => {
+    if (nodeId === model.targetId) return 1;
+    const current = evaluate(model, BASELINE).get(nodeId) ?? 0;
+    return targetValue(model, BASELINE, new Map([[nodeId, current + 1]])) - targetValue(model, BASELINE);
+  };
+
+  const pathToTarget = (fromId: string): string[] => {
+    const previous = new Map<string, string | null>([[fromId, null]]);
+    const queue = [fromId];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === model.targetId) {
+        const path: string[] = [];
+        for (let id: string | null = current; id !== null; id = previous.get(id) ?? null) {
+          path.unshift(labelOf(model.nodes.get(id), id));
+        }
+        return path;
+      }
+      for (const next of model.outgoing.get(current) ?? []) {
+        if (!previous.has(next)) {
+          previous.set(next, current);
+          queue.push(next);
+        }
+      }
+    }
+    return [];
+  };
+
+  // Bootstrap draws of every node under the baseline scenario
+  let draws: Map<string, number[]> | null = null;
+  const getDraws = () => {
+    if (!draws) {
+      const collected = new Map<string, number[]>(model.order.map((id) => [id, []]));
+      const rng = createRng(seed);
+      for (let i = 0; i < BOOTSTRAP_SAMPLES; i++) {
+        const sampled = new Map<string, number>();
+        for (const factor of model.factors.values()) {
+          sampled.set(factor.id, sampleNormal(rng, factor.x, factor.std));
+        }
+        for (const [id, value] of evaluate(model, BASELINE, sampled)) {
+          collected.get(id)!.push(value);
+        }
+      }
+      draws = collected;
+    }
+    return draws;
+  };
+
+  const toRaw = (factor: FactorModel, x: number): number => factor.reference + x * factor.scale;
+
+  return {
+    sensitivity(nodeId: string): ISLSensitivityResult {
+      const node = model.nodes.get(nodeId);
+      if (!node) return createDegradedSensitivity(unavailable('Node not found in graph'), SOURCE);
+
+      const total = totalSwing();
+      if (total === 0) {
+        return createDegradedSensitivity(unavailable('No quantified factors affect the target'), SOURCE);
+      }
+
+      let swing: number;
+      let contributors: Array<{ label: string; swing: number }>;
+
+      if (node.kind === 'option') {
+        // Switching the option on, against the status quo
+        const scenario = optionScenario(model, nodeId);
+        swing = Math.abs(targetValue(model, scenario) - targetValue(model, BASELINE));
+        contributors = [...scenario.fixed.keys()].map((id) => ({
+          label: model.factors.get(id)!.label,
+          swing: Math.abs(
+            targetValue(model, BASELINE, new Map([[id, scenario.fixed.get(id)!]])) - targetValue(model, BASELINE),
+          ),
+        }));
+      } else {
+        // Linear model: swing through the node = |dT/dn| × Σ |Δn| over upstream factor sweeps
+        const gradient = Math.abs(targetGradient(nodeId));
+        contributors = nodeDeltas(nodeId).map((d) => ({
+          label: d.factor.label,
+          swing: gradient * Math.abs(d.delta),
+        }));
+        swing = contributors.reduce((sum, c) => sum + c.swing, 0);
+      }
+
+      const score = round(Math.min(1, swing / total));
+      return {
+        available: true,
+        source: SOURCE,
+        score,
+        classification: classify(score),
+        factors: contributors
+          .filter((c) => c.swing > 0)
+          .sort((a, b) => b.swing - a.swing)
+          .slice(0, MAX_LISTED_FACTORS)
+          .map((c) => `${c.label} (${percent(c.swing / total)} of the swing in ${targetLabel})`),
+        affectedPaths: (() => {
+          const path = pathToTarget(nodeId);
+          return path.length > 1 ? [path.join(' → ')] : [];
+        })(),
+      };
+    },
+
+    contrastive(decisionNodeId: string): ISLContrastiveResult {
+      const linked = (model.outgoing.get(decisionNodeId) ?? [])
+        .filter((id) => model.nodes.get(id)?.kind === 'option');
+      const optionIds = linked.length > 0
+        ? linked
+        : [...model.nodes.values()].filter((n) => n.kind === 'option').map((n) => n.id);
+
+      if (optionIds.length < 2) {
+        return createDegradedContrastive(unavailable('Fewer than two options to compare'), SOURCE);
+      }
+
+      const ranked = optionIds
+        .map((id) => ({ id, label: labelOf(model.nodes.get(id), id), scenario: optionScenario(model, id) }))
+        .map((o) => ({ ...o, value: targetValue(model, o.scenario) }))
+        .sort((a, b) => b.value - a.value);
+      const [best, runnerUp] = ranked;
+      const gap = best.value - runnerUp.value;
+
+      // Gap between leader and runner-up is linear in each factor (unless
+      // an option fixes it): solve for the value that closes it
+      const counterfactuals: Array<{ change: string; predictedImpact: string; distance: number }> = [];
+      const keyFactors: Array<{ label: string; fixedDiff: boolean; weight: number }> = [];
+
+      for (const factor of model.factors.values()) {
+        const shifted = new Map([[factor.id, factor.x + 1]]);
+        const slope =
+          (targetValue(model, best.scenario, shifted) - best.value) -
+          (targetValue(model, runnerUp.scenario, shifted) - runnerUp.value);
+
+        const fixedDiff = best.scenario.fixed.get(factor.id) !== runnerUp.scenario.fixed.get(factor.id);
+        if (fixedDiff || slope !== 0) {
+          keyFactors.push({ label: factor.label, fixedDiff, weight: Math.abs(slope) });
+        }
+        if (slope === 0 || gap === 0) continue;
+
+        const x = factor.x - gap / slope;
+        const inRange = x >= Math.min(factor.low, factor.high) && x <= Math.max(factor.low, factor.high);
+        counterfactuals.push({
+          change: `${factor.label} moved from ${formatNumber(toRaw(factor, factor.x))} to ${formatNumber(round(toRaw(factor, x)))}`,
+          predictedImpact: `${runnerUp.label} would overtake ${best.label} on ${targetLabel}` +
+            (inRange ? '' : ' (outside the factor\'s plausible range)'),
+          distance: Math.abs(x - factor.x),
+        });
+      }
+
+      return {
+        available: true,
+        source: SOURCE,
+        explanation: gap === 0
+          ? `${best.label} and ${runnerUp.label} tie on ${targetLabel} (${formatNumber(round(best.value))}) under the local model.`
+          : `${best.label} scores highest on ${targetLabel} (${formatNumber(round(best.value))}) under the local model, ` +
+            `ahead of ${runnerUp.label} (${formatNumber(round(runnerUp.value))}).`,
+        keyFactors: keyFactors
+          // Factors the options set differently first, then by slope
+          .sort((a, b) => Number(b.fixedDiff) - Number(a.fixedDiff) || b.weight - a.weight)
+          .slice(0, MAX_LISTED_FACTORS)
+          .map((f) => f.label),
+        counterfactuals: counterfactuals
+          .sort((a, b) => a.distance - b.distance)
+          .slice(0, MAX_COUNTERFACTUALS)
+          .map(({ change, predictedImpact }) => ({ change, predictedImpact })),
+      };
+    },
+
+    conformal(nodeId: string): ISLConformalResult {
+      if (!model.nodes.has(nodeId)) return createDegradedConformal(unavailable('Node not found in graph'), SOURCE);
+
+      const upstream = nodeDeltas(nodeId);
+      if (upstream.length === 0) {
+        return createDegradedConformal(unavailable('No quantified factors feed this node'), SOURCE);
+      }
+
+      const sorted = [...(getDraws().get(nodeId) ?? [])].sort((a, b) => a - b);
+      const tail = (1 - CONFORMAL_CONFIDENCE) / 2;
+
+      return {
+        available: true,
+        source: SOURCE,
+        interval: {
+          lower: round(quantile(sorted, tail)),
+          upper: round(quantile(sorted, 1 - tail)),
+        },
+        confidence: CONFORMAL_CONFIDENCE,
+        // Bootstrap over assumed uncertainty, not calibrated against outcomes
+        wellCalibrated: false,
+        widthFactors: upstream
+          .map((d) => ({ label: d.factor.label, spread: Math.abs(d.delta / (d.factor.high - d.factor.low)) * d.factor.std }))
+          .sort((a, b) => b.spread - a.spread)
+          .slice(0, MAX_LISTED_FACTORS)
+          .map((d) => d.label),
+      };
+    },
+
+    validationStrategies(): ValidationSuggestions {
+      const total = totalSwing();
+      const strategies: ValidationSuggestion[] = [];
+
+      for (const { factor, delta } of nodeDeltas(model.targetId)) {
+        const share = Math.abs(delta) / total;
+        strategies.push({
+          id: `measure_${factor.id}`,
+          title: `Measure ${factor.label}`,
+          description: `${factor.label} accounts for ${percent(share)} of the swing in ${targetLabel} across factor ranges.`,
+          priority: share >= 0.4 ? 'high' : share >= 0.2 ? 'medium' : 'low',
+          effort: 'moderate',
+          expectedImpact: round(share, 2),
+          actions: [
+            `Find data or a benchmark for ${factor.label}`,
+            factor.hasRange
+              ? `Narrow the range for ${factor.label}`
+              : `Record a plausible range for ${factor.label}`,
+          ],
+        });
+      }
+
+      const allFactors = [...model.nodes.values()].filter((n) => n.kind === 'factor');
+      for (const node of allFactors.filter((n) => !model.factors.has(n.id))) {
+        const label = labelOf(node, node.id);
+        strategies.push({
+          id: `quantify_${node.id}`,
+          title: `Quantify ${label}`,
+          description: `${label} has no value, so the analysis treats it as having no effect.`,
+          priority: 'medium',
+          effort: 'minimal',
+          expectedImpact: QUANTIFY_IMPACT,
+          actions: [`Estimate a value for ${label}`],
+        });
+      }
+
+      const rank = { critical: 3, high: 2, medium: 1, low: 0 };
+      const top = strategies
+        .sort((a, b) => rank[b.priority] - rank[a.priority] || b.expectedImpact - a.expectedImpact)
+        .slice(0, MAX_STRATEGIES);
+
+      const risks = [...model.nodes.values()].filter((n) => n.kind === 'risk');
+      const connectedRisks = risks.filter((n) => model.incoming.has(n.id) || model.outgoing.has(n.id));
+
+      return {
+        available: true,
+        source: SOURCE,
+        strategies: top,
+        overallPriority: top.length > 0 && top[0].priority !== 'critical' ? top[0].priority : 'low',
+        coverage: {
+          nodeCoverage: allFactors.length > 0 ? round(model.factors.size / allFactors.length, 2) : 1,
+          riskCoverage: risks.length > 0 ? round(connectedRisks.length / risks.length, 2) : 1,
+        },
+      };
+    },
+  };
+}
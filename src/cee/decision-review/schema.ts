@@ -3,7 +3,8 @@
  *
  * Zod schemas for ISL-enhanced decision review critiques with
  * graceful degradation support. All ISL-enriched fields include
- * `available: boolean` to indicate whether the analysis succeeded.
+ * `available: boolean` to indicate whether the analysis succeeded, and
+ * `source` to say whether ISL or a local approximation produced it.
  */
 
 import { z } from 'zod';
@@ -27,6 +28,17 @@ export const NodeKindSchema = z.enum([
 ]);
 export type NodeKind = z.infer<typeof NodeKindSchema>;
 
+// ============================================================================
+// Analysis Source
+// ============================================================================
+
+/**
+ * Producer of an analysis: ISL, or the in-process approximation used
+ * when ISL is unavailable (see local-approximations.ts)
+ */
+export const AnalysisSourceSchema = z.enum(['isl', 'local_approximation']);
+export type AnalysisSource = z.infer<typeof AnalysisSourceSchema>;
+
 // ============================================================================
 // ISL Sensitivity Analysis (Gracefully Degraded)
 // ============================================================================
@@ -38,6 +50,8 @@ export type NodeKind = z.infer<typeof NodeKindSchema>;
 export const ISLSensitivityResultSchema = z.object({
   /** Whether ISL sensitivity analysis was available */
   available: z.boolean(),
+  /** Producer of the analysis */
+  source: AnalysisSourceSchema.optional(),
   /** Sensitivity score (0-1) - only present if available */
   score: z.number().min(0).max(1).optional(),
   /** Classification based on threshold */
@@ -61,6 +75,8 @@ export type ISLSensitivityResult = z.infer<typeof ISLSensitivityResultSchema>;
 export const ISLContrastiveResultSchema = z.object({
   /** Whether ISL contrastive analysis was available */
   available: z.boolean(),
+  /** Producer of the analysis */
+  source: AnalysisSourceSchema.optional(),
   /** Main explanation for why this decision was made */
   explanation: z.string().optional(),
   /** Key factors that differentiate this decision */
@@ -89,6 +105,8 @@ export type ISLContrastiveResult = z.infer<typeof ISLContrastiveResultSchema>;
 export const ISLConformalResultSchema = z.object({
   /** Whether ISL conformal prediction was available */
   available: z.boolean(),
+  /** Producer of the analysis */
+  source: AnalysisSourceSchema.optional(),
   /** Prediction interval bounds */
   interval: z
     .object({
@@ -156,6 +174,8 @@ export type ValidationSuggestion = z.infer<typeof ValidationSuggestionSchema>;
 export const ValidationSuggestionsSchema = z.object({
   /** Whether ISL validation strategies were available */
   available: z.boolean(),
+  /** Producer of the analysis */
+  source: AnalysisSourceSchema.optional(),
   /** Recommended validation strategies */
   strategies: z.array(ValidationSuggestionSchema).optional(),
   /** Overall priority for validation */
@@ -250,6 +270,8 @@ export const DecisionReviewRequestSchema = z.object({
       islTimeoutMs: z.number().positive().default(5000),
       /** Maximum nodes to analyze */
       maxNodes: z.number().positive().default(20),
+      /** Approximate failed ISL analyses locally */
+      enableLocalFallback: z.boolean().default(true),
     })
     .optional(),
 });
@@ -277,6 +299,8 @@ export const ISLAvailabilitySummarySchema = z.object({
   degradationReason: z.string().optional(),
   /** Which ISL endpoints were successfully called */
   endpointsUsed: z.array(z.enum(['sensitivity', 'contrastive', 'conformal', 'validation'])).optional(),
+  /** Which analyses were approximated locally instead */
+  localApproximations: z.array(z.enum(['sensitivity', 'contrastive', 'conformal', 'validation'])).optional(),
 });
 export type ISLAvailabilitySummary = z.infer<typeof ISLAvailabilitySummarySchema>;
 
@@ -395,9 +419,10 @@ export type DecisionReviewResponse = z.infer<typeof DecisionReviewResponseSchema
 /**
  * Create a degraded ISL sensitivity result (when ISL fails)
  */
-export function createDegradedSensitivity(error?: string): ISLSensitivityResult {
+export function createDegradedSensitivity(error?: string, source?: AnalysisSource): ISLSensitivityResult {
   return {
     available: false,
+    ...(source ? { source } : {}),
     error: error ?? 'ISL sensitivity analysis unavailable',
   };
 }
@@ -405,9 +430,10 @@ export function createDegradedSensitivity(error?: string): ISLSensitivityResult
 /**
  * Create a degraded ISL contrastive result (when ISL fails)
  */
-export function createDegradedContrastive(error?: string): ISLContrastiveResult {
+export function createDegradedContrastive(error?: string, source?: AnalysisSource): ISLContrastiveResult {
   return {
     available: false,
+    ...(source ? { source } : {}),
     error: error ?? 'ISL contrastive analysis unavailable',
   };
 }
@@ -415,9 +441,10 @@ export function createDegradedContrastive(error?: string): ISLContrastiveResult
 /**
  * Create a degraded ISL conformal result (when ISL fails)
  */
-export function createDegradedConformal(error?: string): ISLConformalResult {
+export function createDegradedConformal(error?: string, source?: AnalysisSource): ISLConformalResult {
   return {
     available: false,
+    ...(source ? { source } : {}),
     error: error ?? 'ISL conformal prediction unavailable',
   };
 }
@@ -425,9 +452,10 @@ export function createDegradedConformal(error?: string): ISLConformalResult {
 /**
  * Create a degraded validation suggestions result (when ISL fails)
  */
-export function createDegradedValidationSuggestions(error?: string): ValidationSuggestions {
+export function createDegradedValidationSuggestions(error?: string, source?: AnalysisSource): ValidationSuggestions {
   return {
     available: false,
+    ...(source ? { source } : {}),
     error: error ?? 'ISL validation strategies unavailable',
   };
 }
@@ -3,7 +3,9 @@
  *
  * Provides enhanced decision review by combining LLM critique with ISL
  * analysis. Uses Promise.allSettled() for parallel ISL calls with graceful
- * degradation when ISL is unavailable or times out.
+ * degradation when ISL is unavailable or times out: each analysis ISL could
+ * not provide is approximated locally from the graph (local-approximations.ts)
+ * unless enableLocalFallback is false.
  */
 
 import type { GraphV1 } from '../../contracts/plot/engine.js';
@@ -14,6 +16,7 @@ import {
   createISLClient,
 } from '../../adapters/isl/index.js';
 import { normalizeGraphForISL } from './graph-normalizer.js';
+import { createLocalApproximations, type LocalApproximations } from './local-approximations.js';
 import type {
   ISLSensitivityRequest,
   ISLSensitivityResponse,
@@ -59,6 +62,7 @@ interface ReviewConfig {
   enableValidationStrategies?: boolean;
   islTimeoutMs?: number;
   maxNodes?: number;
+  enableLocalFallback?: boolean;
 }
 
 /**
@@ -202,6 +206,7 @@ function mapSensitivityResult(
   return {
     available: true,
     score: nodeSensitivity.sensitivity_score,
+    source: 'isl',
     classification: nodeSensitivity.classification,
     factors: nodeSensitivity.contributing_factors.map((f) => f.description),
     affectedPaths: nodeSensitivity.affected_paths,
@@ -211,6 +216,7 @@ function mapSensitivityResult(
 function mapContrastiveResult(response: ISLContrastiveResponse): ISLContrastiveResult {
   return {
     available: true,
+    source: 'isl',
     explanation: response.summary.explanation,
     keyFactors: response.summary.key_factors,
     counterfactuals: response.contrasts
@@ -234,6 +240,7 @@ function mapConformalResult(
 
   return {
     available: true,
+    source: 'isl',
     interval: {
       lower: interval.lower_bound,
       upper: interval.upper_bound,
@@ -249,6 +256,7 @@ function mapValidationStrategies(
 ): ValidationSuggestions {
   return {
     available: true,
+    source: 'isl',
     strategies: response.strategies.map((s) => ({
       id: s.id,
       title: s.title,
@@ -413,19 +421,22 @@ export async function executeDecisionReview(
 
   // LLM critique generator
   const generateCritique = serviceConfig.llmCritiqueGenerator ?? defaultLLMCritiqueGenerator;
+  const localFallback = config.enableLocalFallback !== false;
+  const unavailableReason = islClient === null
+    ? 'ISL client not configured'
+    : 'Circuit breaker open';
 
-  // If ISL is not available, return LLM-only critiques
   if (!islEnabled) {
-    const reason = islClient === null
-      ? 'ISL client not configured'
-      : 'Circuit breaker open';
-
     logger.info({
       event: 'decision_review.isl_unavailable',
       request_id: requestId,
-      reason,
+      reason: unavailableReason,
+      local_fallback: localFallback,
     });
+  }
 
+  // If ISL is not available and local approximation is off, return LLM-only critiques
+  if (!islEnabled && !localFallback) {
     const critiques: EnhancedNodeCritique[] = limitedNodes.map((node) => ({
       nodeId: node.id,
       kind: mapNodeKind(node.kind),
@@ -437,7 +448,7 @@ export async function executeDecisionReview(
 
     return {
       critiques,
-      islAvailability: createFullyDegradedAvailability(reason),
+      islAvailability: createFullyDegradedAvailability(unavailableReason),
       summary: buildSummary(critiques, undefined),
       trace: {
         requestId,
@@ -471,15 +482,21 @@ export async function executeDecisionReview(
 
   const islPromises: Promise<void>[] = [];
 
-  // At this point islClient is guaranteed to be non-null because we returned early above
-  const client = islClient!;
-
   // Normalize graph for ISL: convert V3 observed_state to V1 data format
   // ISL expects node.data.value, but CEE produces node.observed_state.value
   const normalizedGraph = normalizeGraphForISL(graph);
 
+  // Which analyses apply to this graph and config
+  const wantSensitivity = config.enableSensitivity !== false;
+  const wantContrastive = config.enableContrastive !== false && decisionNode !== undefined;
+  const wantConformal = config.enableConformal === true && quantitativeNodes.length > 0;
+  const wantValidation = config.enableValidationStrategies !== false;
+
+  // At this point islClient is non-null unless ISL is disabled (local fallback only)
+  const client = islClient!;
+
   // Sensitivity analysis
-  if (config.enableSensitivity !== false) {
+  if (islEnabled && wantSensitivity) {
     const sensitivityRequest: ISLSensitivityRequest = {
       graph: normalizedGraph,
       target_nodes: nodeIds,
@@ -493,10 +510,10 @@ export async function executeDecisionReview(
   }
 
   // Contrastive explanation (only if there's a decision node)
-  if (config.enableContrastive !== false && decisionNode) {
+  if (islEnabled && wantContrastive) {
     const contrastiveRequest: ISLContrastiveRequest = {
       graph: normalizedGraph,
-      decision_node_id: decisionNode.id,
+      decision_node_id: decisionNode!.id,
       config: { include_counterfactuals: true },
     };
     islPromises.push(
@@ -507,7 +524,7 @@ export async function executeDecisionReview(
   }
 
   // Conformal prediction (only if enabled and there are quantitative nodes)
-  if (config.enableConformal === true && quantitativeNodes.length > 0) {
+  if (islEnabled && wantConformal) {
     const conformalRequest: ISLConformalRequest = {
       graph: normalizedGraph,
       prediction_nodes: quantitativeNodes.map((n) => n.id),
@@ -521,7 +538,7 @@ export async function executeDecisionReview(
   }
 
   // Validation strategies
-  if (config.enableValidationStrategies !== false) {
+  if (islEnabled && wantValidation) {
     const validationRequest: ISLValidationStrategiesRequest = {
       graph: normalizedGraph,
       config: { prioritize_by: 'impact' },
@@ -571,29 +588,59 @@ export async function executeDecisionReview(
     recordIslFailure();
   }
 
+  // Local approximations for whatever ISL did not provide. Built from the
+  // normalized nodes but the original edges: the model reads option edges
+  // the way the local inference engine does.
+  let local: LocalApproximations | null = null;
+  const getLocal = (): LocalApproximations => {
+    if (!local) {
+      const localGraph: GraphV1 = { ...normalizedGraph, edges: graph.edges };
+      local = createLocalApproximations(localGraph);
+    }
+    return local;
+  };
+  const localUsed = new Set<'sensitivity' | 'contrastive' | 'conformal' | 'validation'>();
+  const islError = (result: ISLCallResult<unknown> | null): string =>
+    result && !result.success ? result.error : unavailableReason;
+
   // Build enhanced critiques
   const critiques: EnhancedNodeCritique[] = limitedNodes.map((node) => {
     const islAnalysis: ISLAnalysis = {};
 
     // Sensitivity
-    if (results.sensitivity) {
-      islAnalysis.sensitivity = results.sensitivity.success
-        ? mapSensitivityResult(node.id, results.sensitivity.data)
-        : createDegradedSensitivity(results.sensitivity.error);
+    if (wantSensitivity) {
+      if (results.sensitivity?.success) {
+        islAnalysis.sensitivity = mapSensitivityResult(node.id, results.sensitivity.data);
+      } else if (localFallback) {
+        islAnalysis.sensitivity = getLocal().sensitivity(node.id);
+        localUsed.add('sensitivity');
+      } else {
+        islAnalysis.sensitivity = createDegradedSensitivity(islError(results.sensitivity));
+      }
     }
 
     // Contrastive (only for decision nodes)
-    if (results.contrastive && node.kind === 'decision') {
-      islAnalysis.contrastive = results.contrastive.success
-        ? mapContrastiveResult(results.contrastive.data)
-        : createDegradedContrastive(results.contrastive.error);
+    if (wantContrastive && node.kind === 'decision') {
+      if (results.contrastive?.success) {
+        islAnalysis.contrastive = mapContrastiveResult(results.contrastive.data);
+      } else if (localFallback) {
+        islAnalysis.contrastive = getLocal().contrastive(node.id);
+        localUsed.add('contrastive');
+      } else {
+        islAnalysis.contrastive = createDegradedContrastive(islError(results.contrastive));
+      }
     }
 
     // Conformal (only for quantitative nodes)
-    if (results.conformal && quantitativeNodes.some((n) => n.id === node.id)) {
-      islAnalysis.conformal = results.conformal.success
-        ? mapConformalResult(node.id, results.conformal.data)
-        : createDegradedConformal(results.conformal.error);
+    if (wantConformal && quantitativeNodes.some((n) => n.id === node.id)) {
+      if (results.conformal?.success) {
+        islAnalysis.conformal = mapConformalResult(node.id, results.conformal.data);
+      } else if (localFallback) {
+        islAnalysis.conformal = getLocal().conformal(node.id);
+        localUsed.add('conformal');
+      } else {
+        islAnalysis.conformal = createDegradedConformal(islError(results.conformal));
+      }
     }
 
     // Calculate severity based on ISL analysis
@@ -611,9 +658,15 @@ export async function executeDecisionReview(
   });
 
   // Build global validation suggestions
-  const globalValidationSuggestions: ValidationSuggestions = results.validation?.success
-    ? mapValidationStrategies(results.validation.data)
-    : createDegradedValidationSuggestions(results.validation?.error);
+  let globalValidationSuggestions: ValidationSuggestions;
+  if (results.validation?.success) {
+    globalValidationSuggestions = mapValidationStrategies(results.validation.data);
+  } else if (wantValidation && localFallback) {
+    globalValidationSuggestions = getLocal().validationStrategies();
+    localUsed.add('validation');
+  } else {
+    globalValidationSuggestions = createDegradedValidationSuggestions(results.validation?.error);
+  }
 
   // Build ISL availability summary
   const islAvailability: ISLAvailabilitySummary = {
@@ -622,8 +675,9 @@ export async function executeDecisionReview(
     contrastiveSuccessCount,
     conformalSuccessCount,
     validationStrategiesAvailable: results.validation?.success ?? false,
-    degradationReason: anyIslSuccess ? undefined : 'All ISL calls failed',
+    degradationReason: anyIslSuccess ? undefined : islEnabled ? 'All ISL calls failed' : unavailableReason,
     endpointsUsed: endpointsUsed.length > 0 ? endpointsUsed : undefined,
+    localApproximations: localUsed.size > 0 ? [...localUsed] : undefined,
   };
 
   logger.info({
@@ -636,6 +690,7 @@ export async function executeDecisionReview(
     contrastive_success: results.contrastive?.success ?? false,
     conformal_success: results.conformal?.success ?? false,
     validation_success: results.validation?.success ?? false,
+    local_approximations: [...localUsed],
   });
 
   return {
@@ -647,7 +702,7 @@ export async function executeDecisionReview(
       requestId,
       correlationId: request.correlationId,
       latencyMs: Date.now() - startTime,
-      islLatencyMs,
+      islLatencyMs: islEnabled ? islLatencyMs : undefined,
     },
   };
 }
@@ -668,21 +723,16 @@ function calculateSeverity(
 }
 
 function calculateConfidence(islAnalysis: ISLAnalysis): number {
-  // Base confidence on ISL availability
+  // Base confidence on ISL availability; local approximations count half
   let availableCount = 0;
   let totalCount = 0;
 
-  if (islAnalysis.sensitivity) {
-    totalCount++;
-    if (islAnalysis.sensitivity.available) availableCount++;
-  }
-  if (islAnalysis.contrastive) {
-    totalCount++;
-    if (islAnalysis.contrastive.available) availableCount++;
-  }
-  if (islAnalysis.conformal) {
+  for (const analysis of [islAnalysis.sensitivity, islAnalysis.contrastive, islAnalysis.conformal]) {
+    if (!analysis) continue;
     totalCount++;
-    if (islAnalysis.conformal.available) availableCount++;
+    if (analysis.available) {
+      availableCount += analysis.source === 'local_approximation' ? 0.5 : 1;
+    }
   }
 
   if (totalCount === 0) return 0.5;
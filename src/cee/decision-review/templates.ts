@@ -2,10 +2,12 @@
  * Plain-English Templates for Decision Review
  *
  * Converts ISL analysis results into human-readable explanations
- * for decision reviewers. Handles graceful degradation messaging.
+ * for decision reviewers. Handles graceful degradation messaging, and
+ * flags results that are local approximations rather than ISL output.
  */
 
 import type {
+  AnalysisSource,
   EnhancedNodeCritique,
   ISLSensitivityResult,
   ISLContrastiveResult,
@@ -15,6 +17,15 @@ import type {
   ISLAvailabilitySummary,
 } from './schema.js';
 
+/**
+ * Caveat appended to analyses approximated locally
+ */
+function localApproximationNote(source: AnalysisSource | undefined): string {
+  return source === 'local_approximation'
+    ? ' (Local approximation from the graph; ISL was unavailable.)'
+    : '';
+}
+
 // ============================================================================
 // Sensitivity Templates
 // ============================================================================
@@ -51,7 +62,7 @@ export function formatSensitivityExplanation(
     explanation += ` Key contributing factors: ${sensitivity.factors.slice(0, 3).join('; ')}.`;
   }
 
-  return explanation;
+  return explanation + localApproximationNote(sensitivity.source);
 }
 
 // ============================================================================
@@ -92,7 +103,7 @@ export function formatContrastiveExplanation(
     explanation += '.';
   }
 
-  return explanation;
+  return explanation + localApproximationNote(contrastive.source);
 }
 
 // ============================================================================
@@ -131,7 +142,7 @@ export function formatConformalExplanation(
     explanation += ` Uncertainty is primarily driven by: ${conformal.widthFactors.slice(0, 2).join(', ')}.`;
   }
 
-  return explanation;
+  return explanation + localApproximationNote(conformal.source);
 }
 
 // ============================================================================
@@ -155,7 +166,7 @@ export function formatValidationSuggestions(
   }
 
   let explanation = `We recommend ${strategies.length} validation ${strategies.length === 1 ? 'strategy' : 'strategies'} `;
-  explanation += `to strengthen confidence in this decision:\n\n`;
+  explanation += `to strengthen confidence in this decision${localApproximationNote(suggestions.source)}:\n\n`;
 
   for (const strategy of strategies.slice(0, 5)) {
     const priorityLabel = strategy.priority === 'critical' ? '🔴 CRITICAL' :
@@ -301,6 +312,10 @@ export function formatDecisionReviewSummary(response: DecisionReviewResponse): s
  */
 export function formatISLAvailability(availability: ISLAvailabilitySummary): string {
   if (!availability.serviceAvailable) {
+    if (availability.localApproximations?.length) {
+      return `**⚠️ ISL Analysis Unavailable:** ${availability.degradationReason ?? 'The causal analysis service was not available for this review.'} ` +
+        `Local approximations were used for: ${availability.localApproximations.join(', ')}.`;
+    }
     return `**⚠️ ISL Analysis Unavailable:** ${availability.degradationReason ?? 'The causal analysis service was not available for this review. Results are based on LLM analysis only.'}`;
   }
 
@@ -323,7 +338,10 @@ export function formatISLAvailability(availability: ISLAvailabilitySummary): str
     return '**⚠️ ISL Analysis:** No causal analyses were completed successfully.';
   }
 
-  return `**✓ ISL Analysis Completed:** ${parts.join(', ')}.`;
+  const local = availability.localApproximations?.length
+    ? ` Approximated locally: ${availability.localApproximations.join(', ')}.`
+    : '';
+  return `**✓ ISL Analysis Completed:** ${parts.join(', ')}.${local}`;
 }
 
 // ============================================================================
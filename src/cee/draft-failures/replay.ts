@@ -0,0 +1,290 @@
+/**
+ * Draft failure replay harness
+ *
+ * Re-runs stored draft failures (see ./store.ts) through the current CEE
+ * draft pipeline and reports whether each one is now fixed, still failing
+ * the same way, or failing differently. Two modes:
+ *
+ * - pipeline: re-draft the stored brief, optionally against a chosen model
+ *   and managed draft_graph prompt version (makes real LLM calls)
+ * - raw_output: feed the stored raw LLM output back in (no LLM calls), to
+ *   validate normaliser and post-processing changes in isolation
+ *
+ * Both modes need the failure to have been captured with unsafe capture
+ * (brief / raw output); failures without them are reported as skipped.
+ * Replays never record new failure bundles.
+ */
+
+import type { FastifyRequest } from "fastify";
+import type { DraftGraphInputT } from "../../schemas/assist.js";
+import { config } from "../../config/index.js";
+import { getModelProvider } from "../../config/models.js";
+import { log } from "../../utils/telemetry.js";
+import { getAdapter, getAdapterForProvider, type LLMProviderName } from "../../adapters/llm/router.js";
+import { hasProvider } from "../../adapters/llm/registry.js";
+import { runWithLLMOverrides, type LLMOverrideScope } from "../../adapters/llm/overrides.js";
+import { getSystemPromptVersion } from "../../adapters/llm/prompt-loader.js";
+import { ReplayAdapter } from "../../adapters/llm/replay.js";
+import { finaliseCeeDraftResponse } from "../validation/pipeline.js";
+import {
+  getDraftFailureBundleById,
+  listDraftFailureBundles,
+  runWithoutDraftFailurePersistence,
+  type DraftFailureRow,
+} from "./store.js";
+
+export type DraftFailureReplayMode = "pipeline" | "raw_output";
+
+export type DraftFailureReplayOutcome = "fixed" | "still_failing" | "changed" | "skipped" | "errored";
+
+export interface DraftFailureReplayOptions {
+  mode: DraftFailureReplayMode;
+  /** Managed draft_graph prompt version (pipeline mode; default: current prompt) */
+  promptVersion?: number;
+  /** Model for the draft call (pipeline mode; default: current routing) */
+  model?: string;
+}
+
+export interface DraftFailureReplayResult {
+  failureId: string;
+  requestId: string;
+  outcome: DraftFailureReplayOutcome;
+  /** Why the failure was skipped */
+  skipReason?: string;
+  /** Why the replay itself threw (outcome "errored") */
+  error?: string;
+  original: {
+    validationError: string;
+    statusCode?: number;
+    missingKinds: string[];
+    model?: string;
+    promptVersion?: string;
+  };
+  replay?: {
+    requestId: string;
+    statusCode: number;
+    errorCode?: string;
+    message?: string;
+    missingKinds: string[];
+    nodeCount?: number;
+    edgeCount?: number;
+    model?: string;
+    promptVersion?: string;
+  };
+  durationMs: number;
+}
+
+export interface DraftFailureReplayBatchResult {
+  results: DraftFailureReplayResult[];
+  summary: Record<DraftFailureReplayOutcome, number> & { total: number };
+}
+
+/** Upper bound on failures replayed per batch (pipeline mode calls the LLM for each) */
+export const MAX_REPLAY_BATCH_SIZE = 50;
+
+/**
+ * Build the LLM overrides for a replay run. Pipeline mode pins the draft
+ * adapter (bypassing response caches so the model is really called) and,
+ * when requested, the draft_graph prompt version.
+ */
+async function buildPipelineScope(options: DraftFailureReplayOptions): Promise<LLMOverrideScope> {
+  const current = getAdapter("draft_graph");
+  const model = options.model ?? current.model;
+  const provider = (options.model && getModelProvider(options.model))
+    || (hasProvider(current.name) ? current.name : config.llm.provider);
+  const draftAdapter = getAdapterForProvider(provider as LLMProviderName, model);
+
+  const scope: LLMOverrideScope = {
+    resolveAdapter: (task) => (task === "draft_graph" ? draftAdapter : undefined),
+  };
+
+  if (options.promptVersion !== undefined) {
+    const prompt = await getSystemPromptVersion("draft_graph", options.promptVersion);
+    if (!prompt) {
+      throw new Error(`draft_graph prompt version ${options.promptVersion} not found in the prompt store`);
+    }
+    scope.prompts = { draft_graph: prompt };
+  }
+
+  return scope;
+}
+
+function sameKinds(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const sortedB = [...b].sort();
+  return [...a].sort().every((kind, i) => kind === sortedB[i]);
+}
+
+/**
+ * Compare a replay response with the stored failure
+ */
+export function classifyReplay(
+  failure: Pick<DraftFailureRow, "validation_error" | "status_code" | "missing_kinds">,
+  statusCode: number,
+  body: { message?: string; missing_kinds?: string[]; details?: { missing_kinds?: string[] } }
+): DraftFailureReplayOutcome {
+  if (statusCode >= 200 && statusCode < 300) return "fixed";
+
+  const missingKinds = body.missing_kinds ?? body.details?.missing_kinds ?? [];
+  const sameFailure =
+    statusCode === (failure.status_code ?? 400) &&
+    body.message === failure.validation_error &&
+    sameKinds(missingKinds, failure.missing_kinds ?? []);
+
+  return sameFailure ? "still_failing" : "changed";
+}
+
+function originalOf(failure: DraftFailureRow): DraftFailureReplayResult["original"] {
+  return {
+    validationError: failure.validation_error,
+    statusCode: failure.status_code ?? undefined,
+    missingKinds: failure.missing_kinds ?? [],
+    model: failure.model ?? undefined,
+    promptVersion: failure.prompt_version ?? undefined,
+  };
+}
+
+/**
+ * Replay one stored failure with a prepared override scope
+ */
+async function replayWithScope(
+  failure: DraftFailureRow,
+  options: DraftFailureReplayOptions,
+  pipelineScope: LLMOverrideScope | undefined
+): Promise<DraftFailureReplayResult> {
+  const start = Date.now();
+  const original = originalOf(failure);
+  const skipped = (skipReason: string): DraftFailureReplayResult => ({
+    failureId: failure.id,
+    requestId: failure.request_id,
+    outcome: "skipped",
+    skipReason,
+    original,
+    durationMs: Date.now() - start,
+  });
+
+  let scope: LLMOverrideScope;
+  let brief: string;
+  if (options.mode === "raw_output") {
+    if (!failure.raw_llm_text && (failure.raw_llm_output === null || failure.raw_llm_output === undefined)) {
+      return skipped("raw_output_not_captured");
+    }
+    const adapter = new ReplayAdapter({
+      rawText: failure.raw_llm_text ?? undefined,
+      rawJson: failure.raw_llm_output ?? undefined,
+      model: failure.model ?? undefined,
+      promptVersion: failure.prompt_version ?? undefined,
+      promptHash: failure.prompt_hash ?? undefined,
+    });
+    // Every LLM call goes to the replay adapter, so nothing reaches a provider
+    scope = { resolveAdapter: () => adapter };
+    brief = failure.brief ?? failure.brief_preview ?? "";
+  } else {
+    if (!failure.brief) {
+      return skipped("brief_not_captured");
+    }
+    scope = pipelineScope ?? (await buildPipelineScope(options));
+    brief = failure.brief;
+  }
+
+  const replayRequestId = `replay_${failure.id.replace(/[^A-Za-z0-9]/g, "").slice(0, 12)}_${Date.now()}`;
+  const request = { headers: {}, query: {}, requestId: replayRequestId } as unknown as FastifyRequest;
+  const input = { brief } as DraftGraphInputT;
+
+  const { statusCode, body } = await runWithoutDraftFailurePersistence(() =>
+    runWithLLMOverrides(scope, () => finaliseCeeDraftResponse(input, { brief }, request))
+  );
+
+  const response = body as Record<string, any>;
+  const succeeded = statusCode >= 200 && statusCode < 300;
+  const trace = response.trace ?? {};
+
+  return {
+    failureId: failure.id,
+    requestId: failure.request_id,
+    outcome: classifyReplay(failure, statusCode, response),
+    original,
+    replay: {
+      requestId: replayRequestId,
+      statusCode,
+      errorCode: succeeded ? undefined : response.code,
+      message: succeeded ? undefined : response.message,
+      missingKinds: succeeded ? [] : (response.missing_kinds ?? response.details?.missing_kinds ?? []),
+      nodeCount: succeeded ? response.graph?.nodes?.length : response.node_count,
+      edgeCount: succeeded ? response.graph?.edges?.length : response.edge_count,
+      model: trace.model ?? trace.engine?.model,
+      promptVersion: trace.prompt_version ?? trace.pipeline?.llm_metadata?.prompt_version,
+    },
+    durationMs: Date.now() - start,
+  };
+}
+
+/**
+ * Replay a single stored failure by ID.
+ * @returns null if the failure does not exist
+ */
+export async function replayDraftFailure(
+  id: string,
+  options: DraftFailureReplayOptions
+): Promise<DraftFailureReplayResult | null> {
+  const failure = await getDraftFailureBundleById(id);
+  if (!failure) return null;
+  return replayWithScope(failure, options, undefined);
+}
+
+/**
+ * Replay a filtered batch of stored failures (newest first), sequentially.
+ *
+ * A replay that throws is recorded as "errored" and the batch carries on.
+ * onResult is called as each replay finishes so callers can stream results
+ * rather than wait for the whole batch.
+ */
+export async function replayDraftFailures(
+  filter: { requestId?: string; model?: string; promptVersion?: string; since?: string; limit?: number },
+  options: DraftFailureReplayOptions,
+  onResult?: (result: DraftFailureReplayResult) => void | Promise<void>
+): Promise<DraftFailureReplayBatchResult> {
+  const { failures } = await listDraftFailureBundles({
+    ...filter,
+    limit: Math.min(filter.limit ?? 20, MAX_REPLAY_BATCH_SIZE),
+  });
+
+  // Resolve model and prompt once so a bad version fails the batch up front
+  const pipelineScope = options.mode === "pipeline" ? await buildPipelineScope(options) : undefined;
+
+  const results: DraftFailureReplayResult[] = [];
+  for (const summary of failures) {
+    const start = Date.now();
+    let result: DraftFailureReplayResult;
+    try {
+      const failure = await getDraftFailureBundleById(summary.id);
+      if (!failure) continue;
+      result = await replayWithScope(failure, options, pipelineScope);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn({ failure_id: summary.id, mode: options.mode, error: message }, "Draft failure replay errored");
+      result = {
+        failureId: summary.id,
+        requestId: summary.request_id,
+        outcome: "errored",
+        error: message,
+        original: originalOf(summary),
+        durationMs: Date.now() - start,
+      };
+    }
+    results.push(result);
+    await onResult?.(result);
+  }
+
+  const summary = { total: results.length, fixed: 0, still_failing: 0, changed: 0, skipped: 0, errored: 0 };
+  for (const result of results) {
+    summary[result.outcome] += 1;
+  }
+
+  log.info(
+    { mode: options.mode, model: options.model, prompt_version: options.promptVersion, ...summary },
+    "Draft failure replay complete"
+  );
+
+  return { results, summary };
+}
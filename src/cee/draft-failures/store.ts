@@ -1,8 +1,9 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import { config, isProduction } from '../../config/index.js';
 import { log } from '../../utils/telemetry.js';
 
-type DraftFailureRow = {
+export type DraftFailureRow = {
   id: string;
   request_id: string;
   correlation_id: string | null;
@@ -35,6 +36,9 @@ type DraftFailureRow = {
 
 let _client: SupabaseClient | null = null;
 
+// Set while replaying stored failures so replays don't record new bundles
+const persistenceDisabled = new AsyncLocalStorage<boolean>();
+
 function getSupabaseConfig(): { url: string; serviceRoleKey: string } | null {
   const url = config.prompts?.supabaseUrl;
   const serviceRoleKey = config.prompts?.supabaseServiceRoleKey;
@@ -99,6 +103,7 @@ export async function persistDraftFailureBundle(ctx: {
 
   unsafeCaptureEnabled: boolean;
 }): Promise<{ failureBundleId?: string }> {
+  if (persistenceDisabled.getStore()) return {};
   const client = getClient();
   if (!client) return {};
 
@@ -149,9 +154,18 @@ export async function persistDraftFailureBundle(ctx: {
   }
 }
 
+/**
+ * Run fn without persisting draft failure bundles (used by the replay harness)
+ */
+export function runWithoutDraftFailurePersistence<T>(fn: () => T): T {
+  return persistenceDisabled.run(true, fn);
+}
+
 export async function listDraftFailureBundles(options: {
   requestId?: string;
   correlationId?: string;
+  model?: string;
+  promptVersion?: string;
   limit?: number;
   since?: string;
 }): Promise<{ failures: DraftFailureRow[]; total: number }> {
@@ -173,6 +187,8 @@ export async function listDraftFailureBundles(options: {
 
   if (options.requestId) query = query.eq('request_id', options.requestId);
   if (options.correlationId) query = query.eq('correlation_id', options.correlationId);
+  if (options.model) query = query.eq('model', options.model);
+  if (options.promptVersion) query = query.eq('prompt_version', options.promptVersion);
   if (options.since) query = query.gte('created_at', options.since);
 
   const { data, error, count } = await query;
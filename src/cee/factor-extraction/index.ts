@@ -532,8 +532,8 @@ export const extractFactorsRegex = extractFactors;
  * Options for orchestrated factor extraction
  */
 export interface OrchestratedExtractionOptions {
-  /** Market context domain override (auto-detected if not specified) */
-  domain?: SupportedDomain;
+  /** Market context domain override, primary first (auto-detected if not specified) */
+  domain?: SupportedDomain | SupportedDomain[];
   /** Pre-resolved context (if already available) */
   context?: ResolvedContext;
   /** Force regex-only extraction even if LLM is enabled */
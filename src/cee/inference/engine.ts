@@ -0,0 +1,634 @@
+/**
+ * Local Monte Carlo Inference Engine
+ *
+ * In-process stand-in for PLoT/ISL. Samples a graph's uncertainty and
+ * propagates it to the goal so the quantitative endpoints can run without
+ * caller-supplied inference results or a live ISL service.
+ *
+ * Model (linear structural, do-semantics):
+ * - Factor nodes carry FactorData. Each value is normalised against its
+ *   baseline and range, x = (value - baseline) / scale, so the status quo is 0.
+ *   Values are sampled from the range (triangular around value) or, without a
+ *   range, from a normal whose spread grows as extraction confidence falls.
+ * - Edges exist with probability belief_exists and carry a strength drawn
+ *   from N(strength_mean, strength_std).
+ * - Every other node is the sum of strength × parent over its existing
+ *   incoming edges. Option nodes are 1 when selected and 0 otherwise, so
+ *   legacy option→outcome edges still count.
+ * - An option's interventions fix the intervened factors (do(x)), cutting
+ *   their incoming edges.
+ *
+ * Options are compared with common random numbers: sample i draws the same
+ * factor values and edges for every option.
+ */
+
+import type { GraphT, NodeT, FactorDataT } from "../../schemas/graph.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LocalInferenceOptions {
+  /** Number of Monte Carlo samples */
+  samples: number;
+  /** PRNG seed (default: graph.default_seed) */
+  seed?: number;
+  /** Node to evaluate (default: first goal, else the first sink outcome) */
+  targetId?: string;
+}
+
+export interface OptionOutcome {
+  option_id: string;
+  label: string;
+  mean: number;
+  std: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  /** Share of samples in which this option has the highest goal value */
+  probability_best: number;
+}
+
+export interface FactorDriver {
+  node_id: string;
+  label: string;
+  /** Signed share of explained goal variance; sums to 1 in absolute value */
+  contribution: number;
+}
+
+export interface FactorTippingPoint {
+  factor_id: string;
+  factor_label: string;
+  /** Factor value (in its own units) at which the ranking flips */
+  threshold_value: number;
+  current_value: number;
+  /** Best option below the threshold */
+  optimal_before: string;
+  /** Best option above the threshold */
+  optimal_after: string;
+}
+
+export interface FactorValueOfInformation {
+  factor_id: string;
+  factor_label: string;
+  /** Expected gain in goal value from knowing the factor before deciding */
+  voi: number;
+}
+
+export interface LocalInferenceResult {
+  target_id: string;
+  target_label: string;
+  seed: number;
+  samples: number;
+  /** Per option (or a single "baseline" scenario when there are no options), best mean first */
+  outcomes: OptionOutcome[];
+  drivers: FactorDriver[];
+  tipping_points: FactorTippingPoint[];
+  value_of_information: FactorValueOfInformation[];
+}
+
+export class LocalInferenceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "NO_TARGET" | "CYCLE" | "UNKNOWN_TARGET",
+  ) {
+    super(message);
+    this.name = "LocalInferenceError";
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Assumed extraction confidence for factors that do not state one */
+const DEFAULT_FACTOR_CONFIDENCE = 0.8;
+
+/** Normal spread for range-less factors: |value| × (1 - confidence) × this */
+const CONFIDENCE_SPREAD = 0.5;
+
+/** Strength for edges with neither strength_mean nor weight */
+const DEFAULT_EDGE_STRENGTH = 0.5;
+
+/** Quantile bins used to estimate value of information */
+const VOI_BINS = 10;
+
+/** Caps on reported drivers and tipping points */
+const MAX_DRIVERS = 10;
+const MAX_TIPPING_POINTS = 5;
+
+const BASELINE_SCENARIO = "baseline";
+
+// ============================================================================
+// Random numbers
+// ============================================================================
+
+/**
+ * mulberry32: small, fast, seedable 32-bit PRNG
+ */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(rng: () => number, mean: number, std: number): number {
+  if (std <= 0) return mean;
+  const u = Math.max(rng(), Number.EPSILON);
+  const v = rng();
+  return mean + std * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function sampleTriangular(rng: () => number, min: number, mode: number, max: number): number {
+  if (max <= min) return min;
+  const u = rng();
+  const cut = (mode - min) / (max - min);
+  return u < cut
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+// ============================================================================
+// Graph preparation
+// ============================================================================
+
+interface FactorModel {
+  id: string;
+  label: string;
+  /** Value the normalised scale is centred on (baseline, else value) */
+  reference: number;
+  scale: number;
+  value: number;
+  min?: number;
+  max?: number;
+  std: number;
+}
+
+interface EdgeModel {
+  from: string;
+  to: string;
+  mean: number;
+  std: number;
+  exists: number;
+}
+
+interface Scenario {
+  id: string;
+  label: string;
+  /** Option node to switch on (undefined for the baseline scenario) */
+  optionId?: string;
+  /** Intervened factor → normalised value */
+  interventions: Map<string, number>;
+}
+
+interface PreparedModel {
+  order: string[];
+  incoming: Map<string, EdgeModel[]>;
+  factors: Map<string, FactorModel>;
+  kinds: Map<string, NodeT["kind"]>;
+  scenarios: Scenario[];
+  targetId: string;
+  targetLabel: string;
+}
+
+function labelOf(node: NodeT): string {
+  return node.label ?? node.id;
+}
+
+function isFactorData(data: NodeT["data"]): data is FactorDataT {
+  return Boolean(data) && typeof (data as FactorDataT).value === "number";
+}
+
+function toFactorModel(node: NodeT, data: FactorDataT): FactorModel {
+  const min = data.range?.min ?? data.rangeMin;
+  const max = data.range?.max ?? data.rangeMax;
+  const reference = data.baseline ?? data.value;
+  const width = min !== undefined && max !== undefined ? max - min : 0;
+  const scale = width > 0 ? width : Math.abs(reference) || Math.abs(data.value) || 1;
+  const confidence = data.confidence ?? DEFAULT_FACTOR_CONFIDENCE;
+
+  return {
+    id: node.id,
+    label: labelOf(node),
+    reference,
+    scale,
+    value: data.value,
+    ...(width > 0 ? { min, max } : {}),
+    std: Math.abs(data.value) * (1 - confidence) * CONFIDENCE_SPREAD,
+  };
+}
+
+function edgeStrength(edge: GraphT["edges"][number]): number {
+  if (typeof edge.strength_mean === "number") return edge.strength_mean;
+  if (typeof edge.weight === "number") return edge.weight;
+  return edge.effect_direction === "negative" ? -DEFAULT_EDGE_STRENGTH : DEFAULT_EDGE_STRENGTH;
+}
+
+function topologicalOrder(nodeIds: string[], edges: EdgeModel[]): string[] {
+  const indegree = new Map(nodeIds.map((id) => [id, 0]));
+  const outgoing = new Map<string, string[]>();
+  for (const edge of edges) {
+    indegree.set(edge.to, (indegree.get(edge.to) ?? 0) + 1);
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge.to]);
+  }
+
+  const queue = nodeIds.filter((id) => indegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const next of outgoing.get(id) ?? []) {
+      const remaining = (indegree.get(next) ?? 0) - 1;
+      indegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+
+  if (order.length !== nodeIds.length) {
+    throw new LocalInferenceError("Graph contains a cycle; local inference needs a DAG", "CYCLE");
+  }
+  return order;
+}
+
+function resolveTarget(graph: GraphT, targetId: string | undefined): NodeT {
+  if (targetId) {
+    const node = graph.nodes.find((n) => n.id === targetId);
+    if (!node) throw new LocalInferenceError(`Target node not found: ${targetId}`, "UNKNOWN_TARGET");
+    return node;
+  }
+
+  const goal = graph.nodes.find((n) => n.kind === "goal");
+  if (goal) return goal;
+
+  const sources = new Set(graph.edges.map((e) => e.from));
+  const outcome = graph.nodes.find((n) => n.kind === "outcome" && !sources.has(n.id))
+    ?? graph.nodes.find((n) => n.kind === "outcome");
+  if (outcome) return outcome;
+
+  throw new LocalInferenceError("Graph has no goal or outcome node to evaluate", "NO_TARGET");
+}
+
+function prepare(graph: GraphT, targetId: string | undefined): PreparedModel {
+  const nodeIds = new Set(graph.nodes.map((n) => n.id));
+  const target = resolveTarget(graph, targetId);
+
+  const edges: EdgeModel[] = graph.edges
+    .filter((e) => nodeIds.has(e.from) && nodeIds.has(e.to))
+    .map((e) => ({
+      from: e.from,
+      to: e.to,
+      mean: edgeStrength(e),
+      std: e.strength_std ?? 0,
+      exists: e.belief_exists ?? e.belief ?? 1,
+    }));
+
+  const incoming = new Map<string, EdgeModel[]>();
+  for (const edge of edges) {
+    incoming.set(edge.to, [...(incoming.get(edge.to) ?? []), edge]);
+  }
+
+  const factors = new Map<string, FactorModel>();
+  for (const node of graph.nodes) {
+    if (node.kind === "factor" && isFactorData(node.data)) {
+      factors.set(node.id, toFactorModel(node, node.data));
+    }
+  }
+
+  const toNormalised = (factorId: string, raw: number): number => {
+    const factor = factors.get(factorId);
+    return factor ? (raw - factor.reference) / factor.scale : raw;
+  };
+
+  const options = graph.nodes.filter((n) => n.kind === "option");
+  const scenarios: Scenario[] = options.length > 0
+    ? options.map((option) => {
+        const interventions = new Map<string, number>();
+        const data = option.data as { interventions?: Record<string, number> } | undefined;
+        for (const [factorId, raw] of Object.entries(data?.interventions ?? {})) {
+          if (nodeIds.has(factorId)) interventions.set(factorId, toNormalised(factorId, raw));
+        }
+        return { id: option.id, label: labelOf(option), optionId: option.id, interventions };
+      })
+    : [{ id: BASELINE_SCENARIO, label: "Baseline", interventions: new Map() }];
+
+  return {
+    order: topologicalOrder([...nodeIds], edges),
+    incoming,
+    factors,
+    kinds: new Map(graph.nodes.map((n) => [n.id, n.kind])),
+    scenarios,
+    targetId: target.id,
+    targetLabel: labelOf(target),
+  };
+}
+
+// ============================================================================
+// Propagation
+// ============================================================================
+
+/**
+ * One realisation of the model's uncertainty, shared across scenarios
+ */
+interface Draw {
+  factorX: Map<string, number>;
+  edgeStrength: Map<EdgeModel, number>; // 0 when the edge does not exist
+}
+
+function drawSample(model: PreparedModel, rng: () => number): Draw {
+  const factorX = new Map<string, number>();
+  for (const factor of model.factors.values()) {
+    const raw = factor.min !== undefined && factor.max !== undefined
+      ? sampleTriangular(rng, factor.min, Math.min(factor.max, Math.max(factor.min, factor.value)), factor.max)
+      : sampleNormal(rng, factor.value, factor.std);
+    factorX.set(factor.id, (raw - factor.reference) / factor.scale);
+  }
+
+  const edgeStrength = new Map<EdgeModel, number>();
+  for (const edges of model.incoming.values()) {
+    for (const edge of edges) {
+      const exists = rng() < edge.exists;
+      const strength = sampleNormal(rng, edge.mean, edge.std);
+      edgeStrength.set(edge, exists ? strength : 0);
+    }
+  }
+
+  return { factorX, edgeStrength };
+}
+
+/**
+ * Expected draw: factor values at their point estimates, edges at
+ * strength_mean × belief_exists. The model is linear, so propagating this
+ * gives each scenario's expected goal value.
+ */
+function expectedDraw(model: PreparedModel): Draw {
+  const factorX = new Map<string, number>();
+  for (const factor of model.factors.values()) {
+    factorX.set(factor.id, (factor.value - factor.reference) / factor.scale);
+  }
+  const edgeStrength = new Map<EdgeModel, number>();
+  for (const edges of model.incoming.values()) {
+    for (const edge of edges) edgeStrength.set(edge, edge.mean * edge.exists);
+  }
+  return { factorX, edgeStrength };
+}
+
+function evaluate(model: PreparedModel, draw: Draw, scenario: Scenario): number {
+  const values = new Map<string, number>();
+
+  for (const id of model.order) {
+    const intervened = scenario.interventions.get(id);
+    if (intervened !== undefined) {
+      values.set(id, intervened);
+      continue;
+    }
+
+    const kind = model.kinds.get(id);
+    if (kind === "option") {
+      values.set(id, id === scenario.optionId ? 1 : 0);
+      continue;
+    }
+    if (kind === "decision") {
+      values.set(id, 0);
+      continue;
+    }
+
+    let value = draw.factorX.get(id) ?? 0;
+    for (const edge of model.incoming.get(id) ?? []) {
+      value += (draw.edgeStrength.get(edge) ?? 0) * (values.get(edge.from) ?? 0);
+    }
+    values.set(id, value);
+  }
+
+  return values.get(model.targetId) ?? 0;
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+function correlation(xs: number[], ys: number[]): number {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my);
+    vx += (xs[i] - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  }
+  return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : 0;
+}
+
+function round(value: number, places = 4): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// ============================================================================
+// Analyses
+// ============================================================================
+
+function computeDrivers(model: PreparedModel, scenario: Scenario, draws: Draw[], targets: number[]): FactorDriver[] {
+  const correlations: Array<{ factor: FactorModel; r: number }> = [];
+
+  for (const factor of model.factors.values()) {
+    if (scenario.interventions.has(factor.id)) continue;
+    const r = correlation(draws.map((d) => d.factorX.get(factor.id) ?? 0), targets);
+    // Ignore correlations indistinguishable from sampling noise (~95% level)
+    if (Math.abs(r) >= 2 / Math.sqrt(targets.length)) correlations.push({ factor, r });
+  }
+
+  const total = correlations.reduce((s, c) => s + c.r * c.r, 0);
+  if (total === 0) return [];
+
+  return correlations
+    .map(({ factor, r }) => ({
+      node_id: factor.id,
+      label: factor.label,
+      contribution: round((Math.sign(r) * r * r) / total, 3),
+    }))
+    .filter((d) => d.contribution !== 0)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution) || a.node_id.localeCompare(b.node_id))
+    .slice(0, MAX_DRIVERS);
+}
+
+/**
+ * Factor values at which the best option (by expected goal value) would
+ * stop being best. For a factor the best option intervenes on, its
+ * intervention level is moved; otherwise the factor's own value is moved for
+ * every option. The model is linear, so each threshold is exact.
+ */
+function computeTippingPoints(model: PreparedModel, ranked: Scenario[]): FactorTippingPoint[] {
+  if (ranked.length < 2) return [];
+
+  const [best, runnerUp] = ranked;
+  const base = expectedDraw(model);
+  const gap = evaluate(model, base, best) - evaluate(model, base, runnerUp);
+  const points: Array<FactorTippingPoint & { distance: number }> = [];
+
+  for (const factor of model.factors.values()) {
+    const leverX = best.interventions.get(factor.id);
+    let currentX: number;
+    let slope: number;
+
+    if (leverX !== undefined) {
+      const moved: Scenario = { ...best, interventions: new Map(best.interventions).set(factor.id, leverX + 1) };
+      currentX = leverX;
+      slope = evaluate(model, base, moved) - evaluate(model, base, best);
+    } else {
+      currentX = base.factorX.get(factor.id) ?? 0;
+      const shifted: Draw = { ...base, factorX: new Map(base.factorX).set(factor.id, currentX + 1) };
+      slope = (evaluate(model, shifted, best) - evaluate(model, shifted, runnerUp)) - gap;
+    }
+
+    if (Math.abs(slope) < 1e-9) continue;
+
+    const thresholdX = currentX - gap / slope;
+    const threshold = factor.reference + thresholdX * factor.scale;
+    if (factor.min !== undefined && factor.max !== undefined && (threshold < factor.min || threshold > factor.max)) {
+      continue;
+    }
+
+    points.push({
+      factor_id: factor.id,
+      factor_label: factor.label,
+      threshold_value: round(threshold),
+      current_value: round(factor.reference + currentX * factor.scale),
+      // Named relative to the threshold, as in ISL: the choice below it, then above it
+      optimal_before: thresholdX < currentX ? runnerUp.label : best.label,
+      optimal_after: thresholdX < currentX ? best.label : runnerUp.label,
+      distance: Math.abs(thresholdX - currentX),
+    });
+  }
+
+  return points
+    .sort((a, b) => a.distance - b.distance || a.factor_id.localeCompare(b.factor_id))
+    .slice(0, MAX_TIPPING_POINTS)
+    .map(({ distance: _distance, ...point }) => point);
+}
+
+/**
+ * Expected value of perfect information per factor, estimated by binning
+ * samples on the factor and choosing the best option within each bin.
+ */
+function computeValueOfInformation(
+  model: PreparedModel,
+  draws: Draw[],
+  targetsByScenario: number[][],
+): FactorValueOfInformation[] {
+  if (targetsByScenario.length < 2 || draws.length === 0) return [];
+
+  const bestOverall = Math.max(...targetsByScenario.map(mean));
+  const results: FactorValueOfInformation[] = [];
+
+  for (const factor of model.factors.values()) {
+    const indices = draws
+      .map((draw, i) => ({ x: draw.factorX.get(factor.id) ?? 0, i }))
+      .sort((a, b) => a.x - b.x || a.i - b.i)
+      .map((entry) => entry.i);
+
+    const binSize = Math.ceil(indices.length / VOI_BINS);
+    let informed = 0;
+    for (let start = 0; start < indices.length; start += binSize) {
+      const bin = indices.slice(start, start + binSize);
+      const bestInBin = Math.max(...targetsByScenario.map((targets) => mean(bin.map((i) => targets[i]))));
+      informed += (bin.length / indices.length) * bestInBin;
+    }
+
+    const voi = round(Math.max(0, informed - bestOverall));
+    if (voi > 0) results.push({ factor_id: factor.id, factor_label: factor.label, voi });
+  }
+
+  return results.sort((a, b) => b.voi - a.voi || a.factor_id.localeCompare(b.factor_id));
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/**
+ * Run Monte Carlo inference over a graph.
+ *
+ * Deterministic for a given graph, seed and sample count.
+ *
+ * @throws LocalInferenceError when the graph is cyclic or has nothing to evaluate
+ */
+export function runMonteCarlo(graph: GraphT, options: LocalInferenceOptions): LocalInferenceResult {
+  const model = prepare(graph, options.targetId);
+  const seed = options.seed ?? graph.default_seed ?? 17;
+  const rng = createRng(seed);
+  const samples = Math.max(1, Math.floor(options.samples));
+
+  const draws: Draw[] = [];
+  const targetsByScenario: number[][] = model.scenarios.map(() => []);
+  const wins = model.scenarios.map(() => 0);
+
+  for (let i = 0; i < samples; i++) {
+    const draw = drawSample(model, rng);
+    draws.push(draw);
+
+    let bestIndex = 0;
+    model.scenarios.forEach((scenario, s) => {
+      const value = evaluate(model, draw, scenario);
+      targetsByScenario[s].push(value);
+      if (value > targetsByScenario[bestIndex][i]) bestIndex = s;
+    });
+    wins[bestIndex] += 1;
+  }
+
+  const outcomes: OptionOutcome[] = model.scenarios.map((scenario, s) => {
+    const values = targetsByScenario[s];
+    const sorted = [...values].sort((a, b) => a - b);
+    const m = mean(values);
+    const variance = mean(values.map((v) => (v - m) ** 2));
+    return {
+      option_id: scenario.id,
+      label: scenario.label,
+      mean: round(m),
+      std: round(Math.sqrt(variance)),
+      p10: round(quantile(sorted, 0.1)),
+      p50: round(quantile(sorted, 0.5)),
+      p90: round(quantile(sorted, 0.9)),
+      probability_best: round(wins[s] / samples, 3),
+    };
+  });
+
+  // Rank by mean, then win probability, then id for stability
+  const order = outcomes
+    .map((outcome, s) => ({ outcome, s }))
+    .sort((a, b) =>
+      b.outcome.mean - a.outcome.mean ||
+      b.outcome.probability_best - a.outcome.probability_best ||
+      a.outcome.option_id.localeCompare(b.outcome.option_id)
+    );
+  const best = order[0].s;
+
+  return {
+    target_id: model.targetId,
+    target_label: model.targetLabel,
+    seed,
+    samples,
+    outcomes: order.map((o) => o.outcome),
+    drivers: computeDrivers(model, model.scenarios[best], draws, targetsByScenario[best]),
+    tipping_points: computeTippingPoints(model, order.map((o) => model.scenarios[o.s])),
+    value_of_information: computeValueOfInformation(model, draws, targetsByScenario),
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * Local Inference
+ *
+ * Runs the in-process Monte Carlo engine (engine.ts) and maps its results to
+ * the shapes the quantitative endpoints consume: InferenceResultsV1 for
+ * explain-graph and sensitivity-coach, ranked actions and drivers for
+ * key-insight, and ISL-style results for isl-synthesis.
+ *
+ * Enabled with LOCAL_INFERENCE_ENABLED; endpoints use it only when the caller
+ * supplies no inference results of their own.
+ */
+
+import { config } from "../../config/index.js";
+import { log } from "../../utils/telemetry.js";
+import { computeResponseHash } from "../../utils/response-hash.js";
+import type { GraphT } from "../../schemas/graph.js";
+import type { InferenceResultsV1 } from "../../contracts/plot/engine.js";
+import type { CEEIslSynthesisInputT } from "../../schemas/cee.js";
+import type { Driver, RankedAction } from "../key-insight/index.js";
+import { LocalInferenceError, runMonteCarlo, type LocalInferenceOptions, type LocalInferenceResult } from "./engine.js";
+
+export {
+  LocalInferenceError,
+  type LocalInferenceOptions,
+  type LocalInferenceResult,
+  type OptionOutcome,
+  type FactorDriver,
+  type FactorTippingPoint,
+  type FactorValueOfInformation,
+} from "./engine.js";
+
+export const LOCAL_ENGINE_PROVIDER = "olumi-local";
+export const LOCAL_ENGINE_MODEL = "monte-carlo-v1";
+
+/**
+ * Whether endpoints may fall back to the local engine
+ */
+export function isLocalInferenceEnabled(): boolean {
+  return config.localInference.enabled;
+}
+
+/**
+ * Run local Monte Carlo inference over a graph.
+ *
+ * @throws LocalInferenceError when the graph is cyclic or has no goal/outcome
+ */
+export function runLocalInference(
+  graph: GraphT,
+  options: Partial<LocalInferenceOptions> = {}
+): LocalInferenceResult {
+  const start = Date.now();
+  const result = runMonteCarlo(graph, {
+    samples: options.samples ?? config.localInference.samples,
+    seed: options.seed,
+    targetId: options.targetId,
+  });
+
+  log.info({
+    target_id: result.target_id,
+    samples: result.samples,
+    scenarios: result.outcomes.length,
+    drivers: result.drivers.length,
+    tipping_points: result.tipping_points.length,
+    latency_ms: Date.now() - start,
+  }, "Local inference completed");
+
+  return result;
+}
+
+/**
+ * InferenceResultsV1 view of a local run
+ */
+export function toInferenceResults(result: LocalInferenceResult): InferenceResultsV1 {
+  const [best, runnerUp] = result.outcomes;
+  const summary = runnerUp
+    ? `${best.label} has the highest expected ${result.target_label} (p50 ${best.p50}, p10–p90 ${best.p10} to ${best.p90}) ` +
+      `and is best in ${Math.round(best.probability_best * 100)}% of ${result.samples} samples; ` +
+      `runner-up ${runnerUp.label} (p50 ${runnerUp.p50}).`
+    : `Expected ${result.target_label} p50 ${best.p50} (p10–p90 ${best.p10} to ${best.p90}) over ${result.samples} samples.`;
+
+  const body = {
+    summary,
+    explain: {
+      top_drivers: result.drivers.map((driver) => ({
+        node_id: driver.node_id,
+        description: driver.label,
+        contribution: driver.contribution,
+      })),
+    },
+    outcomes: result.outcomes,
+    tipping_points: result.tipping_points,
+    model_card: {
+      provider: LOCAL_ENGINE_PROVIDER,
+      model: LOCAL_ENGINE_MODEL,
+      samples: result.samples,
+      target_id: result.target_id,
+    },
+    seed: String(result.seed),
+  };
+
+  return { ...body, response_hash: computeResponseHash(body) };
+}
+
+/**
+ * Key-insight ranked actions. expected_utility is the probability that the
+ * option is best, which keeps it in [0, 1] like PLoT's utilities.
+ */
+export function toRankedActions(result: LocalInferenceResult): RankedAction[] {
+  const [best, runnerUp] = result.outcomes;
+  const dominant = Boolean(runnerUp) && best.p10 > runnerUp.p90;
+
+  return result.outcomes.map((outcome, index) => ({
+    node_id: outcome.option_id,
+    label: outcome.label,
+    expected_utility: outcome.probability_best,
+    ...(index === 0 && dominant ? { dominant: true } : {}),
+    primary_outcome: result.target_label,
+  }));
+}
+
+/**
+ * Key-insight drivers (share of explained variance as a percentage)
+ */
+export function toKeyInsightDrivers(result: LocalInferenceResult): Driver[] {
+  return result.drivers.map((driver) => ({
+    node_id: driver.node_id,
+    label: driver.label,
+    impact_pct: Math.round(Math.abs(driver.contribution) * 1000) / 10,
+    direction: driver.contribution > 0 ? "positive" : driver.contribution < 0 ? "negative" : "neutral",
+    kind: "factor",
+  }));
+}
+
+/**
+ * ISL-synthesis analysis results (sensitivity, value of information,
+ * tipping points and robustness of the recommendation)
+ */
+export function toIslSynthesisResults(
+  result: LocalInferenceResult
+): Pick<CEEIslSynthesisInputT, "sensitivity" | "voi" | "tipping_points" | "robustness"> {
+  const [best] = result.outcomes;
+  const scenariosDominant = Math.round(best.probability_best * result.samples);
+
+  return {
+    sensitivity: result.drivers.map((driver) => ({
+      factor_id: driver.node_id,
+      factor_label: driver.label,
+      sensitivity: Math.abs(driver.contribution),
+      direction: driver.contribution >= 0 ? "positive" as const : "negative" as const,
+    })),
+    voi: result.value_of_information.map((item) => ({
+      factor_id: item.factor_id,
+      factor_label: item.factor_label,
+      voi: item.voi,
+    })),
+    tipping_points: result.tipping_points,
+    robustness: result.outcomes.length > 1
+      ? [{
+          recommendation_id: best.option_id,
+          recommendation_label: best.label,
+          robustness_score: best.probability_best,
+          scenarios_tested: result.samples,
+          scenarios_dominant: scenariosDominant,
+        }]
+      : [],
+  };
+}
+
+/**
+ * Local inference for a request that omitted its inference results.
+ *
+ * @returns The result, or a client-facing reason it is unavailable (engine
+ *   disabled, cyclic graph, nothing to evaluate)
+ */
+export function tryLocalInference(
+  graph: GraphT,
+  missing: string
+): { ok: true; result: LocalInferenceResult } | { ok: false; message: string } {
+  if (!isLocalInferenceEnabled()) {
+    return { ok: false, message: `${missing} is required (local inference is disabled)` };
+  }
+
+  try {
+    return { ok: true, result: runLocalInference(graph) };
+  } catch (error) {
+    if (error instanceof LocalInferenceError) {
+      return { ok: false, message: `local inference failed: ${error.message}` };
+    }
+    throw error;
+  }
+}
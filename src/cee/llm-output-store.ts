@@ -1,156 +1,138 @@
 /**
  * LLM Output Store - Stores LLM outputs for debugging/admin retrieval.
  *
- * Uses an in-memory FIFO cache with TTL to store LLM outputs keyed by request_id.
- * Note: This is FIFO (first-in-first-out), not LRU - get() does not refresh recency.
+ * Outputs are keyed by request_id and written through a pluggable backend
+ * (see ./llm-output/), selected by LLM_OUTPUT_STORE_TYPE:
+ * - 'memory' (default): process-local FIFO, lost on restart
+ * - 'file': JSON Lines file, survives restarts of a single instance
+ * - 'sqlite': SQLite database file
+ * - 'postgres': shared across instances (migrations/003_create_llm_outputs.sql)
+ *
+ * Text and parsed JSON are PII-redacted at write time (utils/redaction.ts),
+ * and a retention policy (age and entry count) is applied on a timer.
  * This enables the admin endpoint to retrieve outputs for debugging without
  * bloating normal API responses.
  *
  * Important: The stored rawText may be truncated by adapters before reaching this store.
- * Hash is computed on whatever text is passed, which may not be the complete LLM output.
+ * The output hash is computed on the redacted text (what the admin endpoint
+ * returns), which may not be the complete LLM output.
  */
 
 import { createHash } from "node:crypto";
+import { config } from "../config/index.js";
+import { log } from "../utils/telemetry.js";
+import { redactLLMOutput } from "../utils/redaction.js";
+import {
+  MemoryLLMOutputStore,
+  FileLLMOutputStore,
+  SqliteLLMOutputStore,
+  PostgresLLMOutputStore,
+  type ILLMOutputStore,
+  type LLMOutputEntry,
+  type LLMOutputRetentionPolicy,
+  type LLMOutputSearchFilter,
+  type LLMOutputStoreType,
+} from "./llm-output/index.js";
 
-/** Default TTL: 1 hour */
-const DEFAULT_TTL_MS = 60 * 60 * 1000;
-
-/** Max entries in the store */
-const MAX_ENTRIES = 1000;
-
-/** Stored LLM output entry */
-export interface LLMOutputEntry {
-  /** Request ID */
-  requestId: string;
-  /** SHA-256 hash of the stored output (may be truncated by adapters) */
-  outputHash: string;
-  /** Raw LLM text output (may be truncated by adapters) */
-  rawText: string;
-  /** Parsed JSON output (if parsing succeeded) */
-  parsedJson?: unknown;
-  /** Node count from parsed output */
-  nodeCount: number;
-  /** Edge count from parsed output */
-  edgeCount: number;
-  /** Timestamp when stored */
-  storedAt: number;
-  /** Model used */
-  model?: string;
-  /** Prompt version */
-  promptVersion?: string;
-}
+export type { LLMOutputEntry, LLMOutputSearchFilter, LLMOutputRetentionPolicy } from "./llm-output/index.js";
 
-/** In-memory store with TTL */
-class LLMOutputStore {
-  private store = new Map<string, LLMOutputEntry>();
-  private ttlMs: number;
-  private maxEntries: number;
+/** Memory store defaults: 1 hour, 1000 entries */
+const MEMORY_RETENTION_HOURS = 1;
+const MEMORY_MAX_ENTRIES = 1000;
 
-  constructor(ttlMs = DEFAULT_TTL_MS, maxEntries = MAX_ENTRIES) {
-    this.ttlMs = ttlMs;
-    this.maxEntries = maxEntries;
-  }
+/** Durable store defaults: 7 days, 100k entries */
+const DURABLE_RETENTION_HOURS = 7 * 24;
+const DURABLE_MAX_ENTRIES = 100_000;
 
-  /**
-   * Store LLM output for later retrieval.
-   */
-  set(entry: LLMOutputEntry): void {
-    // Evict expired entries and enforce max size
-    this.cleanup();
-
-    // Enforce FIFO eviction if at capacity (evict oldest inserted)
-    if (this.store.size >= this.maxEntries) {
-      const oldestKey = this.store.keys().next().value;
-      if (oldestKey) {
-        this.store.delete(oldestKey);
-      }
-    }
+/** The file store holds every entry in memory, so it keeps fewer by default */
+const FILE_MAX_ENTRIES = 10_000;
 
-    this.store.set(entry.requestId, entry);
-  }
+/** How often the retention policy is applied */
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
 
-  /**
-   * Retrieve stored LLM output by request ID.
-   * Returns undefined if not found or expired.
-   */
-  get(requestId: string): LLMOutputEntry | undefined {
-    const entry = this.store.get(requestId);
-    if (!entry) {
-      return undefined;
-    }
+// =========================================================================
+// Singleton instance
+// =========================================================================
 
-    // Check if expired
-    if (Date.now() - entry.storedAt > this.ttlMs) {
-      this.store.delete(requestId);
-      return undefined;
-    }
+let storePromise: Promise<ILLMOutputStore> | null = null;
+let activeStoreType: LLMOutputStoreType = "memory";
+const pendingWrites = new Set<Promise<void>>();
+let retentionTimer: ReturnType<typeof setInterval> | null = null;
 
-    return entry;
-  }
+/**
+ * Create the configured backend
+ */
+function createStore(storeType: LLMOutputStoreType): ILLMOutputStore {
+  const { storePath, postgresUrl, postgresSsl } = config.llmOutput;
 
-  /**
-   * Check if an entry exists and is not expired.
-   */
-  has(requestId: string): boolean {
-    return this.get(requestId) !== undefined;
+  switch (storeType) {
+    case "file":
+      return new FileLLMOutputStore(storePath, getLLMOutputRetentionPolicy().maxEntries);
+    case "sqlite":
+      return new SqliteLLMOutputStore(storePath);
+    case "postgres":
+      if (!postgresUrl) {
+        throw new Error("LLM_OUTPUT_POSTGRES_URL is required when LLM_OUTPUT_STORE_TYPE=postgres");
+      }
+      return new PostgresLLMOutputStore({ connectionString: postgresUrl, ssl: postgresSsl });
+    default:
+      return new MemoryLLMOutputStore(getLLMOutputRetentionPolicy().maxEntries);
   }
+}
 
-  /**
-   * Remove expired entries.
-   */
-  private cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.store) {
-      if (now - entry.storedAt > this.ttlMs) {
-        this.store.delete(key);
+/**
+ * Get the initialized store. If the configured backend fails to initialize,
+ * falls back to the memory store so outputs are still retrievable.
+ */
+export function getLLMOutputStore(): Promise<ILLMOutputStore> {
+  if (!storePromise) {
+    const storeType = config.llmOutput.storeType;
+    storePromise = (async () => {
+      try {
+        const store = createStore(storeType);
+        await store.initialize();
+        activeStoreType = storeType;
+        return store;
+      } catch (error) {
+        log.warn(
+          { error: error instanceof Error ? error.message : String(error), storeType },
+          "Failed to initialize LLM output store - falling back to memory"
+        );
+        activeStoreType = "memory";
+        return new MemoryLLMOutputStore(MEMORY_MAX_ENTRIES);
       }
-    }
+    })();
   }
+  return storePromise;
+}
 
-  /**
-   * Get store size (for diagnostics).
-   */
-  get size(): number {
-    return this.store.size;
-  }
+/**
+ * Retention policy for the configured store type
+ */
+export function getLLMOutputRetentionPolicy(): LLMOutputRetentionPolicy {
+  const storeType = config.llmOutput.storeType;
+  const durable = storeType !== "memory";
+  const retentionHours = config.llmOutput.retentionHours ?? (durable ? DURABLE_RETENTION_HOURS : MEMORY_RETENTION_HOURS);
+  const defaultMaxEntries =
+    storeType === "memory" ? MEMORY_MAX_ENTRIES : storeType === "file" ? FILE_MAX_ENTRIES : DURABLE_MAX_ENTRIES;
 
-  /**
-   * Clear all entries (for testing).
-   */
-  clear(): void {
-    this.store.clear();
-  }
+  return {
+    maxAgeMs: retentionHours * 60 * 60 * 1000,
+    maxEntries: config.llmOutput.maxEntries ?? defaultMaxEntries,
+  };
 }
 
-/** Singleton store instance */
-const llmOutputStore = new LLMOutputStore();
-
 /**
- * Store LLM output for admin retrieval.
- * Idempotent: if entry already exists for requestId, returns existing data without re-storing.
+ * Hash of an output as stored (after redaction)
  */
-export function storeLLMOutput(
-  requestId: string,
-  rawText: string,
-  parsedJson: unknown | undefined,
-  options?: {
-    model?: string;
-    promptVersion?: string;
-  }
-): { outputHash: string; nodeCount: number; edgeCount: number } {
-  // Check if already stored (idempotent)
-  const existing = llmOutputStore.get(requestId);
-  if (existing) {
-    return {
-      outputHash: existing.outputHash,
-      nodeCount: existing.nodeCount,
-      edgeCount: existing.edgeCount,
-    };
-  }
-
-  const outputHash = createHash("sha256").update(rawText).digest("hex");
+function hashOutput(redactedText: string): string {
+  return createHash("sha256").update(redactedText).digest("hex");
+}
 
-  // Extract node/edge counts from parsed JSON
+/**
+ * Count nodes and edges in a parsed output (top-level or graph wrapper)
+ */
+function countGraph(parsedJson: unknown): { nodeCount: number; edgeCount: number } {
   let nodeCount = 0;
   let edgeCount = 0;
   if (parsedJson && typeof parsedJson === "object") {
@@ -172,34 +154,115 @@ export function storeLLMOutput(
       }
     }
   }
+  return { nodeCount, edgeCount };
+}
 
-  llmOutputStore.set({
+/**
+ * Store LLM output for admin retrieval.
+ * Idempotent: the first write for a requestId wins. The write happens in
+ * the background; failures are logged and never reach the caller.
+ */
+export function storeLLMOutput(
+  requestId: string,
+  rawText: string,
+  parsedJson: unknown | undefined,
+  options?: {
+    model?: string;
+    promptVersion?: string;
+  }
+): { outputHash: string; nodeCount: number; edgeCount: number } {
+  const { nodeCount, edgeCount } = countGraph(parsedJson);
+  const redacted = redactLLMOutput(rawText, parsedJson);
+  const outputHash = hashOutput(redacted.rawText);
+
+  const entry: LLMOutputEntry = {
     requestId,
     outputHash,
-    rawText,
-    parsedJson,
+    rawText: redacted.rawText,
+    parsedJson: redacted.parsedJson,
     nodeCount,
     edgeCount,
     storedAt: Date.now(),
     model: options?.model,
     promptVersion: options?.promptVersion,
-  });
+  };
+
+  const write = getLLMOutputStore()
+    .then((store) => store.put(entry))
+    .then(
+      () => {},
+      (error) => {
+        log.warn({ error: String(error), request_id: requestId }, "Failed to store LLM output");
+      }
+    );
+  pendingWrites.add(write);
+  void write.finally(() => pendingWrites.delete(write));
 
   return { outputHash, nodeCount, edgeCount };
 }
 
+/**
+ * Wait for background writes to finish (for shutdown and tests)
+ */
+export async function flushLLMOutputWrites(): Promise<void> {
+  await Promise.all(pendingWrites);
+}
+
+function isExpired(entry: LLMOutputEntry): boolean {
+  return Date.now() - entry.storedAt > getLLMOutputRetentionPolicy().maxAgeMs;
+}
+
 /**
  * Retrieve stored LLM output by request ID.
+ * Returns undefined if not found or outside the retention period.
  */
-export function getLLMOutput(requestId: string): LLMOutputEntry | undefined {
-  return llmOutputStore.get(requestId);
+export async function getLLMOutput(requestId: string): Promise<LLMOutputEntry | undefined> {
+  const store = await getLLMOutputStore();
+  const entry = await store.get(requestId);
+  return entry && !isExpired(entry) ? entry : undefined;
 }
 
 /**
  * Check if LLM output is available for a request ID.
  */
-export function hasLLMOutput(requestId: string): boolean {
-  return llmOutputStore.has(requestId);
+export async function hasLLMOutput(requestId: string): Promise<boolean> {
+  return (await getLLMOutput(requestId)) !== undefined;
+}
+
+/**
+ * Search stored outputs by model, prompt version, date range and node count (newest first).
+ */
+export async function searchLLMOutputs(filter: LLMOutputSearchFilter): Promise<LLMOutputEntry[]> {
+  const store = await getLLMOutputStore();
+  const minStoredAt = Date.now() - getLLMOutputRetentionPolicy().maxAgeMs;
+  return store.search({ ...filter, from: Math.max(filter.from ?? 0, minStoredAt) });
+}
+
+/**
+ * Apply the retention policy now.
+ * @returns Number of deleted entries
+ */
+export async function pruneLLMOutputs(): Promise<number> {
+  const store = await getLLMOutputStore();
+  const deleted = await store.prune(getLLMOutputRetentionPolicy());
+  if (deleted > 0) {
+    log.info({ deleted, store_type: activeStoreType }, "Pruned LLM outputs past retention");
+  }
+  return deleted;
+}
+
+/**
+ * Apply the retention policy hourly
+ */
+export function startLLMOutputRetentionJob(): void {
+  if (retentionTimer) return;
+
+  retentionTimer = setInterval(() => {
+    pruneLLMOutputs().catch((error) => {
+      log.warn({ error: String(error) }, "LLM output retention cleanup failed");
+    });
+  }, RETENTION_INTERVAL_MS);
+  retentionTimer.unref();
 }
 
 /**
@@ -246,28 +309,9 @@ export function buildLLMRawTrace(
     edgeCount = stored.edgeCount;
     fullOutputAvailable = true;
   } else {
-    // Just compute hash and counts without storing
-    outputHash = createHash("sha256").update(rawText).digest("hex");
-    nodeCount = 0;
-    edgeCount = 0;
-    if (parsedJson && typeof parsedJson === "object") {
-      const obj = parsedJson as Record<string, unknown>;
-      if (Array.isArray(obj.nodes)) {
-        nodeCount = obj.nodes.length;
-      }
-      if (Array.isArray(obj.edges)) {
-        edgeCount = obj.edges.length;
-      }
-      if (obj.graph && typeof obj.graph === "object") {
-        const graph = obj.graph as Record<string, unknown>;
-        if (Array.isArray(graph.nodes)) {
-          nodeCount = graph.nodes.length;
-        }
-        if (Array.isArray(graph.edges)) {
-          edgeCount = graph.edges.length;
-        }
-      }
-    }
+    // Just compute hash and counts without storing (same hash as a stored output)
+    outputHash = hashOutput(redactLLMOutput(rawText, undefined).rawText);
+    ({ nodeCount, edgeCount } = countGraph(parsedJson));
     fullOutputAvailable = false;
   }
 
@@ -281,16 +325,51 @@ export function buildLLMRawTrace(
   };
 }
 
+/**
+ * Store diagnostics for the admin stats endpoint.
+ */
+export async function getLLMOutputStoreStats(): Promise<{
+  storeType: LLMOutputStoreType;
+  size: number;
+  retention: LLMOutputRetentionPolicy;
+}> {
+  const store = await getLLMOutputStore();
+  return {
+    storeType: activeStoreType,
+    size: await store.count(),
+    retention: getLLMOutputRetentionPolicy(),
+  };
+}
+
 /**
  * Get store size (for diagnostics).
  */
-export function getLLMOutputStoreSize(): number {
-  return llmOutputStore.size;
+export async function getLLMOutputStoreSize(): Promise<number> {
+  const store = await getLLMOutputStore();
+  return store.count();
+}
+
+/**
+ * Flush pending writes and close the store (for shutdown).
+ */
+export async function closeLLMOutputStore(): Promise<void> {
+  if (retentionTimer) {
+    clearInterval(retentionTimer);
+    retentionTimer = null;
+  }
+  if (!storePromise) return;
+
+  await flushLLMOutputWrites();
+  const store = await storePromise;
+  storePromise = null;
+  await store.close();
 }
 
 /**
  * Clear the store (for testing).
  */
-export function clearLLMOutputStore(): void {
-  llmOutputStore.clear();
+export async function clearLLMOutputStore(): Promise<void> {
+  await flushLLMOutputWrites();
+  const store = await getLLMOutputStore();
+  await store.clear();
 }
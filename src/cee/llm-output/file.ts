@@ -0,0 +1,157 @@
+/**
+ * File-based LLM Output Store
+ *
+ * Append-only JSON Lines file, loaded into memory on startup. Survives
+ * restarts of a single instance; pruning rewrites the file atomically.
+ * Every entry is held in memory, so the store keeps at most maxEntries
+ * (oldest evicted first, as in the memory store). Evicted entries stay in
+ * the file until the next prune, which rewrites it whenever anything was
+ * evicted since the last rewrite.
+ */
+
+import { readFile, appendFile, writeFile, mkdir, rename } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  searchEntries,
+  type ILLMOutputStore,
+  type LLMOutputEntry,
+  type LLMOutputRetentionPolicy,
+  type LLMOutputSearchFilter,
+} from './interface.js';
+import { log } from '../../utils/telemetry.js';
+
+export const DEFAULT_FILE_STORE_PATH = 'data/llm-outputs.jsonl';
+
+/**
+ * JSON Lines store with serialized writes
+ */
+export class FileLLMOutputStore implements ILLMOutputStore {
+  private entries = new Map<string, LLMOutputEntry>();
+  private writeQueue: Promise<void> = Promise.resolve();
+  /** File lines no longer backed by an entry (evicted, duplicate or unreadable) */
+  private staleLines = 0;
+
+  constructor(
+    private readonly filePath: string = DEFAULT_FILE_STORE_PATH,
+    private readonly maxEntries: number = Number.POSITIVE_INFINITY
+  ) {}
+
+  async initialize(): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    let content: string;
+    try {
+      content = await readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        log.info({ path: this.filePath }, 'File LLM output store initialized (new file)');
+        return;
+      }
+      throw error;
+    }
+
+    let skipped = 0;
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as LLMOutputEntry;
+        if (typeof entry.requestId === 'string' && !this.entries.has(entry.requestId)) {
+          this.add(entry);
+        } else {
+          this.staleLines++;
+        }
+      } catch {
+        // Partial line from an interrupted append
+        skipped++;
+      }
+    }
+    this.staleLines += skipped;
+
+    log.info({ path: this.filePath, entries: this.entries.size, skipped }, 'File LLM output store initialized');
+  }
+
+  /**
+   * Run file writes one at a time, in call order
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(write);
+    this.writeQueue = next.catch(() => {});
+    return next;
+  }
+
+  async put(entry: LLMOutputEntry): Promise<boolean> {
+    if (this.entries.has(entry.requestId)) {
+      return false;
+    }
+
+    this.add(entry);
+    await this.enqueue(() => appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf-8'));
+    return true;
+  }
+
+  /**
+   * Insert an entry, evicting the oldest inserted at capacity
+   */
+  private add(entry: LLMOutputEntry): void {
+    if (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey) {
+        this.entries.delete(oldestKey);
+        this.staleLines++;
+      }
+    }
+    this.entries.set(entry.requestId, entry);
+  }
+
+  async get(requestId: string): Promise<LLMOutputEntry | null> {
+    return this.entries.get(requestId) ?? null;
+  }
+
+  async search(filter: LLMOutputSearchFilter): Promise<LLMOutputEntry[]> {
+    return searchEntries(this.entries.values(), filter);
+  }
+
+  async count(): Promise<number> {
+    return this.entries.size;
+  }
+
+  async prune(policy: LLMOutputRetentionPolicy): Promise<number> {
+    const cutoff = Date.now() - policy.maxAgeMs;
+    let deleted = 0;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.storedAt < cutoff || this.entries.size > policy.maxEntries) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+
+    if (deleted > 0 || this.staleLines > 0) {
+      await this.rewrite();
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    await this.rewrite();
+  }
+
+  async close(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  /**
+   * Replace the file with the current entries (atomic via rename)
+   */
+  private rewrite(): Promise<void> {
+    return this.enqueue(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      const stale = this.staleLines;
+      const lines = Array.from(this.entries.values(), (entry) => JSON.stringify(entry) + '\n');
+      await writeFile(tempPath, lines.join(''), 'utf-8');
+      await rename(tempPath, this.filePath);
+      this.staleLines -= stale;
+    });
+  }
+}
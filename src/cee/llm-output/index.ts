@@ -0,0 +1,11 @@
+/**
+ * LLM Output Stores
+ *
+ * Pluggable storage backends for LLM outputs.
+ */
+
+export * from './interface.js';
+export { MemoryLLMOutputStore } from './memory.js';
+export { FileLLMOutputStore } from './file.js';
+export { SqliteLLMOutputStore } from './sqlite.js';
+export { PostgresLLMOutputStore } from './postgres.js';
@@ -0,0 +1,146 @@
+/**
+ * LLM Output Store Interface
+ *
+ * Abstract interface for LLM output storage backends.
+ * Enables pluggable storage (memory, file, SQLite, Postgres)
+ * with consistent API across implementations.
+ */
+
+/** Stored LLM output entry */
+export interface LLMOutputEntry {
+  /** Request ID */
+  requestId: string;
+  /** SHA-256 hash of the output before redaction (may be truncated by adapters) */
+  outputHash: string;
+  /** Raw LLM text output, redacted at write time (may be truncated by adapters) */
+  rawText: string;
+  /** Parsed JSON output, redacted at write time (if parsing succeeded) */
+  parsedJson?: unknown;
+  /** Node count from parsed output */
+  nodeCount: number;
+  /** Edge count from parsed output */
+  edgeCount: number;
+  /** Timestamp when stored */
+  storedAt: number;
+  /** Model used */
+  model?: string;
+  /** Prompt version */
+  promptVersion?: string;
+}
+
+/**
+ * Search filter for stored outputs (all conditions must match)
+ */
+export interface LLMOutputSearchFilter {
+  /** Exact model identifier */
+  model?: string;
+  /** Exact prompt version */
+  promptVersion?: string;
+  /** Stored at or after (epoch ms) */
+  from?: number;
+  /** Stored at or before (epoch ms) */
+  to?: number;
+  /** Minimum node count (inclusive) */
+  minNodeCount?: number;
+  /** Maximum node count (inclusive) */
+  maxNodeCount?: number;
+  /** Page size (default 50) */
+  limit?: number;
+  /** Entries to skip */
+  offset?: number;
+}
+
+/**
+ * Retention policy applied by prune()
+ */
+export interface LLMOutputRetentionPolicy {
+  /** Entries older than this are deleted */
+  maxAgeMs: number;
+  /** Oldest entries beyond this count are deleted */
+  maxEntries: number;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+
+/**
+ * Abstract interface for LLM output storage backends
+ *
+ * All methods are async to support both local and remote stores.
+ * Search results are ordered newest first.
+ */
+export interface ILLMOutputStore {
+  /**
+   * Initialize the store
+   * Called once before first use
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Store an entry. The first write for a request ID wins.
+   * @returns false if an entry already exists for the request ID
+   */
+  put(entry: LLMOutputEntry): Promise<boolean>;
+
+  /**
+   * Get an entry by request ID
+   * @returns null if not found
+   */
+  get(requestId: string): Promise<LLMOutputEntry | null>;
+
+  /**
+   * Find entries matching the filter, newest first
+   */
+  search(filter: LLMOutputSearchFilter): Promise<LLMOutputEntry[]>;
+
+  /**
+   * Number of stored entries
+   */
+  count(): Promise<number>;
+
+  /**
+   * Delete entries outside the retention policy
+   * @returns Number of deleted entries
+   */
+  prune(policy: LLMOutputRetentionPolicy): Promise<number>;
+
+  /**
+   * Delete all entries (for testing)
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Release connections and file handles
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Store type identifiers
+ */
+export type LLMOutputStoreType = 'memory' | 'file' | 'sqlite' | 'postgres';
+
+/**
+ * Whether an entry matches a search filter (for stores that filter in process)
+ */
+export function matchesSearchFilter(entry: LLMOutputEntry, filter: LLMOutputSearchFilter): boolean {
+  if (filter.model !== undefined && entry.model !== filter.model) return false;
+  if (filter.promptVersion !== undefined && entry.promptVersion !== filter.promptVersion) return false;
+  if (filter.from !== undefined && entry.storedAt < filter.from) return false;
+  if (filter.to !== undefined && entry.storedAt > filter.to) return false;
+  if (filter.minNodeCount !== undefined && entry.nodeCount < filter.minNodeCount) return false;
+  if (filter.maxNodeCount !== undefined && entry.nodeCount > filter.maxNodeCount) return false;
+  return true;
+}
+
+/**
+ * Filter, order (newest first) and page entries held in process
+ */
+export function searchEntries(entries: Iterable<LLMOutputEntry>, filter: LLMOutputSearchFilter): LLMOutputEntry[] {
+  const offset = filter.offset ?? 0;
+  const limit = filter.limit ?? DEFAULT_SEARCH_LIMIT;
+
+  return Array.from(entries)
+    .filter((entry) => matchesSearchFilter(entry, filter))
+    .sort((a, b) => b.storedAt - a.storedAt)
+    .slice(offset, offset + limit);
+}
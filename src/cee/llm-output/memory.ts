@@ -0,0 +1,76 @@
+/**
+ * In-Memory LLM Output Store
+ *
+ * Process-local FIFO store (the default). Outputs are lost on restart and
+ * not shared across instances; use the file, SQLite or Postgres store for
+ * durable retrieval.
+ *
+ * Note: This is FIFO (first-in-first-out), not LRU - get() does not refresh recency.
+ */
+
+import {
+  searchEntries,
+  type ILLMOutputStore,
+  type LLMOutputEntry,
+  type LLMOutputRetentionPolicy,
+  type LLMOutputSearchFilter,
+} from './interface.js';
+
+/**
+ * In-memory store, capped at maxEntries (oldest inserted evicted first)
+ */
+export class MemoryLLMOutputStore implements ILLMOutputStore {
+  private store = new Map<string, LLMOutputEntry>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async initialize(): Promise<void> {}
+
+  async put(entry: LLMOutputEntry): Promise<boolean> {
+    if (this.store.has(entry.requestId)) {
+      return false;
+    }
+
+    // Enforce FIFO eviction if at capacity (evict oldest inserted)
+    if (this.store.size >= this.maxEntries) {
+      const oldestKey = this.store.keys().next().value;
+      if (oldestKey) {
+        this.store.delete(oldestKey);
+      }
+    }
+
+    this.store.set(entry.requestId, entry);
+    return true;
+  }
+
+  async get(requestId: string): Promise<LLMOutputEntry | null> {
+    return this.store.get(requestId) ?? null;
+  }
+
+  async search(filter: LLMOutputSearchFilter): Promise<LLMOutputEntry[]> {
+    return searchEntries(this.store.values(), filter);
+  }
+
+  async count(): Promise<number> {
+    return this.store.size;
+  }
+
+  async prune(policy: LLMOutputRetentionPolicy): Promise<number> {
+    const cutoff = Date.now() - policy.maxAgeMs;
+    let deleted = 0;
+
+    for (const [key, entry] of this.store) {
+      if (entry.storedAt < cutoff || this.store.size > policy.maxEntries) {
+        this.store.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+
+  async close(): Promise<void> {}
+}
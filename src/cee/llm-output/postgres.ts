@@ -0,0 +1,164 @@
+/**
+ * PostgreSQL LLM Output Store
+ *
+ * Shared, durable storage for multi-instance deployments.
+ * Uses postgres.js; the llm_outputs table is created by
+ * migrations/003_create_llm_outputs.sql.
+ */
+
+import postgres from 'postgres';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  type ILLMOutputStore,
+  type LLMOutputEntry,
+  type LLMOutputRetentionPolicy,
+  type LLMOutputSearchFilter,
+} from './interface.js';
+import { log } from '../../utils/telemetry.js';
+
+interface OutputRow {
+  request_id: string;
+  output_hash: string;
+  raw_text: string;
+  parsed_json: unknown | null;
+  node_count: number;
+  edge_count: number;
+  stored_at: Date | string;
+  model: string | null;
+  prompt_version: string | null;
+}
+
+function toEntry(row: OutputRow): LLMOutputEntry {
+  return {
+    requestId: row.request_id,
+    outputHash: row.output_hash,
+    rawText: row.raw_text,
+    parsedJson: row.parsed_json ?? undefined,
+    nodeCount: row.node_count,
+    edgeCount: row.edge_count,
+    storedAt: new Date(row.stored_at).getTime(),
+    model: row.model ?? undefined,
+    promptVersion: row.prompt_version ?? undefined,
+  };
+}
+
+/**
+ * PostgreSQL-backed store with connection pooling
+ */
+export class PostgresLLMOutputStore implements ILLMOutputStore {
+  private sql: postgres.Sql | null = null;
+
+  constructor(private readonly config: { connectionString: string; poolSize?: number; ssl?: boolean }) {}
+
+  /**
+   * Initialize the store and verify connection
+   */
+  async initialize(): Promise<void> {
+    this.sql = postgres(this.config.connectionString, {
+      max: this.config.poolSize ?? 5,
+      ssl: this.config.ssl ? 'require' : false,
+      idle_timeout: 20,
+      max_lifetime: 60 * 30, // 30 minutes
+      connect_timeout: 10,
+      onnotice: () => {}, // Suppress NOTICE messages
+    });
+
+    // Verify connection and schema
+    await this.sql`SELECT 1 FROM llm_outputs LIMIT 1`;
+
+    log.info({ poolSize: this.config.poolSize ?? 5 }, 'PostgreSQL LLM output store initialized');
+  }
+
+  /**
+   * Ensure connection is established
+   */
+  private ensureInitialized(): postgres.Sql {
+    if (!this.sql) {
+      throw new Error('Store not initialized. Call initialize() first.');
+    }
+    return this.sql;
+  }
+
+  async put(entry: LLMOutputEntry): Promise<boolean> {
+    const sql = this.ensureInitialized();
+    const result = await sql`
+      INSERT INTO llm_outputs
+        (request_id, output_hash, raw_text, parsed_json, node_count, edge_count, stored_at, model, prompt_version)
+      VALUES (
+        ${entry.requestId},
+        ${entry.outputHash},
+        ${entry.rawText},
+        ${entry.parsedJson !== undefined ? sql.json(entry.parsedJson as postgres.JSONValue) : null},
+        ${entry.nodeCount},
+        ${entry.edgeCount},
+        ${new Date(entry.storedAt).toISOString()},
+        ${entry.model ?? null},
+        ${entry.promptVersion ?? null}
+      )
+      ON CONFLICT (request_id) DO NOTHING
+    `;
+    return result.count > 0;
+  }
+
+  async get(requestId: string): Promise<LLMOutputEntry | null> {
+    const sql = this.ensureInitialized();
+    const rows = await sql<OutputRow[]>`
+      SELECT * FROM llm_outputs WHERE request_id = ${requestId}
+    `;
+    return rows.length > 0 ? toEntry(rows[0]) : null;
+  }
+
+  async search(filter: LLMOutputSearchFilter): Promise<LLMOutputEntry[]> {
+    const sql = this.ensureInitialized();
+    const none = sql``;
+
+    const rows = await sql<OutputRow[]>`
+      SELECT * FROM llm_outputs
+      WHERE TRUE
+        ${filter.model !== undefined ? sql`AND model = ${filter.model}` : none}
+        ${filter.promptVersion !== undefined ? sql`AND prompt_version = ${filter.promptVersion}` : none}
+        ${filter.from !== undefined ? sql`AND stored_at >= ${new Date(filter.from).toISOString()}` : none}
+        ${filter.to !== undefined ? sql`AND stored_at <= ${new Date(filter.to).toISOString()}` : none}
+        ${filter.minNodeCount !== undefined ? sql`AND node_count >= ${filter.minNodeCount}` : none}
+        ${filter.maxNodeCount !== undefined ? sql`AND node_count <= ${filter.maxNodeCount}` : none}
+      ORDER BY stored_at DESC
+      LIMIT ${filter.limit ?? DEFAULT_SEARCH_LIMIT}
+      OFFSET ${filter.offset ?? 0}
+    `;
+    return rows.map(toEntry);
+  }
+
+  async count(): Promise<number> {
+    const sql = this.ensureInitialized();
+    const rows = await sql<{ count: string }[]>`SELECT COUNT(*) AS count FROM llm_outputs`;
+    return Number(rows[0].count);
+  }
+
+  async prune(policy: LLMOutputRetentionPolicy): Promise<number> {
+    const sql = this.ensureInitialized();
+    const cutoff = new Date(Date.now() - policy.maxAgeMs).toISOString();
+
+    const expired = await sql`DELETE FROM llm_outputs WHERE stored_at < ${cutoff}`;
+    const overflow = await sql`
+      DELETE FROM llm_outputs WHERE request_id IN (
+        SELECT request_id FROM llm_outputs ORDER BY stored_at DESC OFFSET ${policy.maxEntries}
+      )
+    `;
+    return expired.count + overflow.count;
+  }
+
+  async clear(): Promise<void> {
+    const sql = this.ensureInitialized();
+    await sql`DELETE FROM llm_outputs`;
+  }
+
+  /**
+   * Close the connection pool
+   */
+  async close(): Promise<void> {
+    if (this.sql) {
+      await this.sql.end();
+      this.sql = null;
+    }
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * SQLite LLM Output Store
+ *
+ * Single-file database via better-sqlite3. Durable across restarts and
+ * shareable by processes on the same host; searches use indexed columns.
+ */
+
+import Database from 'better-sqlite3';
+import { mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  type ILLMOutputStore,
+  type LLMOutputEntry,
+  type LLMOutputRetentionPolicy,
+  type LLMOutputSearchFilter,
+} from './interface.js';
+import { log } from '../../utils/telemetry.js';
+
+export const DEFAULT_SQLITE_STORE_PATH = 'data/llm-outputs.db';
+
+interface OutputRow {
+  request_id: string;
+  output_hash: string;
+  raw_text: string;
+  parsed_json: string | null;
+  node_count: number;
+  edge_count: number;
+  stored_at: number;
+  model: string | null;
+  prompt_version: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS llm_outputs (
+    request_id TEXT PRIMARY KEY,
+    output_hash TEXT NOT NULL,
+    raw_text TEXT NOT NULL,
+    parsed_json TEXT,
+    node_count INTEGER NOT NULL,
+    edge_count INTEGER NOT NULL,
+    stored_at INTEGER NOT NULL,
+    model TEXT,
+    prompt_version TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_llm_outputs_stored_at ON llm_outputs(stored_at);
+  CREATE INDEX IF NOT EXISTS idx_llm_outputs_model ON llm_outputs(model, stored_at);
+  CREATE INDEX IF NOT EXISTS idx_llm_outputs_prompt_version ON llm_outputs(prompt_version, stored_at);
+`;
+
+function toEntry(row: OutputRow): LLMOutputEntry {
+  return {
+    requestId: row.request_id,
+    outputHash: row.output_hash,
+    rawText: row.raw_text,
+    parsedJson: row.parsed_json !== null ? JSON.parse(row.parsed_json) : undefined,
+    nodeCount: row.node_count,
+    edgeCount: row.edge_count,
+    storedAt: row.stored_at,
+    model: row.model ?? undefined,
+    promptVersion: row.prompt_version ?? undefined,
+  };
+}
+
+/**
+ * SQLite-backed store
+ */
+export class SqliteLLMOutputStore implements ILLMOutputStore {
+  private db: Database.Database | null = null;
+
+  constructor(private readonly filePath: string = DEFAULT_SQLITE_STORE_PATH) {}
+
+  async initialize(): Promise<void> {
+    if (this.filePath !== ':memory:') {
+      await mkdir(dirname(this.filePath), { recursive: true });
+    }
+
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+
+    log.info({ path: this.filePath }, 'SQLite LLM output store initialized');
+  }
+
+  /**
+   * Ensure database is open
+   */
+  private ensureInitialized(): Database.Database {
+    if (!this.db) {
+      throw new Error('Store not initialized. Call initialize() first.');
+    }
+    return this.db;
+  }
+
+  async put(entry: LLMOutputEntry): Promise<boolean> {
+    const result = this.ensureInitialized()
+      .prepare(
+        `INSERT OR IGNORE INTO llm_outputs
+           (request_id, output_hash, raw_text, parsed_json, node_count, edge_count, stored_at, model, prompt_version)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        entry.requestId,
+        entry.outputHash,
+        entry.rawText,
+        entry.parsedJson !== undefined ? JSON.stringify(entry.parsedJson) : null,
+        entry.nodeCount,
+        entry.edgeCount,
+        entry.storedAt,
+        entry.model ?? null,
+        entry.promptVersion ?? null
+      );
+    return result.changes > 0;
+  }
+
+  async get(requestId: string): Promise<LLMOutputEntry | null> {
+    const row = this.ensureInitialized()
+      .prepare('SELECT * FROM llm_outputs WHERE request_id = ?')
+      .get(requestId) as OutputRow | undefined;
+    return row ? toEntry(row) : null;
+  }
+
+  async search(filter: LLMOutputSearchFilter): Promise<LLMOutputEntry[]> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (filter.model !== undefined) {
+      conditions.push('model = ?');
+      params.push(filter.model);
+    }
+    if (filter.promptVersion !== undefined) {
+      conditions.push('prompt_version = ?');
+      params.push(filter.promptVersion);
+    }
+    if (filter.from !== undefined) {
+      conditions.push('stored_at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to !== undefined) {
+      conditions.push('stored_at <= ?');
+      params.push(filter.to);
+    }
+    if (filter.minNodeCount !== undefined) {
+      conditions.push('node_count >= ?');
+      params.push(filter.minNodeCount);
+    }
+    if (filter.maxNodeCount !== undefined) {
+      conditions.push('node_count <= ?');
+      params.push(filter.maxNodeCount);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.ensureInitialized()
+      .prepare(`SELECT * FROM llm_outputs ${where} ORDER BY stored_at DESC LIMIT ? OFFSET ?`)
+      .all(...params, filter.limit ?? DEFAULT_SEARCH_LIMIT, filter.offset ?? 0) as OutputRow[];
+    return rows.map(toEntry);
+  }
+
+  async count(): Promise<number> {
+    const row = this.ensureInitialized()
+      .prepare('SELECT COUNT(*) AS count FROM llm_outputs')
+      .get() as { count: number };
+    return row.count;
+  }
+
+  async prune(policy: LLMOutputRetentionPolicy): Promise<number> {
+    const db = this.ensureInitialized();
+    const prune = db.transaction(() => {
+      const expired = db
+        .prepare('DELETE FROM llm_outputs WHERE stored_at < ?')
+        .run(Date.now() - policy.maxAgeMs).changes;
+      const overflow = db
+        .prepare(
+          `DELETE FROM llm_outputs WHERE request_id IN (
+             SELECT request_id FROM llm_outputs ORDER BY stored_at DESC LIMIT -1 OFFSET ?
+           )`
+        )
+        .run(policy.maxEntries).changes;
+      return expired + overflow;
+    });
+    return prune();
+  }
+
+  async clear(): Promise<void> {
+    this.ensureInitialized().exec('DELETE FROM llm_outputs');
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -7,6 +7,7 @@ import type { DraftGraphInputT } from "../../schemas/assist.js";
 import { validateResponse } from "../../utils/responseGuards.js";
 import { getRequestId } from "../../utils/request-id.js";
 import { emit, log, TelemetryEvents } from "../../utils/telemetry.js";
+import { withSpan } from "../../utils/tracing.js";
 import { isSchemaValidationError, calculateBackoffDelay, SCHEMA_VALIDATION_RETRY_CONFIG } from "../../utils/retry.js";
 import { config, isProduction } from "../../config/index.js";
 import { logCeeCall } from "../logging.js";
@@ -40,6 +41,7 @@ import { randomUUID, createHash } from "node:crypto";
 import { buildLLMRawTrace, storeLLMOutput } from "../llm-output-store.js";
 import { createCorrectionCollector, type CorrectionCollector } from "../corrections.js";
 import { SERVICE_VERSION } from "../../version.js";
+import { resolveAdminIdentity, hasAdminPermission } from "../../utils/admin-auth.js";
 
 type CEEDraftGraphResponseV1 = components["schemas"]["CEEDraftGraphResponseV1"];
 type CEEErrorResponseV1 = components["schemas"]["CEEErrorResponseV1"];
@@ -134,12 +136,10 @@ function isUnsafeCaptureRequested(request: FastifyRequest): boolean {
   return unsafeQuery === "1" || unsafeQuery === "true" || unsafeHeader === "1" || unsafeHeader === "true";
 }
 
+// Unsafe capture returns raw LLM output, so it needs the operator role
 function isAdminAuthorized(request: FastifyRequest): boolean {
-  const providedKey = request.headers["x-admin-key"] as string | undefined;
-  if (!providedKey) return false;
-  const adminKey = config.prompts?.adminApiKey;
-  const adminKeyRead = config.prompts?.adminApiKeyRead;
-  return Boolean((adminKey && providedKey === adminKey) || (adminKeyRead && providedKey === adminKeyRead));
+  const identity = resolveAdminIdentity(request);
+  return identity !== null && hasAdminPermission(identity, "llm-output:raw");
 }
 
 type MinimumStructureResult = {
@@ -898,15 +898,33 @@ export function normaliseRiskCoefficients(
   return { edges: normalisedEdges, corrections };
 }
 
+type FinaliseCeeDraftResult = {
+  statusCode: number;
+  body: CEEDraftGraphResponseV1 | CEEErrorResponseV1;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Run the CEE draft pipeline and build the response, inside a
+ * cee.finalise_draft tracing span
+ */
 export async function finaliseCeeDraftResponse(
   input: DraftInputWithCeeExtras,
   rawBody: unknown,
   request: FastifyRequest
-): Promise<{
-  statusCode: number;
-  body: CEEDraftGraphResponseV1 | CEEErrorResponseV1;
-  headers?: Record<string, string>;
-}> {
+): Promise<FinaliseCeeDraftResult> {
+  return withSpan("cee.finalise_draft", {}, async (span) => {
+    const result = await runFinaliseCeeDraftResponse(input, rawBody, request);
+    span.setAttribute("http.response.status_code", result.statusCode);
+    return result;
+  });
+}
+
+async function runFinaliseCeeDraftResponse(
+  input: DraftInputWithCeeExtras,
+  rawBody: unknown,
+  request: FastifyRequest
+): Promise<FinaliseCeeDraftResult> {
   const start = Date.now();
   const requestId = getRequestId(request);
 
@@ -2187,6 +2205,10 @@ export async function finaliseCeeDraftResponse(
       token_usage: llmMeta.token_usage,
       finish_reason: llmMeta.finish_reason,
       brief_hash: briefHash,
+      ...(llmMeta.cache === "semantic" ? {
+        cache: llmMeta.cache,
+        cache_similarity: llmMeta.cache_similarity,
+      } : {}),
     } : { brief_hash: briefHash }),
     // Goal handling observability
     goal_handling: goalHandling as any,
@@ -10,6 +10,7 @@ import { ComparisonDetector } from "./validators/comparison-detector.js";
 import { EdgeDirectionValidator } from "./validators/edge-direction-validator.js";
 import { generateWeightSuggestions } from "./generators/weight-suggestion-generator.js";
 import { emit, TelemetryEvents, log } from "../../utils/telemetry.js";
+import { withSpan } from "../../utils/tracing.js";
 import type { CEEWeightSuggestionV1T } from "../../schemas/ceeResponses.js";
 
 /**
@@ -17,6 +18,7 @@ import type { CEEWeightSuggestionV1T } from "../../schemas/ceeResponses.js";
  *
  * Coordinates the schema, engine, and numerical grounding validators and
  * attaches a metadata-only trace.verification block to CEE responses.
+ * Each stage runs in its own tracing span (cee.verification.<stage>).
  */
 export class VerificationPipeline {
   private readonly schemaValidator = new SchemaValidator();
@@ -39,12 +41,22 @@ export class VerificationPipeline {
     payload: unknown,
     schema: z.ZodType<T, z.ZodTypeDef, unknown> | undefined,
     context: VerificationContext,
+  ): Promise<{ response: T; results: VerificationResult[] }> {
+    return withSpan("cee.verification", { "cee.endpoint": context.endpoint }, () =>
+      this.runStages(payload, schema, context),
+    );
+  }
+
+  private async runStages<T>(
+    payload: unknown,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown> | undefined,
+    context: VerificationContext,
   ): Promise<{ response: T; results: VerificationResult[] }> {
     const start = Date.now();
     const results: VerificationResult[] = [];
 
     // Stage 1: schema validation (hard blocker)
-    const schemaResult = await this.schemaValidator.validate<T>(payload, schema);
+    const schemaResult = await this.stage("schema", () => this.schemaValidator.validate<T>(payload, schema));
     results.push(schemaResult);
     if (!schemaResult.valid) {
       this.emitFailureTelemetry("SCHEMA_INVALID", results, context);
@@ -56,7 +68,7 @@ export class VerificationPipeline {
     // Stage 2: engine validation (hard blocker for graph endpoints)
     if (context.requiresEngineValidation && (typed as any)?.graph) {
       const graph = (typed as any).graph as unknown;
-      const engineResult = await this.engineValidator.validate(graph as any, context);
+      const engineResult = await this.stage("engine", () => this.engineValidator.validate(graph as any, context));
       results.push(engineResult);
       if (!engineResult.valid) {
         const code = engineResult.code ?? "ENGINE_VALIDATION_FAILED";
@@ -66,18 +78,18 @@ export class VerificationPipeline {
     }
 
     // Stage 3: numerical grounding (warning-only PoC)
-    const numericalResult = await this.numericalValidator.validate(typed as any, context);
+    const numericalResult = await this.stage("numerical", () => this.numericalValidator.validate(typed as any, context));
     results.push(numericalResult);
 
-    const branchResult = await this.branchProbabilityValidator.validate(typed as any, context);
+    const branchResult = await this.stage("branch_probability", () => this.branchProbabilityValidator.validate(typed as any, context));
     results.push(branchResult);
 
     // Stage 3b: edge direction validation (causal direction check)
-    const edgeDirectionResult = await this.edgeDirectionValidator.validate(typed as any, context);
+    const edgeDirectionResult = await this.stage("edge_direction", () => this.edgeDirectionValidator.validate(typed as any, context));
     results.push(edgeDirectionResult);
 
     // Stage 4: weight suggestions (graph quality enhancement)
-    const weightResult = await this.weightSuggestionValidator.validate(typed as any, context);
+    const weightResult = await this.stage("weight_suggestion", () => this.weightSuggestionValidator.validate(typed as any, context));
     results.push(weightResult);
     let weightSuggestions: CEEWeightSuggestionV1T[] | undefined =
       (weightResult as any).suggestions?.length > 0 ? (weightResult as any).suggestions : undefined;
@@ -91,12 +103,15 @@ export class VerificationPipeline {
           ? Math.max(0, Math.min(1, 1 - numericalDetails.hallucination_score))
           : undefined;
 
-        const generatedSuggestions = await generateWeightSuggestions({
-          graph: (typed as any).graph,
-          detections: weightSuggestions,
-          requestId: context.requestId ?? "unknown",
-          numericalGroundingScore,
-        });
+        const detections = weightSuggestions;
+        const generatedSuggestions = await withSpan("cee.verification.weight_generation", {}, () =>
+          generateWeightSuggestions({
+            graph: (typed as any).graph,
+            detections,
+            requestId: context.requestId ?? "unknown",
+            numericalGroundingScore,
+          }),
+        );
 
         if (generatedSuggestions.length > 0) {
           weightSuggestions = generatedSuggestions;
@@ -115,7 +130,7 @@ export class VerificationPipeline {
     }
 
     // Stage 5: comparison detection (graph quality enhancement)
-    const comparisonResult = await this.comparisonDetector.validate(typed as any, context);
+    const comparisonResult = await this.stage("comparison", () => this.comparisonDetector.validate(typed as any, context));
     results.push(comparisonResult);
     const comparisonSuggested: boolean | undefined = (comparisonResult as any).comparison_suggested;
 
@@ -154,6 +169,14 @@ export class VerificationPipeline {
     return { response: enriched as T, results };
   }
 
+  private stage<R extends VerificationResult>(name: string, run: () => Promise<R>): Promise<R> {
+    return withSpan(`cee.verification.${name}`, {}, async (span) => {
+      const result = await run();
+      span.setAttribute("cee.verification.valid", result.valid);
+      return result;
+    });
+  }
+
   private emitFailureTelemetry(
     errorCode: string,
     results: VerificationResult[],
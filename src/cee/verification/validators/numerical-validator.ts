@@ -130,7 +130,15 @@ export class NumericalValidator implements VerificationStage<unknown, unknown> {
       | Record<string, { p10?: number; p50?: number; p90?: number }>
       | undefined;
 
-    if (!summary) return false;
+    // Local-engine results carry per-option distributions
+    const outcomes = Array.isArray(results.outcomes) ? results.outcomes : [];
+    for (const outcome of outcomes) {
+      if ([outcome.p10, outcome.p50, outcome.p90].some((v) => Math.abs(v - value) < tolerance)) {
+        return true;
+      }
+    }
+
+    if (!summary || typeof summary !== "object") return false;
 
     for (const entry of Object.values(summary)) {
       const candidates = [entry.p10, entry.p50, entry.p90].filter(
@@ -68,9 +68,10 @@ const optionalUrl = z
 const Environment = z.enum(["development", "test", "production"]);
 
 /**
- * LLM Provider enum
+ * Built-in LLM providers. Other names are only accepted when plugin modules
+ * are configured (LLM_PROVIDER_MODULES), since they register at runtime.
  */
-const LLMProvider = z.enum(["anthropic", "openai", "fixtures"]);
+const BUILTIN_LLM_PROVIDERS = ["anthropic", "openai", "local", "fixtures"];
 
 /**
  * Log Level enum
@@ -120,11 +121,34 @@ const ConfigSchema = z.object({
     hmacMaxSkewMs: z.coerce.number().int().positive().default(300000), // 5 minutes
     islApiKey: z.string().optional(),
     shareSecret: z.string().optional(),
+    // Per-key scopes as JSON: {"<key_id>": {"scopes": ["draft:write", "elicit:*"], "tenant": "acme"}}
+    // Keys not listed keep full access ("*")
+    apiKeyScopes: z
+      .string()
+      .transform((val, ctx) => {
+        try {
+          return JSON.parse(val) as unknown;
+        } catch {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "ASSIST_API_KEY_SCOPES must be valid JSON" });
+          return z.NEVER;
+        }
+      })
+      .pipe(z.record(z.object({
+        scopes: z.array(z.string().min(1)),
+        tenant: z.string().min(1).optional(),
+      })))
+      .optional(),
+    // End-user JWTs (see utils/jwt.ts); enabled when a JWKS file is configured
+    jwksPath: z.string().optional(),
+    jwtIssuer: z.string().optional(),
+    jwtAudience: z.string().optional(),
+    jwtTenantClaim: z.string().min(1).default("tenant_id"),
+    jwtClockSkewSec: z.coerce.number().int().min(0).default(60),
   }),
 
   // LLM Configuration
   llm: z.object({
-    provider: LLMProvider.default("openai"), // matches DEFAULT_PROVIDER in router.ts
+    provider: z.string().min(1).default("openai"), // matches DEFAULT_PROVIDER in router.ts
     model: z.string().optional(),
     anthropicApiKey: z.string().optional(),
     openaiApiKey: z.string().optional(),
@@ -133,6 +157,51 @@ const ConfigSchema = z.object({
       .transform((val) => val.split(",").map((p) => p.trim()))
       .optional(),
     providersConfigPath: z.string().optional(),
+    // Provider plugin modules (see adapters/llm/registry.ts)
+    providerModules: z
+      .string()
+      .transform((val) => val.split(",").map((p) => p.trim()).filter(Boolean))
+      .optional(),
+    // Local / self-hosted provider (LLM_PROVIDER=local)
+    localBaseUrl: optionalUrl,
+    localApiStyle: z.enum(["openai", "ollama"]).default("openai"),
+    localModel: z.string().optional(),
+    localApiKey: z.string().optional(),
+    localTimeoutMs: z.coerce.number().int().positive().optional(),
+    localJsonMode: booleanString.default(true),
+    // Per-provider circuit breakers used by FailoverAdapter
+    circuitBreaker: z.object({
+      enabled: booleanString.default(true),
+      windowMs: z.coerce.number().int().positive().default(60000), // Rolling window for error/latency rates
+      minRequests: z.coerce.number().int().positive().default(5), // Samples needed before the breaker can trip
+      errorRateThreshold: z.coerce.number().min(0).max(1).default(0.5),
+      slowCallMs: z.coerce.number().int().positive().default(60000), // Calls slower than this count as slow
+      slowCallRateThreshold: z.coerce.number().min(0).max(1).default(0.8),
+      openMs: z.coerce.number().int().positive().default(30000), // Time open before a half-open probe
+      halfOpenMaxProbes: z.coerce.number().int().positive().default(1),
+    }),
+    // Hedged requests for latency-critical fast-tier tasks (see adapters/llm/hedging.ts)
+    hedging: z.object({
+      enabled: booleanString.default(false),
+      tasks: z
+        .string()
+        .transform((val) => val.split(",").map((t) => t.trim()).filter(Boolean))
+        .default("clarification,explainer,preflight"),
+      provider: z.string().optional(), // Secondary provider (defaults to the primary's provider)
+      model: z.string().optional(), // Secondary model (defaults to the provider's default)
+      percentile: z.coerce.number().gt(0).lt(1).default(0.95), // Primary latency percentile to wait for
+      initialDelayMs: z.coerce.number().int().positive().default(2000), // Deadline until enough samples exist
+      minDelayMs: z.coerce.number().int().nonnegative().default(250),
+      minSamples: z.coerce.number().int().positive().default(20),
+    }),
+  }).superRefine((llm, ctx) => {
+    if (!BUILTIN_LLM_PROVIDERS.includes(llm.provider) && !llm.providerModules?.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["provider"],
+        message: `Unknown LLM provider "${llm.provider}" (built-in: ${BUILTIN_LLM_PROVIDERS.join(", ")}; load others via LLM_PROVIDER_MODULES)`,
+      });
+    }
   }),
 
   // Feature Flags
@@ -146,6 +215,23 @@ const ConfigSchema = z.object({
     strictTopologyValidation: booleanString.default(false), // If true, promote topology warnings to errors
   }),
 
+  // Attachment preview budgets (see services/docProcessing.ts)
+  documents: z.object({
+    previewTokenBudget: z.coerce.number().int().positive().default(20000), // Shared across all attachments in a request
+    maxDocumentChars: z.coerce.number().int().positive().default(100000), // Per-file extraction limit before budgeting
+    maxTotalChars: z.coerce.number().int().positive().default(300000), // Aggregate extraction limit before budgeting
+  }),
+
+  // Chunked retrieval over attachments (see grounding/retrieval.ts)
+  retrieval: z.object({
+    enabled: booleanString.default(false), // Off: attachments are sent as budgeted previews
+    topK: z.coerce.number().int().positive().default(4), // Chunks per query (brief, each factor)
+    maxChunks: z.coerce.number().int().positive().default(12), // Cap across all queries
+    chunkChars: z.coerce.number().int().positive().default(1200),
+    maxDocumentChars: z.coerce.number().int().positive().default(200000), // Per-file limit when enabled
+    maxTotalChars: z.coerce.number().int().positive().default(500000), // Aggregate limit when enabled
+  }),
+
   // Prompt Cache Configuration
   promptCache: z.object({
     enabled: booleanString.default(false),
@@ -154,12 +240,75 @@ const ConfigSchema = z.object({
     anthropicEnabled: booleanString.default(true), // default to enabled for cache hints
   }),
 
+  // Semantic response cache (see adapters/llm/semantic-cache.ts)
+  semanticCache: z.object({
+    enabled: booleanString.default(false),
+    // Adapter operations served from the semantic cache
+    tasks: z
+      .string()
+      .transform((val) => val.split(",").map((t) => t.trim()).filter(Boolean))
+      .pipe(z.array(z.enum(["draft_graph", "clarify_brief", "suggest_options"])))
+      .default("draft_graph"),
+    threshold: z.coerce.number().gt(0).max(1).default(0.9), // Minimum similarity for a hit
+    maxEntries: z.coerce.number().int().positive().default(500),
+    ttlMs: z.coerce.number().int().positive().default(3600000), // 1 hour
+    // Per-tenant overrides as JSON: {"<key_id>": {"enabled": false, "threshold": 0.95, "tasks": ["draft_graph"]}}
+    tenantOverrides: z
+      .string()
+      .transform((val, ctx) => {
+        try {
+          return JSON.parse(val) as unknown;
+        } catch {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "SEMANTIC_CACHE_TENANT_OVERRIDES must be valid JSON" });
+          return z.NEVER;
+        }
+      })
+      .pipe(z.record(z.object({
+        enabled: z.boolean().optional(),
+        threshold: z.number().gt(0).max(1).optional(),
+        tasks: z.array(z.enum(["draft_graph", "clarify_brief", "suggest_options"])).optional(),
+      })))
+      .optional(),
+  }),
+
   // Rate Limiting
   rateLimits: z.object({
     defaultRpm: z.coerce.number().int().positive().default(120),
     sseRpm: z.coerce.number().int().positive().default(20),
   }),
 
+  // Per-key LLM spend budgets (see utils/budget.ts)
+  budgets: z.object({
+    enabled: booleanString.default(false),
+    dailyUsd: z.coerce.number().positive().optional(), // Default daily budget per key (unset = unlimited)
+    monthlyUsd: z.coerce.number().positive().optional(), // Default monthly budget per key (unset = unlimited)
+    softLimitRatio: z.coerce.number().gt(0).max(1).default(0.8), // Warn via response headers from here
+    downgradeRatio: z.coerce.number().gt(0).max(1).default(0.9), // Use fast-tier models from here
+    // Per-key overrides as JSON: {"<key_id>": {"dailyUsd": 5, "monthlyUsd": 100}}
+    keyOverrides: z
+      .string()
+      .transform((val, ctx) => {
+        try {
+          return JSON.parse(val) as unknown;
+        } catch {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "BUDGET_KEY_OVERRIDES must be valid JSON" });
+          return z.NEVER;
+        }
+      })
+      .pipe(z.record(z.object({
+        dailyUsd: z.number().positive().optional(),
+        monthlyUsd: z.number().positive().optional(),
+      })))
+      .optional(),
+  }),
+
+  // Managed API keys (see utils/api-key-store.ts)
+  apiKeys: z.object({
+    enabled: booleanString.default(false), // Accept keys issued via /admin/v1/api-keys
+    storePath: z.string().default("data/api-keys.json"), // Local store when Redis is unavailable
+    rotationOverlapHours: z.coerce.number().min(0).max(720).default(24), // Old secret validity after rotation
+  }),
+
   // Redis Configuration
   redis: z.object({
     url: z.string().optional(),
@@ -170,6 +319,7 @@ const ConfigSchema = z.object({
     quotaEnabled: booleanString.default(false),
     hmacNonceEnabled: booleanString.default(false),
     promptCacheEnabled: booleanString.default(false),
+    budgetEnabled: booleanString.default(false),
   }),
 
   // SSE Configuration
@@ -235,6 +385,10 @@ const ConfigSchema = z.object({
     enforceSingleGoal: booleanString.default(true), // If true, merge multiple goals into compound goal
     // Session cache (for /ask endpoint)
     sessionCacheTtlSeconds: z.coerce.number().int().positive().default(14400), // 4 hours default
+    // Decision memory (summarised turns evicted from the /ask session cache)
+    decisionMemoryEnabled: booleanString.default(true),
+    decisionMemoryTtlSeconds: z.coerce.number().int().positive().default(2592000), // 30 days default
+    decisionMemoryTokenBudget: z.coerce.number().int().min(0).default(300), // Memory tokens injected per ask request
     // Per-operation model selection for tiered cost optimization
     models: z.object({
       draft: z.string().optional(),
@@ -288,6 +442,13 @@ const ConfigSchema = z.object({
     maxRetries: z.string().optional(), // Validated by parseMaxRetries()
   }),
 
+  // In-process Monte Carlo engine (see cee/inference), used when a request
+  // carries no inference results of its own
+  localInference: z.object({
+    enabled: booleanString.default(false),
+    samples: z.coerce.number().int().min(100).max(20000).default(2000),
+  }),
+
   // Graph Limits
   graph: z.object({
     maxNodes: z.coerce.number().int().positive().default(100),
@@ -310,6 +471,15 @@ const ConfigSchema = z.object({
     metricsEnabled: booleanString.default(true),
     slowThresholdMs: z.coerce.number().int().positive().default(5000),
     p99ThresholdMs: z.coerce.number().int().positive().default(5000),
+    prometheusEnabled: booleanString.default(false), // Expose GET /metrics (see utils/prometheus.ts)
+  }),
+
+  // OpenTelemetry tracing (see utils/tracing.ts)
+  tracing: z.object({
+    enabled: booleanString.default(false),
+    serviceName: z.string().default("olumi-assistants-service"),
+    otlpEndpoint: optionalUrl, // Defaults to a local collector (http://localhost:4318)
+    sampleRatio: z.coerce.number().min(0).max(1).default(1),
   }),
 
   // PII Protection
@@ -320,6 +490,17 @@ const ConfigSchema = z.object({
   // Share Storage
   share: z.object({
     storageInMemory: booleanString.default(false),
+    maxTtlHours: z.coerce.number().int().positive().default(168), // 7 days
+    // Key IDs (paid tenants) allowed longer or non-expiring shares
+    extendedKeyIds: z
+      .string()
+      .transform((val) => val.split(",").map((k) => k.trim()).filter(Boolean))
+      .optional(),
+    extendedMaxTtlHours: z.coerce.number().int().positive().default(8760), // 365 days
+    maxVersions: z.coerce.number().int().min(1).max(100).default(20), // Versions retained per share
+    accessLogSize: z.coerce.number().int().min(0).max(1000).default(100), // Entries retained per share
+    passphraseMaxFailures: z.coerce.number().int().positive().default(10), // Wrong passphrases per window
+    passphraseLockoutSeconds: z.coerce.number().int().positive().default(900), // 15 minutes
   }),
 
   // Testing
@@ -344,6 +525,34 @@ const ConfigSchema = z.object({
     adminApiKey: z.string().optional(), // Admin API key for prompt management (full access)
     adminApiKeyRead: z.string().optional(), // Read-only admin API key
     adminAllowedIPs: z.string().optional(), // Comma-separated list of allowed IPs (empty = all allowed)
+    // Named admin identities as JSON (see utils/admin-auth.ts):
+    // [{"id": "alice@example.com", "key": "...", "roles": ["prompt-editor", "approver"]}]
+    adminIdentities: z
+      .string()
+      .transform((val, ctx) => {
+        try {
+          return JSON.parse(val) as unknown;
+        } catch {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "ADMIN_IDENTITIES must be valid JSON" });
+          return z.NEVER;
+        }
+      })
+      .pipe(z.array(z.object({
+        id: z.string().min(1).max(128),
+        key: z.string().min(16),
+        roles: z.array(z.enum(["viewer", "prompt-editor", "approver", "operator"])).min(1),
+      })))
+      .optional(),
+  }),
+
+  // LLM output store for /admin/v1/llm-output (see cee/llm-output-store.ts)
+  llmOutput: z.object({
+    storeType: z.enum(["memory", "file", "sqlite", "postgres"]).default("memory"), // Storage backend type
+    storePath: z.string().optional(), // File/SQLite path (defaults: data/llm-outputs.jsonl, data/llm-outputs.db)
+    postgresUrl: z.string().optional(), // PostgreSQL connection string (postgres store)
+    postgresSsl: booleanString.default(false), // Use SSL for PostgreSQL connection
+    retentionHours: z.coerce.number().positive().optional(), // Default: 1 (memory), 168 (durable stores)
+    maxEntries: z.coerce.number().int().positive().optional(), // Default: 1000 (memory), 10000 (file), 100000 (sqlite/postgres)
   }),
 });
 
@@ -373,6 +582,12 @@ function parseConfig(): Config {
       islApiKey: env.ISL_API_KEY,
       // CEE_SHARE_SECRET preferred; falls back to SHARE_SECRET
       shareSecret: env.CEE_SHARE_SECRET ?? env.SHARE_SECRET,
+      apiKeyScopes: env.ASSIST_API_KEY_SCOPES,
+      jwksPath: env.AUTH_JWKS_PATH,
+      jwtIssuer: env.AUTH_JWT_ISSUER,
+      jwtAudience: env.AUTH_JWT_AUDIENCE,
+      jwtTenantClaim: env.AUTH_JWT_TENANT_CLAIM,
+      jwtClockSkewSec: env.AUTH_JWT_CLOCK_SKEW_SEC,
     },
     llm: {
       provider: env.LLM_PROVIDER,
@@ -381,6 +596,33 @@ function parseConfig(): Config {
       openaiApiKey: env.OPENAI_API_KEY,
       failoverProviders: env.LLM_FAILOVER_PROVIDERS,
       providersConfigPath: env.PROVIDERS_CONFIG_PATH,
+      providerModules: env.LLM_PROVIDER_MODULES,
+      localBaseUrl: env.LOCAL_LLM_BASE_URL,
+      localApiStyle: env.LOCAL_LLM_API_STYLE,
+      localModel: env.LOCAL_LLM_MODEL,
+      localApiKey: env.LOCAL_LLM_API_KEY,
+      localTimeoutMs: env.LOCAL_LLM_TIMEOUT_MS,
+      localJsonMode: env.LOCAL_LLM_JSON_MODE,
+      circuitBreaker: {
+        enabled: env.LLM_CIRCUIT_BREAKER_ENABLED,
+        windowMs: env.LLM_CIRCUIT_WINDOW_MS,
+        minRequests: env.LLM_CIRCUIT_MIN_REQUESTS,
+        errorRateThreshold: env.LLM_CIRCUIT_ERROR_RATE_THRESHOLD,
+        slowCallMs: env.LLM_CIRCUIT_SLOW_CALL_MS,
+        slowCallRateThreshold: env.LLM_CIRCUIT_SLOW_CALL_RATE_THRESHOLD,
+        openMs: env.LLM_CIRCUIT_OPEN_MS,
+        halfOpenMaxProbes: env.LLM_CIRCUIT_HALF_OPEN_PROBES,
+      },
+      hedging: {
+        enabled: env.LLM_HEDGING_ENABLED,
+        tasks: env.LLM_HEDGE_TASKS,
+        provider: env.LLM_HEDGE_PROVIDER,
+        model: env.LLM_HEDGE_MODEL,
+        percentile: env.LLM_HEDGE_PERCENTILE,
+        initialDelayMs: env.LLM_HEDGE_INITIAL_DELAY_MS,
+        minDelayMs: env.LLM_HEDGE_MIN_DELAY_MS,
+        minSamples: env.LLM_HEDGE_MIN_SAMPLES,
+      },
     },
     features: {
       // CEE_GROUNDING_ENABLED preferred; falls back to GROUNDING_ENABLED
@@ -391,16 +633,50 @@ function parseConfig(): Config {
       shareReview: env.SHARE_REVIEW_ENABLED,
       enableLegacySSE: env.ENABLE_LEGACY_SSE,
     },
+    documents: {
+      previewTokenBudget: env.DOC_PREVIEW_TOKEN_BUDGET,
+      maxDocumentChars: env.DOC_MAX_DOCUMENT_CHARS,
+      maxTotalChars: env.DOC_MAX_TOTAL_CHARS,
+    },
+    retrieval: {
+      enabled: env.RETRIEVAL_ENABLED,
+      topK: env.RETRIEVAL_TOP_K,
+      maxChunks: env.RETRIEVAL_MAX_CHUNKS,
+      chunkChars: env.RETRIEVAL_CHUNK_CHARS,
+      maxDocumentChars: env.RETRIEVAL_MAX_DOCUMENT_CHARS,
+      maxTotalChars: env.RETRIEVAL_MAX_TOTAL_CHARS,
+    },
     promptCache: {
       enabled: env.PROMPT_CACHE_ENABLED,
       maxSize: env.PROMPT_CACHE_MAX_SIZE,
       ttlMs: env.PROMPT_CACHE_TTL_MS,
       anthropicEnabled: env.ANTHROPIC_PROMPT_CACHE_ENABLED,
     },
+    semanticCache: {
+      enabled: env.SEMANTIC_CACHE_ENABLED,
+      tasks: env.SEMANTIC_CACHE_TASKS,
+      threshold: env.SEMANTIC_CACHE_THRESHOLD,
+      maxEntries: env.SEMANTIC_CACHE_MAX_ENTRIES,
+      ttlMs: env.SEMANTIC_CACHE_TTL_MS,
+      tenantOverrides: env.SEMANTIC_CACHE_TENANT_OVERRIDES,
+    },
     rateLimits: {
       defaultRpm: env.RATE_LIMIT_RPM,
       sseRpm: env.SSE_RATE_LIMIT_RPM,
     },
+    budgets: {
+      enabled: env.BUDGETS_ENABLED,
+      dailyUsd: env.BUDGET_DAILY_USD,
+      monthlyUsd: env.BUDGET_MONTHLY_USD,
+      softLimitRatio: env.BUDGET_SOFT_LIMIT_RATIO,
+      downgradeRatio: env.BUDGET_DOWNGRADE_RATIO,
+      keyOverrides: env.BUDGET_KEY_OVERRIDES,
+    },
+    apiKeys: {
+      enabled: env.API_KEY_MANAGEMENT_ENABLED,
+      storePath: env.API_KEY_STORE_PATH,
+      rotationOverlapHours: env.API_KEY_ROTATION_OVERLAP_HOURS,
+    },
     redis: {
       url: env.REDIS_URL,
       tls: env.REDIS_TLS,
@@ -410,6 +686,7 @@ function parseConfig(): Config {
       quotaEnabled: env.REDIS_QUOTA_ENABLED,
       hmacNonceEnabled: env.REDIS_HMAC_NONCE_ENABLED,
       promptCacheEnabled: env.REDIS_PROMPT_CACHE_ENABLED,
+      budgetEnabled: env.REDIS_BUDGET_ENABLED,
     },
     sse: {
       resumeLiveEnabled: env.SSE_RESUME_LIVE_ENABLED,
@@ -469,6 +746,10 @@ function parseConfig(): Config {
       enforceSingleGoal: env.CEE_ENFORCE_SINGLE_GOAL,
       // Session cache TTL
       sessionCacheTtlSeconds: env.CEE_SESSION_CACHE_TTL_SECONDS,
+      // Decision memory
+      decisionMemoryEnabled: env.CEE_DECISION_MEMORY_ENABLED,
+      decisionMemoryTtlSeconds: env.CEE_DECISION_MEMORY_TTL_SECONDS,
+      decisionMemoryTokenBudget: env.CEE_DECISION_MEMORY_TOKEN_BUDGET,
       // Per-operation model selection
       models: {
         draft: env.CEE_MODEL_DRAFT,
@@ -515,6 +796,10 @@ function parseConfig(): Config {
       timeoutMs: env.ISL_TIMEOUT_MS,
       maxRetries: env.ISL_MAX_RETRIES,
     },
+    localInference: {
+      enabled: env.LOCAL_INFERENCE_ENABLED,
+      samples: env.LOCAL_INFERENCE_SAMPLES,
+    },
     graph: {
       maxNodes: env.GRAPH_MAX_NODES,
       maxEdges: env.GRAPH_MAX_EDGES,
@@ -532,12 +817,26 @@ function parseConfig(): Config {
       metricsEnabled: env.PERF_METRICS_ENABLED,
       slowThresholdMs: env.PERF_SLOW_THRESHOLD_MS,
       p99ThresholdMs: env.PERF_P99_THRESHOLD_MS,
+      prometheusEnabled: env.PROMETHEUS_ENABLE,
+    },
+    tracing: {
+      enabled: env.OTEL_TRACING_ENABLED,
+      serviceName: env.OTEL_SERVICE_NAME,
+      otlpEndpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT,
+      sampleRatio: env.OTEL_TRACES_SAMPLE_RATIO,
     },
     pii: {
       redactionMode: env.PII_REDACTION_MODE,
     },
     share: {
       storageInMemory: env.SHARE_STORAGE_INMEMORY,
+      maxTtlHours: env.SHARE_MAX_TTL_HOURS,
+      extendedKeyIds: env.SHARE_EXTENDED_KEY_IDS,
+      extendedMaxTtlHours: env.SHARE_EXTENDED_MAX_TTL_HOURS,
+      maxVersions: env.SHARE_MAX_VERSIONS,
+      accessLogSize: env.SHARE_ACCESS_LOG_SIZE,
+      passphraseMaxFailures: env.SHARE_PASSPHRASE_MAX_FAILURES,
+      passphraseLockoutSeconds: env.SHARE_PASSPHRASE_LOCKOUT_SECONDS,
     },
     testing: {
       isVitest: env.VITEST,
@@ -558,6 +857,15 @@ function parseConfig(): Config {
       adminApiKey: env.ADMIN_API_KEY,
       adminApiKeyRead: env.ADMIN_API_KEY_READ,
       adminAllowedIPs: env.ADMIN_ALLOWED_IPS,
+      adminIdentities: env.ADMIN_IDENTITIES,
+    },
+    llmOutput: {
+      storeType: env.LLM_OUTPUT_STORE_TYPE,
+      storePath: env.LLM_OUTPUT_STORE_PATH,
+      postgresUrl: env.LLM_OUTPUT_POSTGRES_URL,
+      postgresSsl: env.LLM_OUTPUT_POSTGRES_SSL,
+      retentionHours: env.LLM_OUTPUT_RETENTION_HOURS,
+      maxEntries: env.LLM_OUTPUT_MAX_ENTRIES,
     },
   };
 
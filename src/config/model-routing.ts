@@ -75,6 +75,23 @@ export function isValidCeeTask(task: string): task is CeeTask {
   return task in TASK_MODEL_DEFAULTS;
 }
 
+/**
+ * Adapter router task names (getAdapter) that differ from their CeeTask
+ */
+const ROUTER_TASK_ALIASES: Record<string, CeeTask> = {
+  clarify_brief: "clarification",
+  suggest_options: "options",
+  explain_diff: "explainer",
+};
+
+/**
+ * Map an adapter router task name (e.g. "clarify_brief") to its CeeTask
+ */
+export function toCeeTask(task: string): CeeTask | undefined {
+  if (isValidCeeTask(task)) return task;
+  return ROUTER_TASK_ALIASES[task];
+}
+
 /**
  * Tier shortcuts that users can specify in X-CEE-Model-Override header
  */
@@ -6,13 +6,14 @@
  * to make intelligent routing decisions.
  */
 
-export type ModelProvider = "openai" | "anthropic";
+/** Built-in providers, or any name registered via the LLM provider registry */
+export type ModelProvider = "openai" | "anthropic" | (string & {});
 export type ModelTier = "fast" | "quality" | "premium";
 
 export interface ModelConfig {
   /** Model identifier (e.g., "gpt-4o-mini") */
   id: string;
-  /** Provider (openai or anthropic) */
+  /** Provider name (openai, anthropic, or a registered plugin provider) */
   provider: ModelProvider;
   /** Tier classification for routing decisions */
   tier: ModelTier;
@@ -48,6 +49,9 @@ export interface ModelConfig {
  *
  * When adding new models, ensure costPer1kTokens reflects input token pricing
  * (output pricing is typically higher but we use input for cost estimation).
+ *
+ * Plugin providers add their own models at runtime through the model
+ * catalogue in their registry definition (see adapters/llm/registry.ts).
  */
 export const MODEL_REGISTRY: Record<string, ModelConfig> = {
   "gpt-4o-mini": {
@@ -17,11 +17,16 @@
  *
  * // Pass context to services
  * await myService.doSomething({ context: ctx });
+ *
+ * // Deep in a service (no request object available)
+ * const current = getCurrentCallerContext();
  * ```
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import type { FastifyRequest } from 'fastify';
 import { getRequestId } from '../utils/request-id.js';
+import type { SupportedDomain } from './types.js';
 
 /**
  * Custom error thrown when CallerContext is required but not available.
@@ -69,6 +74,21 @@ export interface CallerContext {
 
   /** User agent (for audit logging) */
   userAgent?: string;
+
+  /** Market-context domains requested via X-Olumi-Domain (primary first) */
+  domainOverride?: SupportedDomain[];
+
+  /** How the caller authenticated */
+  authMethod?: 'api_key' | 'hmac' | 'jwt';
+
+  /** End-user subject ("sub" claim) for JWT callers */
+  subject?: string;
+
+  /** Tenant from the JWT tenant claim or the key's ASSIST_API_KEY_SCOPES entry */
+  tenant?: string;
+
+  /** Granted scopes (see utils/scopes.ts); ["*"] for unrestricted keys */
+  scopes?: string[];
 }
 
 /**
@@ -113,6 +133,31 @@ export function getCallerContext(request: FastifyRequest): CallerContext | undef
   return (request as any)[CALLER_CONTEXT_KEY];
 }
 
+/**
+ * Async-local caller context for code without access to the request
+ * (e.g. LLM adapters). Opened by the auth plugin after authentication.
+ */
+const callerContextStorage = new AsyncLocalStorage<CallerContext>();
+
+/**
+ * Run a function with the caller context available to getCurrentCallerContext()
+ *
+ * @internal
+ */
+export function runWithCallerContext<T>(context: CallerContext, fn: () => T): T {
+  return callerContextStorage.run(context, fn);
+}
+
+/**
+ * Get the caller context of the request currently being handled
+ *
+ * Returns undefined outside an authenticated request (public routes,
+ * background work, tests).
+ */
+export function getCurrentCallerContext(): CallerContext | undefined {
+  return callerContextStorage.getStore();
+}
+
 /**
  * Get caller context or throw if not authenticated
  *
@@ -146,6 +191,7 @@ export function createTestContext(
     timestamp: new Date(now).toISOString(),
     timestampMs: now,
     hmacAuth: false,
+    scopes: ['*'],
     ...overrides,
   };
 }
@@ -17,6 +17,8 @@ export {
   type CallerTelemetry,
   CallerContextError,
   getCallerContext,
+  getCurrentCallerContext,
+  runWithCallerContext,
   requireCallerContext,
   attachCallerContext,
   createTestContext,
@@ -31,6 +33,10 @@ export {
   type MarketContext,
   type ResolvedContext,
   type SupportedDomain,
+  type DetectionKeyword,
+  type TypicalFactor,
+  type DomainPack,
+  type DomainScore,
   type HallucinationValidationResult,
   type ExtractionSource,
   type ExtractionProvenance,
@@ -39,19 +45,27 @@ export {
   GlossaryTermSchema,
   ConstraintPatternSchema,
   MarketContextSchema,
+  DomainPackSchema,
 } from './types.js';
 
+// Built-in domain packs
+export { DOMAIN_PACKS, getDomainPack, type PackDomain } from './packs/index.js';
+
 export {
   // Context loading
   loadContext,
   clearContextCache,
   // Domain detection
+  scoreDomains,
+  detectDomains,
   detectDomain,
+  parseDomainHeader,
   // Resolution
   resolveContext,
   // Prompt formatting
   formatGlossaryForPrompt,
   formatConstraintsForPrompt,
+  formatTypicalFactorsForPrompt,
   formatContextForPrompt,
   // Validation
   extractNumericValues,
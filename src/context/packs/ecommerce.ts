@@ -0,0 +1,52 @@
+/**
+ * E-commerce Domain Pack
+ */
+
+import type { DomainPack } from "../types.js";
+
+export const ecommercePack: DomainPack = {
+  version: "1.0.0",
+  domain: "ecommerce",
+  description: "Online retail and direct-to-consumer commerce",
+  glossary: [
+    { term: "Average Order Value", aliases: ["AOV"], definition: "Revenue divided by number of orders", typical_unit: "$" },
+    { term: "Gross Merchandise Value", aliases: ["GMV"], definition: "Total value of goods sold before returns, fees and discounts", typical_unit: "$" },
+    { term: "Cart Abandonment Rate", aliases: ["abandonment rate"], definition: "Share of carts created that do not reach a completed order", typical_unit: "%" },
+    { term: "Return Rate", aliases: ["returns rate"], definition: "Share of orders or units sent back by customers", typical_unit: "%" },
+    { term: "Stock Keeping Unit", aliases: ["SKU"], definition: "A distinct product variant tracked in inventory" },
+    { term: "Return on Ad Spend", aliases: ["ROAS"], definition: "Revenue attributed to advertising divided by ad spend", typical_unit: "x" },
+    { term: "Fulfilment Cost", aliases: ["fulfillment cost", "pick and pack"], definition: "Cost to store, pick, pack and ship an order", typical_unit: "$" },
+  ],
+  constraint_patterns: [
+    { pattern: "shipping cost cap", description: "Maximum shipping or fulfilment cost per order", operator: "max", examples: ["keep shipping under $5 per order"] },
+    { pattern: "minimum margin", description: "Lowest acceptable gross margin per order or SKU", operator: "min", examples: ["margin must stay above 35%"] },
+    { pattern: "delivery time", description: "Maximum promised delivery time", operator: "max", examples: ["deliver within 2 days"] },
+  ],
+  detection: {
+    keywords: [
+      { keyword: "e-commerce", weight: 2 },
+      { keyword: "ecommerce", weight: 2 },
+      { keyword: "online store", weight: 2 },
+      { keyword: "cart abandonment", weight: 2 },
+      { keyword: "average order value", weight: 2 },
+      { keyword: "aov", weight: 2 },
+      { keyword: "gmv", weight: 2 },
+      { keyword: "shopify", weight: 2 },
+      { keyword: "checkout", weight: 1 },
+      { keyword: "sku", weight: 1 },
+      { keyword: "skus", weight: 1 },
+      { keyword: "fulfilment", weight: 1 },
+      { keyword: "fulfillment", weight: 1 },
+      { keyword: "marketplace", weight: 1 },
+      { keyword: "returns", weight: 1 },
+    ],
+    threshold: 2,
+  },
+  typical_factors: [
+    { label: "Conversion Rate", unit: "%", description: "Share of sessions that end in an order" },
+    { label: "Average Order Value", unit: "$", description: "Revenue per order" },
+    { label: "Return Rate", unit: "%", description: "Share of orders returned" },
+    { label: "Customer Acquisition Cost", unit: "$", description: "Marketing spend per new customer" },
+    { label: "Fulfilment Cost", unit: "$", description: "Cost to ship one order" },
+  ],
+};
@@ -0,0 +1,52 @@
+/**
+ * Fintech Domain Pack
+ */
+
+import type { DomainPack } from "../types.js";
+
+export const fintechPack: DomainPack = {
+  version: "1.0.0",
+  domain: "fintech",
+  description: "Payments, lending and financial services technology",
+  glossary: [
+    { term: "Total Payment Volume", aliases: ["TPV"], definition: "Value of payments processed in a period", typical_unit: "$" },
+    { term: "Take Rate", aliases: ["take-rate"], definition: "Revenue as a share of volume processed", typical_unit: "%" },
+    { term: "Interchange Fee", aliases: ["interchange"], definition: "Fee paid by the acquirer to the card issuer per transaction", typical_unit: "%" },
+    { term: "Default Rate", aliases: ["credit losses", "charge-off rate"], definition: "Share of loans or balance that defaults", typical_unit: "%" },
+    { term: "Chargeback Rate", aliases: ["chargebacks"], definition: "Share of transactions disputed and reversed", typical_unit: "%" },
+    { term: "Know Your Customer", aliases: ["KYC"], definition: "Identity verification required before onboarding customers" },
+    { term: "Anti-Money Laundering", aliases: ["AML"], definition: "Controls to detect and report illicit funds" },
+  ],
+  constraint_patterns: [
+    { pattern: "capital requirement", description: "Minimum regulatory capital or reserves", operator: "min", examples: ["maintain a capital ratio above 10%"] },
+    { pattern: "fraud loss limit", description: "Maximum acceptable fraud or chargeback losses", operator: "max", examples: ["fraud losses below 0.1% of volume"] },
+    { pattern: "regulatory approval", description: "Licences or approvals required before launch", operator: "min", examples: ["needs an e-money licence"] },
+  ],
+  detection: {
+    keywords: [
+      { keyword: "fintech", weight: 2 },
+      { keyword: "payments", weight: 2 },
+      { keyword: "interchange", weight: 2 },
+      { keyword: "tpv", weight: 2 },
+      { keyword: "take rate", weight: 2 },
+      { keyword: "lending", weight: 2 },
+      { keyword: "kyc", weight: 2 },
+      { keyword: "aml", weight: 2 },
+      { keyword: "default rate", weight: 2 },
+      { keyword: "chargeback", weight: 1 },
+      { keyword: "fraud", weight: 1 },
+      { keyword: "credit risk", weight: 1 },
+      { keyword: "bank", weight: 1 },
+      { keyword: "wallet", weight: 1 },
+      { keyword: "loan", weight: 1 },
+    ],
+    threshold: 2,
+  },
+  typical_factors: [
+    { label: "Total Payment Volume", unit: "$", description: "Value processed per period" },
+    { label: "Take Rate", unit: "%", description: "Revenue per unit of volume" },
+    { label: "Default Rate", unit: "%", description: "Loan or credit losses" },
+    { label: "Fraud Loss Rate", unit: "%", description: "Fraud and chargeback losses relative to volume" },
+    { label: "Compliance Cost", unit: "$", description: "Cost of KYC, AML and regulatory reporting" },
+  ],
+};
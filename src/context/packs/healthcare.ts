@@ -0,0 +1,49 @@
+/**
+ * Healthcare Domain Pack
+ */
+
+import type { DomainPack } from "../types.js";
+
+export const healthcarePack: DomainPack = {
+  version: "1.0.0",
+  domain: "healthcare",
+  description: "Providers, payers and health services",
+  glossary: [
+    { term: "Readmission Rate", aliases: ["readmissions"], definition: "Share of discharged patients readmitted within a set window (often 30 days)", typical_unit: "%" },
+    { term: "Average Length of Stay", aliases: ["ALOS", "length of stay"], definition: "Mean number of days an inpatient stays per admission", typical_unit: "days" },
+    { term: "Bed Occupancy", aliases: ["occupancy rate"], definition: "Share of available beds in use", typical_unit: "%" },
+    { term: "Electronic Health Record", aliases: ["EHR", "EMR"], definition: "Digital record of a patient's clinical history" },
+    { term: "Reimbursement Rate", aliases: ["reimbursement"], definition: "Amount paid by a payer for a service relative to the charge", typical_unit: "%" },
+    { term: "Patient Throughput", aliases: ["throughput"], definition: "Patients treated per unit of time", typical_unit: "patients/day" },
+  ],
+  constraint_patterns: [
+    { pattern: "regulatory compliance", description: "Requirements that must be met (HIPAA, FDA, CQC and similar)", operator: "min", examples: ["must remain HIPAA compliant"] },
+    { pattern: "waiting time", description: "Maximum acceptable patient waiting time", operator: "max", examples: ["wait times under 4 hours"] },
+    { pattern: "staffing ratio", description: "Minimum staff-to-patient ratio", operator: "min", examples: ["at least 1 nurse per 4 patients"] },
+  ],
+  detection: {
+    keywords: [
+      { keyword: "patient", weight: 2 },
+      { keyword: "hospital", weight: 2 },
+      { keyword: "clinical", weight: 2 },
+      { keyword: "readmission", weight: 2 },
+      { keyword: "hipaa", weight: 2 },
+      { keyword: "ehr", weight: 2 },
+      { keyword: "clinic", weight: 1 },
+      { keyword: "payer", weight: 1 },
+      { keyword: "reimbursement", weight: 1 },
+      { keyword: "fda", weight: 1 },
+      { keyword: "nurses", weight: 1 },
+      { keyword: "physician", weight: 1 },
+      { keyword: "care pathway", weight: 1 },
+    ],
+    threshold: 2,
+  },
+  typical_factors: [
+    { label: "Readmission Rate", unit: "%", description: "30-day readmissions after discharge" },
+    { label: "Average Length of Stay", unit: "days", description: "Inpatient days per admission" },
+    { label: "Staffing Cost", unit: "$", description: "Clinical and support staff cost" },
+    { label: "Patient Satisfaction", unit: "score", description: "Survey-based patient experience score" },
+    { label: "Reimbursement Rate", unit: "%", description: "Payer reimbursement relative to charges" },
+  ],
+};
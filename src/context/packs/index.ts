@@ -0,0 +1,34 @@
+/**
+ * Built-in Domain Packs
+ *
+ * One pack per non-core supported domain. Packs are validated against
+ * DomainPackSchema at load so a malformed pack fails fast at startup.
+ */
+
+import { DomainPackSchema, type DomainPack, type SupportedDomain } from "../types.js";
+import { saasPack } from "./saas.js";
+import { ecommercePack } from "./ecommerce.js";
+import { healthcarePack } from "./healthcare.js";
+import { manufacturingPack } from "./manufacturing.js";
+import { fintechPack } from "./fintech.js";
+import { publicSectorPack } from "./public-sector.js";
+
+export type PackDomain = Exclude<SupportedDomain, "core">;
+
+export const DOMAIN_PACKS: Readonly<Record<PackDomain, DomainPack>> = Object.freeze({
+  saas: DomainPackSchema.parse(saasPack),
+  ecommerce: DomainPackSchema.parse(ecommercePack),
+  healthcare: DomainPackSchema.parse(healthcarePack),
+  manufacturing: DomainPackSchema.parse(manufacturingPack),
+  fintech: DomainPackSchema.parse(fintechPack),
+  public_sector: DomainPackSchema.parse(publicSectorPack),
+});
+
+/**
+ * Built-in pack for a domain (undefined for "core" or unknown domains)
+ */
+export function getDomainPack(domain: string): DomainPack | undefined {
+  return Object.prototype.hasOwnProperty.call(DOMAIN_PACKS, domain)
+    ? DOMAIN_PACKS[domain as PackDomain]
+    : undefined;
+}
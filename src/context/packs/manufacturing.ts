@@ -0,0 +1,51 @@
+/**
+ * Manufacturing Domain Pack
+ */
+
+import type { DomainPack } from "../types.js";
+
+export const manufacturingPack: DomainPack = {
+  version: "1.0.0",
+  domain: "manufacturing",
+  description: "Discrete and process manufacturing operations",
+  glossary: [
+    { term: "Overall Equipment Effectiveness", aliases: ["OEE"], definition: "Availability × performance × quality of a production asset", typical_unit: "%" },
+    { term: "Yield", aliases: ["first pass yield", "FPY"], definition: "Share of units produced to spec without rework", typical_unit: "%" },
+    { term: "Scrap Rate", aliases: ["scrap"], definition: "Share of material or units discarded", typical_unit: "%" },
+    { term: "Cycle Time", aliases: ["takt time"], definition: "Time to complete one unit at a step or line", typical_unit: "seconds" },
+    { term: "Unplanned Downtime", aliases: ["downtime"], definition: "Production time lost to unplanned stoppages", typical_unit: "hours" },
+    { term: "Bill of Materials", aliases: ["BOM"], definition: "Components and quantities needed to build a product" },
+    { term: "Supplier Lead Time", aliases: ["lead time"], definition: "Time from order to receipt of supplied parts", typical_unit: "days" },
+  ],
+  constraint_patterns: [
+    { pattern: "capacity limit", description: "Maximum production capacity of a line or plant", operator: "max", examples: ["the line tops out at 10,000 units a week"] },
+    { pattern: "capex budget", description: "Maximum capital expenditure available", operator: "max", examples: ["capex capped at $2M"] },
+    { pattern: "quality threshold", description: "Minimum acceptable yield or quality level", operator: "min", examples: ["yield must stay above 98%"] },
+  ],
+  detection: {
+    keywords: [
+      { keyword: "manufacturing", weight: 2 },
+      { keyword: "factory", weight: 2 },
+      { keyword: "production line", weight: 2 },
+      { keyword: "oee", weight: 2 },
+      { keyword: "scrap rate", weight: 2 },
+      { keyword: "bill of materials", weight: 2 },
+      { keyword: "plant", weight: 1 },
+      { keyword: "yield", weight: 1 },
+      { keyword: "downtime", weight: 1 },
+      { keyword: "throughput", weight: 1 },
+      { keyword: "assembly", weight: 1 },
+      { keyword: "tooling", weight: 1 },
+      { keyword: "supplier", weight: 1 },
+      { keyword: "warranty", weight: 1 },
+    ],
+    threshold: 2,
+  },
+  typical_factors: [
+    { label: "Overall Equipment Effectiveness", unit: "%", description: "OEE of the constrained asset" },
+    { label: "Unit Cost", unit: "$", description: "Fully loaded cost per unit produced" },
+    { label: "Yield", unit: "%", description: "First pass yield" },
+    { label: "Capacity", unit: "units/week", description: "Maximum weekly output" },
+    { label: "Supplier Lead Time", unit: "days", description: "Lead time for critical components" },
+  ],
+};
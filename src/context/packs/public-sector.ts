@@ -0,0 +1,47 @@
+/**
+ * Public Sector Domain Pack
+ */
+
+import type { DomainPack } from "../types.js";
+
+export const publicSectorPack: DomainPack = {
+  version: "1.0.0",
+  domain: "public_sector",
+  description: "Government, local authorities and publicly funded services",
+  glossary: [
+    { term: "Cost per Citizen Served", aliases: ["unit cost of service"], definition: "Total service cost divided by citizens served", typical_unit: "$" },
+    { term: "Service Uptake", aliases: ["take-up rate", "uptake"], definition: "Share of eligible citizens who use a service", typical_unit: "%" },
+    { term: "Value for Money", aliases: ["VfM"], definition: "Economy, efficiency and effectiveness of public spending" },
+    { term: "Procurement Lead Time", aliases: ["tender timeline"], definition: "Time from tender launch to contract award", typical_unit: "months" },
+    { term: "Digital Take-up", aliases: ["channel shift"], definition: "Share of transactions completed through digital channels", typical_unit: "%" },
+  ],
+  constraint_patterns: [
+    { pattern: "budget allocation", description: "Maximum spend within an approved budget or grant", operator: "max", examples: ["within the £3M allocation"] },
+    { pattern: "statutory duty", description: "Service levels required by law", operator: "min", examples: ["must meet statutory response times"] },
+    { pattern: "procurement rules", description: "Thresholds and processes required for purchasing", operator: "min", examples: ["contracts over £200k need an open tender"] },
+  ],
+  detection: {
+    keywords: [
+      { keyword: "public sector", weight: 2 },
+      { keyword: "government", weight: 2 },
+      { keyword: "council", weight: 2 },
+      { keyword: "municipal", weight: 2 },
+      { keyword: "ministry", weight: 2 },
+      { keyword: "taxpayer", weight: 2 },
+      { keyword: "citizens", weight: 1 },
+      { keyword: "procurement", weight: 1 },
+      { keyword: "tender", weight: 1 },
+      { keyword: "public service", weight: 1 },
+      { keyword: "grant funding", weight: 1 },
+      { keyword: "statutory", weight: 1 },
+    ],
+    threshold: 2,
+  },
+  typical_factors: [
+    { label: "Service Cost", unit: "$", description: "Annual cost of delivering the service" },
+    { label: "Citizen Satisfaction", unit: "score", description: "Resident or user satisfaction" },
+    { label: "Service Uptake", unit: "%", description: "Eligible users reached" },
+    { label: "Delivery Timeline", unit: "months", description: "Time to implement within procurement rules" },
+    { label: "Political Risk", description: "Exposure to policy or leadership change" },
+  ],
+};
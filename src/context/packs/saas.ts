@@ -0,0 +1,31 @@
+/**
+ * SaaS Domain Pack
+ *
+ * Detection reuses the original strong/weak SaaS keyword lists. The SaaS
+ * glossary and constraint patterns ship in data/context/saas.json.
+ */
+
+import type { DomainPack } from "../types.js";
+import { SAAS_DETECTION_THRESHOLD, STRONG_SAAS_KEYWORDS, WEAK_SAAS_KEYWORDS } from "../types.js";
+
+export const saasPack: DomainPack = {
+  version: "1.0.0",
+  domain: "saas",
+  description: "Subscription software businesses",
+  glossary: [],
+  constraint_patterns: [],
+  detection: {
+    keywords: [
+      ...STRONG_SAAS_KEYWORDS.map((keyword) => ({ keyword, weight: 2 })),
+      ...WEAK_SAAS_KEYWORDS.map((keyword) => ({ keyword, weight: 1 })),
+    ],
+    threshold: SAAS_DETECTION_THRESHOLD,
+  },
+  typical_factors: [
+    { label: "Monthly Recurring Revenue", unit: "$", description: "Normalised monthly subscription revenue" },
+    { label: "Churn Rate", unit: "%", description: "Share of customers or revenue lost per period" },
+    { label: "Customer Acquisition Cost", unit: "$", description: "Sales and marketing spend per new customer" },
+    { label: "Net Revenue Retention", unit: "%", description: "Revenue kept from existing customers including expansion" },
+    { label: "Trial Conversion Rate", unit: "%", description: "Share of trials that become paying customers" },
+  ],
+};
@@ -14,13 +14,14 @@ import {
   ResolvedContext,
   GlossaryTerm,
   ConstraintPattern,
+  TypicalFactor,
+  DomainScore,
   SupportedDomain,
   SUPPORTED_DOMAINS,
-  STRONG_SAAS_KEYWORDS,
-  WEAK_SAAS_KEYWORDS,
-  SAAS_DETECTION_THRESHOLD,
   HallucinationValidationResult,
 } from "./types.js";
+import { DOMAIN_PACKS, getDomainPack, type PackDomain } from "./packs/index.js";
+import { getCurrentCallerContext } from "./caller.js";
 import { log } from "../utils/telemetry.js";
 
 // ============================================================================
@@ -124,56 +125,103 @@ function keywordMatches(text: string, keyword: string): boolean {
 }
 
 /**
- * Auto-detect domain from brief text using weighted keyword matching.
- *
- * Uses a two-tier scoring system:
- * - Strong keywords (e.g., "SaaS", "MRR", "ARR") = 2 points each
- * - Weak keywords (e.g., "subscription", "churn") = 1 point each
+ * A runner-up domain is merged only when its score is at least this share
+ * of the top domain's score (e.g. a fintech brief that mentions "churn rate"
+ * stays fintech; a healthcare brief about a patient subscription app gets
+ * healthcare + saas).
+ */
+const SECONDARY_DOMAIN_MIN_RATIO = 0.5;
+
+/** At most this many domains are merged into one context */
+const MAX_MERGED_DOMAINS = 2;
+
+/**
+ * Score a brief against every domain pack's weighted keywords.
  *
  * Short keywords (≤5 characters) use word boundary matching to avoid
  * false positives (e.g., "arr" matching within "warranty").
  *
- * Requires minimum threshold score to avoid false positives on generic briefs.
- * Returns null if no domain reaches the threshold.
+ * @returns Domains that reach their pack's threshold, best first
  */
-export function detectDomain(brief: string): SupportedDomain | null {
-  let saasScore = 0;
-  const matchedKeywords: string[] = [];
-
-  // Check strong SaaS keywords (weight: 2)
-  for (const keyword of STRONG_SAAS_KEYWORDS) {
-    if (keywordMatches(brief, keyword)) {
-      saasScore += 2;
-      matchedKeywords.push(`${keyword} (strong)`);
+export function scoreDomains(brief: string): DomainScore[] {
+  const scores: DomainScore[] = [];
+
+  for (const [domain, pack] of Object.entries(DOMAIN_PACKS) as Array<[PackDomain, (typeof DOMAIN_PACKS)[PackDomain]]>) {
+    let score = 0;
+    const matchedKeywords: string[] = [];
+
+    for (const { keyword, weight } of pack.detection.keywords) {
+      if (keywordMatches(brief, keyword)) {
+        score += weight;
+        matchedKeywords.push(keyword);
+      }
     }
-  }
 
-  // Check weak SaaS keywords (weight: 1)
-  for (const keyword of WEAK_SAAS_KEYWORDS) {
-    if (keywordMatches(brief, keyword)) {
-      saasScore += 1;
-      matchedKeywords.push(`${keyword} (weak)`);
+    if (score >= pack.detection.threshold) {
+      scores.push({ domain, score, matchedKeywords });
+    } else if (matchedKeywords.length > 0) {
+      log.debug(
+        { domain, score, threshold: pack.detection.threshold, matchedKeywords },
+        "Domain keywords found but below threshold"
+      );
     }
   }
 
-  // Only detect SaaS if we meet the threshold
-  if (saasScore >= SAAS_DETECTION_THRESHOLD) {
-    log.debug(
-      { domain: "saas", score: saasScore, matchedKeywords },
-      "Auto-detected SaaS domain from brief"
-    );
-    return "saas";
-  }
+  // Stable sort: ties keep pack order
+  return scores.sort((a, b) => b.score - a.score);
+}
 
-  // No domain detected - will use core context only
-  if (matchedKeywords.length > 0) {
-    log.debug(
-      { score: saasScore, threshold: SAAS_DETECTION_THRESHOLD, matchedKeywords },
-      "SaaS keywords found but below threshold - using core only"
-    );
+/**
+ * Auto-detect the domains of a brief.
+ *
+ * Returns the top-scoring domain, plus the runner-up when it scores at least
+ * half as high, so briefs that straddle two markets get both contexts.
+ * Returns an empty array if no domain reaches its threshold.
+ */
+export function detectDomains(brief: string, max: number = MAX_MERGED_DOMAINS): SupportedDomain[] {
+  const scores = scoreDomains(brief);
+  if (scores.length === 0) return [];
+
+  const top = scores[0];
+  const detected = scores
+    .filter((s, i) => i === 0 || s.score >= top.score * SECONDARY_DOMAIN_MIN_RATIO)
+    .slice(0, Math.max(1, max));
+
+  log.debug(
+    { domains: detected.map((s) => s.domain), scores: detected.map((s) => s.score) },
+    "Auto-detected domains from brief"
+  );
+
+  return detected.map((s) => s.domain);
+}
+
+/**
+ * Auto-detect the primary domain from brief text.
+ * Returns null if no domain reaches its threshold.
+ */
+export function detectDomain(brief: string): SupportedDomain | null {
+  return detectDomains(brief, 1)[0] ?? null;
+}
+
+/**
+ * Parse an X-Olumi-Domain header value ("fintech" or "healthcare, saas").
+ *
+ * Unknown domains are ignored; hyphens are accepted for underscores
+ * ("public-sector"). Returns undefined when nothing usable remains.
+ */
+export function parseDomainHeader(value: string | string[] | undefined): SupportedDomain[] | undefined {
+  if (value === undefined) return undefined;
+
+  const raw = Array.isArray(value) ? value.join(",") : value;
+  const domains: SupportedDomain[] = [];
+  for (const part of raw.split(",")) {
+    const candidate = part.trim().toLowerCase().replace(/-/g, "_");
+    if ((SUPPORTED_DOMAINS as readonly string[]).includes(candidate) && !domains.includes(candidate as SupportedDomain)) {
+      domains.push(candidate as SupportedDomain);
+    }
   }
 
-  return null;
+  return domains.length > 0 ? domains.slice(0, MAX_MERGED_DOMAINS) : undefined;
 }
 
 // ============================================================================
@@ -183,17 +231,22 @@ export function detectDomain(brief: string): SupportedDomain | null {
 /**
  * Resolve market context for a brief.
  *
+ * Domain precedence: the explicit argument, then the caller's X-Olumi-Domain
+ * header, then auto-detection. "core" means no domain-specific context.
+ * When two domains apply, the primary's entries win on conflicts.
+ *
  * @param brief - The decision brief text
- * @param domain - Optional domain override (auto-detected if not specified)
+ * @param domain - Optional domain override, or primary + secondary domains
  * @returns Merged context ready for prompt injection
  */
 export function resolveContext(
   brief: string,
-  domain?: SupportedDomain
+  domain?: SupportedDomain | SupportedDomain[]
 ): ResolvedContext {
   const sources: string[] = [];
   const allGlossary: GlossaryTerm[] = [];
   const allConstraints: ConstraintPattern[] = [];
+  const typicalFactors: TypicalFactor[] = [];
 
   // Always load core context
   const coreContext = loadContext("core");
@@ -203,19 +256,31 @@ export function resolveContext(
     allConstraints.push(...coreContext.constraint_patterns);
   }
 
-  // Detect or use provided domain
-  const resolvedDomain = domain || detectDomain(brief);
+  // Explicit domain, then caller override, then detection
+  const requested = domain ?? getCurrentCallerContext()?.domainOverride;
+  const resolvedDomains = (
+    requested === undefined ? detectDomains(brief) : Array.isArray(requested) ? requested : [requested]
+  ).filter((d) => d !== "core");
 
-  // Load domain-specific context if different from core
-  if (resolvedDomain && resolvedDomain !== "core") {
+  // Merge secondary before primary so the primary domain takes precedence
+  for (const resolvedDomain of [...resolvedDomains].reverse()) {
+    const pack = getDomainPack(resolvedDomain);
     const domainContext = loadContext(resolvedDomain);
-    if (domainContext) {
-      sources.push(resolvedDomain);
-      allGlossary.push(...domainContext.glossary);
-      allConstraints.push(...domainContext.constraint_patterns);
+    if (!pack && !domainContext) continue;
+
+    sources.push(resolvedDomain);
+    for (const context of [pack, domainContext]) {
+      if (!context) continue;
+      allGlossary.push(...context.glossary);
+      allConstraints.push(...context.constraint_patterns);
     }
   }
 
+  // Typical factors in domain order (primary first)
+  for (const resolvedDomain of resolvedDomains) {
+    typicalFactors.push(...(getDomainPack(resolvedDomain)?.typical_factors ?? []));
+  }
+
   // Deduplicate glossary by term (domain-specific takes precedence)
   const glossaryMap = new Map<string, GlossaryTerm>();
   for (const term of allGlossary) {
@@ -230,16 +295,27 @@ export function resolveContext(
     constraintMap.set(key, constraint);
   }
 
+  // Deduplicate typical factors by label (first domain wins)
+  const factorMap = new Map<string, TypicalFactor>();
+  for (const factor of typicalFactors) {
+    const key = factor.label.toLowerCase();
+    if (!factorMap.has(key)) factorMap.set(key, factor);
+  }
+
   const result: ResolvedContext = {
-    domain: resolvedDomain || "core",
+    domain: resolvedDomains[0] || "core",
+    domains: resolvedDomains,
     glossary: Array.from(glossaryMap.values()),
     constraintPatterns: Array.from(constraintMap.values()),
+    typicalFactors: Array.from(factorMap.values()),
     sources,
   };
 
   log.info(
     {
       domain: result.domain,
+      domains: result.domains,
+      domain_source: domain !== undefined ? "argument" : requested !== undefined ? "header" : "detected",
       glossaryCount: result.glossary.length,
       constraintCount: result.constraintPatterns.length,
       sources: result.sources,
@@ -302,9 +378,30 @@ export function formatConstraintsForPrompt(
   return lines.join("\n");
 }
 
+/**
+ * Format typical domain factors for prompt injection.
+ * Returns a markdown-formatted factor section.
+ */
+export function formatTypicalFactorsForPrompt(factors: TypicalFactor[]): string {
+  if (factors.length === 0) {
+    return "";
+  }
+
+  const lines = ["## Typical Factors", ""];
+  lines.push("Decisions in this market usually involve:");
+  lines.push("");
+
+  for (const factor of factors) {
+    const unit = factor.unit ? ` [${factor.unit}]` : "";
+    lines.push(`- **${factor.label}**${unit}: ${factor.description}`);
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Format full context for prompt injection.
- * Combines glossary and constraints into a single section.
+ * Combines glossary, constraints and typical factors into a single section.
  */
 export function formatContextForPrompt(context: ResolvedContext): string {
   const sections: string[] = [];
@@ -319,11 +416,17 @@ export function formatContextForPrompt(context: ResolvedContext): string {
     sections.push(constraints);
   }
 
+  const factors = formatTypicalFactorsForPrompt(context.typicalFactors ?? []);
+  if (factors) {
+    sections.push(factors);
+  }
+
   if (sections.length === 0) {
     return "";
   }
 
-  return `# Market Context (${context.domain})\n\n${sections.join("\n\n")}`;
+  const heading = context.domains?.length ? context.domains.join(" + ") : context.domain;
+  return `# Market Context (${heading})\n\n${sections.join("\n\n")}`;
 }
 
 // ============================================================================
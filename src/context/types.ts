@@ -33,6 +33,30 @@ export const MarketContextSchema = z.object({
   constraint_patterns: z.array(ConstraintPatternSchema),
 });
 
+export const DetectionKeywordSchema = z.object({
+  keyword: z.string().min(1),
+  weight: z.number().positive(),
+});
+
+export const TypicalFactorSchema = z.object({
+  label: z.string().min(1),
+  unit: z.string().optional(),
+  description: z.string().min(1),
+});
+
+/**
+ * Domain pack: a market context plus what is needed to detect the domain
+ * from a brief and the factors decisions in that domain usually involve.
+ */
+export const DomainPackSchema = MarketContextSchema.extend({
+  detection: z.object({
+    keywords: z.array(DetectionKeywordSchema).min(1),
+    /** Minimum summed keyword weight for the domain to be detected */
+    threshold: z.number().positive(),
+  }),
+  typical_factors: z.array(TypicalFactorSchema),
+});
+
 // ============================================================================
 // TypeScript types (inferred from Zod)
 // ============================================================================
@@ -40,6 +64,9 @@ export const MarketContextSchema = z.object({
 export type GlossaryTerm = z.infer<typeof GlossaryTermSchema>;
 export type ConstraintPattern = z.infer<typeof ConstraintPatternSchema>;
 export type MarketContext = z.infer<typeof MarketContextSchema>;
+export type DetectionKeyword = z.infer<typeof DetectionKeywordSchema>;
+export type TypicalFactor = z.infer<typeof TypicalFactorSchema>;
+export type DomainPack = z.infer<typeof DomainPackSchema>;
 
 // ============================================================================
 // Resolved Context (merged and ready for prompt injection)
@@ -50,15 +77,21 @@ export type MarketContext = z.infer<typeof MarketContextSchema>;
  * Ready for injection into LLM prompts.
  */
 export interface ResolvedContext {
-  /** Detected or specified domain */
+  /** Detected or specified primary domain ("core" if none) */
   domain: string;
 
+  /** All merged domains, primary first (empty if core only) */
+  domains: string[];
+
   /** Merged glossary terms from all applicable contexts */
   glossary: GlossaryTerm[];
 
   /** Merged constraint patterns from all applicable contexts */
   constraintPatterns: ConstraintPattern[];
 
+  /** Typical factors from the merged domain packs */
+  typicalFactors: TypicalFactor[];
+
   /** Source contexts that were merged */
   sources: string[];
 }
@@ -69,11 +102,30 @@ export interface ResolvedContext {
 
 /**
  * Supported market context domains.
- * Each domain has a corresponding JSON file in data/context/
+ * Each non-core domain has a built-in pack in context/packs/; a JSON file in
+ * data/context/ with the same name adds to (and overrides) the pack's
+ * glossary and constraint patterns.
  */
-export const SUPPORTED_DOMAINS = ["core", "saas"] as const;
+export const SUPPORTED_DOMAINS = [
+  "core",
+  "saas",
+  "ecommerce",
+  "healthcare",
+  "manufacturing",
+  "fintech",
+  "public_sector",
+] as const;
 export type SupportedDomain = (typeof SUPPORTED_DOMAINS)[number];
 
+/**
+ * Domain with its detection score for a brief
+ */
+export interface DomainScore {
+  domain: Exclude<SupportedDomain, "core">;
+  score: number;
+  matchedKeywords: string[];
+}
+
 /**
  * Strong SaaS keywords that are specific signals.
  * These strongly indicate SaaS domain (weight: 2).
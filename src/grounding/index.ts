@@ -1,13 +1,14 @@
 /**
  * Document Grounding Module (v04)
  *
- * Text-only extraction for PDF/TXT/MD/CSV with strict character limits,
+ * Text-only extraction for PDF/TXT/MD/CSV/DOCX/XLSX/PPTX with strict character limits,
  * citation validation, and privacy guarantees (no content logging).
  */
 
-import pdfParse from "pdf-parse";
 import Papa from "papaparse";
 import { log } from "../utils/telemetry.js";
+import { extractPdfPages, type DocPreview } from "../services/docProcessing.js";
+import { parseDocx, parsePptx, parseXlsx, type OfficeKind } from "../services/officeDocs.js";
 
 const DEFAULT_CHAR_LIMIT = 5000;
 
@@ -39,7 +40,7 @@ export type CsvSummary = {
  */
 export async function extractTextFromPdf(buffer: Buffer, maxChars: number = DEFAULT_CHAR_LIMIT): Promise<string> {
   try {
-    const data = await pdfParse(buffer);
+    const data = await extractPdfPages(buffer);
 
     // Check for encryption
     if (data.info?.IsAcroFormPresent || data.info?.Encrypted === 'yes') {
@@ -47,16 +48,9 @@ export async function extractTextFromPdf(buffer: Buffer, maxChars: number = DEFA
       throw new Error("encrypted_pdf_not_supported");
     }
 
-    let text = data.text || "";
-
-    // Normalize whitespace and line endings
-    text = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-
-    // Add page markers for location tracking
-    // Note: pdf-parse doesn't provide per-page text, so we approximate with form feeds
-    const pages = text.split('\f');
-    const markedText = pages
-      .map((page, i) => `[PAGE ${i + 1}]\n${page.trim()}`)
+    // Add page markers for location tracking (real page boundaries)
+    const markedText = data.pages
+      .map((page, i) => `[PAGE ${i + 1}]\n${page}`)
       .join('\n\n');
 
     // Enforce character limit
@@ -126,6 +120,60 @@ export function extractTextFromTxtMd(input: string, maxChars: number = DEFAULT_C
   return markedText;
 }
 
+/**
+ * Extract marked text from a Word, Excel or PowerPoint file.
+ *
+ * Markers: [SECTION n] followed by the heading (DOCX), [CELLS Sheet!A1:C1]
+ * per non-empty row (XLSX), [SLIDE n] (PPTX).
+ *
+ * @throws Error if the file is malformed or exceeds char limit
+ */
+export function extractTextFromOffice(kind: OfficeKind, buffer: Buffer, maxChars: number = DEFAULT_CHAR_LIMIT): string {
+  let markedText: string;
+  let units: number;
+
+  try {
+    if (kind === "docx") {
+      const sections = parseDocx(buffer);
+      units = sections.length;
+      markedText = sections
+        .map((section, i) => `[SECTION ${i + 1}]\n${[section.heading, section.text].filter(Boolean).join("\n")}`)
+        .join("\n\n");
+    } else if (kind === "xlsx") {
+      const rows = parseXlsx(buffer);
+      units = rows.length;
+      markedText = rows.map((row) => `[CELLS ${row.range}] ${row.values.join(" | ")}`).join("\n");
+    } else {
+      const slides = parsePptx(buffer);
+      units = slides.length;
+      markedText = slides.map((slide, i) => `[SLIDE ${i + 1}]\n${slide}`).join("\n\n");
+    }
+  } catch (error) {
+    log.error({ kind, error, redacted: true }, "Office document parsing failed");
+    throw new Error(`${kind}_parse_failed`);
+  }
+
+  // Enforce character limit
+  if (markedText.length > maxChars) {
+    log.warn({
+      kind,
+      actual_chars: markedText.length,
+      limit: maxChars,
+      redacted: true
+    }, "Office document exceeds character limit");
+    throw new Error(`${kind}_exceeds_limit: ${markedText.length} chars > ${maxChars} limit`);
+  }
+
+  log.info({
+    kind,
+    units,
+    chars: markedText.length,
+    redacted: true
+  }, "Extracted text from Office document");
+
+  return markedText;
+}
+
 /**
  * Compute safe summary statistics from CSV buffer.
  * Returns counts and percentiles for numeric columns only.
@@ -292,19 +340,45 @@ export function verifyQuote(quote: string, extractedText: string): boolean {
   return normalizedText.includes(normalizedQuote);
 }
 
+/**
+ * Collapse whitespace and lowercase, keeping a map from each normalized
+ * character back to its index in the original text.
+ */
+function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  let inSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (!inSpace) {
+        normalized += ' ';
+        offsets.push(i);
+      }
+      inSpace = true;
+    } else {
+      normalized += text[i].toLowerCase();
+      offsets.push(i);
+      inSpace = false;
+    }
+  }
+
+  return { normalized, offsets };
+}
+
 /**
  * Extract location hint from marked text (page/row/line).
  * Searches for the quote in the text and returns the nearest location marker.
  */
 export function extractLocation(quote: string, markedText: string): string | undefined {
   const normalizedQuote = quote.toLowerCase().replace(/\s+/g, ' ').trim();
-  const normalizedText = markedText.toLowerCase().replace(/\s+/g, ' ');
+  const { normalized, offsets } = normalizeWithOffsets(markedText);
 
-  const index = normalizedText.indexOf(normalizedQuote);
+  const index = normalized.indexOf(normalizedQuote);
   if (index === -1) return undefined;
 
-  // Look backwards from quote position to find nearest location marker
-  const beforeQuote = markedText.substring(0, index);
+  // Look backwards from quote position (in the original text) to find nearest location marker
+  const beforeQuote = markedText.substring(0, offsets[index]);
 
   // Check for page markers: [PAGE N]
   const pageMatch = beforeQuote.match(/\[PAGE (\d+)\][^[]*$/);
@@ -318,6 +392,22 @@ export function extractLocation(quote: string, markedText: string): string | und
     return `row ${rowMatch[1]}`;
   }
 
+  // Check for Office markers: [SLIDE N], [SECTION N], [CELLS Sheet!A1:C1]
+  const slideMatch = beforeQuote.match(/\[SLIDE (\d+)\][^[]*$/);
+  if (slideMatch) {
+    return `slide ${slideMatch[1]}`;
+  }
+
+  const sectionMatch = beforeQuote.match(/\[SECTION (\d+)\][^[]*$/);
+  if (sectionMatch) {
+    return `section ${sectionMatch[1]}`;
+  }
+
+  const cellsMatch = beforeQuote.match(/\[CELLS ([^\]]+)\][^[]*$/);
+  if (cellsMatch) {
+    return cellsMatch[1];
+  }
+
   // Check for line markers: N:
   const lineMatch = beforeQuote.match(/(\d+):[^:]*$/);
   if (lineMatch) {
@@ -326,3 +416,75 @@ export function extractLocation(quote: string, markedText: string): string | und
 
   return undefined;
 }
+
+/**
+ * Location metadata listing the citable locations a preview contains.
+ *
+ * @param locations Locations as extractLocation reports them ("page 3",
+ *   "row 2", "line 5", "section 1", "slide 4", or a sheet!cell range)
+ */
+export function previewLocationMetadata(locations: string[]): NonNullable<DocPreview["locationMetadata"]> {
+  const metadata: NonNullable<DocPreview["locationMetadata"]> = {};
+  const keys = {
+    page: "includedPages",
+    row: "includedRows",
+    line: "includedLines",
+    section: "includedSections",
+    slide: "includedSlides",
+  } as const;
+
+  for (const location of new Set(locations)) {
+    const unit = location.match(/^(page|row|line|section|slide) (\d+)$/);
+    if (unit) {
+      const key = keys[unit[1] as keyof typeof keys];
+      metadata[key] = [...(metadata[key] ?? []), Number(unit[2])];
+    } else {
+      metadata.includedRanges = [...(metadata.includedRanges ?? []), location];
+    }
+  }
+
+  for (const key of Object.values(keys)) {
+    metadata[key]?.sort((a, b) => a - b);
+  }
+  return metadata;
+}
+
+/**
+ * Verify a citation against the document preview it claims to come from.
+ *
+ * The quote must appear in the preview, the cited location must match the
+ * marker the quote sits under, and (when locationMetadata is present) that
+ * location must be one that actually made it into the preview.
+ */
+export function verifyCitation(citation: Citation, doc: DocPreview): boolean {
+  if (citation.source !== doc.source || !verifyQuote(citation.quote, doc.preview)) {
+    return false;
+  }
+
+  const found = extractLocation(citation.quote, doc.preview);
+  if (!found) {
+    return false;
+  }
+
+  const cited = citation.location.toLowerCase().match(/\b(page|row|line|slide|section)\s*(\d+)/);
+  if (!cited) {
+    // Spreadsheet cell ranges are compared verbatim
+    const ranges = doc.locationMetadata?.includedRanges;
+    return found.toLowerCase() === citation.location.trim().toLowerCase() &&
+      (ranges === undefined || ranges.includes(found));
+  }
+
+  if (found !== `${cited[1]} ${cited[2]}`) {
+    return false;
+  }
+
+  const included = {
+    page: doc.locationMetadata?.includedPages,
+    row: doc.locationMetadata?.includedRows,
+    line: doc.locationMetadata?.includedLines,
+    slide: doc.locationMetadata?.includedSlides,
+    section: doc.locationMetadata?.includedSections,
+  }[cited[1] as "page" | "row" | "line" | "slide" | "section"];
+
+  return included === undefined || included.includes(Number(cited[2]));
+}
@@ -1,23 +1,33 @@
 /**
  * Attachment Processing for Grounding
  *
- * Processes attachments (PDF/TXT/MD/CSV) and extracts text/summaries
+ * Processes attachments (PDF/TXT/MD/CSV/DOCX/XLSX/PPTX) and extracts text/summaries
  * for use in LLM prompts. Handles character limits and error cases.
  */
 
 import { Buffer } from "node:buffer";
 import { log } from "../utils/telemetry.js";
-import { type DocPreview } from "../services/docProcessing.js";
+import { config } from "../config/index.js";
+import {
+  allocateTokenBudget,
+  briefKeywords,
+  fitMarkedUnits,
+  type DocPreview,
+} from "../services/docProcessing.js";
+import { estimateTokens } from "../utils/costGuard.js";
 import {
   extractTextFromPdf,
+  extractTextFromOffice,
   extractTextFromTxtMd,
   summarizeCsv,
+  previewLocationMetadata,
   type CsvSummary as _CsvSummary,
 } from "./index.js";
+import { markedLocations, splitMarkedUnits } from "./retrieval.js";
 
 export type AttachmentInput = {
   id: string;
-  kind: "pdf" | "csv" | "txt" | "md";
+  kind: "pdf" | "csv" | "txt" | "md" | "docx" | "xlsx" | "pptx";
   name: string;
   /** Raw content as Buffer or base64 string */
   content?: Buffer | string;
@@ -28,11 +38,101 @@ export type GroundingStats = {
   pdf: number;
   txt_md: number;
   csv: number;
+  office: number;
   total_chars: number;
 };
 
-// Maximum total characters across all attachments (50k = ~10 files at 5k each)
-const MAX_TOTAL_CHARS = 50000;
+export type ProcessAttachmentsOptions = {
+  /** Brief whose keywords decide which pages/rows/lines fill the preview budget */
+  brief?: string;
+};
+
+/** Attachment content as sent in request bodies */
+export type AttachmentPayload = string | { data: string; encoding?: string };
+
+/**
+ * Per-file and aggregate extraction limits.
+ *
+ * Neither mode sends whole documents to the prompt: with retrieval only the
+ * relevant chunks go, otherwise previews are cut to the shared token budget.
+ */
+export function attachmentCharLimits(): { perFile: number; total: number } {
+  if (config.retrieval.enabled) {
+    return { perFile: config.retrieval.maxDocumentChars, total: config.retrieval.maxTotalChars };
+  }
+  return { perFile: config.documents.maxDocumentChars, total: config.documents.maxTotalChars };
+}
+
+function formatChars(chars: number): string {
+  return chars >= 1000 ? `${Math.round(chars / 1000)}k` : String(chars);
+}
+
+/**
+ * User-facing hint for an *_exceeds_limit error from processAttachments
+ */
+export function attachmentLimitHint(message: string): string {
+  const limits = attachmentCharLimits();
+  return message.includes('aggregate_exceeds_limit')
+    ? `Total attachment size exceeds ${formatChars(limits.total)} character limit. Please reduce the number of attachments or their sizes.`
+    : `One or more files exceed the ${formatChars(limits.perFile)} character limit. Please reduce file size or split into smaller files.`;
+}
+
+/**
+ * Fit grounded previews into the shared preview token budget.
+ *
+ * Each document gets a fair share of config.documents.previewTokenBudget;
+ * within its share whole pages/rows/lines are kept, brief-keyword matches
+ * first. Documents that fit their share are left untouched.
+ */
+export function budgetPreviews(docs: DocPreview[], brief?: string): DocPreview[] {
+  const keywords = brief ? briefKeywords(brief) : [];
+  const allocations = allocateTokenBudget(
+    docs.map((doc) => estimateTokens(doc.preview.length)),
+    config.documents.previewTokenBudget
+  );
+
+  return docs.map((doc, i) => {
+    if (estimateTokens(doc.preview.length) <= allocations[i]) {
+      return { ...doc, locationMetadata: { ...doc.locationMetadata, truncated: false } };
+    }
+
+    const units = splitMarkedUnits(doc.preview, doc.type);
+    const header = units.filter((unit) => unit.location === undefined).map((unit) => `${unit.text}\n`).join("");
+    const marked = units.filter((unit) => unit.location !== undefined).map((unit) => `${unit.text}\n`);
+    const { preview, truncated } = fitMarkedUnits(header, marked, allocations[i], keywords);
+
+    return {
+      ...doc,
+      preview,
+      locationMetadata: { ...previewLocationMetadata(markedLocations(preview, doc.type)), truncated },
+    };
+  });
+}
+
+/**
+ * Pair attachment descriptors with their request payloads.
+ * Attachments without a payload are skipped with a warning.
+ */
+export function attachmentInputsFromPayloads(
+  attachments: Array<Pick<AttachmentInput, "id" | "kind" | "name">>,
+  payloads: Record<string, AttachmentPayload> = {}
+): AttachmentInput[] {
+  const inputs: AttachmentInput[] = [];
+  for (const attachment of attachments) {
+    const payload = payloads[attachment.id];
+    if (!payload) {
+      log.warn({ attachment_id: attachment.id, redacted: true }, "Attachment payload missing, skipping");
+      continue;
+    }
+
+    const content = typeof payload === "string"
+      ? payload // Already base64 string
+      : Buffer.from(payload.data, (payload.encoding ?? "base64") as any);
+
+    inputs.push({ id: attachment.id, kind: attachment.kind, name: attachment.name, content });
+  }
+  return inputs;
+}
 
 /**
  * Process attachments and extract text/summaries.
@@ -40,14 +140,17 @@ const MAX_TOTAL_CHARS = 50000;
  * @throws Error with BAD_INPUT code if any file exceeds limits
  */
 export async function processAttachments(
-  attachments: AttachmentInput[]
+  attachments: AttachmentInput[],
+  options: ProcessAttachmentsOptions = {}
 ): Promise<{ docs: DocPreview[]; stats: GroundingStats }> {
+  const limits = attachmentCharLimits();
   const docs: DocPreview[] = [];
   const stats: GroundingStats = {
     files_processed: 0,
     pdf: 0,
     txt_md: 0,
     csv: 0,
+    office: 0,
     total_chars: 0,
   };
 
@@ -93,7 +196,7 @@ export async function processAttachments(
       switch (attachment.kind) {
         case 'pdf': {
           try {
-            preview = await extractTextFromPdf(buffer);
+            preview = await extractTextFromPdf(buffer, limits.perFile);
             stats.pdf++;
           } catch (error) {
             const err = error instanceof Error ? error : new Error(String(error));
@@ -115,7 +218,7 @@ export async function processAttachments(
         case 'md': {
           try {
             const text = buffer.toString('utf-8');
-            preview = extractTextFromTxtMd(text);
+            preview = extractTextFromTxtMd(text, limits.perFile);
             stats.txt_md++;
           } catch (error) {
             const err = error instanceof Error ? error : new Error(String(error));
@@ -131,7 +234,7 @@ export async function processAttachments(
 
         case 'csv': {
           try {
-            const summary = summarizeCsv(buffer);
+            const summary = summarizeCsv(buffer, limits.perFile);
             // Use markedText for LLM context
             preview = summary.markedText || `Row count: ${summary.count}`;
             stats.csv++;
@@ -150,6 +253,27 @@ export async function processAttachments(
           break;
         }
 
+        case 'docx':
+        case 'xlsx':
+        case 'pptx': {
+          try {
+            preview = extractTextFromOffice(attachment.kind, buffer, limits.perFile);
+            stats.office++;
+          } catch (error) {
+            const err = error instanceof Error ? error : new Error(String(error));
+
+            if (err.message.includes('_exceeds_limit')) {
+              throw new Error(`File "${attachment.name}": ${err.message}`);
+            }
+            if (err.message.includes('_parse_failed')) {
+              throw new Error(`File "${attachment.name}": ${attachment.kind.toUpperCase()} parsing failed - check file format`);
+            }
+
+            throw new Error(`File "${attachment.name}": Office document processing failed - ${err.message}`);
+          }
+          break;
+        }
+
         default:
           log.warn({
             kind: attachment.kind,
@@ -172,6 +296,15 @@ export async function processAttachments(
         case 'md':
           locationHint = "cite with line numbers if needed (e.g., line 5)";
           break;
+        case 'docx':
+          locationHint = "cite with section numbers (e.g., section 2)";
+          break;
+        case 'xlsx':
+          locationHint = "cite with sheet!cell ranges (e.g., Sheet1!A2:D2)";
+          break;
+        case 'pptx':
+          locationHint = "cite with slide numbers (e.g., slide 3)";
+          break;
       }
 
       docs.push({
@@ -179,20 +312,21 @@ export async function processAttachments(
         type: attachment.kind,
         preview,
         locationHint,
+        locationMetadata: previewLocationMetadata(markedLocations(preview, attachment.kind)),
       });
 
       stats.files_processed++;
       stats.total_chars += preview.length;
 
       // Check aggregate size limit
-      if (stats.total_chars > MAX_TOTAL_CHARS) {
+      if (stats.total_chars > limits.total) {
         log.warn({
           total_chars: stats.total_chars,
-          limit: MAX_TOTAL_CHARS,
+          limit: limits.total,
           files_processed: stats.files_processed,
           redacted: true,
         }, "Aggregate attachment size exceeds limit");
-        throw new Error(`aggregate_exceeds_limit: Total attachment size (${stats.total_chars} chars) exceeds ${MAX_TOTAL_CHARS} character limit`);
+        throw new Error(`aggregate_exceeds_limit: Total attachment size (${stats.total_chars} chars) exceeds ${limits.total} character limit`);
       }
 
       log.info({
@@ -222,5 +356,10 @@ export async function processAttachments(
     redacted: true,
   }, "Attachment processing complete");
 
+  // Retrieval picks chunks later; otherwise cut previews to the shared budget
+  if (!config.retrieval.enabled) {
+    return { docs: budgetPreviews(docs, options.brief), stats };
+  }
+
   return { docs, stats };
 }
@@ -0,0 +1,362 @@
+/**
+ * Chunked Retrieval over Attachments
+ *
+ * Splits grounded attachments (marked text from processAttachments) into
+ * chunks along their citation markers, indexes them in-process with BM25, and
+ * returns the chunks most relevant to a set of queries (the brief, each
+ * factor, a question). Only those chunks are sent to the LLM, so evidence deep
+ * inside a long document is reachable without raising prompt size.
+ *
+ * Each chunk keeps its markers ([PAGE n], [ROW n], n: ...) so citations made
+ * against a chunk still resolve with extractLocation/verifyCitation, and
+ * carries a stable ID ("<source>#<n>") that is threaded into edge provenance.
+ */
+
+import { config } from "../config/index.js";
+import { log } from "../utils/telemetry.js";
+import type { DocPreview } from "../services/docProcessing.js";
+import type { GraphT } from "../schemas/graph.js";
+import { previewLocationMetadata, verifyCitation, verifyQuote } from "./index.js";
+
+export type DocumentChunk = {
+  id: string; // "<source>#<n>" (1-based, document order)
+  source: string;
+  type: DocPreview["type"];
+  locations: string[]; // Citable locations covered, e.g. ["page 3", "page 4"]
+  text: string; // Marked text, markers included
+};
+
+export type RetrievedChunk = {
+  chunk: DocumentChunk;
+  score: number; // Best BM25 score across queries
+};
+
+export type RetrievalOptions = {
+  /** Chunks returned per query (default: config.retrieval.topK) */
+  topK?: number;
+  /** Cap on distinct chunks across all queries (default: config.retrieval.maxChunks) */
+  maxChunks?: number;
+};
+
+// BM25 parameters (standard Okapi defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Only short function words; BM25's IDF handles the rest
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "for", "how", "if", "in", "is", "it",
+  "of", "on", "or", "our", "so", "the", "to", "was", "we", "what", "why", "with", "you",
+]);
+
+const BLOCK_MARKER = /^\[(PAGE|ROW|SECTION|SLIDE|CELLS) ([^\]]+)\]/;
+const LINE_MARKER = /^(\d+): /;
+
+/**
+ * Only txt/md previews number their lines; elsewhere "2023: ..." is content
+ */
+function hasLineMarkers(type: DocPreview["type"]): boolean {
+  return type === "txt" || type === "md";
+}
+
+function unitMarker(line: string, type: DocPreview["type"]): RegExpMatchArray | null {
+  return hasLineMarkers(type) ? line.match(LINE_MARKER) : line.match(BLOCK_MARKER);
+}
+
+/**
+ * Lowercased word tokens with stop-words removed and plurals folded
+ */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words
+    .filter((w) => !STOP_WORDS.has(w))
+    .map((w) => {
+      if (w.length > 4 && w.endsWith("ies")) return `${w.slice(0, -3)}y`;
+      if (w.length > 3 && w.endsWith("s") && !w.endsWith("ss")) return w.slice(0, -1);
+      return w;
+    });
+}
+
+function markerLocation(line: string, type: DocPreview["type"]): string | undefined {
+  const match = unitMarker(line, type);
+  if (!match) return undefined;
+  if (hasLineMarkers(type)) return `line ${match[1]}`;
+  return match[1] === "CELLS" ? match[2] : `${match[1].toLowerCase()} ${match[2]}`;
+}
+
+/**
+ * Split marked text into citable units: each starts at a location marker
+ * and runs until the next one. Line markers ("12: ") only count in txt/md.
+ */
+export function splitMarkedUnits(
+  markedText: string,
+  type: DocPreview["type"]
+): Array<{ location?: string; text: string }> {
+  const units: Array<{ location?: string; text: string }> = [];
+
+  for (const line of markedText.split("\n")) {
+    const location = markerLocation(line, type);
+    if (location !== undefined || units.length === 0) {
+      units.push({ location, text: line });
+    } else {
+      units[units.length - 1].text += `\n${line}`;
+    }
+  }
+
+  return units
+    .map((unit) => ({ ...unit, text: unit.text.trim() }))
+    .filter((unit) => unit.text.length > 0);
+}
+
+/**
+ * Citable locations present in marked text, in document order
+ */
+export function markedLocations(markedText: string, type: DocPreview["type"]): string[] {
+  const locations = splitMarkedUnits(markedText, type).map((unit) => unit.location);
+  return [...new Set(locations.filter((location): location is string => location !== undefined))];
+}
+
+/**
+ * Cut an oversized unit at whitespace, repeating its marker on every piece
+ * so each piece still cites the right location.
+ */
+function splitOversized(
+  unit: { location?: string; text: string },
+  type: DocPreview["type"],
+  chunkChars: number
+): string[] {
+  const marker = unitMarker(unit.text, type)?.[0] ?? "";
+  const body = unit.text.slice(marker.length);
+  const room = Math.max(1, chunkChars - marker.length - 1);
+
+  const pieces: string[] = [];
+  let rest = body;
+  while (rest.length > 0) {
+    let cut = rest.length <= room ? rest.length : rest.lastIndexOf(" ", room);
+    if (cut <= 0) cut = room;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trimStart();
+  }
+
+  return pieces.filter(Boolean).map((piece) => (marker.endsWith("]") ? `${marker}\n${piece}` : `${marker}${piece}`));
+}
+
+/**
+ * Chunk grounded documents along their citation markers.
+ *
+ * Consecutive units are packed into chunks of at most chunkChars; a unit
+ * larger than that is split on its own.
+ */
+export function chunkDocuments(docs: DocPreview[], chunkChars: number = config.retrieval.chunkChars): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+
+  for (const doc of docs) {
+    let n = 0;
+    let pending: { locations: string[]; parts: string[]; length: number } = { locations: [], parts: [], length: 0 };
+
+    const flush = () => {
+      if (pending.parts.length === 0) return;
+      n += 1;
+      chunks.push({
+        id: `${doc.source}#${n}`,
+        source: doc.source,
+        type: doc.type,
+        locations: pending.locations,
+        text: pending.parts.join("\n"),
+      });
+      pending = { locations: [], parts: [], length: 0 };
+    };
+
+    for (const unit of splitMarkedUnits(doc.preview, doc.type)) {
+      const pieces = unit.text.length > chunkChars ? splitOversized(unit, doc.type, chunkChars) : [unit.text];
+
+      for (const piece of pieces) {
+        if (pending.length > 0 && pending.length + piece.length + 1 > chunkChars) flush();
+        pending.parts.push(piece);
+        pending.length += piece.length + 1;
+        if (unit.location && !pending.locations.includes(unit.location)) pending.locations.push(unit.location);
+      }
+    }
+    flush();
+  }
+
+  return chunks;
+}
+
+/**
+ * In-memory BM25 index over document chunks
+ */
+export class ChunkIndex {
+  private readonly termFreqs: Array<Map<string, number>>;
+  private readonly lengths: number[];
+  private readonly docFreq = new Map<string, number>();
+  private readonly avgLength: number;
+
+  constructor(readonly chunks: DocumentChunk[]) {
+    this.termFreqs = chunks.map((chunk) => {
+      const freqs = new Map<string, number>();
+      for (const term of tokenize(chunk.text)) {
+        freqs.set(term, (freqs.get(term) ?? 0) + 1);
+      }
+      for (const term of freqs.keys()) {
+        this.docFreq.set(term, (this.docFreq.get(term) ?? 0) + 1);
+      }
+      return freqs;
+    });
+    this.lengths = this.termFreqs.map((freqs) => [...freqs.values()].reduce((sum, f) => sum + f, 0));
+    this.avgLength = this.lengths.reduce((sum, l) => sum + l, 0) / Math.max(1, this.lengths.length);
+  }
+
+  get size(): number {
+    return this.chunks.length;
+  }
+
+  /**
+   * Top-k chunks for a query, best first. Chunks sharing no terms with the
+   * query are never returned.
+   */
+  search(query: string, k: number): RetrievedChunk[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.chunks.length === 0) return [];
+
+    const n = this.chunks.length;
+    const results: RetrievedChunk[] = [];
+
+    this.termFreqs.forEach((freqs, i) => {
+      let score = 0;
+      for (const term of terms) {
+        const tf = freqs.get(term);
+        if (!tf) continue;
+        const df = this.docFreq.get(term) ?? 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * this.lengths[i]) / (this.avgLength || 1))));
+      }
+      if (score > 0) results.push({ chunk: this.chunks[i], score });
+    });
+
+    // Stable sort: ties keep document order
+    return results.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+}
+
+/**
+ * Union of the top-k chunks for each query, keeping each chunk's best score,
+ * capped at maxChunks (best first).
+ */
+export function retrieveChunks(index: ChunkIndex, queries: string[], options: RetrievalOptions = {}): RetrievedChunk[] {
+  const topK = options.topK ?? config.retrieval.topK;
+  const maxChunks = options.maxChunks ?? config.retrieval.maxChunks;
+
+  const best = new Map<string, RetrievedChunk>();
+  for (const query of queries) {
+    if (!query.trim()) continue;
+    for (const hit of index.search(query, topK)) {
+      const existing = best.get(hit.chunk.id);
+      if (!existing || hit.score > existing.score) best.set(hit.chunk.id, hit);
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.score - a.score).slice(0, maxChunks);
+}
+
+/**
+ * Rebuild per-document previews from retrieved chunks.
+ *
+ * Chunks are rendered in document order under a [CHUNK id] line. A document
+ * with no relevant chunk keeps its first chunk so the LLM still knows it was
+ * attached.
+ */
+export function chunksToDocs(docs: DocPreview[], index: ChunkIndex, retrieved: RetrievedChunk[]): DocPreview[] {
+  const selected = new Set(retrieved.map((r) => r.chunk.id));
+
+  return docs.map((doc) => {
+    const own = index.chunks.filter((chunk) => chunk.source === doc.source);
+    const chosen = own.some((chunk) => selected.has(chunk.id))
+      ? own.filter((chunk) => selected.has(chunk.id))
+      : own.slice(0, 1);
+
+    return {
+      source: doc.source,
+      type: doc.type,
+      preview: chosen.map((chunk) => `[CHUNK ${chunk.id}]\n${chunk.text}`).join("\n\n"),
+      locationHint: doc.locationHint
+        ? `${doc.locationHint}; excerpts are retrieved chunks marked [CHUNK id]`
+        : "excerpts are retrieved chunks marked [CHUNK id]",
+      // Only the retrieved locations are citable
+      locationMetadata: previewLocationMetadata(chosen.flatMap((chunk) => chunk.locations)),
+    };
+  });
+}
+
+// Excerpt length in API responses
+const EXCERPT_CHARS = 500;
+
+/**
+ * API view of a retrieved chunk (RetrievedChunkV1)
+ */
+export function describeChunk(hit: RetrievedChunk): {
+  chunk_id: string;
+  source: string;
+  location?: string;
+  score: number;
+  excerpt: string;
+} {
+  return {
+    chunk_id: hit.chunk.id,
+    source: hit.chunk.source,
+    ...(hit.chunk.locations[0] ? { location: hit.chunk.locations[0] } : {}),
+    score: Number(hit.score.toFixed(3)),
+    excerpt: hit.chunk.text.slice(0, EXCERPT_CHARS),
+  };
+}
+
+/**
+ * Chunk, index and retrieve in one step for a request's grounded documents.
+ *
+ * @returns The retrieved chunks (best first) and the documents rebuilt from them
+ */
+export function retrieveForQueries(
+  docs: DocPreview[],
+  queries: string[],
+  options: RetrievalOptions = {}
+): { docs: DocPreview[]; chunks: RetrievedChunk[] } {
+  const index = new ChunkIndex(chunkDocuments(docs));
+  const chunks = retrieveChunks(index, queries, options);
+
+  log.info({
+    documents: docs.length,
+    indexed_chunks: index.size,
+    queries: queries.length,
+    retrieved_chunks: chunks.length,
+    redacted: true,
+  }, "Retrieved attachment chunks");
+
+  return { docs: chunksToDocs(docs, index, chunks), chunks };
+}
+
+/**
+ * Record which chunk each document-backed edge was drawn from.
+ *
+ * An edge gets provenance.chunk_id when its citation verifies against a
+ * chunk from the same source: the quote appears in the chunk and, when the
+ * provenance names a location, the quote sits under that location's marker.
+ * Edges without a verifiable citation are left unchanged.
+ */
+export function attachChunkIds(graph: GraphT, chunks: DocumentChunk[]): GraphT {
+  if (chunks.length === 0) return graph;
+
+  return {
+    ...graph,
+    edges: graph.edges.map((edge) => {
+      const provenance = edge.provenance;
+      if (!provenance || typeof provenance === "string" || !provenance.quote) return edge;
+
+      const { source, quote, location } = provenance;
+      const match = chunks.find((chunk) => {
+        if (chunk.source !== source) return false;
+        if (!location) return verifyQuote(quote, chunk.text);
+        return verifyCitation({ source, quote, location }, { source: chunk.source, type: chunk.type, preview: chunk.text });
+      });
+      return match ? { ...edge, provenance: { ...provenance, chunk_id: match.id } } : edge;
+    }),
+  };
+}
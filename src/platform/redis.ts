@@ -12,6 +12,7 @@
 
 import { Redis, type RedisOptions } from "ioredis";
 import { log } from "../utils/telemetry.js";
+import { traceRedisCommands } from "../utils/tracing.js";
 import { config, isProduction } from "../config/index.js";
 
 /**
@@ -106,6 +107,7 @@ async function initializeRedis(): Promise<Redis | null> {
   try {
     const redisUrl = config.redis.url!;
     const client = new Redis(redisUrl, redisOptions);
+    traceRedisCommands(client);
 
     // Set up event handlers
     client.on("error", (error: Error) => {
@@ -4,21 +4,30 @@
  * Supports:
  * - Single key via ASSIST_API_KEY (backwards compat)
  * - Multiple keys via ASSIST_API_KEYS (comma-separated)
- * - Per-key rate limiting (token bucket)
+ * - Managed keys issued via /admin/v1/api-keys (API_KEY_MANAGEMENT_ENABLED)
+ * - End-user JWTs via Authorization: Bearer (verified against AUTH_JWKS_PATH)
+ * - Per-key rate limiting (token bucket, with managed-key overrides)
  * - Per-key quotas
+ * - Per-route scopes (ASSIST_API_KEY_SCOPES or the JWT scope claim)
  * - Telemetry per key
  *
- * Public routes: /healthz
+ * Public routes: /healthz, /metrics
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import fp from "fastify-plugin";
 import { emit, TelemetryEvents, log } from "../utils/telemetry.js";
-import { tryConsumeToken } from "../utils/quota.js";
+import { tryConsumeToken, type QuotaOverrides } from "../utils/quota.js";
+import { parseManagedKeyId, touchManagedKey, verifyManagedKey, type ManagedApiKey } from "../utils/api-key-store.js";
 import { verifyHmacSignature } from "../utils/hmac-auth.js";
-import { attachCallerContext, getCallerContext, type CallerContext } from "../context/index.js";
+import { isJwtAuthEnabled, looksLikeJwt, verifyJwt, type VerifiedJwt } from "../utils/jwt.js";
+import { getKeyGrant, hasScope, requiredScopeFor } from "../utils/scopes.js";
+import { attachCallerContext, getCallerContext, runWithCallerContext, parseDomainHeader, type CallerContext } from "../context/index.js";
 import { config } from "../config/index.js";
 
+/** Caller context key ID when no auth is configured (same partition as other anonymous callers) */
+const UNAUTHENTICATED_KEY_ID = "anonymous";
+
 /**
  * Get valid API keys from centralized config
  */
@@ -47,12 +56,13 @@ function isPublicRoute(path: string, method?: string): boolean {
     "/health",
     "/",
     "/v1/status",
+    "/metrics",
     "/admin", // Admin UI and admin APIs have their own auth via X-Admin-Key
   ];
 
-  // Share GET/DELETE are public (token-based auth)
+  // Share GET/DELETE are public (token-based auth); the access log is owner-only
   if ((method === "GET" || method === "DELETE") && path.startsWith("/assist/share/")) {
-    return true;
+    return !path.split("?")[0].endsWith("/access-log");
   }
 
   return publicRoutes.some(route => path === route || path.startsWith(route + "/"));
@@ -93,7 +103,15 @@ async function authPluginImpl(fastify: FastifyInstance) {
   // Log initial state (but re-read keys on each request for testability)
   const initialKeys = getValidApiKeys();
 
-  if (initialKeys.size === 0) {
+  if (isJwtAuthEnabled()) {
+    log.info({ jwks_path: config.auth.jwksPath }, "JWT bearer authentication enabled");
+  }
+
+  if (config.apiKeys.enabled) {
+    log.info({ store_path: config.apiKeys.storePath }, "Managed API keys enabled");
+  }
+
+  if (initialKeys.size === 0 && !config.apiKeys.enabled) {
     log.warn("No API keys configured (ASSIST_API_KEY or ASSIST_API_KEYS). Auth disabled.");
   } else {
     // Only log the count - avoid logging any partial key information
@@ -122,8 +140,20 @@ async function authPluginImpl(fastify: FastifyInstance) {
     // Get valid keys from config
     const validKeys = getValidApiKeys();
 
-    // If no keys configured, skip auth
-    if (validKeys.size === 0 && !config.auth.hmacSecret) {
+    const jwtEnabled = isJwtAuthEnabled();
+    const managedKeysEnabled = config.apiKeys.enabled;
+
+    // If no keys configured, skip auth but keep request-level overrides (X-Olumi-Domain)
+    if (validKeys.size === 0 && !config.auth.hmacSecret && !jwtEnabled && !managedKeysEnabled) {
+      attachCallerContext(request, {
+        keyId: UNAUTHENTICATED_KEY_ID,
+        hmacAuth: false,
+        sourceIp: request.ip,
+        userAgent: request.headers["user-agent"] as string | undefined,
+        correlationId: request.headers["x-correlation-id"] as string | undefined,
+        domainOverride: parseDomainHeader(request.headers["x-olumi-domain"]),
+        scopes: ["*"],
+      });
       return; // No auth configured
     }
 
@@ -132,6 +162,8 @@ async function authPluginImpl(fastify: FastifyInstance) {
 
     let apiKey: string | null = null;
     let keyId: string | null = null;
+    let jwt: VerifiedJwt | null = null;
+    let managedKey: ManagedApiKey | null = null;
 
     if (hasSignature && config.auth.hmacSecret) {
       // HMAC signature authentication (preferred)
@@ -192,8 +224,45 @@ async function authPluginImpl(fastify: FastifyInstance) {
         });
       }
 
-      // Validate API key
-      if (!validKeys.has(extractedKey)) {
+      // End-user JWT (opaque API keys never have the three-segment shape)
+      if (jwtEnabled && !validKeys.has(extractedKey) && looksLikeJwt(extractedKey)) {
+        const jwtResult = verifyJwt(extractedKey);
+
+        if (!jwtResult.valid) {
+          emit(TelemetryEvents.AuthFailed, {
+            reason: "invalid_jwt",
+            jwt_error: jwtResult.error,
+            path: request.url,
+          });
+
+          return reply.code(401).send({
+            schema: "error.v1",
+            code: "UNAUTHENTICATED",
+            message: `Invalid bearer token: ${jwtResult.error}`,
+          });
+        }
+
+        jwt = jwtResult.jwt;
+      } else if (managedKeysEnabled && !validKeys.has(extractedKey) && parseManagedKeyId(extractedKey)) {
+        // Managed key ("mk_<id>.<secret>"); disabled and rotated-out secrets fail here
+        managedKey = await verifyManagedKey(extractedKey);
+
+        if (!managedKey) {
+          emit(TelemetryEvents.AuthFailed, {
+            reason: "invalid_managed_key",
+            path: request.url,
+          });
+
+          return reply.code(403).send({
+            schema: "error.v1",
+            code: "FORBIDDEN",
+            message: "Invalid API key.",
+          });
+        }
+
+        void touchManagedKey(managedKey);
+      } else if (!validKeys.has(extractedKey)) {
+        // Validate API key
         emit(TelemetryEvents.AuthFailed, {
           reason: "invalid_key",
           path: request.url,
@@ -206,13 +275,19 @@ async function authPluginImpl(fastify: FastifyInstance) {
         });
       }
 
-      apiKey = extractedKey;
+      // JWT callers are rate limited per end user; managed keys by their stable
+      // key_id, so the bucket survives rotation
+      apiKey = jwt ? `jwt:${jwt.subject}` : managedKey ? `managed:${managedKey.key_id}` : extractedKey;
       // keyId will be set by tryConsumeToken below
     }
 
+    const quotaOverrides: QuotaOverrides | undefined = managedKey
+      ? { keyId: managedKey.key_id, rpm: managedKey.rate_limit_rpm, sseRpm: managedKey.sse_rate_limit_rpm }
+      : undefined;
+
     // Check rate limit (dual-mode: Redis + memory fallback)
     const isSSE = isSseRequest(request);
-    const quotaResult = await tryConsumeToken(apiKey, isSSE);
+    const quotaResult = await tryConsumeToken(apiKey, isSSE, quotaOverrides);
     keyId = quotaResult.keyId;
 
     if (!quotaResult.allowed) {
@@ -232,6 +307,32 @@ async function authPluginImpl(fastify: FastifyInstance) {
       });
     }
 
+    // Enforce the route's scope
+    const grant = jwt
+      ? { scopes: jwt.scopes, tenant: jwt.tenant }
+      : managedKey
+        ? { scopes: managedKey.scopes ?? ["*"], tenant: managedKey.tenant }
+        : getKeyGrant(keyId!);
+    const requiredScope = requiredScopeFor(request.method, request.url);
+
+    if (requiredScope && !hasScope(grant.scopes, requiredScope)) {
+      emit(TelemetryEvents.AuthFailed, {
+        reason: "insufficient_scope",
+        key_id: keyId,
+        required_scope: requiredScope,
+        path: request.url,
+      });
+
+      return reply.code(403).send({
+        schema: "error.v1",
+        code: "FORBIDDEN",
+        message: `Missing required scope: ${requiredScope}`,
+        details: {
+          required_scope: requiredScope,
+        },
+      });
+    }
+
     // Auth successful - attach full caller context
     const hmacAuth = hasSignature !== undefined && config.auth.hmacSecret !== undefined;
     const ctx = attachCallerContext(request, {
@@ -240,6 +341,11 @@ async function authPluginImpl(fastify: FastifyInstance) {
       sourceIp: request.ip,
       userAgent: request.headers["user-agent"] as string | undefined,
       correlationId: request.headers["x-correlation-id"] as string | undefined,
+      domainOverride: parseDomainHeader(request.headers["x-olumi-domain"]),
+      authMethod: jwt ? "jwt" : hmacAuth ? "hmac" : "api_key",
+      subject: jwt?.subject,
+      tenant: grant.tenant,
+      scopes: grant.scopes,
     });
 
     emit(TelemetryEvents.AuthSuccess, {
@@ -252,6 +358,17 @@ async function authPluginImpl(fastify: FastifyInstance) {
     // Also attach keyId directly for backwards compatibility
     (request as any).keyId = keyId;
   });
+
+  // Propagate caller context to code without request access (LLM adapters).
+  // Callback-style so done() runs inside the AsyncLocalStorage scope.
+  fastify.addHook("onRequest", (request: FastifyRequest, _reply: FastifyReply, done: (err?: Error) => void) => {
+    const ctx = getCallerContext(request);
+    if (!ctx) {
+      done();
+      return;
+    }
+    runWithCallerContext(ctx, () => done());
+  });
 }
 
 /**
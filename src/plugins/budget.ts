@@ -0,0 +1,115 @@
+/**
+ * Per-Key LLM Spend Budget Plugin
+ *
+ * Runs after the auth plugin. For authenticated requests it:
+ * - Rejects the request with 402 when the key's budget is exhausted
+ * - Opens a budget scope so adapter calls record spend against the key
+ *   and the router can downgrade to fast-tier models
+ * - Adds X-Budget-* headers (soft-limit warnings, remaining budget)
+ *
+ * No-op unless BUDGETS_ENABLED=true. See utils/budget.ts.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import fp from "fastify-plugin";
+import { getRequestKeyId } from "./auth.js";
+import {
+  isBudgetEnforcementEnabled,
+  getBudgetStatus,
+  getScopeStatus,
+  getBudgetHeaders,
+  runWithBudgetScope,
+  type BudgetScope,
+} from "../utils/budget.js";
+import { buildErrorV1 } from "../utils/errors.js";
+import { getRequestId } from "../utils/request-id.js";
+import { emit, log, TelemetryEvents } from "../utils/telemetry.js";
+
+const BUDGET_SCOPE_KEY = Symbol.for("olumi.budgetScope");
+
+// Routes that never consume LLM budget and must stay reachable when exhausted
+const BUDGET_EXEMPT_ROUTES = ["/v1/limits"];
+
+function getRequestBudgetScope(request: FastifyRequest): BudgetScope | undefined {
+  return (request as any)[BUDGET_SCOPE_KEY];
+}
+
+/**
+ * Budget plugin (internal implementation)
+ */
+async function budgetPluginImpl(fastify: FastifyInstance) {
+  // Callback-style hook: done() must run inside the AsyncLocalStorage scope so
+  // the scope propagates to later hooks and the route handler
+  fastify.addHook("onRequest", (request: FastifyRequest, reply: FastifyReply, done: (err?: Error) => void) => {
+    if (!isBudgetEnforcementEnabled()) {
+      done();
+      return;
+    }
+
+    const keyId = getRequestKeyId(request);
+    if (!keyId) {
+      done();
+      return;
+    }
+
+    getBudgetStatus(keyId).then(
+      (status) => {
+        const scope: BudgetScope = { keyId, status, spentUsd: 0, downgradedTasks: [] };
+        (request as any)[BUDGET_SCOPE_KEY] = scope;
+
+        const path = request.url.split("?")[0];
+        if (status.state === "exhausted" && !BUDGET_EXEMPT_ROUTES.includes(path)) {
+          const period = status[status.limiting_period!];
+
+          emit(TelemetryEvents.BudgetExceeded, {
+            key_id: keyId,
+            period: status.limiting_period,
+            limit_usd: period.limit_usd,
+            spent_usd: period.spent_usd,
+            path,
+          });
+
+          reply
+            .code(402)
+            .headers(getBudgetHeaders(status))
+            .send(buildErrorV1(
+              "BUDGET_EXCEEDED",
+              `LLM ${status.limiting_period} budget exhausted for this API key.`,
+              {
+                period: status.limiting_period,
+                limit_usd: period.limit_usd,
+                spent_usd: period.spent_usd,
+                resets_at: period.resets_at,
+              },
+              getRequestId(request)
+            ));
+          return;
+        }
+
+        runWithBudgetScope(scope, () => done());
+      },
+      (error: unknown) => {
+        // Fail open - budgets must never take the service down
+        log.warn({ error, key_id: keyId }, "Budget status lookup failed, skipping budget enforcement");
+        done();
+      }
+    );
+  });
+
+  fastify.addHook("onSend", async (request, reply, payload) => {
+    const scope = getRequestBudgetScope(request);
+    if (scope && reply.statusCode !== 402) {
+      reply.headers(getBudgetHeaders(getScopeStatus(scope), scope.downgradedTasks));
+    }
+    return payload;
+  });
+}
+
+/**
+ * Budget plugin (exported with fastify-plugin to break encapsulation)
+ */
+export const budgetPlugin = fp(budgetPluginImpl, {
+  name: "budget",
+  fastify: "5.x",
+  dependencies: ["auth"],
+});
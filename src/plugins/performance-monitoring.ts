@@ -2,10 +2,11 @@
  * Performance Monitoring Plugin
  *
  * Tracks request latency, response times, and emits metrics for observability.
- * Integrates with StatsD/Datadog for real-time monitoring and alerting.
+ * Integrates with StatsD/Datadog and Prometheus for real-time monitoring and alerting.
  */
 
-import type { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
 import { logger } from '../utils/simple-logger.js';
 import { config } from '../config/index.js';
 
@@ -80,27 +81,27 @@ export function resetPerformanceMetrics(): void {
   metrics.requestsByRoute.clear();
 }
 
-// Typed StatsD client interface
-interface StatsdClient {
-  histogram: (name: string, value: number, tags: string[]) => void;
-  increment: (name: string, value: number, tags: string[]) => void;
-  gauge: (name: string, value: number, tags: string[]) => void;
+// Typed metrics client interface (StatsD + Prometheus fan-out)
+interface MetricsClient {
+  histogram: (name: string, value: number, tags: Record<string, string>) => void;
+  increment: (name: string, value: number, tags: Record<string, string>) => void;
+  gauge: (name: string, value: number, tags: Record<string, string>) => void;
 }
 
-// Cached statsd client reference (loaded once at plugin init)
-let statsdClient: StatsdClient | null = null;
+// Cached metrics client reference (loaded once at plugin init)
+let metricsClient: MetricsClient | null = null;
 
 /**
- * Initialize StatsD client once during plugin startup
+ * Initialize metrics client once during plugin startup
  * This avoids Promise overhead on every metric emission
  */
-async function initStatsdClient(): Promise<void> {
+async function initMetricsClient(): Promise<void> {
   try {
     // Dynamic import for ESM compatibility
     const telemetry = await import('../utils/telemetry.js');
-    statsdClient = telemetry?.statsd ?? null;
+    metricsClient = telemetry?.metrics ?? null;
   } catch {
-    statsdClient = null;
+    metricsClient = null;
   }
 }
 
@@ -128,7 +129,7 @@ function normalizeRoute(request: FastifyRequest): string {
 }
 
 /**
- * Emit metrics to StatsD/Datadog if configured
+ * Emit metrics to StatsD/Datadog and Prometheus if configured
  * Uses synchronous cached client reference (no Promise overhead per call)
  */
 function emitMetric(
@@ -137,30 +138,33 @@ function emitMetric(
   value: number,
   tags: Record<string, string | number> = {}
 ): void {
-  if (!METRICS_ENABLED || !statsdClient) return;
+  if (!METRICS_ENABLED || !metricsClient) return;
 
   try {
-    const tagArray = Object.entries(tags).map(([k, v]) => `${k}:${v}`);
+    const tagMap = Object.fromEntries(Object.entries(tags).map(([k, v]) => [k, String(v)]));
 
     switch (metricType) {
       case 'histogram':
-        statsdClient.histogram(metricName, value, tagArray);
+        metricsClient.histogram(metricName, value, tagMap);
         break;
       case 'counter':
-        statsdClient.increment(metricName, value, tagArray);
+        metricsClient.increment(metricName, value, tagMap);
         break;
       case 'gauge':
-        statsdClient.gauge(metricName, value, tagArray);
+        metricsClient.gauge(metricName, value, tagMap);
         break;
     }
   } catch {
-    // StatsD emission failed - continue silently
+    // Metric emission failed - continue silently
   }
 }
 
-export const performanceMonitoring: FastifyPluginAsync = async (app) => {
-  // Initialize StatsD client once at plugin startup (avoid Promise per-request)
-  await initStatsdClient();
+/**
+ * Performance monitoring plugin (internal implementation)
+ */
+async function performanceMonitoringImpl(app: FastifyInstance) {
+  // Initialize metrics client once at plugin startup (avoid Promise per-request)
+  await initMetricsClient();
 
   // Hook 1: Record request start time
   app.addHook('onRequest', async (request: FastifyRequest) => {
@@ -203,7 +207,7 @@ export const performanceMonitoring: FastifyPluginAsync = async (app) => {
       routeMetrics.p99.shift();
     }
 
-    // Emit metrics to StatsD/Datadog
+    // Emit metrics to StatsD/Datadog and Prometheus
     emitMetric('histogram', 'request.duration', duration, {
       route: routeKey,
       method,
@@ -267,4 +271,13 @@ export const performanceMonitoring: FastifyPluginAsync = async (app) => {
     p99_threshold_ms: P99_ALERT_THRESHOLD_MS,
     metrics_enabled: METRICS_ENABLED,
   });
-};
+}
+
+/**
+ * Performance monitoring plugin (exported with fastify-plugin so the hooks
+ * apply to every route, not only those registered inside the plugin)
+ */
+export const performanceMonitoring = fp(performanceMonitoringImpl, {
+  name: 'performance-monitoring',
+  fastify: '5.x',
+});
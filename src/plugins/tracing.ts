@@ -0,0 +1,92 @@
+/**
+ * Request Tracing Plugin
+ *
+ * Opens a server span for every request, continuing the caller's trace when
+ * W3C trace context headers (traceparent / tracestate) are present. The span
+ * is active for later hooks and the route handler, so LLM, verification,
+ * ISL and Redis spans become its children.
+ *
+ * No-op unless OTEL_TRACING_ENABLED=true. See utils/tracing.ts.
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import fp from "fastify-plugin";
+import { context, trace, type Span } from "@opentelemetry/api";
+import {
+  extractTraceContext,
+  getTracer,
+  isTracingEnabled,
+  recordSpanError,
+  shutdownTracing,
+  SpanKind,
+} from "../utils/tracing.js";
+import { getRequestId } from "../utils/request-id.js";
+
+const REQUEST_SPAN_KEY = Symbol.for("olumi.requestSpan");
+
+function getRequestSpan(request: FastifyRequest): Span | undefined {
+  return (request as any)[REQUEST_SPAN_KEY];
+}
+
+/**
+ * Tracing plugin (internal implementation)
+ */
+async function tracingPluginImpl(fastify: FastifyInstance) {
+  // Callback-style hook: done() must run inside the span's context so it
+  // propagates to later hooks and the route handler
+  fastify.addHook("onRequest", (request: FastifyRequest, _reply: FastifyReply, done: (err?: Error) => void) => {
+    if (!isTracingEnabled()) {
+      done();
+      return;
+    }
+
+    const route = request.routeOptions.url;
+    const parent = extractTraceContext(request.headers);
+    const span = getTracer().startSpan(
+      route ? `${request.method} ${route}` : request.method,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          "http.request.method": request.method,
+          "url.path": request.url.split("?")[0],
+          ...(route && { "http.route": route }),
+        },
+      },
+      parent
+    );
+    (request as any)[REQUEST_SPAN_KEY] = span;
+
+    context.with(trace.setSpan(parent, span), () => done());
+  });
+
+  fastify.addHook("onError", async (request, _reply, error) => {
+    const span = getRequestSpan(request);
+    if (span) recordSpanError(span, error);
+  });
+
+  fastify.addHook("onResponse", async (request, reply) => {
+    const span = getRequestSpan(request);
+    if (!span) return;
+
+    span.setAttributes({
+      "http.response.status_code": reply.statusCode,
+      "olumi.request_id": getRequestId(request),
+    });
+    if (reply.statusCode >= 500) {
+      recordSpanError(span, `HTTP ${reply.statusCode}`);
+    }
+    span.end();
+  });
+
+  fastify.addHook("onClose", async () => {
+    await shutdownTracing();
+  });
+}
+
+/**
+ * Tracing plugin (exported with fastify-plugin to break encapsulation)
+ */
+export const tracingPlugin = fp(tracingPluginImpl, {
+  name: "tracing",
+  fastify: "5.x",
+});
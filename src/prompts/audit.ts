@@ -25,7 +25,11 @@ export type AuditAction =
   | 'experiment.started'
   | 'experiment.ended'
   | 'admin.login'
-  | 'admin.logout';
+  | 'admin.logout'
+  | 'api_key.created'
+  | 'api_key.updated'
+  | 'api_key.disabled'
+  | 'api_key.rotated';
 
 /**
  * Audit log entry
@@ -42,7 +46,7 @@ export interface AuditEntry {
   /** IP address (if available) */
   ip?: string;
   /** Resource type (prompt, experiment, etc.) */
-  resourceType: 'prompt' | 'version' | 'experiment' | 'admin';
+  resourceType: 'prompt' | 'version' | 'experiment' | 'admin' | 'api_key';
   /** Resource ID */
   resourceId: string;
   /** Changes made (before/after for updates) */
@@ -432,6 +436,25 @@ export async function logVersionApproved(
   });
 }
 
+/**
+ * Log a managed API key change (create, update, disable, rotate)
+ */
+export async function logApiKeyChanged(
+  logger: AuditLogger,
+  action: Extract<AuditAction, `api_key.${string}`>,
+  keyId: string,
+  actor: string,
+  metadata?: Record<string, unknown>
+): Promise<AuditEntry> {
+  return logger.log({
+    action,
+    actor,
+    resourceType: 'api_key',
+    resourceId: keyId,
+    metadata,
+  });
+}
+
 // =========================================================================
 // Singleton Instance
 // =========================================================================
@@ -102,6 +102,7 @@ export {
   logStatusChanged,
   logExperimentStarted,
   logExperimentEnded,
+  logApiKeyChanged,
   type AuditAction,
   type AuditEntry,
   type AuditConfig,
@@ -0,0 +1,44 @@
+/**
+ * Graph Rendering
+ *
+ * Server-side rendering of a GraphT to SVG or PNG for emails, Slack unfurls
+ * and PDF reports, where no browser is available to draw the canvas.
+ * Layout comes from the deterministic layout generator, so the same graph
+ * always renders the same image, and PNGs of a scene rendered recently are
+ * served from the raster cache.
+ */
+
+import type { GraphT } from "../schemas/graph.js";
+import { buildScene, type SceneOptions } from "./scene.js";
+import { renderSvg } from "./svg.js";
+import { renderPngCached } from "./raster-cache.js";
+
+export type RenderFormat = "svg" | "png";
+
+export interface RenderGraphOptions extends SceneOptions {
+  format: RenderFormat;
+  /** PNG pixels per layout unit (ignored for SVG) */
+  scale?: number;
+}
+
+export interface RenderedGraph {
+  contentType: "image/svg+xml" | "image/png";
+  body: string | Buffer;
+}
+
+/**
+ * Render a graph as an SVG document or PNG image.
+ */
+export function renderGraph(graph: GraphT, options: RenderGraphOptions): RenderedGraph {
+  const scene = buildScene(graph, { highlights: options.highlights, title: options.title });
+
+  if (options.format === "png") {
+    return { contentType: "image/png", body: renderPngCached(scene, { scale: options.scale }) };
+  }
+  return { contentType: "image/svg+xml", body: renderSvg(scene) };
+}
+
+export { buildScene, type Scene, type SceneNode, type SceneEdge, type SceneOptions } from "./scene.js";
+export { renderSvg } from "./svg.js";
+export { renderPng, encodePng } from "./png.js";
+export { renderPngCached } from "./raster-cache.js";
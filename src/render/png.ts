@@ -0,0 +1,318 @@
+/**
+ * PNG Renderer
+ *
+ * Rasterises a render scene without a browser or native image library:
+ * every primitive (node outlines, edge lines, dashes, arrowheads, bitmap
+ * glyphs) is filled as a polygon with an even-odd scanline fill at 2×
+ * supersampling, then box-filtered down and encoded as an RGB PNG with
+ * node:zlib.
+ *
+ * Large scenes are scaled down so the raster stays under MAX_RASTER_PIXELS.
+ */
+
+import { deflateSync } from "node:zlib";
+import { GLYPH_HEIGHT, GLYPH_WIDTH, glyphRows } from "./font.js";
+import { CHAR_ADVANCE, GLYPH_PIXEL, LINE_HEIGHT, TITLE_CHAR_ADVANCE, TITLE_POSITION, type Point, type Scene } from "./scene.js";
+
+export interface PngRenderOptions {
+  /** Output pixels per scene unit (default 1) */
+  scale?: number;
+}
+
+type Rgb = [number, number, number];
+
+const SUPERSAMPLE = 2;
+
+/** Cap on supersampled raster size (3 bytes per pixel) */
+export const MAX_RASTER_PIXELS = 12_000_000;
+
+const TEXT_COLOR = "#111827";
+const TITLE_GLYPH_PIXEL = (TITLE_CHAR_ADVANCE / CHAR_ADVANCE) * GLYPH_PIXEL;
+const NODE_STROKE_WIDTH = 1.5;
+const HIGHLIGHT_NODE_WIDTH = 4;
+const HIGHLIGHT_EDGE_EXTRA = 6;
+const HIGHLIGHT_ALPHA = 0.45;
+const DASH_LENGTH = 6;
+const DASH_GAP = 4;
+
+function parseColor(hex: string): Rgb {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+// ============================================================================
+// Raster
+// ============================================================================
+
+class Raster {
+  readonly data: Uint8Array;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    /** Raster pixels per scene unit */
+    readonly k: number,
+    background: Rgb
+  ) {
+    this.data = new Uint8Array(width * height * 3);
+    for (let i = 0; i < this.data.length; i += 3) {
+      this.data[i] = background[0];
+      this.data[i + 1] = background[1];
+      this.data[i + 2] = background[2];
+    }
+  }
+
+  /**
+   * Even-odd scanline fill of a polygon given in scene units.
+   */
+  fillPolygon(polygon: Point[], color: Rgb, alpha = 1): void {
+    if (polygon.length < 3) return;
+    const pts = polygon.map((p) => ({ x: p.x * this.k, y: p.y * this.k }));
+    const minY = Math.max(0, Math.floor(Math.min(...pts.map((p) => p.y))));
+    const maxY = Math.min(this.height - 1, Math.ceil(Math.max(...pts.map((p) => p.y))));
+
+    for (let y = minY; y <= maxY; y++) {
+      const sy = y + 0.5;
+      const xs: number[] = [];
+      for (let i = 0; i < pts.length; i++) {
+        const a = pts[i];
+        const b = pts[(i + 1) % pts.length];
+        if ((a.y <= sy && b.y > sy) || (b.y <= sy && a.y > sy)) {
+          xs.push(a.x + ((sy - a.y) * (b.x - a.x)) / (b.y - a.y));
+        }
+      }
+      xs.sort((p, q) => p - q);
+
+      for (let i = 0; i + 1 < xs.length; i += 2) {
+        const x0 = Math.max(0, Math.ceil(xs[i] - 0.5));
+        const x1 = Math.min(this.width - 1, Math.floor(xs[i + 1] - 0.5));
+        for (let x = x0; x <= x1; x++) this.blend(x, y, color, alpha);
+      }
+    }
+  }
+
+  /**
+   * Thick line segment (scene units).
+   */
+  line(a: Point, b: Point, width: number, color: Rgb, alpha = 1): void {
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) return;
+    const nx = (-(b.y - a.y) / length) * (width / 2);
+    const ny = ((b.x - a.x) / length) * (width / 2);
+    this.fillPolygon(
+      [
+        { x: a.x + nx, y: a.y + ny },
+        { x: b.x + nx, y: b.y + ny },
+        { x: b.x - nx, y: b.y - ny },
+        { x: a.x - nx, y: a.y - ny },
+      ],
+      color,
+      alpha
+    );
+  }
+
+  dashedLine(a: Point, b: Point, width: number, color: Rgb): void {
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const ux = (b.x - a.x) / length;
+    const uy = (b.y - a.y) / length;
+    for (let d = 0; d < length; d += DASH_LENGTH + DASH_GAP) {
+      const end = Math.min(length, d + DASH_LENGTH);
+      this.line({ x: a.x + ux * d, y: a.y + uy * d }, { x: a.x + ux * end, y: a.y + uy * end }, width, color);
+    }
+  }
+
+  /**
+   * Closed outline with square-ish joins.
+   */
+  strokePolygon(polygon: Point[], width: number, color: Rgb): void {
+    polygon.forEach((point, i) => {
+      const next = polygon[(i + 1) % polygon.length];
+      this.line(point, next, width, color);
+      this.fillPolygon(
+        [
+          { x: point.x - width / 2, y: point.y - width / 2 },
+          { x: point.x + width / 2, y: point.y - width / 2 },
+          { x: point.x + width / 2, y: point.y + width / 2 },
+          { x: point.x - width / 2, y: point.y + width / 2 },
+        ],
+        color
+      );
+    });
+  }
+
+  /**
+   * Bitmap text with its top-left corner at (x, y), scene units.
+   */
+  text(text: string, x: number, y: number, pixel: number, color: Rgb): void {
+    [...text].forEach((char, index) => {
+      const rows = glyphRows(char);
+      const left = x + index * (GLYPH_WIDTH + 1) * pixel;
+      rows.forEach((bits, row) => {
+        for (let col = 0; col < GLYPH_WIDTH; col++) {
+          if (!(bits & (1 << (GLYPH_WIDTH - 1 - col)))) continue;
+          const px = left + col * pixel;
+          const py = y + row * pixel;
+          this.fillPolygon(
+            [{ x: px, y: py }, { x: px + pixel, y: py }, { x: px + pixel, y: py + pixel }, { x: px, y: py + pixel }],
+            color
+          );
+        }
+      });
+    });
+  }
+
+  private blend(x: number, y: number, color: Rgb, alpha: number): void {
+    const i = (y * this.width + x) * 3;
+    if (alpha >= 1) {
+      this.data[i] = color[0];
+      this.data[i + 1] = color[1];
+      this.data[i + 2] = color[2];
+      return;
+    }
+    for (let c = 0; c < 3; c++) {
+      this.data[i + c] = Math.round(this.data[i + c] * (1 - alpha) + color[c] * alpha);
+    }
+  }
+}
+
+/**
+ * Box-filter a supersampled raster down by SUPERSAMPLE.
+ */
+function downsample(raster: Raster, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(width * height * 3);
+  const samples = SUPERSAMPLE * SUPERSAMPLE;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+          const ry = Math.min(raster.height - 1, y * SUPERSAMPLE + sy);
+          for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+            const rx = Math.min(raster.width - 1, x * SUPERSAMPLE + sx);
+            sum += raster.data[(ry * raster.width + rx) * 3 + c];
+          }
+        }
+        out[(y * width + x) * 3 + c] = Math.round(sum / samples);
+      }
+    }
+  }
+
+  return out;
+}
+
+// ============================================================================
+// PNG encoding
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buf) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode 8-bit RGB pixels as a PNG.
+ */
+export function encodePng(width: number, height: number, rgb: Uint8Array): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: truecolour
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+// ============================================================================
+// Scene rendering
+// ============================================================================
+
+/**
+ * Render a scene as a PNG.
+ */
+export function renderPng(scene: Scene, options: PngRenderOptions = {}): Buffer {
+  const requested = options.scale ?? 1;
+  const cap = Math.sqrt(MAX_RASTER_PIXELS / (scene.width * scene.height * SUPERSAMPLE * SUPERSAMPLE));
+  const scale = Math.min(requested, cap);
+
+  const width = Math.max(1, Math.round(scene.width * scale));
+  const height = Math.max(1, Math.round(scene.height * scale));
+  const raster = new Raster(width * SUPERSAMPLE, height * SUPERSAMPLE, scale * SUPERSAMPLE, parseColor(scene.background));
+  const textColor = parseColor(TEXT_COLOR);
+
+  if (scene.title) {
+    raster.text(scene.title, TITLE_POSITION.x, TITLE_POSITION.y - GLYPH_HEIGHT * TITLE_GLYPH_PIXEL, TITLE_GLYPH_PIXEL, textColor);
+  }
+
+  for (const edge of scene.edges) {
+    if (edge.highlight) {
+      raster.line(edge.start, edge.end, edge.width + HIGHLIGHT_EDGE_EXTRA, parseColor(edge.highlight), HIGHLIGHT_ALPHA);
+    }
+    const color = parseColor(edge.color);
+    if (edge.dashed) {
+      raster.dashedLine(edge.start, edge.end, edge.width, color);
+    } else {
+      raster.line(edge.start, edge.end, edge.width, color);
+    }
+    raster.fillPolygon(edge.arrow, edge.highlight ? parseColor(edge.highlight) : color);
+  }
+
+  for (const node of scene.nodes) {
+    raster.fillPolygon(node.outline, parseColor(node.fill));
+    raster.strokePolygon(
+      node.outline,
+      node.highlight ? HIGHLIGHT_NODE_WIDTH : NODE_STROKE_WIDTH,
+      parseColor(node.highlight ?? node.stroke)
+    );
+
+    const firstCentre = node.y - ((node.lines.length - 1) * LINE_HEIGHT) / 2;
+    node.lines.forEach((line, i) => {
+      const lineWidth = line.length * CHAR_ADVANCE - GLYPH_PIXEL;
+      raster.text(
+        line,
+        node.x - lineWidth / 2,
+        firstCentre + i * LINE_HEIGHT - (GLYPH_HEIGHT * GLYPH_PIXEL) / 2,
+        GLYPH_PIXEL,
+        textColor
+      );
+    });
+  }
+
+  return encodePng(width, height, downsample(raster, width, height));
+}
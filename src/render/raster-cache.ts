@@ -0,0 +1,37 @@
+/**
+ * Raster Cache
+ *
+ * Rasterising a large scene takes the better part of a second on the event
+ * loop, and the same image is requested over and over (a public share link
+ * unfurled in a channel, a report exported twice). Scenes are deterministic,
+ * so PNGs are cached by a hash of the scene and scale.
+ */
+
+import { createHash } from "node:crypto";
+import { LruTtlCache } from "../utils/cache.js";
+import { renderPng, type PngRenderOptions } from "./png.js";
+import type { Scene } from "./scene.js";
+
+const RASTER_CACHE_ENTRIES = 64;
+const RASTER_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const rasterCache = new LruTtlCache<string, Buffer>(RASTER_CACHE_ENTRIES, RASTER_CACHE_TTL_MS);
+
+function rasterKey(scene: Scene, scale: number): string {
+  return createHash("sha256").update(JSON.stringify([scale, scene])).digest("hex");
+}
+
+/**
+ * renderPng, reusing the previous raster of an identical scene.
+ */
+export function renderPngCached(scene: Scene, options: PngRenderOptions = {}): Buffer {
+  const key = rasterKey(scene, options.scale ?? 1);
+  const cached = rasterCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const png = renderPng(scene, options);
+  rasterCache.set(key, png);
+  return png;
+}
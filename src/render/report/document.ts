@@ -0,0 +1,510 @@
+/**
+ * Review Report Document
+ *
+ * Turns a /assist/v1/review response plus the graph it reviewed into a
+ * format-neutral decision memo shared by the Markdown, HTML and PDF
+ * renderers: an executive summary, one section per populated review block,
+ * numbered evidence citations taken from edge provenance, and an appendix
+ * listing every causal assumption and factor value in the graph.
+ *
+ * Citations are numbered in edge order and deduplicated by source, quote
+ * and location, so the same document cited on two edges gets one number.
+ */
+
+import type { GraphT, EdgeT, NodeT } from "../../schemas/graph.js";
+import type { ReviewBlockT, ReviewResponseT } from "../../schemas/review.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReportItem {
+  /** Bold lead-in (e.g. a label or severity) */
+  lead?: string;
+  text: string;
+  /** Secondary lines shown under the item */
+  details?: string[];
+  /** Citation numbers */
+  citations?: number[];
+}
+
+export type ReportBlock =
+  | { kind: "paragraph"; text: string }
+  | { kind: "quote"; text: string }
+  | { kind: "list"; items: ReportItem[] }
+  | { kind: "table"; columns: string[]; rows: string[][] }
+  | { kind: "graph" };
+
+export interface ReportSection {
+  id: string;
+  heading: string;
+  blocks: ReportBlock[];
+}
+
+export interface ReportCitation {
+  number: number;
+  source: string;
+  quote?: string;
+  location?: string;
+  /** document | metric | hypothesis | engine */
+  kind?: string;
+}
+
+export interface ReportDocument {
+  title: string;
+  /** ISO timestamp the report was generated */
+  generatedAt: string;
+  requestId: string;
+  sections: ReportSection[];
+  citations: ReportCitation[];
+  /** Appendix sections (assumptions, factor values) */
+  appendix: ReportSection[];
+  graph: GraphT;
+}
+
+export interface ReviewReportInput {
+  graph: GraphT;
+  review: ReviewResponseT;
+  /** Original decision brief, quoted in the executive summary */
+  brief?: string;
+  /** Defaults to "Decision memo: <goal label>" */
+  title?: string;
+  /** Defaults to now */
+  generatedAt?: string;
+}
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+const READINESS_LABELS: Record<ReviewResponseT["readiness"]["level"], string> = {
+  ready: "Ready to decide",
+  caution: "Proceed with caution",
+  not_ready: "Not ready to decide",
+};
+
+const QUALITY_LABELS: Record<NonNullable<ReviewResponseT["decision_quality"]>["level"], string> = {
+  incomplete: "Incomplete",
+  needs_strengthening: "Needs strengthening",
+  good: "Good",
+  solid: "Solid",
+};
+
+const ROBUSTNESS_STATUS_TEXT: Record<Exclude<BlockOf<"robustness">["status"], "computed">, string> = {
+  cannot_compute: "could not be computed",
+  requires_run: "has not been run",
+  degraded: "is incomplete",
+};
+
+const SEVERITY_RANK: Record<string, number> = { error: 3, high: 3, warning: 2, medium: 2, info: 1, low: 1 };
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function humanize(text: string): string {
+  return capitalize(text.replace(/_/g, " "));
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function signed(value: number): string {
+  return `${value >= 0 ? "+" : "−"}${Math.abs(value).toFixed(2)}`;
+}
+
+function formatNumber(value: number, unit?: string): string {
+  const text = Number.isInteger(value) ? String(value) : String(Math.round(value * 100) / 100);
+  if (!unit) return text;
+  return /^[£$€¥]$/.test(unit) ? `${unit}${text}` : `${text} ${unit}`;
+}
+
+// ============================================================================
+// Citations
+// ============================================================================
+
+function edgeKeys(edge: EdgeT): string[] {
+  return [...(edge.id ? [edge.id] : []), `${edge.from}->${edge.to}`, `${edge.from}::${edge.to}`];
+}
+
+class CitationIndex {
+  readonly citations: ReportCitation[] = [];
+  private readonly byEdge = new Map<EdgeT, number>();
+
+  constructor(private readonly edges: EdgeT[]) {
+    const byKey = new Map<string, number>();
+    for (const edge of edges) {
+      if (!edge.provenance) continue;
+      const citation: Omit<ReportCitation, "number"> =
+        typeof edge.provenance === "string"
+          ? { source: edge.provenance, kind: edge.provenance_source }
+          : {
+              source: edge.provenance.source,
+              quote: edge.provenance.quote || undefined,
+              location: edge.provenance.location,
+              kind: edge.provenance_source,
+            };
+      const key = JSON.stringify([citation.source, citation.quote, citation.location]);
+      let number = byKey.get(key);
+      if (number === undefined) {
+        number = this.citations.length + 1;
+        byKey.set(key, number);
+        this.citations.push({ number, ...citation });
+      }
+      this.byEdge.set(edge, number);
+    }
+  }
+
+  forEdge(edge: EdgeT): number[] {
+    const number = this.byEdge.get(edge);
+    return number === undefined ? [] : [number];
+  }
+
+  /** Citations on edges touching any of the nodes */
+  forNodes(nodeIds: readonly string[] | undefined): number[] {
+    if (!nodeIds?.length) return [];
+    const ids = new Set(nodeIds);
+    const numbers = new Set<number>();
+    for (const edge of this.edges) {
+      if (ids.has(edge.from) || ids.has(edge.to)) this.forEdge(edge).forEach((n) => numbers.add(n));
+    }
+    return [...numbers].sort((a, b) => a - b);
+  }
+}
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+type BlockOf<T extends ReviewBlockT["type"]> = Extract<ReviewBlockT, { type: T }>;
+
+interface BuildContext {
+  input: ReviewReportInput;
+  cites: CitationIndex;
+  label: (nodeId: string) => string;
+  block: <T extends ReviewBlockT["type"]>(type: T) => BlockOf<T> | undefined;
+}
+
+function executiveSummary(ctx: BuildContext): ReportSection {
+  const { review, brief } = ctx.input;
+  const blocks: ReportBlock[] = [];
+
+  if (brief) blocks.push({ kind: "quote", text: brief.trim() });
+
+  const readinessScore = review.readiness.score !== undefined ? ` (${percent(review.readiness.score)})` : "";
+  blocks.push({
+    kind: "paragraph",
+    text: `${READINESS_LABELS[review.readiness.level]}${readinessScore}: ${review.readiness.headline}`,
+  });
+
+  if (review.rationale) blocks.push({ kind: "paragraph", text: review.rationale.summary });
+  if (review.decision_quality) {
+    blocks.push({
+      kind: "paragraph",
+      text: `Decision quality: ${QUALITY_LABELS[review.decision_quality.level]}. ${review.decision_quality.summary}`,
+    });
+  }
+
+  const highlights: ReportItem[] = [];
+  const prediction = ctx.block("prediction");
+  if (prediction) highlights.push({ lead: "Key insight", text: prediction.headline });
+
+  const driver = ctx.block("drivers")?.suggestions[0];
+  if (driver) {
+    highlights.push({
+      lead: "Top driver",
+      text: driver.impact_description ? `${driver.label}: ${driver.impact_description}` : driver.label,
+      citations: ctx.cites.forNodes([driver.node_id]),
+    });
+  } else if (review.rationale?.key_driver) {
+    highlights.push({ lead: "Top driver", text: review.rationale.key_driver });
+  }
+
+  const concern = topConcern(ctx);
+  if (concern) highlights.push({ lead: "Main concern", ...concern });
+
+  const nextStep = review.improvement_guidance?.[0]?.action
+    ?? ctx.block("next_steps")?.recommendations?.[0]
+    ?? review.guidance?.next_steps?.[0];
+  if (nextStep) highlights.push({ lead: "Next step", text: nextStep });
+
+  if (highlights.length > 0) blocks.push({ kind: "list", items: highlights });
+
+  return { id: "summary", heading: "Executive summary", blocks };
+}
+
+/** Most severe bias, structural warning or insight */
+function topConcern(ctx: BuildContext): Omit<ReportItem, "lead"> | undefined {
+  const candidates: Array<{ rank: number; item: Omit<ReportItem, "lead"> }> = [
+    ...(ctx.block("biases")?.findings ?? []).map((f) => ({
+      rank: SEVERITY_RANK[f.severity],
+      item: { text: `${humanize(f.bias_type)}: ${f.description}`, citations: ctx.cites.forNodes(f.affected_nodes) },
+    })),
+    ...(ctx.block("risks")?.warnings ?? []).map((w) => ({
+      rank: SEVERITY_RANK[w.severity],
+      item: { text: w.message, citations: ctx.cites.forNodes(w.affected_nodes) },
+    })),
+    ...(ctx.input.review.insights ?? []).map((i) => ({
+      rank: SEVERITY_RANK[i.severity ?? "low"],
+      item: { text: i.content },
+    })),
+  ];
+  // Stable: earlier candidates win ties
+  return candidates.reduce<(typeof candidates)[number] | undefined>(
+    (best, c) => (!best || c.rank > best.rank ? c : best),
+    undefined
+  )?.item;
+}
+
+function recommendationSection(ctx: BuildContext): ReportSection {
+  const { rationale } = ctx.input.review;
+  const blocks: ReportBlock[] = [];
+
+  if (rationale?.goal_alignment) blocks.push({ kind: "paragraph", text: rationale.goal_alignment });
+  if (rationale?.key_driver) blocks.push({ kind: "paragraph", text: `Key driver: ${rationale.key_driver}` });
+
+  const suggestions = ctx.block("recommendation")?.suggestions ?? [];
+  if (suggestions.length > 0) {
+    blocks.push({
+      kind: "list",
+      items: suggestions.map((s) => ({
+        lead: s.label,
+        text: s.description ?? "",
+        details: [
+          ...(s.pros?.length ? [`Pros: ${s.pros.join("; ")}`] : []),
+          ...(s.cons?.length ? [`Cons: ${s.cons.join("; ")}`] : []),
+        ],
+      })),
+    });
+  }
+
+  return { id: "recommendation", heading: "Recommendation", blocks };
+}
+
+function driversSection(ctx: BuildContext): ReportSection {
+  const suggestions = ctx.block("drivers")?.suggestions ?? [];
+  const items = suggestions.map((s) => ({
+    lead: s.label,
+    text: [
+      `sensitivity ${s.sensitivity.toFixed(2)}${s.direction ? `, ${s.direction}` : ""}.`,
+      s.impact_description ?? "",
+    ].join(" ").trim(),
+    citations: ctx.cites.forNodes([s.node_id]),
+  }));
+  return { id: "drivers", heading: "Key drivers", blocks: items.length ? [{ kind: "list", items }] : [] };
+}
+
+function risksSection(ctx: BuildContext): ReportSection {
+  const ranked: Array<{ rank: number; item: ReportItem }> = [
+    ...(ctx.block("biases")?.findings ?? []).map((f) => ({
+      rank: SEVERITY_RANK[f.severity],
+      item: {
+        lead: `${humanize(f.bias_type)} (${f.severity})`,
+        text: f.description,
+        details: f.mitigation_hint ? [`Mitigation: ${f.mitigation_hint}`] : [],
+        citations: ctx.cites.forNodes(f.affected_nodes),
+      },
+    })),
+    ...(ctx.block("risks")?.warnings ?? []).map((w) => ({
+      rank: SEVERITY_RANK[w.severity],
+      item: {
+        lead: `${humanize(w.type)} (${w.severity})`,
+        text: w.message,
+        details: w.affected_nodes?.length ? [`Affects: ${w.affected_nodes.map(ctx.label).join(", ")}`] : [],
+        citations: ctx.cites.forNodes(w.affected_nodes),
+      },
+    })),
+  ];
+  const items = ranked.sort((a, b) => b.rank - a.rank).map((r) => r.item);
+
+  return { id: "risks", heading: "Risks and biases", blocks: items.length ? [{ kind: "list", items }] : [] };
+}
+
+function gapsSection(ctx: BuildContext): ReportSection {
+  const suggestions = ctx.block("gaps")?.suggestions ?? [];
+  const items = suggestions.map((s) => ({
+    lead: `${humanize(s.type)}${s.priority ? ` (${s.priority} priority)` : ""}`,
+    text: s.description,
+    details: s.target_nodes?.length ? [`Targets: ${s.target_nodes.map(ctx.label).join(", ")}`] : [],
+    citations: ctx.cites.forNodes(s.target_nodes),
+  }));
+  return { id: "evidence-gaps", heading: "Evidence gaps", blocks: items.length ? [{ kind: "list", items }] : [] };
+}
+
+function robustnessSection(ctx: BuildContext): ReportSection {
+  const block = ctx.block("robustness");
+  const synthesis = ctx.input.review.robustness_synthesis;
+  const blocks: ReportBlock[] = [];
+
+  const headline = synthesis?.headline ?? block?.summary;
+  if (headline) blocks.push({ kind: "paragraph", text: headline });
+  if (block && block.status !== "computed") {
+    const status = ROBUSTNESS_STATUS_TEXT[block.status];
+    blocks.push({
+      kind: "paragraph",
+      text: `Robustness analysis ${status}${block.status_reason ? `: ${block.status_reason}` : "."}`,
+    });
+  }
+
+  const findings = (block?.findings ?? []).map((f) => ({
+    lead: `${f.label} (${f.severity})`,
+    text: f.description,
+    details: f.recommendation ? [f.recommendation] : [],
+    citations: f.node_id ? ctx.cites.forNodes([f.node_id]) : [],
+  }));
+  const investigations = (synthesis?.investigation_suggestions ?? []).map((s) => ({
+    lead: ctx.label(s.factor_id),
+    text: s.suggestion,
+    details: s.validation_action ? [s.validation_action] : [],
+    citations: ctx.cites.forNodes([s.factor_id]),
+  }));
+  if (findings.length + investigations.length > 0) {
+    blocks.push({ kind: "list", items: [...findings, ...investigations] });
+  }
+
+  return { id: "robustness", heading: "Robustness", blocks };
+}
+
+function nextStepsSection(ctx: BuildContext): ReportSection {
+  const { review } = ctx.input;
+  const guidance = review.improvement_guidance ?? [];
+  const items: ReportItem[] = guidance.length
+    ? guidance.map((g) => ({ text: g.action, details: [g.reason] }))
+    : [...(ctx.block("next_steps")?.recommendations ?? []), ...(review.guidance?.next_steps ?? [])].map((text) => ({ text }));
+
+  const seen = new Set<string>();
+  const unique = items.filter((item) => !seen.has(item.text) && seen.add(item.text));
+  return { id: "next-steps", heading: "Next steps", blocks: unique.length ? [{ kind: "list", items: unique }] : [] };
+}
+
+// ============================================================================
+// Appendix
+// ============================================================================
+
+function assumptionsAppendix(ctx: BuildContext): ReportSection {
+  const { graph, review } = ctx.input;
+  const kinds = new Map(graph.nodes.map((n) => [n.id, n.kind]));
+  const explanations = new Map(
+    (review.robustness_synthesis?.assumption_explanations ?? []).map((a) => [a.edge_id, a])
+  );
+
+  // Decision → option edges are structure, not assumptions
+  const edges = graph.edges.filter((e) => kinds.get(e.from) !== "decision");
+  const rows = edges.map((edge) => {
+    const strength = edge.strength_mean ?? edge.weight;
+    const belief = edge.belief_exists ?? edge.belief;
+    const citations = ctx.cites.forEdge(edge);
+    const explanation = edgeKeys(edge).map((k) => explanations.get(k)).find(Boolean);
+    return [
+      `${ctx.label(edge.from)} → ${ctx.label(edge.to)}`,
+      strength !== undefined ? signed(strength) : edge.effect_direction ?? "—",
+      belief !== undefined ? percent(belief) : "—",
+      citations.length
+        ? citations.map((n) => `[${n}]`).join(" ")
+        : edge.provenance_source === "hypothesis" ? "Hypothesis" : "None cited",
+      explanation ? capitalize(explanation.severity) : "—",
+    ];
+  });
+
+  const blocks: ReportBlock[] = [
+    {
+      kind: "paragraph",
+      text: "Each relationship in the model is an assumption. Effect is the modelled strength (−1 to +1); confidence is the belief that the relationship exists.",
+    },
+    { kind: "table", columns: ["Relationship", "Effect", "Confidence", "Evidence", "Robustness"], rows },
+  ];
+
+  const fragile = [...explanations.values()].filter((a) => a.severity !== "robust");
+  if (fragile.length > 0) {
+    blocks.push({
+      kind: "list",
+      items: fragile.map((a) => ({
+        lead: capitalize(a.severity),
+        text: a.explanation,
+        details: a.validation_hint ? [`To validate: ${a.validation_hint}`] : [],
+      })),
+    });
+  }
+
+  return { id: "assumptions", heading: "Appendix A: Assumptions", blocks };
+}
+
+function factorsAppendix(ctx: BuildContext): ReportSection {
+  const rows = ctx.input.graph.nodes.flatMap((node: NodeT) => {
+    const data = node.data;
+    if (!data || !("value" in data)) return [];
+    const range = data.range ?? (data.rangeMin !== undefined && data.rangeMax !== undefined
+      ? { min: data.rangeMin, max: data.rangeMax }
+      : undefined);
+    return [[
+      ctx.label(node.id),
+      formatNumber(data.value, data.unit),
+      data.baseline !== undefined ? formatNumber(data.baseline, data.unit) : "—",
+      range ? `${formatNumber(range.min, data.unit)} – ${formatNumber(range.max, data.unit)}` : "—",
+      data.extractionType ? capitalize(data.extractionType) : "—",
+    ]];
+  });
+
+  return {
+    id: "factors",
+    heading: "Appendix B: Factor values",
+    blocks: rows.length
+      ? [{ kind: "table", columns: ["Factor", "Value", "Baseline", "Range", "Source"], rows }]
+      : [],
+  };
+}
+
+// ============================================================================
+// Builder
+// ============================================================================
+
+/**
+ * Build the report document for a review.
+ */
+export function buildReviewReport(input: ReviewReportInput): ReportDocument {
+  const { graph, review } = input;
+  const nodes = new Map(graph.nodes.map((n) => [n.id, n]));
+  const ctx: BuildContext = {
+    input,
+    cites: new CitationIndex(graph.edges),
+    label: (nodeId) => nodes.get(nodeId)?.label ?? nodeId,
+    block: (type) => review.blocks.find((b) => b.type === type) as never,
+  };
+
+  const goal = graph.nodes.find((n) => n.kind === "goal");
+  const title = input.title ?? (goal?.label ? `Decision memo: ${goal.label}` : "Decision memo");
+
+  const sections = [
+    executiveSummary(ctx),
+    { id: "graph", heading: "Decision model", blocks: [{ kind: "graph" }] } satisfies ReportSection,
+    recommendationSection(ctx),
+    driversSection(ctx),
+    risksSection(ctx),
+    gapsSection(ctx),
+    robustnessSection(ctx),
+    nextStepsSection(ctx),
+  ].filter((s) => s.blocks.length > 0);
+
+  return {
+    title,
+    generatedAt: input.generatedAt ?? new Date().toISOString(),
+    requestId: review.trace.request_id,
+    sections,
+    citations: ctx.cites.citations,
+    appendix: [assumptionsAppendix(ctx), factorsAppendix(ctx)].filter((s) => s.blocks.length > 0),
+    graph,
+  };
+}
+
+/** "[1, 3]" style marker text, shared by the text renderers */
+export function citationMarker(numbers: readonly number[] | undefined): string {
+  return numbers?.length ? `[${numbers.join(", ")}]` : "";
+}
+
+/** "Source, location — “quote”" */
+export function citationText(citation: ReportCitation): string {
+  const where = [citation.source, citation.location].filter(Boolean).join(", ");
+  const kind = citation.kind && citation.kind !== "document" ? ` (${citation.kind})` : "";
+  return citation.quote ? `${where}${kind} — “${citation.quote}”` : `${where}${kind}`;
+}
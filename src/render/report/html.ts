@@ -0,0 +1,113 @@
+/**
+ * HTML Report Renderer
+ *
+ * Serialises a report document as a single HTML page with inline styles
+ * and an inline SVG graph, so it can be emailed or opened offline. Citation
+ * markers link to the reference list.
+ */
+
+import { escapeXml, renderSvg } from "../svg.js";
+import { buildScene } from "../scene.js";
+import { citationText, type ReportBlock, type ReportDocument, type ReportItem, type ReportSection } from "./document.js";
+
+const STYLE = `
+body { font-family: Helvetica, Arial, sans-serif; color: #111827; max-width: 820px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+h1 { font-size: 26px; margin-bottom: 4px; }
+h2 { font-size: 19px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 32px; }
+.meta { color: #6b7280; font-size: 13px; }
+blockquote { margin: 0 0 16px; padding: 8px 16px; border-left: 4px solid #d1d5db; color: #374151; background: #f9fafb; }
+li { margin-bottom: 6px; }
+li ul { margin-top: 4px; color: #4b5563; }
+sup a { text-decoration: none; }
+table { border-collapse: collapse; width: 100%; font-size: 14px; }
+th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; }
+figure { margin: 0; overflow-x: auto; }
+figure svg { max-width: 100%; height: auto; }
+ol.references { font-size: 14px; }
+@media print { body { margin: 0; max-width: none; } h2 { break-after: avoid; } figure, tr { break-inside: avoid; } }
+`.trim();
+
+function citationLinks(citations?: number[]): string {
+  if (!citations?.length) return "";
+  const links = citations.map((n) => `<a href="#ref-${n}">${n}</a>`).join(", ");
+  return ` <sup>[${links}]</sup>`;
+}
+
+function itemHtml(item: ReportItem): string {
+  const text = escapeXml(item.text);
+  const lead = item.lead ? `<strong>${escapeXml(item.lead)}</strong>${text ? ` — ` : ""}` : "";
+  const details = item.details?.length
+    ? `<ul>${item.details.map((d) => `<li>${escapeXml(d)}</li>`).join("")}</ul>`
+    : "";
+  return `<li>${lead}${text}${citationLinks(item.citations)}${details}</li>`;
+}
+
+function blockHtml(block: ReportBlock, doc: ReportDocument): string {
+  switch (block.kind) {
+    case "paragraph":
+      return `<p>${escapeXml(block.text)}</p>`;
+    case "quote":
+      return `<blockquote>${escapeXml(block.text).replace(/\n/g, "<br>")}</blockquote>`;
+    case "list":
+      return `<ul>\n${block.items.map(itemHtml).join("\n")}\n</ul>`;
+    case "table":
+      return [
+        "<table>",
+        `<thead><tr>${block.columns.map((c) => `<th>${escapeXml(c)}</th>`).join("")}</tr></thead>`,
+        "<tbody>",
+        ...block.rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeXml(cell)}</td>`).join("")}</tr>`),
+        "</tbody>",
+        "</table>",
+      ].join("\n");
+    case "graph":
+      return `<figure>\n${renderSvg(buildScene(doc.graph)).trimEnd()}\n</figure>`;
+  }
+}
+
+function sectionHtml(section: ReportSection, doc: ReportDocument): string {
+  return [
+    `<section id="${section.id}">`,
+    `<h2>${escapeXml(section.heading)}</h2>`,
+    ...section.blocks.map((block) => blockHtml(block, doc)),
+    "</section>",
+  ].join("\n");
+}
+
+/**
+ * Render a report document as a standalone HTML page.
+ */
+export function renderReportHtml(doc: ReportDocument): string {
+  const references = doc.citations.length
+    ? [
+        `<section id="references">`,
+        "<h2>References</h2>",
+        `<ol class="references">`,
+        ...doc.citations.map((c) => `<li id="ref-${c.number}">${escapeXml(citationText(c))}</li>`),
+        "</ol>",
+        "</section>",
+      ]
+    : [];
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="en">`,
+    "<head>",
+    `<meta charset="utf-8">`,
+    `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+    `<title>${escapeXml(doc.title)}</title>`,
+    `<style>\n${STYLE}\n</style>`,
+    "</head>",
+    "<body>",
+    "<header>",
+    `<h1>${escapeXml(doc.title)}</h1>`,
+    `<p class="meta">Generated ${escapeXml(doc.generatedAt.slice(0, 10))} · Review ${escapeXml(doc.requestId)}</p>`,
+    "</header>",
+    ...doc.sections.map((section) => sectionHtml(section, doc)),
+    ...references,
+    ...doc.appendix.map((section) => sectionHtml(section, doc)),
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,49 @@
+/**
+ * Review Reports
+ *
+ * Renders a /assist/v1/review response and its graph as a self-contained
+ * decision memo - Markdown, HTML or PDF - that can be circulated to people
+ * who don't use the app.
+ */
+
+import { buildReviewReport, type ReviewReportInput } from "./document.js";
+import { renderReportMarkdown } from "./markdown.js";
+import { renderReportHtml } from "./html.js";
+import { renderReportPdf } from "./pdf.js";
+
+export type ReportFormat = "markdown" | "html" | "pdf";
+
+export interface RenderedReport {
+  contentType: "text/markdown; charset=utf-8" | "text/html; charset=utf-8" | "application/pdf";
+  extension: "md" | "html" | "pdf";
+  body: string | Buffer;
+}
+
+/**
+ * Render a review report in the requested format.
+ */
+export function renderReviewReport(input: ReviewReportInput, format: ReportFormat): RenderedReport {
+  const doc = buildReviewReport(input);
+
+  switch (format) {
+    case "markdown":
+      return { contentType: "text/markdown; charset=utf-8", extension: "md", body: renderReportMarkdown(doc) };
+    case "html":
+      return { contentType: "text/html; charset=utf-8", extension: "html", body: renderReportHtml(doc) };
+    case "pdf":
+      return { contentType: "application/pdf", extension: "pdf", body: renderReportPdf(doc) };
+  }
+}
+
+export {
+  buildReviewReport,
+  type ReviewReportInput,
+  type ReportDocument,
+  type ReportSection,
+  type ReportBlock,
+  type ReportItem,
+  type ReportCitation,
+} from "./document.js";
+export { renderReportMarkdown } from "./markdown.js";
+export { renderReportHtml } from "./html.js";
+export { renderReportPdf } from "./pdf.js";
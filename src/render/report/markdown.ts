@@ -0,0 +1,84 @@
+/**
+ * Markdown Report Renderer
+ *
+ * Serialises a report document as GitHub-flavoured Markdown. The graph is
+ * embedded as a base64 SVG data URI so the file has no external assets.
+ */
+
+import { renderSvg } from "../svg.js";
+import { buildScene } from "../scene.js";
+import { citationMarker, citationText, type ReportBlock, type ReportDocument, type ReportItem, type ReportSection } from "./document.js";
+
+/** Escape characters that would start Markdown syntax mid-text, including link and image brackets */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_<>|~[\]!])/g, "\\$1");
+}
+
+/** escapeMarkdown, plus block markers (headings, list items, setext underlines) at the start of a line */
+function escapeBlock(text: string): string {
+  return escapeMarkdown(text)
+    .replace(/^(\s*)([#+\-=])/gm, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])/gm, "$1\\$2");
+}
+
+function withCitations(text: string, citations?: number[]): string {
+  const marker = citationMarker(citations);
+  return marker ? `${text} ${marker}` : text;
+}
+
+function itemLines(item: ReportItem): string[] {
+  const text = escapeBlock(item.text);
+  const body = item.lead ? `**${escapeMarkdown(item.lead)}**${text ? ` — ${text}` : ""}` : text;
+  return [
+    `- ${withCitations(body, item.citations)}`,
+    ...(item.details ?? []).map((detail) => `  - ${escapeBlock(detail)}`),
+  ];
+}
+
+function blockLines(block: ReportBlock, doc: ReportDocument): string[] {
+  switch (block.kind) {
+    case "paragraph":
+      return [escapeBlock(block.text), ""];
+    case "quote":
+      return [...block.text.split("\n").map((line) => `> ${escapeBlock(line)}`), ""];
+    case "list":
+      return [...block.items.flatMap(itemLines), ""];
+    case "table":
+      return [
+        `| ${block.columns.map(escapeMarkdown).join(" | ")} |`,
+        `| ${block.columns.map(() => "---").join(" | ")} |`,
+        ...block.rows.map((row) => `| ${row.map(escapeMarkdown).join(" | ")} |`),
+        "",
+      ];
+    case "graph": {
+      const svg = renderSvg(buildScene(doc.graph));
+      return [`![Decision graph](data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")})`, ""];
+    }
+  }
+}
+
+function sectionLines(section: ReportSection, doc: ReportDocument): string[] {
+  return [`## ${escapeMarkdown(section.heading)}`, "", ...section.blocks.flatMap((block) => blockLines(block, doc))];
+}
+
+/**
+ * Render a report document as Markdown.
+ */
+export function renderReportMarkdown(doc: ReportDocument): string {
+  const lines = [
+    `# ${escapeMarkdown(doc.title)}`,
+    "",
+    `_Generated ${doc.generatedAt.slice(0, 10)} · Review ${escapeMarkdown(doc.requestId)}_`,
+    "",
+    ...doc.sections.flatMap((section) => sectionLines(section, doc)),
+  ];
+
+  if (doc.citations.length > 0) {
+    lines.push("## References", "");
+    lines.push(...doc.citations.map((c) => `${c.number}. ${escapeBlock(citationText(c))}`), "");
+  }
+
+  lines.push(...doc.appendix.flatMap((section) => sectionLines(section, doc)));
+
+  return `${lines.join("\n").trimEnd()}\n`;
+}
@@ -0,0 +1,489 @@
+/**
+ * PDF Report Renderer
+ *
+ * Lays out a report document as an A4 PDF without a browser or PDF
+ * library: text is set in the standard Helvetica fonts (no embedding, so
+ * text is WinAnsi-encoded and characters outside it are transliterated or
+ * replaced), wrapped using the Helvetica AFM advance widths, and the graph
+ * is the PNG renderer's (cached) output embedded as a Flate image - its IDAT stream
+ * is already valid PDF image data with the PNG predictor.
+ *
+ * Content streams are left uncompressed and no timestamps other than the
+ * report's own are written, so identical documents produce identical files.
+ */
+
+import { renderPngCached } from "../raster-cache.js";
+import { buildScene } from "../scene.js";
+import { citationMarker, citationText, type ReportBlock, type ReportDocument, type ReportItem, type ReportSection } from "./document.js";
+
+// ============================================================================
+// Fonts and encoding
+// ============================================================================
+
+type Font = "F1" | "F2";
+
+/** Helvetica advance widths for ASCII 32-126 (1/1000 em) */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Helvetica-Bold advance widths for ASCII 32-126 (1/1000 em) */
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** WinAnsi code points for characters outside Latin-1 */
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94,
+  "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+const TRANSLITERATIONS: Record<string, string> = {
+  "→": "->", "←": "<-", "↔": "<->", "−": "-", "≥": ">=", "≤": "<=", "≈": "~", "×": "x",
+};
+
+/** Encode text as WinAnsi bytes (one char per byte) */
+function toWinAnsi(text: string): string {
+  let out = "";
+  for (const ch of text.replace(/\s+/g, " ")) {
+    const code = ch.codePointAt(0)!;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) out += ch;
+    else if (WIN_ANSI[ch] !== undefined) out += String.fromCharCode(WIN_ANSI[ch]);
+    else out += TRANSLITERATIONS[ch] ?? "?";
+  }
+  return out;
+}
+
+function charWidth(code: number, font: Font): number {
+  if (code >= 32 && code <= 126) return (font === "F2" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  if (code === 0x97) return 1000;
+  if (code === 0x95) return 350;
+  return 556;
+}
+
+/** Width in points of WinAnsi-encoded text */
+function textWidth(encoded: string, font: Font, size: number): number {
+  let units = 0;
+  for (let i = 0; i < encoded.length; i++) units += charWidth(encoded.charCodeAt(i), font);
+  return (units * size) / 1000;
+}
+
+function pdfString(encoded: string): string {
+  let out = "(";
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    const ch = encoded[i];
+    if (ch === "(" || ch === ")" || ch === "\\") out += `\\${ch}`;
+    else if (code > 0x7e) out += `\\${code.toString(8).padStart(3, "0")}`;
+    else out += ch;
+  }
+  return `${out})`;
+}
+
+function n(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_Y = MARGIN / 2;
+
+const BODY_SIZE = 10;
+const SMALL_SIZE = 9;
+const LEADING = 1.35;
+const LIST_INDENT = 14;
+
+const TEXT_COLOR = "0.07 0.09 0.15";
+const MUTED_COLOR = "0.42 0.45 0.5";
+const RULE_COLOR = "0.9 0.91 0.92";
+const HEADER_FILL = "0.95 0.96 0.96";
+
+/** Graph PNG pixels per scene unit; drawn at 0.75pt per unit */
+const GRAPH_SCALE = 2;
+const GRAPH_POINTS_PER_UNIT = 0.75;
+
+interface Run {
+  text: string;
+  bold?: boolean;
+}
+
+interface TextOptions {
+  size?: number;
+  indent?: number;
+  width?: number;
+  color?: string;
+  spaceAfter?: number;
+}
+
+interface PdfImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+/** An image with its drawn size in points */
+interface Figure {
+  image: PdfImage;
+  width: number;
+  height: number;
+}
+
+type Word = { text: string; font: Font; width: number };
+
+class PdfLayout {
+  readonly pages: string[][] = [[]];
+  readonly images: PdfImage[] = [];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage(): void {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** Start a new page unless `height` fits above the bottom margin */
+  ensure(height: number): void {
+    if (this.y - height < MARGIN && this.y < PAGE_HEIGHT - MARGIN) this.newPage();
+  }
+
+  space(points: number): void {
+    this.y -= points;
+  }
+
+  /** Wrap runs into lines of words no wider than `width` */
+  wrap(runs: Run[], size: number, width: number): Word[][] {
+    // `space`: whether the word follows whitespace, possibly at the end of the previous run
+    const words: Array<Word & { space: boolean }> = [];
+    let pendingSpace = false;
+    for (const run of runs) {
+      const font: Font = run.bold ? "F2" : "F1";
+      toWinAnsi(run.text).split(" ").forEach((text, i) => {
+        if (i > 0) pendingSpace = true;
+        if (!text) return;
+        words.push({ text, font, width: textWidth(text, font, size), space: pendingSpace });
+        pendingSpace = false;
+      });
+    }
+
+    const lines: Word[][] = [];
+    let line: Word[] = [];
+    let used = 0;
+    for (const word of words) {
+      const gap = line.length > 0 && word.space ? textWidth(" ", word.font, size) : 0;
+      if (line.length > 0 && used + gap + word.width > width) {
+        lines.push(line);
+        line = [];
+        used = 0;
+      }
+      // Hard-break words wider than the column
+      let { text } = word;
+      while (textWidth(text, word.font, size) > width && text.length > 1) {
+        let cut = text.length - 1;
+        while (cut > 1 && textWidth(text.slice(0, cut), word.font, size) > width) cut--;
+        lines.push([...line, { text: text.slice(0, cut), font: word.font, width: 0 }]);
+        line = [];
+        used = 0;
+        text = text.slice(cut);
+      }
+      const leading = line.length > 0 && word.space ? " " : "";
+      const piece = { text: leading + text, font: word.font, width: textWidth(leading + text, word.font, size) };
+      line.push(piece);
+      used += piece.width;
+    }
+    if (line.length > 0) lines.push(line);
+    return lines;
+  }
+
+  private lineOps(line: Word[], x: number, y: number, size: number, color: string): string {
+    const parts = line.map((w) => `/${w.font} ${size} Tf ${pdfString(w.text)} Tj`);
+    return `BT ${color} rg ${n(x)} ${n(y)} Td ${parts.join(" ")} ET`;
+  }
+
+  /** Flow wrapped text at the cursor */
+  text(runs: Run[], options: TextOptions = {}): void {
+    const size = options.size ?? BODY_SIZE;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * LEADING;
+    for (const line of this.wrap(runs, size, options.width ?? CONTENT_WIDTH - indent)) {
+      this.ensure(lineHeight);
+      this.y -= lineHeight;
+      this.ops.push(this.lineOps(line, MARGIN + indent, this.y + (lineHeight - size) / 2, size, options.color ?? TEXT_COLOR));
+    }
+    this.y -= options.spaceAfter ?? 0;
+  }
+
+  /** Draw text at a fixed position without moving the cursor */
+  textAt(runs: Run[], x: number, y: number, size: number, width: number, color = TEXT_COLOR): number {
+    const lines = this.wrap(runs, size, width);
+    lines.forEach((line, i) => this.ops.push(this.lineOps(line, x, y - (i + 1) * size * LEADING + (size * (LEADING - 1)) / 2, size, color)));
+    return lines.length;
+  }
+
+  rule(x1: number, x2: number, y: number, color = RULE_COLOR): void {
+    this.ops.push(`${color} RG 0.5 w ${n(x1)} ${n(y)} m ${n(x2)} ${n(y)} l S`);
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: string): void {
+    this.ops.push(`${color} rg ${n(x)} ${n(y)} ${n(width)} ${n(height)} re f`);
+  }
+
+  /** Place a figure centred at the cursor */
+  figure({ image, width, height }: Figure): void {
+    this.ensure(height);
+    this.y -= height;
+    this.images.push(image);
+    const x = MARGIN + (CONTENT_WIDTH - width) / 2;
+    this.ops.push(`q ${n(width)} 0 0 ${n(height)} ${n(x)} ${n(this.y)} cm /Im${this.images.length} Do Q`);
+  }
+
+  /** Table with proportional columns; the header repeats after page breaks */
+  table(columns: string[], rows: string[][]): void {
+    const padding = 4;
+    const natural = columns.map((column, i) =>
+      Math.max(
+        textWidth(toWinAnsi(column), "F2", SMALL_SIZE),
+        ...rows.map((row) => Math.min(textWidth(toWinAnsi(row[i] ?? ""), "F1", SMALL_SIZE), CONTENT_WIDTH / 2))
+      ) + 2 * padding
+    );
+    const total = natural.reduce((a, b) => a + b, 0);
+    const widths = natural.map((w) => (w / total) * CONTENT_WIDTH);
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      const lines = cells.map((cell, i) => this.wrap([{ text: cell, bold }], SMALL_SIZE, widths[i] - 2 * padding).length);
+      const height = Math.max(1, ...lines) * SMALL_SIZE * LEADING + 2 * padding;
+      if (this.y - height < MARGIN) {
+        this.newPage();
+        if (!bold) drawRow(columns, true);
+      }
+      if (bold) this.fillRect(MARGIN, this.y - height, CONTENT_WIDTH, height, HEADER_FILL);
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        this.textAt([{ text: cell, bold }], x + padding, this.y - padding, SMALL_SIZE, widths[i] - 2 * padding);
+        x += widths[i];
+      });
+      this.y -= height;
+      this.rule(MARGIN, MARGIN + CONTENT_WIDTH, this.y);
+    };
+
+    drawRow(columns, true);
+    rows.forEach((row) => drawRow(row, false));
+  }
+}
+
+// ============================================================================
+// PNG → PDF image
+// ============================================================================
+
+/** Reuse a PNG's zlib stream as a Flate image with the PNG predictor */
+function pngImage(png: Buffer): PdfImage {
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  const idat: Buffer[] = [];
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("ascii", offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+    } else if (type === "IDAT") {
+      idat.push(data);
+    }
+    offset += 12 + length;
+  }
+  return { width, height, data: Buffer.concat(idat) };
+}
+
+/** The graph drawn at 0.75pt per scene unit, shrunk to fit the content area */
+function graphFigure(doc: ReportDocument): Figure {
+  const scene = buildScene(doc.graph);
+  const image = pngImage(renderPngCached(scene, { scale: GRAPH_SCALE }));
+  const fit = Math.min(
+    1,
+    CONTENT_WIDTH / (scene.width * GRAPH_POINTS_PER_UNIT),
+    (PAGE_HEIGHT - 2 * MARGIN - 60) / (scene.height * GRAPH_POINTS_PER_UNIT)
+  );
+  return { image, width: scene.width * GRAPH_POINTS_PER_UNIT * fit, height: scene.height * GRAPH_POINTS_PER_UNIT * fit };
+}
+
+// ============================================================================
+// Document layout
+// ============================================================================
+
+function itemRuns(item: ReportItem): Run[] {
+  const marker = citationMarker(item.citations);
+  return [
+    ...(item.lead ? [{ text: item.lead, bold: true }, ...(item.text ? [{ text: " — " }] : [])] : []),
+    { text: item.text },
+    ...(marker ? [{ text: ` ${marker}` }] : []),
+  ];
+}
+
+function layoutBlock(pdf: PdfLayout, block: ReportBlock, graph: () => Figure): void {
+  switch (block.kind) {
+    case "paragraph":
+      pdf.text([{ text: block.text }], { spaceAfter: 6 });
+      return;
+    case "quote":
+      pdf.text([{ text: block.text }], { indent: LIST_INDENT, color: MUTED_COLOR, spaceAfter: 8 });
+      return;
+    case "list":
+      for (const item of block.items) {
+        pdf.ensure(BODY_SIZE * LEADING);
+        pdf.text([{ text: "•" }], { width: LIST_INDENT });
+        pdf.space(-BODY_SIZE * LEADING);
+        pdf.text(itemRuns(item), { indent: LIST_INDENT, spaceAfter: 2 });
+        for (const detail of item.details ?? []) {
+          pdf.text([{ text: detail }], { indent: 2 * LIST_INDENT, size: SMALL_SIZE, color: MUTED_COLOR, spaceAfter: 1 });
+        }
+        pdf.space(2);
+      }
+      pdf.space(4);
+      return;
+    case "table":
+      pdf.table(block.columns, block.rows);
+      pdf.space(10);
+      return;
+    case "graph":
+      pdf.figure(graph());
+      pdf.space(10);
+      return;
+  }
+}
+
+function layoutSection(pdf: PdfLayout, section: ReportSection, graph: () => Figure): void {
+  // Keep headings with their figure, or at least a few lines of text
+  const first = section.blocks[0]?.kind === "graph" ? graph().height : 4 * BODY_SIZE * LEADING;
+  pdf.ensure(10 + 13 * LEADING + 6 + first);
+  pdf.space(10);
+  pdf.text([{ text: section.heading, bold: true }], { size: 13, spaceAfter: 6 });
+  for (const block of section.blocks) layoutBlock(pdf, block, graph);
+}
+
+// ============================================================================
+// Serialisation
+// ============================================================================
+
+function pdfDate(iso: string): string {
+  const digits = iso.replace(/\D/g, "").slice(0, 14).padEnd(14, "0");
+  return `D:${digits}Z`;
+}
+
+/**
+ * Render a report document as a PDF.
+ */
+export function renderReportPdf(doc: ReportDocument): Buffer {
+  const pdf = new PdfLayout();
+
+  pdf.text([{ text: doc.title, bold: true }], { size: 20, spaceAfter: 4 });
+  pdf.text([{ text: `Generated ${doc.generatedAt.slice(0, 10)} · Review ${doc.requestId}` }], {
+    size: SMALL_SIZE,
+    color: MUTED_COLOR,
+    spaceAfter: 6,
+  });
+
+  let figure: Figure | undefined;
+  const graph = () => (figure ??= graphFigure(doc));
+
+  for (const section of doc.sections) layoutSection(pdf, section, graph);
+
+  if (doc.citations.length > 0) {
+    layoutSection(pdf, { id: "references", heading: "References", blocks: [] }, graph);
+    for (const citation of doc.citations) {
+      pdf.text([{ text: `[${citation.number}] `, bold: true }, { text: citationText(citation) }], { size: SMALL_SIZE, spaceAfter: 3 });
+    }
+  }
+
+  for (const section of doc.appendix) layoutSection(pdf, section, graph);
+
+  // Footers need the final page count
+  const footer = toWinAnsi(doc.title);
+  pdf.pages.forEach((ops, i) => {
+    const label = `${footer} · Page ${i + 1} of ${pdf.pages.length}`;
+    ops.push(`BT ${MUTED_COLOR} rg /F1 8 Tf ${n(MARGIN)} ${n(FOOTER_Y)} Td ${pdfString(toWinAnsi(label))} Tj ET`);
+  });
+
+  // Objects: 1 catalog, 2 pages, 3-4 fonts, 5 info, then images, then page + content pairs
+  const objects: Array<string | Buffer> = [];
+  const imageBase = 6;
+  const pageBase = imageBase + pdf.images.length;
+  const pageIds = pdf.pages.map((_, i) => pageBase + 2 * i);
+  const xObjects = pdf.images.map((_, i) => `/Im${i + 1} ${imageBase + i} 0 R`).join(" ");
+
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  objects.push(`<< /Title ${pdfString(toWinAnsi(doc.title))} /CreationDate (${pdfDate(doc.generatedAt)}) >>`);
+
+  for (const image of pdf.images) {
+    objects.push(Buffer.concat([
+      Buffer.from(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode ` +
+        `/DecodeParms << /Predictor 15 /Colors 3 /BitsPerComponent 8 /Columns ${image.width} >> ` +
+        `/Length ${image.data.length} >>\nstream\n`,
+        "latin1"
+      ),
+      image.data,
+      Buffer.from("\nendstream", "latin1"),
+    ]));
+  }
+
+  pdf.pages.forEach((ops, i) => {
+    const content = ops.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ""} >> ` +
+      `/Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+  });
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(length);
+    const body = typeof object === "string" ? Buffer.from(object, "latin1") : object;
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, "latin1"), body, Buffer.from("\nendobj\n", "latin1")]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+    "",
+  ].join("\n");
+  chunks.push(Buffer.from(xref, "latin1"));
+
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,366 @@
+/**
+ * Render Scene
+ *
+ * Turns a GraphT into resolved drawing geometry shared by the SVG and PNG
+ * renderers: node positions from the deterministic layout, kind-specific
+ * shapes, wrapped labels, edges clipped to node outlines with arrowheads,
+ * and highlight overlays.
+ *
+ * Edge styling:
+ * - Thickness scales with |strength_mean| (falls back to weight, then 0.5)
+ * - Negative effects are drawn in red
+ * - Edges with belief_exists (or belief) below 0.5 are dashed
+ */
+
+import type { GraphT, NodeT, EdgeT } from "../schemas/graph.js";
+import type { HighlightT } from "../schemas/working-set.js";
+import { generateDeterministicLayout } from "../utils/layout.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type NodeShape = "ellipse" | "diamond" | "rounded" | "rect" | "hexagon" | "octagon" | "parallelogram";
+
+export type HighlightStyleT = NonNullable<HighlightT["style"]>;
+
+export interface SceneNode {
+  id: string;
+  kind: NodeT["kind"];
+  /** Label wrapped to fit the shape */
+  lines: string[];
+  /** Centre */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  shape: NodeShape;
+  fill: string;
+  stroke: string;
+  /** Closed outline polygon (absolute coordinates) */
+  outline: Point[];
+  highlight?: string;
+}
+
+export interface SceneEdge {
+  from: string;
+  to: string;
+  /** Line start (source outline) and end (arrowhead base) */
+  start: Point;
+  end: Point;
+  /** Arrowhead triangle, tip on the target outline */
+  arrow: Point[];
+  width: number;
+  dashed: boolean;
+  color: string;
+  highlight?: string;
+}
+
+export interface Scene {
+  width: number;
+  height: number;
+  background: string;
+  title?: string;
+  nodes: SceneNode[];
+  edges: SceneEdge[];
+}
+
+export interface SceneOptions {
+  /** Overlays, e.g. the highlights of an /ask response */
+  highlights?: HighlightT[];
+  title?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const NODE_WIDTH = 150;
+export const NODE_HEIGHT = 60;
+
+/** Label metrics shared with the bitmap font: 5×7 glyphs at 1.4 units per pixel */
+export const FONT_SIZE = 12;
+export const GLYPH_PIXEL = 1.4;
+export const CHAR_ADVANCE = 6 * GLYPH_PIXEL;
+export const LINE_HEIGHT = 14;
+
+const PADDING = 40;
+const TITLE_HEIGHT = 36;
+
+/** Title glyphs are drawn 1.4× the label size */
+export const TITLE_CHAR_ADVANCE = CHAR_ADVANCE * 1.4;
+
+/** Title baseline and left edge, shared by both renderers */
+export const TITLE_POSITION: Point = { x: PADDING, y: PADDING / 2 + FONT_SIZE };
+
+const LABEL_PADDING = 12;
+const MAX_LABEL_LINES = 3;
+const CORNER = 12;
+
+const ARROW_LENGTH = 10;
+const ARROW_HALF_WIDTH = 5;
+const MIN_EDGE_WIDTH = 1;
+const MAX_EXTRA_EDGE_WIDTH = 4;
+
+/** Strength for edges with neither strength_mean nor weight */
+const DEFAULT_EDGE_STRENGTH = 0.5;
+
+/** Edges believed less likely than this to exist are dashed */
+export const LOW_BELIEF_THRESHOLD = 0.5;
+
+const BACKGROUND = "#ffffff";
+const EDGE_COLOR = "#6b7280";
+const NEGATIVE_EDGE_COLOR = "#dc2626";
+
+const KIND_STYLES: Record<NodeT["kind"], { shape: NodeShape; fill: string; stroke: string }> = {
+  goal: { shape: "ellipse", fill: "#dcfce7", stroke: "#16a34a" },
+  decision: { shape: "diamond", fill: "#dbeafe", stroke: "#2563eb" },
+  option: { shape: "rounded", fill: "#ede9fe", stroke: "#7c3aed" },
+  factor: { shape: "rect", fill: "#f3f4f6", stroke: "#4b5563" },
+  outcome: { shape: "hexagon", fill: "#ccfbf1", stroke: "#0d9488" },
+  risk: { shape: "octagon", fill: "#fee2e2", stroke: "#dc2626" },
+  action: { shape: "parallelogram", fill: "#ffedd5", stroke: "#ea580c" },
+};
+
+export const HIGHLIGHT_COLORS: Record<HighlightStyleT, string> = {
+  primary: "#1d4ed8",
+  secondary: "#9ca3af",
+  warning: "#d97706",
+  error: "#b91c1c",
+};
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+function arc(cx: number, cy: number, r: number, from: number, to: number, steps: number): Point[] {
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = from + ((to - from) * i) / steps;
+    return { x: cx + r * Math.cos(angle), y: cy + r * Math.sin(angle) };
+  });
+}
+
+/**
+ * Outline polygon for a shape centred on (x, y).
+ */
+export function shapeOutline(shape: NodeShape, x: number, y: number, w: number, h: number): Point[] {
+  const l = x - w / 2;
+  const r = x + w / 2;
+  const t = y - h / 2;
+  const b = y + h / 2;
+
+  switch (shape) {
+    case "ellipse":
+      return Array.from({ length: 48 }, (_, i) => {
+        const angle = (2 * Math.PI * i) / 48;
+        return { x: x + (w / 2) * Math.cos(angle), y: y + (h / 2) * Math.sin(angle) };
+      });
+    case "diamond":
+      return [{ x, y: t }, { x: r, y }, { x, y: b }, { x: l, y }];
+    case "rounded":
+      return [
+        ...arc(r - CORNER, t + CORNER, CORNER, -Math.PI / 2, 0, 4),
+        ...arc(r - CORNER, b - CORNER, CORNER, 0, Math.PI / 2, 4),
+        ...arc(l + CORNER, b - CORNER, CORNER, Math.PI / 2, Math.PI, 4),
+        ...arc(l + CORNER, t + CORNER, CORNER, Math.PI, (3 * Math.PI) / 2, 4),
+      ];
+    case "hexagon":
+      return [
+        { x: l + CORNER, y: t }, { x: r - CORNER, y: t }, { x: r, y },
+        { x: r - CORNER, y: b }, { x: l + CORNER, y: b }, { x: l, y },
+      ];
+    case "octagon":
+      return [
+        { x: l + CORNER, y: t }, { x: r - CORNER, y: t }, { x: r, y: t + CORNER }, { x: r, y: b - CORNER },
+        { x: r - CORNER, y: b }, { x: l + CORNER, y: b }, { x: l, y: b - CORNER }, { x: l, y: t + CORNER },
+      ];
+    case "parallelogram":
+      return [{ x: l + CORNER, y: t }, { x: r, y: t }, { x: r - CORNER, y: b }, { x: l, y: b }];
+    case "rect":
+    default:
+      return [{ x: l, y: t }, { x: r, y: t }, { x: r, y: b }, { x: l, y: b }];
+  }
+}
+
+/**
+ * Where the ray from `from` towards `toward` leaves the outline.
+ */
+function boundaryPoint(outline: Point[], from: Point, toward: Point): Point {
+  const dx = toward.x - from.x;
+  const dy = toward.y - from.y;
+  let best = Infinity;
+
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i];
+    const b = outline[(i + 1) % outline.length];
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const denom = dx * ey - dy * ex;
+    if (Math.abs(denom) < 1e-9) continue;
+    const t = ((a.x - from.x) * ey - (a.y - from.y) * ex) / denom;
+    const u = ((a.x - from.x) * dy - (a.y - from.y) * dx) / denom;
+    if (t > 0 && u >= 0 && u <= 1 && t < best) best = t;
+  }
+
+  return Number.isFinite(best) ? { x: from.x + dx * best, y: from.y + dy * best } : from;
+}
+
+// ============================================================================
+// Labels and styling
+// ============================================================================
+
+/**
+ * Wrap a label into at most MAX_LABEL_LINES lines of `maxChars`, breaking
+ * long words and ending truncated labels with "...".
+ */
+export function wrapLabel(label: string, maxChars: number, maxLines = MAX_LABEL_LINES): string[] {
+  const words = label.replace(/\s+/g, " ").trim().split(" ").filter(Boolean)
+    .flatMap((word) => word.match(new RegExp(`.{1,${maxChars}}`, "g")) ?? []);
+
+  const lines: string[] = [];
+  for (const word of words) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && last.length + 1 + word.length <= maxChars) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 3)}...`;
+  return kept;
+}
+
+export function edgeStrength(edge: EdgeT): number {
+  if (typeof edge.strength_mean === "number") return edge.strength_mean;
+  if (typeof edge.weight === "number") return edge.weight;
+  return edge.effect_direction === "negative" ? -DEFAULT_EDGE_STRENGTH : DEFAULT_EDGE_STRENGTH;
+}
+
+function edgeBelief(edge: EdgeT): number {
+  return edge.belief_exists ?? edge.belief ?? 1;
+}
+
+/**
+ * Highlight colour per node ID and edge ID ("from->to"); later highlights win.
+ */
+function resolveHighlights(highlights: HighlightT[]): { nodes: Map<string, string>; edges: Map<string, string> } {
+  const nodes = new Map<string, string>();
+  const edges = new Map<string, string>();
+
+  for (const highlight of highlights) {
+    const color = HIGHLIGHT_COLORS[highlight.style ?? "primary"];
+    if (highlight.type === "node") {
+      for (const id of highlight.ids) nodes.set(id, color);
+    } else if (highlight.type === "edge") {
+      for (const id of highlight.ids) edges.set(id, color);
+    } else {
+      highlight.ids.forEach((id, i) => {
+        nodes.set(id, color);
+        if (i > 0) edges.set(`${highlight.ids[i - 1]}->${id}`, color);
+      });
+    }
+  }
+
+  return { nodes, edges };
+}
+
+// ============================================================================
+// Scene
+// ============================================================================
+
+/**
+ * Build the drawing geometry for a graph.
+ */
+export function buildScene(graph: GraphT, options: SceneOptions = {}): Scene {
+  const positions = generateDeterministicLayout(graph.nodes, graph.edges, graph.meta?.roots ?? []);
+  const overlay = resolveHighlights(options.highlights ?? []);
+  const titleOffset = options.title ? TITLE_HEIGHT : 0;
+
+  const xs = graph.nodes.map((n) => positions[n.id]?.x ?? 0);
+  const ys = graph.nodes.map((n) => positions[n.id]?.y ?? 0);
+  const minX = xs.length > 0 ? Math.min(...xs) : 0;
+  const minY = ys.length > 0 ? Math.min(...ys) : 0;
+  const spanX = xs.length > 0 ? Math.max(...xs) - minX : 0;
+  const spanY = ys.length > 0 ? Math.max(...ys) - minY : 0;
+
+  const offsetX = PADDING + NODE_WIDTH / 2 - minX;
+  const offsetY = PADDING + titleOffset + NODE_HEIGHT / 2 - minY;
+  const maxChars = Math.floor((NODE_WIDTH - 2 * LABEL_PADDING) / CHAR_ADVANCE);
+
+  const nodes: SceneNode[] = graph.nodes.map((node) => {
+    const style = KIND_STYLES[node.kind] ?? KIND_STYLES.factor;
+    const x = (positions[node.id]?.x ?? 0) + offsetX;
+    const y = (positions[node.id]?.y ?? 0) + offsetY;
+    const highlight = overlay.nodes.get(node.id);
+    return {
+      id: node.id,
+      kind: node.kind,
+      lines: wrapLabel(node.label ?? node.id, maxChars),
+      x,
+      y,
+      width: NODE_WIDTH,
+      height: NODE_HEIGHT,
+      shape: style.shape,
+      fill: style.fill,
+      stroke: style.stroke,
+      outline: shapeOutline(style.shape, x, y, NODE_WIDTH, NODE_HEIGHT),
+      ...(highlight ? { highlight } : {}),
+    };
+  });
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const edges: SceneEdge[] = [];
+  for (const edge of graph.edges) {
+    const from = byId.get(edge.from);
+    const to = byId.get(edge.to);
+    if (!from || !to || from === to) continue;
+
+    const strength = edgeStrength(edge);
+    const width = MIN_EDGE_WIDTH + Math.min(1, Math.abs(strength)) * MAX_EXTRA_EDGE_WIDTH;
+    const start = boundaryPoint(from.outline, from, to);
+    const tip = boundaryPoint(to.outline, to, from);
+
+    const length = Math.hypot(tip.x - start.x, tip.y - start.y) || 1;
+    const ux = (tip.x - start.x) / length;
+    const uy = (tip.y - start.y) / length;
+    const arrowLength = Math.min(ARROW_LENGTH + width, length / 2);
+    const end = { x: tip.x - ux * arrowLength, y: tip.y - uy * arrowLength };
+    const halfWidth = ARROW_HALF_WIDTH + width / 2;
+    const highlight = overlay.edges.get(`${edge.from}->${edge.to}`);
+
+    edges.push({
+      from: edge.from,
+      to: edge.to,
+      start,
+      end,
+      arrow: [
+        tip,
+        { x: end.x - uy * halfWidth, y: end.y + ux * halfWidth },
+        { x: end.x + uy * halfWidth, y: end.y - ux * halfWidth },
+      ],
+      width,
+      dashed: edgeBelief(edge) < LOW_BELIEF_THRESHOLD,
+      color: strength < 0 ? NEGATIVE_EDGE_COLOR : EDGE_COLOR,
+      ...(highlight ? { highlight } : {}),
+    });
+  }
+
+  const titleWidth = options.title ? options.title.length * TITLE_CHAR_ADVANCE + 2 * PADDING : 0;
+
+  return {
+    width: Math.ceil(Math.max(spanX + NODE_WIDTH + 2 * PADDING, titleWidth)),
+    height: Math.ceil(spanY + NODE_HEIGHT + 2 * PADDING + titleOffset),
+    background: BACKGROUND,
+    ...(options.title ? { title: options.title } : {}),
+    nodes,
+    edges,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * SVG Renderer
+ *
+ * Serialises a render scene to a standalone SVG document. Output is
+ * deterministic for a given scene (fixed number formatting, no IDs or
+ * timestamps), so identical graphs render byte-identical SVGs.
+ */
+
+import { FONT_SIZE, LINE_HEIGHT, TITLE_POSITION, type Point, type Scene, type SceneEdge, type SceneNode } from "./scene.js";
+
+const FONT_FAMILY = "Helvetica, Arial, sans-serif";
+const TEXT_COLOR = "#111827";
+const HIGHLIGHT_NODE_WIDTH = 4;
+const HIGHLIGHT_EDGE_EXTRA = 6;
+const DASH = "6 4";
+
+function n(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function points(list: Point[]): string {
+  return list.map((p) => `${n(p.x)},${n(p.y)}`).join(" ");
+}
+
+function shapeElement(node: SceneNode, attrs: string): string {
+  const l = node.x - node.width / 2;
+  const t = node.y - node.height / 2;
+  switch (node.shape) {
+    case "ellipse":
+      return `<ellipse cx="${n(node.x)}" cy="${n(node.y)}" rx="${n(node.width / 2)}" ry="${n(node.height / 2)}" ${attrs}/>`;
+    case "rounded":
+      return `<rect x="${n(l)}" y="${n(t)}" width="${n(node.width)}" height="${n(node.height)}" rx="12" ${attrs}/>`;
+    case "rect":
+      return `<rect x="${n(l)}" y="${n(t)}" width="${n(node.width)}" height="${n(node.height)}" ${attrs}/>`;
+    default:
+      return `<polygon points="${points(node.outline)}" ${attrs}/>`;
+  }
+}
+
+function edgeElements(edge: SceneEdge): string[] {
+  const line = (color: string, width: number, dashed: boolean) =>
+    `<line x1="${n(edge.start.x)}" y1="${n(edge.start.y)}" x2="${n(edge.end.x)}" y2="${n(edge.end.y)}" ` +
+    `stroke="${color}" stroke-width="${n(width)}"${dashed ? ` stroke-dasharray="${DASH}"` : ""}/>`;
+
+  return [
+    `<g class="edge" data-from="${escapeXml(edge.from)}" data-to="${escapeXml(edge.to)}">`,
+    ...(edge.highlight ? [line(edge.highlight, edge.width + HIGHLIGHT_EDGE_EXTRA, false).replace("/>", ' stroke-opacity="0.45"/>')] : []),
+    line(edge.color, edge.width, edge.dashed),
+    `<polygon points="${points(edge.arrow)}" fill="${edge.highlight ?? edge.color}"/>`,
+    "</g>",
+  ];
+}
+
+function nodeElements(node: SceneNode): string[] {
+  const firstBaseline = node.y - ((node.lines.length - 1) * LINE_HEIGHT) / 2 + FONT_SIZE / 3;
+  return [
+    `<g class="node node-${node.kind}" data-id="${escapeXml(node.id)}">`,
+    shapeElement(node, `fill="${node.fill}" stroke="${node.highlight ?? node.stroke}" stroke-width="${node.highlight ? HIGHLIGHT_NODE_WIDTH : 1.5}"`),
+    `<text x="${n(node.x)}" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE}" fill="${TEXT_COLOR}">`,
+    ...node.lines.map((line, i) => `<tspan x="${n(node.x)}" y="${n(firstBaseline + i * LINE_HEIGHT)}">${escapeXml(line)}</tspan>`),
+    "</text>",
+    "</g>",
+  ];
+}
+
+/**
+ * Render a scene as an SVG document.
+ */
+export function renderSvg(scene: Scene): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}">`,
+    ...(scene.title ? [`<title>${escapeXml(scene.title)}</title>`] : []),
+    `<rect width="100%" height="100%" fill="${scene.background}"/>`,
+    ...(scene.title
+      ? [`<text x="${n(TITLE_POSITION.x)}" y="${n(TITLE_POSITION.y)}" font-family="${FONT_FAMILY}" font-size="${FONT_SIZE + 4}" font-weight="bold" fill="${TEXT_COLOR}">${escapeXml(scene.title)}</text>`]
+      : []),
+    ...scene.edges.flatMap(edgeElements),
+    ...scene.nodes.flatMap(nodeElements),
+    "</svg>",
+    "",
+  ].join("\n");
+}
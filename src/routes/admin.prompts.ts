@@ -4,7 +4,8 @@
  * Provides CRUD operations for managed prompts with versioning,
  * rollback, and experiment management.
  *
- * **Security:** Requires admin API key via X-Admin-Key header
+ * **Security:** Requires admin API key via X-Admin-Key header; each route
+ * checks a permission against the caller's admin roles (utils/admin-auth.ts)
  *
  * Routes:
  * - GET    /admin/prompts         - List all prompts
@@ -58,167 +59,18 @@ import type { PromptObservation, ObservationType, ObservationsResult } from '../
 import { SupabasePromptStore } from '../prompts/stores/supabase.js';
 import { getBraintrustManager } from '../prompts/braintrust.js';
 import { invalidatePromptCache } from '../adapters/llm/prompt-loader.js';
-import { log, emit, TelemetryEvents, hashIP } from '../utils/telemetry.js';
+import { log, emit, TelemetryEvents } from '../utils/telemetry.js';
+import { verifyAdminKey, getAdminActor, withAdminAttribution } from '../utils/admin-auth.js';
 import { config } from '../config/index.js';
 
 /**
  * Telemetry events
  */
 const AdminTelemetryEvents = {
-  AdminAuthFailed: 'admin.auth.failed',
-  AdminIPBlocked: 'admin.ip.blocked',
   AdminPromptAccess: 'admin.prompt.access',
   AdminExperimentAccess: 'admin.experiment.access',
 } as const;
 
-/**
- * Permission level for admin operations
- */
-type AdminPermission = 'read' | 'write';
-
-/**
- * Parse and cache allowed IPs from config
- */
-function getAllowedIPs(): Set<string> | null {
-  const allowedIPsConfig = config.prompts?.adminAllowedIPs;
-  if (!allowedIPsConfig || allowedIPsConfig.trim() === '') {
-    return null; // No restriction
-  }
-
-  return new Set(
-    allowedIPsConfig
-      .split(',')
-      .map((ip) => ip.trim())
-      .filter((ip) => ip.length > 0)
-  );
-}
-
-/**
- * Check if request IP is allowed
- * Returns true if allowed, sends error response if blocked
- */
-function verifyIPAllowed(request: FastifyRequest, reply: FastifyReply): boolean {
-  const allowedIPs = getAllowedIPs();
-
-  // No IP restriction configured
-  if (!allowedIPs) {
-    return true;
-  }
-
-  const requestIP = request.ip;
-
-  // Check if IP is in allowlist
-  // Also check for common localhost representations
-  const isAllowed =
-    allowedIPs.has(requestIP) ||
-    (requestIP === '::1' && allowedIPs.has('127.0.0.1')) ||
-    (requestIP === '127.0.0.1' && allowedIPs.has('::1'));
-
-  if (!isAllowed) {
-    // Use hashed IP in telemetry/logs to avoid PII leakage
-    const ipHash = hashIP(requestIP);
-    emit(AdminTelemetryEvents.AdminIPBlocked, {
-      ip_hash: ipHash,
-      path: request.url,
-      allowedCount: allowedIPs.size,
-    });
-    log.warn({ ip_hash: ipHash, path: request.url }, 'Admin access blocked by IP allowlist');
-    reply.status(403).send({
-      error: 'ip_not_allowed',
-      message: 'Your IP address is not authorized for admin access',
-    });
-    return false;
-  }
-
-  return true;
-}
-
-/**
- * Verify admin API key with permission level
- *
- * Supports two key types:
- * - ADMIN_API_KEY: Full read/write access
- * - ADMIN_API_KEY_READ: Read-only access (list, get, diff only)
- *
- * @param request - Fastify request
- * @param reply - Fastify reply
- * @param requiredPermission - 'read' for read-only ops, 'write' for mutations
- * @returns true if authorized, false if error response sent
- */
-function verifyAdminKey(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  requiredPermission: AdminPermission = 'write'
-): boolean {
-  // First check IP allowlist
-  if (!verifyIPAllowed(request, reply)) {
-    return false;
-  }
-
-  const adminKey = config.prompts?.adminApiKey;
-  const adminKeyRead = config.prompts?.adminApiKeyRead;
-
-  // At least one key must be configured
-  if (!adminKey && !adminKeyRead) {
-    log.warn('No admin API keys configured, admin routes disabled');
-    reply.status(503).send({
-      error: 'admin_not_configured',
-      message: 'Admin API is not configured',
-    });
-    return false;
-  }
-
-  const providedKey = request.headers['x-admin-key'] as string;
-
-  if (!providedKey) {
-    emit(AdminTelemetryEvents.AdminAuthFailed, {
-      ip: request.ip,
-      path: request.url,
-      reason: 'missing_key',
-    });
-    reply.status(401).send({
-      error: 'unauthorized',
-      message: 'Missing admin API key',
-    });
-    return false;
-  }
-
-  // Check full access key
-  if (adminKey && providedKey === adminKey) {
-    return true;
-  }
-
-  // Check read-only key
-  if (adminKeyRead && providedKey === adminKeyRead) {
-    // Read-only key provided - check if operation is read-only
-    if (requiredPermission === 'write') {
-      emit(AdminTelemetryEvents.AdminAuthFailed, {
-        ip: request.ip,
-        path: request.url,
-        reason: 'insufficient_permission',
-      });
-      reply.status(403).send({
-        error: 'forbidden',
-        message: 'Read-only key cannot perform write operations',
-      });
-      return false;
-    }
-    return true;
-  }
-
-  // Invalid key
-  emit(AdminTelemetryEvents.AdminAuthFailed, {
-    ip: request.ip,
-    path: request.url,
-    reason: 'invalid_key',
-  });
-  reply.status(401).send({
-    error: 'unauthorized',
-    message: 'Invalid admin API key',
-  });
-  return false;
-}
-
 /**
  * Check if prompt management is enabled
  */
@@ -243,11 +95,10 @@ function ensureStoreHealthy(reply: FastifyReply): boolean {
 }
 
 /**
- * Get actor identifier from request (admin key ID or IP)
+ * Get actor identifier from request (admin identity or IP)
  */
 function getActorFromRequest(request: FastifyRequest): string {
-  // Could be enhanced to extract key ID from admin key header
-  return `admin@${request.ip}`;
+  return getAdminActor(request);
 }
 
 // =========================================================================
@@ -425,7 +276,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
    * POST /admin/prompts - Create new prompt
    */
   app.post('/admin/prompts', async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'prompts:edit')) return;
 
     if (!isPromptManagementEnabled()) {
       return reply.status(503).send({
@@ -436,7 +287,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
 
     if (!ensureStoreHealthy(reply)) return;
 
-    const body = CreatePromptRequestSchema.safeParse(request.body);
+    const body = CreatePromptRequestSchema.safeParse(withAdminAttribution(request, 'createdBy'));
     if (!body.success) {
       return reply.status(400).send({
         error: 'validation_error',
@@ -523,7 +374,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
    * PATCH /admin/prompts/:id - Update prompt metadata
    */
   app.patch('/admin/prompts/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'prompts:edit')) return;
 
     if (!isPromptManagementEnabled()) {
       return reply.status(503).send({
@@ -652,7 +503,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
    * DELETE /admin/prompts/:id - Delete/archive prompt
    */
   app.delete('/admin/prompts/:id', async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'prompts:edit')) return;
 
     if (!isPromptManagementEnabled()) {
       return reply.status(503).send({
@@ -709,7 +560,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
    * POST /admin/prompts/:id/versions - Create new version
    */
   app.post('/admin/prompts/:id/versions', async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'prompts:edit')) return;
 
     if (!isPromptManagementEnabled()) {
       return reply.status(503).send({
@@ -728,7 +579,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
       });
     }
 
-    const body = CreateVersionRequestSchema.safeParse(request.body);
+    const body = CreateVersionRequestSchema.safeParse(withAdminAttribution(request, 'createdBy'));
     if (!body.success) {
       return reply.status(400).send({
         error: 'validation_error',
@@ -771,7 +622,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
    * POST /admin/prompts/:id/rollback - Rollback to version
    */
   app.post('/admin/prompts/:id/rollback', async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'prompts:edit')) return;
 
     if (!isPromptManagementEnabled()) {
       return reply.status(503).send({
@@ -790,7 +641,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
       });
     }
 
-    const body = RollbackRequestSchema.safeParse(request.body);
+    const body = RollbackRequestSchema.safeParse(withAdminAttribution(request, 'rolledBackBy'));
     if (!body.success) {
       return reply.status(400).send({
         error: 'validation_error',
@@ -888,7 +739,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
       },
     },
   }, async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'prompts:edit')) return;
 
     if (!isPromptManagementEnabled()) {
       return reply.status(503).send({
@@ -1114,7 +965,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
       },
     },
   }, async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'prompts:approve')) return;
 
     if (!isPromptManagementEnabled()) {
       return reply.status(503).send({
@@ -1133,7 +984,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
       });
     }
 
-    const body = ApprovalRequestSchema.safeParse(request.body);
+    const body = ApprovalRequestSchema.safeParse(withAdminAttribution(request, 'approvedBy'));
     if (!body.success) {
       return reply.status(400).send({
         error: 'validation_error',
@@ -1245,7 +1096,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
       },
     },
   }, async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'prompts:edit')) return;
 
     if (!isPromptManagementEnabled()) {
       return reply.status(503).send({
@@ -1443,7 +1294,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
    * POST /admin/experiments - Start experiment
    */
   app.post('/admin/experiments', async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'experiments:manage')) return;
 
     const body = StartExperimentSchema.safeParse(request.body);
     if (!body.success) {
@@ -1514,7 +1365,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
    * DELETE /admin/experiments/:name - End experiment
    */
   app.delete('/admin/experiments/:name', async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'experiments:manage')) return;
 
     const params = ExperimentNameParamsSchema.safeParse(request.params);
     if (!params.success) {
@@ -1703,13 +1554,13 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
 
   /**
    * POST /admin/prompts/:id/observations - Add observation
-   * Permission: write
+   * Permission: prompts:edit
    *
    * Creates a new observation for a prompt version.
    * Validates that content is provided for note/failure/success types.
    */
   app.post('/admin/prompts/:id/observations', async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'prompts:edit')) return;
 
     if (!isPromptManagementEnabled()) {
       return reply.status(503).send({
@@ -1736,7 +1587,7 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
       });
     }
 
-    const body = CreateObservationSchema.safeParse(request.body);
+    const body = CreateObservationSchema.safeParse(withAdminAttribution(request, 'createdBy'));
     if (!body.success) {
       return reply.status(400).send({
         error: 'validation_error',
@@ -1784,12 +1635,12 @@ export async function adminPromptRoutes(app: FastifyInstance): Promise<void> {
 
   /**
    * DELETE /admin/prompts/:id/observations/:obsId - Remove observation
-   * Permission: write
+   * Permission: prompts:edit
    *
    * Deletes a specific observation by ID.
    */
   app.delete('/admin/prompts/:id/observations/:obsId', async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply)) return;
+    if (!verifyAdminKey(request, reply, 'prompts:edit')) return;
 
     if (!isPromptManagementEnabled()) {
       return reply.status(503).send({
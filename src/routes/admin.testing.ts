@@ -14,6 +14,7 @@ import { createHash } from 'node:crypto';
 import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
 import { config } from '../config/index.js';
+import { verifyAdminKey } from '../utils/admin-auth.js';
 import { getPromptStore, isPromptStoreHealthy } from '../prompts/store.js';
 import { interpolatePrompt } from '../prompts/schema.js';
 import { log, emit, TelemetryEvents } from '../utils/telemetry.js';
@@ -108,92 +109,9 @@ interface TestPromptLLMResponse {
 }
 
 // ============================================================================
-// Authentication helpers
+// Helpers
 // ============================================================================
 
-type AdminPermission = 'read' | 'write';
-
-function getAllowedIPs(): Set<string> | null {
-  const allowedIPsConfig = config.prompts?.adminAllowedIPs;
-  if (!allowedIPsConfig || allowedIPsConfig.trim() === '') {
-    return null;
-  }
-
-  return new Set(
-    allowedIPsConfig
-      .split(',')
-      .map((ip) => ip.trim())
-      .filter((ip) => ip.length > 0)
-  );
-}
-
-function verifyIPAllowed(request: FastifyRequest, reply: FastifyReply): boolean {
-  const allowedIPs = getAllowedIPs();
-  if (!allowedIPs) return true;
-
-  const requestIP = request.ip;
-  const isAllowed =
-    allowedIPs.has(requestIP) ||
-    (requestIP === '::1' && allowedIPs.has('127.0.0.1')) ||
-    (requestIP === '127.0.0.1' && allowedIPs.has('::1'));
-
-  if (!isAllowed) {
-    reply.status(403).send({
-      error: 'ip_not_allowed',
-      message: 'Your IP address is not authorized for admin access',
-    });
-    return false;
-  }
-  return true;
-}
-
-function verifyAdminKey(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  requiredPermission: AdminPermission = 'write'
-): boolean {
-  if (!verifyIPAllowed(request, reply)) return false;
-
-  const adminKey = config.prompts?.adminApiKey;
-  const adminKeyRead = config.prompts?.adminApiKeyRead;
-
-  if (!adminKey && !adminKeyRead) {
-    reply.status(503).send({
-      error: 'admin_not_configured',
-      message: 'Admin API is not configured',
-    });
-    return false;
-  }
-
-  const providedKey = request.headers['x-admin-key'] as string;
-  if (!providedKey) {
-    reply.status(401).send({
-      error: 'unauthorized',
-      message: 'Missing admin API key',
-    });
-    return false;
-  }
-
-  if (adminKey && providedKey === adminKey) return true;
-
-  if (adminKeyRead && providedKey === adminKeyRead) {
-    if (requiredPermission === 'write') {
-      reply.status(403).send({
-        error: 'forbidden',
-        message: 'Read-only key cannot perform write operations',
-      });
-      return false;
-    }
-    return true;
-  }
-
-  reply.status(401).send({
-    error: 'unauthorized',
-    message: 'Invalid admin API key',
-  });
-  return false;
-}
-
 function ensureStoreHealthy(reply: FastifyReply): boolean {
   if (!isPromptStoreHealthy()) {
     reply.status(503).send({
@@ -704,7 +622,7 @@ export async function adminTestRoutes(app: FastifyInstance): Promise<void> {
     const startTime = Date.now();
 
     // Authentication
-    if (!verifyAdminKey(request, reply, 'read')) return;
+    if (!verifyAdminKey(request, reply, 'prompts:edit')) return;
     if (!ensureStoreHealthy(reply)) return;
 
     // Validate request body
@@ -0,0 +1,225 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import rateLimit from '@fastify/rate-limit';
+import { z } from 'zod';
+import { verifyAdminKey, getAdminActor } from '../utils/admin-auth.js';
+import { log } from '../utils/telemetry.js';
+import { getQuotaSnapshotByKeyId } from '../utils/quota.js';
+import { getAuditLogger, logApiKeyChanged } from '../prompts/index.js';
+import {
+  createManagedKey,
+  disableManagedKey,
+  getManagedKey,
+  listManagedKeys,
+  rotateManagedKey,
+  toManagedKeySummary,
+  updateManagedKey,
+} from '../utils/api-key-store.js';
+
+const KeyIdParamsSchema = z.object({
+  key_id: z.string().min(1),
+});
+
+const RpmSchema = z.number().int().min(1).max(100_000);
+
+const KeySettingsSchema = z.object({
+  name: z.string().min(1).max(200),
+  rate_limit_rpm: RpmSchema.nullable().optional(),
+  sse_rate_limit_rpm: RpmSchema.nullable().optional(),
+  scopes: z.array(z.string().min(1)).nullable().optional(),
+  tenant: z.string().min(1).max(200).nullable().optional(),
+});
+
+const UpdateKeySchema = KeySettingsSchema.partial();
+
+const RotateKeySchema = z.object({
+  overlap_hours: z.number().min(0).max(720).optional(),
+});
+
+function notFound(reply: FastifyReply) {
+  return reply.status(404).send({
+    error: 'not_found',
+    message: 'API key not found',
+  });
+}
+
+export async function adminApiKeyRoutes(app: FastifyInstance): Promise<void> {
+  await app.register(rateLimit, {
+    max: 100,
+    timeWindow: 15 * 60 * 1000,
+    keyGenerator: (request) => {
+      const adminKey = request.headers['x-admin-key'] as string ?? '';
+      return `api_keys:${adminKey.slice(0, 8)}:${request.ip}`;
+    },
+    errorResponseBuilder: () => ({
+      error: 'rate_limit_exceeded',
+      message: 'Too many requests. Please try again later.',
+    }),
+  });
+
+  /**
+   * GET /admin/v1/api-keys
+   *
+   * List managed keys, newest first. Secrets are never returned.
+   */
+  app.get('/admin/v1/api-keys', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!verifyAdminKey(request, reply, 'read')) return;
+
+    const keys = await listManagedKeys();
+    return reply.status(200).send({
+      keys: keys.map((record) => toManagedKeySummary(record)),
+      count: keys.length,
+    });
+  });
+
+  /**
+   * POST /admin/v1/api-keys
+   *
+   * Issue a key. The full key is in the response only; store it now.
+   */
+  app.post('/admin/v1/api-keys', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!verifyAdminKey(request, reply, 'keys:manage')) return;
+
+    const body = KeySettingsSchema.safeParse(request.body);
+    if (!body.success) {
+      return reply.status(400).send({
+        error: 'validation_error',
+        details: body.error.flatten(),
+      });
+    }
+
+    const { record, key } = await createManagedKey(body.data);
+    const actor = getAdminActor(request);
+    log.info({ key_id: record.key_id, actor }, 'Admin created API key');
+    await logApiKeyChanged(getAuditLogger(), 'api_key.created', record.key_id, actor, {
+      name: record.name,
+      ip: request.ip,
+    });
+
+    return reply.status(201).send({ ...toManagedKeySummary(record), key });
+  });
+
+  /**
+   * GET /admin/v1/api-keys/:key_id
+   *
+   * Key details with its current rate-limit buckets.
+   */
+  app.get('/admin/v1/api-keys/:key_id', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!verifyAdminKey(request, reply, 'read')) return;
+
+    const params = KeyIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({
+        error: 'validation_error',
+        details: params.error.flatten(),
+      });
+    }
+
+    const record = await getManagedKey(params.data.key_id);
+    if (!record) return notFound(reply);
+
+    const [standard, sse] = await Promise.all([
+      getQuotaSnapshotByKeyId(record.key_id, false, record.rate_limit_rpm),
+      getQuotaSnapshotByKeyId(record.key_id, true, record.sse_rate_limit_rpm),
+    ]);
+
+    return reply.status(200).send({
+      ...toManagedKeySummary(record),
+      quota: {
+        backend: standard.backend,
+        standard: { capacity_rpm: standard.capacity, tokens: standard.tokens ?? null },
+        sse: { capacity_rpm: sse.capacity, tokens: sse.tokens ?? null },
+      },
+    });
+  });
+
+  /**
+   * PATCH /admin/v1/api-keys/:key_id
+   *
+   * Update name, rate-limit overrides, scopes or tenant (null clears a field).
+   */
+  app.patch('/admin/v1/api-keys/:key_id', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!verifyAdminKey(request, reply, 'keys:manage')) return;
+
+    const params = KeyIdParamsSchema.safeParse(request.params);
+    const body = UpdateKeySchema.safeParse(request.body ?? {});
+    if (!params.success || !body.success) {
+      return reply.status(400).send({
+        error: 'validation_error',
+        details: (params.error ?? body.error)?.flatten(),
+      });
+    }
+
+    const record = await updateManagedKey(params.data.key_id, body.data);
+    if (!record) return notFound(reply);
+
+    const actor = getAdminActor(request);
+    const fields = Object.keys(body.data);
+    log.info({ key_id: record.key_id, actor, fields }, 'Admin updated API key');
+    await logApiKeyChanged(getAuditLogger(), 'api_key.updated', record.key_id, actor, { fields, ip: request.ip });
+    return reply.status(200).send(toManagedKeySummary(record));
+  });
+
+  /**
+   * POST /admin/v1/api-keys/:key_id/disable
+   *
+   * Disable a key immediately, including any secrets still in a rotation window.
+   */
+  app.post('/admin/v1/api-keys/:key_id/disable', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!verifyAdminKey(request, reply, 'keys:manage')) return;
+
+    const params = KeyIdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({
+        error: 'validation_error',
+        details: params.error.flatten(),
+      });
+    }
+
+    const record = await disableManagedKey(params.data.key_id);
+    if (!record) return notFound(reply);
+
+    const actor = getAdminActor(request);
+    log.info({ key_id: record.key_id, actor }, 'Admin disabled API key');
+    await logApiKeyChanged(getAuditLogger(), 'api_key.disabled', record.key_id, actor, { ip: request.ip });
+    return reply.status(200).send(toManagedKeySummary(record));
+  });
+
+  /**
+   * POST /admin/v1/api-keys/:key_id/rotate
+   *
+   * Issue a new secret. Previous secrets stay valid for overlap_hours
+   * (default API_KEY_ROTATION_OVERLAP_HOURS; 0 revokes them now).
+   */
+  app.post('/admin/v1/api-keys/:key_id/rotate', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!verifyAdminKey(request, reply, 'keys:manage')) return;
+
+    const params = KeyIdParamsSchema.safeParse(request.params);
+    const body = RotateKeySchema.safeParse(request.body ?? {});
+    if (!params.success || !body.success) {
+      return reply.status(400).send({
+        error: 'validation_error',
+        details: (params.error ?? body.error)?.flatten(),
+      });
+    }
+
+    const existing = await getManagedKey(params.data.key_id);
+    if (!existing) return notFound(reply);
+    if (existing.status === 'disabled') {
+      return reply.status(409).send({
+        error: 'key_disabled',
+        message: 'Disabled keys cannot be rotated',
+      });
+    }
+
+    const rotated = await rotateManagedKey(existing.key_id, body.data.overlap_hours);
+    if (!rotated) return notFound(reply);
+
+    const actor = getAdminActor(request);
+    log.info({ key_id: existing.key_id, actor, overlap_hours: body.data.overlap_hours }, 'Admin rotated API key');
+    await logApiKeyChanged(getAuditLogger(), 'api_key.rotated', existing.key_id, actor, {
+      overlap_hours: body.data.overlap_hours,
+      ip: request.ip,
+    });
+    return reply.status(200).send({ ...toManagedKeySummary(rotated.record), key: rotated.key });
+  });
+}
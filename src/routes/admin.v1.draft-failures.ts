@@ -1,91 +1,14 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import rateLimit from '@fastify/rate-limit';
 import { z } from 'zod';
-import { config } from '../config/index.js';
+import { hasAdminPermission, resolveAdminIdentity, verifyAdminKey } from '../utils/admin-auth.js';
 import { listDraftFailureBundles, getDraftFailureBundleById } from '../cee/draft-failures/store.js';
-
-type AdminPermission = 'read' | 'write';
-
-function getAllowedIPs(): Set<string> | null {
-  const allowedIPsConfig = config.prompts?.adminAllowedIPs;
-  if (!allowedIPsConfig || allowedIPsConfig.trim() === '') {
-    return null;
-  }
-
-  return new Set(
-    allowedIPsConfig
-      .split(',')
-      .map((ip) => ip.trim())
-      .filter((ip) => ip.length > 0)
-  );
-}
-
-function verifyIPAllowed(request: FastifyRequest, reply: FastifyReply): boolean {
-  const allowedIPs = getAllowedIPs();
-  if (!allowedIPs) return true;
-
-  const requestIP = request.ip;
-  const isAllowed =
-    allowedIPs.has(requestIP) ||
-    (requestIP === '::1' && allowedIPs.has('127.0.0.1')) ||
-    (requestIP === '127.0.0.1' && allowedIPs.has('::1'));
-
-  if (!isAllowed) {
-    reply.status(403).send({
-      error: 'ip_not_allowed',
-      message: 'Your IP address is not authorized for admin access',
-    });
-    return false;
-  }
-  return true;
-}
-
-function verifyAdminKey(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  requiredPermission: AdminPermission = 'read'
-): boolean {
-  if (!verifyIPAllowed(request, reply)) return false;
-
-  const adminKey = config.prompts?.adminApiKey;
-  const adminKeyRead = config.prompts?.adminApiKeyRead;
-
-  if (!adminKey && !adminKeyRead) {
-    reply.status(503).send({
-      error: 'admin_not_configured',
-      message: 'Admin API is not configured',
-    });
-    return false;
-  }
-
-  const providedKey = request.headers['x-admin-key'] as string;
-  if (!providedKey) {
-    reply.status(401).send({
-      error: 'unauthorized',
-      message: 'Missing admin API key',
-    });
-    return false;
-  }
-
-  if (adminKey && providedKey === adminKey) return true;
-
-  if (adminKeyRead && providedKey === adminKeyRead) {
-    if (requiredPermission === 'write') {
-      reply.status(403).send({
-        error: 'forbidden',
-        message: 'Read-only key cannot perform write operations',
-      });
-      return false;
-    }
-    return true;
-  }
-
-  reply.status(401).send({
-    error: 'unauthorized',
-    message: 'Invalid admin API key',
-  });
-  return false;
-}
+import {
+  replayDraftFailure,
+  replayDraftFailures,
+  MAX_REPLAY_BATCH_SIZE,
+  type DraftFailureReplayResult,
+} from '../cee/draft-failures/replay.js';
 
 const ListQuerySchema = z.object({
   request_id: z.string().optional(),
@@ -98,6 +21,66 @@ const IdParamsSchema = z.object({
   id: z.string().uuid(),
 });
 
+const ReplayOptionsSchema = z.object({
+  mode: z.enum(['pipeline', 'raw_output']).default('pipeline'),
+  prompt_version: z.number().int().positive().optional(),
+  model: z.string().min(1).optional(),
+});
+
+const ReplayBatchSchema = ReplayOptionsSchema.extend({
+  filter: z.object({
+    request_id: z.string().optional(),
+    model: z.string().optional(),
+    prompt_version: z.string().optional(),
+    since: z.string().optional(),
+    limit: z.number().int().positive().max(MAX_REPLAY_BATCH_SIZE).optional(),
+  }).default({}),
+});
+
+const NDJSON_HEADERS = {
+  'content-type': 'application/x-ndjson',
+  'cache-control': 'no-cache',
+} as const;
+
+function writeLine(reply: FastifyReply, line: unknown): Promise<void> {
+  return new Promise<void>((resolve) => {
+    if (reply.raw.write(`${JSON.stringify(line)}\n`)) {
+      resolve();
+    } else {
+      reply.raw.once('drain', () => resolve());
+    }
+  });
+}
+
+function toReplayResponse(result: DraftFailureReplayResult) {
+  return {
+    failure_id: result.failureId,
+    request_id: result.requestId,
+    outcome: result.outcome,
+    skip_reason: result.skipReason,
+    error: result.error,
+    original: {
+      validation_error: result.original.validationError,
+      status_code: result.original.statusCode,
+      missing_kinds: result.original.missingKinds,
+      model: result.original.model,
+      prompt_version: result.original.promptVersion,
+    },
+    replay: result.replay ? {
+      request_id: result.replay.requestId,
+      status_code: result.replay.statusCode,
+      error_code: result.replay.errorCode,
+      message: result.replay.message,
+      missing_kinds: result.replay.missingKinds,
+      node_count: result.replay.nodeCount,
+      edge_count: result.replay.edgeCount,
+      model: result.replay.model,
+      prompt_version: result.replay.promptVersion,
+    } : undefined,
+    duration_ms: result.durationMs,
+  };
+}
+
 export async function adminDraftFailureRoutes(app: FastifyInstance): Promise<void> {
   await app.register(rateLimit, {
     max: 100,
@@ -174,13 +157,17 @@ export async function adminDraftFailureRoutes(app: FastifyInstance): Promise<voi
       });
     }
 
+    // Raw LLM output and the full brief are operator-only, as on /admin/v1/llm-output/:request_id
+    const identity = resolveAdminIdentity(request);
+    const canReadRaw = identity !== null && hasAdminPermission(identity, 'llm-output:raw');
+
     return reply.status(200).send({
       ...failure,
       correlation_id: failure.correlation_id ?? undefined,
       brief_preview: failure.brief_preview ?? undefined,
-      brief: failure.brief ?? undefined,
-      raw_llm_output: failure.raw_llm_output ?? undefined,
-      raw_llm_text: failure.raw_llm_text ?? undefined,
+      brief: canReadRaw ? failure.brief ?? undefined : undefined,
+      raw_llm_output: canReadRaw ? failure.raw_llm_output ?? undefined : undefined,
+      raw_llm_text: canReadRaw ? failure.raw_llm_text ?? undefined : undefined,
       missing_kinds: failure.missing_kinds ?? undefined,
       node_kinds_raw_json: failure.node_kinds_raw_json ?? [],
       node_kinds_post_normalisation: failure.node_kinds_post_normalisation ?? [],
@@ -195,4 +182,104 @@ export async function adminDraftFailureRoutes(app: FastifyInstance): Promise<voi
       total_duration_ms: failure.total_duration_ms ?? undefined,
     });
   });
+
+  // Replays make LLM calls in pipeline mode, so they are operator-only
+  app.post('/admin/v1/draft-failures/:id/replay', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!verifyAdminKey(request, reply, 'ops:manage')) return;
+
+    const params = IdParamsSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({
+        error: 'validation_error',
+        details: params.error.flatten(),
+      });
+    }
+
+    const body = ReplayOptionsSchema.safeParse(request.body ?? {});
+    if (!body.success) {
+      return reply.status(400).send({
+        error: 'validation_error',
+        details: body.error.flatten(),
+      });
+    }
+
+    try {
+      const result = await replayDraftFailure(params.data.id, {
+        mode: body.data.mode,
+        promptVersion: body.data.prompt_version,
+        model: body.data.model,
+      });
+      if (!result) {
+        return reply.status(404).send({
+          error: 'not_found',
+          message: 'Failure bundle not found',
+        });
+      }
+      return reply.status(200).send(toReplayResponse(result));
+    } catch (error) {
+      return reply.status(422).send({
+        error: 'replay_failed',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * Batch replay, streamed as NDJSON: one {"type":"result"} line per failure
+   * as it finishes, then a {"type":"summary"} line. Pipeline replays call the
+   * LLM one after another, so streaming keeps the connection alive and hands
+   * over results before the batch completes.
+   */
+  app.post('/admin/v1/draft-failures/replay', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!verifyAdminKey(request, reply, 'ops:manage')) return;
+
+    const body = ReplayBatchSchema.safeParse(request.body ?? {});
+    if (!body.success) {
+      return reply.status(400).send({
+        error: 'validation_error',
+        details: body.error.flatten(),
+      });
+    }
+
+    // Headers go out with the first result, so set-up errors (unknown prompt version) can still be a 422
+    const startStream = () => {
+      if (!reply.raw.headersSent) reply.raw.writeHead(200, NDJSON_HEADERS);
+    };
+
+    try {
+      const { summary } = await replayDraftFailures(
+        {
+          requestId: body.data.filter.request_id,
+          model: body.data.filter.model,
+          promptVersion: body.data.filter.prompt_version,
+          since: body.data.filter.since,
+          limit: body.data.filter.limit,
+        },
+        {
+          mode: body.data.mode,
+          promptVersion: body.data.prompt_version,
+          model: body.data.model,
+        },
+        async (result) => {
+          startStream();
+          await writeLine(reply, { type: 'result', ...toReplayResponse(result) });
+        }
+      );
+      startStream();
+      await writeLine(reply, { type: 'summary', summary });
+      reply.raw.end();
+      return reply;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (reply.raw.headersSent) {
+        await writeLine(reply, { type: 'error', error: 'replay_failed', message });
+        reply.raw.end();
+        return reply;
+      }
+      return reply.status(422).send({
+        error: 'replay_failed',
+        message,
+      });
+    }
+  });
 }
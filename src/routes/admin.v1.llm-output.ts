@@ -1,96 +1,42 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import rateLimit from '@fastify/rate-limit';
 import { z } from 'zod';
-import { config } from '../config/index.js';
-import { getLLMOutput, getLLMOutputStoreSize } from '../cee/llm-output-store.js';
-
-type AdminPermission = 'read' | 'write';
-
-function getAllowedIPs(): Set<string> | null {
-  const allowedIPsConfig = config.prompts?.adminAllowedIPs;
-  if (!allowedIPsConfig || allowedIPsConfig.trim() === '') {
-    return null;
-  }
-
-  return new Set(
-    allowedIPsConfig
-      .split(',')
-      .map((ip) => ip.trim())
-      .filter((ip) => ip.length > 0)
-  );
-}
-
-function verifyIPAllowed(request: FastifyRequest, reply: FastifyReply): boolean {
-  const allowedIPs = getAllowedIPs();
-  if (!allowedIPs) return true;
-
-  const requestIP = request.ip;
-  const isAllowed =
-    allowedIPs.has(requestIP) ||
-    (requestIP === '::1' && allowedIPs.has('127.0.0.1')) ||
-    (requestIP === '127.0.0.1' && allowedIPs.has('::1'));
-
-  if (!isAllowed) {
-    reply.status(403).send({
-      error: 'ip_not_allowed',
-      message: 'Your IP address is not authorized for admin access',
-    });
-    return false;
-  }
-  return true;
-}
-
-function verifyAdminKey(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  requiredPermission: AdminPermission = 'read'
-): boolean {
-  if (!verifyIPAllowed(request, reply)) return false;
-
-  const adminKey = config.prompts?.adminApiKey;
-  const adminKeyRead = config.prompts?.adminApiKeyRead;
-
-  if (!adminKey && !adminKeyRead) {
-    reply.status(503).send({
-      error: 'admin_not_configured',
-      message: 'Admin API is not configured',
-    });
-    return false;
-  }
-
-  const providedKey = request.headers['x-admin-key'] as string;
-  if (!providedKey) {
-    reply.status(401).send({
-      error: 'unauthorized',
-      message: 'Missing admin API key',
-    });
-    return false;
-  }
-
-  if (adminKey && providedKey === adminKey) return true;
-
-  if (adminKeyRead && providedKey === adminKeyRead) {
-    if (requiredPermission === 'write') {
-      reply.status(403).send({
-        error: 'forbidden',
-        message: 'Read-only key cannot perform write operations',
-      });
-      return false;
-    }
-    return true;
-  }
-
-  reply.status(401).send({
-    error: 'unauthorized',
-    message: 'Invalid admin API key',
-  });
-  return false;
-}
+import { verifyAdminKey } from '../utils/admin-auth.js';
+import {
+  getLLMOutput,
+  getLLMOutputStoreStats,
+  pruneLLMOutputs,
+  searchLLMOutputs,
+  type LLMOutputEntry,
+} from '../cee/llm-output-store.js';
 
 const RequestIdParamsSchema = z.object({
   request_id: z.string().min(1),
 });
 
+const SearchQuerySchema = z.object({
+  model: z.string().min(1).optional(),
+  prompt_version: z.string().min(1).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  min_nodes: z.coerce.number().int().min(0).optional(),
+  max_nodes: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+function toSummary(entry: LLMOutputEntry) {
+  return {
+    request_id: entry.requestId,
+    output_hash: entry.outputHash,
+    node_count: entry.nodeCount,
+    edge_count: entry.edgeCount,
+    stored_at: new Date(entry.storedAt).toISOString(),
+    model: entry.model ?? null,
+    prompt_version: entry.promptVersion ?? null,
+  };
+}
+
 export async function adminLLMOutputRoutes(app: FastifyInstance): Promise<void> {
   await app.register(rateLimit, {
     max: 100,
@@ -105,17 +51,66 @@ export async function adminLLMOutputRoutes(app: FastifyInstance): Promise<void>
     }),
   });
 
+  /**
+   * GET /admin/v1/llm-output
+   *
+   * Search stored outputs by model, prompt version, date range (ISO 8601)
+   * and node count, newest first. Returns summaries without output content.
+   */
+  app.get('/admin/v1/llm-output', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!verifyAdminKey(request, reply, 'read')) return;
+
+    const query = SearchQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.status(400).send({
+        error: 'validation_error',
+        details: query.error.flatten(),
+      });
+    }
+
+    const { model, prompt_version, from, to, min_nodes, max_nodes, limit, offset } = query.data;
+    const entries = await searchLLMOutputs({
+      model,
+      promptVersion: prompt_version,
+      from: from ? Date.parse(from) : undefined,
+      to: to ? Date.parse(to) : undefined,
+      minNodeCount: min_nodes,
+      maxNodeCount: max_nodes,
+      limit,
+      offset,
+    });
+
+    return reply.status(200).send({
+      outputs: entries.map(toSummary),
+      count: entries.length,
+      limit,
+      offset,
+    });
+  });
+
+  /**
+   * POST /admin/v1/llm-output/prune
+   *
+   * Apply the retention policy immediately (it also runs hourly).
+   */
+  app.post('/admin/v1/llm-output/prune', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!verifyAdminKey(request, reply, 'ops:manage')) return;
+
+    const deleted = await pruneLLMOutputs();
+    return reply.status(200).send({ deleted });
+  });
+
   /**
    * GET /admin/v1/llm-output/:request_id
    *
    * Retrieve the full LLM output for a specific request ID.
    * This is used for debugging and admin purposes to inspect
-   * the complete raw output from the LLM.
+   * the complete raw output from the LLM (PII-redacted at write time).
    *
-   * Returns 404 if the output is not found or has expired (TTL: 1 hour).
+   * Returns 404 if the output is not found or is past the retention period.
    */
   app.get('/admin/v1/llm-output/:request_id', async (request: FastifyRequest, reply: FastifyReply) => {
-    if (!verifyAdminKey(request, reply, 'read')) return;
+    if (!verifyAdminKey(request, reply, 'llm-output:raw')) return;
 
     const params = RequestIdParamsSchema.safeParse(request.params);
     if (!params.success) {
@@ -125,11 +120,11 @@ export async function adminLLMOutputRoutes(app: FastifyInstance): Promise<void>
       });
     }
 
-    const entry = getLLMOutput(params.data.request_id);
+    const entry = await getLLMOutput(params.data.request_id);
     if (!entry) {
       return reply.status(404).send({
         error: 'not_found',
-        message: 'LLM output not found or has expired (TTL: 1 hour)',
+        message: 'LLM output not found or past the retention period',
       });
     }
 
@@ -154,10 +149,12 @@ export async function adminLLMOutputRoutes(app: FastifyInstance): Promise<void>
   app.get('/admin/v1/llm-output-stats', async (request: FastifyRequest, reply: FastifyReply) => {
     if (!verifyAdminKey(request, reply, 'read')) return;
 
+    const stats = await getLLMOutputStoreStats();
     return reply.status(200).send({
-      store_size: getLLMOutputStoreSize(),
-      max_entries: 1000,
-      ttl_ms: 60 * 60 * 1000,
+      store_type: stats.storeType,
+      store_size: stats.size,
+      max_entries: stats.retention.maxEntries,
+      ttl_ms: stats.retention.maxAgeMs,
     });
   });
 }
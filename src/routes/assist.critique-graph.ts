@@ -6,7 +6,7 @@ import { emit, log, calculateCost, TelemetryEvents } from "../utils/telemetry.js
 import { getRequestId } from "../utils/request-id.js";
 import { getRequestCallerContext } from "../plugins/auth.js";
 import { contextToTelemetry } from "../context/index.js";
-import { processAttachments, type AttachmentInput, type GroundingStats } from "../grounding/process-attachments.js";
+import { attachmentLimitHint, processAttachments, type AttachmentInput, type GroundingStats } from "../grounding/process-attachments.js";
 import { type DocPreview } from "../services/docProcessing.js";
 import { isFeatureEnabled } from "../utils/feature-flags.js";
 import { verificationPipeline } from "../cee/verification/index.js";
@@ -39,7 +39,7 @@ export default async function route(app: FastifyInstance) {
     const telemetryCtx = callerCtx ? contextToTelemetry(callerCtx) : { request_id: requestId };
 
     try {
-      // Process attachments with grounding module (v04: 5k limit, privacy, safe CSV)
+      // Process attachments with grounding module (v04: budgeted previews, privacy, safe CSV)
       let docs: DocPreview[] = [];
       let groundingStats: GroundingStats | undefined;
 
@@ -79,9 +79,7 @@ export default async function route(app: FastifyInstance) {
 
           // Handle over-limit files with BAD_INPUT error and helpful hint
           if (err.message.includes('_exceeds_limit')) {
-            const hint = err.message.includes('aggregate_exceeds_limit')
-              ? "Total attachment size exceeds 50k character limit. Please reduce the number of attachments or their sizes."
-              : "One or more files exceed the 5k character limit. Please reduce file size or split into smaller files.";
+            const hint = attachmentLimitHint(err.message);
 
             reply.code(400);
             return reply.send(ErrorV1.parse({
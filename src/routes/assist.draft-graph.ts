@@ -5,13 +5,15 @@ import { DraftGraphInput, DraftGraphOutput, ErrorV1, type DraftGraphInputT } fro
 import { calcConfidence, shouldClarify } from "../utils/confidence.js";
 import { estimateTokens, allowedCostUSD } from "../utils/costGuard.js";
 import { type DocPreview } from "../services/docProcessing.js";
-import { processAttachments, type AttachmentInput, type GroundingStats } from "../grounding/process-attachments.js";
+import { attachmentLimitHint, processAttachments, type AttachmentInput, type GroundingStats } from "../grounding/process-attachments.js";
+import { attachChunkIds, retrieveForQueries, type DocumentChunk } from "../grounding/retrieval.js";
 import { getAdapter } from "../adapters/llm/router.js";
 import { validateGraph } from "../services/validateClientWithCache.js";
 import { simpleRepair } from "../services/repair.js";
 import { stabiliseGraph, ensureDagAndPrune } from "../orchestrator/index.js";
 import { validateAndFixGraph } from "../cee/structure/index.js";
 import { enrichGraphWithFactorsAsync } from "../cee/factor-extraction/enricher.js";
+import { extractFactors } from "../cee/factor-extraction/index.js";
 import { createCorrectionCollector } from "../cee/corrections.js";
 import { emit, log, calculateCost, TelemetryEvents } from "../utils/telemetry.js";
 import { hasLegacyProvenance } from "../schemas/graph.js";
@@ -398,7 +400,8 @@ async function writeStage(reply: FastifyReply, event: StageEvent): Promise<void>
 
 /**
  * Process attachments using grounding module (v04).
- * Enforces 5k char limit per file with BAD_INPUT errors.
+ * Enforces per-file and aggregate extraction limits with BAD_INPUT errors;
+ * previews are cut to the shared token budget, keeping brief matches first.
  *
  * @throws Error with details for over-limit files or processing failures
  */
@@ -410,14 +413,14 @@ async function groundAttachments(
   if (!isFeatureEnabled('grounding', input.flags)) {
     return {
       docs: [],
-      stats: { files_processed: 0, pdf: 0, txt_md: 0, csv: 0, total_chars: 0 }
+      stats: { files_processed: 0, pdf: 0, txt_md: 0, csv: 0, office: 0, total_chars: 0 }
     };
   }
 
   if (!input.attachments?.length) {
     return {
       docs: [],
-      stats: { files_processed: 0, pdf: 0, txt_md: 0, csv: 0, total_chars: 0 }
+      stats: { files_processed: 0, pdf: 0, txt_md: 0, csv: 0, office: 0, total_chars: 0 }
     };
   }
 
@@ -444,8 +447,8 @@ async function groundAttachments(
     });
   }
 
-  // Process attachments with grounding module (enforces 5k limit, privacy, safe CSV)
-  const result = await processAttachments(attachmentInputs);
+  // Process attachments with grounding module (extraction limits, shared preview budget, privacy, safe CSV)
+  const result = await processAttachments(attachmentInputs, { brief: input.brief });
   return result;
 }
 
@@ -453,7 +456,7 @@ export async function runDraftGraphPipeline(input: DraftGraphInputT, rawBody: un
   // Create correction collector for tracking graph modifications
   const collector = createCorrectionCollector();
 
-  // Process attachments with grounding module (v04: 5k limit, privacy, safe CSV)
+  // Process attachments with grounding module (v04: budgeted previews, privacy, safe CSV)
   let docs: DocPreview[];
   let groundingStats: GroundingStats | undefined;
 
@@ -466,9 +469,7 @@ export async function runDraftGraphPipeline(input: DraftGraphInputT, rawBody: un
 
     // Handle over-limit files with BAD_INPUT error and helpful hint
     if (err.message.includes('_exceeds_limit')) {
-      const hint = err.message.includes('aggregate_exceeds_limit')
-        ? "Total attachment size exceeds 50k character limit. Please reduce the number of attachments or their sizes."
-        : "One or more files exceed the 5k character limit. Please reduce file size or split into smaller files.";
+      const hint = attachmentLimitHint(err.message);
 
       return {
         kind: "error",
@@ -497,6 +498,15 @@ export async function runDraftGraphPipeline(input: DraftGraphInputT, rawBody: un
     : input.brief;
   const clarifier = determineClarifier(confidence);
 
+  // Retrieval: replace whole documents with the chunks relevant to the brief and each factor
+  let retrievedChunks: DocumentChunk[] = [];
+  if (config.retrieval.enabled && docs.length > 0) {
+    const factorLabels = extractFactors(input.brief).map((factor) => factor.label);
+    const retrieval = retrieveForQueries(docs, [input.brief, ...factorLabels]);
+    docs = retrieval.docs;
+    retrievedChunks = retrieval.chunks.map((hit) => hit.chunk);
+  }
+
   // Get adapter via router (env-driven or config-based provider selection)
   const draftAdapter = getAdapter('draft_graph');
 
@@ -837,6 +847,9 @@ export async function runDraftGraphPipeline(input: DraftGraphInputT, rawBody: un
     }
   }
 
+  // Thread retrieved chunk IDs into edge provenance
+  candidate = attachChunkIds(candidate, retrievedChunks);
+
   // DEBUG: Track node counts after goal merging and validation fixes
   log.info({
     stage: "4_goal_merge_and_fix",
@@ -923,10 +936,18 @@ export async function runDraftGraphPipeline(input: DraftGraphInputT, rawBody: un
     : undefined;
 
   // Build trace with corrections if any were recorded
-  const tracePayload = collector.hasCorrections()
+  const semanticCacheTrace = llmMeta?.cache === "semantic"
+    ? { cache: llmMeta.cache, cache_similarity: llmMeta.cache_similarity }
+    : undefined;
+  const tracePayload = collector.hasCorrections() || semanticCacheTrace
     ? {
-        corrections: collector.getCorrections(),
-        corrections_summary: collector.getSummary(),
+        ...(collector.hasCorrections()
+          ? {
+              corrections: collector.getCorrections(),
+              corrections_summary: collector.getSummary(),
+            }
+          : {}),
+        ...semanticCacheTrace,
       }
     : undefined;
 
@@ -986,6 +1007,7 @@ export async function runDraftGraphPipeline(input: DraftGraphInputT, rawBody: un
     draft_cost_usd: draftCost,
     cost_usd: totalCost,
     prompt_cache_hit: promptCacheHit,
+    semantic_cache_hit: llmMeta?.cache === "semantic",
   };
 
   // Add repair provider info if repair was performed
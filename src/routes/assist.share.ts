@@ -2,15 +2,25 @@
  * Share-for-Review Routes
  *
  * POST /assist/share - Create signed share URL
+ * PUT /assist/share/:id - Publish a new graph version under the same URL
  * GET /assist/share/:id - Retrieve shared content (read-only, redacted)
+ * GET /assist/share/:id?version=N - Retrieve a retained earlier version
+ * GET /assist/share/:id?format=svg|png - Render the shared graph as an image
+ * GET /assist/share/:id/diff?from=N&to=M - Patch between two versions
+ * GET /assist/share/:id/access-log - Access log (creating key only)
  * DELETE /assist/share/:id - Revoke share
+ *
+ * Passphrase-protected shares require the X-Share-Passphrase header on
+ * every read (content, images and diffs).
  */
 
-import type { FastifyInstance } from "fastify";
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import rateLimit from "@fastify/rate-limit";
 import { z } from "zod";
-import { Graph } from "../schemas/graph.js";
-import { buildErrorV1 } from "../utils/errors.js";
+import { Graph, type GraphT } from "../schemas/graph.js";
+import { Highlight } from "../schemas/working-set.js";
+import { renderGraph } from "../render/index.js";
+import { buildErrorV1, type ErrorCode } from "../utils/errors.js";
 import { getRequestId } from "../utils/request-id.js";
 import { TelemetryEvents, emit } from "../utils/telemetry.js";
 import {
@@ -18,16 +28,52 @@ import {
   signShareToken,
   verifyShareToken,
   hashShareId,
+  hashShareViewer,
+  hashSharePassphrase,
+  verifySharePassphrase,
 } from "../utils/share-token.js";
-import { storeShare, getShare, revokeShare } from "../utils/share-storage.js";
+import {
+  storeShare,
+  getShare,
+  revokeShare,
+  countShareAccess,
+  recordShareAccess,
+  getShareAccessLog,
+  getPassphraseFailures,
+  recordPassphraseFailure,
+  type ShareAccessEntry,
+  type ShareData,
+  type ShareVersion,
+} from "../utils/share-storage.js";
 import {
   redactGraphForShare,
   redactBrief,
   calculateRedactedSize,
   SHARE_SIZE_LIMITS,
 } from "../utils/share-redaction.js";
+import { diffGraphs } from "../utils/graph-patch.js";
+import { getRequestKeyId } from "../plugins/auth.js";
 import { config } from "../config/index.js";
 
+const PASSPHRASE_HEADER = "x-share-passphrase";
+
+const Passphrase = z.string().min(8).max(128);
+
+const ShareUpdateSchema = z.object({
+  graph: Graph,
+  brief: z.string().optional(),
+  highlights: z.array(Highlight).max(50).optional(),
+  passphrase: Passphrase.nullable().optional(), // null removes protection, omitted keeps it
+});
+
+const VersionParam = z.coerce.number().int().positive();
+
+type ShareFormat = ShareAccessEntry["format"];
+
+type ViewerShareResult =
+  | { ok: true; share: ShareData }
+  | { ok: false; status: number; code: ErrorCode; message: string; details?: Record<string, unknown> };
+
 /**
  * Check if share feature is enabled
  */
@@ -35,6 +81,178 @@ function isShareEnabled(): boolean {
   return config.features.shareReview;
 }
 
+/**
+ * Extract token from wildcard path (ignoring query string and sub-paths)
+ */
+function tokenFromUrl(url: string): string {
+  return url.split("?")[0].replace("/assist/share/", "").split("/")[0];
+}
+
+function shareUrl(token: string): string {
+  const baseUrl = config.server.baseUrl || "https://olumi-assistants-service.onrender.com";
+  return `${baseUrl}/assist/share/${token}`;
+}
+
+/**
+ * Size check shared by create and update; returns an error message or null
+ */
+function checkShareSize(graph: GraphT, brief?: string): string | null {
+  if (graph.nodes.length > SHARE_SIZE_LIMITS.MAX_NODES) {
+    return `Graph too large: ${graph.nodes.length} nodes (max ${SHARE_SIZE_LIMITS.MAX_NODES})`;
+  }
+
+  if (graph.edges.length > SHARE_SIZE_LIMITS.MAX_EDGES) {
+    return `Graph too large: ${graph.edges.length} edges (max ${SHARE_SIZE_LIMITS.MAX_EDGES})`;
+  }
+
+  const redactedSize = calculateRedactedSize(graph, brief);
+  if (redactedSize > SHARE_SIZE_LIMITS.MAX_GRAPH_SIZE) {
+    return `Content too large: ${redactedSize} bytes (max ${SHARE_SIZE_LIMITS.MAX_GRAPH_SIZE})`;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the requested TTL against the caller's allowance.
+ * Keys in SHARE_EXTENDED_KEY_IDS may exceed SHARE_MAX_TTL_HOURS or pass
+ * null for a non-expiring share.
+ */
+function resolveExpiry(
+  ttlHours: number | null,
+  keyId: string | null,
+  now: number
+): { expiresAt: number | null } | { error: string } {
+  const extended = keyId !== null && (config.share.extendedKeyIds ?? []).includes(keyId);
+  const maxHours = extended ? config.share.extendedMaxTtlHours : config.share.maxTtlHours;
+
+  if (ttlHours === null) {
+    return extended
+      ? { expiresAt: null }
+      : { error: "Non-expiring shares are not available for this key" };
+  }
+
+  if (ttlHours > maxHours) {
+    return { error: `ttl_hours exceeds the maximum of ${maxHours} for this key` };
+  }
+
+  return { expiresAt: now + ttlHours * 60 * 60 * 1000 };
+}
+
+/**
+ * Retained versions, oldest first (shares created before versioning have one)
+ */
+function shareVersions(share: ShareData): ShareVersion[] {
+  return share.versions ?? [{
+    version: share.version ?? 1,
+    graph: share.graph,
+    brief: share.brief,
+    highlights: share.highlights,
+    created_at: share.created_at,
+  }];
+}
+
+/**
+ * Whether the caller's key created the share. Shares without a recorded
+ * owner (legacy, or created with auth disabled) are owned by nobody: anyone
+ * with the link could otherwise overwrite them or read their log.
+ */
+function isShareOwner(req: FastifyRequest, share: ShareData): boolean {
+  return share.owner_key_id !== undefined && share.owner_key_id === getRequestKeyId(req);
+}
+
+function accessEntry(
+  req: FastifyRequest,
+  share: ShareData,
+  format: ShareFormat,
+  outcome: ShareAccessEntry["outcome"]
+): ShareAccessEntry {
+  const userAgent = req.headers["user-agent"];
+  return {
+    at: Date.now(),
+    version: share.version ?? 1,
+    format,
+    outcome,
+    viewer_hash: hashShareViewer(req.ip),
+    ...(userAgent ? { user_agent: userAgent.slice(0, 200) } : {}),
+  };
+}
+
+/**
+ * Verify the token, load the share and check its passphrase.
+ * Counts and logs the access when granted; logs denials.
+ */
+async function resolveViewerShare(
+  req: FastifyRequest,
+  format: ShareFormat
+): Promise<ViewerShareResult> {
+  const payload = verifyShareToken(tokenFromUrl(req.url));
+  if (!payload) {
+    emit(TelemetryEvents.ShareExpired, { reason: "invalid_token" });
+    return { ok: false, status: 410, code: "NOT_FOUND", message: "Share expired or invalid" };
+  }
+
+  const share = await getShare(payload.share_id, { countAccess: false });
+  if (!share) {
+    emit(TelemetryEvents.ShareNotFound, {
+      share_id_hash: hashShareId(payload.share_id),
+    });
+    return { ok: false, status: 410, code: "NOT_FOUND", message: "Share not found or revoked" };
+  }
+
+  if (share.passphrase_hash) {
+    const passphrase = req.headers[PASSPHRASE_HEADER];
+
+    // Checked before hashing, so guessing can't keep scrypt busy once a share is locked
+    if ((await getPassphraseFailures(share.share_id)) >= config.share.passphraseMaxFailures) {
+      await recordShareAccess(share.share_id, accessEntry(req, share, format, "denied"));
+      emit(TelemetryEvents.ShareAccessDenied, {
+        share_id_hash: hashShareId(share.share_id),
+        reason: "passphrase_locked",
+      });
+      return {
+        ok: false,
+        status: 429,
+        code: "RATE_LIMITED",
+        message: "Too many wrong passphrases for this share. Please try again later.",
+        details: { retry_after_seconds: config.share.passphraseLockoutSeconds },
+      };
+    }
+
+    const granted =
+      typeof passphrase === "string" && (await verifySharePassphrase(passphrase, share.passphrase_hash));
+    if (!granted) {
+      if (typeof passphrase === "string") {
+        await recordPassphraseFailure(share.share_id);
+      }
+      await recordShareAccess(share.share_id, accessEntry(req, share, format, "denied"));
+      emit(TelemetryEvents.ShareAccessDenied, {
+        share_id_hash: hashShareId(share.share_id),
+        reason: typeof passphrase === "string" ? "wrong_passphrase" : "missing_passphrase",
+      });
+      return {
+        ok: false,
+        status: 401,
+        code: "UNAUTHENTICATED",
+        message: "This share is passphrase-protected",
+        details: { passphrase_required: true, header: "X-Share-Passphrase" },
+      };
+    }
+  }
+
+  await countShareAccess(share);
+  await recordShareAccess(share.share_id, accessEntry(req, share, format, "granted"));
+
+  emit(TelemetryEvents.ShareAccessed, {
+    share_id_hash: hashShareId(share.share_id),
+    access_count: share.access_count,
+    age_hours: Math.floor((Date.now() - share.created_at) / (1000 * 60 * 60)),
+    format,
+  });
+
+  return { ok: true, share };
+}
+
 /**
  * Share routes registration
  */
@@ -77,50 +295,29 @@ export default async function route(app: FastifyInstance) {
       const ShareInputSchema = z.object({
         graph: Graph,
         brief: z.string().optional(),
-        ttl_hours: z.number().min(1).max(168).default(24), // 1h-7d, default 24h
+        // Default 24h; the maximum depends on the key (null = never expires)
+        ttl_hours: z.number().min(1).nullable().default(24),
+        highlights: z.array(Highlight).max(50).optional(),
+        render: z.boolean().default(false), // Include SVG/PNG image URLs
+        passphrase: Passphrase.optional(),
       });
 
       const input = ShareInputSchema.parse(req.body);
 
       // Validate size constraints
-      if (input.graph.nodes.length > SHARE_SIZE_LIMITS.MAX_NODES) {
-        return reply.code(400).send(
-          buildErrorV1(
-            "BAD_INPUT",
-            `Graph too large: ${input.graph.nodes.length} nodes (max ${SHARE_SIZE_LIMITS.MAX_NODES})`,
-            {},
-            requestId
-          )
-        );
-      }
-
-      if (input.graph.edges.length > SHARE_SIZE_LIMITS.MAX_EDGES) {
-        return reply.code(400).send(
-          buildErrorV1(
-            "BAD_INPUT",
-            `Graph too large: ${input.graph.edges.length} edges (max ${SHARE_SIZE_LIMITS.MAX_EDGES})`,
-            {},
-            requestId
-          )
-        );
-      }
-
-      const redactedSize = calculateRedactedSize(input.graph, input.brief);
-      if (redactedSize > SHARE_SIZE_LIMITS.MAX_GRAPH_SIZE) {
-        return reply.code(400).send(
-          buildErrorV1(
-            "BAD_INPUT",
-            `Content too large: ${redactedSize} bytes (max ${SHARE_SIZE_LIMITS.MAX_GRAPH_SIZE})`,
-            {},
-            requestId
-          )
-        );
+      const sizeError = checkShareSize(input.graph, input.brief);
+      if (sizeError) {
+        return reply.code(400).send(buildErrorV1("BAD_INPUT", sizeError, {}, requestId));
       }
 
       // Generate share
       const shareId = generateShareId();
       const now = Date.now();
-      const expiresAt = now + input.ttl_hours * 60 * 60 * 1000;
+      const keyId = getRequestKeyId(req);
+      const expiry = resolveExpiry(input.ttl_hours, keyId, now);
+      if ("error" in expiry) {
+        return reply.code(400).send(buildErrorV1("BAD_INPUT", expiry.error, {}, requestId));
+      }
 
       // Redact and store
       const redactedGraph = redactGraphForShare(input.graph);
@@ -131,17 +328,28 @@ export default async function route(app: FastifyInstance) {
         share_id: shareId,
         graph: redactedGraph,
         brief: redactedBrief,
+        highlights: input.highlights,
         created_at: now,
-        expires_at: expiresAt,
+        expires_at: expiry.expiresAt,
         revoked: false,
         access_count: 0,
+        version: 1,
+        versions: [{
+          version: 1,
+          graph: redactedGraph,
+          brief: redactedBrief,
+          highlights: input.highlights,
+          created_at: now,
+        }],
+        ...(input.passphrase ? { passphrase_hash: await hashSharePassphrase(input.passphrase) } : {}),
+        ...(keyId ? { owner_key_id: keyId } : {}),
       });
 
       // Sign token
       const token = signShareToken({
         share_id: shareId,
         created_at: now,
-        expires_at: expiresAt,
+        expires_at: expiry.expiresAt,
       });
 
       // Telemetry
@@ -151,18 +359,23 @@ export default async function route(app: FastifyInstance) {
         graph_nodes: input.graph.nodes.length,
         graph_edges: input.graph.edges.length,
         has_brief: !!input.brief,
-        size_bytes: redactedSize,
+        has_passphrase: !!input.passphrase,
+        size_bytes: calculateRedactedSize(input.graph, input.brief),
       });
 
       // Build share URL
-      const baseUrl = config.server.baseUrl || "https://olumi-assistants-service.onrender.com";
-      const shareUrl = `${baseUrl}/assist/share/${token}`;
+      const url = shareUrl(token);
 
       return reply.code(201).send({
         schema: "share.v1",
         share_id: shareId,
-        url: shareUrl,
-        expires_at: new Date(expiresAt).toISOString(),
+        url,
+        version: 1,
+        expires_at: expiry.expiresAt === null ? null : new Date(expiry.expiresAt).toISOString(),
+        passphrase_protected: !!input.passphrase,
+        ...(input.render
+          ? { images: { svg: `${url}?format=svg`, png: `${url}?format=png` } }
+          : {}),
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -196,6 +409,188 @@ export default async function route(app: FastifyInstance) {
     }
   });
 
+  /**
+   * PUT /assist/share/:token
+   * Publish a new graph version; the URL stays the same
+   */
+  app.put("/assist/share/*", async (req, reply) => {
+    const requestId = getRequestId(req);
+    if (!isShareEnabled()) {
+      return reply.code(404).send(
+        buildErrorV1("NOT_FOUND", "Share feature not enabled", {}, requestId)
+      );
+    }
+
+    const parsed = ShareUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send(
+        buildErrorV1("BAD_INPUT", "Invalid request", { errors: parsed.error.errors }, requestId)
+      );
+    }
+    const input = parsed.data;
+
+    try {
+      const token = tokenFromUrl(req.url);
+      const payload = verifyShareToken(token);
+      const share = payload && (await getShare(payload.share_id, { countAccess: false }));
+      if (!share) {
+        return reply.code(404).send(
+          buildErrorV1("NOT_FOUND", "Share not found", {}, requestId)
+        );
+      }
+
+      if (!isShareOwner(req, share)) {
+        return reply.code(403).send(
+          buildErrorV1("FORBIDDEN", "Only the key that created this share can update it", {}, requestId)
+        );
+      }
+
+      const sizeError = checkShareSize(input.graph, input.brief);
+      if (sizeError) {
+        return reply.code(400).send(buildErrorV1("BAD_INPUT", sizeError, {}, requestId));
+      }
+
+      const now = Date.now();
+      const next: ShareVersion = {
+        version: (share.version ?? 1) + 1,
+        graph: redactGraphForShare(input.graph),
+        brief: input.brief ? redactBrief(input.brief) : undefined,
+        highlights: input.highlights,
+        created_at: now,
+      };
+
+      const updated: ShareData = {
+        ...share,
+        graph: next.graph,
+        brief: next.brief,
+        highlights: next.highlights,
+        version: next.version,
+        versions: [...shareVersions(share), next].slice(-config.share.maxVersions),
+        updated_at: now,
+      };
+      if (input.passphrase === null) {
+        delete updated.passphrase_hash;
+      } else if (input.passphrase !== undefined) {
+        updated.passphrase_hash = await hashSharePassphrase(input.passphrase);
+      }
+
+      await storeShare(updated);
+
+      emit(TelemetryEvents.ShareUpdated, {
+        share_id_hash: hashShareId(share.share_id),
+        version: next.version,
+        graph_nodes: input.graph.nodes.length,
+        graph_edges: input.graph.edges.length,
+      });
+
+      return reply.code(200).send({
+        schema: "share.v1",
+        share_id: share.share_id,
+        url: shareUrl(token),
+        version: next.version,
+        expires_at: share.expires_at === null ? null : new Date(share.expires_at).toISOString(),
+        passphrase_protected: !!updated.passphrase_hash,
+      });
+    } catch (error) {
+      app.log.error({ error, request_id: requestId }, "Share update failed");
+      return reply.code(500).send(
+        buildErrorV1("INTERNAL", "Failed to update share", {}, requestId)
+      );
+    }
+  });
+
+  /**
+   * GET /assist/share/:token/diff
+   * Patch between two retained versions (explain-diff patch format)
+   */
+  const handleDiff = async (req: FastifyRequest, reply: FastifyReply) => {
+    const requestId = getRequestId(req);
+    const query = req.query as { from?: string; to?: string };
+    const from = query.from === undefined ? undefined : VersionParam.safeParse(query.from);
+    const to = query.to === undefined ? undefined : VersionParam.safeParse(query.to);
+    if ((from && !from.success) || (to && !to.success)) {
+      return reply.code(400).send(
+        buildErrorV1("BAD_INPUT", "from and to must be positive version numbers", {}, requestId)
+      );
+    }
+
+    try {
+      const result = await resolveViewerShare(req, "diff");
+      if (!result.ok) {
+        return reply.code(result.status).send(
+          buildErrorV1(result.code, result.message, result.details ?? {}, requestId)
+        );
+      }
+
+      // Default: previous version against the current one
+      const versions = shareVersions(result.share);
+      const toVersion = to?.data ?? result.share.version ?? 1;
+      const fromVersion = from?.data ?? toVersion - 1;
+      const before = versions.find((v) => v.version === fromVersion);
+      const after = versions.find((v) => v.version === toVersion);
+      if (!before || !after) {
+        return reply.code(404).send(
+          buildErrorV1(
+            "NOT_FOUND",
+            `Version ${!before ? fromVersion : toVersion} is not available`,
+            { available_versions: versions.map((v) => v.version) },
+            requestId
+          )
+        );
+      }
+
+      return reply.code(200).send({
+        schema: "share-diff.v1",
+        share_id: result.share.share_id,
+        from_version: fromVersion,
+        to_version: toVersion,
+        patch: diffGraphs(before.graph, after.graph),
+      });
+    } catch (error) {
+      app.log.error({ error, request_id: requestId }, "Share diff failed");
+      return reply.code(500).send(
+        buildErrorV1("INTERNAL", "Failed to diff share versions", {}, requestId)
+      );
+    }
+  };
+
+  /**
+   * GET /assist/share/:token/access-log
+   * Access log for the key that created the share (requires API key)
+   */
+  const handleAccessLog = async (req: FastifyRequest, reply: FastifyReply) => {
+    const requestId = getRequestId(req);
+    try {
+      const payload = verifyShareToken(tokenFromUrl(req.url));
+      const share = payload && (await getShare(payload.share_id, { countAccess: false }));
+      if (!share) {
+        return reply.code(404).send(
+          buildErrorV1("NOT_FOUND", "Share not found", {}, requestId)
+        );
+      }
+
+      if (!isShareOwner(req, share)) {
+        return reply.code(403).send(
+          buildErrorV1("FORBIDDEN", "Only the key that created this share can read its access log", {}, requestId)
+        );
+      }
+
+      const entries = await getShareAccessLog(share.share_id);
+
+      return reply.code(200).send({
+        schema: "share-access-log.v1",
+        share_id: share.share_id,
+        access_count: share.access_count,
+        entries: entries.map((entry) => ({ ...entry, at: new Date(entry.at).toISOString() })),
+      });
+    } catch (error) {
+      app.log.error({ error, request_id: requestId }, "Share access log failed");
+      return reply.code(500).send(
+        buildErrorV1("INTERNAL", "Failed to read share access log", {}, requestId)
+      );
+    }
+  };
+
   /**
    * GET /assist/share/:token
    * Retrieve shared content (read-only, redacted)
@@ -208,47 +603,82 @@ export default async function route(app: FastifyInstance) {
       );
     }
 
+    // Sub-resources share the wildcard route (a parametric route would shadow it)
+    const subPath = req.url.split("?")[0].replace("/assist/share/", "").split("/")[1];
+    if (subPath === "diff") {
+      return handleDiff(req, reply);
+    }
+    if (subPath === "access-log") {
+      return handleAccessLog(req, reply);
+    }
+
     const requestId = getRequestId(req);
-    // Extract token from wildcard path
-    const token = req.url.replace("/assist/share/", "");
+    const query = req.query as { format?: string; version?: string };
+    const { format } = query;
+    if (format !== undefined && format !== "svg" && format !== "png") {
+      return reply.code(400).send(
+        buildErrorV1("BAD_INPUT", "format must be svg or png", {}, requestId)
+      );
+    }
+    const version = query.version === undefined ? undefined : VersionParam.safeParse(query.version);
+    if (version && !version.success) {
+      return reply.code(400).send(
+        buildErrorV1("BAD_INPUT", "version must be a positive integer", {}, requestId)
+      );
+    }
 
     try {
-      // Verify token
-      const payload = verifyShareToken(token);
-      if (!payload) {
-        emit(TelemetryEvents.ShareExpired, { reason: "invalid_token" });
-        return reply.code(410).send(
-          buildErrorV1("NOT_FOUND", "Share expired or invalid", {}, requestId)
+      const result = await resolveViewerShare(req, format ?? "json");
+      if (!result.ok) {
+        return reply.code(result.status).send(
+          buildErrorV1(result.code, result.message, result.details ?? {}, requestId)
         );
       }
+      const shareData = result.share;
 
-      // Retrieve share data
-      const shareData = await getShare(payload.share_id);
-      if (!shareData) {
-        emit(TelemetryEvents.ShareNotFound, {
-          share_id_hash: hashShareId(payload.share_id),
-        });
-        return reply.code(410).send(
-          buildErrorV1("NOT_FOUND", "Share not found or revoked", {}, requestId)
+      const versions = shareVersions(shareData);
+      const selected = version
+        ? versions.find((v) => v.version === version.data)
+        : versions[versions.length - 1];
+      if (!selected) {
+        return reply.code(404).send(
+          buildErrorV1(
+            "NOT_FOUND",
+            `Version ${version?.data} is not available`,
+            { available_versions: versions.map((v) => v.version) },
+            requestId
+          )
         );
       }
 
-      // Telemetry
-      emit(TelemetryEvents.ShareAccessed, {
-        share_id_hash: hashShareId(payload.share_id),
-        access_count: shareData.access_count,
-        age_hours: Math.floor((Date.now() - shareData.created_at) / (1000 * 60 * 60)),
-      });
+      // Render redacted graph as an image
+      if (format) {
+        const rendered = renderGraph(selected.graph, { format, highlights: selected.highlights });
+        return reply
+          .code(200)
+          .header("Content-Type", rendered.contentType)
+          .header("Content-Disposition", `inline; filename="graph.${format}"`)
+          .send(rendered.body);
+      }
 
       // Return redacted content
       return reply.code(200).send({
         schema: "share-content.v1",
         share_id: shareData.share_id,
-        graph: shareData.graph,
-        brief: shareData.brief,
+        version: selected.version,
+        latest_version: shareData.version ?? 1,
+        versions: versions.map((v) => ({
+          version: v.version,
+          created_at: new Date(v.created_at).toISOString(),
+        })),
+        graph: selected.graph,
+        brief: selected.brief,
+        highlights: selected.highlights,
         created_at: new Date(shareData.created_at).toISOString(),
-        expires_at: new Date(shareData.expires_at).toISOString(),
+        updated_at: shareData.updated_at ? new Date(shareData.updated_at).toISOString() : undefined,
+        expires_at: shareData.expires_at === null ? null : new Date(shareData.expires_at).toISOString(),
         access_count: shareData.access_count,
+        passphrase_protected: !!shareData.passphrase_hash,
       });
     } catch (error) {
       app.log.error({ error, request_id: requestId }, "Share retrieval failed");
@@ -272,7 +702,7 @@ export default async function route(app: FastifyInstance) {
 
     const requestId = getRequestId(req);
     // Extract token from wildcard path
-    const token = req.url.replace("/assist/share/", "");
+    const token = tokenFromUrl(req.url);
 
     try {
       // Verify token
@@ -0,0 +1,383 @@
+/**
+ * /assist/v1/ask/stream Route
+ *
+ * SSE variant of /assist/v1/ask for chat UIs. Same request body, validation,
+ * session handling and rate limit bucket as the JSON endpoint, but the
+ * response is streamed as it is produced:
+ *
+ * - `message_delta` - assistant message, token-by-token ({ delta })
+ * - `model_action` / `highlight` / `why` - one event per item, emitted once
+ *   the item has passed graph ID validation
+ * - `complete` - the full AskResponse (identical to the JSON endpoint)
+ * - `error` - CEE ask error body; ends the stream
+ * - `resume` - resume token (only when Redis and resume secrets are available)
+ *
+ * Events carry an SSE `id` (sequence number). Dropped clients can call
+ * POST /assist/v1/ask/resume with X-Resume-Token (and optionally
+ * Last-Event-ID) to replay buffered events, or the final snapshot once the
+ * stream has finished. Buffering reuses utils/sse-state.ts; without Redis
+ * the stream still works but is not resumable (X-Olumi-Degraded header).
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { WorkingSetRequest, type WorkingSetRequestT } from "../schemas/working-set.js";
+import { processAskRequest, type AskStreamSink } from "../adapters/ask/index.js";
+import { getRequestKeyId, getRequestCallerContext } from "../plugins/auth.js";
+import { contextToTelemetry } from "../context/index.js";
+import { emit, log, TelemetryEvents } from "../utils/telemetry.js";
+import { createResumeToken, verifyResumeToken } from "../utils/sse-resume-token.js";
+import {
+  initStreamState,
+  bufferEvent,
+  markStreamComplete,
+  cleanupStreamState,
+  getStreamState,
+  getBufferedEvents,
+  getSnapshot,
+} from "../utils/sse-state.js";
+import { getRedis } from "../platform/redis.js";
+import {
+  SSE_DEGRADED_HEADER_NAME,
+  SSE_DEGRADED_REDIS_REASON,
+  SSE_DEGRADED_KIND_REDIS_UNAVAILABLE,
+} from "../utils/degraded-mode.js";
+import {
+  ASK_RATE_LIMIT_RPM,
+  resolveRequestId,
+  checkAskLimit,
+  buildAskErrorResponse,
+  prepareAskRequest,
+  recordAskTurns,
+} from "./assist.v1.ask.js";
+
+const SSE_HEADERS = {
+  "content-type": "text/event-stream",
+  connection: "keep-alive",
+  "cache-control": "no-cache",
+} as const;
+
+const FEATURE_VERSION = "ask-stream-1.0.0";
+const STREAM_ENDPOINT = "/assist/v1/ask/stream";
+const RESUME_STEP = "ANSWERING";
+const HEARTBEAT_INTERVAL_MS = 10_000;
+
+async function writeEvent(reply: FastifyReply, type: string, data: string, seq?: number): Promise<void> {
+  const line = `${seq !== undefined ? `id: ${seq}\n` : ""}event: ${type}\ndata: ${data}\n\n`;
+  return new Promise<void>((resolve, reject) => {
+    const ok = reply.raw.write(line);
+    if (ok) {
+      resolve();
+    } else {
+      const timeout = setTimeout(() => {
+        reject(new Error("SSE write timeout"));
+      }, 5000);
+
+      reply.raw.once("drain", () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+    }
+  });
+}
+
+/**
+ * Reject a request before the stream starts (rate limit, invalid body)
+ */
+async function writeEarlyError(
+  reply: FastifyReply,
+  requestId: string,
+  statusCode: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<FastifyReply> {
+  for (const [name, value] of Object.entries(headers)) {
+    reply.raw.setHeader(name, value);
+  }
+  reply.raw.setHeader("X-CEE-API-Version", "v1");
+  reply.raw.setHeader("X-CEE-Feature-Version", FEATURE_VERSION);
+  reply.raw.setHeader("X-CEE-Request-ID", requestId);
+  reply.raw.writeHead(statusCode, SSE_HEADERS);
+  await writeEvent(reply, "error", JSON.stringify(body));
+  reply.raw.end();
+  return reply;
+}
+
+export default async function route(app: FastifyInstance) {
+  app.post(STREAM_ENDPOINT, async (req: FastifyRequest, reply: FastifyReply) => {
+    const start = Date.now();
+    const requestId = resolveRequestId(req);
+
+    const keyId = getRequestKeyId(req) || undefined;
+    const callerCtx = getRequestCallerContext(req);
+    const telemetryCtx = callerCtx ? contextToTelemetry(callerCtx) : { request_id: requestId };
+
+    emit(TelemetryEvents.CeeAskRequested, {
+      ...telemetryCtx,
+      feature: "cee_ask_stream",
+      api_key_present: Boolean(keyId),
+    });
+
+    // Rate limiting (shares the JSON endpoint's per-key budget)
+    const rateKey = keyId || req.ip || "unknown";
+    const { allowed, retryAfterSeconds } = checkAskLimit(rateKey, ASK_RATE_LIMIT_RPM);
+    if (!allowed) {
+      emit(TelemetryEvents.CeeAskFailed, {
+        ...telemetryCtx,
+        latency_ms: Date.now() - start,
+        error_code: "CEE_ASK_RATE_LIMITED",
+        http_status: 429,
+      });
+      log.warn({ request_id: requestId, rate_key: rateKey }, "Ask stream rate limit exceeded");
+
+      return writeEarlyError(
+        reply,
+        requestId,
+        429,
+        buildAskErrorResponse(requestId, "CEE_ASK_RATE_LIMITED", "Rate limit exceeded", true, {
+          retry_after_seconds: retryAfterSeconds,
+        }),
+        { "Retry-After": retryAfterSeconds.toString() }
+      );
+    }
+
+    const parsed = WorkingSetRequest.safeParse(req.body);
+    if (!parsed.success) {
+      emit(TelemetryEvents.CeeAskFailed, {
+        ...telemetryCtx,
+        latency_ms: Date.now() - start,
+        error_code: "CEE_ASK_INVALID_GRAPH",
+        http_status: 400,
+      });
+      log.warn({ request_id: requestId, errors: parsed.error.flatten() }, "Ask stream request validation failed");
+
+      return writeEarlyError(
+        reply,
+        requestId,
+        400,
+        buildAskErrorResponse(requestId, "CEE_ASK_INVALID_GRAPH", "Invalid request body", false, {
+          field_errors: parsed.error.flatten(),
+        })
+      );
+    }
+
+    const request: WorkingSetRequestT = parsed.data;
+
+    // Resume needs Redis; stream without it otherwise
+    let degradedMode = false;
+    try {
+      degradedMode = !(await getRedis());
+    } catch (error) {
+      degradedMode = true;
+      log.warn({ error, request_id: requestId }, "Redis unavailable for ask streaming - degraded mode");
+    }
+    if (degradedMode) {
+      reply.raw.setHeader(SSE_DEGRADED_HEADER_NAME, SSE_DEGRADED_REDIS_REASON);
+      emit(TelemetryEvents.SseDegradedMode, {
+        kind: SSE_DEGRADED_KIND_REDIS_UNAVAILABLE,
+        correlation_id: requestId,
+        endpoint: STREAM_ENDPOINT,
+      });
+    }
+
+    const { request: askRequest, adapterOpts } = await prepareAskRequest(request, requestId);
+
+    reply.raw.setHeader("X-CEE-API-Version", "v1");
+    reply.raw.setHeader("X-CEE-Feature-Version", FEATURE_VERSION);
+    reply.raw.setHeader("X-CEE-Request-ID", requestId);
+    reply.raw.writeHead(200, SSE_HEADERS);
+    emit(TelemetryEvents.SSEStarted, { correlation_id: requestId, endpoint: STREAM_ENDPOINT });
+
+    let eventSeq = 0;
+
+    const send = async (type: string, payload: unknown): Promise<void> => {
+      const seq = eventSeq++;
+      const data = JSON.stringify(payload);
+      await writeEvent(reply, type, data, seq);
+      if (!degradedMode) {
+        await bufferEvent(requestId, { seq, type, data, timestamp: Date.now() });
+      }
+    };
+
+    if (!degradedMode) {
+      try {
+        await initStreamState(requestId);
+        try {
+          const token = createResumeToken(requestId, RESUME_STEP, eventSeq);
+          await send("resume", { token });
+          emit(TelemetryEvents.SseResumeIssued, { request_id: requestId, seq: 0, step: RESUME_STEP });
+        } catch (tokenError) {
+          log.debug({ error: tokenError, request_id: requestId }, "Resume token generation skipped");
+        }
+      } catch (stateError) {
+        log.debug({ error: stateError, request_id: requestId }, "SSE state initialization skipped");
+        degradedMode = true;
+      }
+    }
+
+    const heartbeatInterval = setInterval(() => {
+      try {
+        reply.raw.write(`: heartbeat\n\n`);
+      } catch (error) {
+        clearInterval(heartbeatInterval);
+        log.debug({ error, request_id: requestId }, "Heartbeat failed - stopping");
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const sink: AskStreamSink = {
+      onMessageDelta: (delta) => send("message_delta", { delta }),
+      onModelAction: (action) => send("model_action", action),
+      onHighlight: (highlight) => send("highlight", highlight),
+      onWhy: (item) => send("why", item),
+    };
+
+    try {
+      const { response, inferredIntent, intentConfidence } = await processAskRequest(askRequest, adapterOpts, sink);
+
+      await send("complete", response);
+      if (!degradedMode) {
+        await markStreamComplete(requestId, { type: "complete", payload: response }, "complete");
+        emit(TelemetryEvents.SseSnapshotCreated, { request_id: requestId, status: "complete" });
+      }
+
+      recordAskTurns(request, response, inferredIntent);
+
+      emit(TelemetryEvents.CeeAskCompleted, {
+        ...telemetryCtx,
+        latency_ms: Date.now() - start,
+        scenario_id: request.scenario_id,
+        intent: inferredIntent,
+        intent_confidence: intentConfidence,
+        intent_was_explicit: !!request.intent,
+        has_model_actions: !!(response.model_actions && response.model_actions.length > 0),
+        has_highlights: !!(response.highlights && response.highlights.length > 0),
+        has_follow_up: !!response.follow_up_question,
+      });
+      emit(TelemetryEvents.SSECompleted, {
+        correlation_id: requestId,
+        stream_duration_ms: Date.now() - start,
+        sse_end_state: "complete",
+        status_code: 200,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      log.error({ error, request_id: requestId, scenario_id: request.scenario_id }, "Ask stream failed");
+
+      const errorBody = buildAskErrorResponse(requestId, "CEE_ASK_LLM_ERROR", "Failed to process request", true, {
+        error_message: errorMessage,
+      });
+
+      try {
+        await send("error", errorBody);
+        if (!degradedMode) {
+          await markStreamComplete(requestId, { type: "error", payload: errorBody }, "error");
+        }
+      } catch (writeError) {
+        log.debug({ error: writeError, request_id: requestId }, "Ask stream error event not delivered");
+      }
+
+      emit(TelemetryEvents.CeeAskFailed, {
+        ...telemetryCtx,
+        latency_ms: Date.now() - start,
+        error_code: "CEE_ASK_LLM_ERROR",
+        http_status: 500,
+        error_message: errorMessage,
+      });
+      emit(TelemetryEvents.SSEError, {
+        correlation_id: requestId,
+        stream_duration_ms: Date.now() - start,
+        error: errorMessage,
+        sse_end_state: "error",
+      });
+    } finally {
+      clearInterval(heartbeatInterval);
+      // Buffered events go; the snapshot stays for late resume
+      if (!degradedMode) {
+        await cleanupStreamState(requestId);
+      }
+      reply.raw.end();
+    }
+
+    return reply;
+  });
+
+  app.post("/assist/v1/ask/resume", async (req: FastifyRequest, reply: FastifyReply) => {
+    const resumeToken = req.headers["x-resume-token"];
+    const fallbackId = resolveRequestId(req);
+
+    if (!resumeToken || typeof resumeToken !== "string") {
+      reply.code(400);
+      return reply.send(
+        buildAskErrorResponse(fallbackId, "CEE_ASK_RESUME_INVALID", "Missing or invalid X-Resume-Token header", false)
+      );
+    }
+
+    let verifyResult: ReturnType<typeof verifyResumeToken>;
+    try {
+      verifyResult = verifyResumeToken(resumeToken);
+    } catch (error) {
+      log.debug({ error }, "Ask resume token verification failed (secrets not configured)");
+      reply.code(426);
+      return reply.send(
+        buildAskErrorResponse(fallbackId, "CEE_ASK_RESUME_UNAVAILABLE", "Resume not available", false, {
+          upgrade: "resume=unsupported",
+        })
+      );
+    }
+
+    if (!verifyResult.valid) {
+      emit(TelemetryEvents.SseResumeExpired, { error: verifyResult.error });
+      reply.code(401);
+      return reply.send(
+        buildAskErrorResponse(fallbackId, "CEE_ASK_RESUME_INVALID", `Invalid resume token: ${verifyResult.error}`, false)
+      );
+    }
+
+    const { request_id, step, seq } = verifyResult.payload;
+
+    // Last-Event-ID (SSE standard) lets clients skip events they already have
+    const lastEventId = Number(req.headers["last-event-id"]);
+    const fromSeq = Number.isInteger(lastEventId) && lastEventId > seq ? lastEventId : seq;
+
+    emit(TelemetryEvents.SseResumeAttempt, { request_id, from_seq: fromSeq, step });
+
+    const state = await getStreamState(request_id);
+    const events = state ? await getBufferedEvents(request_id, fromSeq) : [];
+    const snapshot = await getSnapshot(request_id);
+    const terminalBuffered = events.some((e) => e.type === "complete" || e.type === "error");
+
+    if (!state && !snapshot) {
+      emit(TelemetryEvents.SseResumeExpired, { request_id, reason: "state_expired" });
+      reply.code(426);
+      return reply.send(
+        buildAskErrorResponse(request_id, "CEE_ASK_RESUME_UNAVAILABLE", "Stream state expired, resume not available", false, {
+          upgrade: "resume=unsupported",
+        })
+      );
+    }
+
+    reply.raw.setHeader("X-CEE-API-Version", "v1");
+    reply.raw.setHeader("X-CEE-Feature-Version", FEATURE_VERSION);
+    reply.raw.setHeader("X-CEE-Request-ID", request_id);
+    reply.raw.writeHead(200, SSE_HEADERS);
+
+    for (const event of events) {
+      await writeEvent(reply, event.type, event.data, event.seq);
+    }
+
+    if (!terminalBuffered && snapshot) {
+      const final = snapshot.final_payload as { type: string; payload: unknown };
+      await writeEvent(reply, final.type, JSON.stringify(final.payload));
+      emit(TelemetryEvents.SsePartialRecovery, { request_id, recovery_type: "snapshot_fallback" });
+    }
+
+    emit(TelemetryEvents.SseResumeSuccess, {
+      request_id,
+      replayed_count: events.length,
+      from_seq: fromSeq,
+      to_seq: state?.last_seq ?? fromSeq,
+    });
+
+    reply.raw.end();
+    return reply;
+  });
+}
@@ -15,11 +15,15 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { randomUUID } from "node:crypto";
 import { WorkingSetRequest, type WorkingSetRequestT, isRequestIdSafe } from "../schemas/working-set.js";
 import { processAskRequest, type AskAdapterOpts } from "../adapters/ask/index.js";
-import { retrieveSession, appendTurn } from "../services/session-cache.js";
+import { retrieveSession, appendTurns } from "../services/session-cache.js";
+import { loadDecisionMemory, selectDecisionMemory } from "../services/decision-memory.js";
 import { getRequestKeyId, getRequestCallerContext } from "../plugins/auth.js";
 import { contextToTelemetry } from "../context/index.js";
 import { emit, log, TelemetryEvents } from "../utils/telemetry.js";
-import type { TurnT } from "../schemas/working-set.js";
+import type { TurnT, AskResponseT, AskIntentT } from "../schemas/working-set.js";
+import { config } from "../config/index.js";
+import { attachmentInputsFromPayloads, processAttachments } from "../grounding/process-attachments.js";
+import { ChunkIndex, chunkDocuments } from "../grounding/retrieval.js";
 
 // ============================================================================
 // Request ID Resolution
@@ -41,7 +45,7 @@ import type { TurnT } from "../schemas/working-set.js";
  * @param bodyRequestId Optional request_id from parsed body
  * @returns Safe request ID string
  */
-function resolveRequestId(req: FastifyRequest, bodyRequestId?: string): string {
+export function resolveRequestId(req: FastifyRequest, bodyRequestId?: string): string {
   // Check X-Request-Id header first
   const headerRequestId = req.headers["x-request-id"];
   if (typeof headerRequestId === "string" && headerRequestId.length > 0) {
@@ -122,7 +126,7 @@ function pruneBuckets(map: Map<string, BucketState>, now: number): void {
   }
 }
 
-function checkAskLimit(key: string, limit: number): { allowed: boolean; retryAfterSeconds: number } {
+export function checkAskLimit(key: string, limit: number): { allowed: boolean; retryAfterSeconds: number } {
   const now = Date.now();
   pruneBuckets(askBuckets, now);
   let state = askBuckets.get(key);
@@ -152,7 +156,7 @@ function checkAskLimit(key: string, limit: number): { allowed: boolean; retryAft
 // Error Response Builder
 // ============================================================================
 
-function buildAskErrorResponse(
+export function buildAskErrorResponse(
   requestId: string,
   code: string,
   message: string,
@@ -170,11 +174,116 @@ function buildAskErrorResponse(
   };
 }
 
+// ============================================================================
+// Shared Request Handling
+// ============================================================================
+
+/**
+ * Merge cached session turns into the request and build adapter options,
+ * indexing attachments when retrieval is enabled. Shared with the SSE
+ * variant (assist.v1.ask-stream.ts).
+ */
+export async function prepareAskRequest(
+  request: WorkingSetRequestT,
+  requestId: string
+): Promise<{ request: WorkingSetRequestT; adapterOpts: AskAdapterOpts }> {
+  // Load session context if available (for conversation history)
+  const sessionResult = await retrieveSession(request.scenario_id);
+  if (sessionResult.degraded) {
+    log.info(
+      { request_id: requestId, scenario_id: request.scenario_id },
+      "Operating in degraded mode (Redis unavailable)"
+    );
+  }
+
+  // Merge session turns with request turns if not provided
+  const turnsRecent = request.turns_recent?.length
+    ? request.turns_recent
+    : sessionResult.session?.turns_recent || [];
+
+  // Build adapter options
+  const adapterOpts: AskAdapterOpts = {
+    requestId,
+    timeoutMs: ASK_TIMEOUT_MS,
+  };
+
+  // Long-horizon context: summarised turns evicted from the session cache
+  if (config.cee.decisionMemoryEnabled) {
+    const memory = await loadDecisionMemory(request.scenario_id);
+    if (memory) {
+      const message = request.message.toLowerCase();
+      const focusNodeIds = [
+        ...(request.selection?.node_id ? [request.selection.node_id] : []),
+        ...request.graph_snapshot.nodes
+          .filter((n) => n.label && message.includes(n.label.toLowerCase()))
+          .map((n) => n.id),
+      ];
+      adapterOpts.decisionMemory = selectDecisionMemory(memory, { focusNodeIds });
+    }
+  }
+
+  // Index attachments for grounded explanations; answer without them if they can't be processed
+  if (config.retrieval.enabled && request.attachments?.length) {
+    try {
+      const { docs } = await processAttachments(
+        attachmentInputsFromPayloads(request.attachments, request.attachment_payloads)
+      );
+      adapterOpts.chunkIndex = new ChunkIndex(chunkDocuments(docs));
+    } catch (error) {
+      log.warn(
+        { request_id: requestId, error: error instanceof Error ? error.message : String(error), redacted: true },
+        "Ask attachment processing failed, continuing without document evidence"
+      );
+    }
+  }
+
+  return {
+    request: { ...request, turns_recent: turnsRecent },
+    adapterOpts,
+  };
+}
+
+/**
+ * Append the user and assistant turns to the session cache (non-blocking).
+ * Turns evicted from the cache are folded into the scenario's decision memory.
+ */
+export function recordAskTurns(
+  request: WorkingSetRequestT,
+  response: AskResponseT,
+  inferredIntent: AskIntentT
+): void {
+  // Store the conversation turn in session cache
+  const userTurn: TurnT = {
+    role: "user",
+    content: request.message,
+    referenced_ids: request.selection?.node_id ? [request.selection.node_id] : undefined,
+    timestamp: new Date().toISOString(),
+  };
+  const highlightedNodeIds = (response.highlights ?? [])
+    .filter((h) => h.type === "node" && h.style === "primary")
+    .flatMap((h) => h.ids);
+  const assistantTurn: TurnT = {
+    role: "assistant",
+    content: response.message,
+    referenced_ids: highlightedNodeIds.length > 0 ? highlightedNodeIds : undefined,
+    timestamp: new Date().toISOString(),
+  };
+
+  // Append turns to session (non-blocking) - use inferred intent
+  appendTurns(request.scenario_id, [userTurn, assistantTurn], {
+    decisionStateSummary: response.updated_decision_state_summary,
+    lastIntent: inferredIntent,
+    graph: request.graph_snapshot,
+  }).catch((err) => {
+    log.warn({ error: err, scenario_id: request.scenario_id }, "Failed to append turns");
+  });
+}
+
 // ============================================================================
 // Route Handler
 // ============================================================================
 
-const ASK_RATE_LIMIT_RPM = 30; // Requests per minute per key
+export const ASK_RATE_LIMIT_RPM = 30; // Requests per minute per key
 const ASK_TIMEOUT_MS = 30_000;
 const FEATURE_VERSION = "ask-v1.0.0";
 
@@ -259,63 +368,15 @@ export default async function route(app: FastifyInstance) {
 
     const request: WorkingSetRequestT = parsed.data;
 
-    // Load session context if available (for conversation history)
-    const sessionResult = await retrieveSession(request.scenario_id);
-    if (sessionResult.degraded) {
-      log.info(
-        { request_id: requestId, scenario_id: request.scenario_id },
-        "Operating in degraded mode (Redis unavailable)"
-      );
-    }
-
-    // Merge session turns with request turns if not provided
-    const turnsRecent = request.turns_recent?.length
-      ? request.turns_recent
-      : sessionResult.session?.turns_recent || [];
-
-    // Build adapter options
-    const adapterOpts: AskAdapterOpts = {
-      requestId,
-      timeoutMs: ASK_TIMEOUT_MS,
-    };
+    const { request: askRequest, adapterOpts } = await prepareAskRequest(request, requestId);
 
     try {
       // Process the ask request
-      const result = await processAskRequest(
-        {
-          ...request,
-          turns_recent: turnsRecent,
-        },
-        adapterOpts
-      );
+      const result = await processAskRequest(askRequest, adapterOpts);
 
       const { response, inferredIntent, intentConfidence } = result;
 
-      // Store the conversation turn in session cache
-      const userTurn: TurnT = {
-        role: "user",
-        content: request.message,
-        timestamp: new Date().toISOString(),
-      };
-      const assistantTurn: TurnT = {
-        role: "assistant",
-        content: response.message,
-        timestamp: new Date().toISOString(),
-      };
-
-      // Append turns to session (non-blocking) - use inferred intent
-      appendTurn(
-        request.scenario_id,
-        userTurn,
-        response.updated_decision_state_summary,
-        inferredIntent
-      ).catch((err) => {
-        log.warn({ error: err, scenario_id: request.scenario_id }, "Failed to append user turn");
-      });
-
-      appendTurn(request.scenario_id, assistantTurn).catch((err) => {
-        log.warn({ error: err, scenario_id: request.scenario_id }, "Failed to append assistant turn");
-      });
+      recordAskTurns(request, response, inferredIntent);
 
       const latencyMs = Date.now() - start;
 
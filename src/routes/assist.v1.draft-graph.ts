@@ -9,6 +9,7 @@ import { contextToTelemetry } from "../context/index.js";
 import { emit, log, TelemetryEvents } from "../utils/telemetry.js";
 import { logCeeCall } from "../cee/logging.js";
 import { config } from "../config/index.js";
+import { resolveAdminIdentity, hasAdminPermission } from "../utils/admin-auth.js";
 import { assessBriefReadiness } from "../cee/validation/readiness.js";
 import {
   parseSchemaVersion,
@@ -111,12 +112,10 @@ export default async function route(app: FastifyInstance) {
     return unsafeQuery === "1" || unsafeQuery === "true" || unsafeHeader === "1" || unsafeHeader === "true";
   }
 
+  // Unsafe capture returns raw LLM output, so it needs the operator role
   function isAdminAuthorized(req: any): boolean {
-    const providedKey = req.headers?.["x-admin-key"] as string | undefined;
-    if (!providedKey) return false;
-    const adminKey = config.prompts?.adminApiKey;
-    const adminKeyRead = config.prompts?.adminApiKeyRead;
-    return Boolean((adminKey && providedKey === adminKey) || (adminKeyRead && providedKey === adminKeyRead));
+    const identity = resolveAdminIdentity(req);
+    return identity !== null && hasAdminPermission(identity, "llm-output:raw");
   }
 
   app.post("/assist/v1/draft-graph", async (req, reply) => {
@@ -48,6 +48,8 @@ const EnhancedDecisionReviewInputSchema = z.object({
       enable_validation_strategies: z.boolean().default(true),
       /** Maximum nodes to analyze (default: 20) */
       max_nodes: z.number().int().positive().default(20),
+      /** Approximate analyses locally when ISL is unavailable (default: true) */
+      enable_local_fallback: z.boolean().default(true),
       /** Return formatted markdown summary */
       include_formatted_summary: z.boolean().default(false),
     })
@@ -238,6 +240,7 @@ export default async function route(app: FastifyInstance) {
                 enableValidationStrategies:
                   input.config.enable_validation_strategies,
                 maxNodes: input.config.max_nodes,
+                enableLocalFallback: input.config.enable_local_fallback,
               }
             : undefined,
         },
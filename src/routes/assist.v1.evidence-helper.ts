@@ -15,6 +15,8 @@ import { logCeeCall } from "../cee/logging.js";
 import { config } from "../config/index.js";
 import { verificationPipeline } from "../cee/verification/index.js";
 import { CEEEvidenceHelperResponseV1Schema } from "../schemas/ceeResponses.js";
+import { attachmentInputsFromPayloads, processAttachments } from "../grounding/process-attachments.js";
+import { describeChunk, retrieveForQueries, type RetrievedChunk } from "../grounding/retrieval.js";
 
 type CEEEvidenceHelperResponseV1 = components["schemas"]["CEEEvidenceHelperResponseV1"];
 type CEETraceMeta = components["schemas"]["CEETraceMeta"];
@@ -201,6 +203,30 @@ export default async function route(app: FastifyInstance) {
         );
       }
 
+      // Retrieve attachment chunks relevant to the brief, each factor and each evidence item
+      let retrievedChunks: RetrievedChunk[] | undefined;
+      if (config.retrieval.enabled && input.attachments?.length) {
+        try {
+          const { docs } = await processAttachments(
+            attachmentInputsFromPayloads(input.attachments, input.attachment_payloads)
+          );
+          const queries = [
+            input.brief ?? "",
+            ...(input.factors ?? []),
+            ...input.evidence.map((item) => item.content ?? ""),
+          ];
+          retrievedChunks = retrieveForQueries(docs, queries).chunks;
+        } catch (error) {
+          validationIssues.push(
+            createValidationIssue({
+              code: "ATTACHMENT_PROCESSING_FAILED",
+              field: "attachments",
+              message: error instanceof Error ? error.message : String(error),
+            }) as any,
+          );
+        }
+      }
+
       const strongCount = cappedItems.filter((i) => (i as any).strength === "strong").length;
       const mediumCount = cappedItems.filter((i) => (i as any).strength === "medium").length;
       const weakOrNoneCount = cappedItems.filter((i) => {
@@ -241,6 +267,7 @@ export default async function route(app: FastifyInstance) {
         validation_issues: validationIssues.length ? validationIssues : undefined,
         items: cappedItems as any,
         response_limits: responseLimits,
+        ...(retrievedChunks ? { retrieved_chunks: retrievedChunks.map(describeChunk) } : {}),
         guidance,
       };
 
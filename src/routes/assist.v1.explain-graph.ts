@@ -14,7 +14,7 @@ import { logCeeCall } from "../cee/logging.js";
 import { config } from "../config/index.js";
 import { verificationPipeline } from "../cee/verification/index.js";
 import { CEEExplainGraphResponseV1Schema } from "../schemas/ceeResponses.js";
-import type { InferenceResultsV1 } from "../contracts/plot/engine.js";
+import { toInferenceResults, tryLocalInference } from "../cee/inference/index.js";
 
 type CEEExplainGraphResponseV1 = components["schemas"]["CEEExplainGraphResponseV1"];
 type CEETraceMeta = components["schemas"]["CEETraceMeta"];
@@ -137,11 +137,15 @@ export default async function route(app: FastifyInstance) {
     }
 
     const parsed = CEEExplainGraphInput.safeParse(req.body);
-    if (!parsed.success) {
-      const errorBody = buildCeeErrorResponse("CEE_VALIDATION_FAILED", "invalid input", {
+    // Without caller-supplied inference, fall back to the local engine
+    const local = parsed.success && !parsed.data.inference
+      ? tryLocalInference(parsed.data.graph, "inference")
+      : undefined;
+    if (!parsed.success || (local && !local.ok)) {
+      const errorBody = buildCeeErrorResponse("CEE_VALIDATION_FAILED", local && !local.ok ? local.message : "invalid input", {
         retryable: false,
         requestId,
-        details: { field_errors: parsed.error.flatten() },
+        details: parsed.success ? undefined : { field_errors: parsed.error.flatten() },
       });
 
       emit(TelemetryEvents.CeeExplainGraphFailed, {
@@ -168,6 +172,7 @@ export default async function route(app: FastifyInstance) {
     }
 
     const input = parsed.data as CEEExplainGraphInputT;
+    const inference = local?.ok ? toInferenceResults(local.result) : input.inference!;
 
     try {
       const trace: CEETraceMeta = {
@@ -177,12 +182,12 @@ export default async function route(app: FastifyInstance) {
       };
 
       const provider =
-        typeof input.inference.model_card?.provider === "string"
-          ? input.inference.model_card.provider
+        typeof inference.model_card?.provider === "string"
+          ? inference.model_card.provider
           : undefined;
       const model =
-        typeof input.inference.model_card?.model === "string"
-          ? input.inference.model_card.model
+        typeof inference.model_card?.model === "string"
+          ? inference.model_card.model
           : undefined;
 
       if (provider || model) {
@@ -202,7 +207,7 @@ export default async function route(app: FastifyInstance) {
         ceeIssues: validationIssues,
       });
 
-      const explanation = buildExplanation(input.graph as any, input.inference as any);
+      const explanation = buildExplanation(input.graph as any, inference);
 
       const limits: ResponseLimitsLike = {};
       const guidance = buildCeeGuidance({
@@ -230,7 +235,7 @@ export default async function route(app: FastifyInstance) {
             endpoint: "explain-graph",
             requiresEngineValidation: false,
             requestId,
-            engineResults: input.inference as InferenceResultsV1,
+            engineResults: inference,
           },
         );
         verifiedResponse = response as CEEExplainGraphResponseV1;
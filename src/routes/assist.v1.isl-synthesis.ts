@@ -17,6 +17,7 @@ import { getRequestKeyId, getRequestCallerContext } from "../plugins/auth.js";
 import { contextToTelemetry } from "../context/index.js";
 import { emit, TelemetryEvents } from "../utils/telemetry.js";
 import { logCeeCall } from "../cee/logging.js";
+import { toIslSynthesisResults, tryLocalInference } from "../cee/inference/index.js";
 
 export default async function route(app: FastifyInstance) {
   const rateLimiter = getCeeFeatureRateLimiter(
@@ -80,11 +81,15 @@ export default async function route(app: FastifyInstance) {
 
     // Input validation
     const parsed = CEEIslSynthesisInput.safeParse(req.body);
-    if (!parsed.success) {
-      const errorBody = buildCeeErrorResponse("CEE_VALIDATION_FAILED", "invalid input", {
+    // A graph without analysis results is analysed by the local engine
+    const local = parsed.success && parsed.data.graph && !hasAnalysisResults(parsed.data)
+      ? tryLocalInference(parsed.data.graph, "sensitivity, voi, tipping_points or robustness")
+      : undefined;
+    if (!parsed.success || (local && !local.ok)) {
+      const errorBody = buildCeeErrorResponse("CEE_VALIDATION_FAILED", local && !local.ok ? local.message : "invalid input", {
         retryable: false,
         requestId,
-        details: { field_errors: parsed.error.flatten() },
+        details: parsed.success ? undefined : { field_errors: parsed.error.flatten() },
       });
 
       emit(TelemetryEvents.IslSynthesisFailed, {
@@ -110,7 +115,14 @@ export default async function route(app: FastifyInstance) {
       return reply.send(errorBody);
     }
 
-    const input = parsed.data;
+    const input: CEEIslSynthesisInputT = local?.ok
+      ? {
+          ...parsed.data,
+          ...toIslSynthesisResults(local.result),
+          goal_label: parsed.data.goal_label ?? local.result.target_label,
+          recommendation_label: parsed.data.recommendation_label ?? local.result.outcomes[0]?.label,
+        }
+      : parsed.data;
 
     try {
       // Generate narratives using templates (deterministic, no LLM)
@@ -195,6 +207,12 @@ export default async function route(app: FastifyInstance) {
   });
 }
 
+function hasAnalysisResults(input: CEEIslSynthesisInputT): boolean {
+  return Boolean(
+    input.sensitivity?.length || input.voi?.length || input.tipping_points?.length || input.robustness?.length
+  );
+}
+
 // =============================================================================
 // Template-Based Narrative Generation
 // =============================================================================
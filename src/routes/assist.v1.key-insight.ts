@@ -13,6 +13,7 @@ import { getRequestKeyId, getRequestCallerContext } from "../plugins/auth.js";
 import { contextToTelemetry } from "../context/index.js";
 import { emit, TelemetryEvents, log } from "../utils/telemetry.js";
 import { logCeeCall } from "../cee/logging.js";
+import { toKeyInsightDrivers, toRankedActions, tryLocalInference } from "../cee/inference/index.js";
 import type { GraphV1 } from "../contracts/plot/engine.js";
 
 type BucketState = {
@@ -138,14 +139,18 @@ export default async function route(app: FastifyInstance) {
 
     // Input validation
     const parsed = CEEKeyInsightInput.safeParse(req.body);
-    if (!parsed.success) {
+    // Without caller-supplied ranked actions, fall back to the local engine
+    const local = parsed.success && !parsed.data.ranked_actions
+      ? tryLocalInference(parsed.data.graph, "ranked_actions")
+      : undefined;
+    if (!parsed.success || (local && !local.ok)) {
       const errorBody = buildCeeErrorResponse(
         "CEE_VALIDATION_FAILED",
-        "invalid input",
+        local && !local.ok ? local.message : "invalid input",
         {
           retryable: false,
           requestId,
-          details: { field_errors: parsed.error.flatten() },
+          details: parsed.success ? undefined : { field_errors: parsed.error.flatten() },
         }
       );
 
@@ -176,14 +181,16 @@ export default async function route(app: FastifyInstance) {
 
     try {
       // Map input to key insight types
-      const rankedActions: RankedAction[] = input.ranked_actions.map((a) => ({
-        node_id: a.node_id,
-        label: a.label,
-        expected_utility: a.expected_utility,
-        dominant: a.dominant,
-        outcome_quality: a.outcome_quality,
-        primary_outcome: a.primary_outcome,
-      }));
+      const rankedActions: RankedAction[] = local?.ok
+        ? toRankedActions(local.result)
+        : input.ranked_actions!.map((a) => ({
+            node_id: a.node_id,
+            label: a.label,
+            expected_utility: a.expected_utility,
+            dominant: a.dominant,
+            outcome_quality: a.outcome_quality,
+            primary_outcome: a.primary_outcome,
+          }));
 
       const topDrivers: Driver[] | undefined = input.top_drivers?.map((d) => ({
         node_id: d.node_id,
@@ -191,7 +198,7 @@ export default async function route(app: FastifyInstance) {
         impact_pct: d.impact_pct,
         direction: d.direction,
         kind: d.kind,
-      }));
+      })) ?? (local?.ok ? toKeyInsightDrivers(local.result) : undefined);
 
       // Map goals if provided
       const goals: GoalInfo[] | undefined = input.goals?.map((g) => ({
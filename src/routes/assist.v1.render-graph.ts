@@ -0,0 +1,63 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { Graph } from "../schemas/graph.js";
+import { Highlight } from "../schemas/working-set.js";
+import { renderGraph } from "../render/index.js";
+import { buildErrorV1, zodErrorToErrorV1 } from "../utils/errors.js";
+import { getRequestId } from "../utils/request-id.js";
+import { log } from "../utils/telemetry.js";
+import { config } from "../config/index.js";
+
+/**
+ * POST /assist/v1/render-graph
+ *
+ * Renders a graph to SVG or PNG without a browser, for emails, Slack
+ * unfurls and PDF reports. Node shapes follow the node kind, edge
+ * thickness follows |strength_mean|, and edges with low belief_exists are
+ * dashed. Optional highlights (same shape as /ask highlights) are drawn as
+ * overlays.
+ */
+
+const RenderGraphInput = z.object({
+  graph: Graph,
+  format: z.enum(["svg", "png"]).default("svg"),
+  highlights: z.array(Highlight).max(50).optional(),
+  title: z.string().max(120).optional(),
+  /** PNG pixels per layout unit */
+  scale: z.number().min(1).max(3).default(1),
+});
+
+export default async function route(app: FastifyInstance) {
+  app.post("/assist/v1/render-graph", async (req, reply) => {
+    const requestId = getRequestId(req);
+
+    const parsed = RenderGraphInput.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send(zodErrorToErrorV1(parsed.error, requestId));
+    }
+
+    const { graph, format, highlights, title, scale } = parsed.data;
+    if (graph.nodes.length > config.graph.maxNodes || graph.edges.length > config.graph.maxEdges) {
+      return reply.code(400).send(
+        buildErrorV1(
+          "BAD_INPUT",
+          `Graph too large to render (max ${config.graph.maxNodes} nodes, ${config.graph.maxEdges} edges)`,
+          { nodes: graph.nodes.length, edges: graph.edges.length },
+          requestId
+        )
+      );
+    }
+
+    try {
+      const rendered = renderGraph(graph, { format, highlights, title, scale });
+      return reply
+        .code(200)
+        .header("Content-Type", rendered.contentType)
+        .header("Content-Disposition", `inline; filename="graph.${format}"`)
+        .send(rendered.body);
+    } catch (error) {
+      log.error({ error, request_id: requestId }, "Graph rendering failed");
+      return reply.code(500).send(buildErrorV1("INTERNAL", "Failed to render graph", {}, requestId));
+    }
+  });
+}
@@ -0,0 +1,85 @@
+import type { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { Graph } from "../schemas/graph.js";
+import {
+  ReviewResponse,
+  BiasesBlock,
+  RecommendationBlock,
+  DriversBlock,
+  GapsBlock,
+  PredictionBlock,
+  RisksBlock,
+  NextStepsBlock,
+  RobustnessBlock,
+} from "../schemas/review.js";
+import { renderReviewReport } from "../render/report/index.js";
+import { buildErrorV1, zodErrorToErrorV1 } from "../utils/errors.js";
+import { getRequestId } from "../utils/request-id.js";
+import { log } from "../utils/telemetry.js";
+import { config } from "../config/index.js";
+
+/**
+ * POST /assist/v1/review/export
+ *
+ * Renders a /assist/v1/review response and the graph it reviewed as a
+ * self-contained decision memo (Markdown, HTML or PDF): executive summary,
+ * embedded graph diagram, sections for each review block, citations from
+ * edge provenance and an appendix of assumptions. Nothing is stored; the
+ * caller passes back the review it received.
+ */
+
+/** Blocks as /assist/v1/review returns them: robustness and next_steps use their type as the id */
+const ExportedBlock = z.discriminatedUnion("type", [
+  BiasesBlock.extend({ id: z.string().min(1) }),
+  RecommendationBlock.extend({ id: z.string().min(1) }),
+  DriversBlock.extend({ id: z.string().min(1) }),
+  GapsBlock.extend({ id: z.string().min(1) }),
+  PredictionBlock.extend({ id: z.string().min(1) }),
+  RisksBlock.extend({ id: z.string().min(1) }),
+  NextStepsBlock.extend({ id: z.string().min(1) }),
+  RobustnessBlock.extend({ id: z.string().min(1) }),
+]);
+
+const ReviewExportInput = z.object({
+  graph: Graph,
+  review: ReviewResponse.extend({ blocks: z.array(ExportedBlock) }),
+  format: z.enum(["markdown", "html", "pdf"]).default("html"),
+  /** Original brief, quoted in the executive summary */
+  brief: z.string().max(10000).optional(),
+  title: z.string().min(1).max(200).optional(),
+});
+
+export default async function route(app: FastifyInstance) {
+  app.post("/assist/v1/review/export", async (req, reply) => {
+    const requestId = getRequestId(req);
+
+    const parsed = ReviewExportInput.safeParse(req.body);
+    if (!parsed.success) {
+      return reply.code(400).send(zodErrorToErrorV1(parsed.error, requestId));
+    }
+
+    const { graph, review, format, brief, title } = parsed.data;
+    if (graph.nodes.length > config.graph.maxNodes || graph.edges.length > config.graph.maxEdges) {
+      return reply.code(400).send(
+        buildErrorV1(
+          "BAD_INPUT",
+          `Graph too large to export (max ${config.graph.maxNodes} nodes, ${config.graph.maxEdges} edges)`,
+          { nodes: graph.nodes.length, edges: graph.edges.length },
+          requestId
+        )
+      );
+    }
+
+    try {
+      const report = renderReviewReport({ graph, review, brief, title }, format);
+      return reply
+        .code(200)
+        .header("Content-Type", report.contentType)
+        .header("Content-Disposition", `attachment; filename="decision-review.${report.extension}"`)
+        .send(report.body);
+    } catch (error) {
+      log.error({ error, request_id: requestId }, "Review export failed");
+      return reply.code(500).send(buildErrorV1("INTERNAL", "Failed to export review", {}, requestId));
+    }
+  });
+}
@@ -14,6 +14,7 @@ import { logCeeCall } from "../cee/logging.js";
 import { config } from "../config/index.js";
 import { verificationPipeline } from "../cee/verification/index.js";
 import { CEESensitivityCoachResponseV1Schema } from "../schemas/ceeResponses.js";
+import { toInferenceResults, tryLocalInference } from "../cee/inference/index.js";
 
 import type { GraphV1 } from "../contracts/plot/engine.js";
 
@@ -140,11 +141,15 @@ export default async function route(app: FastifyInstance) {
     }
 
     const parsed = CEESensitivityCoachInput.safeParse(req.body);
-    if (!parsed.success) {
-      const errorBody = buildCeeErrorResponse("CEE_VALIDATION_FAILED", "invalid input", {
+    // Without caller-supplied inference, fall back to the local engine
+    const local = parsed.success && !parsed.data.inference
+      ? tryLocalInference(parsed.data.graph, "inference")
+      : undefined;
+    if (!parsed.success || (local && !local.ok)) {
+      const errorBody = buildCeeErrorResponse("CEE_VALIDATION_FAILED", local && !local.ok ? local.message : "invalid input", {
         retryable: false,
         requestId,
-        details: { field_errors: parsed.error.flatten() },
+        details: parsed.success ? undefined : { field_errors: parsed.error.flatten() },
       });
 
       emit(TelemetryEvents.CeeSensitivityCoachFailed, {
@@ -171,6 +176,7 @@ export default async function route(app: FastifyInstance) {
     }
 
     const input = parsed.data as CEESensitivityCoachInputT;
+    const inference = local?.ok ? toInferenceResults(local.result) : input.inference!;
 
     try {
       const trace: CEETraceMeta = {
@@ -183,7 +189,7 @@ export default async function route(app: FastifyInstance) {
 
       const validationIssues: CEEValidationIssue[] = [];
 
-      const rawDrivers = input.inference?.explain?.top_drivers ?? [];
+      const rawDrivers = inference.explain?.top_drivers ?? [];
       const driverCount = Array.isArray(rawDrivers) ? rawDrivers.length : 0;
 
       let confidence = 0.6;
@@ -196,7 +202,7 @@ export default async function route(app: FastifyInstance) {
       }
       confidence = Math.max(0.3, Math.min(0.95, confidence));
 
-      const suggestions = buildSensitivitySuggestions(graph, input.inference as any);
+      const suggestions = buildSensitivitySuggestions(graph, inference as any);
 
       const SUGGESTIONS_MAX = 10;
       let suggestionsTruncated = false;
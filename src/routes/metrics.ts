@@ -0,0 +1,24 @@
+/**
+ * /metrics - Prometheus Scrape Endpoint
+ *
+ * Serves the metrics also sent to StatsD (request latency per route, LLM
+ * latency and tokens per provider/model/operation, failover, cache hit/miss,
+ * SSE buffer sizes, quota rejections, ...) in the Prometheus text format,
+ * plus Node.js process metrics. See utils/prometheus.ts.
+ *
+ * Only registered when PROMETHEUS_ENABLE is set.
+ *
+ * **Security:** No authentication required (metrics only, no sensitive data)
+ */
+
+import type { FastifyInstance } from "fastify";
+import { getPrometheusMetrics, isPrometheusEnabled } from "../utils/prometheus.js";
+
+export async function metricsRoute(app: FastifyInstance): Promise<void> {
+  if (!isPrometheusEnabled()) return;
+
+  app.get("/metrics", async (_request, reply) => {
+    const { contentType, body } = await getPrometheusMetrics();
+    return reply.type(contentType).send(body);
+  });
+}
@@ -10,12 +10,21 @@
  *   rate_limit_rpm: number;   // Standard rate limit (requests per minute)
  *   sse_rate_limit_rpm: number; // SSE rate limit (requests per minute)
  *   quota_backend: "redis" | "memory"; // Backend storage type
+ *   last_used_at: string | null; // ISO time of the last allowed request
+ *   budget: {                 // LLM spend budget (BUDGETS_ENABLED)
+ *     enabled: boolean;
+ *     state?: "ok" | "soft_limit" | "downgrade" | "exhausted";
+ *     daily?: { limit_usd, spent_usd, remaining_usd, used_ratio, resets_at };
+ *     monthly?: { limit_usd, spent_usd, remaining_usd, used_ratio, resets_at };
+ *   };
  * }
  */
 
 import type { FastifyInstance } from "fastify";
 import { getRequestKeyId } from "../plugins/auth.js";
 import { getQuotaStats, getQuotaSnapshotByKeyId } from "../utils/quota.js";
+import { getManagedKey } from "../utils/api-key-store.js";
+import { isBudgetEnforcementEnabled, getBudgetStatus } from "../utils/budget.js";
 import { GRAPH_MAX_NODES, GRAPH_MAX_EDGES } from "../config/graphCaps.js";
 import { config } from "../config/index.js";
 
@@ -43,15 +52,25 @@ export async function limitsRoute(app: FastifyInstance) {
       });
     }
 
-    // Get rate limits from centralized config
-    const limits = getRateLimits();
+    // Rate limits from centralized config, or a managed key's overrides
+    const managedKey = config.apiKeys.enabled ? await getManagedKey(keyId) : null;
+    const limits = {
+      defaultRpm: managedKey?.rate_limit_rpm ?? getRateLimits().defaultRpm,
+      sseRpm: managedKey?.sse_rate_limit_rpm ?? getRateLimits().sseRpm,
+    };
 
     // Get global quota stats (for backend) and per-key snapshots (for remaining tokens)
     const stats = getQuotaStats();
     const [standardSnapshot, sseSnapshot] = await Promise.all([
-      getQuotaSnapshotByKeyId(keyId, false),
-      getQuotaSnapshotByKeyId(keyId, true),
+      getQuotaSnapshotByKeyId(keyId, false, limits.defaultRpm),
+      getQuotaSnapshotByKeyId(keyId, true, limits.sseRpm),
     ]);
+    const lastUsedAt = standardSnapshot.lastUsedAt ?? sseSnapshot.lastUsedAt;
+
+    // Spend budget (remaining USD per period)
+    const budget = isBudgetEnforcementEnabled()
+      ? await getBudgetStatus(keyId)
+      : undefined;
 
     return reply.code(200).send({
       schema: "limits.v1",
@@ -59,6 +78,7 @@ export async function limitsRoute(app: FastifyInstance) {
       rate_limit_rpm: limits.defaultRpm,
       sse_rate_limit_rpm: limits.sseRpm,
       quota_backend: standardSnapshot.backend || stats.backend,
+      last_used_at: lastUsedAt ? new Date(lastUsedAt).toISOString() : null,
       graph_max_nodes: GRAPH_MAX_NODES,
       graph_max_edges: GRAPH_MAX_EDGES,
       max_nodes: GRAPH_MAX_NODES,
@@ -75,6 +95,16 @@ export async function limitsRoute(app: FastifyInstance) {
         refill_rate_per_sec: sseSnapshot.refillRate,
         retry_after_seconds: sseSnapshot.retryAfterSeconds,
       },
+      budget: budget
+        ? {
+            enabled: true,
+            state: budget.state,
+            limiting_period: budget.limiting_period,
+            backend: budget.backend,
+            daily: budget.daily,
+            monthly: budget.monthly,
+          }
+        : { enabled: false },
     });
   });
 }
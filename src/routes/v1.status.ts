@@ -18,6 +18,7 @@
 
 import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { getAdapter } from "../adapters/llm/router.js";
+import { getCircuitBreakerSnapshots, type CircuitBreakerSnapshot } from "../adapters/llm/circuit-breaker.js";
 import { getStorageStats } from "../utils/share-storage.js";
 import { SERVICE_VERSION } from "../version.js";
 import { getPerformanceMetrics } from "../plugins/performance-monitoring.js";
@@ -77,6 +78,9 @@ interface StatusResponse {
     };
     failover_enabled: boolean;
     failover_providers?: string[];
+    // Per-provider circuit breakers (populated once failover routing has run)
+    circuit_breakers: CircuitBreakerSnapshot[];
+    open_circuits: string[];
   };
 
   // Share storage statistics
@@ -140,6 +144,9 @@ export async function statusRoutes(app: FastifyInstance): Promise<void> {
       failoverProviders = metadata.providers;
     }
 
+    // Provider circuit breaker state
+    const circuitBreakers = getCircuitBreakerSnapshots();
+
     // Get share storage stats
     const shareStats = await getStorageStats();
 
@@ -172,6 +179,8 @@ export async function statusRoutes(app: FastifyInstance): Promise<void> {
         cache_stats: cacheStats,
         failover_enabled: failoverEnabled,
         failover_providers: failoverProviders,
+        circuit_breakers: circuitBreakers,
+        open_circuits: circuitBreakers.filter((b) => b.state === "open").map((b) => b.provider),
       },
 
       share: {
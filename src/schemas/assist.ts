@@ -7,7 +7,7 @@ export const DraftGraphInput = z.object({
     .array(
       z.object({
         id: z.string(),
-        kind: z.enum(["pdf", "csv", "txt", "md"]),
+        kind: z.enum(["pdf", "csv", "txt", "md", "docx", "xlsx", "pptx"]),
         name: z.string()
       })
     )
@@ -106,6 +106,9 @@ export const DraftGraphOutput = z.object({
   trace: z.object({
     corrections: z.array(GraphCorrectionSchema).optional(),
     corrections_summary: CorrectionsSummarySchema.optional(),
+    // Draft served from the semantic cache (near-identical earlier brief)
+    cache: z.literal("semantic").optional(),
+    cache_similarity: z.number().min(0).max(1).optional(),
   }).optional(),
 });
 
@@ -177,7 +180,7 @@ export const CritiqueGraphInput = z.object({
     .array(
       z.object({
         id: z.string(),
-        kind: z.enum(["pdf", "csv", "txt", "md"]),
+        kind: z.enum(["pdf", "csv", "txt", "md", "docx", "xlsx", "pptx"]),
         name: z.string()
       })
     )
@@ -22,7 +22,7 @@ export const CEEExplainGraphInput = z
       model_card: z.record(z.any()).optional(),
       seed: z.string(),
       response_hash: z.string(),
-    }),
+    }).optional(), // Computed by the local engine when omitted (LOCAL_INFERENCE_ENABLED)
     context_id: z.string().optional(),
   })
   .strict();
@@ -49,6 +49,21 @@ export const CEEEvidenceHelperInput = z
           .strict()
       )
       .min(1),
+    // Attachment retrieval (used only when RETRIEVAL_ENABLED)
+    brief: z.string().max(5000).optional(),
+    factors: z.array(z.string().min(1)).max(50).optional(),
+    attachments: z
+      .array(
+        z
+          .object({
+            id: z.string(),
+            kind: z.enum(["pdf", "csv", "txt", "md", "docx", "xlsx", "pptx"]),
+            name: z.string(),
+          })
+          .strict()
+      )
+      .optional(),
+    attachment_payloads: z.record(z.any()).optional(), // Attachment content (base64 or { data, encoding })
   })
   .strict();
 
@@ -112,7 +127,7 @@ export const CEESensitivityCoachInput = z
       model_card: z.record(z.any()).optional(),
       seed: z.string(),
       response_hash: z.string(),
-    }),
+    }).optional(), // Computed by the local engine when omitted (LOCAL_INFERENCE_ENABLED)
     context_id: z.string().optional(),
   })
   .strict();
@@ -184,7 +199,8 @@ export const IdentifiabilitySchema = z.object({
 export const CEEKeyInsightInput = z
   .object({
     graph: Graph,
-    ranked_actions: z.array(RankedActionSchema).min(1),
+    // Computed with top_drivers by the local engine when omitted (LOCAL_INFERENCE_ENABLED)
+    ranked_actions: z.array(RankedActionSchema).min(1).optional(),
     top_drivers: z.array(DriverSchema).optional(),
     context_id: z.string().optional(),
     // Goal-anchored headline fields (optional for backward compatibility)
@@ -482,7 +498,8 @@ export const ISLRobustnessResultSchema = z.object({
 // ISL Synthesis Input
 export const CEEIslSynthesisInput = z
   .object({
-    // Required: at least one analysis type
+    // Required: at least one analysis type, or a graph for the local engine
+    graph: Graph.optional(),
     sensitivity: z.array(ISLSensitivityResultSchema).optional(),
     voi: z.array(ISLVoIResultSchema).optional(),
     tipping_points: z.array(ISLTippingPointSchema).optional(),
@@ -495,12 +512,13 @@ export const CEEIslSynthesisInput = z
   .strict()
   .refine(
     (data) =>
+      data.graph ||
       data.sensitivity?.length ||
       data.voi?.length ||
       data.tipping_points?.length ||
       data.robustness?.length,
     {
-      message: "At least one analysis result (sensitivity, voi, tipping_points, or robustness) is required",
+      message: "At least one analysis result (sensitivity, voi, tipping_points, or robustness) or a graph is required",
     }
   );
 
@@ -64,6 +64,7 @@ export const StructuredProvenance = z.object({
   source: z.string().min(1), // File name, metric name, or "hypothesis"
   quote: z.string().max(100), // Short citation or statement
   location: z.string().optional(), // "page 3", "row 42", "line 15", etc.
+  chunk_id: z.string().optional(), // Retrieved attachment chunk the quote came from ("<source>#<n>")
 });
 
 /**
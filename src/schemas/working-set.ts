@@ -47,6 +47,7 @@ export const AskIntent = z.enum([
   "repair",    // Fix errors or improve structure
   "compare",   // Compare options or paths
   "challenge", // Challenge assumptions or beliefs
+  "simulate",  // What-if: preview factor/edge changes and their effect on the ranking
 ]);
 
 export type AskIntentT = z.infer<typeof AskIntent>;
@@ -129,6 +130,14 @@ export const WorkingSetRequest = z.object({
   turns_recent: z.array(Turn).max(10).optional(),
   decision_state_summary: z.string().max(1000).optional(),
   intent: AskIntent.optional(),
+
+  // Attachments for grounding "explain" answers (used only when RETRIEVAL_ENABLED)
+  attachments: z.array(z.object({
+    id: z.string(),
+    kind: z.enum(["pdf", "csv", "txt", "md", "docx", "xlsx", "pptx"]),
+    name: z.string(),
+  })).max(10).optional(),
+  attachment_payloads: z.record(z.any()).optional(), // Attachment content (base64 or { data, encoding })
 }).refine(
   (req) => req.graph_snapshot.nodes.length <= MAX_GRAPH_NODES,
   {
@@ -202,6 +211,8 @@ export const ProvenanceSource = z.enum([
   "validator",
   "engine",
   "user_edit",
+  "document",
+  "conversation", // Decision memory (earlier, summarised turns)
 ]);
 
 export const ProvenanceConfidence = z.enum(["high", "medium", "low"]);
@@ -213,6 +224,7 @@ export const ProvenanceItem = z.object({
   references: z.object({
     node_ids: z.array(z.string()).optional(),
     edge_ids: z.array(z.string()).optional(),
+    chunk_ids: z.array(z.string()).optional(),
   }).optional(),
 });
 
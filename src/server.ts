@@ -14,6 +14,8 @@ import critiqueRoute from "./routes/assist.critique-graph.js";
 import explainRoute from "./routes/assist.explain-diff.js";
 import evidencePackRoute from "./routes/assist.evidence-pack.js";
 import shareRoute from "./routes/assist.share.js";
+import renderGraphRoute from "./routes/assist.v1.render-graph.js";
+import reviewExportRoute from "./routes/assist.v1.review-export.js";
 import ceeDraftRouteV1 from "./routes/assist.v1.draft-graph.js";
 import ceeDraftStreamRouteV1 from "./routes/assist.v1.draft-graph-stream.js";
 import ceeOptionsRouteV1 from "./routes/assist.v1.options.js";
@@ -38,19 +40,26 @@ import ceeExplainTradeoffRouteV1 from "./routes/assist.v1.explain-tradeoff.js";
 import ceeIslSynthesisRouteV1 from "./routes/assist.v1.isl-synthesis.js";
 import ceeHealthRouteV1 from "./routes/assist.v1.health.js";
 import ceeAskRouteV1 from "./routes/assist.v1.ask.js";
+import ceeAskStreamRouteV1 from "./routes/assist.v1.ask-stream.js";
 import ceeReviewRouteV1 from "./routes/assist.v1.review.js";
 import { statusRoutes, incrementRequestCount, incrementErrorCount } from "./routes/v1.status.js";
 import { limitsRoute } from "./routes/v1.limits.js";
+import { metricsRoute } from "./routes/metrics.js";
 import observabilityPlugin from "./plugins/observability.js";
 import { performanceMonitoring } from "./plugins/performance-monitoring.js";
 import { getAdapter } from "./adapters/llm/router.js";
+import { hasProvider, isProviderConfigured, listProviders, loadProviderModules } from "./adapters/llm/registry.js";
 import { SERVICE_VERSION, GIT_COMMIT_SHA, GIT_COMMIT_SHORT } from "./version.js";
 import { getAllFeatureFlags } from "./utils/feature-flags.js";
 import { attachRequestId, getRequestId, REQUEST_ID_HEADER } from "./utils/request-id.js";
 import { buildErrorV1, toErrorV1, getStatusCodeForErrorCode } from "./utils/errors.js";
 import { authPlugin, getRequestKeyId } from "./plugins/auth.js";
+import { budgetPlugin } from "./plugins/budget.js";
 import { responseHashPlugin } from "./plugins/response-hash.js";
 import { boundaryLoggingPlugin } from "./plugins/boundary-logging.js";
+import { tracingPlugin } from "./plugins/tracing.js";
+import { initTracing } from "./utils/tracing.js";
+import { initPrometheusMetrics } from "./utils/prometheus.js";
 import { getRecentCeeErrors } from "./cee/logging.js";
 import { resolveCeeRateLimit } from "./cee/config/limits.js";
 import { HTTP_CLIENT_TIMEOUT_MS, ROUTE_TIMEOUT_MS, UPSTREAM_RETRY_DELAY_MS } from "./config/timeouts.js";
@@ -60,6 +69,8 @@ import { adminPromptRoutes } from "./routes/admin.prompts.js";
 import { adminUIRoutes } from "./routes/admin.ui.js";
 import { adminDraftFailureRoutes } from "./routes/admin.v1.draft-failures.js";
 import { adminLLMOutputRoutes } from "./routes/admin.v1.llm-output.js";
+import { adminApiKeyRoutes } from "./routes/admin.v1.api-keys.js";
+import { startLLMOutputRetentionJob, closeLLMOutputStore } from "./cee/llm-output-store.js";
 import { adminTestRoutes } from "./routes/admin.testing.js";
 import { initializeAndSeedPrompts, getBraintrustManager, registerAllDefaultPrompts, getPromptStore, getPromptStoreStatus, isPromptStoreHealthy, isStoreBackendConfigured, initializePromptStore } from "./prompts/index.js";
 import { getActiveExperiments, warmPromptCacheFromStore } from "./adapters/llm/prompt-loader.js";
@@ -91,6 +102,9 @@ export const DEFAULT_ALLOWED_HEADERS = [
   "X-Olumi-Client-Build",
   "X-Olumi-Payload-Hash",
   "X-Olumi-Unsafe",
+  "X-Olumi-Domain",
+  "traceparent",
+  "tracestate",
 ];
 
 function resolveAllowedOrigins(): string[] {
@@ -118,14 +132,26 @@ function resolveAllowedOrigins(): string[] {
  * (Can be imported for testing or run directly)
  */
 export async function build() {
+  // Register LLM provider plugins before the selected provider is validated
+  const providerModules = config.llm.providerModules ?? [];
+  if (providerModules.length > 0) {
+    await loadProviderModules(providerModules);
+  }
+
   // Fail-fast: Verify LLM provider and API key configuration
   const llmProvider = env.LLM_PROVIDER || 'openai';
+  if (!hasProvider(llmProvider)) {
+    throw new Error(`FATAL: LLM_PROVIDER=${llmProvider} is not a registered provider (registered: ${listProviders().join(', ')})`);
+  }
   if (llmProvider === 'openai' && !env.OPENAI_API_KEY) {
     throw new Error('FATAL: LLM_PROVIDER=openai but OPENAI_API_KEY is not set');
   }
   if (llmProvider === 'anthropic' && !env.ANTHROPIC_API_KEY) {
     throw new Error('FATAL: LLM_PROVIDER=anthropic but ANTHROPIC_API_KEY is not set');
   }
+  if (llmProvider === 'local' && !env.LOCAL_LLM_BASE_URL) {
+    throw new Error('FATAL: LLM_PROVIDER=local but LOCAL_LLM_BASE_URL is not set');
+  }
 
   // Fail-fast: In production, require at least one API key or HMAC secret so
   // that authentication cannot be accidentally disabled.
@@ -150,6 +176,12 @@ export async function build() {
   // This must happen before routes are registered so prompts are available
   registerAllDefaultPrompts();
 
+  // OpenTelemetry: start the tracer provider before any LLM adapter is created
+  initTracing();
+
+  // Prometheus: register the /metrics sink before plugins start emitting
+  initPrometheusMetrics();
+
   // Security configuration (read from env or use defaults)
   const BODY_LIMIT_BYTES = Number(env.BODY_LIMIT_BYTES) || 1024 * 1024; // 1 MB default
   const GLOBAL_RATE_LIMIT_RPM = Number(env.GLOBAL_RATE_LIMIT_RPM) || 120; // requests per minute per IP
@@ -179,6 +211,11 @@ export async function build() {
       "x-olumi-response-hash",
       "x-olumi-trace-received",
       "x-olumi-downstream-calls",
+      "x-budget-state",
+      "x-budget-warning",
+      "x-budget-daily-remaining-usd",
+      "x-budget-monthly-remaining-usd",
+      "x-budget-downgraded",
     ],
   });
 
@@ -262,6 +299,9 @@ await app.register(rateLimit, {
   },
 });
 
+  // Tracing: server span per request, continuing incoming W3C trace context
+  await app.register(tracingPlugin);
+
   // Observability: Structured logging with sampling and redaction
   await app.register(observabilityPlugin);
 
@@ -278,6 +318,9 @@ await app.register(rateLimit, {
   // Note: authPlugin uses getRequestId() which now has correct ID from above hook
   await app.register(authPlugin);
 
+  // Budgets: per-key LLM spend tracking and enforcement (requires auth key ID)
+  await app.register(budgetPlugin);
+
   // Response hash: Add x-olumi-response-hash header (v1.5 PR N)
   await app.register(responseHashPlugin);
 
@@ -459,11 +502,7 @@ app.get("/healthz", async () => {
 
   // Check LLM configuration (provider-specific)
   const llmProvider = adapter.name;
-  const hasLlmKey =
-    llmProvider === 'fixtures' ? true :
-    llmProvider === 'anthropic' ? !!env.ANTHROPIC_API_KEY :
-    llmProvider === 'openai' ? !!env.OPENAI_API_KEY :
-    false;
+  const hasLlmKey = isProviderConfigured(llmProvider);
 
   // Determine degradation reasons
   const degradationReasons: string[] = [];
@@ -592,6 +631,7 @@ if (env.CEE_DIAGNOSTICS_ENABLED === "true") {
 
   await statusRoutes(app);
   await limitsRoute(app);
+  await metricsRoute(app);
   await draftRoute(app);
   await suggestRoute(app);
   await clarifyRoute(app);
@@ -599,6 +639,7 @@ if (env.CEE_DIAGNOSTICS_ENABLED === "true") {
   await explainRoute(app);
   await evidencePackRoute(app);
   await shareRoute(app);
+  await renderGraphRoute(app);
 
   await ceeDraftRouteV1(app);
   await ceeDraftStreamRouteV1(app);
@@ -623,7 +664,9 @@ if (env.CEE_DIAGNOSTICS_ENABLED === "true") {
   await ceeIslSynthesisRouteV1(app);
   await ceeHealthRouteV1(app);
   await ceeAskRouteV1(app);
+  await ceeAskStreamRouteV1(app);
   await ceeReviewRouteV1(app);
+  await reviewExportRoute(app);
   if (env.CEE_DECISION_REVIEW_EXAMPLE_ENABLED === "true") {
     await ceeDecisionReviewExampleRouteV1(app);
   }
@@ -631,7 +674,8 @@ if (env.CEE_DIAGNOSTICS_ENABLED === "true") {
   // Always initialize prompt store if database credentials are configured
   // This ensures prompts can be loaded from Supabase/Postgres even if PROMPTS_ENABLED is not set
   const storeBackendConfigured = isStoreBackendConfigured();
-  const promptSystemEnabled = config.prompts?.enabled || config.prompts?.adminApiKey || storeBackendConfigured;
+  const adminIdentitiesConfigured = Boolean(config.prompts?.adminIdentities?.length);
+  const promptSystemEnabled = config.prompts?.enabled || config.prompts?.adminApiKey || adminIdentitiesConfigured || storeBackendConfigured;
 
   if (promptSystemEnabled) {
     await initializePromptStore();
@@ -647,8 +691,8 @@ if (env.CEE_DIAGNOSTICS_ENABLED === "true") {
       }
     }
 
-    // Only register admin routes if explicitly enabled or admin key is set
-    if (config.prompts?.enabled || config.prompts?.adminApiKey) {
+    // Only register admin routes if explicitly enabled or an admin key/identity is set
+    if (config.prompts?.enabled || config.prompts?.adminApiKey || adminIdentitiesConfigured) {
       await adminPromptRoutes(app);
       await adminUIRoutes(app);
       await adminDraftFailureRoutes(app);
@@ -666,6 +710,18 @@ if (env.CEE_DIAGNOSTICS_ENABLED === "true") {
     }
   }
 
+  // Managed API keys are issued through the admin API
+  if (config.apiKeys.enabled) {
+    await adminApiKeyRoutes(app);
+    app.log.info('Admin API key management routes registered');
+  }
+
+  // LLM output store: apply retention hourly and flush pending writes on shutdown
+  startLLMOutputRetentionJob();
+  app.addHook("onClose", async () => {
+    await closeLLMOutputStore();
+  });
+
   return app;
 }
 
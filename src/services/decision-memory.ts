@@ -0,0 +1,397 @@
+/**
+ * Decision Memory for /ask Sessions
+ *
+ * The session cache keeps only the last few turns. Turns it evicts are
+ * summarised here into a structured, per-scenario decision memory so the
+ * ask assistant keeps long-horizon context:
+ *
+ * - facts: things the user stated or confirmed as settled
+ * - rejected_options: options the user ruled out
+ * - open_questions: questions the user raised
+ * - preferences: what the user said they want or care about
+ *
+ * Items are keyed to graph node IDs (label, ID or turn `referenced_ids`
+ * matches) so handlers can surface the memory relevant to the current focus.
+ * Summarisation is heuristic (like intent inference) - no LLM calls.
+ *
+ * Key pattern: {REDIS_NAMESPACE}:wsmem:{scenario_id}
+ * Storage mirrors session-cache: Redis if available, in-memory fallback.
+ */
+
+import { getRedis, isRedisAvailable } from "../platform/redis.js";
+import { log } from "../utils/telemetry.js";
+import { estimateTokens } from "../utils/costGuard.js";
+import type { TurnT } from "../schemas/working-set.js";
+import type { GraphT } from "../schemas/graph.js";
+import { config } from "../config/index.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DecisionMemoryKind = "fact" | "rejected_option" | "open_question" | "preference";
+
+export interface DecisionMemoryItem {
+  kind: DecisionMemoryKind;
+  /** Sentence as stated in the conversation (trimmed) */
+  text: string;
+  /** Graph nodes the item refers to */
+  node_ids: string[];
+  /** Timestamp of the turn it came from (ISO 8601) */
+  recorded_at: string;
+}
+
+export interface DecisionMemory {
+  scenario_id: string;
+  facts: DecisionMemoryItem[];
+  rejected_options: DecisionMemoryItem[];
+  open_questions: DecisionMemoryItem[];
+  preferences: DecisionMemoryItem[];
+  /** Number of evicted turns folded into this memory */
+  turns_summarised: number;
+  updated_at: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Key prefix for decision memory */
+const CACHE_PREFIX = "wsmem:";
+
+/** Maximum items kept per kind (oldest dropped first) */
+const MAX_ITEMS_PER_KIND = 20;
+
+/** Maximum characters per item */
+const MAX_ITEM_CHARS = 200;
+
+/** In-memory fallback cache (limited size) */
+const memoryCache = new Map<string, { data: DecisionMemory; expires: number }>();
+const MAX_MEMORY_CACHE_SIZE = 100;
+
+const KIND_FIELDS: Record<DecisionMemoryKind, keyof Pick<DecisionMemory, "facts" | "rejected_options" | "open_questions" | "preferences">> = {
+  fact: "facts",
+  rejected_option: "rejected_options",
+  open_question: "open_questions",
+  preference: "preferences",
+};
+
+const REJECTION_PATTERNS = [
+  /\brul(e|ed|ing) out\b/i,
+  /\breject(ed)?\b/i,
+  /\bdrop(ped)?\b/i,
+  /\bnot going (with|for)\b/i,
+  /\b(don't|do not|won't|will not) (want|consider|go with|pursue)\b/i,
+  /\bno longer (an option|considering|consider)\b/i,
+  /\bnot an option\b/i,
+  /\bexclude[ds]?\b/i,
+];
+
+const PREFERENCE_PATTERNS = [
+  /\b(i|we) (prefer|want|care about|value|need)\b/i,
+  /\bimportant to (me|us)\b/i,
+  /\b(top|main|key) priority\b/i,
+  /\bprioriti[sz]e\b/i,
+  /\b(can't|cannot) afford\b/i,
+  /\bmust (have|be|not)\b/i,
+];
+
+const FACT_PATTERNS = [
+  /\b(we|i) (have )?(agreed|decided|confirmed)\b/i,
+  /\b(it's|it is) (settled|agreed|confirmed)\b/i,
+  /\b(our|the) (budget|deadline|timeline|team size|constraint) is\b/i,
+  /\b(we|i) (already|know that)\b/i,
+];
+
+const CONFIRMATION_PATTERN = /^(yes|yep|yeah|agreed|correct|exactly|right|that's right|confirmed)\b/i;
+
+// ============================================================================
+// Summarisation
+// ============================================================================
+
+/**
+ * Create an empty memory for a scenario.
+ */
+export function createDecisionMemory(scenarioId: string): DecisionMemory {
+  return {
+    scenario_id: scenarioId,
+    facts: [],
+    rejected_options: [],
+    open_questions: [],
+    preferences: [],
+    turns_summarised: 0,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+[.!?]?/g) ?? [])
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9 ]+/g, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Find graph nodes a sentence refers to (by label or ID).
+ */
+function matchNodeIds(sentence: string, graph?: GraphT): string[] {
+  if (!graph) return [];
+  const lower = sentence.toLowerCase();
+  return graph.nodes
+    .filter((n) => (n.label && lower.includes(n.label.toLowerCase())) || lower.includes(n.id.toLowerCase()))
+    .map((n) => n.id);
+}
+
+function classifyUserSentence(sentence: string): DecisionMemoryKind | null {
+  if (sentence.endsWith("?")) return "open_question";
+  if (REJECTION_PATTERNS.some((p) => p.test(sentence))) return "rejected_option";
+  if (PREFERENCE_PATTERNS.some((p) => p.test(sentence))) return "preference";
+  if (FACT_PATTERNS.some((p) => p.test(sentence))) return "fact";
+  return null;
+}
+
+function addItem(memory: DecisionMemory, item: DecisionMemoryItem): void {
+  const field = KIND_FIELDS[item.kind];
+  const key = normalise(item.text);
+  // Restating an item refreshes it rather than duplicating it
+  const items = memory[field].filter((existing) => normalise(existing.text) !== key);
+  items.push(item);
+  memory[field] = items.slice(-MAX_ITEMS_PER_KIND);
+}
+
+/**
+ * Fold evicted turns into the decision memory.
+ *
+ * User sentences are classified as questions, rejections, preferences or
+ * facts; a user confirmation ("yes", "agreed", ...) turns the preceding
+ * assistant statement into an agreed fact. Returns a new memory object.
+ *
+ * @param memory - Existing memory (null to start a new one)
+ * @param scenarioId - Scenario the turns belong to
+ * @param turns - Evicted turns, oldest first
+ * @param graph - Current graph snapshot, for keying items to node IDs
+ */
+export function summariseTurns(
+  memory: DecisionMemory | null,
+  scenarioId: string,
+  turns: TurnT[],
+  graph?: GraphT
+): DecisionMemory {
+  const next: DecisionMemory = memory
+    ? {
+        ...memory,
+        facts: [...memory.facts],
+        rejected_options: [...memory.rejected_options],
+        open_questions: [...memory.open_questions],
+        preferences: [...memory.preferences],
+      }
+    : createDecisionMemory(scenarioId);
+
+  let previousAssistant: TurnT | undefined;
+
+  for (const turn of turns) {
+    const recordedAt = turn.timestamp ?? new Date().toISOString();
+
+    if (turn.role === "assistant") {
+      previousAssistant = turn;
+      continue;
+    }
+
+    const sentences = splitSentences(turn.content);
+    const itemFor = (kind: DecisionMemoryKind, sentence: string): DecisionMemoryItem => ({
+      kind,
+      text: sentence.slice(0, MAX_ITEM_CHARS),
+      node_ids: [...new Set([...matchNodeIds(sentence, graph), ...(turn.referenced_ids ?? [])])],
+      recorded_at: recordedAt,
+    });
+
+    if (previousAssistant && sentences[0] && CONFIRMATION_PATTERN.test(sentences[0])) {
+      const statement = splitSentences(previousAssistant.content).find((s) => !s.endsWith("?"));
+      if (statement) {
+        addItem(next, {
+          ...itemFor("fact", statement),
+          node_ids: [
+            ...new Set([
+              ...matchNodeIds(statement, graph),
+              ...(previousAssistant.referenced_ids ?? []),
+              ...(turn.referenced_ids ?? []),
+            ]),
+          ],
+        });
+      }
+    }
+
+    for (const sentence of sentences) {
+      const kind = classifyUserSentence(sentence);
+      if (kind) addItem(next, itemFor(kind, sentence));
+    }
+
+    previousAssistant = undefined;
+  }
+
+  next.turns_summarised += turns.length;
+  next.updated_at = new Date().toISOString();
+  return next;
+}
+
+// ============================================================================
+// Prompt Injection
+// ============================================================================
+
+/**
+ * Select the memory items to give an ask handler, within a token budget.
+ *
+ * Items about the focus nodes (selection / nodes mentioned in the message)
+ * come first, then rejected options and preferences, then the rest; newest
+ * first within each group.
+ */
+export function selectDecisionMemory(
+  memory: DecisionMemory,
+  opts: { focusNodeIds?: string[]; tokenBudget?: number } = {}
+): DecisionMemoryItem[] {
+  const budget = opts.tokenBudget ?? config.cee.decisionMemoryTokenBudget;
+  const focus = new Set(opts.focusNodeIds ?? []);
+  const kindRank: Record<DecisionMemoryKind, number> = {
+    rejected_option: 0,
+    preference: 1,
+    fact: 2,
+    open_question: 3,
+  };
+
+  const candidates = [
+    ...memory.rejected_options,
+    ...memory.preferences,
+    ...memory.facts,
+    ...memory.open_questions,
+  ].sort((a, b) => {
+    const focusA = a.node_ids.some((id) => focus.has(id)) ? 0 : 1;
+    const focusB = b.node_ids.some((id) => focus.has(id)) ? 0 : 1;
+    if (focusA !== focusB) return focusA - focusB;
+    if (kindRank[a.kind] !== kindRank[b.kind]) return kindRank[a.kind] - kindRank[b.kind];
+    return b.recorded_at.localeCompare(a.recorded_at);
+  });
+
+  const selected: DecisionMemoryItem[] = [];
+  let used = 0;
+  for (const item of candidates) {
+    const cost = estimateTokens(item.text.length);
+    if (used + cost > budget) continue;
+    selected.push(item);
+    used += cost;
+  }
+  return selected;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function buildKey(scenarioId: string): string {
+  return `${CACHE_PREFIX}${scenarioId}`;
+}
+
+function getTtlSeconds(): number {
+  return config.cee.decisionMemoryTtlSeconds;
+}
+
+function setInMemory(memory: DecisionMemory): void {
+  const now = Date.now();
+  for (const [key, entry] of memoryCache) {
+    if (entry.expires < now) memoryCache.delete(key);
+  }
+  if (memoryCache.size >= MAX_MEMORY_CACHE_SIZE) {
+    const oldest = memoryCache.keys().next().value;
+    if (oldest !== undefined) memoryCache.delete(oldest);
+  }
+  memoryCache.set(memory.scenario_id, { data: memory, expires: now + getTtlSeconds() * 1000 });
+}
+
+/**
+ * Load the decision memory for a scenario. Never throws.
+ */
+export async function loadDecisionMemory(scenarioId: string): Promise<DecisionMemory | null> {
+  try {
+    const redis = await getRedis();
+    if (redis && isRedisAvailable()) {
+      const raw = await redis.get(buildKey(scenarioId));
+      return raw ? (JSON.parse(raw) as DecisionMemory) : null;
+    }
+  } catch (error) {
+    log.warn({ error, scenario_id: scenarioId }, "Failed to load decision memory from Redis, trying memory fallback");
+  }
+
+  const entry = memoryCache.get(scenarioId);
+  if (!entry || entry.expires < Date.now()) {
+    memoryCache.delete(scenarioId);
+    return null;
+  }
+  return entry.data;
+}
+
+/**
+ * Persist the decision memory for a scenario. Never throws.
+ */
+export async function saveDecisionMemory(memory: DecisionMemory): Promise<void> {
+  try {
+    const redis = await getRedis();
+    if (redis && isRedisAvailable()) {
+      await redis.setex(buildKey(memory.scenario_id), getTtlSeconds(), JSON.stringify(memory));
+      return;
+    }
+  } catch (error) {
+    log.warn({ error, scenario_id: memory.scenario_id }, "Failed to store decision memory in Redis, using memory fallback");
+  }
+  setInMemory(memory);
+}
+
+/**
+ * Summarise evicted turns into the stored memory for a scenario.
+ */
+export async function recordEvictedTurns(
+  scenarioId: string,
+  turns: TurnT[],
+  graph?: GraphT
+): Promise<void> {
+  if (!config.cee.decisionMemoryEnabled || turns.length === 0) return;
+
+  const existing = await loadDecisionMemory(scenarioId);
+  const memory = summariseTurns(existing, scenarioId, turns, graph);
+  await saveDecisionMemory(memory);
+
+  log.debug(
+    {
+      scenario_id: scenarioId,
+      evicted_turns: turns.length,
+      facts: memory.facts.length,
+      rejected_options: memory.rejected_options.length,
+      open_questions: memory.open_questions.length,
+      preferences: memory.preferences.length,
+    },
+    "Decision memory updated from evicted turns"
+  );
+}
+
+/**
+ * Delete the decision memory for a scenario.
+ */
+export async function deleteDecisionMemory(scenarioId: string): Promise<void> {
+  try {
+    const redis = await getRedis();
+    if (redis && isRedisAvailable()) {
+      await redis.del(buildKey(scenarioId));
+    }
+  } catch (error) {
+    log.warn({ error, scenario_id: scenarioId }, "Failed to delete decision memory from Redis");
+  }
+  memoryCache.delete(scenarioId);
+}
+
+/**
+ * Clear the in-memory fallback cache (for testing).
+ */
+export function clearDecisionMemoryCache(): void {
+  memoryCache.clear();
+}
@@ -1,10 +1,9 @@
 import { Buffer } from "node:buffer";
 import pdf from "pdf-parse";
-import Papa from "papaparse";
 
 export type DocPreview = {
   source: string;
-  type: "pdf" | "csv" | "txt" | "md";
+  type: "pdf" | "csv" | "txt" | "md" | "docx" | "xlsx" | "pptx";
   preview: string;
   locationHint?: string; // Human-readable hint for LLM (e.g., "page refs required")
   locationMetadata?: {
@@ -12,112 +11,170 @@ export type DocPreview = {
     totalPages?: number; // PDF: total pages
     totalRows?: number; // CSV: total rows
     totalLines?: number; // TXT/MD: total lines
+    totalSections?: number; // DOCX: sections split at headings
+    totalSlides?: number; // PPTX: total slides
+    totalRanges?: number; // XLSX: non-empty rows across all sheets
+    // Locations actually present in the preview (1-based, ascending)
+    includedPages?: number[]; // PDF: pages with a [PAGE n] marker
+    includedRows?: number[]; // CSV: rows with a [ROW n] marker (header is row 1)
+    includedLines?: number[]; // TXT/MD: lines with an "n:" prefix
+    includedSections?: number[]; // DOCX: sections with a [SECTION n] marker
+    includedSlides?: number[]; // PPTX: slides with a [SLIDE n] marker
+    includedRanges?: string[]; // XLSX: sheet!cell ranges with a [CELLS ...] marker
+    truncated?: boolean; // true when any page/row/line was dropped or cut
   };
 };
 
-const CAP = 5000;
+// Inverse of estimateTokens (≈4 chars per token)
+const CHARS_PER_TOKEN = 4;
+
+const STOP_WORDS = new Set([
+  "about", "after", "again", "also", "because", "been", "before", "being", "between", "both",
+  "could", "does", "doing", "each", "from", "further", "have", "having", "here", "into",
+  "more", "most", "other", "over", "same", "should", "some", "such", "than", "that",
+  "their", "them", "then", "there", "these", "they", "this", "those", "through", "under",
+  "until", "very", "were", "what", "when", "where", "which", "while", "whom", "will",
+  "with", "would", "your", "ours", "ourselves",
+]);
+
+/**
+ * The page pdf-parse hands to its pagerender hook (a pdf.js page proxy)
+ */
+type PdfPageData = {
+  pageIndex: number;
+  getTextContent(options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }): Promise<{ items: Array<{ str: string; transform: number[] }> }>;
+};
 
-const _cap = (text: string) => text.slice(0, CAP);
+/**
+ * PDF document info dictionary (only the fields we read are typed)
+ */
+export type PdfInfo = {
+  IsAcroFormPresent?: boolean;
+  Encrypted?: string;
+  [key: string]: unknown;
+};
 
-export async function toPreview(kind: string, name: string, buf: Buffer): Promise<DocPreview> {
-  if (kind === "pdf") {
-    const data = await pdf(buf);
+/**
+ * A citable unit being fitted into a budget, with its position in the document
+ */
+type Segment = {
+  location: number;
+  text: string;
+};
 
-    // Add page markers for deterministic citations
-    // NOTE: pdf-parse concatenates all pages without boundaries
-    // We estimate page breaks based on actual page count for better accuracy
-    const text = data.text;
-    const totalPages = data.numpages;
-    const avgCharsPerPage = Math.ceil(text.length / totalPages);
+/**
+ * Extract text per page from a PDF.
+ *
+ * pdf-parse only returns the concatenated text, so pages are collected
+ * through its pagerender hook. Pages that fail to render are returned as "".
+ */
+export async function extractPdfPages(buf: Buffer): Promise<{ pages: string[]; numpages: number; info: PdfInfo }> {
+  const pages: string[] = [];
+
+  const data = await pdf(buf, {
+    pagerender: async (pageData: PdfPageData) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+
+      // Same line-joining as pdf-parse's default renderer
+      let lastY: number | undefined;
+      let text = "";
+      for (const item of content.items) {
+        const y = item.transform[5];
+        text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+        lastY = y;
+      }
 
-    // Build page-marked preview up to cap
-    let preview = "";
-    let currentPage = 1;
+      pages[pageData.pageIndex] = text;
+      return text;
+    },
+  });
 
-    for (let i = 0; i < text.length && preview.length < CAP; i += avgCharsPerPage) {
-      const chunk = text.slice(i, i + avgCharsPerPage);
-      const pageText = `[PAGE ${currentPage}]\n${chunk}\n\n`;
+  const numpages = data.numpages;
+  return {
+    pages: Array.from({ length: numpages }, (_, i) => (pages[i] ?? "").replace(/\r\n?/g, "\n").trim()),
+    numpages,
+    info: (data.info ?? {}) as PdfInfo,
+  };
+}
 
-      if (preview.length + pageText.length > CAP) {
-        // Add partial page to reach cap
-        const remaining = CAP - preview.length;
-        preview += pageText.slice(0, remaining);
-        break;
-      }
+/**
+ * Keywords from a brief used to prioritise document segments
+ */
+export function briefKeywords(brief: string): string[] {
+  const words = brief.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return [...new Set(words.filter((w) => w.length >= 4 && !STOP_WORDS.has(w)))];
+}
 
-      preview += pageText;
-      currentPage++;
-    }
-
-    return {
-      source: name,
-      type: "pdf",
-      preview: preview.slice(0, CAP), // Final safety cap
-      locationHint: "cite with page numbers (NOTE: page breaks are estimated from character distribution)",
-      locationMetadata: {
-        totalPages: data.numpages,
-      },
-    };
-  }
-  if (kind === "csv") {
-    const text = buf.toString("utf8");
-    const parsed = Papa.parse(text, { header: true });
-    const rows = (parsed.data as Record<string, string>[]).filter(Boolean);
-    const cols = parsed.meta.fields || [];
-    const numericCols = cols
-      .filter((c: string) =>
-        rows.some((r) => {
-          const value = Number(r[c as keyof typeof r]);
-          return !Number.isNaN(value) && r[c as keyof typeof r] !== "";
-        })
-      )
-      .slice(0, 6);
-    const headline = `CSV ${name}: rows=${rows.length}, cols=${cols.length}, numeric=${numericCols.join(", ")}`;
-
-    // Add row numbers for deterministic citations (header is row 1, data starts at row 2)
-    // Build preview incrementally until cap is reached - no arbitrary row limit
-    let preview = `${headline}\n[ROW 1] ${JSON.stringify(cols)}\n`;
-    let rowNum = 2;
-
-    for (const row of rows) {
-      const rowText = `[ROW ${rowNum}] ${JSON.stringify(row)}\n`;
-      if (preview.length + rowText.length > CAP) break;
-      preview += rowText;
-      rowNum++;
-    }
-
-    return {
-      source: name,
-      type: "csv",
-      preview: preview.slice(0, CAP), // Final safety cap
-      locationHint: "cite with row numbers when referencing data",
-      locationMetadata: {
-        totalRows: rows.length,
-      },
-    };
+function keywordScore(text: string, keywords: string[]): number {
+  if (keywords.length === 0) return 0;
+  const lower = text.toLowerCase();
+  return keywords.reduce((score, keyword) => score + (lower.includes(keyword) ? 1 : 0), 0);
+}
+
+/**
+ * Fit text that is already split into citable units into a token budget.
+ *
+ * Used for previews extracted by the grounding module (see
+ * grounding/process-attachments.ts); `units` are in document order and each
+ * carries its location marker, `header` is always kept.
+ */
+export function fitMarkedUnits(
+  header: string,
+  units: string[],
+  maxTokens: number,
+  keywords: string[]
+): { preview: string; truncated: boolean } {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const budget = Math.max(0, maxChars - header.length);
+
+  // Keyword matches first, then document order
+  const ranked = units
+    .map((text, i) => ({ location: i + 1, text, score: keywordScore(text, keywords) }))
+    .sort((a, b) => b.score - a.score || a.location - b.location);
+
+  const chosen: Segment[] = [];
+  let used = 0;
+  for (const segment of ranked) {
+    if (used + segment.text.length > budget) continue;
+    chosen.push(segment);
+    used += segment.text.length;
   }
-  const text = buf.toString("utf8");
-  const lines = text.split("\n");
-
-  // Add line numbers for deterministic citations
-  // Build preview incrementally until cap is reached - no arbitrary line limit
-  let preview = "";
-  let lineNum = 1;
-
-  for (const line of lines) {
-    const lineText = `${lineNum}: ${line}\n`;
-    if (preview.length + lineText.length > CAP) break;
-    preview += lineText;
-    lineNum++;
+
+  // If not even one unit fits, cut the highest-priority one rather than returning nothing
+  let truncated = chosen.length < units.length;
+  if (chosen.length === 0 && ranked.length > 0 && budget > 0) {
+    chosen.push({ ...ranked[0], text: ranked[0].text.slice(0, budget) });
+    truncated = true;
   }
 
+  // Render in document order so markers stay monotonic
+  chosen.sort((a, b) => a.location - b.location);
+
   return {
-    source: name,
-    type: kind as DocPreview["type"],
-    preview: preview.slice(0, CAP), // Final safety cap
-    locationHint: "cite with line numbers if needed",
-    locationMetadata: {
-      totalLines: lines.length,
-    },
+    preview: (header + chosen.map((s) => s.text).join("")).slice(0, maxChars),
+    truncated,
   };
 }
+
+/**
+ * Split a token budget across documents (max-min fair share).
+ *
+ * Documents smaller than their share keep their full size; the remainder is
+ * redistributed to larger documents.
+ */
+export function allocateTokenBudget(demands: number[], tokenBudget: number): number[] {
+  const allocations = new Array<number>(demands.length).fill(0);
+  const order = demands.map((demand, index) => ({ demand, index })).sort((a, b) => a.demand - b.demand);
+
+  let remaining = tokenBudget;
+  order.forEach(({ demand, index }, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    allocations[index] = Math.min(demand, share);
+    remaining -= allocations[index];
+  });
+
+  return allocations;
+}
@@ -10,6 +10,7 @@
  * - "ideate" - Generate alternatives or new ideas
  * - "compare" - Compare options or paths
  * - "challenge" - Challenge assumptions or beliefs
+ * - "simulate" - What-if changes to factor values or edge strengths
  *
  * Default: "clarify" when uncertain
  */
@@ -91,6 +92,15 @@ const INTENT_KEYWORDS: Record<AskIntentT, RegExp[]> = {
     /\breally\b/i,
     /\bactually\b/i,
   ],
+  simulate: [
+    // "what if" alone is ideation; a quantified change makes it a simulation
+    /\bwhat if\b.*\b(?:doubles?|doubled|triples?|tripled|halves?|halved|increases?|increased|decreases?|decreased|rises?|rose|drops?|dropped|falls?|fell|grows?|grew|declines?|declined|cut|goes (?:up|down|to)|\d+(?:\.\d+)?\s*%)/i,
+    /\bwhat if\b.*\b(?:is|are|was|were|becomes|hits|reaches)\s+[£$€]?\d/i,
+    /\bwhat happens (?:if|when)\b/i,
+    /\bwhat would happen\b/i,
+    /\bsimulat/i,
+    /\bscenario where\b/i,
+  ],
   clarify: [
     /\bclarify\b/i,
     /\bconfused\b/i,
@@ -110,6 +120,7 @@ const INTENT_PRIORITY: AskIntentT[] = [
   "repair",    // Fixing things is high priority
   "compare",   // Explicit comparison request
   "challenge", // Challenging is specific
+  "simulate",  // Quantified what-if (ahead of ideate, which also matches "what if")
   "ideate",    // Generating ideas
   "explain",   // Explanation
   "clarify",   // Default catch-all
@@ -248,6 +259,8 @@ export function getIntentDescription(intent: AskIntentT): string {
       return "compare options or paths";
     case "challenge":
       return "challenge assumptions or beliefs";
+    case "simulate":
+      return "simulate a what-if change and its effect on the options";
     default:
       return "process your request";
   }
@@ -21,6 +21,7 @@ import {
   isTierShortcut,
 } from "../config/model-routing.js";
 import { config } from "../config/index.js";
+import { isProviderConfigured } from "../adapters/llm/registry.js";
 
 /**
  * Configuration for model selection (injectable for testing)
@@ -498,11 +499,7 @@ export function validateModelRequest(
   }
 
   // Check provider available
-  if (modelConfig.provider === "anthropic" && !config.llm.anthropicApiKey) {
-    return { valid: false, reason: "provider_not_configured" };
-  }
-
-  if (modelConfig.provider === "openai" && !config.llm.openaiApiKey) {
+  if (!isProviderConfigured(modelConfig.provider)) {
     return { valid: false, reason: "provider_not_configured" };
   }
 
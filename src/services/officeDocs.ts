@@ -0,0 +1,194 @@
+/**
+ * Office Document Parsing (DOCX / XLSX / PPTX)
+ *
+ * Extracts text from Office Open XML files with the structure needed for
+ * citations:
+ * - DOCX: sections split at heading paragraphs (Title/Heading n)
+ * - XLSX: non-empty rows per sheet with their sheet!cell range
+ * - PPTX: text per slide in presentation order
+ *
+ * Parsing is regex-based over the XML parts; formatting, images, formulas
+ * and embedded objects are ignored.
+ */
+
+import { Buffer } from "node:buffer";
+import { readZipEntries } from "../utils/zip.js";
+
+export type OfficeKind = "docx" | "xlsx" | "pptx";
+
+export type DocxSection = {
+  heading: string; // "" for text before the first heading
+  text: string;
+};
+
+export type XlsxRow = {
+  sheet: string;
+  range: string; // e.g. "Sheet1!A2:D2" (sheet name quoted when needed)
+  values: string[];
+};
+
+const HEADING_STYLE = /^(Title|Subtitle|Heading\d)$/i;
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, "&");
+}
+
+function attr(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Concatenated text of all text-run elements (e.g. "w:t", "a:t") in an XML fragment
+ */
+function runText(xml: string, tag: string): string {
+  const runs = xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`, "g"));
+  return decodeXml([...runs].map((m) => m[1]).join(""));
+}
+
+function part(entries: Map<string, Buffer>, name: string): string {
+  const entry = entries.get(name);
+  if (!entry) throw new Error(`office_part_missing: ${name}`);
+  return entry.toString("utf8");
+}
+
+/**
+ * Map relationship ids to part paths for a .rels file
+ */
+function relationships(entries: Map<string, Buffer>, relsPath: string, baseDir: string): Map<string, string> {
+  const rels = new Map<string, string>();
+  const xml = entries.get(relsPath)?.toString("utf8") ?? "";
+  for (const [tag] of xml.matchAll(/<Relationship\s[^>]*>/g)) {
+    const id = attr(tag, "Id");
+    const target = attr(tag, "Target");
+    if (!id || !target) continue;
+    rels.set(id, target.startsWith("/") ? target.slice(1) : `${baseDir}/${target}`);
+  }
+  return rels;
+}
+
+export function parseDocx(buf: Buffer): DocxSection[] {
+  const entries = readZipEntries(buf, { filter: (name) => name === "word/document.xml" });
+  const xml = part(entries, "word/document.xml");
+
+  const sections: DocxSection[] = [];
+  let current: DocxSection = { heading: "", text: "" };
+
+  for (const [paragraph] of xml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)) {
+    const style = paragraph.match(/<w:pStyle\s[^>]*w:val="([^"]*)"/)?.[1] ?? "";
+    const text = runText(
+      paragraph.replace(/<w:tab\/>/g, "<w:t>\t</w:t>").replace(/<w:br\/>/g, "<w:t>\n</w:t>"),
+      "w:t"
+    ).trim();
+
+    if (HEADING_STYLE.test(style) && text) {
+      if (current.heading || current.text) sections.push(current);
+      current = { heading: text, text: "" };
+    } else if (text) {
+      current.text += current.text ? `\n${text}` : text;
+    }
+  }
+
+  if (current.heading || current.text) sections.push(current);
+  return sections;
+}
+
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const ch of ref.replace(/\d+$/, "")) {
+    index = index * 26 + (ch.charCodeAt(0) - 64);
+  }
+  return index;
+}
+
+function quoteSheetName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+export function parseXlsx(buf: Buffer): XlsxRow[] {
+  // Only the parts read below; styles, themes, drawings etc. are never inflated
+  const entries = readZipEntries(buf, {
+    filter: (name) =>
+      name === "xl/workbook.xml" ||
+      name === "xl/_rels/workbook.xml.rels" ||
+      name === "xl/sharedStrings.xml" ||
+      /^xl\/worksheets\/[^/]+\.xml$/.test(name),
+  });
+
+  const sharedStrings = [...(entries.get("xl/sharedStrings.xml")?.toString("utf8") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map((m) => runText(m[1], "t"));
+  const rels = relationships(entries, "xl/_rels/workbook.xml.rels", "xl");
+  const workbook = part(entries, "xl/workbook.xml");
+
+  const rows: XlsxRow[] = [];
+
+  for (const [sheetTag] of workbook.matchAll(/<sheet\s[^>]*>/g)) {
+    const sheetName = attr(sheetTag, "name") ?? "Sheet";
+    const target = rels.get(attr(sheetTag, "r:id") ?? "");
+    const sheetXml = target ? entries.get(target)?.toString("utf8") : undefined;
+    if (!sheetXml) continue;
+
+    for (const [, rowBody] of sheetXml.matchAll(/<row\s[^>]*>([\s\S]*?)<\/row>/g)) {
+      const cells: Array<{ ref: string; value: string }> = [];
+
+      for (const [, cellAttrs, cellBody = ""] of rowBody.matchAll(/<c(\s[^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const ref = attr(cellAttrs, "r");
+        if (!ref) continue;
+
+        const type = attr(cellAttrs, "t");
+        const raw = cellBody.match(/<v>([^<]*)<\/v>/)?.[1];
+        const value =
+          type === "s" ? sharedStrings[Number(raw)] ?? ""
+          : type === "inlineStr" ? runText(cellBody, "t")
+          : type === "b" ? (raw === "1" ? "TRUE" : "FALSE")
+          : decodeXml(raw ?? "");
+
+        if (value.trim()) cells.push({ ref, value: value.trim() });
+      }
+
+      if (cells.length === 0) continue;
+
+      cells.sort((a, b) => columnIndex(a.ref) - columnIndex(b.ref));
+      const first = cells[0].ref;
+      const last = cells[cells.length - 1].ref;
+      rows.push({
+        sheet: sheetName,
+        range: `${quoteSheetName(sheetName)}!${first === last ? first : `${first}:${last}`}`,
+        values: cells.map((c) => c.value),
+      });
+    }
+  }
+
+  return rows;
+}
+
+export function parsePptx(buf: Buffer): string[] {
+  const entries = readZipEntries(buf, {
+    filter: (name) =>
+      name === "ppt/presentation.xml" ||
+      name === "ppt/_rels/presentation.xml.rels" ||
+      /^ppt\/slides\/[^/]+\.xml$/.test(name),
+  });
+
+  // Slide order comes from presentation.xml, not file names
+  const rels = relationships(entries, "ppt/_rels/presentation.xml.rels", "ppt");
+  const presentation = part(entries, "ppt/presentation.xml");
+  const slidePaths = [...presentation.matchAll(/<p:sldId\s[^>]*>/g)]
+    .map(([tag]) => rels.get(attr(tag, "r:id") ?? ""))
+    .filter((path): path is string => Boolean(path && entries.has(path)));
+
+  return slidePaths.map((path) => {
+    const xml = part(entries, path);
+    return [...xml.matchAll(/<a:p[\s>][\s\S]*?<\/a:p>/g)]
+      .map(([paragraph]) => runText(paragraph, "a:t").trim())
+      .filter(Boolean)
+      .join("\n");
+  });
+}
@@ -15,7 +15,9 @@
 import { getRedis, isRedisAvailable } from "../platform/redis.js";
 import { log, emit, TelemetryEvents } from "../utils/telemetry.js";
 import type { TurnT, AskIntentT } from "../schemas/working-set.js";
+import type { GraphT } from "../schemas/graph.js";
 import { config } from "../config/index.js";
+import { recordEvictedTurns } from "./decision-memory.js";
 
 // ============================================================================
 // Types
@@ -249,22 +251,39 @@ export async function appendTurn(
   turn: TurnT,
   decisionStateSummary?: string,
   lastIntent?: AskIntentT
+): Promise<void> {
+  await appendTurns(scenarioId, [turn], { decisionStateSummary, lastIntent });
+}
+
+/**
+ * Update session with several turns in one read-modify-write.
+ *
+ * Turns pushed out by MAX_TURNS are summarised into the scenario's decision
+ * memory (see decision-memory.ts) instead of being dropped.
+ */
+export async function appendTurns(
+  scenarioId: string,
+  newTurns: TurnT[],
+  opts: { decisionStateSummary?: string; lastIntent?: AskIntentT; graph?: GraphT } = {}
 ): Promise<void> {
   const existing = await retrieveSession(scenarioId);
 
-  const turns = existing.session
-    ? [...existing.session.turns_recent, turn]
-    : [turn];
+  const turns = [...(existing.session?.turns_recent ?? []), ...newTurns];
+  const evicted = turns.slice(0, Math.max(0, turns.length - MAX_TURNS));
 
   await storeSession(scenarioId, {
     scenario_id: scenarioId,
     turns_recent: turns,
     decision_state_summary:
-      decisionStateSummary ||
+      opts.decisionStateSummary ||
       existing.session?.decision_state_summary ||
       "",
-    last_intent: lastIntent || existing.session?.last_intent,
+    last_intent: opts.lastIntent || existing.session?.last_intent,
   });
+
+  if (evicted.length > 0) {
+    await recordEvictedTurns(scenarioId, evicted, opts.graph);
+  }
 }
 
 /**
@@ -0,0 +1,439 @@
+/**
+ * What-if Simulation Service
+ *
+ * Parses hypotheticals from /ask messages ("what if churn doubles?",
+ * "what if we cut price by 10% and the effect of marketing on demand halves?")
+ * into factor value and edge strength changes, applies them to a copy of the
+ * graph, and compares option rankings before and after with the local
+ * inference engine.
+ *
+ * Values are parsed with the extraction numeric parser and targets matched
+ * with the factor matcher, so hypotheticals resolve the same way option
+ * interventions in a brief do.
+ */
+
+import type { GraphT, NodeT, EdgeT } from "../schemas/graph.js";
+import type { SelectionT } from "../schemas/working-set.js";
+import type { NodeV3T, EdgeV3T } from "../schemas/cee-v3.js";
+import { parseNumericValue, resolveRelativeValue, type ParsedValue } from "../cee/extraction/numeric-parser.js";
+import { matchInterventionToFactor } from "../cee/extraction/factor-matcher.js";
+import { transformEdgeToV3 } from "../cee/transforms/schema-v3.js";
+import {
+  isLocalInferenceEnabled,
+  runLocalInference,
+  LocalInferenceError,
+  type LocalInferenceResult,
+} from "../cee/inference/index.js";
+import { log } from "../utils/telemetry.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A single hypothetical change to the model.
+ */
+export interface WhatIfChange {
+  kind: "factor_value" | "edge_strength";
+  /** Factor node ID, or "from->to" for edges */
+  target_id: string;
+  /** Human-readable label of the factor or edge */
+  label: string;
+  /** Value in the model today (undefined if the factor has none) */
+  from_value?: number;
+  to_value: number;
+  unit?: string;
+  /** Clause of the message the change was parsed from */
+  phrase: string;
+  confidence: "high" | "medium" | "low";
+}
+
+/**
+ * A clause that reads as a change but could not be resolved.
+ */
+export interface UnresolvedWhatIf {
+  phrase: string;
+  /** no_target: nothing in the graph matches; no_amount: no size given; no_baseline: relative change to a factor without a value */
+  reason: "no_target" | "no_amount" | "no_baseline";
+  /** Label of the matched target (no_amount, no_baseline) */
+  label?: string;
+}
+
+export interface WhatIfParseResult {
+  changes: WhatIfChange[];
+  unresolved: UnresolvedWhatIf[];
+}
+
+/**
+ * Option ranking before and after a simulated change.
+ */
+export interface RankingShift {
+  before: LocalInferenceResult;
+  after: LocalInferenceResult;
+  /** Whether the best option changed */
+  leader_changed: boolean;
+  /** Options whose rank position changed */
+  moved_option_ids: string[];
+}
+
+// ============================================================================
+// Clause patterns
+// ============================================================================
+
+/** Hypothetical lead-ins stripped before parsing */
+const LEAD_IN = /^(?:so\s+|and\s+|also\s+)?(?:what\s+(?:if|happens\s+(?:if|when))|what\s+would\s+happen\s+if|simulate(?:\s+a\s+scenario\s+where)?|suppose(?:\s+that)?|imagine(?:\s+that)?|if)\s+/i;
+
+/** "(we) double/increase/cut the X (by|to V)" */
+const VERB_FIRST = /^(?:(?:we|i|they|you)\s+(?:were\s+to\s+|could\s+|can\s+|did\s+)?)?(increase|decrease|reduce|raise|lower|cut|boost|grow|double|triple|quadruple|halve)\s+(?:the\s+|our\s+)?(.+?)(?:\s+(by|to)\s+(.+))?$/i;
+
+/** "X doubles", "X drops by 20%", "X goes up to £50" */
+const SUBJECT_FIRST =
+  /^(?:the\s+|our\s+)?(.+?)\s+(?:(?:is|was|were|gets|got)\s+)?(doubles|doubled|triples|tripled|quadruples|quadrupled|halves|halved|increases|increased|rises|rose|grows|grew|goes\s+up|went\s+up|jumps|jumped|drops|dropped|falls|fell|decreases|decreased|declines|declined|shrinks|shrank|goes\s+down|went\s+down|cut|reduced|raised|lowered|boosted)(?:\s+(by|to)\s+(.+))?$/i;
+
+/** "X is 30%", "X goes to £50", "X becomes 2x" */
+const SUBJECT_IS = /^(?:the\s+|our\s+)?(.+?)\s+(?:is|was|were|becomes|became|goes\s+to|went\s+to|hits|reaches|is\s+set\s+to|changes\s+to|moves\s+to)\s+(.+)$/i;
+
+/** "effect of A on B" names an edge rather than a factor */
+const EDGE_TARGET = /^(?:the\s+)?(?:effect|impact|influence|link|relationship)\s+(?:of|from)\s+(.+?)\s+(?:on|to)\s+(.+)$/i;
+
+/** Pronouns that refer to the user's selection */
+const SELECTION_REFERENCE = /^(?:it|this|that|this\s+(?:factor|one|edge|link)|that\s+(?:factor|one|edge|link))$/i;
+
+const MULTIPLIER_VERBS: Record<string, string> = {
+  double: "double", doubles: "double", doubled: "double",
+  triple: "triple", triples: "triple", tripled: "triple",
+  quadruple: "quadruple", quadruples: "quadruple", quadrupled: "quadruple",
+  halve: "halve", halves: "halve", halved: "halve",
+};
+
+const DECREASE_VERB = /^(?:decrease|decreases|decreased|reduce|reduced|lower|lowered|cut|drops|dropped|falls|fell|declines|declined|shrinks|shrank|goes\s+down|went\s+down)$/i;
+
+/** Edge strengths are signed coefficients in [-1, 1] */
+const MAX_EDGE_STRENGTH = 1;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+interface ClauseChange {
+  target: string;
+  parsed?: ParsedValue;
+}
+
+/**
+ * Split a message into clauses, one change per clause.
+ */
+function splitClauses(message: string): string[] {
+  return message
+    .split(/[,;?!]|\band\b|\bplus\b|\.(?=\s|$)/i)
+    .map((clause) => clause.trim().replace(LEAD_IN, "").replace(LEAD_IN, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a "by/to V" amount for a direction verb.
+ */
+function parseAmount(verb: string, preposition: string | undefined, amount: string | undefined): ParsedValue | undefined {
+  if (!amount) return undefined;
+
+  if (preposition?.toLowerCase() === "to") {
+    return parseNumericValue(amount) ?? undefined;
+  }
+
+  const decrease = DECREASE_VERB.test(verb);
+  // Percentages and currency amounts: the numeric parser's relative patterns
+  const relative = parseNumericValue(`${decrease ? "decrease" : "increase"} by ${amount}`);
+  if (relative?.isRelative) return relative;
+
+  // Plain amounts ("by 5") are deltas
+  const plain = parseNumericValue(amount);
+  if (!plain) return undefined;
+  if (plain.isRelative) return plain;
+  return {
+    ...plain,
+    isRelative: true,
+    relativeType: "absolute",
+    relativeKind: "delta",
+    relativeValue: decrease ? -plain.value : plain.value,
+    relativeDirection: decrease ? "decrease" : "increase",
+  };
+}
+
+/**
+ * Read the target text and change from one clause.
+ */
+function parseClause(clause: string): ClauseChange | null {
+  const verbFirst = clause.match(VERB_FIRST);
+  if (verbFirst) {
+    const [, verb, target, preposition, amount] = verbFirst;
+    const multiplier = MULTIPLIER_VERBS[verb.toLowerCase()];
+    const parsed = multiplier
+      ? parseNumericValue(`${multiplier} it`) ?? undefined
+      : parseAmount(verb, preposition, amount);
+    return { target, parsed };
+  }
+
+  const subjectFirst = clause.match(SUBJECT_FIRST);
+  if (subjectFirst) {
+    const [, target, verb, preposition, amount] = subjectFirst;
+    const multiplier = MULTIPLIER_VERBS[verb.toLowerCase()];
+    const parsed = multiplier
+      ? parseNumericValue(`${multiplier} it`) ?? undefined
+      : parseAmount(verb.replace(/\s+/g, " "), preposition, amount);
+    return { target, parsed };
+  }
+
+  const subjectIs = clause.match(SUBJECT_IS);
+  if (subjectIs) {
+    const parsed = parseNumericValue(subjectIs[2]);
+    return parsed ? { target: subjectIs[1], parsed } : null;
+  }
+
+  return null;
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Match text to any node by ID or label (exact, then containment).
+ */
+function matchNode(text: string, nodes: NodeT[]): NodeT | undefined {
+  const target = normalise(text);
+  if (!target) return undefined;
+
+  return (
+    nodes.find((n) => n.id.toLowerCase() === text.trim().toLowerCase()) ??
+    nodes.find((n) => normalise(n.label ?? "") === target) ??
+    nodes.find((n) => {
+      const label = normalise(n.label ?? "");
+      return label.length > 0 && (label.includes(target) || target.includes(label));
+    })
+  );
+}
+
+function factorValue(node: NodeT): number | undefined {
+  const data = node.data as { value?: unknown } | undefined;
+  return typeof data?.value === "number" ? data.value : undefined;
+}
+
+function factorUnit(node: NodeT): string | undefined {
+  const data = node.data as { unit?: unknown } | undefined;
+  return typeof data?.unit === "string" ? data.unit : undefined;
+}
+
+/**
+ * Current strength of an edge, as the inference engine reads it.
+ */
+export function edgeStrengthOf(edge: EdgeT): number {
+  if (typeof edge.strength_mean === "number") return edge.strength_mean;
+  if (typeof edge.weight === "number") return edge.weight;
+  return edge.effect_direction === "negative" ? -0.5 : 0.5;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function resolveValue(parsed: ParsedValue, baseline: number | undefined, unit: string | undefined): number | undefined {
+  if (parsed.isRelative) {
+    return baseline === undefined ? undefined : resolveRelativeValue(parsed, baseline);
+  }
+  // "30%" for a factor stored as a fraction (0.3)
+  if (parsed.unit === "percent" && baseline !== undefined && Math.abs(baseline) <= 1 && unit !== "%" && unit !== "percent") {
+    return parsed.value / 100;
+  }
+  return parsed.value;
+}
+
+/**
+ * Parse the hypothetical changes in a message.
+ *
+ * @param message - The user's question ("what if churn doubles?")
+ * @param graph - Graph snapshot to resolve targets against
+ * @param selection - Selected node or edge, for "what if this doubles?"
+ */
+export function parseWhatIf(message: string, graph: GraphT, selection?: SelectionT): WhatIfParseResult {
+  const changes: WhatIfChange[] = [];
+  const unresolved: UnresolvedWhatIf[] = [];
+
+  const goalId = graph.nodes.find((n) => n.kind === "goal")?.id ?? "";
+  const matcherNodes: NodeV3T[] = graph.nodes.map((n) => ({ id: n.id, kind: n.kind, label: n.label ?? n.id }));
+  const matcherEdges: EdgeV3T[] = graph.edges.map((e, i) => transformEdgeToV3(e, i, graph.nodes));
+
+  for (const clause of splitClauses(message)) {
+    const change = parseClause(clause);
+    if (!change) continue;
+
+    const targetText = change.target.trim();
+    const selected = SELECTION_REFERENCE.test(targetText);
+    const edgeMatch = targetText.match(EDGE_TARGET);
+
+    // Edge strength changes
+    let edge: EdgeT | undefined;
+    if (edgeMatch) {
+      const from = matchNode(edgeMatch[1], graph.nodes);
+      const to = matchNode(edgeMatch[2], graph.nodes);
+      edge = from && to
+        ? graph.edges.find((e) => (e.from === from.id && e.to === to.id) || (e.from === to.id && e.to === from.id))
+        : undefined;
+      if (!edge) {
+        unresolved.push({ phrase: clause, reason: "no_target" });
+        continue;
+      }
+    } else if (selected && selection?.edge_id) {
+      edge = graph.edges.find((e) => `${e.from}->${e.to}` === selection.edge_id);
+    }
+
+    if (edge) {
+      const fromLabel = graph.nodes.find((n) => n.id === edge.from)?.label ?? edge.from;
+      const toLabel = graph.nodes.find((n) => n.id === edge.to)?.label ?? edge.to;
+      const label = `${fromLabel} → ${toLabel}`;
+      if (!change.parsed) {
+        unresolved.push({ phrase: clause, reason: "no_amount", label });
+        continue;
+      }
+      const current = edgeStrengthOf(edge);
+      const next = resolveValue(change.parsed, current, undefined) ?? current;
+      changes.push({
+        kind: "edge_strength",
+        target_id: `${edge.from}->${edge.to}`,
+        label,
+        from_value: round(current),
+        to_value: round(Math.max(-MAX_EDGE_STRENGTH, Math.min(MAX_EDGE_STRENGTH, next))),
+        phrase: clause,
+        confidence: change.parsed.confidence,
+      });
+      continue;
+    }
+
+    // Factor value changes
+    let factor: NodeT | undefined;
+    let confidence: WhatIfChange["confidence"] = "high";
+    if (selected) {
+      factor = graph.nodes.find((n) => n.id === selection?.node_id && n.kind === "factor");
+    } else {
+      const match = matchInterventionToFactor(targetText, matcherNodes, matcherEdges, goalId);
+      factor = match.matched ? graph.nodes.find((n) => n.id === match.node_id) : undefined;
+      confidence = match.confidence;
+    }
+    if (!factor) {
+      unresolved.push({ phrase: clause, reason: "no_target" });
+      continue;
+    }
+
+    const label = factor.label ?? factor.id;
+    if (!change.parsed) {
+      unresolved.push({ phrase: clause, reason: "no_amount", label });
+      continue;
+    }
+
+    const current = factorValue(factor);
+    const unit = factorUnit(factor);
+    const next = resolveValue(change.parsed, current, unit);
+    if (next === undefined) {
+      unresolved.push({ phrase: clause, reason: "no_baseline", label });
+      continue;
+    }
+
+    changes.push({
+      kind: "factor_value",
+      target_id: factor.id,
+      label,
+      ...(current !== undefined ? { from_value: round(current) } : {}),
+      to_value: round(next),
+      ...(unit ? { unit } : {}),
+      phrase: clause,
+      confidence: confidence === "high" ? change.parsed.confidence : confidence,
+    });
+  }
+
+  // Last mention of a target wins
+  const byTarget = new Map(changes.map((c) => [c.target_id, c]));
+  return { changes: [...byTarget.values()], unresolved };
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Copy of the graph with the changes applied.
+ */
+export function applyWhatIf(graph: GraphT, changes: WhatIfChange[]): GraphT {
+  const factorValues = new Map(changes.filter((c) => c.kind === "factor_value").map((c) => [c.target_id, c.to_value]));
+  const edgeStrengths = new Map(changes.filter((c) => c.kind === "edge_strength").map((c) => [c.target_id, c.to_value]));
+
+  return {
+    ...graph,
+    nodes: graph.nodes.map((node) => {
+      const value = factorValues.get(node.id);
+      return value === undefined ? node : { ...node, data: { ...(node.data ?? {}), value } as NodeT["data"] };
+    }),
+    edges: graph.edges.map((edge) => {
+      const strength = edgeStrengths.get(`${edge.from}->${edge.to}`);
+      return strength === undefined ? edge : { ...edge, strength_mean: strength };
+    }),
+  };
+}
+
+/**
+ * Compare option rankings before and after the changes with the local
+ * inference engine (same seed for both runs).
+ *
+ * @returns null when local inference is disabled or cannot evaluate the graph
+ */
+export function simulateRankingShift(graph: GraphT, changes: WhatIfChange[]): RankingShift | null {
+  if (!isLocalInferenceEnabled() || changes.length === 0) return null;
+
+  try {
+    const before = runLocalInference(graph);
+    const after = runLocalInference(applyWhatIf(graph, changes), { seed: before.seed });
+
+    const rankBefore = new Map(before.outcomes.map((o, i) => [o.option_id, i]));
+    const moved = after.outcomes
+      .filter((o, i) => rankBefore.has(o.option_id) && rankBefore.get(o.option_id) !== i)
+      .map((o) => o.option_id);
+
+    return {
+      before,
+      after,
+      leader_changed: before.outcomes[0]?.option_id !== after.outcomes[0]?.option_id,
+      moved_option_ids: moved,
+    };
+  } catch (error) {
+    if (error instanceof LocalInferenceError) {
+      log.debug({ code: error.code }, "What-if simulation skipped: local inference unavailable for graph");
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Node IDs along the shortest directed path from a node to the target.
+ */
+export function findPathToTarget(graph: GraphT, fromId: string, targetId: string): string[] {
+  const previous = new Map<string, string | null>([[fromId, null]]);
+  const queue = [fromId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === targetId) {
+      const path: string[] = [];
+      for (let id: string | null = current; id !== null; id = previous.get(id) ?? null) {
+        path.unshift(id);
+      }
+      return path;
+    }
+    for (const edge of graph.edges) {
+      if (edge.from === current && !previous.has(edge.to)) {
+        previous.set(edge.to, current);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  return [];
+}
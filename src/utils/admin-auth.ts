@@ -0,0 +1,252 @@
+/**
+ * Admin Authentication & Role-Based Access
+ *
+ * Resolves the X-Admin-Key header to an admin identity and checks the
+ * permission each /admin route requires against the identity's roles.
+ *
+ * Identities:
+ * - ADMIN_IDENTITIES: named identities with roles, audited by their id
+ * - ADMIN_API_KEY: legacy shared key with every role, audited as admin@<ip>
+ * - ADMIN_API_KEY_READ: legacy shared read-only key (viewer)
+ *
+ * Roles are additive; an identity may hold several.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { config } from '../config/index.js';
+import { emit, log, hashIP } from './telemetry.js';
+
+export type AdminRole = 'viewer' | 'prompt-editor' | 'approver' | 'operator';
+
+/**
+ * Permission required by an admin route
+ */
+export type AdminPermission =
+  | 'read'               // List/get prompts, experiments, draft failures, output summaries
+  | 'prompts:edit'       // Create/update/version/rollback prompts, test cases, observations, prompt tests
+  | 'prompts:approve'    // Approve versions for production
+  | 'experiments:manage' // Start/end experiments
+  | 'llm-output:raw'     // Read raw LLM output (including unsafe capture)
+  | 'ops:manage'         // Draft-failure replay, LLM output pruning
+  | 'keys:manage';       // Create/update/disable/rotate managed API keys
+
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  viewer: ['read'],
+  'prompt-editor': ['read', 'prompts:edit'],
+  approver: ['read', 'prompts:approve'],
+  operator: ['read', 'experiments:manage', 'llm-output:raw', 'ops:manage', 'keys:manage'],
+};
+
+const ALL_ROLES: AdminRole[] = ['viewer', 'prompt-editor', 'approver', 'operator'];
+
+export interface AdminIdentity {
+  /** Identity name recorded as the audit actor (null for legacy shared keys) */
+  id: string | null;
+  roles: AdminRole[];
+}
+
+const AdminTelemetryEvents = {
+  AdminAuthFailed: 'admin.auth.failed',
+  AdminIPBlocked: 'admin.ip.blocked',
+} as const;
+
+// Identity resolved for a request, so audit helpers don't re-check the key
+const resolvedIdentities = new WeakMap<FastifyRequest, AdminIdentity>();
+
+/**
+ * Constant-time key comparison (hashing first equalises lengths)
+ */
+function keyMatches(provided: string, expected: string): boolean {
+  const a = createHash('sha256').update(provided).digest();
+  const b = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+function getAllowedIPs(): Set<string> | null {
+  const allowedIPsConfig = config.prompts?.adminAllowedIPs;
+  if (!allowedIPsConfig || allowedIPsConfig.trim() === '') {
+    return null; // No restriction
+  }
+
+  return new Set(
+    allowedIPsConfig
+      .split(',')
+      .map((ip) => ip.trim())
+      .filter((ip) => ip.length > 0)
+  );
+}
+
+/**
+ * Check if request IP is allowed
+ * Returns true if allowed, sends error response if blocked
+ */
+export function verifyAdminIPAllowed(request: FastifyRequest, reply: FastifyReply): boolean {
+  const allowedIPs = getAllowedIPs();
+  if (!allowedIPs) return true;
+
+  const requestIP = request.ip;
+  const isAllowed =
+    allowedIPs.has(requestIP) ||
+    (requestIP === '::1' && allowedIPs.has('127.0.0.1')) ||
+    (requestIP === '127.0.0.1' && allowedIPs.has('::1'));
+
+  if (!isAllowed) {
+    // Use hashed IP in telemetry/logs to avoid PII leakage
+    const ipHash = hashIP(requestIP);
+    emit(AdminTelemetryEvents.AdminIPBlocked, {
+      ip_hash: ipHash,
+      path: request.url,
+      allowedCount: allowedIPs.size,
+    });
+    log.warn({ ip_hash: ipHash, path: request.url }, 'Admin access blocked by IP allowlist');
+    reply.status(403).send({
+      error: 'ip_not_allowed',
+      message: 'Your IP address is not authorized for admin access',
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Whether any admin credential is configured
+ */
+export function isAdminAuthConfigured(): boolean {
+  return Boolean(
+    config.prompts?.adminApiKey ||
+    config.prompts?.adminApiKeyRead ||
+    config.prompts?.adminIdentities?.length
+  );
+}
+
+/**
+ * Resolve the X-Admin-Key header to an identity (null if missing or invalid)
+ */
+export function resolveAdminIdentity(request: FastifyRequest): AdminIdentity | null {
+  const cached = resolvedIdentities.get(request);
+  if (cached) return cached;
+
+  const providedKey = request.headers['x-admin-key'];
+  if (typeof providedKey !== 'string' || providedKey.length === 0) {
+    return null;
+  }
+
+  let identity: AdminIdentity | null = null;
+
+  const named = config.prompts?.adminIdentities?.find((entry) => keyMatches(providedKey, entry.key));
+  if (named) {
+    identity = { id: named.id, roles: named.roles };
+  } else if (config.prompts?.adminApiKey && keyMatches(providedKey, config.prompts.adminApiKey)) {
+    identity = { id: null, roles: ALL_ROLES };
+  } else if (config.prompts?.adminApiKeyRead && keyMatches(providedKey, config.prompts.adminApiKeyRead)) {
+    identity = { id: null, roles: ['viewer'] };
+  }
+
+  if (identity) {
+    resolvedIdentities.set(request, identity);
+  }
+  return identity;
+}
+
+/**
+ * Whether an identity's roles grant a permission
+ */
+export function hasAdminPermission(identity: AdminIdentity, permission: AdminPermission): boolean {
+  return identity.roles.some((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/**
+ * Verify the admin key and the route's permission
+ *
+ * @returns true if authorized, false if an error response was sent
+ */
+export function verifyAdminKey(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  requiredPermission: AdminPermission
+): boolean {
+  // First check IP allowlist
+  if (!verifyAdminIPAllowed(request, reply)) {
+    return false;
+  }
+
+  // At least one credential must be configured
+  if (!isAdminAuthConfigured()) {
+    log.warn('No admin API keys configured, admin routes disabled');
+    reply.status(503).send({
+      error: 'admin_not_configured',
+      message: 'Admin API is not configured',
+    });
+    return false;
+  }
+
+  if (!request.headers['x-admin-key']) {
+    emit(AdminTelemetryEvents.AdminAuthFailed, {
+      ip: request.ip,
+      path: request.url,
+      reason: 'missing_key',
+    });
+    reply.status(401).send({
+      error: 'unauthorized',
+      message: 'Missing admin API key',
+    });
+    return false;
+  }
+
+  const identity = resolveAdminIdentity(request);
+  if (!identity) {
+    emit(AdminTelemetryEvents.AdminAuthFailed, {
+      ip: request.ip,
+      path: request.url,
+      reason: 'invalid_key',
+    });
+    reply.status(401).send({
+      error: 'unauthorized',
+      message: 'Invalid admin API key',
+    });
+    return false;
+  }
+
+  if (!hasAdminPermission(identity, requiredPermission)) {
+    emit(AdminTelemetryEvents.AdminAuthFailed, {
+      ip: request.ip,
+      path: request.url,
+      reason: 'insufficient_permission',
+      admin_id: identity.id,
+      required_permission: requiredPermission,
+    });
+    reply.status(403).send({
+      error: 'forbidden',
+      message: `Admin roles [${identity.roles.join(', ')}] do not grant ${requiredPermission}`,
+      required_permission: requiredPermission,
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Audit actor for a request: the identity id, or admin@<ip> for legacy shared keys
+ */
+export function getAdminActor(request: FastifyRequest): string {
+  return resolveAdminIdentity(request)?.id ?? `admin@${request.ip}`;
+}
+
+/**
+ * Attribute a request body to the caller's named identity
+ *
+ * Named identities overwrite the free-text attribution field (createdBy,
+ * approvedBy, ...) so it cannot be spoofed; legacy shared keys keep the
+ * value the client sent.
+ */
+export function withAdminAttribution(request: FastifyRequest, field: string): unknown {
+  const id = resolveAdminIdentity(request)?.id;
+  const body = request.body;
+  if (!id || !body || typeof body !== 'object' || Array.isArray(body)) {
+    return body;
+  }
+  return { ...(body as Record<string, unknown>), [field]: id };
+}
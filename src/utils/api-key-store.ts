@@ -0,0 +1,378 @@
+/**
+ * Managed API Key Store
+ *
+ * API keys issued at runtime via /admin/v1/api-keys, so onboarding a
+ * customer or rotating a leaked key doesn't need a redeploy. Static keys
+ * from ASSIST_API_KEYS keep working alongside them.
+ *
+ * Dual-mode storage: Redis (multi-instance) when available, otherwise a
+ * local JSON file (API_KEY_STORE_PATH). Only SHA-256 hashes of secrets are
+ * stored; the secret is returned once, at creation or rotation.
+ *
+ * With Redis configured, managed keys require Redis: the file does not
+ * mirror Redis (a copy on one instance would go stale when another disables
+ * or rotates a key), so during an outage lookups fall back to a file that
+ * doesn't hold those keys and they are rejected. Static keys are unaffected.
+ *
+ * Key format: "<key_id>.<secret>", where key_id ("mk_" + 12 hex) is stable
+ * across rotations and is what quotas, budgets and telemetry are keyed by.
+ * A key holds one or more secrets, each with its own validity window, so
+ * the previous secret keeps working for API_KEY_ROTATION_OVERLAP_HOURS
+ * after a rotation.
+ *
+ * Redis key patterns:
+ * - apikey:{key_id} - Key record (JSON)
+ * - apikey:{key_id}:last_used - Epoch ms of the last use (kept apart so
+ *   usage writes never race admin updates to the record)
+ * - apikey:index - Set of key IDs
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { getRedis } from "../platform/redis.js";
+import { log } from "./telemetry.js";
+import { config } from "../config/index.js";
+
+export interface ManagedKeySecret {
+  /** SHA-256 of the full key (hex) */
+  hash: string;
+  /** Last 4 characters, for recognising a key in listings */
+  hint: string;
+  created_at: number;
+  /** null until the secret is rotated out */
+  expires_at: number | null;
+}
+
+export interface ManagedApiKey {
+  key_id: string;
+  name: string;
+  status: "active" | "disabled";
+  created_at: number;
+  updated_at: number;
+  disabled_at?: number;
+  secrets: ManagedKeySecret[];
+  /** Per-key overrides of RATE_LIMIT_RPM / SSE_RATE_LIMIT_RPM */
+  rate_limit_rpm?: number;
+  sse_rate_limit_rpm?: number;
+  /** Granted scopes (see scopes.ts); unrestricted when unset */
+  scopes?: string[];
+  tenant?: string;
+  /** Updated at most once a minute */
+  last_used_at?: number;
+}
+
+export interface ManagedKeyInput {
+  name: string;
+  rate_limit_rpm?: number | null;
+  sse_rate_limit_rpm?: number | null;
+  scopes?: string[] | null;
+  tenant?: string | null;
+}
+
+const KEY_ID_PATTERN = /^mk_[a-f0-9]{12}$/;
+const LAST_USED_WRITE_INTERVAL_MS = 60_000;
+
+// Local store (file-backed) and last-used write throttle
+let localKeys: Map<string, ManagedApiKey> | null = null;
+const lastUsedWrites = new Map<string, number>();
+
+function getRecordKey(keyId: string): string {
+  return `apikey:${keyId}`;
+}
+
+function getLastUsedKey(keyId: string): string {
+  return `apikey:${keyId}:last_used`;
+}
+
+function parseRecord(raw: string, lastUsed: string | null): ManagedApiKey {
+  const record = JSON.parse(raw) as ManagedApiKey;
+  if (lastUsed) record.last_used_at = Number(lastUsed);
+  return record;
+}
+
+const INDEX_KEY = "apikey:index";
+
+/**
+ * SHA-256 of a presented key (hex)
+ */
+export function hashManagedKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Key ID of a managed key, or null if the string isn't one
+ */
+export function parseManagedKeyId(key: string): string | null {
+  const keyId = key.split(".")[0];
+  return KEY_ID_PATTERN.test(keyId) && key.length > keyId.length + 1 ? keyId : null;
+}
+
+function newSecret(keyId: string, now: number): { key: string; secret: ManagedKeySecret } {
+  const key = `${keyId}.${randomBytes(24).toString("base64url")}`;
+  return {
+    key,
+    secret: { hash: hashManagedKey(key), hint: key.slice(-4), created_at: now, expires_at: null },
+  };
+}
+
+async function loadLocalKeys(): Promise<Map<string, ManagedApiKey>> {
+  if (localKeys) return localKeys;
+
+  const keys = new Map<string, ManagedApiKey>();
+  try {
+    const records = JSON.parse(await readFile(config.apiKeys.storePath, "utf-8")) as ManagedApiKey[];
+    for (const record of records) {
+      keys.set(record.key_id, record);
+    }
+  } catch (error) {
+    if ((error as { code?: string }).code !== "ENOENT") {
+      log.error({ error, path: config.apiKeys.storePath }, "Failed to read API key store");
+    }
+  }
+
+  localKeys = keys;
+  return keys;
+}
+
+async function saveLocalKeys(keys: Map<string, ManagedApiKey>): Promise<void> {
+  const path = config.apiKeys.storePath;
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify([...keys.values()], null, 2), { encoding: "utf-8", mode: 0o600 });
+}
+
+async function readRecord(keyId: string): Promise<ManagedApiKey | null> {
+  const redis = await getRedis();
+
+  if (redis) {
+    try {
+      const [raw, lastUsed] = await redis.mget(getRecordKey(keyId), getLastUsedKey(keyId));
+      return raw ? parseRecord(raw, lastUsed) : null;
+    } catch (error) {
+      // The local store doesn't mirror Redis, so Redis-issued keys fail closed here
+      log.error({ error, key_id: keyId }, "Redis API key read failed, checking local store");
+    }
+  }
+
+  return (await loadLocalKeys()).get(keyId) ?? null;
+}
+
+async function writeRecord(record: ManagedApiKey): Promise<void> {
+  const redis = await getRedis();
+
+  if (redis) {
+    try {
+      const { last_used_at: _lastUsed, ...stored } = record;
+      await redis.set(getRecordKey(record.key_id), JSON.stringify(stored));
+      await redis.sadd(INDEX_KEY, record.key_id);
+      return;
+    } catch (error) {
+      log.error({ error, key_id: record.key_id }, "Redis API key write failed, using local store");
+    }
+  }
+
+  const keys = await loadLocalKeys();
+  keys.set(record.key_id, record);
+  await saveLocalKeys(keys);
+}
+
+function applyInput(record: ManagedApiKey, input: Partial<ManagedKeyInput>): void {
+  if (input.name !== undefined) record.name = input.name;
+  // null clears an override
+  if (input.rate_limit_rpm !== undefined) record.rate_limit_rpm = input.rate_limit_rpm ?? undefined;
+  if (input.sse_rate_limit_rpm !== undefined) record.sse_rate_limit_rpm = input.sse_rate_limit_rpm ?? undefined;
+  if (input.scopes !== undefined) record.scopes = input.scopes ?? undefined;
+  if (input.tenant !== undefined) record.tenant = input.tenant ?? undefined;
+}
+
+/**
+ * Issue a new key. The returned key is not stored and cannot be recovered.
+ */
+export async function createManagedKey(input: ManagedKeyInput): Promise<{ record: ManagedApiKey; key: string }> {
+  const now = Date.now();
+  const keyId = `mk_${randomBytes(6).toString("hex")}`;
+  const { key, secret } = newSecret(keyId, now);
+
+  const record: ManagedApiKey = {
+    key_id: keyId,
+    name: input.name,
+    status: "active",
+    created_at: now,
+    updated_at: now,
+    secrets: [secret],
+  };
+  applyInput(record, input);
+
+  await writeRecord(record);
+  log.info({ key_id: keyId }, "Managed API key created");
+  return { record, key };
+}
+
+/**
+ * Get a key record by ID
+ */
+export async function getManagedKey(keyId: string): Promise<ManagedApiKey | null> {
+  return KEY_ID_PATTERN.test(keyId) ? readRecord(keyId) : null;
+}
+
+/**
+ * All key records, newest first
+ */
+export async function listManagedKeys(): Promise<ManagedApiKey[]> {
+  const redis = await getRedis();
+  let records: ManagedApiKey[] | null = null;
+
+  if (redis) {
+    try {
+      const ids = await redis.smembers(INDEX_KEY);
+      records = [];
+      for (const id of ids) {
+        const [raw, lastUsed] = await redis.mget(getRecordKey(id), getLastUsedKey(id));
+        if (raw) records.push(parseRecord(raw, lastUsed));
+      }
+    } catch (error) {
+      log.error({ error }, "Redis API key list failed, using local store");
+    }
+  }
+
+  records ??= [...(await loadLocalKeys()).values()];
+  return records.sort((a, b) => b.created_at - a.created_at);
+}
+
+/**
+ * Update name, limit overrides, scopes or tenant
+ */
+export async function updateManagedKey(keyId: string, input: Partial<ManagedKeyInput>): Promise<ManagedApiKey | null> {
+  const record = await getManagedKey(keyId);
+  if (!record) return null;
+
+  applyInput(record, input);
+  record.updated_at = Date.now();
+  await writeRecord(record);
+  return record;
+}
+
+/**
+ * Disable a key; all of its secrets stop working immediately
+ */
+export async function disableManagedKey(keyId: string): Promise<ManagedApiKey | null> {
+  const record = await getManagedKey(keyId);
+  if (!record) return null;
+
+  if (record.status !== "disabled") {
+    const now = Date.now();
+    record.status = "disabled";
+    record.disabled_at = now;
+    record.updated_at = now;
+    await writeRecord(record);
+    log.info({ key_id: keyId }, "Managed API key disabled");
+  }
+  return record;
+}
+
+/**
+ * Issue a new secret for a key. Current secrets stay valid for
+ * `overlapHours` (0 revokes them now); already-expired ones are dropped.
+ */
+export async function rotateManagedKey(
+  keyId: string,
+  overlapHours: number = config.apiKeys.rotationOverlapHours
+): Promise<{ record: ManagedApiKey; key: string } | null> {
+  const record = await getManagedKey(keyId);
+  if (!record || record.status === "disabled") return null;
+
+  const now = Date.now();
+  const overlapEnd = now + overlapHours * 3_600_000;
+  const { key, secret } = newSecret(keyId, now);
+
+  record.secrets = [
+    ...record.secrets
+      .filter((s) => s.expires_at === null || s.expires_at > now)
+      .map((s) => ({ ...s, expires_at: Math.min(s.expires_at ?? overlapEnd, overlapEnd) })),
+    secret,
+  ];
+  record.updated_at = now;
+
+  await writeRecord(record);
+  log.info({ key_id: keyId, overlap_hours: overlapHours }, "Managed API key rotated");
+  return { record, key };
+}
+
+/**
+ * Resolve a presented key to its active record, or null if unknown,
+ * disabled, or presented with a secret outside its validity window
+ */
+export async function verifyManagedKey(key: string, now: number = Date.now()): Promise<ManagedApiKey | null> {
+  const keyId = parseManagedKeyId(key);
+  if (!keyId) return null;
+
+  const record = await readRecord(keyId);
+  if (!record || record.status !== "active") return null;
+
+  const presented = Buffer.from(hashManagedKey(key), "hex");
+  const valid = record.secrets.some((secret) =>
+    (secret.expires_at === null || secret.expires_at > now) &&
+    timingSafeEqual(presented, Buffer.from(secret.hash, "hex"))
+  );
+
+  return valid ? record : null;
+}
+
+/**
+ * Record that a key was used (throttled to one write a minute per key)
+ */
+export async function touchManagedKey(record: ManagedApiKey, now: number = Date.now()): Promise<void> {
+  const lastWrite = lastUsedWrites.get(record.key_id) ?? 0;
+  if (now - lastWrite < LAST_USED_WRITE_INTERVAL_MS) return;
+
+  lastUsedWrites.set(record.key_id, now);
+  try {
+    const redis = await getRedis();
+    if (redis) {
+      await redis.set(getLastUsedKey(record.key_id), String(now));
+      return;
+    }
+
+    const keys = await loadLocalKeys();
+    const current = keys.get(record.key_id);
+    if (!current) return;
+    current.last_used_at = now;
+    await saveLocalKeys(keys);
+  } catch (error) {
+    log.warn({ error, key_id: record.key_id }, "Failed to record API key last use");
+  }
+}
+
+/**
+ * Public view of a key (never includes hashes)
+ */
+export function toManagedKeySummary(record: ManagedApiKey, now: number = Date.now()) {
+  return {
+    key_id: record.key_id,
+    name: record.name,
+    status: record.status,
+    created_at: new Date(record.created_at).toISOString(),
+    updated_at: new Date(record.updated_at).toISOString(),
+    disabled_at: record.disabled_at ? new Date(record.disabled_at).toISOString() : null,
+    last_used_at: record.last_used_at ? new Date(record.last_used_at).toISOString() : null,
+    rate_limit_rpm: record.rate_limit_rpm ?? null,
+    sse_rate_limit_rpm: record.sse_rate_limit_rpm ?? null,
+    scopes: record.scopes ?? null,
+    tenant: record.tenant ?? null,
+    secrets: record.secrets
+      .filter((s) => s.expires_at === null || s.expires_at > now)
+      .map((s) => ({
+        hint: s.hint,
+        created_at: new Date(s.created_at).toISOString(),
+        expires_at: s.expires_at ? new Date(s.expires_at).toISOString() : null,
+      })),
+  };
+}
+
+/**
+ * Forget the cached local store (for testing)
+ */
+export function resetManagedKeyStore(): void {
+  localKeys = null;
+  lastUsedWrites.clear();
+}
@@ -0,0 +1,379 @@
+/**
+ * Per-Key LLM Spend Budgets - Dual-mode (Redis + Memory fallback)
+ *
+ * Tracks LLM spend in USD per API key ID over UTC calendar days and months,
+ * priced from the UsageMetrics every adapter call returns (see
+ * adapters/llm/spend.ts). Complements utils/quota.ts, which limits request
+ * counts rather than spend.
+ *
+ * Budget states (highest usage ratio across configured periods):
+ * - ok: below softLimitRatio
+ * - soft_limit: warning headers on every response
+ * - downgrade: non-QUALITY_REQUIRED_TASKS are routed to fast-tier models
+ * - exhausted: requests are rejected with 402 until the period resets
+ *
+ * Environment:
+ * - BUDGETS_ENABLED: Enable spend tracking and enforcement (default: false)
+ * - BUDGET_DAILY_USD / BUDGET_MONTHLY_USD: Default limits per key (unset = unlimited)
+ * - BUDGET_SOFT_LIMIT_RATIO: Warning threshold (default: 0.8)
+ * - BUDGET_DOWNGRADE_RATIO: Fast-tier downgrade threshold (default: 0.9)
+ * - BUDGET_KEY_OVERRIDES: JSON map of key ID → { dailyUsd, monthlyUsd }
+ * - REDIS_BUDGET_ENABLED: Use Redis backend (default: false, requires REDIS_URL)
+ *
+ * Redis key patterns:
+ * - sb:{keyId}:d:{YYYY-MM-DD} - Daily spend (USD, float)
+ * - sb:{keyId}:m:{YYYY-MM} - Monthly spend (USD, float)
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { getRedis } from "../platform/redis.js";
+import { log, emit, TelemetryEvents } from "./telemetry.js";
+import { config } from "../config/index.js";
+
+export type BudgetPeriod = "daily" | "monthly";
+
+export type BudgetState = "ok" | "soft_limit" | "downgrade" | "exhausted";
+
+/**
+ * Spend against a single period
+ */
+export interface BudgetPeriodStatus {
+  /** Configured limit (null = unlimited) */
+  limit_usd: number | null;
+  spent_usd: number;
+  /** Remaining budget (null = unlimited) */
+  remaining_usd: number | null;
+  /** spent / limit (null = unlimited) */
+  used_ratio: number | null;
+  /** Start of the next period (ISO 8601, UTC) */
+  resets_at: string;
+}
+
+/**
+ * Budget status for a key (exposed by /v1/limits)
+ */
+export interface BudgetStatus {
+  key_id: string;
+  backend: "redis" | "memory";
+  state: BudgetState;
+  /** Period that determines the state (null when no limits apply) */
+  limiting_period: BudgetPeriod | null;
+  daily: BudgetPeriodStatus;
+  monthly: BudgetPeriodStatus;
+}
+
+/**
+ * Per-request budget scope (propagated to adapters via AsyncLocalStorage)
+ */
+export interface BudgetScope {
+  keyId: string;
+  /** Status when the request started */
+  status: BudgetStatus;
+  /** Spend recorded by this request so far */
+  spentUsd: number;
+  /** Tasks routed to fast-tier models because of the budget */
+  downgradedTasks: string[];
+}
+
+interface SpendTotals {
+  daily: number;
+  monthly: number;
+  backend: "redis" | "memory";
+}
+
+interface MemorySpend {
+  day: string;
+  dailyUsd: number;
+  month: string;
+  monthlyUsd: number;
+}
+
+const DAILY_TTL_SECONDS = 2 * 24 * 3600;
+const MONTHLY_TTL_SECONDS = 32 * 24 * 3600;
+
+// In-memory fallback storage (keyed by key ID)
+const memorySpend = new Map<string, MemorySpend>();
+
+const scopeStorage = new AsyncLocalStorage<BudgetScope>();
+
+/**
+ * Whether spend budgets are enabled (BUDGETS_ENABLED)
+ */
+export function isBudgetEnforcementEnabled(): boolean {
+  return config.budgets.enabled;
+}
+
+/**
+ * Limits for a key: per-key overrides take precedence over defaults
+ */
+export function getBudgetLimits(keyId: string): { dailyUsd?: number; monthlyUsd?: number } {
+  const budgets = config.budgets;
+  const override = budgets.keyOverrides?.[keyId];
+  return {
+    dailyUsd: override?.dailyUsd ?? budgets.dailyUsd,
+    monthlyUsd: override?.monthlyUsd ?? budgets.monthlyUsd,
+  };
+}
+
+function dayKey(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function monthKey(now: Date): string {
+  return now.toISOString().slice(0, 7);
+}
+
+function nextDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+function nextMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function getSpendKey(keyId: string, period: BudgetPeriod, now: Date): string {
+  return period === "daily" ? `sb:${keyId}:d:${dayKey(now)}` : `sb:${keyId}:m:${monthKey(now)}`;
+}
+
+/**
+ * Current-period memory entry for a key (resets when a period rolls over)
+ */
+function getMemorySpend(keyId: string, now: Date): MemorySpend {
+  const day = dayKey(now);
+  const month = monthKey(now);
+  let entry = memorySpend.get(keyId);
+
+  if (!entry) {
+    entry = { day, dailyUsd: 0, month, monthlyUsd: 0 };
+    memorySpend.set(keyId, entry);
+  }
+  if (entry.day !== day) {
+    entry.day = day;
+    entry.dailyUsd = 0;
+  }
+  if (entry.month !== month) {
+    entry.month = month;
+    entry.monthlyUsd = 0;
+  }
+  return entry;
+}
+
+/**
+ * Read spend totals for a key (dual-mode: Redis + memory fallback)
+ */
+async function getSpendTotals(keyId: string, now: Date): Promise<SpendTotals> {
+  if (config.redis.budgetEnabled) {
+    const redis = await getRedis();
+
+    if (redis) {
+      try {
+        const [daily, monthly] = await redis.mget(
+          getSpendKey(keyId, "daily", now),
+          getSpendKey(keyId, "monthly", now)
+        );
+        return {
+          daily: Number(daily ?? 0),
+          monthly: Number(monthly ?? 0),
+          backend: "redis",
+        };
+      } catch (error) {
+        log.warn({ error, key_id: keyId }, "Redis budget fetch failed, using memory fallback");
+      }
+    }
+  }
+
+  const entry = getMemorySpend(keyId, now);
+  return { daily: entry.dailyUsd, monthly: entry.monthlyUsd, backend: "memory" };
+}
+
+/**
+ * Record LLM spend against a key's daily and monthly budgets
+ */
+export async function recordSpend(keyId: string, costUsd: number, now: Date = new Date()): Promise<void> {
+  if (!Number.isFinite(costUsd) || costUsd <= 0) return;
+
+  if (config.redis.budgetEnabled) {
+    const redis = await getRedis();
+
+    if (redis) {
+      try {
+        const dailyKey = getSpendKey(keyId, "daily", now);
+        const monthlyKey = getSpendKey(keyId, "monthly", now);
+        await redis
+          .multi()
+          .incrbyfloat(dailyKey, costUsd)
+          .expire(dailyKey, DAILY_TTL_SECONDS)
+          .incrbyfloat(monthlyKey, costUsd)
+          .expire(monthlyKey, MONTHLY_TTL_SECONDS)
+          .exec();
+        return;
+      } catch (error) {
+        log.warn({ error, key_id: keyId }, "Redis budget update failed, using memory fallback");
+      }
+    }
+  }
+
+  const entry = getMemorySpend(keyId, now);
+  entry.dailyUsd += costUsd;
+  entry.monthlyUsd += costUsd;
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function periodStatus(limit: number | undefined, spent: number, resetsAt: Date): BudgetPeriodStatus {
+  return {
+    limit_usd: limit ?? null,
+    spent_usd: roundUsd(spent),
+    remaining_usd: limit !== undefined ? roundUsd(Math.max(0, limit - spent)) : null,
+    used_ratio: limit !== undefined ? roundUsd(spent / limit) : null,
+    resets_at: resetsAt.toISOString(),
+  };
+}
+
+/**
+ * Build a status from spend totals (pure - no I/O)
+ */
+export function buildBudgetStatus(
+  keyId: string,
+  spend: SpendTotals,
+  now: Date = new Date()
+): BudgetStatus {
+  const limits = getBudgetLimits(keyId);
+  const { softLimitRatio, downgradeRatio } = config.budgets;
+
+  const daily = periodStatus(limits.dailyUsd, spend.daily, nextDay(now));
+  const monthly = periodStatus(limits.monthlyUsd, spend.monthly, nextMonth(now));
+
+  let limitingPeriod: BudgetPeriod | null = null;
+  let ratio = 0;
+  if (daily.used_ratio !== null && daily.used_ratio >= ratio) {
+    limitingPeriod = "daily";
+    ratio = daily.used_ratio;
+  }
+  if (monthly.used_ratio !== null && monthly.used_ratio >= ratio) {
+    limitingPeriod = "monthly";
+    ratio = monthly.used_ratio;
+  }
+
+  const state: BudgetState =
+    ratio >= 1 ? "exhausted" :
+    ratio >= downgradeRatio ? "downgrade" :
+    ratio >= softLimitRatio ? "soft_limit" :
+    "ok";
+
+  return {
+    key_id: keyId,
+    backend: spend.backend,
+    state,
+    limiting_period: limitingPeriod,
+    daily,
+    monthly,
+  };
+}
+
+/**
+ * Current budget status for a key
+ */
+export async function getBudgetStatus(keyId: string, now: Date = new Date()): Promise<BudgetStatus> {
+  return buildBudgetStatus(keyId, await getSpendTotals(keyId, now), now);
+}
+
+/**
+ * Run fn with a budget scope so adapter calls are attributed to the key
+ */
+export function runWithBudgetScope<T>(scope: BudgetScope, fn: () => T): T {
+  return scopeStorage.run(scope, fn);
+}
+
+/**
+ * Budget scope of the current request (undefined outside authenticated requests)
+ */
+export function getBudgetScope(): BudgetScope | undefined {
+  return scopeStorage.getStore();
+}
+
+/**
+ * Status including spend recorded by the current request so far
+ */
+export function getScopeStatus(scope: BudgetScope, now: Date = new Date()): BudgetStatus {
+  return buildBudgetStatus(
+    scope.keyId,
+    {
+      daily: scope.status.daily.spent_usd + scope.spentUsd,
+      monthly: scope.status.monthly.spent_usd + scope.spentUsd,
+      backend: scope.status.backend,
+    },
+    now
+  );
+}
+
+/**
+ * Attribute an adapter call's cost to the current request's key
+ */
+export async function recordScopedSpend(costUsd: number, meta: { provider: string; model: string }): Promise<void> {
+  const scope = getBudgetScope();
+  if (!scope || !Number.isFinite(costUsd) || costUsd <= 0) return;
+
+  const before = getScopeStatus(scope).state;
+  scope.spentUsd += costUsd;
+  await recordSpend(scope.keyId, costUsd);
+  const after = getScopeStatus(scope);
+
+  if (after.state !== before) {
+    emit(TelemetryEvents.BudgetThresholdCrossed, {
+      key_id: scope.keyId,
+      from_state: before,
+      to_state: after.state,
+      period: after.limiting_period,
+      provider: meta.provider,
+      model: meta.model,
+    });
+  }
+}
+
+/**
+ * Whether the current request should be routed to fast-tier models
+ */
+export function shouldDowngradeForBudget(): boolean {
+  const scope = getBudgetScope();
+  if (!scope) return false;
+  const state = getScopeStatus(scope).state;
+  return state === "downgrade" || state === "exhausted";
+}
+
+/**
+ * Response headers describing budget state
+ */
+export function getBudgetHeaders(status: BudgetStatus, downgradedTasks: string[] = []): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-Budget-State": status.state,
+  };
+
+  if (status.daily.remaining_usd !== null) {
+    headers["X-Budget-Daily-Remaining-USD"] = status.daily.remaining_usd.toFixed(4);
+  }
+  if (status.monthly.remaining_usd !== null) {
+    headers["X-Budget-Monthly-Remaining-USD"] = status.monthly.remaining_usd.toFixed(4);
+  }
+
+  if (status.state !== "ok" && status.limiting_period) {
+    const period = status[status.limiting_period];
+    const percent = Math.round((period.used_ratio ?? 0) * 100);
+    headers["X-Budget-Warning"] = `${status.limiting_period} LLM budget ${percent}% used (resets ${period.resets_at})`;
+  }
+
+  if (downgradedTasks.length > 0) {
+    headers["X-Budget-Downgraded"] = [...new Set(downgradedTasks)].join(",");
+  }
+
+  return headers;
+}
+
+/**
+ * Clear all tracked spend (for testing)
+ */
+export function resetBudgets(): void {
+  memorySpend.clear();
+}
@@ -55,8 +55,8 @@ export function getEventPriorityFromParsed(
     return EventPriority.CRITICAL;
   }
 
-  // Resume tokens are critical
-  if (eventType === "resume") {
+  // Resume tokens and terminal events of non-stage streams (e.g. ask) are critical
+  if (eventType === "resume" || eventType === "complete" || eventType === "error") {
     return EventPriority.CRITICAL;
   }
 
@@ -100,11 +100,13 @@ export function getEventPriority(event: {
  * Returns null if the event should not be trimmed (critical/graph events)
  */
 function trimParsedPayload(data: Record<string, unknown>): Record<string, unknown> | null {
-  // Don't trim critical events or any event that already includes a full graph payload.
-  // This keeps resumable streams lossless for graph-carrying events while still
-  // allowing trimming for lightweight progress/telemetry stages.
+  // Don't trim critical events, non-stage events (e.g. ask stream deltas and items)
+  // or any event that already includes a full graph payload. This keeps resumable
+  // streams lossless for graph-carrying events while still allowing trimming for
+  // lightweight progress/telemetry stages.
   const payload = data.payload as Record<string, unknown> | undefined;
   if (
+    data.stage === undefined ||
     data.stage === "COMPLETE" ||
     data.stage === "ERROR" ||
     (payload && payload.graph)
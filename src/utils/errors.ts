@@ -6,7 +6,7 @@ import { redactLogMessage } from './redaction.js';
 /**
  * Error codes for structured error responses
  */
-export type ErrorCode = 'BAD_INPUT' | 'UNAUTHENTICATED' | 'FORBIDDEN' | 'NOT_FOUND' | 'RATE_LIMITED' | 'INTERNAL';
+export type ErrorCode = 'BAD_INPUT' | 'UNAUTHENTICATED' | 'FORBIDDEN' | 'NOT_FOUND' | 'RATE_LIMITED' | 'BUDGET_EXCEEDED' | 'INTERNAL';
 
 /**
  * Structured error response (error.v1 schema)
@@ -0,0 +1,104 @@
+/**
+ * Graph Patch Diff
+ *
+ * Computes the patch between two graph versions in the explain-diff patch
+ * format ({ adds: { nodes, edges }, updates, removes }), so a diff can be
+ * posted straight to /assist/explain-diff for rationales.
+ *
+ * Nodes are matched by id and edges by "from->to" (the same identity the
+ * clarifier uses). Updates list each changed field with its old and new
+ * value. Output order follows the graphs, so the same pair of versions
+ * always yields the same patch.
+ */
+
+import type { GraphT, NodeT, EdgeT } from "../schemas/graph.js";
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type GraphPatchUpdate =
+  | { type: "node"; id: string; changes: Record<string, FieldChange> }
+  | { type: "edge"; from: string; to: string; changes: Record<string, FieldChange> };
+
+export type GraphPatchRemove =
+  | { type: "node"; id: string }
+  | { type: "edge"; from: string; to: string };
+
+export interface GraphPatch {
+  adds: { nodes: NodeT[]; edges: EdgeT[] };
+  updates: GraphPatchUpdate[];
+  removes: GraphPatchRemove[];
+}
+
+function edgeKey(edge: EdgeT): string {
+  return `${edge.from}->${edge.to}`;
+}
+
+/**
+ * Changed fields between two objects (id/from/to are identity, not changes)
+ */
+function fieldChanges(before: Record<string, unknown>, after: Record<string, unknown>): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+  for (const key of keys) {
+    if (key === "id" || key === "from" || key === "to") continue;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = { from: before[key], to: after[key] };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Patch that turns `before` into `after`
+ */
+export function diffGraphs(before: GraphT, after: GraphT): GraphPatch {
+  const patch: GraphPatch = { adds: { nodes: [], edges: [] }, updates: [], removes: [] };
+
+  const beforeNodes = new Map(before.nodes.map((n) => [n.id, n]));
+  const afterNodeIds = new Set(after.nodes.map((n) => n.id));
+
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) {
+      patch.adds.nodes.push(node);
+      continue;
+    }
+    const changes = fieldChanges(previous, node);
+    if (Object.keys(changes).length > 0) {
+      patch.updates.push({ type: "node", id: node.id, changes });
+    }
+  }
+
+  const beforeEdges = new Map(before.edges.map((e) => [edgeKey(e), e]));
+  const afterEdgeKeys = new Set(after.edges.map(edgeKey));
+
+  for (const edge of after.edges) {
+    const previous = beforeEdges.get(edgeKey(edge));
+    if (!previous) {
+      patch.adds.edges.push(edge);
+      continue;
+    }
+    const changes = fieldChanges(previous, edge);
+    if (Object.keys(changes).length > 0) {
+      patch.updates.push({ type: "edge", from: edge.from, to: edge.to, changes });
+    }
+  }
+
+  for (const node of before.nodes) {
+    if (!afterNodeIds.has(node.id)) {
+      patch.removes.push({ type: "node", id: node.id });
+    }
+  }
+  for (const edge of before.edges) {
+    if (!afterEdgeKeys.has(edgeKey(edge))) {
+      patch.removes.push({ type: "edge", from: edge.from, to: edge.to });
+    }
+  }
+
+  return patch;
+}
@@ -0,0 +1,228 @@
+/**
+ * End-User JWT Verification
+ *
+ * Verifies bearer JWTs issued by the identity provider against a locally
+ * configured JWKS file, so no network call is made on the request path.
+ *
+ * Supports:
+ * - RS256/384/512, PS256/384/512, ES256/384/512 and EdDSA signatures
+ * - Key selection by "kid" (a JWKS with a single key may omit it)
+ * - iss/aud checks when AUTH_JWT_ISSUER / AUTH_JWT_AUDIENCE are set
+ * - exp/nbf checks with AUTH_JWT_CLOCK_SKEW_SEC tolerance; "exp" is required
+ *
+ * Symmetric (HS*) and unsigned ("none") tokens are always rejected.
+ *
+ * Environment:
+ * - AUTH_JWKS_PATH: Path to the JWKS file (enables JWT auth)
+ * - AUTH_JWT_TENANT_CLAIM: Claim holding the tenant (default: tenant_id)
+ */
+
+import { readFileSync, statSync } from "node:fs";
+import { constants, createPublicKey, verify, type KeyObject, type JsonWebKey } from "node:crypto";
+import { config } from "../config/index.js";
+import { log } from "./telemetry.js";
+import { parseScopeClaim } from "./scopes.js";
+
+export type JwtVerifyError =
+  | "NO_JWKS"
+  | "MALFORMED"
+  | "UNSUPPORTED_ALG"
+  | "UNKNOWN_KID"
+  | "INVALID_SIGNATURE"
+  | "MISSING_EXPIRY"
+  | "EXPIRED"
+  | "NOT_YET_VALID"
+  | "INVALID_ISSUER"
+  | "INVALID_AUDIENCE"
+  | "MISSING_SUBJECT";
+
+export interface VerifiedJwt {
+  /** "sub" claim */
+  subject: string;
+  /** Tenant from the configured claim, if present */
+  tenant?: string;
+  /** Scopes from "scope" (space-separated) or "scp" (array) */
+  scopes: string[];
+  /** Expiry (Unix seconds) */
+  expiresAt: number;
+}
+
+interface AlgSpec {
+  hash: string | null;
+  keyTypes: string[];
+  options?: { padding?: number; saltLength?: number; dsaEncoding?: "ieee-p1363" };
+}
+
+const PSS = { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST };
+const P1363 = { dsaEncoding: "ieee-p1363" as const };
+
+const ALGORITHMS: Record<string, AlgSpec> = {
+  RS256: { hash: "sha256", keyTypes: ["rsa"] },
+  RS384: { hash: "sha384", keyTypes: ["rsa"] },
+  RS512: { hash: "sha512", keyTypes: ["rsa"] },
+  PS256: { hash: "sha256", keyTypes: ["rsa", "rsa-pss"], options: PSS },
+  PS384: { hash: "sha384", keyTypes: ["rsa", "rsa-pss"], options: PSS },
+  PS512: { hash: "sha512", keyTypes: ["rsa", "rsa-pss"], options: PSS },
+  ES256: { hash: "sha256", keyTypes: ["ec"], options: P1363 },
+  ES384: { hash: "sha384", keyTypes: ["ec"], options: P1363 },
+  ES512: { hash: "sha512", keyTypes: ["ec"], options: P1363 },
+  EdDSA: { hash: null, keyTypes: ["ed25519", "ed448"] },
+};
+
+interface LoadedKey {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+// JWKS cache, reloaded when the file's path or mtime changes (key rotation)
+let jwksCache: { path: string; mtimeMs: number; keys: LoadedKey[] } | null = null;
+
+function loadJwks(path: string): LoadedKey[] {
+  const mtimeMs = statSync(path).mtimeMs;
+  if (jwksCache && jwksCache.path === path && jwksCache.mtimeMs === mtimeMs) {
+    return jwksCache.keys;
+  }
+
+  const parsed = JSON.parse(readFileSync(path, "utf8")) as { keys?: JsonWebKey[] };
+  const keys: LoadedKey[] = [];
+
+  for (const jwk of parsed.keys ?? []) {
+    if (jwk.use === "enc") continue;
+    try {
+      keys.push({
+        kid: typeof jwk.kid === "string" ? jwk.kid : undefined,
+        alg: typeof jwk.alg === "string" ? jwk.alg : undefined,
+        key: createPublicKey({ key: jwk, format: "jwk" }),
+      });
+    } catch (error) {
+      log.warn({ kid: jwk.kid, error: String(error) }, "Skipping unusable JWKS key");
+    }
+  }
+
+  jwksCache = { path, mtimeMs, keys };
+  log.info({ count: keys.length }, "JWKS loaded");
+  return keys;
+}
+
+/**
+ * Whether JWT auth is configured
+ */
+export function isJwtAuthEnabled(): boolean {
+  return Boolean(config.auth.jwksPath);
+}
+
+/**
+ * Cheap shape check so opaque API keys are not parsed as JWTs
+ */
+export function looksLikeJwt(token: string): boolean {
+  return /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(token);
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as unknown;
+    return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a compact JWS against the configured JWKS
+ */
+export function verifyJwt(
+  token: string,
+  nowMs: number = Date.now()
+): { valid: true; jwt: VerifiedJwt } | { valid: false; error: JwtVerifyError } {
+  const jwksPath = config.auth.jwksPath;
+  if (!jwksPath) {
+    return { valid: false, error: "NO_JWKS" };
+  }
+
+  const [headerSegment, payloadSegment, signatureSegment] = token.split(".");
+  const header = headerSegment ? decodeSegment(headerSegment) : null;
+  const claims = payloadSegment ? decodeSegment(payloadSegment) : null;
+  if (!header || !claims || !signatureSegment) {
+    return { valid: false, error: "MALFORMED" };
+  }
+
+  const alg = typeof header.alg === "string" ? header.alg : "";
+  const spec = ALGORITHMS[alg];
+  if (!spec) {
+    return { valid: false, error: "UNSUPPORTED_ALG" };
+  }
+
+  let keys: LoadedKey[];
+  try {
+    keys = loadJwks(jwksPath);
+  } catch (error) {
+    log.error({ path: jwksPath, error: String(error) }, "Failed to load JWKS");
+    return { valid: false, error: "NO_JWKS" };
+  }
+
+  const kid = typeof header.kid === "string" ? header.kid : undefined;
+  const candidates = keys.filter((k) =>
+    (kid ? k.kid === kid : keys.length === 1) &&
+    (!k.alg || k.alg === alg) &&
+    spec.keyTypes.includes(k.key.asymmetricKeyType ?? "")
+  );
+  if (candidates.length === 0) {
+    return { valid: false, error: "UNKNOWN_KID" };
+  }
+
+  const signingInput = Buffer.from(`${headerSegment}.${payloadSegment}`);
+  const signature = Buffer.from(signatureSegment, "base64url");
+  const verified = candidates.some((candidate) => {
+    try {
+      return verify(spec.hash, signingInput, { key: candidate.key, ...spec.options }, signature);
+    } catch {
+      return false;
+    }
+  });
+  if (!verified) {
+    return { valid: false, error: "INVALID_SIGNATURE" };
+  }
+
+  // Registered claims
+  const nowSec = Math.floor(nowMs / 1000);
+  const skew = config.auth.jwtClockSkewSec;
+
+  // Tokens without an expiry would stay valid forever once leaked
+  if (typeof claims.exp !== "number") {
+    return { valid: false, error: "MISSING_EXPIRY" };
+  }
+  if (nowSec > claims.exp + skew) {
+    return { valid: false, error: "EXPIRED" };
+  }
+  if (typeof claims.nbf === "number" && nowSec + skew < claims.nbf) {
+    return { valid: false, error: "NOT_YET_VALID" };
+  }
+
+  if (config.auth.jwtIssuer && claims.iss !== config.auth.jwtIssuer) {
+    return { valid: false, error: "INVALID_ISSUER" };
+  }
+
+  if (config.auth.jwtAudience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(config.auth.jwtAudience)) {
+      return { valid: false, error: "INVALID_AUDIENCE" };
+    }
+  }
+
+  if (typeof claims.sub !== "string" || claims.sub.length === 0) {
+    return { valid: false, error: "MISSING_SUBJECT" };
+  }
+
+  const tenant = claims[config.auth.jwtTenantClaim];
+
+  return {
+    valid: true,
+    jwt: {
+      subject: claims.sub,
+      tenant: typeof tenant === "string" && tenant.length > 0 ? tenant : undefined,
+      scopes: parseScopeClaim(claims.scope ?? claims.scp),
+      expiresAt: claims.exp,
+    },
+  };
+}
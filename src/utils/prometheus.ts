@@ -0,0 +1,184 @@
+/**
+ * Prometheus Metrics
+ *
+ * Exposes the metrics emitted through ./telemetry.ts in the Prometheus text
+ * format (GET /metrics). Registered as a metrics sink, so it receives exactly
+ * the metrics StatsD does, mapped from the same TelemetryEvents:
+ *
+ * - Names: "llm.provider_call.latency_ms" → olumi_assistants_llm_provider_call_latency_ms,
+ *   counters get a _total suffix
+ * - Labels: the tags of the first emission fix a metric's label names; tags
+ *   missing from later emissions are reported as "none", extra tags dropped
+ * - Histogram buckets are chosen by unit: METRIC_UNITS for names without a
+ *   unit suffix, otherwise the suffix (_ms, _bytes, tokens, cost_usd), falling
+ *   back to counts and ratios
+ *
+ * Configuration: config.performance.prometheusEnabled (PROMETHEUS_ENABLE).
+ */
+
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+import { config } from "../config/index.js";
+import { log, registerMetricsSink, unregisterMetricsSink, type MetricsSink, type MetricTags } from "./telemetry.js";
+
+const METRIC_PREFIX = "olumi_assistants_";
+const MISSING_LABEL_VALUE = "none";
+
+const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000, 120000];
+const SIZE_BUCKETS_BYTES = [256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304];
+const TOKEN_BUCKETS = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 25000, 50000, 100000];
+const COST_BUCKETS_USD = [0.0001, 0.0005, 0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+const COUNT_BUCKETS = [0.1, 0.25, 0.5, 0.75, 0.9, 1, 2, 5, 10, 25, 50, 100, 250, 500, 1000];
+
+type MetricUnit = "ms" | "bytes" | "tokens" | "usd" | "count";
+
+// Metrics whose StatsD names predate the unit-suffix convention (renaming
+// them would break existing Datadog dashboards and SLOs)
+const METRIC_UNITS: Record<string, MetricUnit> = {
+  "request.duration": "ms",
+};
+
+const BUCKETS_BY_UNIT: Record<MetricUnit, number[]> = {
+  ms: LATENCY_BUCKETS_MS,
+  bytes: SIZE_BUCKETS_BYTES,
+  tokens: TOKEN_BUCKETS,
+  usd: COST_BUCKETS_USD,
+  count: COUNT_BUCKETS,
+};
+
+type MetricType = "counter" | "histogram" | "gauge";
+
+interface RegisteredMetric {
+  type: MetricType;
+  labelNames: string[];
+  metric: Counter<string> | Histogram<string> | Gauge<string>;
+}
+
+let registry: Registry | null = null;
+const registered = new Map<string, RegisteredMetric>();
+
+function toPrometheusName(name: string): string {
+  return METRIC_PREFIX + name.replace(/[^a-zA-Z0-9_]/g, "_");
+}
+
+function toLabelName(tag: string): string {
+  return tag.replace(/[^a-zA-Z0-9_]/g, "_");
+}
+
+function unitOf(name: string): MetricUnit {
+  const declared = METRIC_UNITS[name];
+  if (declared) return declared;
+  if (name.endsWith("_ms")) return "ms";
+  if (name.endsWith("_bytes")) return "bytes";
+  if (name.includes("tokens")) return "tokens";
+  if (name.endsWith("cost_usd")) return "usd";
+  return "count";
+}
+
+function bucketsFor(name: string): number[] {
+  return BUCKETS_BY_UNIT[unitOf(name)];
+}
+
+function getMetric(type: MetricType, name: string, tags: MetricTags): RegisteredMetric | null {
+  if (!registry) return null;
+
+  const existing = registered.get(name);
+  if (existing) {
+    if (existing.type !== type) {
+      log.warn({ metric: name, type, registered_as: existing.type }, "Prometheus metric type mismatch, dropping sample");
+      return null;
+    }
+    return existing;
+  }
+
+  const promName = toPrometheusName(name);
+  const labelNames = Object.keys(tags).map(toLabelName).sort();
+  const help = `${name} (${type})`;
+  const registers = [registry];
+
+  const metric =
+    type === "counter"
+      ? new Counter({ name: `${promName}_total`, help, labelNames, registers })
+      : type === "histogram"
+        ? new Histogram({ name: promName, help, labelNames, buckets: bucketsFor(name), registers })
+        : new Gauge({ name: promName, help, labelNames, registers });
+
+  const entry: RegisteredMetric = { type, labelNames, metric };
+  registered.set(name, entry);
+  return entry;
+}
+
+function labelsFor(entry: RegisteredMetric, tags: MetricTags): Record<string, string> {
+  const byLabel = new Map(Object.entries(tags).map(([key, value]) => [toLabelName(key), String(value)]));
+  const labels: Record<string, string> = {};
+  for (const label of entry.labelNames) {
+    labels[label] = byLabel.get(label) || MISSING_LABEL_VALUE;
+  }
+  return labels;
+}
+
+function observe(type: MetricType, name: string, value: number, tags: MetricTags = {}): void {
+  if (!Number.isFinite(value)) return;
+
+  try {
+    const entry = getMetric(type, name, tags);
+    if (!entry) return;
+
+    const labels = labelsFor(entry, tags);
+    if (entry.type === "counter") {
+      if (value >= 0) (entry.metric as Counter<string>).inc(labels, value);
+    } else if (entry.type === "histogram") {
+      (entry.metric as Histogram<string>).observe(labels, value);
+    } else {
+      (entry.metric as Gauge<string>).set(labels, value);
+    }
+  } catch (error) {
+    log.warn({ error, metric: name }, "Failed to record Prometheus metric");
+  }
+}
+
+const prometheusSink: MetricsSink = {
+  increment: (name, value, tags) => observe("counter", name, value, tags),
+  histogram: (name, value, tags) => observe("histogram", name, value, tags),
+  gauge: (name, value, tags) => observe("gauge", name, value, tags),
+};
+
+/**
+ * Create the registry and start receiving telemetry metrics
+ *
+ * @returns Whether Prometheus metrics are enabled
+ */
+export function initPrometheusMetrics(): boolean {
+  if (registry) return true;
+  if (!config.performance.prometheusEnabled) return false;
+
+  registry = new Registry();
+  collectDefaultMetrics({ register: registry, prefix: METRIC_PREFIX });
+  registerMetricsSink(prometheusSink);
+
+  log.info("Prometheus metrics enabled at GET /metrics");
+  return true;
+}
+
+export function isPrometheusEnabled(): boolean {
+  return registry !== null;
+}
+
+/**
+ * Current metrics in the Prometheus text exposition format
+ */
+export async function getPrometheusMetrics(): Promise<{ contentType: string; body: string }> {
+  if (!registry) {
+    throw new Error("Prometheus metrics are not enabled");
+  }
+  return { contentType: registry.contentType, body: await registry.metrics() };
+}
+
+/**
+ * Stop receiving metrics and drop the registry (for testing)
+ */
+export function resetPrometheusMetrics(): void {
+  unregisterMetricsSink(prometheusSink);
+  registry?.clear();
+  registry = null;
+  registered.clear();
+}
@@ -7,6 +7,8 @@
  * Features:
  * - Token bucket rate limiting (continuous refill)
  * - Per-key quotas (separate buckets for standard and SSE requests)
+ * - Per-key rate overrides (managed API keys, see api-key-store.ts)
+ * - Last-used timestamps per key
  * - Redis persistence for multi-instance deployments
  * - In-memory fallback for single-instance or Redis failures
  * - Atomic Redis operations via Lua script (prevents race conditions)
@@ -19,6 +21,8 @@
  * Redis key patterns:
  * - qc:{keyId}:bucket - Standard bucket state
  * - qc:{keyId}:sse - SSE bucket state
+ * - qc:{keyId}:last_used - Epoch ms of the last allowed request (no TTL, so
+ *   it outlives idle buckets; one small key per API key)
  */
 
 import { getRedis } from "../platform/redis.js";
@@ -38,11 +42,13 @@ const QuotaTelemetryEvents = {
 
 /**
  * Lua script for atomic token bucket consumption
- * Args: bucket_key, capacity, refill_rate, ttl_seconds
+ * Keys: bucket_key, last_used_key
+ * Args: capacity, refill_rate, ttl_seconds (bucket only), now
  * Returns: {allowed: 0|1, tokens: number, retry_after_seconds?: number}
  */
 const LUA_CONSUME_TOKEN = `
 local bucket_key = KEYS[1]
+local last_used_key = KEYS[2]
 local capacity = tonumber(ARGV[1])
 local refill_rate = tonumber(ARGV[2])
 local ttl_seconds = tonumber(ARGV[3])
@@ -62,6 +68,10 @@ else
   }
 end
 
+-- Apply the current limits (per-key overrides may have changed)
+bucket.capacity = capacity
+bucket.refillRate = refill_rate
+
 -- Refill tokens based on elapsed time
 local elapsed_seconds = (now - bucket.lastRefill) / 1000
 local tokens_to_add = elapsed_seconds * bucket.refillRate
@@ -72,6 +82,7 @@ bucket.lastRefill = now
 if bucket.tokens >= 1 then
   bucket.tokens = bucket.tokens - 1
   redis.call('SET', bucket_key, cjson.encode(bucket), 'EX', ttl_seconds)
+  redis.call('SET', last_used_key, now)
   return cjson.encode({allowed = 1, tokens = bucket.tokens})
 else
   -- Rate limited - calculate retry delay
@@ -97,6 +108,16 @@ function getRateLimits() {
   };
 }
 
+/**
+ * Per-key limit overrides (managed API keys)
+ */
+export interface QuotaOverrides {
+  /** Stable key ID to bucket under (instead of the hash of the presented key) */
+  keyId?: string;
+  rpm?: number;
+  sseRpm?: number;
+}
+
 /**
  * Token bucket state
  */
@@ -128,6 +149,13 @@ function getBucketKey(keyId: string, isSse: boolean): string {
   return `qc:${keyId}:${isSse ? "sse" : "bucket"}`;
 }
 
+/**
+ * Get Redis key for the last-used timestamp
+ */
+function getLastUsedKey(keyId: string): string {
+  return `qc:${keyId}:last_used`;
+}
+
 /**
  * Create a new token bucket
  */
@@ -153,6 +181,16 @@ function refillBucket(bucket: TokenBucket): void {
   bucket.lastRefill = now;
 }
 
+/**
+ * Resize a bucket to a new per-minute limit, keeping its current tokens
+ */
+function applyRpm(bucket: TokenBucket, rpm: number): void {
+  if (bucket.capacity === rpm) return;
+  bucket.capacity = rpm;
+  bucket.refillRate = rpm / 60;
+  bucket.tokens = Math.min(bucket.tokens, rpm);
+}
+
 /**
  * Get or create quota for API key (dual-mode: Redis + memory fallback)
  */
@@ -217,19 +255,25 @@ export async function getKeyQuota(apiKey: string): Promise<KeyQuota> {
 /**
  * Get quota from in-memory storage
  */
-function getKeyQuotaFromMemory(apiKey: string, keyId: string): KeyQuota {
+function getKeyQuotaFromMemory(apiKey: string, keyId: string, overrides?: QuotaOverrides): KeyQuota {
+  const limits = getRateLimits();
+  const rpm = overrides?.rpm ?? limits.defaultRpm;
+  const sseRpm = overrides?.sseRpm ?? limits.sseRpm;
+
   if (!memoryQuotas.has(apiKey)) {
-    const limits = getRateLimits();
     memoryQuotas.set(apiKey, {
       keyId,
-      bucket: createTokenBucket(limits.defaultRpm),
-      sseBucket: createTokenBucket(limits.sseRpm),
+      bucket: createTokenBucket(rpm),
+      sseBucket: createTokenBucket(sseRpm),
       requestCount: 0,
       lastUsed: Date.now(),
     });
   }
 
   const quota = memoryQuotas.get(apiKey)!;
+  // Apply the current limits (per-key overrides may have changed)
+  applyRpm(quota.bucket, rpm);
+  applyRpm(quota.sseBucket, sseRpm);
   quota.lastUsed = Date.now();
   quota.requestCount++;
 
@@ -243,16 +287,19 @@ function getKeyQuotaFromMemory(apiKey: string, keyId: string): KeyQuota {
  */
 export async function getQuotaSnapshotByKeyId(
   keyId: string,
-  isSse: boolean
+  isSse: boolean,
+  rpmOverride?: number
 ): Promise<{
   backend: "redis" | "memory";
   capacity: number;
   tokens?: number;
   refillRate?: number;
   retryAfterSeconds?: number;
+  /** Epoch ms of the last allowed request (undefined if never seen) */
+  lastUsedAt?: number;
 }> {
   const limits = getRateLimits();
-  const rpm = isSse ? limits.sseRpm : limits.defaultRpm;
+  const rpm = rpmOverride ?? (isSse ? limits.sseRpm : limits.defaultRpm);
 
   // If Redis backend is enabled, try to read bucket state directly
   if (limits.redisEnabled) {
@@ -261,7 +308,10 @@ export async function getQuotaSnapshotByKeyId(
     if (redis) {
       try {
         const bucketKey = getBucketKey(keyId, isSse);
-        const bucketData = await redis.get(bucketKey);
+        const [bucketData, lastUsedData] = await Promise.all([
+          redis.get(bucketKey),
+          redis.get(getLastUsedKey(keyId)),
+        ]);
 
         let bucket: TokenBucket;
         if (bucketData) {
@@ -273,6 +323,7 @@ export async function getQuotaSnapshotByKeyId(
 
         // Work on a shallow copy so we don't mutate stored state
         const snapshotBucket: TokenBucket = { ...bucket };
+        applyRpm(snapshotBucket, rpm);
         refillBucket(snapshotBucket);
 
         const capacity = snapshotBucket.capacity;
@@ -291,6 +342,7 @@ export async function getQuotaSnapshotByKeyId(
           tokens,
           refillRate,
           retryAfterSeconds,
+          lastUsedAt: lastUsedData ? Number(lastUsedData) : undefined,
         };
       } catch (error) {
         log.warn({ error, key_id: keyId, is_sse: isSse }, "Redis quota snapshot failed, falling back to memory view");
@@ -313,6 +365,7 @@ export async function getQuotaSnapshotByKeyId(
 
     // Work on a shallow copy so we don't mutate the live bucket
     const snapshotBucket: TokenBucket = { ...bucket };
+    applyRpm(snapshotBucket, rpm);
     refillBucket(snapshotBucket);
 
     const capacity = snapshotBucket.capacity;
@@ -331,6 +384,7 @@ export async function getQuotaSnapshotByKeyId(
       tokens,
       refillRate,
       retryAfterSeconds,
+      lastUsedAt: quota.lastUsed,
     };
   }
 
@@ -351,13 +405,14 @@ export async function getQuotaSnapshotByKeyId(
  */
 export async function tryConsumeToken(
   apiKey: string,
-  isSse: boolean
+  isSse: boolean,
+  overrides?: QuotaOverrides
 ): Promise<{
   allowed: boolean;
   retryAfterSeconds?: number;
   keyId: string;
 }> {
-  const keyId = fastHash(apiKey, 8);
+  const keyId = overrides?.keyId ?? fastHash(apiKey, 8);
 
   // Try Redis first if enabled
   const limits = getRateLimits();
@@ -367,18 +422,21 @@ export async function tryConsumeToken(
     if (redis) {
       try {
         const bucketKey = getBucketKey(keyId, isSse);
-        const rpm = isSse ? limits.sseRpm : limits.defaultRpm;
+        const rpm = isSse
+          ? overrides?.sseRpm ?? limits.sseRpm
+          : overrides?.rpm ?? limits.defaultRpm;
         const refillRate = rpm / 60; // tokens per second
         const now = Date.now();
 
         // Execute atomic Lua script to refill and consume token
         const result = await redis.eval(
           LUA_CONSUME_TOKEN,
-          1, // number of KEYS
+          2, // number of KEYS
           bucketKey, // KEYS[1]
+          getLastUsedKey(keyId), // KEYS[2]
           rpm.toString(), // ARGV[1] - capacity
           refillRate.toString(), // ARGV[2] - refill_rate
-          "3600", // ARGV[3] - TTL in seconds
+          "3600", // ARGV[3] - bucket TTL in seconds
           now.toString() // ARGV[4] - current timestamp
         ) as string;
 
@@ -408,7 +466,7 @@ export async function tryConsumeToken(
   }
 
   // Fallback to in-memory quota
-  return tryConsumeTokenFromMemory(apiKey, keyId, isSse);
+  return tryConsumeTokenFromMemory(apiKey, keyId, isSse, overrides);
 }
 
 /**
@@ -417,13 +475,14 @@ export async function tryConsumeToken(
 function tryConsumeTokenFromMemory(
   apiKey: string,
   keyId: string,
-  isSse: boolean
+  isSse: boolean,
+  overrides?: QuotaOverrides
 ): {
   allowed: boolean;
   retryAfterSeconds?: number;
   keyId: string;
 } {
-  const quota = getKeyQuotaFromMemory(apiKey, keyId);
+  const quota = getKeyQuotaFromMemory(apiKey, keyId, overrides);
   const bucket = isSse ? quota.sseBucket : quota.bucket;
 
   refillBucket(bucket);
@@ -396,3 +396,24 @@ export function redactLogMessage(message: string): string {
 
   return piiRedactObject(message, config);
 }
+
+/**
+ * Redact PII from an LLM output before it is persisted
+ *
+ * Applies the same PII_REDACTION_MODE patterns to the raw text and to every
+ * string in the parsed JSON (graph labels, rationales, evidence quotes).
+ */
+export function redactLLMOutput(
+  rawText: string,
+  parsedJson: unknown
+): { rawText: string; parsedJson: unknown } {
+  const config = getDefaultGuardConfig();
+  if (config.mode === "off") {
+    return { rawText, parsedJson };
+  }
+
+  return {
+    rawText: piiRedactObject(rawText, config),
+    parsedJson: piiRedactObject(parsedJson, config),
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Caller Scopes
+ *
+ * Scopes are "resource:action" strings granted to API keys (via
+ * ASSIST_API_KEY_SCOPES) or end-user JWTs (via the scope/scp claim).
+ * Each authenticated route requires at most one scope:
+ *
+ * - draft:write             drafting and option generation (premium LLM work)
+ * - ask:write               conversational /assist/v1/ask
+ * - elicit:<kind>           elicitation helpers (belief, preferences, ...)
+ * - share:create            creating and updating share links
+ * - share:read              reading a share's access log
+ * - analysis:read           every other /assist route (explain, review, render, ...)
+ *
+ * "*" grants everything and "elicit:*" grants every elicit scope.
+ */
+
+import { config } from "../config/index.js";
+
+interface ScopeRule {
+  scope: string;
+  methods?: string[];
+  path: RegExp;
+}
+
+/**
+ * First match wins; keep specific rules above the /assist catch-all
+ */
+const ROUTE_SCOPES: ScopeRule[] = [
+  { scope: "draft:write", path: /^\/assist\/(v1\/)?draft-graph(\/|$)/ },
+  { scope: "draft:write", path: /^\/assist\/(suggest-options|clarify-brief|v1\/options)$/ },
+  { scope: "ask:write", path: /^\/assist\/v1\/ask(\/|$)/ },
+  { scope: "elicit:belief", path: /^\/assist\/v1\/elicit-belief$/ },
+  { scope: "elicit:preferences", path: /^\/assist\/v1\/elicit\/preferences(\/|$)/ },
+  { scope: "elicit:risk-tolerance", path: /^\/assist\/v1\/elicit-risk-tolerance$/ },
+  { scope: "elicit:utility-weights", path: /^\/assist\/v1\/suggest-utility-weights$/ },
+  { scope: "elicit:edge-function", path: /^\/assist\/v1\/suggest-edge-function$/ },
+  { scope: "share:read", methods: ["GET"], path: /^\/assist\/share\/.+\/access-log$/ },
+  { scope: "share:create", methods: ["POST", "PUT"], path: /^\/assist\/share(\/|$)/ },
+  { scope: "analysis:read", path: /^\/assist\// },
+];
+
+/**
+ * Scope required to call a route, or null if any authenticated caller may
+ */
+export function requiredScopeFor(method: string, url: string): string | null {
+  const path = url.split("?")[0];
+  const rule = ROUTE_SCOPES.find(
+    (r) => (!r.methods || r.methods.includes(method)) && r.path.test(path)
+  );
+  return rule?.scope ?? null;
+}
+
+/**
+ * Whether granted scopes satisfy a required scope
+ */
+export function hasScope(granted: readonly string[], required: string): boolean {
+  return granted.some((scope) =>
+    scope === "*" ||
+    scope === required ||
+    (scope.endsWith(":*") && required.startsWith(scope.slice(0, -1)))
+  );
+}
+
+/**
+ * Normalise a JWT scope claim (space-separated string or array)
+ */
+export function parseScopeClaim(claim: unknown): string[] {
+  const values = typeof claim === "string" ? claim.split(/\s+/) : Array.isArray(claim) ? claim : [];
+  return values.filter((s): s is string => typeof s === "string" && s.length > 0);
+}
+
+/**
+ * Scopes and tenant configured for an API key (unlisted keys keep full access)
+ */
+export function getKeyGrant(keyId: string): { scopes: string[]; tenant?: string } {
+  const grant = config.auth.apiKeyScopes?.[keyId];
+  return grant ? { scopes: grant.scopes, tenant: grant.tenant } : { scopes: ["*"] };
+}
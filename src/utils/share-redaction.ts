@@ -27,6 +27,10 @@ export function redactGraphForShare(graph: GraphT): GraphT {
       to: edge.to,
       weight: edge.weight,
       belief: edge.belief,
+      // Numeric edge parameters are kept so shared images show strength and belief
+      strength_mean: edge.strength_mean,
+      belief_exists: edge.belief_exists,
+      effect_direction: edge.effect_direction,
       provenance: edge.provenance,
       provenance_source: edge.provenance_source,
     })),
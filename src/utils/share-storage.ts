@@ -4,25 +4,69 @@
  * Dual-mode storage with Redis (production) and in-memory (fallback/dev).
  * Redis provides TTL-based expiry and multi-instance safety.
  * In-memory mode used when REDIS_URL not configured.
+ *
+ * A share keeps its URL across graph updates: the top-level graph, brief
+ * and highlights are the current version, and `versions` retains up to
+ * SHARE_MAX_VERSIONS snapshots for version views and diffs. Access logs are
+ * kept separately (a capped Redis list) so reads don't rewrite the share.
  */
 
 import type { GraphT } from "../schemas/graph.js";
+import type { HighlightT } from "../schemas/working-set.js";
 import { getRedis, isRedisAvailable } from "../platform/redis.js";
 import { log } from "./telemetry.js";
 import { config } from "../config/index.js";
 
+export interface ShareVersion {
+  version: number;
+  graph: GraphT;
+  brief?: string;
+  highlights?: HighlightT[];
+  created_at: number;
+}
+
+export interface ShareAccessEntry {
+  /** Epoch ms */
+  at: number;
+  version: number;
+  format: "json" | "svg" | "png" | "diff";
+  outcome: "granted" | "denied";
+  /** HMAC of the viewer IP */
+  viewer_hash?: string;
+  user_agent?: string;
+}
+
 export interface ShareData {
   share_id: string;
   graph: GraphT;
   brief?: string;
+  /** Overlays drawn when the share is rendered as an image */
+  highlights?: HighlightT[];
   created_at: number;
-  expires_at: number;
+  /** null for non-expiring shares */
+  expires_at: number | null;
   revoked: boolean;
   access_count: number;
+  /** Current version (1 when never updated) */
+  version?: number;
+  /** Retained versions, oldest first, including the current one */
+  versions?: ShareVersion[];
+  updated_at?: number;
+  /** scrypt hash of the passphrase (see share-token.ts) */
+  passphrase_hash?: string;
+  /** API key ID that created the share; only it may update the share or read its log (nobody when absent) */
+  owner_key_id?: string;
+}
+
+export interface GetShareOptions {
+  /** Increment access_count (default: true) */
+  countAccess?: boolean;
 }
 
 // In-memory fallback store (keyed by share_id)
 const memoryShares = new Map<string, ShareData>();
+const memoryAccessLogs = new Map<string, ShareAccessEntry[]>();
+const memoryPassphraseFailures = new Map<string, { count: number; resetAt: number }>();
 
 /**
  * Check if in-memory mode is forced (deferred for testability)
@@ -53,7 +97,25 @@ function getAccessKey(shareId: string): string {
 }
 
 /**
- * Store share data
+ * Get Redis key for access log
+ */
+function getAccessLogKey(shareId: string): string {
+  return `share:log:${shareId}`;
+}
+
+/**
+ * Get Redis key for failed passphrase counter
+ */
+function getPassphraseFailuresKey(shareId: string): string {
+  return `share:passfail:${shareId}`;
+}
+
+function isExpired(data: ShareData): boolean {
+  return data.expires_at !== null && Date.now() > data.expires_at;
+}
+
+/**
+ * Store share data (also used to save updates)
  */
 export async function storeShare(data: ShareData): Promise<void> {
   const redis = !isForceInMemory() && (await getRedis());
@@ -61,6 +123,13 @@ export async function storeShare(data: ShareData): Promise<void> {
   if (redis) {
     try {
       const key = getShareKey(data.share_id);
+
+      if (data.expires_at === null) {
+        await redis.set(key, JSON.stringify(data));
+        log.info({ share_id: data.share_id, storage: "redis" }, "Non-expiring share stored in Redis");
+        return;
+      }
+
       const ttlSeconds = Math.max(
         1,
         Math.floor((data.expires_at - Date.now()) / 1000)
@@ -87,7 +156,8 @@ export async function storeShare(data: ShareData): Promise<void> {
  * Retrieve share data
  * Returns null if not found, expired, or revoked
  */
-export async function getShare(shareId: string): Promise<ShareData | null> {
+export async function getShare(shareId: string, options: GetShareOptions = {}): Promise<ShareData | null> {
+  const countAccess = options.countAccess ?? true;
   const redis = !isForceInMemory() && (await getRedis());
 
   if (redis) {
@@ -111,11 +181,16 @@ export async function getShare(shareId: string): Promise<ShareData | null> {
       const data: ShareData = JSON.parse(raw);
 
       // Check expiry (Redis TTL should handle this, but double-check)
-      if (Date.now() > data.expires_at) {
+      if (isExpired(data)) {
         await redis.del(key);
         return null;
       }
 
+      if (!countAccess) {
+        data.access_count = Number(await redis.get(accessKey)) || 0;
+        return data;
+      }
+
       // Increment access count (separate counter for atomicity)
       const newCount = await redis.incr(accessKey);
       data.access_count = newCount;
@@ -129,25 +204,26 @@ export async function getShare(shareId: string): Promise<ShareData | null> {
       return data;
     } catch (error) {
       log.error({ error, share_id: shareId }, "Redis get failed, checking memory fallback");
-      return getShareFromMemory(shareId);
+      return getShareFromMemory(shareId, countAccess);
     }
   } else {
-    return getShareFromMemory(shareId);
+    return getShareFromMemory(shareId, countAccess);
   }
 }
 
 /**
  * Get share from memory fallback
  */
-function getShareFromMemory(shareId: string): ShareData | null {
+function getShareFromMemory(shareId: string, countAccess: boolean): ShareData | null {
   const data = memoryShares.get(shareId);
   if (!data) {
     return null;
   }
 
   // Check expiry
-  if (Date.now() > data.expires_at) {
+  if (isExpired(data)) {
     memoryShares.delete(shareId);
+    memoryAccessLogs.delete(shareId);
     return null;
   }
 
@@ -157,11 +233,147 @@ function getShareFromMemory(shareId: string): ShareData | null {
   }
 
   // Increment access count
-  data.access_count++;
+  if (countAccess) {
+    data.access_count++;
+  }
 
   return data;
 }
 
+/**
+ * Increment access_count for a share read with countAccess: false
+ * (e.g. once its passphrase has been checked). Returns the new count.
+ */
+export async function countShareAccess(share: ShareData): Promise<number> {
+  const redis = !isForceInMemory() && (await getRedis());
+
+  if (redis) {
+    try {
+      const accessKey = getAccessKey(share.share_id);
+      const count = await redis.incr(accessKey);
+      const ttl = await redis.ttl(getShareKey(share.share_id));
+      if (ttl > 0) {
+        await redis.expire(accessKey, ttl);
+      }
+      share.access_count = count;
+      return count;
+    } catch (error) {
+      log.error({ error, share_id: share.share_id }, "Redis access count failed, using memory fallback");
+    }
+  }
+
+  const stored = memoryShares.get(share.share_id);
+  if (stored) {
+    stored.access_count++;
+    share.access_count = stored.access_count;
+  }
+  return share.access_count;
+}
+
+/**
+ * Append an entry to a share's access log (capped at SHARE_ACCESS_LOG_SIZE)
+ */
+export async function recordShareAccess(shareId: string, entry: ShareAccessEntry): Promise<void> {
+  const size = config.share.accessLogSize;
+  if (size === 0) {
+    return;
+  }
+
+  const redis = !isForceInMemory() && (await getRedis());
+
+  if (redis) {
+    try {
+      const logKey = getAccessLogKey(shareId);
+      await redis.rpush(logKey, JSON.stringify(entry));
+      await redis.ltrim(logKey, -size, -1);
+
+      // Keep the log no longer than the share itself
+      const ttl = await redis.ttl(getShareKey(shareId));
+      if (ttl > 0) {
+        await redis.expire(logKey, ttl);
+      }
+      return;
+    } catch (error) {
+      log.error({ error, share_id: shareId }, "Redis access log failed, using memory fallback");
+    }
+  }
+
+  const entries = memoryAccessLogs.get(shareId) ?? [];
+  entries.push(entry);
+  memoryAccessLogs.set(shareId, entries.slice(-size));
+}
+
+/**
+ * Read a share's access log, newest first
+ */
+export async function getShareAccessLog(shareId: string): Promise<ShareAccessEntry[]> {
+  const redis = !isForceInMemory() && (await getRedis());
+
+  if (redis) {
+    try {
+      const raw = await redis.lrange(getAccessLogKey(shareId), 0, -1);
+      return raw.map((item) => JSON.parse(item) as ShareAccessEntry).reverse();
+    } catch (error) {
+      log.error({ error, share_id: shareId }, "Redis access log read failed, using memory fallback");
+    }
+  }
+
+  return [...(memoryAccessLogs.get(shareId) ?? [])].reverse();
+}
+
+/**
+ * Failed passphrase attempts for a share in the current lockout window
+ */
+export async function getPassphraseFailures(shareId: string): Promise<number> {
+  const redis = !isForceInMemory() && (await getRedis());
+
+  if (redis) {
+    try {
+      const count = await redis.get(getPassphraseFailuresKey(shareId));
+      return count ? Number(count) : 0;
+    } catch (error) {
+      log.error({ error, share_id: shareId }, "Redis passphrase failure read failed, using memory fallback");
+    }
+  }
+
+  const entry = memoryPassphraseFailures.get(shareId);
+  if (!entry || Date.now() >= entry.resetAt) {
+    return 0;
+  }
+  return entry.count;
+}
+
+/**
+ * Record a wrong passphrase. The window starts at the first failure and is
+ * not extended by later ones, so a locked share reopens after it ends.
+ */
+export async function recordPassphraseFailure(shareId: string): Promise<number> {
+  const windowSeconds = config.share.passphraseLockoutSeconds;
+  const redis = !isForceInMemory() && (await getRedis());
+
+  if (redis) {
+    try {
+      const key = getPassphraseFailuresKey(shareId);
+      const count = await redis.incr(key);
+      if (count === 1) {
+        await redis.expire(key, windowSeconds);
+      }
+      return count;
+    } catch (error) {
+      log.error({ error, share_id: shareId }, "Redis passphrase failure count failed, using memory fallback");
+    }
+  }
+
+  const now = Date.now();
+  const entry = memoryPassphraseFailures.get(shareId);
+  if (!entry || now >= entry.resetAt) {
+    memoryPassphraseFailures.set(shareId, { count: 1, resetAt: now + windowSeconds * 1000 });
+    return 1;
+  }
+  entry.count++;
+  return entry.count;
+}
+
 /**
  * Revoke share (soft delete)
  */
@@ -189,9 +401,11 @@ export async function revokeShare(shareId: string): Promise<boolean> {
         await redis.set(revokedKey, "1", "EX", 86400); // 24h default
       }
 
-      // Delete primary share data and access counter to free memory
+      // Delete primary share data, access counter and log to free memory
       await redis.del(key);
       await redis.del(accessKey);
+      await redis.del(getAccessLogKey(shareId));
+      await redis.del(getPassphraseFailuresKey(shareId));
 
       log.info({ share_id: shareId, storage: "redis" }, "Share revoked in Redis (data deleted)");
       return true;
@@ -216,6 +430,8 @@ function revokeShareInMemory(shareId: string): boolean {
   // Mark as revoked and delete from memory (consistent with Redis behavior)
   data.revoked = true;
   memoryShares.delete(shareId);
+  memoryAccessLogs.delete(shareId);
+  memoryPassphraseFailures.delete(shareId);
 
   log.debug({ share_id: shareId, storage: "memory" }, "Share revoked and deleted from memory");
   return true;
@@ -234,8 +450,10 @@ export function cleanupExpiredShares(): number {
   let cleaned = 0;
 
   for (const [shareId, data] of memoryShares.entries()) {
-    if (now > data.expires_at) {
+    if (data.expires_at !== null && now > data.expires_at) {
       memoryShares.delete(shareId);
+      memoryAccessLogs.delete(shareId);
+      memoryPassphraseFailures.delete(shareId);
       cleaned++;
     }
   }
@@ -278,7 +496,7 @@ export async function getStorageStats(): Promise<{
         for (const key of keys) {
           if (key.includes(":revoked:")) {
             revoked++;
-          } else if (key.startsWith("share:") && !key.includes(":access:")) {
+          } else if (key.startsWith("share:") && !key.includes(":access:") && !key.includes(":log:") && !key.includes(":passfail:")) {
             total++;
           }
         }
@@ -350,5 +568,7 @@ export async function clearAllShares(): Promise<void> {
   }
 
   memoryShares.clear();
+  memoryAccessLogs.clear();
+  memoryPassphraseFailures.clear();
   log.info("Cleared all shares from memory");
 }
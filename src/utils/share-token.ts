@@ -1,19 +1,31 @@
 /**
  * Share Token Generation & Verification
  *
- * HMAC-SHA256 signed tokens for secure, revocable share URLs
+ * HMAC-SHA256 signed tokens for secure, revocable share URLs, plus
+ * scrypt hashing for optional share passphrases.
  */
 
-import { randomBytes } from "node:crypto";
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
 import { hmacSha256, verifyHmacSha256 } from "./hash.js";
 import { config } from "../config/index.js";
 
 export interface ShareTokenPayload {
   share_id: string;
   created_at: number;
-  expires_at: number;
+  /** null for non-expiring shares */
+  expires_at: number | null;
 }
 
+const PASSPHRASE_KEY_LENGTH = 32;
+
+// Async so passphrase checks on the public viewer routes don't block the event loop
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
 /**
  * Get share signing secret from centralized config.
  *
@@ -73,7 +85,7 @@ export function verifyShareToken(token: string): ShareTokenPayload | null {
     }
 
     // Check expiry
-    if (Date.now() > payload.expires_at) {
+    if (payload.expires_at !== null && Date.now() > payload.expires_at) {
       return null;
     }
 
@@ -89,3 +101,37 @@ export function verifyShareToken(token: string): ShareTokenPayload | null {
 export function hashShareId(shareId: string): string {
   return hmacSha256(shareId, getShareSecret(), "hex", 16);
 }
+
+/**
+ * Hash viewer IP for share access logs (privacy)
+ */
+export function hashShareViewer(ip: string): string {
+  return hmacSha256(`viewer:${ip}`, getShareSecret(), "hex", 16);
+}
+
+/**
+ * Hash a share passphrase for storage (format: salt.hash, hex)
+ */
+export async function hashSharePassphrase(passphrase: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(passphrase, salt, PASSPHRASE_KEY_LENGTH);
+  return `${salt.toString("hex")}.${hash.toString("hex")}`;
+}
+
+/**
+ * Verify a passphrase against a stored hash (constant-time)
+ */
+export async function verifySharePassphrase(passphrase: string, stored: string): Promise<boolean> {
+  const [saltHex, hashHex] = stored.split(".");
+  if (!saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  if (expected.length !== PASSPHRASE_KEY_LENGTH) {
+    return false;
+  }
+
+  const actual = await scryptAsync(passphrase, Buffer.from(saltHex, "hex"), PASSPHRASE_KEY_LENGTH);
+  return timingSafeEqual(actual, expected);
+}
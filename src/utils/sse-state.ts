@@ -416,6 +416,14 @@ export async function markStreamComplete(
       const state: SseStreamState = JSON.parse(stateData);
       state.status = status;
       await redis.set(stateKey, JSON.stringify(state), "EX", getSnapshotTtlSec());
+
+      emit(TelemetryEvents.SseStreamBuffered, {
+        request_id: requestId,
+        status,
+        buffer_size_bytes: state.buffer_size_bytes,
+        buffer_event_count: state.buffer_event_count,
+        buffer_trimmed: state.buffer_trimmed ?? false,
+      });
     }
 
     // Save snapshot for late resume
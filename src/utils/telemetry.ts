@@ -248,6 +248,21 @@ export const TelemetryEvents = {
   ProviderFailoverSuccess: "assist.llm.provider_failover_success",
   ProviderFailoverExhausted: "assist.llm.provider_failover_exhausted",
 
+  // Provider circuit breaker events
+  ProviderCircuitOpened: "assist.llm.provider_circuit_opened",
+  ProviderCircuitHalfOpen: "assist.llm.provider_circuit_half_open",
+  ProviderCircuitClosed: "assist.llm.provider_circuit_closed",
+  ProviderCircuitSkipped: "assist.llm.provider_circuit_skipped",
+
+  // Hedged request events
+  LlmHedgeFired: "assist.llm.hedge_fired",
+  LlmHedgeCompleted: "assist.llm.hedge_completed",
+
+  // Per-key spend budget events
+  BudgetThresholdCrossed: "assist.llm.budget_threshold_crossed",
+  BudgetExceeded: "assist.llm.budget_exceeded",
+  BudgetModelDowngraded: "assist.llm.budget_model_downgraded",
+
   // SSE client events (v1.2.1)
   SseClientClosed: "assist.draft.sse_client_closed",
 
@@ -257,12 +272,18 @@ export const TelemetryEvents = {
   ShareRevoked: "assist.share.revoked",
   ShareExpired: "assist.share.expired",
   ShareNotFound: "assist.share.not_found",
+  ShareUpdated: "assist.share.updated",
+  ShareAccessDenied: "assist.share.access_denied",
 
   // Prompt cache events (v1.6.0)
   PromptCacheHit: "assist.llm.prompt_cache_hit",
   PromptCacheMiss: "assist.llm.prompt_cache_miss",
   PromptCacheEviction: "assist.llm.prompt_cache_eviction",
 
+  // Semantic cache events
+  SemanticCacheHit: "assist.llm.semantic_cache_hit",
+  SemanticCacheMiss: "assist.llm.semantic_cache_miss",
+
   ValidationCacheHit: "assist.draft.validation_cache_hit",
   ValidationCacheMiss: "assist.draft.validation_cache_miss",
   ValidationCacheBypass: "assist.draft.validation_cache_bypass",
@@ -384,6 +405,12 @@ export const TelemetryEvents = {
   // Performance timing events (observability v2)
   LlmCall: "llm.call",
   DownstreamCall: "downstream.call",
+
+  // Provider call metrics (one per upstream LLM call, including failover attempts)
+  LlmProviderCall: "assist.llm.provider_call",
+
+  // SSE buffer size at stream end
+  SseStreamBuffered: "assist.sse.stream_buffered",
 } as const;
 
 /**
@@ -393,7 +420,7 @@ export const VALID_EVENT_NAMES: Set<string> = new Set(Object.values(TelemetryEve
 
 /**
  * Datadog StatsD client (optional, configured via DD_AGENT_HOST)
- * Exported as `statsd` for use by performance-monitoring plugin
+ * Metrics are sent through `metrics` below, which also feeds Prometheus
  */
 let datadogClient: StatsD | null = null;
 
@@ -416,6 +443,60 @@ if (env.DD_AGENT_HOST || env.DD_API_KEY) {
 /** Exported StatsD client for use by other modules (may be null) */
 export const statsd = datadogClient;
 
+export type MetricTags = Record<string, string>;
+
+/**
+ * Additional metrics backend fed from the same event mapping as StatsD
+ * (e.g. the Prometheus registry in ./prometheus.ts)
+ */
+export interface MetricsSink {
+  increment(name: string, value: number, tags?: MetricTags): void;
+  histogram(name: string, value: number, tags?: MetricTags): void;
+  gauge(name: string, value: number, tags?: MetricTags): void;
+}
+
+const metricsSinks: MetricsSink[] = [];
+
+/**
+ * Register a metrics backend. Every metric emitted below is sent to StatsD
+ * (when configured) and to each registered sink.
+ */
+export function registerMetricsSink(sink: MetricsSink): void {
+  if (!metricsSinks.includes(sink)) {
+    metricsSinks.push(sink);
+  }
+}
+
+export function unregisterMetricsSink(sink: MetricsSink): void {
+  const index = metricsSinks.indexOf(sink);
+  if (index !== -1) {
+    metricsSinks.splice(index, 1);
+  }
+}
+
+function hasMetricsBackend(): boolean {
+  return datadogClient !== null || metricsSinks.length > 0;
+}
+
+/**
+ * Fan-out to StatsD and registered sinks, so every backend sees the same
+ * metric names and tags
+ */
+export const metrics: MetricsSink = {
+  increment(name, value, tags) {
+    datadogClient?.increment(name, value, tags);
+    for (const sink of metricsSinks) sink.increment(name, value, tags);
+  },
+  histogram(name, value, tags) {
+    datadogClient?.histogram(name, value, tags);
+    for (const sink of metricsSinks) sink.histogram(name, value, tags);
+  },
+  gauge(name, value, tags) {
+    datadogClient?.gauge(name, value, tags);
+    for (const sink of metricsSinks) sink.gauge(name, value, tags);
+  },
+};
+
 export type TelemetryLeaf = string | number | boolean | null | undefined;
 export type TelemetryShape = {
   [key: string]: TelemetryLeaf | TelemetryShape | Array<TelemetryLeaf | TelemetryShape>;
@@ -591,7 +672,7 @@ export function calculateCost(model: string, tokensIn: number, tokensOut: number
 }
 
 /**
- * Emit telemetry event (logs + Datadog metrics)
+ * Emit telemetry event (logs + Datadog/Prometheus metrics)
  *
  * @param event Event name (use TelemetryEvents enum)
  * @param data Event data
@@ -606,15 +687,15 @@ export function emit(event: string, data: Event) {
   // Always log to pino
   log.info({ event, ...eventData });
 
-  // Send metrics to Datadog if configured
-  if (datadogClient) {
+  // Send metrics to Datadog and registered sinks if configured
+  if (hasMetricsBackend()) {
     try {
       // Map events to Datadog metrics
       switch (event) {
         case TelemetryEvents.DraftCompleted: {
           // Latency histogram
           if (typeof eventData.latency_ms === "number") {
-            datadogClient.histogram("draft.latency_ms", eventData.latency_ms as number, {
+            metrics.histogram("draft.latency_ms", eventData.latency_ms as number, {
               draft_source: String((eventData.draft_source as string) || "unknown"),
               quality_tier: String((eventData.quality_tier as string) || "unknown"),
               fallback_reason: String((eventData.fallback_reason as string) || "none"),
@@ -623,35 +704,35 @@ export function emit(event: string, data: Event) {
 
           // Graph size metrics
           if (typeof eventData.graph_nodes === "number") {
-            datadogClient.gauge("draft.graph.nodes", eventData.graph_nodes as number);
+            metrics.gauge("draft.graph.nodes", eventData.graph_nodes as number);
           }
           if (typeof eventData.graph_edges === "number") {
-            datadogClient.gauge("draft.graph.edges", eventData.graph_edges as number);
+            metrics.gauge("draft.graph.edges", eventData.graph_edges as number);
           }
 
           // Confidence distribution
           if (typeof eventData.confidence === "number") {
-            datadogClient.histogram("draft.confidence", eventData.confidence as number, {
+            metrics.histogram("draft.confidence", eventData.confidence as number, {
               quality_tier: String((eventData.quality_tier as string) || "unknown"),
             });
           }
 
           // Cost tracking (per request)
           if (typeof eventData.cost_usd === "number") {
-            datadogClient.histogram("draft.cost_usd", eventData.cost_usd as number, {
+            metrics.histogram("draft.cost_usd", eventData.cost_usd as number, {
               draft_source: String((eventData.draft_source as string) || "unknown"),
             });
           }
 
           // Cache hit rate
           if (typeof eventData.prompt_cache_hit === "boolean") {
-            datadogClient.increment("draft.prompt_cache", 1, {
+            metrics.increment("draft.prompt_cache", 1, {
               hit: String(eventData.prompt_cache_hit as boolean),
             });
           }
 
           // Quality tier distribution
-          datadogClient.increment("draft.completed", 1, {
+          metrics.increment("draft.completed", 1, {
             quality_tier: String(data.quality_tier || "unknown"),
             draft_source: String(data.draft_source || "unknown"),
             fallback_reason: String(data.fallback_reason || "none"),
@@ -660,38 +741,38 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.SSEStarted: {
-          datadogClient.increment("draft.sse.started", 1);
+          metrics.increment("draft.sse.started", 1);
           break;
         }
 
         case TelemetryEvents.SSECompleted: {
           if (typeof eventData.stream_duration_ms === "number") {
-            datadogClient.histogram(
+            metrics.histogram(
               "draft.sse.stream_duration_ms",
               eventData.stream_duration_ms as number
             );
           }
           if (typeof eventData.fixture_shown === "boolean") {
-            datadogClient.increment("draft.sse.completed", 1, {
+            metrics.increment("draft.sse.completed", 1, {
               fixture_shown: String(eventData.fixture_shown as boolean),
             });
           } else {
-            datadogClient.increment("draft.sse.completed", 1);
+            metrics.increment("draft.sse.completed", 1);
           }
           break;
         }
 
         case TelemetryEvents.SSEError: {
-          datadogClient.increment("draft.sse.errors", 1, {
+          metrics.increment("draft.sse.errors", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.ValidationFailed: {
-          datadogClient.increment("draft.validation.failed", 1);
+          metrics.increment("draft.validation.failed", 1);
           if (typeof eventData.violation_count === "number") {
-            datadogClient.gauge(
+            metrics.gauge(
               "draft.validation.violations",
               eventData.violation_count as number
             );
@@ -701,26 +782,26 @@ export function emit(event: string, data: Event) {
 
         case TelemetryEvents.RepairAttempted:
         case TelemetryEvents.RepairStart: {
-          datadogClient.increment("draft.repair.attempted", 1);
+          metrics.increment("draft.repair.attempted", 1);
           break;
         }
 
         case TelemetryEvents.RepairSuccess: {
-          datadogClient.increment("draft.repair.success", 1);
+          metrics.increment("draft.repair.success", 1);
           break;
         }
 
         case TelemetryEvents.RepairFallback: {
-          datadogClient.increment("draft.repair.fallback", 1, {
+          metrics.increment("draft.repair.fallback", 1, {
             reason: String((eventData.reason as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.LegacyProvenance: {
-          datadogClient.increment("draft.legacy_provenance.occurrences", 1);
+          metrics.increment("draft.legacy_provenance.occurrences", 1);
           if (typeof eventData.legacy_percentage === "number") {
-            datadogClient.gauge(
+            metrics.gauge(
               "draft.legacy_provenance.percentage",
               eventData.legacy_percentage as number
             );
@@ -729,17 +810,17 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.FixtureShown: {
-          datadogClient.increment("draft.fixture.shown", 1);
+          metrics.increment("draft.fixture.shown", 1);
           break;
         }
 
         case TelemetryEvents.FixtureReplaced: {
-          datadogClient.increment("draft.fixture.replaced", 1);
+          metrics.increment("draft.fixture.replaced", 1);
           break;
         }
 
         case TelemetryEvents.LegacySSEPath: {
-          datadogClient.increment("draft.sse.legacy_path", 1, {
+          metrics.increment("draft.sse.legacy_path", 1, {
             endpoint: String((eventData.endpoint as string) || "unknown"),
           });
           break;
@@ -747,34 +828,34 @@ export function emit(event: string, data: Event) {
 
         case TelemetryEvents.ClarifierRoundComplete: {
           // Track clarifier usage
-          datadogClient.increment("clarifier.round.completed", 1, {
+          metrics.increment("clarifier.round.completed", 1, {
             round: String((eventData.round as string | number | undefined) ?? "unknown"),
             provider: String((eventData.provider as string) || "unknown"),
           });
 
           // Latency histogram
           if (typeof eventData.duration_ms === "number") {
-            datadogClient.histogram("clarifier.duration_ms", eventData.duration_ms as number, {
+            metrics.histogram("clarifier.duration_ms", eventData.duration_ms as number, {
               round: String((eventData.round as string | number | undefined) ?? "unknown"),
             });
           }
 
           // Cost tracking
           if (typeof eventData.cost_usd === "number") {
-            datadogClient.histogram("clarifier.cost_usd", eventData.cost_usd as number, {
+            metrics.histogram("clarifier.cost_usd", eventData.cost_usd as number, {
               provider: String((eventData.provider as string) || "unknown"),
             });
           }
 
           // Confidence tracking
           if (typeof eventData.confidence === "number") {
-            datadogClient.histogram("clarifier.confidence", eventData.confidence as number);
+            metrics.histogram("clarifier.confidence", eventData.confidence as number);
           }
           break;
         }
 
         case TelemetryEvents.ClarifierRoundFailed: {
-          datadogClient.increment("clarifier.round.failed", 1, {
+          metrics.increment("clarifier.round.failed", 1, {
             round: String((eventData.round as string | number | undefined) ?? "unknown"),
           });
           break;
@@ -782,38 +863,38 @@ export function emit(event: string, data: Event) {
 
         case TelemetryEvents.CritiqueComplete: {
           // Track critique usage
-          datadogClient.increment("critique.completed", 1, {
+          metrics.increment("critique.completed", 1, {
             provider: String((eventData.provider as string) || "unknown"),
             overall_quality: String((eventData.overall_quality as string | number) || "unknown"),
           });
 
           // Latency histogram
           if (typeof eventData.duration_ms === "number") {
-            datadogClient.histogram("critique.duration_ms", eventData.duration_ms as number);
+            metrics.histogram("critique.duration_ms", eventData.duration_ms as number);
           }
 
           // Cost tracking
           if (typeof eventData.cost_usd === "number") {
-            datadogClient.histogram("critique.cost_usd", eventData.cost_usd as number, {
+            metrics.histogram("critique.cost_usd", eventData.cost_usd as number, {
               provider: String((eventData.provider as string) || "unknown"),
             });
           }
 
           // Issue counts by severity
           if (typeof eventData.blocker_count === "number") {
-            datadogClient.gauge(
+            metrics.gauge(
               "critique.issues.blockers",
               eventData.blocker_count as number
             );
           }
           if (typeof eventData.improvement_count === "number") {
-            datadogClient.gauge(
+            metrics.gauge(
               "critique.issues.improvements",
               eventData.improvement_count as number
             );
           }
           if (typeof eventData.observation_count === "number") {
-            datadogClient.gauge(
+            metrics.gauge(
               "critique.issues.observations",
               eventData.observation_count as number
             );
@@ -822,19 +903,19 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CritiqueFailed: {
-          datadogClient.increment("critique.failed", 1);
+          metrics.increment("critique.failed", 1);
           break;
         }
 
         case TelemetryEvents.SuggestOptionsComplete: {
           // Track suggest-options usage
-          datadogClient.increment("suggest_options.completed", 1, {
+          metrics.increment("suggest_options.completed", 1, {
             provider: String(data.provider || "unknown"),
           });
 
           // Latency histogram
           if (typeof eventData.duration_ms === "number") {
-            datadogClient.histogram(
+            metrics.histogram(
               "suggest_options.duration_ms",
               eventData.duration_ms as number
             );
@@ -842,14 +923,14 @@ export function emit(event: string, data: Event) {
 
           // Cost tracking
           if (typeof eventData.cost_usd === "number") {
-            datadogClient.histogram("suggest_options.cost_usd", eventData.cost_usd as number, {
+            metrics.histogram("suggest_options.cost_usd", eventData.cost_usd as number, {
               provider: String((eventData.provider as string) || "unknown"),
             });
           }
 
           // Option count distribution
           if (typeof eventData.option_count === "number") {
-            datadogClient.gauge(
+            metrics.gauge(
               "suggest_options.option_count",
               eventData.option_count as number
             );
@@ -858,19 +939,19 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.SuggestOptionsFailed: {
-          datadogClient.increment("suggest_options.failed", 1);
+          metrics.increment("suggest_options.failed", 1);
           break;
         }
 
         case TelemetryEvents.ExplainDiffComplete: {
           // Track explain-diff usage
-          datadogClient.increment("explain_diff.completed", 1, {
+          metrics.increment("explain_diff.completed", 1, {
             provider: String(data.provider || "unknown"),
           });
 
           // Latency histogram
           if (typeof eventData.duration_ms === "number") {
-            datadogClient.histogram(
+            metrics.histogram(
               "explain_diff.duration_ms",
               eventData.duration_ms as number
             );
@@ -878,14 +959,14 @@ export function emit(event: string, data: Event) {
 
           // Cost tracking
           if (typeof eventData.cost_usd === "number") {
-            datadogClient.histogram("explain_diff.cost_usd", eventData.cost_usd as number, {
+            metrics.histogram("explain_diff.cost_usd", eventData.cost_usd as number, {
               provider: String((eventData.provider as string) || "unknown"),
             });
           }
 
           // Rationale count distribution
           if (typeof eventData.rationale_count === "number") {
-            datadogClient.gauge(
+            metrics.gauge(
               "explain_diff.rationale_count",
               eventData.rationale_count as number
             );
@@ -894,12 +975,12 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.ExplainDiffFailed: {
-          datadogClient.increment("explain_diff.failed", 1);
+          metrics.increment("explain_diff.failed", 1);
           break;
         }
 
         case TelemetryEvents.LlmRetry: {
-          datadogClient.increment("llm.retry", 1, {
+          metrics.increment("llm.retry", 1, {
             adapter: String((eventData.adapter as string) || "unknown"),
             operation: String((eventData.operation as string) || "unknown"),
             attempt: String(
@@ -910,13 +991,13 @@ export function emit(event: string, data: Event) {
             ),
           });
           if (typeof eventData.delay_ms === "number") {
-            datadogClient.histogram("llm.retry.delay_ms", eventData.delay_ms as number);
+            metrics.histogram("llm.retry.delay_ms", eventData.delay_ms as number);
           }
           break;
         }
 
         case TelemetryEvents.LlmRetrySuccess: {
-          datadogClient.increment("llm.retry_success", 1, {
+          metrics.increment("llm.retry_success", 1, {
             adapter: String((eventData.adapter as string) || "unknown"),
             operation: String((eventData.operation as string) || "unknown"),
             total_attempts: String(
@@ -927,7 +1008,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.LlmRetryExhausted: {
-          datadogClient.increment("llm.retry.exhausted", 1, {
+          metrics.increment("llm.retry.exhausted", 1, {
             adapter: String((eventData.adapter as string) || "unknown"),
             operation: String((eventData.operation as string) || "unknown"),
           });
@@ -935,7 +1016,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.ProviderFailover: {
-          datadogClient.increment("llm.provider_failover", 1, {
+          metrics.increment("llm.provider_failover", 1, {
             from_provider: String((eventData.from_provider as string) || "unknown"),
             to_provider: String((eventData.to_provider as string) || "unknown"),
             operation: String((eventData.operation as string) || "unknown"),
@@ -944,7 +1025,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.ProviderFailoverSuccess: {
-          datadogClient.increment("llm.provider_failover.success", 1, {
+          metrics.increment("llm.provider_failover.success", 1, {
             primary_provider: String((eventData.primary_provider as string) || "unknown"),
             fallback_provider: String((eventData.fallback_provider as string) || "unknown"),
             operation: String((eventData.operation as string) || "unknown"),
@@ -956,7 +1037,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.ProviderFailoverExhausted: {
-          datadogClient.increment("llm.provider_failover.exhausted", 1, {
+          metrics.increment("llm.provider_failover.exhausted", 1, {
             operation: String((eventData.operation as string) || "unknown"),
             total_attempts: String(
               (eventData.total_attempts as string | number | undefined) || "unknown"
@@ -965,13 +1046,86 @@ export function emit(event: string, data: Event) {
           break;
         }
 
+        case TelemetryEvents.ProviderCircuitOpened: {
+          metrics.increment("llm.provider_circuit.opened", 1, {
+            provider: String((eventData.provider as string) || "unknown"),
+            reason: String((eventData.reason as string) || "unknown"),
+          });
+          break;
+        }
+
+        case TelemetryEvents.ProviderCircuitHalfOpen: {
+          metrics.increment("llm.provider_circuit.half_open", 1, {
+            provider: String((eventData.provider as string) || "unknown"),
+          });
+          break;
+        }
+
+        case TelemetryEvents.ProviderCircuitClosed: {
+          metrics.increment("llm.provider_circuit.closed", 1, {
+            provider: String((eventData.provider as string) || "unknown"),
+          });
+          break;
+        }
+
+        case TelemetryEvents.ProviderCircuitSkipped: {
+          metrics.increment("llm.provider_circuit.skipped", 1, {
+            provider: String((eventData.provider as string) || "unknown"),
+            operation: String((eventData.operation as string) || "unknown"),
+          });
+          break;
+        }
+
+        case TelemetryEvents.LlmHedgeFired: {
+          metrics.increment("llm.hedge.fired", 1, {
+            task: String((eventData.task as string) || "unknown"),
+            provider: String((eventData.secondary_provider as string) || "unknown"),
+          });
+          break;
+        }
+
+        case TelemetryEvents.LlmHedgeCompleted: {
+          metrics.increment("llm.hedge.completed", 1, {
+            task: String((eventData.task as string) || "unknown"),
+            winner: String((eventData.winner as string) || "unknown"),
+          });
+          if (typeof eventData.total_cost_usd === "number") {
+            metrics.histogram("llm.hedge.cost_usd", eventData.total_cost_usd as number, {
+              task: String((eventData.task as string) || "unknown"),
+            });
+          }
+          break;
+        }
+
+        case TelemetryEvents.BudgetThresholdCrossed: {
+          metrics.increment("budget.threshold_crossed", 1, {
+            to_state: String((eventData.to_state as string) || "unknown"),
+            period: String((eventData.period as string) || "unknown"),
+          });
+          break;
+        }
+
+        case TelemetryEvents.BudgetExceeded: {
+          metrics.increment("budget.exceeded", 1, {
+            period: String((eventData.period as string) || "unknown"),
+          });
+          break;
+        }
+
+        case TelemetryEvents.BudgetModelDowngraded: {
+          metrics.increment("budget.model_downgraded", 1, {
+            task: String((eventData.task as string) || "unknown"),
+          });
+          break;
+        }
+
         case TelemetryEvents.SseClientClosed: {
-          datadogClient.increment("draft.sse.client_closed", 1);
+          metrics.increment("draft.sse.client_closed", 1);
           break;
         }
 
         case TelemetryEvents.PromptCacheHit: {
-          datadogClient.increment("llm.prompt_cache.hit", 1, {
+          metrics.increment("llm.prompt_cache.hit", 1, {
             operation: String((eventData.operation as string) || "unknown"),
             provider: String((eventData.provider as string) || "unknown"),
           });
@@ -979,7 +1133,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.PromptCacheMiss: {
-          datadogClient.increment("llm.prompt_cache.miss", 1, {
+          metrics.increment("llm.prompt_cache.miss", 1, {
             operation: String((eventData.operation as string) || "unknown"),
             provider: String((eventData.provider as string) || "unknown"),
           });
@@ -987,28 +1141,47 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.PromptCacheEviction: {
-          datadogClient.increment("llm.prompt_cache.eviction", 1, {
+          metrics.increment("llm.prompt_cache.eviction", 1, {
             reason: String((eventData.reason as string) || "unknown"),
           });
           break;
         }
 
+        case TelemetryEvents.SemanticCacheHit: {
+          metrics.increment("llm.semantic_cache.hit", 1, {
+            operation: String((eventData.operation as string) || "unknown"),
+          });
+          if (typeof eventData.similarity === "number") {
+            metrics.histogram("llm.semantic_cache.similarity", eventData.similarity as number, {
+              operation: String((eventData.operation as string) || "unknown"),
+            });
+          }
+          break;
+        }
+
+        case TelemetryEvents.SemanticCacheMiss: {
+          metrics.increment("llm.semantic_cache.miss", 1, {
+            operation: String((eventData.operation as string) || "unknown"),
+          });
+          break;
+        }
+
         case TelemetryEvents.ValidationCacheHit: {
-          datadogClient.increment("draft.validation_cache.hit", 1, {
+          metrics.increment("draft.validation_cache.hit", 1, {
             operation: String((eventData.operation as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.ValidationCacheMiss: {
-          datadogClient.increment("draft.validation_cache.miss", 1, {
+          metrics.increment("draft.validation_cache.miss", 1, {
             operation: String((eventData.operation as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.ValidationCacheBypass: {
-          datadogClient.increment("draft.validation_cache.bypass", 1, {
+          metrics.increment("draft.validation_cache.bypass", 1, {
             operation: String((eventData.operation as string) || "unknown"),
             reason: String((eventData.reason as string) || "unknown"),
           });
@@ -1016,7 +1189,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.AnthropicPromptCacheHint: {
-          datadogClient.increment("llm.anthropic_prompt_cache.hint", 1, {
+          metrics.increment("llm.anthropic_prompt_cache.hint", 1, {
             provider: String((eventData.provider as string) || "unknown"),
             operation: String((eventData.operation as string) || "unknown"),
           });
@@ -1024,7 +1197,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.GuardViolation: {
-          datadogClient.increment("draft.guard_violation", 1, {
+          metrics.increment("draft.guard_violation", 1, {
             violation_type: String((eventData.violation_type as string) || "unknown"),
           });
           break;
@@ -1032,35 +1205,35 @@ export function emit(event: string, data: Event) {
 
         // CEE v1 Draft My Model
         case TelemetryEvents.CeeDraftGraphRequested: {
-          datadogClient.increment("cee.draft_graph.requested", 1);
+          metrics.increment("cee.draft_graph.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeDraftGraphSucceeded: {
-          datadogClient.increment("cee.draft_graph.succeeded", 1);
+          metrics.increment("cee.draft_graph.succeeded", 1);
           if (typeof eventData.cost_usd === "number") {
-            datadogClient.histogram("cee.draft_graph.cost_usd", eventData.cost_usd as number, {
+            metrics.histogram("cee.draft_graph.cost_usd", eventData.cost_usd as number, {
               provider: String((eventData.engine_provider as string) || "unknown"),
               model: String((eventData.engine_model as string) || "unknown"),
             });
           }
 
           if (typeof eventData.draft_warning_count === "number") {
-            datadogClient.histogram(
+            metrics.histogram(
               "cee.draft_graph.structural_warning_count",
               eventData.draft_warning_count as number,
             );
           }
 
           if (typeof eventData.uncertain_node_count === "number") {
-            datadogClient.histogram(
+            metrics.histogram(
               "cee.draft_graph.uncertain_node_count",
               eventData.uncertain_node_count as number,
             );
           }
 
           if ("simplification_applied" in (eventData as Record<string, unknown>)) {
-            datadogClient.increment("cee.draft_graph.simplification_applied", 1, {
+            metrics.increment("cee.draft_graph.simplification_applied", 1, {
               value: String((eventData as any).simplification_applied === true),
             });
           }
@@ -1069,7 +1242,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CeeDraftGraphFailed: {
-          datadogClient.increment("cee.draft_graph.failed", 1, {
+          metrics.increment("cee.draft_graph.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1080,17 +1253,17 @@ export function emit(event: string, data: Event) {
 
         // CEE v1 Explain My Model
         case TelemetryEvents.CeeExplainGraphRequested: {
-          datadogClient.increment("cee.explain_graph.requested", 1);
+          metrics.increment("cee.explain_graph.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeExplainGraphSucceeded: {
-          datadogClient.increment("cee.explain_graph.succeeded", 1);
+          metrics.increment("cee.explain_graph.succeeded", 1);
           break;
         }
 
         case TelemetryEvents.CeeExplainGraphFailed: {
-          datadogClient.increment("cee.explain_graph.failed", 1, {
+          metrics.increment("cee.explain_graph.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1101,17 +1274,17 @@ export function emit(event: string, data: Event) {
 
         // CEE v1 Evidence Helper
         case TelemetryEvents.CeeEvidenceHelperRequested: {
-          datadogClient.increment("cee.evidence_helper.requested", 1);
+          metrics.increment("cee.evidence_helper.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeEvidenceHelperSucceeded: {
-          datadogClient.increment("cee.evidence_helper.succeeded", 1);
+          metrics.increment("cee.evidence_helper.succeeded", 1);
           break;
         }
 
         case TelemetryEvents.CeeEvidenceHelperFailed: {
-          datadogClient.increment("cee.evidence_helper.failed", 1, {
+          metrics.increment("cee.evidence_helper.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1122,15 +1295,15 @@ export function emit(event: string, data: Event) {
 
         // CEE v1 Bias Check
         case TelemetryEvents.CeeBiasCheckRequested: {
-          datadogClient.increment("cee.bias_check.requested", 1);
+          metrics.increment("cee.bias_check.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeBiasCheckSucceeded: {
-          datadogClient.increment("cee.bias_check.succeeded", 1);
+          metrics.increment("cee.bias_check.succeeded", 1);
 
           if (typeof eventData.bias_count === "number") {
-            datadogClient.histogram(
+            metrics.histogram(
               "cee.bias_check.bias_count",
               eventData.bias_count as number,
             );
@@ -1140,7 +1313,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CeeBiasCheckFailed: {
-          datadogClient.increment("cee.bias_check.failed", 1, {
+          metrics.increment("cee.bias_check.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1151,16 +1324,16 @@ export function emit(event: string, data: Event) {
 
         // CEE v1 Graph Readiness
         case TelemetryEvents.CeeGraphReadinessRequested: {
-          datadogClient.increment("cee.graph_readiness.requested", 1);
+          metrics.increment("cee.graph_readiness.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeGraphReadinessCompleted: {
-          datadogClient.increment("cee.graph_readiness.completed", 1);
+          metrics.increment("cee.graph_readiness.completed", 1);
 
           const latencyMs = eventData.latency_ms;
           if (typeof latencyMs === "number" && Number.isFinite(latencyMs)) {
-            datadogClient.histogram(
+            metrics.histogram(
               "cee.graph_readiness.latency_ms",
               latencyMs,
             );
@@ -1168,7 +1341,7 @@ export function emit(event: string, data: Event) {
 
           const readinessScore = eventData.readiness_score;
           if (typeof readinessScore === "number" && Number.isFinite(readinessScore)) {
-            datadogClient.histogram(
+            metrics.histogram(
               "cee.graph_readiness.readiness_score",
               readinessScore,
             );
@@ -1178,7 +1351,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CeeGraphReadinessFailed: {
-          datadogClient.increment("cee.graph_readiness.failed", 1, {
+          metrics.increment("cee.graph_readiness.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1189,17 +1362,17 @@ export function emit(event: string, data: Event) {
 
         // CEE v1 Options Helper
         case TelemetryEvents.CeeOptionsRequested: {
-          datadogClient.increment("cee.options.requested", 1);
+          metrics.increment("cee.options.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeOptionsSucceeded: {
-          datadogClient.increment("cee.options.succeeded", 1);
+          metrics.increment("cee.options.succeeded", 1);
           break;
         }
 
         case TelemetryEvents.CeeOptionsFailed: {
-          datadogClient.increment("cee.options.failed", 1, {
+          metrics.increment("cee.options.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1210,17 +1383,17 @@ export function emit(event: string, data: Event) {
 
         // CEE v1 Sensitivity Coach
         case TelemetryEvents.CeeSensitivityCoachRequested: {
-          datadogClient.increment("cee.sensitivity_coach.requested", 1);
+          metrics.increment("cee.sensitivity_coach.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeSensitivityCoachSucceeded: {
-          datadogClient.increment("cee.sensitivity_coach.succeeded", 1);
+          metrics.increment("cee.sensitivity_coach.succeeded", 1);
           break;
         }
 
         case TelemetryEvents.CeeSensitivityCoachFailed: {
-          datadogClient.increment("cee.sensitivity_coach.failed", 1, {
+          metrics.increment("cee.sensitivity_coach.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1231,17 +1404,17 @@ export function emit(event: string, data: Event) {
 
         // CEE v1 Team Perspectives
         case TelemetryEvents.CeeTeamPerspectivesRequested: {
-          datadogClient.increment("cee.team_perspectives.requested", 1);
+          metrics.increment("cee.team_perspectives.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeTeamPerspectivesSucceeded: {
-          datadogClient.increment("cee.team_perspectives.succeeded", 1);
+          metrics.increment("cee.team_perspectives.succeeded", 1);
           break;
         }
 
         case TelemetryEvents.CeeTeamPerspectivesFailed: {
-          datadogClient.increment("cee.team_perspectives.failed", 1, {
+          metrics.increment("cee.team_perspectives.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1251,17 +1424,17 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CeeKeyInsightRequested: {
-          datadogClient.increment("cee.key_insight.requested", 1);
+          metrics.increment("cee.key_insight.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeKeyInsightSucceeded: {
-          datadogClient.increment("cee.key_insight.succeeded", 1);
+          metrics.increment("cee.key_insight.succeeded", 1);
           break;
         }
 
         case TelemetryEvents.CeeKeyInsightFailed: {
-          datadogClient.increment("cee.key_insight.failed", 1, {
+          metrics.increment("cee.key_insight.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1271,17 +1444,17 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CeeElicitBeliefRequested: {
-          datadogClient.increment("cee.elicit_belief.requested", 1);
+          metrics.increment("cee.elicit_belief.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeElicitBeliefSucceeded: {
-          datadogClient.increment("cee.elicit_belief.succeeded", 1);
+          metrics.increment("cee.elicit_belief.succeeded", 1);
           break;
         }
 
         case TelemetryEvents.CeeElicitBeliefFailed: {
-          datadogClient.increment("cee.elicit_belief.failed", 1, {
+          metrics.increment("cee.elicit_belief.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1291,17 +1464,17 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CeeUtilityWeightRequested: {
-          datadogClient.increment("cee.utility_weight.requested", 1);
+          metrics.increment("cee.utility_weight.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeUtilityWeightSucceeded: {
-          datadogClient.increment("cee.utility_weight.succeeded", 1);
+          metrics.increment("cee.utility_weight.succeeded", 1);
           break;
         }
 
         case TelemetryEvents.CeeUtilityWeightFailed: {
-          datadogClient.increment("cee.utility_weight.failed", 1, {
+          metrics.increment("cee.utility_weight.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1311,17 +1484,17 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CeeRiskToleranceRequested: {
-          datadogClient.increment("cee.risk_tolerance.requested", 1);
+          metrics.increment("cee.risk_tolerance.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeRiskToleranceSucceeded: {
-          datadogClient.increment("cee.risk_tolerance.succeeded", 1);
+          metrics.increment("cee.risk_tolerance.succeeded", 1);
           break;
         }
 
         case TelemetryEvents.CeeRiskToleranceFailed: {
-          datadogClient.increment("cee.risk_tolerance.failed", 1, {
+          metrics.increment("cee.risk_tolerance.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1331,25 +1504,25 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CeeEdgeFunctionRequested: {
-          datadogClient.increment("cee.edge_function.requested", 1);
+          metrics.increment("cee.edge_function.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeEdgeFunctionCompleted: {
-          datadogClient.increment("cee.edge_function.completed", 1, {
+          metrics.increment("cee.edge_function.completed", 1, {
             suggested_function: String((eventData.suggested_function as string) || "unknown"),
             confidence: String((eventData.confidence as string) || "unknown"),
           });
 
           const latencyMs = eventData.latency_ms;
           if (typeof latencyMs === "number" && Number.isFinite(latencyMs)) {
-            datadogClient.histogram("cee.edge_function.latency_ms", latencyMs);
+            metrics.histogram("cee.edge_function.latency_ms", latencyMs);
           }
           break;
         }
 
         case TelemetryEvents.CeeEdgeFunctionFailed: {
-          datadogClient.increment("cee.edge_function.failed", 1, {
+          metrics.increment("cee.edge_function.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1360,21 +1533,21 @@ export function emit(event: string, data: Event) {
 
         // Phase 4: Recommendation Narratives metrics
         case TelemetryEvents.CeeGenerateRecommendationRequested: {
-          datadogClient.increment("cee.generate_recommendation.requested", 1);
+          metrics.increment("cee.generate_recommendation.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeGenerateRecommendationCompleted: {
-          datadogClient.increment("cee.generate_recommendation.completed", 1);
+          metrics.increment("cee.generate_recommendation.completed", 1);
           const latencyMs = eventData.latency_ms;
           if (typeof latencyMs === "number" && Number.isFinite(latencyMs)) {
-            datadogClient.histogram("cee.generate_recommendation.latency_ms", latencyMs);
+            metrics.histogram("cee.generate_recommendation.latency_ms", latencyMs);
           }
           break;
         }
 
         case TelemetryEvents.CeeGenerateRecommendationFailed: {
-          datadogClient.increment("cee.generate_recommendation.failed", 1, {
+          metrics.increment("cee.generate_recommendation.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1384,21 +1557,21 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CeeNarrateConditionsRequested: {
-          datadogClient.increment("cee.narrate_conditions.requested", 1);
+          metrics.increment("cee.narrate_conditions.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeNarrateConditionsCompleted: {
-          datadogClient.increment("cee.narrate_conditions.completed", 1);
+          metrics.increment("cee.narrate_conditions.completed", 1);
           const latencyMs = eventData.latency_ms;
           if (typeof latencyMs === "number" && Number.isFinite(latencyMs)) {
-            datadogClient.histogram("cee.narrate_conditions.latency_ms", latencyMs);
+            metrics.histogram("cee.narrate_conditions.latency_ms", latencyMs);
           }
           break;
         }
 
         case TelemetryEvents.CeeNarrateConditionsFailed: {
-          datadogClient.increment("cee.narrate_conditions.failed", 1, {
+          metrics.increment("cee.narrate_conditions.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1408,21 +1581,21 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.CeeExplainPolicyRequested: {
-          datadogClient.increment("cee.explain_policy.requested", 1);
+          metrics.increment("cee.explain_policy.requested", 1);
           break;
         }
 
         case TelemetryEvents.CeeExplainPolicyCompleted: {
-          datadogClient.increment("cee.explain_policy.completed", 1);
+          metrics.increment("cee.explain_policy.completed", 1);
           const latencyMs = eventData.latency_ms;
           if (typeof latencyMs === "number" && Number.isFinite(latencyMs)) {
-            datadogClient.histogram("cee.explain_policy.latency_ms", latencyMs);
+            metrics.histogram("cee.explain_policy.latency_ms", latencyMs);
           }
           break;
         }
 
         case TelemetryEvents.CeeExplainPolicyFailed: {
-          datadogClient.increment("cee.explain_policy.failed", 1, {
+          metrics.increment("cee.explain_policy.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String(
               (eventData.http_status as number | string | undefined) || "unknown",
@@ -1433,18 +1606,18 @@ export function emit(event: string, data: Event) {
 
         // CEE Verification metrics (v1.14)
         case TelemetryEvents.CeeVerificationSucceeded: {
-          datadogClient.increment("cee.verification.succeeded", 1, {
+          metrics.increment("cee.verification.succeeded", 1, {
             feature: String((eventData.feature as string) || "unknown"),
           });
           const latencyMs = eventData.latency_ms;
           if (typeof latencyMs === "number" && Number.isFinite(latencyMs)) {
-            datadogClient.histogram("cee.verification.latency_ms", latencyMs);
+            metrics.histogram("cee.verification.latency_ms", latencyMs);
           }
           break;
         }
 
         case TelemetryEvents.CeeVerificationFailed: {
-          datadogClient.increment("cee.verification.failed", 1, {
+          metrics.increment("cee.verification.failed", 1, {
             feature: String((eventData.feature as string) || "unknown"),
             stage: String((eventData.stage as string) || "unknown"),
           });
@@ -1453,7 +1626,7 @@ export function emit(event: string, data: Event) {
 
         // Prompt Management metrics (v2.0)
         case TelemetryEvents.PromptStoreError: {
-          datadogClient.increment("prompt.store.error", 1, {
+          metrics.increment("prompt.store.error", 1, {
             operation: String((eventData.operation as string) || "unknown"),
             error: String((eventData.error as string) || "unknown"),
           });
@@ -1461,14 +1634,14 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.PromptLoaderError: {
-          datadogClient.increment("prompt.loader.error", 1, {
+          metrics.increment("prompt.loader.error", 1, {
             task_id: String((eventData.taskId as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.PromptLoadedFromStore: {
-          datadogClient.increment("prompt.loader.source", 1, {
+          metrics.increment("prompt.loader.source", 1, {
             source: "store",
             task_id: String((eventData.taskId as string) || "unknown"),
             version: String((eventData.version as number | undefined) || "unknown"),
@@ -1477,7 +1650,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.PromptLoadedFromDefault: {
-          datadogClient.increment("prompt.loader.source", 1, {
+          metrics.increment("prompt.loader.source", 1, {
             source: "default",
             task_id: String((eventData.taskId as string) || "unknown"),
           });
@@ -1485,7 +1658,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.PromptCompiled: {
-          datadogClient.increment("prompt.compiled", 1, {
+          metrics.increment("prompt.compiled", 1, {
             task_id: String((eventData.taskId as string) || "unknown"),
             version: String((eventData.version as number | undefined) || "unknown"),
           });
@@ -1493,41 +1666,41 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.PromptHashMismatch: {
-          datadogClient.increment("prompt.hash_mismatch", 1, {
+          metrics.increment("prompt.hash_mismatch", 1, {
             prompt_id: String((eventData.promptId as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.AdminPromptAccess: {
-          datadogClient.increment("admin.prompt.access", 1, {
+          metrics.increment("admin.prompt.access", 1, {
             action: String((eventData.action as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.AdminExperimentAccess: {
-          datadogClient.increment("admin.experiment.access", 1, {
+          metrics.increment("admin.experiment.access", 1, {
             action: String((eventData.action as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.AdminAuthFailed: {
-          datadogClient.increment("admin.auth.failed", 1, {
+          metrics.increment("admin.auth.failed", 1, {
             reason: String((eventData.reason as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.AdminIPBlocked: {
-          datadogClient.increment("admin.ip.blocked", 1);
+          metrics.increment("admin.ip.blocked", 1);
           break;
         }
 
         // Prompt Experiment metrics (v2.0)
         case TelemetryEvents.PromptExperimentAssigned: {
-          datadogClient.increment("prompt.experiment.assigned", 1, {
+          metrics.increment("prompt.experiment.assigned", 1, {
             experiment_name: String((eventData.experimentName as string) || "unknown"),
             task_id: String((eventData.taskId as string) || "unknown"),
             variant: String((eventData.variant as string) || "unknown"),
@@ -1536,7 +1709,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.PromptStagingUsed: {
-          datadogClient.increment("prompt.staging.used", 1, {
+          metrics.increment("prompt.staging.used", 1, {
             task_id: String((eventData.taskId as string) || "unknown"),
           });
           break;
@@ -1544,13 +1717,13 @@ export function emit(event: string, data: Event) {
 
         // Decision Review metrics (v2.0)
         case TelemetryEvents.DecisionReviewRequested: {
-          datadogClient.increment("cee.decision_review.requested", 1);
+          metrics.increment("cee.decision_review.requested", 1);
           break;
         }
 
         case TelemetryEvents.DecisionReviewGenerated:
         case TelemetryEvents.DecisionReviewSucceeded: {
-          datadogClient.increment("cee.decision_review.succeeded", 1, {
+          metrics.increment("cee.decision_review.succeeded", 1, {
             isl_available: String((eventData.isl_available as boolean | undefined) ?? "unknown"),
           });
 
@@ -1558,17 +1731,17 @@ export function emit(event: string, data: Event) {
             const count = typeof eventData.endpoints_used === "number"
               ? eventData.endpoints_used
               : (eventData.endpointsUsed as string[])?.length ?? 0;
-            datadogClient.gauge("cee.decision_review.isl_endpoints_used", count);
+            metrics.gauge("cee.decision_review.isl_endpoints_used", count);
           }
 
           if (typeof eventData.latency_ms === "number") {
-            datadogClient.histogram("cee.decision_review.latency_ms", eventData.latency_ms as number);
+            metrics.histogram("cee.decision_review.latency_ms", eventData.latency_ms as number);
           }
           break;
         }
 
         case TelemetryEvents.DecisionReviewFailed: {
-          datadogClient.increment("cee.decision_review.failed", 1, {
+          metrics.increment("cee.decision_review.failed", 1, {
             error_code: String((eventData.error_code as string) || "unknown"),
             http_status: String((eventData.http_status as number | string | undefined) || "unknown"),
           });
@@ -1576,7 +1749,7 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.DecisionReviewIslFallback: {
-          datadogClient.increment("cee.decision_review.isl_fallback", 1, {
+          metrics.increment("cee.decision_review.isl_fallback", 1, {
             reason: String((eventData.reason as string) || "unknown"),
           });
           break;
@@ -1584,21 +1757,21 @@ export function emit(event: string, data: Event) {
 
         // Prompt Store Cache metrics (v2.0 Phase 4.3)
         case TelemetryEvents.PromptStoreCacheHit: {
-          datadogClient.increment("prompt.store.cache.hit", 1, {
+          metrics.increment("prompt.store.cache.hit", 1, {
             task_id: String((eventData.taskId as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.PromptStoreCacheMiss: {
-          datadogClient.increment("prompt.store.cache.miss", 1, {
+          metrics.increment("prompt.store.cache.miss", 1, {
             task_id: String((eventData.taskId as string) || "unknown"),
           });
           break;
         }
 
         case TelemetryEvents.PromptStoreCacheInvalidated: {
-          datadogClient.increment("prompt.store.cache.invalidated", 1, {
+          metrics.increment("prompt.store.cache.invalidated", 1, {
             reason: String((eventData.reason as string) || "unknown"),
             task_id: String((eventData.taskId as string) || "all"),
           });
@@ -1606,39 +1779,100 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.PromptStoreCacheWarmed: {
-          datadogClient.gauge("prompt.store.cache.warmed", Number(eventData.warmed) || 0);
-          datadogClient.gauge("prompt.store.cache.warmed_failed", Number(eventData.failed) || 0);
-          datadogClient.gauge("prompt.store.cache.warmed_skipped", Number(eventData.skipped) || 0);
+          metrics.gauge("prompt.store.cache.warmed", Number(eventData.warmed) || 0);
+          metrics.gauge("prompt.store.cache.warmed_failed", Number(eventData.failed) || 0);
+          metrics.gauge("prompt.store.cache.warmed_skipped", Number(eventData.skipped) || 0);
           break;
         }
 
         case TelemetryEvents.PromptStoreBackgroundRefresh: {
-          datadogClient.increment("prompt.store.background_refresh", 1, {
+          metrics.increment("prompt.store.background_refresh", 1, {
             task_id: String((eventData.taskId as string) || "unknown"),
           });
           break;
         }
 
+        case TelemetryEvents.LlmProviderCall: {
+          const tags = {
+            provider: String((eventData.provider as string) || "unknown"),
+            model: String((eventData.model as string) || "unknown"),
+            operation: String((eventData.operation as string) || "unknown"),
+          };
+          metrics.increment("llm.provider_call", 1, {
+            ...tags,
+            status: String((eventData.status as string) || "unknown"),
+          });
+          if (typeof eventData.latency_ms === "number") {
+            metrics.histogram("llm.provider_call.latency_ms", eventData.latency_ms as number, tags);
+          }
+          if (typeof eventData.input_tokens === "number") {
+            metrics.increment("llm.provider_call.tokens", eventData.input_tokens as number, {
+              ...tags,
+              type: "input",
+            });
+          }
+          if (typeof eventData.output_tokens === "number") {
+            metrics.increment("llm.provider_call.tokens", eventData.output_tokens as number, {
+              ...tags,
+              type: "output",
+            });
+          }
+          break;
+        }
+
+        case TelemetryEvents.SseBufferTrimmed: {
+          metrics.increment("sse.buffer_trimmed", 1, {
+            reason: String((eventData.reason as string) || "unknown"),
+          });
+          if (typeof eventData.new_buffer_size_bytes === "number") {
+            metrics.histogram("sse.buffer.size_bytes", eventData.new_buffer_size_bytes as number, {
+              stage: "trimmed",
+            });
+          }
+          break;
+        }
+
+        case TelemetryEvents.SseStreamBuffered: {
+          if (typeof eventData.buffer_size_bytes === "number") {
+            metrics.histogram("sse.buffer.size_bytes", eventData.buffer_size_bytes as number, {
+              stage: "complete",
+            });
+          }
+          if (typeof eventData.buffer_event_count === "number") {
+            metrics.histogram("sse.buffer.events", eventData.buffer_event_count as number, {
+              status: String((eventData.status as string) || "unknown"),
+            });
+          }
+          break;
+        }
+
+        case TelemetryEvents.RateLimited: {
+          metrics.increment("auth.rate_limited", 1, {
+            is_sse: String(Boolean(eventData.is_sse)),
+          });
+          break;
+        }
+
         // Performance timing events (observability v2)
         case TelemetryEvents.LlmCall: {
-          datadogClient.increment("llm.call", 1, {
+          metrics.increment("llm.call", 1, {
             step: String((eventData.step as string) || "unknown"),
             model: String((eventData.model as string) || "unknown"),
             provider: String((eventData.provider as string) || "unknown"),
           });
           if (typeof eventData.elapsed_ms === "number") {
-            datadogClient.histogram("llm.call.latency_ms", eventData.elapsed_ms as number, {
+            metrics.histogram("llm.call.latency_ms", eventData.elapsed_ms as number, {
               step: String((eventData.step as string) || "unknown"),
               model: String((eventData.model as string) || "unknown"),
             });
           }
           if (typeof eventData.tokens_prompt === "number") {
-            datadogClient.histogram("llm.call.tokens_prompt", eventData.tokens_prompt as number, {
+            metrics.histogram("llm.call.tokens_prompt", eventData.tokens_prompt as number, {
               model: String((eventData.model as string) || "unknown"),
             });
           }
           if (typeof eventData.tokens_completion === "number") {
-            datadogClient.histogram("llm.call.tokens_completion", eventData.tokens_completion as number, {
+            metrics.histogram("llm.call.tokens_completion", eventData.tokens_completion as number, {
               model: String((eventData.model as string) || "unknown"),
             });
           }
@@ -1646,17 +1880,17 @@ export function emit(event: string, data: Event) {
         }
 
         case TelemetryEvents.DownstreamCall: {
-          datadogClient.increment("downstream.call", 1, {
+          metrics.increment("downstream.call", 1, {
             target: String((eventData.target as string) || "unknown"),
             operation: String((eventData.operation as string) || "unknown"),
           });
           if (typeof eventData.elapsed_ms === "number") {
-            datadogClient.histogram("downstream.call.latency_ms", eventData.elapsed_ms as number, {
+            metrics.histogram("downstream.call.latency_ms", eventData.elapsed_ms as number, {
               target: String((eventData.target as string) || "unknown"),
             });
           }
           if (typeof eventData.status === "number") {
-            datadogClient.increment("downstream.call.status", 1, {
+            metrics.increment("downstream.call.status", 1, {
               target: String((eventData.target as string) || "unknown"),
               status: String(eventData.status),
             });
@@ -1673,7 +1907,7 @@ export function emit(event: string, data: Event) {
       }
     } catch (error) {
       // Never let telemetry break the application
-      log.error({ error, event }, "Failed to send Datadog metrics");
+      log.error({ error, event }, "Failed to send metrics");
     }
   }
 }
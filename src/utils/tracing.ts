@@ -0,0 +1,219 @@
+/**
+ * OpenTelemetry Distributed Tracing
+ *
+ * Complements the pino logs and StatsD metrics in ./telemetry.ts with spans,
+ * so the time inside a single request (LLM calls, repair, draft
+ * finalisation, verification stages, ISL calls, Redis commands) can be seen
+ * on one trace.
+ *
+ * - Incoming W3C trace context (traceparent / tracestate) is continued by
+ *   the tracing plugin (plugins/tracing.ts) and injected into ISL requests
+ * - Spans are exported over OTLP/HTTP, by default to a local collector
+ *   (http://localhost:4318/v1/traces)
+ * - LLM spans carry token usage as gen_ai.usage.* attributes
+ *
+ * Configuration: config.tracing (OTEL_TRACING_ENABLED, OTEL_SERVICE_NAME,
+ * OTEL_EXPORTER_OTLP_ENDPOINT, OTEL_TRACES_SAMPLE_RATIO). When disabled the
+ * OpenTelemetry API is a no-op and spans cost nothing.
+ */
+
+import {
+  context,
+  propagation,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Context,
+  type Span,
+  type Tracer,
+} from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  ParentBasedSampler,
+  SimpleSpanProcessor,
+  TraceIdRatioBasedSampler,
+  type SpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import type { Redis, Command } from "ioredis";
+import { config } from "../config/index.js";
+import { SERVICE_VERSION } from "../version.js";
+import { log } from "./telemetry.js";
+import type { UsageMetrics } from "../adapters/llm/types.js";
+
+const TRACER_NAME = "olumi-assistants-service";
+const DEFAULT_OTLP_ENDPOINT = "http://localhost:4318";
+
+let provider: BasicTracerProvider | null = null;
+
+/**
+ * Start the tracer provider and register it globally.
+ *
+ * @param options.exporter - Export spans synchronously to this exporter
+ *   instead of OTLP (tests); also enables tracing regardless of config
+ * @returns Whether tracing is active
+ */
+export function initTracing(options: { exporter?: SpanExporter } = {}): boolean {
+  if (provider) return true;
+  if (!config.tracing.enabled && !options.exporter) return false;
+
+  const endpoint = config.tracing.otlpEndpoint ?? DEFAULT_OTLP_ENDPOINT;
+  const spanProcessor = options.exporter
+    ? new SimpleSpanProcessor(options.exporter)
+    : new BatchSpanProcessor(new OTLPTraceExporter({ url: `${endpoint.replace(/\/$/, "")}/v1/traces` }));
+
+  provider = new BasicTracerProvider({
+    resource: resourceFromAttributes({
+      "service.name": config.tracing.serviceName,
+      "service.version": SERVICE_VERSION,
+    }),
+    sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(config.tracing.sampleRatio) }),
+    spanProcessors: [spanProcessor],
+  });
+
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  trace.setGlobalTracerProvider(provider);
+
+  log.info(
+    {
+      service_name: config.tracing.serviceName,
+      endpoint: options.exporter ? undefined : endpoint,
+      sample_ratio: config.tracing.sampleRatio,
+    },
+    "OpenTelemetry tracing initialized"
+  );
+  return true;
+}
+
+/**
+ * Flush pending spans and unregister the provider
+ */
+export async function shutdownTracing(): Promise<void> {
+  if (!provider) return;
+
+  const current = provider;
+  provider = null;
+  try {
+    await current.shutdown();
+  } catch (error) {
+    log.warn({ error }, "Failed to flush spans on shutdown");
+  } finally {
+    trace.disable();
+    propagation.disable();
+    context.disable();
+  }
+}
+
+/**
+ * Whether spans are being recorded
+ */
+export function isTracingEnabled(): boolean {
+  return provider !== null;
+}
+
+export function getTracer(): Tracer {
+  return trace.getTracer(TRACER_NAME, SERVICE_VERSION);
+}
+
+/**
+ * Run fn inside an active child span of the current context. The span is
+ * ended when fn settles; errors are recorded and rethrown.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+  kind: SpanKind = SpanKind.INTERNAL
+): Promise<T> {
+  return getTracer().startActiveSpan(name, { kind, attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Mark a span as failed with the given error
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Attach LLM token usage to a span (GenAI semantic conventions)
+ */
+export function setTokenUsageAttributes(span: Span, usage: UsageMetrics | undefined): void {
+  if (!usage) return;
+
+  span.setAttributes({
+    "gen_ai.usage.input_tokens": usage.input_tokens,
+    "gen_ai.usage.output_tokens": usage.output_tokens,
+    ...(usage.cache_read_input_tokens !== undefined && {
+      "gen_ai.usage.cache_read_input_tokens": usage.cache_read_input_tokens,
+    }),
+    ...(usage.cache_creation_input_tokens !== undefined && {
+      "gen_ai.usage.cache_creation_input_tokens": usage.cache_creation_input_tokens,
+    }),
+  });
+}
+
+/**
+ * Parent context from incoming W3C trace headers (traceparent, tracestate)
+ */
+export function extractTraceContext(headers: Record<string, string | string[] | undefined>): Context {
+  return propagation.extract(context.active(), headers);
+}
+
+/**
+ * Add W3C trace headers for the active span to outgoing request headers
+ */
+export function injectTraceContext(headers: Record<string, string>): Record<string, string> {
+  propagation.inject(context.active(), headers);
+  return headers;
+}
+
+/**
+ * Record a client span for every command sent by a Redis client.
+ * Only the command name is recorded, never keys or arguments.
+ */
+export function traceRedisCommands(client: Redis): void {
+  const sendCommand = client.sendCommand.bind(client);
+
+  client.sendCommand = ((command: Command, ...rest: unknown[]) => {
+    if (!provider) {
+      return (sendCommand as (...args: unknown[]) => unknown)(command, ...rest);
+    }
+
+    const span = getTracer().startSpan(`redis ${command.name}`, {
+      kind: SpanKind.CLIENT,
+      attributes: { "db.system.name": "redis", "db.operation.name": command.name.toUpperCase() },
+    });
+    command.promise.then(
+      () => span.end(),
+      (error: unknown) => {
+        recordSpanError(span, error);
+        span.end();
+      }
+    );
+    return (sendCommand as (...args: unknown[]) => unknown)(command, ...rest);
+  }) as typeof client.sendCommand;
+}
+
+export { SpanKind };
@@ -0,0 +1,122 @@
+/**
+ * Minimal ZIP Reader
+ *
+ * Reads entries from a ZIP archive held in memory (DOCX/XLSX/PPTX are ZIP
+ * containers of XML parts). Supports stored and deflated entries only, which
+ * covers every Office Open XML file.
+ *
+ * Guards against zip bombs by capping each entry's uncompressed size and the
+ * total inflated across all entries read.
+ */
+
+import { inflateRawSync } from "node:zlib";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+// EOCD is 22 bytes plus an optional comment of up to 64KB
+const EOCD_MIN_SIZE = 22;
+const EOCD_MAX_SEARCH = EOCD_MIN_SIZE + 0xffff;
+
+const DEFAULT_MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+const DEFAULT_MAX_TOTAL_BYTES = 50 * 1024 * 1024;
+
+export type ZipReadOptions = {
+  /** Only inflate entries whose name passes this filter */
+  filter?: (name: string) => boolean;
+  /** Maximum uncompressed size per entry (default: 20MB) */
+  maxEntryBytes?: number;
+  /** Maximum uncompressed size across all entries read (default: 50MB) */
+  maxTotalBytes?: number;
+};
+
+function findEndOfCentralDirectory(buf: Buffer): number {
+  const stop = Math.max(0, buf.length - EOCD_MAX_SEARCH);
+  for (let i = buf.length - EOCD_MIN_SIZE; i >= stop; i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error("zip_invalid: end of central directory not found");
+}
+
+/**
+ * Read ZIP entries into a map of entry name → contents.
+ *
+ * @throws Error prefixed with zip_ if the archive is malformed, uses an
+ *   unsupported compression method, an entry exceeds maxEntryBytes or the
+ *   entries read exceed maxTotalBytes
+ */
+export function readZipEntries(buf: Buffer, options: ZipReadOptions = {}): Map<string, Buffer> {
+  const maxEntryBytes = options.maxEntryBytes ?? DEFAULT_MAX_ENTRY_BYTES;
+  const maxTotalBytes = options.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES;
+  if (buf.length < EOCD_MIN_SIZE) {
+    throw new Error("zip_invalid: archive too small");
+  }
+
+  const eocd = findEndOfCentralDirectory(buf);
+  const entryCount = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+
+  const entries = new Map<string, Buffer>();
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buf.length || buf.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error("zip_invalid: bad central directory entry");
+    }
+
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const uncompressedSize = buf.readUInt32LE(offset + 24);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const extraLength = buf.readUInt16LE(offset + 30);
+    const commentLength = buf.readUInt16LE(offset + 32);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/") || (options.filter && !options.filter(name))) {
+      continue;
+    }
+    if (uncompressedSize > maxEntryBytes) {
+      throw new Error(`zip_entry_too_large: ${name} (${uncompressedSize} bytes > ${maxEntryBytes})`);
+    }
+    if (totalBytes + uncompressedSize > maxTotalBytes) {
+      throw new Error(`zip_too_large: entries exceed ${maxTotalBytes} bytes uncompressed`);
+    }
+    if (localOffset + 30 > buf.length || buf.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new Error("zip_invalid: bad local file header");
+    }
+
+    // Local header name/extra lengths can differ from the central directory
+    const dataStart = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    const data = buf.subarray(dataStart, dataStart + compressedSize);
+
+    let contents: Buffer;
+    if (method === 0) {
+      contents = Buffer.from(data);
+    } else if (method === 8) {
+      // Declared sizes can lie, so cap the inflate itself by what is left of both budgets
+      const maxOutputLength = Math.min(maxEntryBytes, maxTotalBytes - totalBytes);
+      try {
+        contents = inflateRawSync(data, { maxOutputLength });
+      } catch (error) {
+        if ((error as { code?: string }).code === "ERR_BUFFER_TOO_LARGE") {
+          throw new Error(`zip_too_large: ${name} inflates past ${maxOutputLength} bytes`);
+        }
+        throw error;
+      }
+    } else {
+      throw new Error(`zip_unsupported_compression: method ${method}`);
+    }
+
+    totalBytes += contents.length;
+    if (totalBytes > maxTotalBytes) {
+      throw new Error(`zip_too_large: entries exceed ${maxTotalBytes} bytes uncompressed`);
+    }
+    entries.set(name, contents);
+  }
+
+  return entries;
+}
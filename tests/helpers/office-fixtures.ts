@@ -0,0 +1,107 @@
+/**
+ * Minimal DOCX / XLSX / PPTX builders for grounding tests
+ *
+ * Produces just enough Office Open XML for the parsers in
+ * services/officeDocs.ts; the files are not meant to open in Office.
+ */
+
+import archiver from "archiver";
+import { Buffer } from "node:buffer";
+
+const REL_NS = 'xmlns="http://schemas.openxmlformats.org/package/2006/relationships"';
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export async function zipParts(parts: Record<string, string>): Promise<Buffer> {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const chunks: Buffer[] = [];
+  archive.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<void>((resolve, reject) => {
+    archive.on("end", () => resolve());
+    archive.on("error", reject);
+  });
+
+  for (const [name, content] of Object.entries(parts)) {
+    archive.append(content, { name });
+  }
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Paragraphs prefixed with "# " become Heading1 paragraphs
+ */
+export function buildDocx(paragraphs: string[]): Promise<Buffer> {
+  const body = paragraphs
+    .map((p) =>
+      p.startsWith("# ")
+        ? `<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>${escapeXml(p.slice(2))}</w:t></w:r></w:p>`
+        : `<w:p><w:r><w:t xml:space="preserve">${escapeXml(p)}</w:t></w:r></w:p>`
+    )
+    .join("");
+
+  return zipParts({
+    "word/document.xml": `<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`,
+  });
+}
+
+/**
+ * Sheets of rows; strings go through sharedStrings, numbers are inline values
+ */
+export function buildXlsx(sheets: Record<string, Array<Array<string | number>>>): Promise<Buffer> {
+  const strings: string[] = [];
+  const parts: Record<string, string> = {};
+  const sheetTags: string[] = [];
+  const rels: string[] = [];
+
+  Object.entries(sheets).forEach(([name, rows], s) => {
+    const rowXml = rows
+      .map((cells, r) => {
+        const cellXml = cells
+          .map((value, c) => {
+            const ref = `${String.fromCharCode(65 + c)}${r + 1}`;
+            if (typeof value === "number") return `<c r="${ref}"><v>${value}</v></c>`;
+            strings.push(value);
+            return `<c r="${ref}" t="s"><v>${strings.length - 1}</v></c>`;
+          })
+          .join("");
+        return `<row r="${r + 1}">${cellXml}</row>`;
+      })
+      .join("");
+
+    parts[`xl/worksheets/sheet${s + 1}.xml`] = `<?xml version="1.0"?><worksheet><sheetData>${rowXml}</sheetData></worksheet>`;
+    sheetTags.push(`<sheet name="${escapeXml(name)}" sheetId="${s + 1}" r:id="rId${s + 1}"/>`);
+    rels.push(`<Relationship Id="rId${s + 1}" Target="worksheets/sheet${s + 1}.xml"/>`);
+  });
+
+  parts["xl/workbook.xml"] = `<?xml version="1.0"?><workbook><sheets>${sheetTags.join("")}</sheets></workbook>`;
+  parts["xl/_rels/workbook.xml.rels"] = `<?xml version="1.0"?><Relationships ${REL_NS}>${rels.join("")}</Relationships>`;
+  parts["xl/sharedStrings.xml"] = `<?xml version="1.0"?><sst>${strings.map((t) => `<si><t>${escapeXml(t)}</t></si>`).join("")}</sst>`;
+
+  return zipParts(parts);
+}
+
+/**
+ * Slides of paragraphs, stored in reverse file order to exercise presentation ordering
+ */
+export function buildPptx(slides: string[][]): Promise<Buffer> {
+  const parts: Record<string, string> = {};
+  const ids: string[] = [];
+  const rels: string[] = [];
+
+  slides.forEach((paragraphs, i) => {
+    const file = slides.length - i;
+    const text = paragraphs.map((p) => `<a:p><a:r><a:t>${escapeXml(p)}</a:t></a:r></a:p>`).join("");
+    parts[`ppt/slides/slide${file}.xml`] = `<?xml version="1.0"?><p:sld><p:cSld><p:spTree><p:sp><p:txBody>${text}</p:txBody></p:sp></p:spTree></p:cSld></p:sld>`;
+    ids.push(`<p:sldId id="${256 + i}" r:id="rId${i + 1}"/>`);
+    rels.push(`<Relationship Id="rId${i + 1}" Target="slides/slide${file}.xml"/>`);
+  });
+
+  parts["ppt/presentation.xml"] = `<?xml version="1.0"?><p:presentation><p:sldIdLst>${ids.join("")}</p:sldIdLst></p:presentation>`;
+  parts["ppt/_rels/presentation.xml.rels"] = `<?xml version="1.0"?><Relationships ${REL_NS}>${rels.join("")}</Relationships>`;
+
+  return zipParts(parts);
+}
@@ -0,0 +1,123 @@
+/**
+ * Admin role-based access control
+ *
+ * Named admin identities are checked per route and recorded as the audit actor.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { FastifyInstance } from "fastify";
+import { build } from "../../src/server.js";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+import { getAuditLogger } from "../../src/prompts/index.js";
+
+const KEYS = {
+  viewer: "viewer-key-0123456789",
+  editor: "editor-key-0123456789",
+  approver: "approver-key-0123456789",
+  operator: "operator-key-0123456789",
+  legacyRead: "legacy-read-key",
+};
+
+describe("Admin RBAC", () => {
+  let app: FastifyInstance;
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "admin-rbac-"));
+
+    vi.stubEnv("LLM_PROVIDER", "fixtures");
+    vi.stubEnv("PROMPTS_ENABLED", "true");
+    vi.stubEnv("PROMPTS_STORE_PATH", join(dir, "prompts.json"));
+    vi.stubEnv("ADMIN_API_KEY_READ", KEYS.legacyRead);
+    vi.stubEnv("ADMIN_IDENTITIES", JSON.stringify([
+      { id: "vera@example.com", key: KEYS.viewer, roles: ["viewer"] },
+      { id: "eddie@example.com", key: KEYS.editor, roles: ["prompt-editor"] },
+      { id: "ava@example.com", key: KEYS.approver, roles: ["approver"] },
+      { id: "otto@example.com", key: KEYS.operator, roles: ["operator"] },
+    ]));
+
+    cleanBaseUrl();
+    app = await build();
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const as = (key: string) => ({ "X-Admin-Key": key });
+
+  it("lets viewers read but not edit prompts", async () => {
+    const list = await app.inject({ method: "GET", url: "/admin/prompts", headers: as(KEYS.viewer) });
+    expect(list.statusCode).toBe(200);
+
+    const create = await app.inject({
+      method: "POST",
+      url: "/admin/prompts",
+      headers: as(KEYS.viewer),
+      payload: { id: "rbac_viewer", name: "Viewer", taskId: "draft_graph", content: "You draft graphs.", createdBy: "vera" },
+    });
+    expect(create.statusCode).toBe(403);
+    expect(create.json()).toMatchObject({ error: "forbidden", required_permission: "prompts:edit" });
+
+    const invalid = await app.inject({ method: "GET", url: "/admin/prompts", headers: as("not-a-real-admin-key") });
+    expect(invalid.statusCode).toBe(401);
+  });
+
+  it("records the editor and approver identities instead of free-text attribution", async () => {
+    const create = await app.inject({
+      method: "POST",
+      url: "/admin/prompts",
+      headers: as(KEYS.editor),
+      payload: { id: "rbac_prompt", name: "RBAC", taskId: "draft_graph", content: "You draft graphs.", createdBy: "someone-else" },
+    });
+    expect(create.statusCode).toBe(201);
+    expect(create.json().versions[0].createdBy).toBe("eddie@example.com");
+
+    const version = await app.inject({
+      method: "POST",
+      url: "/admin/prompts/rbac_prompt/versions",
+      headers: as(KEYS.editor),
+      payload: { content: "You draft better graphs.", createdBy: "someone-else", requiresApproval: true },
+    });
+    expect(version.statusCode).toBe(201);
+
+    const editorApprove = await app.inject({
+      method: "POST",
+      url: "/admin/prompts/rbac_prompt/approve",
+      headers: as(KEYS.editor),
+      payload: { version: 2, approvedBy: "eddie" },
+    });
+    expect(editorApprove.statusCode).toBe(403);
+    expect(editorApprove.json().required_permission).toBe("prompts:approve");
+
+    const approve = await app.inject({
+      method: "POST",
+      url: "/admin/prompts/rbac_prompt/approve",
+      headers: as(KEYS.approver),
+      payload: { version: 2, approvedBy: "spoofed" },
+    });
+    expect(approve.statusCode).toBe(200);
+    expect(approve.json().approvedBy).toBe("ava@example.com");
+
+    const entries = getAuditLogger().getForResource("prompt", "rbac_prompt");
+    expect(entries.map((e) => e.actor)).toContain("eddie@example.com");
+    expect(getAuditLogger().getByActor("ava@example.com").map((e) => e.action)).toContain("version.approved");
+  });
+
+  it("keeps raw LLM output operator-only", async () => {
+    const url = "/admin/v1/llm-output/req-missing";
+
+    expect((await app.inject({ method: "GET", url, headers: as(KEYS.viewer) })).statusCode).toBe(403);
+    expect((await app.inject({ method: "GET", url, headers: as(KEYS.legacyRead) })).statusCode).toBe(403);
+    expect((await app.inject({ method: "GET", url, headers: as(KEYS.operator) })).statusCode).toBe(404);
+
+    const stats = await app.inject({ method: "GET", url: "/admin/v1/llm-output-stats", headers: as(KEYS.legacyRead) });
+    expect(stats.statusCode).toBe(200);
+  });
+});
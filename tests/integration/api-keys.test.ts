@@ -0,0 +1,195 @@
+/**
+ * Managed API keys
+ *
+ * Keys issued through /admin/v1/api-keys authenticate alongside static keys,
+ * rotate with an overlap window and carry their own rate limits.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { FastifyInstance } from "fastify";
+import { build } from "../../src/server.js";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+import { resetManagedKeyStore } from "../../src/utils/api-key-store.js";
+import { getAuditLogger } from "../../src/prompts/index.js";
+
+const OPERATOR = "operator-key-0123456789";
+const VIEWER = "viewer-key-0123456789";
+// Separate key so the admin rate-limit bucket (per key prefix) is not shared
+const AUDITED = "audited-key-0123456789";
+
+describe("Managed API keys", () => {
+  let app: FastifyInstance;
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "api-keys-"));
+
+    vi.stubEnv("LLM_PROVIDER", "fixtures");
+    vi.stubEnv("ASSIST_API_KEYS", "static-key-1");
+    vi.stubEnv("API_KEY_MANAGEMENT_ENABLED", "true");
+    vi.stubEnv("API_KEY_STORE_PATH", join(dir, "api-keys.json"));
+    vi.stubEnv("ADMIN_IDENTITIES", JSON.stringify([
+      { id: "otto@example.com", key: OPERATOR, roles: ["operator"] },
+      { id: "vera@example.com", key: VIEWER, roles: ["viewer"] },
+      { id: "ada@example.com", key: AUDITED, roles: ["operator"] },
+    ]));
+
+    resetManagedKeyStore();
+    cleanBaseUrl();
+    app = await build();
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.unstubAllEnvs();
+    resetManagedKeyStore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const admin = (key: string = OPERATOR) => ({ "X-Admin-Key": key });
+
+  async function createKey(payload: Record<string, unknown>) {
+    const res = await app.inject({ method: "POST", url: "/admin/v1/api-keys", headers: admin(), payload });
+    expect(res.statusCode).toBe(201);
+    return res.json() as { key_id: string; key: string };
+  }
+
+  const limits = (key: string) =>
+    app.inject({ method: "GET", url: "/v1/limits", headers: { "X-Olumi-Assist-Key": key } });
+
+  it("issues keys that authenticate immediately and stores only hashes", async () => {
+    const { key_id, key } = await createKey({ name: "Acme onboarding", tenant: "acme" });
+    expect(key.startsWith(`${key_id}.`)).toBe(true);
+
+    const res = await limits(key);
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toMatchObject({ key_id, last_used_at: expect.any(String) });
+
+    expect(readFileSync(join(dir, "api-keys.json"), "utf-8")).not.toContain(key);
+
+    const list = await app.inject({ method: "GET", url: "/admin/v1/api-keys", headers: admin(VIEWER) });
+    expect(list.statusCode).toBe(200);
+    const listed = list.json().keys.find((k: { key_id: string }) => k.key_id === key_id);
+    expect(listed).toMatchObject({ name: "Acme onboarding", status: "active", tenant: "acme" });
+    expect(listed.last_used_at).not.toBeNull();
+    expect(listed).not.toHaveProperty("key");
+
+    const tampered = await limits(`${key_id}.not-the-secret`);
+    expect(tampered.statusCode).toBe(403);
+
+    // Static keys keep working
+    expect((await limits("static-key-1")).statusCode).toBe(200);
+  });
+
+  it("keeps the old secret valid during the rotation overlap", async () => {
+    const { key_id, key: original } = await createKey({ name: "Rotating" });
+
+    const rotated = await app.inject({
+      method: "POST",
+      url: `/admin/v1/api-keys/${key_id}/rotate`,
+      headers: admin(),
+      payload: {},
+    });
+    expect(rotated.statusCode).toBe(200);
+    const { key: second, secrets } = rotated.json();
+    expect(secrets).toHaveLength(2);
+    expect(secrets[0].expires_at).not.toBeNull();
+
+    expect((await limits(original)).statusCode).toBe(200);
+    expect((await limits(second)).statusCode).toBe(200);
+
+    const revoked = await app.inject({
+      method: "POST",
+      url: `/admin/v1/api-keys/${key_id}/rotate`,
+      headers: admin(),
+      payload: { overlap_hours: 0 },
+    });
+    const third = revoked.json().key;
+
+    expect((await limits(original)).statusCode).toBe(403);
+    expect((await limits(second)).statusCode).toBe(403);
+    expect((await limits(third)).statusCode).toBe(200);
+  });
+
+  it("applies per-key rate limits and reports them", async () => {
+    const { key_id, key } = await createKey({ name: "Throttled", rate_limit_rpm: 2 });
+
+    const first = await limits(key);
+    expect(first.json()).toMatchObject({ rate_limit_rpm: 2, standard_quota: { capacity_rpm: 2 } });
+    expect((await limits(key)).statusCode).toBe(200);
+    expect((await limits(key)).statusCode).toBe(429);
+
+    const raised = await app.inject({
+      method: "PATCH",
+      url: `/admin/v1/api-keys/${key_id}`,
+      headers: admin(),
+      payload: { rate_limit_rpm: null },
+    });
+    expect(raised.statusCode).toBe(200);
+    expect(raised.json().rate_limit_rpm).toBeNull();
+  });
+
+  it("disables keys and restricts management to operators", async () => {
+    const { key_id, key } = await createKey({ name: "Leaked", scopes: ["analysis:read"] });
+
+    const draft = await app.inject({
+      method: "POST",
+      url: "/assist/draft-graph",
+      headers: { "X-Olumi-Assist-Key": key },
+      payload: { brief: "This is a test brief that meets the minimum length requirement for validation" },
+    });
+    expect(draft.statusCode).toBe(403);
+    expect(draft.json().details).toEqual({ required_scope: "draft:write" });
+
+    const viewerDisable = await app.inject({
+      method: "POST",
+      url: `/admin/v1/api-keys/${key_id}/disable`,
+      headers: admin(VIEWER),
+    });
+    expect(viewerDisable.statusCode).toBe(403);
+    expect(viewerDisable.json().required_permission).toBe("keys:manage");
+
+    const disabled = await app.inject({
+      method: "POST",
+      url: `/admin/v1/api-keys/${key_id}/disable`,
+      headers: admin(),
+    });
+    expect(disabled.statusCode).toBe(200);
+    expect(disabled.json().status).toBe("disabled");
+
+    expect((await limits(key)).statusCode).toBe(403);
+
+    const rotate = await app.inject({
+      method: "POST",
+      url: `/admin/v1/api-keys/${key_id}/rotate`,
+      headers: admin(),
+      payload: {},
+    });
+    expect(rotate.statusCode).toBe(409);
+  });
+
+  it("audits key changes with the admin identity", async () => {
+    const created = await app.inject({ method: "POST", url: "/admin/v1/api-keys", headers: admin(AUDITED), payload: { name: "Audited" } });
+    const { key_id } = created.json() as { key_id: string };
+    const base = `/admin/v1/api-keys/${key_id}`;
+
+    const updated = await app.inject({ method: "PATCH", url: base, headers: admin(AUDITED), payload: { rate_limit_rpm: 30 } });
+    const rotated = await app.inject({ method: "POST", url: `${base}/rotate`, headers: admin(AUDITED), payload: { overlap_hours: 0 } });
+    const disabled = await app.inject({ method: "POST", url: `${base}/disable`, headers: admin(AUDITED) });
+    expect([created, updated, rotated, disabled].map((res) => res.statusCode)).toEqual([201, 200, 200, 200]);
+
+    const entries = getAuditLogger().getForResource("api_key", key_id);
+    expect(entries.map((e) => e.action).sort()).toEqual([
+      "api_key.created",
+      "api_key.disabled",
+      "api_key.rotated",
+      "api_key.updated",
+    ]);
+    expect(entries.every((e) => e.actor === "ada@example.com")).toBe(true);
+    expect(entries.find((e) => e.action === "api_key.updated")?.metadata).toMatchObject({ fields: ["rate_limit_rpm"] });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Caller context without auth configured
+ *
+ * With no keys, HMAC secret, JWKS or managed keys, requests are let through
+ * but still carry a caller context, so X-Olumi-Domain reaches the resolver.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { authPlugin } from "../../src/plugins/auth.js";
+import { getCurrentCallerContext } from "../../src/context/index.js";
+import { _resetConfigCache } from "../../src/config/index.js";
+
+describe("Auth plugin without auth configured", () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    vi.stubEnv("ASSIST_API_KEY", undefined);
+    vi.stubEnv("ASSIST_API_KEYS", undefined);
+    vi.stubEnv("HMAC_SECRET", undefined);
+    vi.stubEnv("CEE_HMAC_SECRET", undefined);
+    vi.stubEnv("AUTH_JWKS_PATH", undefined);
+    vi.stubEnv("API_KEY_MANAGEMENT_ENABLED", "false");
+    _resetConfigCache();
+
+    app = Fastify();
+    await app.register(authPlugin);
+    app.get("/assist/probe", async () => ({
+      domains: getCurrentCallerContext()?.domainOverride ?? null,
+    }));
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.unstubAllEnvs();
+    _resetConfigCache();
+  });
+
+  it("passes the X-Olumi-Domain override through to the caller context", async () => {
+    const res = await app.inject({
+      method: "GET",
+      url: "/assist/probe",
+      headers: { "X-Olumi-Domain": "fintech, public-sector" },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json()).toEqual({ domains: ["fintech", "public_sector"] });
+  });
+
+  it("leaves the override unset without the header", async () => {
+    const res = await app.inject({ method: "GET", url: "/assist/probe" });
+
+    expect(res.json()).toEqual({ domains: null });
+  });
+});
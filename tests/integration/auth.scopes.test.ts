@@ -0,0 +1,146 @@
+/**
+ * Scoped API keys and JWT bearer auth
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { generateKeyPairSync, sign } from "node:crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { FastifyInstance } from "fastify";
+import { build } from "../../src/server.js";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+import { fastHash } from "../../src/utils/hash.js";
+
+const ANALYTICS = "test-key-analytics";
+const FULL = "test-key-full";
+
+const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+function makeJwt(claims: Record<string, unknown>): string {
+  const header = Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT", kid: "idp-1" })).toString("base64url");
+  const payload = Buffer.from(JSON.stringify({
+    iss: "https://login.example.com/",
+    aud: "olumi-assistants",
+    sub: "user-42",
+    exp: Math.floor(Date.now() / 1000) + 300,
+    ...claims,
+  })).toString("base64url");
+  const signature = sign("sha256", Buffer.from(`${header}.${payload}`), privateKey).toString("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+const brief = "This is a test brief that meets the minimum length requirement for validation";
+
+const graph = {
+  version: "1",
+  default_seed: 17,
+  nodes: [{ id: "q1", kind: "goal", label: "Launch?" }],
+  edges: [],
+  meta: { roots: [], leaves: [], suggested_positions: {}, source: "assistant" },
+};
+
+describe("Scoped auth", () => {
+  let app: FastifyInstance;
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "jwks-"));
+    writeFileSync(join(dir, "jwks.json"), JSON.stringify({
+      keys: [{ ...publicKey.export({ format: "jwk" }), kid: "idp-1", alg: "RS256" }],
+    }));
+
+    vi.stubEnv("LLM_PROVIDER", "fixtures");
+    vi.stubEnv("ASSIST_API_KEYS", `${ANALYTICS},${FULL}`);
+    vi.stubEnv("ASSIST_API_KEY_SCOPES", JSON.stringify({
+      [fastHash(ANALYTICS, 8)]: { scopes: ["analysis:read"], tenant: "acme" },
+    }));
+    vi.stubEnv("AUTH_JWKS_PATH", join(dir, "jwks.json"));
+    vi.stubEnv("AUTH_JWT_ISSUER", "https://login.example.com/");
+    vi.stubEnv("AUTH_JWT_AUDIENCE", "olumi-assistants");
+
+    cleanBaseUrl();
+    app = await build();
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps a read-only key out of drafting routes", async () => {
+    const draft = await app.inject({
+      method: "POST",
+      url: "/assist/draft-graph",
+      headers: { "X-Olumi-Assist-Key": ANALYTICS },
+      payload: { brief },
+    });
+    expect(draft.statusCode).toBe(403);
+    expect(draft.json()).toMatchObject({ code: "FORBIDDEN", details: { required_scope: "draft:write" } });
+
+    const render = await app.inject({
+      method: "POST",
+      url: "/assist/v1/render-graph",
+      headers: { "X-Olumi-Assist-Key": ANALYTICS },
+      payload: { graph },
+    });
+    expect(render.statusCode).toBe(200);
+
+    const limits = await app.inject({ method: "GET", url: "/v1/limits", headers: { "X-Olumi-Assist-Key": ANALYTICS } });
+    expect(limits.statusCode).not.toBe(403);
+  });
+
+  it("gives keys without a scope entry full access", async () => {
+    const draft = await app.inject({
+      method: "POST",
+      url: "/assist/draft-graph",
+      headers: { "X-Olumi-Assist-Key": FULL },
+      payload: { brief },
+    });
+    expect(draft.statusCode).toBe(200);
+  });
+
+  it("authenticates end-user JWTs and enforces their scopes", async () => {
+    const token = makeJwt({ scope: "draft:write", tenant_id: "acme" });
+
+    const draft = await app.inject({
+      method: "POST",
+      url: "/assist/draft-graph",
+      headers: { authorization: `Bearer ${token}` },
+      payload: { brief },
+    });
+    expect(draft.statusCode).toBe(200);
+
+    const share = await app.inject({
+      method: "POST",
+      url: "/assist/share",
+      headers: { authorization: `Bearer ${token}` },
+      payload: { graph },
+    });
+    expect(share.statusCode).toBe(403);
+    expect(share.json().details).toEqual({ required_scope: "share:create" });
+  });
+
+  it("rejects expired or forged JWTs", async () => {
+    const expired = await app.inject({
+      method: "POST",
+      url: "/assist/v1/render-graph",
+      headers: { authorization: `Bearer ${makeJwt({ scope: "*", exp: 1 })}` },
+      payload: { graph },
+    });
+    expect(expired.statusCode).toBe(401);
+    expect(expired.json()).toMatchObject({ code: "UNAUTHENTICATED", message: expect.stringContaining("EXPIRED") });
+
+    const [header, , signature] = makeJwt({}).split(".");
+    const forgedPayload = Buffer.from(JSON.stringify({ sub: "admin", scope: "*" })).toString("base64url");
+    const forged = await app.inject({
+      method: "POST",
+      url: "/assist/v1/render-graph",
+      headers: { authorization: `Bearer ${header}.${forgedPayload}.${signature}` },
+      payload: { graph },
+    });
+    expect(forged.statusCode).toBe(401);
+  });
+});
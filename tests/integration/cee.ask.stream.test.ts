@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+
+// In-memory stand-ins for the Redis-backed SSE buffer so resume can be exercised
+const { sse, redisState } = vi.hoisted(() => ({
+  sse: {
+    states: new Map<string, { last_seq: number; status: string }>(),
+    buffers: new Map<string, Array<{ seq: number; type: string; data: string; timestamp: number }>>(),
+    snapshots: new Map<string, { status: string; final_payload: unknown }>(),
+  },
+  redisState: { available: false },
+}));
+
+vi.mock("../../src/platform/redis.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/platform/redis.js")>()),
+  getRedis: async () =>
+    redisState.available
+      ? new Proxy({}, { get: (_target, prop) => (prop === "then" ? undefined : async () => null) })
+      : null,
+}));
+
+vi.mock("../../src/utils/sse-state.js", () => ({
+  initStreamState: async (id: string) => {
+    sse.states.set(id, { last_seq: 0, status: "drafting" });
+    sse.buffers.set(id, []);
+  },
+  bufferEvent: async (id: string, event: { seq: number; type: string; data: string; timestamp: number }) => {
+    sse.buffers.get(id)?.push(event);
+    const state = sse.states.get(id);
+    if (state) state.last_seq = event.seq;
+  },
+  markStreamComplete: async (id: string, finalPayload: unknown, status = "complete") => {
+    const state = sse.states.get(id);
+    if (state) state.status = status;
+    sse.snapshots.set(id, { status, final_payload: finalPayload });
+  },
+  cleanupStreamState: async (id: string) => {
+    sse.states.delete(id);
+    sse.buffers.delete(id);
+  },
+  getStreamState: async (id: string) => sse.states.get(id) ?? null,
+  getBufferedEvents: async (id: string, fromSeq: number) => (sse.buffers.get(id) ?? []).filter((e) => e.seq > fromSeq),
+  getSnapshot: async (id: string) => sse.snapshots.get(id) ?? null,
+  renewSnapshot: async () => undefined,
+}));
+
+import { build } from "../../src/server.js";
+
+interface ParsedEvent {
+  id?: number;
+  event: string;
+  data: any;
+}
+
+function parseSse(payload: string): ParsedEvent[] {
+  return payload
+    .split("\n\n")
+    .filter((block) => block.includes("event:"))
+    .map((block) => {
+      const lines = block.split("\n");
+      const field = (name: string) => lines.find((l) => l.startsWith(`${name}: `))?.slice(name.length + 2);
+      const id = field("id");
+      return { id: id !== undefined ? Number(id) : undefined, event: field("event")!, data: JSON.parse(field("data")!) };
+    });
+}
+
+describe("POST /assist/v1/ask/stream", () => {
+  let app: FastifyInstance;
+  const authHeaders = { "X-Olumi-Assist-Key": "cee-ask-stream-key" } as const;
+
+  const createRequest = (overrides = {}) => ({
+    scenario_id: "stream-scenario",
+    graph_schema_version: "2.2",
+    brief: "We need to decide on a cloud provider for our new SaaS platform.",
+    message: "Can you fix any issues with this model?",
+    intent: "repair",
+    graph_snapshot: {
+      nodes: [
+        { id: "goal_1", kind: "goal", label: "Choose Cloud Provider" },
+        { id: "factor_cost", kind: "factor", label: "Cost" },
+        { id: "factor_orphan", kind: "factor", label: "Disconnected Factor" },
+      ],
+      edges: [{ from: "factor_cost", to: "goal_1", belief: 0.8 }],
+    },
+    market_context: { id: "ctx_1", version: "1.0", hash: "abc123" },
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    vi.stubEnv("ASSIST_API_KEYS", "cee-ask-stream-key");
+    vi.stubEnv("LLM_PROVIDER", "fixtures");
+    vi.stubEnv("SSE_RESUME_SECRET", "ask-stream-test-secret");
+    app = await build();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(() => {
+    redisState.available = false;
+    sse.states.clear();
+    sse.buffers.clear();
+    sse.snapshots.clear();
+  });
+
+  it("streams the message token-by-token, then validated items, then the full response", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/v1/ask/stream",
+      headers: { ...authHeaders, "X-Request-Id": "ask-stream-1" },
+      payload: createRequest(),
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/event-stream");
+    expect(res.headers["x-cee-request-id"]).toBe("ask-stream-1");
+    expect(res.headers["x-olumi-degraded"]).toBeDefined();
+
+    const events = parseSse(res.payload);
+    const complete = events.at(-1)!;
+    expect(complete.event).toBe("complete");
+    expect(complete.data.request_id).toBe("ask-stream-1");
+
+    const deltas = events.filter((e) => e.event === "message_delta");
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.map((e) => e.data.delta).join("")).toBe(complete.data.message);
+
+    expect(events.filter((e) => e.event === "model_action").map((e) => e.data)).toEqual(complete.data.model_actions);
+    expect(events.filter((e) => e.event === "highlight").map((e) => e.data)).toEqual(complete.data.highlights);
+    expect(events.filter((e) => e.event === "why").map((e) => e.data)).toEqual(complete.data.why);
+
+    // Message first, then actions, highlights, why
+    const order = events.map((e) => e.event).filter((type, i, all) => type !== all[i - 1]);
+    expect(order).toEqual(["message_delta", "model_action", "highlight", "why", "complete"]);
+    expect(events.map((e) => e.id)).toEqual(events.map((_, i) => i));
+  });
+
+  it("returns the same response as the JSON endpoint", async () => {
+    const payload = createRequest({ intent: "explain", selection: { node_id: "factor_cost" } });
+    const [json, stream] = await Promise.all([
+      app.inject({ method: "POST", url: "/assist/v1/ask", headers: authHeaders, payload }),
+      app.inject({ method: "POST", url: "/assist/v1/ask/stream", headers: authHeaders, payload }),
+    ]);
+
+    const { attribution: _a, request_id: _r, ...jsonBody } = JSON.parse(json.payload);
+    const { attribution: _b, request_id: _s, ...streamBody } = parseSse(stream.payload).at(-1)!.data;
+    expect(streamBody).toEqual(jsonBody);
+  });
+
+  it("rejects invalid bodies with an SSE error event", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/v1/ask/stream",
+      headers: authHeaders,
+      payload: { message: "hi" },
+    });
+
+    expect(res.statusCode).toBe(400);
+    const events = parseSse(res.payload);
+    expect(events).toHaveLength(1);
+    expect(events[0].event).toBe("error");
+    expect(events[0].data.error.code).toBe("CEE_ASK_INVALID_GRAPH");
+  });
+
+  describe("resume", () => {
+    it("issues a resume token and replays the finished stream from its snapshot", async () => {
+      redisState.available = true;
+
+      const res = await app.inject({
+        method: "POST",
+        url: "/assist/v1/ask/stream",
+        headers: { ...authHeaders, "X-Request-Id": "ask-stream-resume" },
+        payload: createRequest(),
+      });
+
+      const events = parseSse(res.payload);
+      expect(res.headers["x-olumi-degraded"]).toBeUndefined();
+      expect(events[0].event).toBe("resume");
+
+      const resumed = await app.inject({
+        method: "POST",
+        url: "/assist/v1/ask/resume",
+        headers: { ...authHeaders, "X-Resume-Token": events[0].data.token },
+      });
+
+      expect(resumed.statusCode).toBe(200);
+      const replayed = parseSse(resumed.payload);
+      expect(replayed).toHaveLength(1);
+      expect(replayed[0].event).toBe("complete");
+      expect(replayed[0].data).toEqual(events.at(-1)!.data);
+    });
+
+    it("replays buffered events after Last-Event-ID while the stream is live", async () => {
+      redisState.available = true;
+      const res = await app.inject({
+        method: "POST",
+        url: "/assist/v1/ask/stream",
+        headers: { ...authHeaders, "X-Request-Id": "ask-stream-live" },
+        payload: createRequest(),
+      });
+      const events = parseSse(res.payload);
+
+      // Simulate a stream that is still in flight: buffer present, no snapshot yet
+      sse.states.set("ask-stream-live", { last_seq: 3, status: "drafting" });
+      sse.buffers.set(
+        "ask-stream-live",
+        events.slice(0, 4).map((e) => ({ seq: e.id!, type: e.event, data: JSON.stringify(e.data), timestamp: Date.now() }))
+      );
+      sse.snapshots.delete("ask-stream-live");
+
+      const resumed = await app.inject({
+        method: "POST",
+        url: "/assist/v1/ask/resume",
+        headers: { ...authHeaders, "X-Resume-Token": events[0].data.token, "Last-Event-ID": "1" },
+      });
+
+      const replayed = parseSse(resumed.payload);
+      expect(replayed.map((e) => e.id)).toEqual([2, 3]);
+      expect(replayed.map((e) => e.data)).toEqual([events[2].data, events[3].data]);
+    });
+
+    it("rejects missing and tampered tokens", async () => {
+      const missing = await app.inject({ method: "POST", url: "/assist/v1/ask/resume", headers: authHeaders });
+      expect(missing.statusCode).toBe(400);
+
+      const tampered = await app.inject({
+        method: "POST",
+        url: "/assist/v1/ask/resume",
+        headers: { ...authHeaders, "X-Resume-Token": "bm90LWEtdG9rZW4" },
+      });
+      expect(tampered.statusCode).toBe(401);
+      expect(JSON.parse(tampered.payload).error.code).toBe("CEE_ASK_RESUME_INVALID");
+    });
+  });
+});
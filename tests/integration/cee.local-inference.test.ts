@@ -0,0 +1,148 @@
+/**
+ * CEE v1 Local Inference Integration Tests
+ *
+ * Exercises the quantitative endpoints without caller-supplied inference
+ * results, served by the in-process Monte Carlo engine when
+ * LOCAL_INFERENCE_ENABLED is set, and rejected when it is not.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+
+vi.stubEnv("LLM_PROVIDER", "fixtures");
+
+import { build } from "../../src/server.js";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+
+describe("CEE v1 local inference", () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    vi.stubEnv("ASSIST_API_KEYS", "cee-local-key-1");
+    vi.stubEnv("LOCAL_INFERENCE_ENABLED", "true");
+    vi.stubEnv("LOCAL_INFERENCE_SAMPLES", "500");
+
+    cleanBaseUrl();
+    app = await build();
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.unstubAllEnvs();
+  });
+
+  const headers = { "X-Olumi-Assist-Key": "cee-local-key-1" } as const;
+
+  function makeGraphPayload() {
+    return {
+      version: "1",
+      default_seed: 17,
+      nodes: [
+        { id: "dec_price", kind: "decision", label: "Pricing" },
+        { id: "opt_raise", kind: "option", label: "Raise to £59", data: { interventions: { fac_price: 59 } } },
+        { id: "opt_hold", kind: "option", label: "Hold at £49", data: { interventions: { fac_price: 49 } } },
+        { id: "fac_price", kind: "factor", label: "Price", data: { value: 49, range: { min: 39, max: 69 } } },
+        { id: "fac_churn", kind: "factor", label: "Churn rate", data: { value: 0.05, range: { min: 0.02, max: 0.12 } } },
+        { id: "out_revenue", kind: "outcome", label: "Revenue" },
+        { id: "goal_rev", kind: "goal", label: "Grow revenue" },
+      ],
+      edges: [
+        { from: "dec_price", to: "opt_raise" },
+        { from: "dec_price", to: "opt_hold" },
+        { from: "fac_price", to: "out_revenue", strength_mean: 0.6, strength_std: 0.1 },
+        { from: "fac_price", to: "fac_churn", strength_mean: 0.5 },
+        { from: "fac_churn", to: "out_revenue", strength_mean: -0.7, strength_std: 0.1 },
+        { from: "out_revenue", to: "goal_rev", strength_mean: 1 },
+      ],
+      meta: { roots: ["dec_price"], leaves: ["goal_rev"], suggested_positions: {}, source: "assistant" },
+    };
+  }
+
+  it("explains a graph without inference results", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/v1/explain-graph",
+      headers,
+      payload: { graph: makeGraphPayload() },
+    });
+
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body.explanation.top_drivers[0]).toMatchObject({ id: "fac_churn", label: "Churn rate" });
+    expect(body.trace.engine).toMatchObject({ provider: "olumi-local", model: "monte-carlo-v1" });
+  });
+
+  it("coaches sensitivity without inference results", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/v1/sensitivity-coach",
+      headers,
+      payload: { graph: makeGraphPayload() },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json().sensitivity_suggestions.length).toBeGreaterThan(0);
+  });
+
+  it("derives key insight without ranked actions", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/v1/key-insight",
+      headers,
+      payload: { graph: makeGraphPayload() },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json().headline).toContain("£59");
+  });
+
+  it("synthesises ISL narratives from a graph alone", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/v1/isl-synthesis",
+      headers,
+      payload: { graph: makeGraphPayload() },
+    });
+
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body.robustness_narrative).toContain("Raise to £59");
+    expect(body.tipping_narrative).toBeDefined();
+  });
+
+  it("rejects graphs the engine cannot evaluate", async () => {
+    const graph = makeGraphPayload();
+    graph.edges.push({ from: "goal_rev", to: "fac_churn", strength_mean: 0.1 });
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/v1/explain-graph",
+      headers,
+      payload: { graph },
+    });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.json().message).toContain("local inference failed");
+  });
+
+  describe("when disabled", () => {
+    beforeEach(() => {
+      vi.stubEnv("LOCAL_INFERENCE_ENABLED", "false");
+    });
+
+    it("requires inference results", async () => {
+      const res = await app.inject({
+        method: "POST",
+        url: "/assist/v1/explain-graph",
+        headers,
+        payload: { graph: makeGraphPayload() },
+      });
+
+      expect(res.statusCode).toBe(400);
+      const body = res.json();
+      expect(body.code).toBe("CEE_VALIDATION_FAILED");
+      expect(body.message).toContain("local inference is disabled");
+    });
+  });
+});
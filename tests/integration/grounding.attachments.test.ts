@@ -19,6 +19,9 @@ import critiqueRoute from "../../src/routes/assist.critique-graph.js";
 vi.stubEnv("LLM_PROVIDER", "fixtures");
 // Enable grounding for these tests (defaults to false)
 vi.stubEnv("GROUNDING_ENABLED", "true");
+// Pin the extraction limits these tests assert on (defaults are larger)
+vi.stubEnv("DOC_MAX_DOCUMENT_CHARS", "5000");
+vi.stubEnv("DOC_MAX_TOTAL_CHARS", "50000");
 
 describe("Grounding: Attachments Integration (v04)", () => {
   let draftApp: ReturnType<typeof Fastify>;
@@ -0,0 +1,126 @@
+/**
+ * Attachment Retrieval Integration Tests
+ *
+ * With RETRIEVAL_ENABLED, long attachments are accepted, only the chunks
+ * relevant to the brief reach the draft adapter, edges citing a chunk carry
+ * its ID in provenance, and the evidence helper returns retrieved chunks.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from "vitest";
+import Fastify from "fastify";
+import { Buffer } from "node:buffer";
+import draftRoute from "../../src/routes/assist.draft-graph.js";
+import evidenceRoute from "../../src/routes/assist.v1.evidence-helper.js";
+import { FixturesAdapter } from "../../src/adapters/llm/fixtures.js";
+
+vi.stubEnv("LLM_PROVIDER", "fixtures");
+vi.stubEnv("GROUNDING_ENABLED", "true");
+vi.stubEnv("RETRIEVAL_ENABLED", "true");
+
+const EVIDENCE_LINE = 250;
+
+// ~20k characters: far more than the few chunks retrieved per query
+const longNotes = Array.from({ length: 300 }, (_, i) =>
+  i + 1 === EVIDENCE_LINE
+    ? "Onboarding calls reduced first-year churn from 14% to 9% in the pilot."
+    : `Facilities log entry ${i + 1}: parking permits, catering invoices and desk moves.`
+).join("\n");
+
+const attachmentPayload = {
+  attachments: [{ id: "notes", kind: "txt", name: "notes.txt" }],
+  attachment_payloads: { notes: Buffer.from(longNotes, "utf-8").toString("base64") },
+};
+
+describe("Grounding: attachment retrieval", () => {
+  let draftApp: ReturnType<typeof Fastify>;
+  let evidenceApp: ReturnType<typeof Fastify>;
+
+  beforeAll(async () => {
+    draftApp = Fastify();
+    await draftRoute(draftApp);
+
+    evidenceApp = Fastify();
+    await evidenceRoute(evidenceApp);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("sends only relevant chunks to the draft adapter and threads chunk IDs into provenance", async () => {
+    const original = FixturesAdapter.prototype.draftGraph;
+    let sentDocs: Array<{ source: string; preview: string }> = [];
+
+    vi.spyOn(FixturesAdapter.prototype, "draftGraph").mockImplementation(async function (this: FixturesAdapter, args: any, opts: any) {
+      sentDocs = args.docs;
+      const result = await original.call(this, args, opts);
+      return {
+        ...result,
+        graph: {
+          ...result.graph,
+          edges: result.graph.edges.map((edge: any) =>
+            edge.from === "fac_1" && edge.to === "out_1"
+              ? { ...edge, provenance: { source: "notes.txt", quote: "reduced first-year churn from 14% to 9%", location: `line ${EVIDENCE_LINE}` } }
+              : edge
+          ),
+        },
+      };
+    });
+
+    const res = await draftApp.inject({
+      method: "POST",
+      url: "/assist/draft-graph",
+      payload: { brief: "Should we offer onboarding calls to new customers to reduce churn?", ...attachmentPayload },
+    });
+
+    expect(res.statusCode).toBe(200);
+
+    expect(sentDocs).toHaveLength(1);
+    expect(sentDocs[0].preview).toContain(`${EVIDENCE_LINE}: Onboarding calls reduced`);
+    expect(sentDocs[0].preview.length).toBeLessThan(longNotes.length / 2);
+
+    const edge = JSON.parse(res.body).graph.edges.find((e: any) => e.from === "fac_1" && e.to === "out_1");
+    expect(edge.provenance.chunk_id).toMatch(/^notes\.txt#\d+$/);
+    expect(sentDocs[0].preview).toContain(`[CHUNK ${edge.provenance.chunk_id}]`);
+  });
+
+  it("returns retrieved chunks from the evidence helper", async () => {
+    const res = await evidenceApp.inject({
+      method: "POST",
+      url: "/assist/v1/evidence-helper",
+      payload: {
+        evidence: [{ id: "e1", type: "experiment", content: "Pilot of onboarding calls" }],
+        brief: "Should we offer onboarding calls?",
+        factors: ["churn"],
+        ...attachmentPayload,
+      },
+    });
+
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body.retrieved_chunks.length).toBeGreaterThan(0);
+    expect(body.retrieved_chunks[0]).toMatchObject({ source: "notes.txt" });
+    expect(body.retrieved_chunks[0].excerpt).toContain("Onboarding calls reduced");
+  });
+
+  it("reports unreadable attachments as a validation issue", async () => {
+    const res = await evidenceApp.inject({
+      method: "POST",
+      url: "/assist/v1/evidence-helper",
+      payload: {
+        evidence: [{ id: "e1", type: "experiment" }],
+        attachments: [{ id: "deck", kind: "pptx", name: "deck.pptx" }],
+        attachment_payloads: { deck: Buffer.from("not a deck").toString("base64") },
+      },
+    });
+
+    expect(res.statusCode).toBe(200);
+    const body = res.json();
+    expect(body.retrieved_chunks).toBeUndefined();
+    expect(body.validation_issues.map((issue: any) => issue.code)).toContain("ATTACHMENT_PROCESSING_FAILED");
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Review export
+ *
+ * /assist/v1/review/export renders a review and its graph as a Markdown,
+ * HTML or PDF decision memo with citations and an assumptions appendix.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+import { build } from "../../src/server.js";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+import { extractPdfPages } from "../../src/services/docProcessing.js";
+import { buildReviewReport } from "../../src/render/report/index.js";
+
+const graph = {
+  version: "1",
+  default_seed: 17,
+  nodes: [
+    { id: "goal_revenue", kind: "goal", label: "Grow revenue" },
+    { id: "dec_pricing", kind: "decision", label: "Pricing strategy" },
+    { id: "opt_premium", kind: "option", label: "Premium tier", data: { interventions: { fac_price: 49 } } },
+    { id: "opt_status_quo", kind: "option", label: "Keep current pricing" },
+    { id: "fac_price", kind: "factor", label: "Monthly price", data: { value: 29, unit: "$", range: { min: 19, max: 59 } } },
+    { id: "out_churn", kind: "outcome", label: "Churn" },
+    { id: "risk_backlash", kind: "risk", label: "Customer backlash" },
+  ],
+  edges: [
+    { from: "dec_pricing", to: "opt_premium" },
+    { from: "dec_pricing", to: "opt_status_quo" },
+    { from: "opt_premium", to: "fac_price", strength_mean: 1 },
+    {
+      from: "fac_price",
+      to: "out_churn",
+      strength_mean: 0.6,
+      belief_exists: 0.8,
+      provenance: { source: "pricing-study.pdf", quote: "Churn rose 4% after the last price rise", location: "page 3" },
+      provenance_source: "document",
+    },
+    {
+      from: "out_churn",
+      to: "goal_revenue",
+      strength_mean: -0.7,
+      belief_exists: 0.9,
+      provenance: { source: "pricing-study.pdf", quote: "Churn rose 4% after the last price rise", location: "page 3" },
+      provenance_source: "document",
+    },
+    { from: "risk_backlash", to: "goal_revenue", strength_mean: -0.3, belief_exists: 0.4, provenance_source: "hypothesis" },
+  ],
+};
+
+const brief = "Should we introduce a premium pricing tier to grow revenue without increasing churn?";
+
+describe("POST /assist/v1/review/export", () => {
+  let app: FastifyInstance;
+  let review: Record<string, any>;
+
+  beforeAll(async () => {
+    vi.stubEnv("LLM_PROVIDER", "fixtures");
+    vi.stubEnv("ASSIST_API_KEYS", "export-key");
+    vi.stubEnv("CEE_REVIEW_PLACEHOLDERS_ENABLED", "true");
+    cleanBaseUrl();
+    app = await build();
+    await app.ready();
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/v1/review",
+      headers: { "X-Olumi-Assist-Key": "export-key" },
+      payload: {
+        graph,
+        brief,
+        robustness_data: {
+          recommendation_stability: 0.55,
+          recommended_option: { id: "opt_premium", label: "Premium tier" },
+          fragile_edges: [
+            {
+              edge_id: "fac_price->out_churn",
+              from_label: "Monthly price",
+              to_label: "Churn",
+              alternative_winner_id: "opt_status_quo",
+              alternative_winner_label: "Keep current pricing",
+              switch_probability: 0.35,
+            },
+          ],
+        },
+      },
+    });
+    expect(res.statusCode).toBe(200);
+    review = res.json();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.unstubAllEnvs();
+  });
+
+  const exportReview = (payload: Record<string, unknown>) =>
+    app.inject({
+      method: "POST",
+      url: "/assist/v1/review/export",
+      headers: { "X-Olumi-Assist-Key": "export-key" },
+      payload: { graph, review, brief, ...payload },
+    });
+
+  it("builds a memo with a summary, deduplicated citations and an assumptions appendix", () => {
+    const doc = buildReviewReport({ graph: graph as never, review: review as never, brief, generatedAt: "2026-01-02T03:04:05Z" });
+
+    expect(doc.title).toBe("Decision memo: Grow revenue");
+    expect(doc.sections[0].id).toBe("summary");
+    expect(doc.sections[0].blocks[0]).toEqual({ kind: "quote", text: brief });
+    expect(doc.sections.map((s) => s.id)).toContain("graph");
+
+    // Both document-backed edges cite the same page
+    expect(doc.citations).toEqual([
+      {
+        number: 1,
+        source: "pricing-study.pdf",
+        quote: "Churn rose 4% after the last price rise",
+        location: "page 3",
+        kind: "document",
+      },
+    ]);
+
+    const assumptions = doc.appendix.find((s) => s.id === "assumptions")!;
+    const table = assumptions.blocks.find((b) => b.kind === "table");
+    expect(table).toMatchObject({
+      columns: ["Relationship", "Effect", "Confidence", "Evidence", "Robustness"],
+      rows: [
+        ["Premium tier → Monthly price", "+1.00", "—", "None cited", "—"],
+        ["Monthly price → Churn", "+0.60", "80%", "[1]", "Fragile"],
+        ["Churn → Grow revenue", "−0.70", "90%", "[1]", "—"],
+        ["Customer backlash → Grow revenue", "−0.30", "40%", "Hypothesis", "—"],
+      ],
+    });
+
+    const factors = doc.appendix.find((s) => s.id === "factors")!;
+    expect(factors.blocks[0]).toMatchObject({ rows: [["Monthly price", "$29", "—", "$19 – $59", "—"]] });
+  });
+
+  it("exports Markdown with an embedded SVG diagram and references", async () => {
+    const res = await exportReview({ format: "markdown" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toBe("text/markdown; charset=utf-8");
+    expect(res.headers["content-disposition"]).toBe('attachment; filename="decision-review.md"');
+
+    const md = res.body;
+    expect(md.startsWith("# Decision memo: Grow revenue\n")).toBe(true);
+    expect(md).toContain("## Executive summary");
+    expect(md).toContain(`> ${brief}`);
+    expect(md).toMatch(/!\[Decision graph\]\(data:image\/svg\+xml;base64,[A-Za-z0-9+/=]+\)/);
+    expect(md).toContain("1. pricing-study.pdf, page 3 — “Churn rose 4% after the last price rise”");
+    expect(md).toContain("| Monthly price → Churn | +0.60 | 80% | \\[1\\] | Fragile |");
+  });
+
+  it("escapes links, images and line-leading block markers in Markdown", async () => {
+    const res = await exportReview({
+      format: "markdown",
+      title: "[Open](javascript:alert(1))",
+      brief: "# Not a heading\n![pixel](https://example.com/t.png)\n1. not a list",
+    });
+
+    expect(res.statusCode).toBe(200);
+    const md = res.body;
+    expect(md.startsWith("# \\[Open\\](javascript:alert(1))\n")).toBe(true);
+    expect(md).toContain("> \\# Not a heading\n> \\!\\[pixel\\](https://example.com/t.png)\n> 1\\. not a list");
+    expect(md).not.toMatch(/(^|[^\\])\[Open\]\(/);
+  });
+
+  it("exports standalone HTML with an inline SVG and linked citations", async () => {
+    const res = await exportReview({ format: "html", title: "Pricing <review>" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toBe("text/html; charset=utf-8");
+
+    const html = res.body;
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<title>Pricing &lt;review&gt;</title>");
+    expect(html).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(html).toContain('<li id="ref-1">pricing-study.pdf, page 3');
+    expect(html).toContain('<a href="#ref-1">1</a>');
+    expect(html).not.toMatch(/<(script|link|img)\b/);
+  });
+
+  it("exports a PDF that text extraction can read", async () => {
+    const res = await exportReview({ format: "pdf" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toBe("application/pdf");
+
+    const pdf = res.rawPayload;
+    expect(pdf.subarray(0, 8).toString("latin1")).toBe("%PDF-1.4");
+    expect(pdf.toString("latin1")).toContain("/Subtype /Image");
+
+    const { pages, numpages } = await extractPdfPages(pdf);
+    const text = pages.join("\n").replace(/\s+/g, " ");
+    expect(text).toContain("Decision memo: Grow revenue");
+    expect(text).toContain("Executive summary");
+    expect(text).toContain("Monthly price -> Churn");
+    expect(text).toContain("Appendix A: Assumptions");
+    expect(text).toContain(`Page ${numpages} of ${numpages}`);
+  });
+
+  it("rejects reviews that do not match the /assist/v1/review response", async () => {
+    const res = await exportReview({ review: { blocks: [] } });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.json().schema).toBe("error.v1");
+  });
+});
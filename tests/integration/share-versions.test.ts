@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { build } from "../../src/server.js";
+import type { FastifyInstance } from "fastify";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+import { fastHash } from "../../src/utils/hash.js";
+import { Graph } from "../../src/schemas/graph.js";
+import { storeShare } from "../../src/utils/share-storage.js";
+import { signShareToken } from "../../src/utils/share-token.js";
+
+const OWNER = "test-key-owner";
+const OTHER = "test-key-other";
+
+const graph = (labels: string[]) => ({
+  version: "1",
+  default_seed: 17,
+  nodes: labels.map((label, i) => ({ id: `n${i}`, kind: i === 0 ? "goal" : "option", label })),
+  edges: labels.slice(1).map((_, i) => ({ from: "n0", to: `n${i + 1}` })),
+  meta: { roots: [], leaves: [], suggested_positions: {}, source: "assistant" },
+});
+
+describe("Share versions, passphrases and access logs", () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    vi.stubEnv("SHARE_REVIEW_ENABLED", "1");
+    vi.stubEnv("SHARE_SECRET", "test-secret-key");
+    vi.stubEnv("LLM_PROVIDER", "fixtures");
+    vi.stubEnv("ASSIST_API_KEYS", `${OWNER},${OTHER}`);
+    vi.stubEnv("SHARE_EXTENDED_KEY_IDS", fastHash(OWNER, 8));
+    vi.stubEnv("SHARE_PASSPHRASE_MAX_FAILURES", "3");
+
+    cleanBaseUrl();
+    app = await build();
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    vi.unstubAllEnvs();
+  });
+
+  const create = (key: string, payload: Record<string, unknown>) =>
+    app.inject({
+      method: "POST",
+      url: "/assist/share",
+      headers: { "X-Olumi-Assist-Key": key },
+      payload: { graph: graph(["Launch?", "Yes"]), ...payload },
+    });
+
+  it("keeps the URL across updates and diffs versions", async () => {
+    const { url } = (await create(OWNER, {})).json();
+    const path = new URL(url).pathname;
+
+    const updated = await app.inject({
+      method: "PUT",
+      url: path,
+      headers: { "X-Olumi-Assist-Key": OWNER },
+      payload: { graph: graph(["Launch?", "Yes, in Q3", "No"]) },
+    });
+    expect(updated.statusCode).toBe(200);
+    expect(updated.json()).toMatchObject({ url, version: 2 });
+
+    const current = (await app.inject({ method: "GET", url: path })).json();
+    expect(current).toMatchObject({ version: 2, latest_version: 2 });
+    expect(current.graph.nodes).toHaveLength(3);
+    expect(current.versions.map((v: { version: number }) => v.version)).toEqual([1, 2]);
+
+    const first = (await app.inject({ method: "GET", url: `${path}?version=1` })).json();
+    expect(first.graph.nodes).toHaveLength(2);
+
+    const diff = await app.inject({ method: "GET", url: `${path}/diff` });
+    expect(diff.statusCode).toBe(200);
+    expect(diff.json()).toMatchObject({
+      schema: "share-diff.v1",
+      from_version: 1,
+      to_version: 2,
+      patch: {
+        adds: { nodes: [{ id: "n2", label: "No" }], edges: [{ from: "n0", to: "n2" }] },
+        updates: [{ type: "node", id: "n1", changes: { label: { from: "Yes", to: "Yes, in Q3" } } }],
+        removes: [],
+      },
+    });
+
+    expect((await app.inject({ method: "GET", url: `${path}/diff?from=1&to=5` })).statusCode).toBe(404);
+  });
+
+  it("only lets the creating key update the share or read its access log", async () => {
+    const { url } = (await create(OWNER, {})).json();
+    const path = new URL(url).pathname;
+
+    const forbidden = await app.inject({
+      method: "PUT",
+      url: path,
+      headers: { "X-Olumi-Assist-Key": OTHER },
+      payload: { graph: graph(["Launch?"]) },
+    });
+    expect(forbidden.statusCode).toBe(403);
+
+    await app.inject({ method: "GET", url: path, headers: { "user-agent": "Slackbot 1.0" } });
+
+    expect((await app.inject({ method: "GET", url: `${path}/access-log` })).statusCode).toBe(401);
+    expect(
+      (await app.inject({ method: "GET", url: `${path}/access-log`, headers: { "X-Olumi-Assist-Key": OTHER } })).statusCode
+    ).toBe(403);
+
+    const accessLog = await app.inject({
+      method: "GET",
+      url: `${path}/access-log`,
+      headers: { "X-Olumi-Assist-Key": OWNER },
+    });
+    expect(accessLog.statusCode).toBe(200);
+    expect(accessLog.json()).toMatchObject({
+      schema: "share-access-log.v1",
+      access_count: 1,
+      entries: [{ version: 1, format: "json", outcome: "granted", user_agent: "Slackbot 1.0" }],
+    });
+  });
+
+  it("requires the passphrase for protected shares", async () => {
+    const created = (await create(OWNER, { passphrase: "correct horse" })).json();
+    expect(created.passphrase_protected).toBe(true);
+    const path = new URL(created.url).pathname;
+
+    const missing = await app.inject({ method: "GET", url: path });
+    expect(missing.statusCode).toBe(401);
+    expect(missing.json().details).toMatchObject({ passphrase_required: true });
+
+    const wrong = await app.inject({ method: "GET", url: `${path}?format=svg`, headers: { "X-Share-Passphrase": "wrong horse" } });
+    expect(wrong.statusCode).toBe(401);
+
+    const granted = await app.inject({ method: "GET", url: path, headers: { "X-Share-Passphrase": "correct horse" } });
+    expect(granted.statusCode).toBe(200);
+    expect(granted.json().access_count).toBe(1);
+
+    const { entries } = (
+      await app.inject({ method: "GET", url: `${path}/access-log`, headers: { "X-Olumi-Assist-Key": OWNER } })
+    ).json();
+    expect(entries.map((e: { outcome: string }) => e.outcome)).toEqual(["granted", "denied", "denied"]);
+
+    // Removing the passphrase opens the share again
+    await app.inject({
+      method: "PUT",
+      url: path,
+      headers: { "X-Olumi-Assist-Key": OWNER },
+      payload: { graph: graph(["Launch?", "Yes"]), passphrase: null },
+    });
+    expect((await app.inject({ method: "GET", url: path })).statusCode).toBe(200);
+  });
+
+  it("lets no key update an ownerless share or read its access log", async () => {
+    const now = Date.now();
+    await storeShare({
+      share_id: "legacy-share",
+      graph: Graph.parse(graph(["Launch?", "Yes"])),
+      created_at: now,
+      expires_at: now + 60 * 60 * 1000,
+      revoked: false,
+      access_count: 0,
+    });
+    const path = `/assist/share/${signShareToken({ share_id: "legacy-share", created_at: now, expires_at: now + 60 * 60 * 1000 })}`;
+
+    expect((await app.inject({ method: "GET", url: path })).statusCode).toBe(200);
+
+    const updated = await app.inject({
+      method: "PUT",
+      url: path,
+      headers: { "X-Olumi-Assist-Key": OTHER },
+      payload: { graph: graph(["Launch?", "No"]) },
+    });
+    expect(updated.statusCode).toBe(403);
+
+    const log = await app.inject({ method: "GET", url: `${path}/access-log`, headers: { "X-Olumi-Assist-Key": OWNER } });
+    expect(log.statusCode).toBe(403);
+  });
+
+  it("locks a share after repeated wrong passphrases", async () => {
+    const created = (await create(OWNER, { passphrase: "correct horse" })).json();
+    const path = new URL(created.url).pathname;
+    const attempt = (passphrase: string) =>
+      app.inject({ method: "GET", url: path, headers: { "X-Share-Passphrase": passphrase } });
+
+    for (const guess of ["guess 1", "guess 2", "guess 3"]) {
+      expect((await attempt(guess)).statusCode).toBe(401);
+    }
+
+    // Locked for the window, even for the right passphrase
+    const locked = await attempt("correct horse");
+    expect(locked.statusCode).toBe(429);
+    expect(locked.json()).toMatchObject({ code: "RATE_LIMITED", details: { retry_after_seconds: 900 } });
+
+    // Other shares are unaffected
+    const other = (await create(OWNER, { passphrase: "correct horse" })).json();
+    const granted = await app.inject({
+      method: "GET",
+      url: new URL(other.url).pathname,
+      headers: { "X-Share-Passphrase": "correct horse" },
+    });
+    expect(granted.statusCode).toBe(200);
+  });
+
+  it("allows longer and non-expiring links only for extended keys", async () => {
+    const forever = await create(OWNER, { ttl_hours: null });
+    expect(forever.statusCode).toBe(201);
+    expect(forever.json().expires_at).toBeNull();
+    expect((await app.inject({ method: "GET", url: new URL(forever.json().url).pathname })).statusCode).toBe(200);
+
+    expect((await create(OWNER, { ttl_hours: 24 * 90 })).statusCode).toBe(201);
+
+    expect((await create(OTHER, { ttl_hours: null })).statusCode).toBe(400);
+    expect((await create(OTHER, { ttl_hours: 169 })).statusCode).toBe(400);
+    expect((await create(OTHER, { ttl_hours: 168 })).statusCode).toBe(201);
+  });
+});
@@ -313,6 +313,88 @@ describe("Share Integration", () => {
 
     expect(response.statusCode).toBe(404);
   });
+
+  it("should render shared graph as SVG and PNG with stored highlights", async () => {
+    const createResponse = await app.inject({
+      method: "POST",
+      url: "/assist/share",
+      headers: {
+        "X-Olumi-Assist-Key": "test-key-share",
+      },
+      payload: {
+        graph: {
+          version: "1",
+          default_seed: 17,
+          nodes: [
+            { id: "q1", kind: "goal", label: "Should we launch?" },
+            { id: "o1", kind: "option", label: "Yes" },
+          ],
+          edges: [{ from: "q1", to: "o1", strength_mean: 0.8, belief_exists: 0.3 }],
+          meta: { roots: [], leaves: [], suggested_positions: {}, source: "assistant" },
+        },
+        highlights: [{ type: "node", ids: ["o1"], style: "warning" }],
+        render: true,
+      },
+    });
+
+    const { url, images } = createResponse.json();
+    expect(images).toEqual({ svg: `${url}?format=svg`, png: `${url}?format=png` });
+
+    const path = new URL(url).pathname;
+    const svg = await app.inject({ method: "GET", url: `${path}?format=svg` });
+    expect(svg.statusCode).toBe(200);
+    expect(svg.headers["content-type"]).toContain("image/svg+xml");
+    expect(svg.body).toContain('stroke="#d97706"');
+    expect(svg.body).toContain('stroke-dasharray="6 4"');
+
+    const png = await app.inject({ method: "GET", url: `${path}?format=png` });
+    expect(png.statusCode).toBe(200);
+    expect(png.headers["content-type"]).toBe("image/png");
+    expect(png.rawPayload.subarray(1, 4).toString("ascii")).toBe("PNG");
+
+    const json = await app.inject({ method: "GET", url: path });
+    expect(json.json().highlights).toEqual([{ type: "node", ids: ["o1"], style: "warning" }]);
+
+    const bad = await app.inject({ method: "GET", url: `${path}?format=gif` });
+    expect(bad.statusCode).toBe(400);
+  });
+
+  it("should render a graph via /assist/v1/render-graph", async () => {
+    const graph = {
+      version: "1",
+      default_seed: 17,
+      nodes: [{ id: "q1", kind: "goal", label: "Test question" }],
+      edges: [],
+      meta: { roots: [], leaves: [], suggested_positions: {}, source: "assistant" },
+    };
+
+    const svg = await app.inject({
+      method: "POST",
+      url: "/assist/v1/render-graph",
+      headers: { "X-Olumi-Assist-Key": "test-key-share" },
+      payload: { graph, title: "Launch" },
+    });
+    expect(svg.statusCode).toBe(200);
+    expect(svg.headers["content-type"]).toContain("image/svg+xml");
+    expect(svg.body).toContain("<title>Launch</title>");
+
+    const png = await app.inject({
+      method: "POST",
+      url: "/assist/v1/render-graph",
+      headers: { "X-Olumi-Assist-Key": "test-key-share" },
+      payload: { graph, format: "png", scale: 2 },
+    });
+    expect(png.statusCode).toBe(200);
+    expect(png.headers["content-type"]).toBe("image/png");
+
+    const bad = await app.inject({
+      method: "POST",
+      url: "/assist/v1/render-graph",
+      headers: { "X-Olumi-Assist-Key": "test-key-share" },
+      payload: { graph, format: "gif" },
+    });
+    expect(bad.statusCode).toBe(400);
+  });
 });
 
 describe("Share Integration with custom BASE_URL", () => {
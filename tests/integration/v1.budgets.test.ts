@@ -0,0 +1,144 @@
+/**
+ * Per-Key Spend Budget Integration Tests
+ *
+ * Verifies spend attribution from route handlers, X-Budget-* headers,
+ * 402 enforcement and the /v1/limits budget field.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import type { FastifyInstance } from "fastify";
+
+vi.stubEnv("LLM_PROVIDER", "fixtures");
+
+import { build } from "../../src/server.js";
+import { FixturesAdapter } from "../../src/adapters/llm/fixtures.js";
+import { registerProvider, resetProviderRegistry } from "../../src/adapters/llm/registry.js";
+import { resetAdapterCache } from "../../src/adapters/llm/router.js";
+import type { LLMAdapter } from "../../src/adapters/llm/types.js";
+import { recordSpend, resetBudgets } from "../../src/utils/budget.js";
+import { calculateCost } from "../../src/utils/telemetry.js";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+
+const USAGE = { input_tokens: 10_000, output_tokens: 5_000 };
+
+// Fixture responses priced as gpt-5-mini so calls have a non-zero cost
+function meteredAdapter(): LLMAdapter {
+  const fixtures = new FixturesAdapter();
+  const adapter = Object.create(fixtures) as LLMAdapter;
+  Object.defineProperties(adapter, {
+    model: { value: "gpt-5-mini" },
+    suggestOptions: {
+      value: async (args: any, opts: any) => ({ ...(await fixtures.suggestOptions(args, opts)), usage: USAGE }),
+    },
+  });
+  return adapter;
+}
+
+describe("Per-key spend budgets", () => {
+  let app: FastifyInstance;
+  let keyId: string;
+
+  const headers = { "X-Olumi-Assist-Key": "budget-key" } as const;
+
+  beforeAll(async () => {
+    vi.stubEnv("ASSIST_API_KEYS", "budget-key");
+    vi.stubEnv("BUDGETS_ENABLED", "true");
+    vi.stubEnv("BUDGET_DAILY_USD", "1");
+    cleanBaseUrl();
+
+    // Replace the fixtures provider with a metered variant
+    registerProvider(
+      {
+        name: "fixtures",
+        capabilities: { streaming: false, jsonMode: false, reasoningEffort: false, promptCaching: false },
+        create: () => meteredAdapter(),
+      },
+      { replace: true }
+    );
+    resetAdapterCache();
+
+    app = await build();
+    await app.ready();
+
+    const limits = await app.inject({ method: "GET", url: "/v1/limits", headers });
+    keyId = limits.json().key_id;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    resetProviderRegistry();
+    resetAdapterCache();
+    resetBudgets();
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(() => {
+    resetBudgets();
+  });
+
+  it("reports the key's budget in /v1/limits", async () => {
+    const res = await app.inject({ method: "GET", url: "/v1/limits", headers });
+
+    expect(res.statusCode).toBe(200);
+    const { budget } = res.json();
+    expect(budget.enabled).toBe(true);
+    expect(budget.state).toBe("ok");
+    expect(budget.backend).toBe("memory");
+    expect(budget.daily.limit_usd).toBe(1);
+    expect(budget.monthly.limit_usd).toBeNull();
+    expect(res.headers["x-budget-state"]).toBe("ok");
+  });
+
+  it("records LLM spend from route handlers against the caller's key", async () => {
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/suggest-options",
+      headers,
+      payload: { goal: "Grow revenue next quarter" },
+    });
+    expect(res.statusCode).toBe(200);
+
+    const limits = await app.inject({ method: "GET", url: "/v1/limits", headers });
+    expect(limits.json().budget.daily.spent_usd).toBeCloseTo(
+      calculateCost("gpt-5-mini", USAGE.input_tokens, USAGE.output_tokens),
+      6
+    );
+  });
+
+  it("warns once the soft limit is crossed", async () => {
+    await recordSpend(keyId, 0.85);
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/suggest-options",
+      headers,
+      payload: { goal: "Grow revenue next quarter" },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["x-budget-state"]).toBe("soft_limit");
+    expect(res.headers["x-budget-warning"]).toContain("daily LLM budget");
+  });
+
+  it("rejects LLM routes with 402 once exhausted but keeps /v1/limits reachable", async () => {
+    await recordSpend(keyId, 1.2);
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/assist/suggest-options",
+      headers,
+      payload: { goal: "Grow revenue next quarter" },
+    });
+
+    expect(res.statusCode).toBe(402);
+    const body = res.json();
+    expect(body.code).toBe("BUDGET_EXCEEDED");
+    expect(body.details.period).toBe("daily");
+    expect(body.details.resets_at).toBeDefined();
+    expect(res.headers["x-budget-state"]).toBe("exhausted");
+
+    const limits = await app.inject({ method: "GET", url: "/v1/limits", headers });
+    expect(limits.statusCode).toBe(200);
+    expect(limits.json().budget.state).toBe("exhausted");
+  });
+});
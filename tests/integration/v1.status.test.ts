@@ -8,6 +8,7 @@ import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
 import type { FastifyInstance } from "fastify";
 import { build } from "../../src/server.js";
 import { cleanBaseUrl } from "../helpers/env-setup.js";
+import { getCircuitBreaker, resetCircuitBreakers } from "../../src/adapters/llm/circuit-breaker.js";
 
 describe("GET /v1/status", () => {
   let app: FastifyInstance;
@@ -74,6 +75,28 @@ describe("GET /v1/status", () => {
     expect(body.llm).toHaveProperty("failover_enabled", false);
   });
 
+  it("should expose provider circuit breaker state", async () => {
+    const breaker = getCircuitBreaker("anthropic");
+    for (let i = 0; i < 5; i++) {
+      const permit = breaker.acquire()!;
+      breaker.recordFailure(permit, 100);
+    }
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/v1/status",
+    });
+
+    const body = JSON.parse(response.body);
+
+    expect(body.llm.open_circuits).toEqual(["anthropic"]);
+    expect(body.llm.circuit_breakers).toEqual([
+      expect.objectContaining({ provider: "anthropic", state: "open", error_rate: 1, health_score: 0 }),
+    ]);
+
+    resetCircuitBreakers();
+  });
+
   it("should expose cache statistics when caching is enabled", async () => {
     const response = await app.inject({
       method: "GET",
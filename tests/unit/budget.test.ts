@@ -0,0 +1,209 @@
+/**
+ * Per-Key Spend Budget Tests
+ *
+ * Verifies budget state thresholds, per-key overrides, period rollover,
+ * spend attribution through the request scope, and fast-tier downgrades.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  buildBudgetStatus,
+  getBudgetStatus,
+  getBudgetHeaders,
+  getScopeStatus,
+  recordSpend,
+  resetBudgets,
+  runWithBudgetScope,
+  type BudgetScope,
+} from "../../src/utils/budget.js";
+import { SpendTrackingAdapter } from "../../src/adapters/llm/spend.js";
+import { FixturesAdapter } from "../../src/adapters/llm/fixtures.js";
+import { getAdapter, resetAdapterCache } from "../../src/adapters/llm/router.js";
+import type { LLMAdapter } from "../../src/adapters/llm/types.js";
+import { getModelConfig } from "../../src/config/models.js";
+import { calculateCost } from "../../src/utils/telemetry.js";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+
+const NOW = new Date("2026-03-31T22:00:00Z");
+
+async function scopeFor(keyId: string): Promise<BudgetScope> {
+  return { keyId, status: await getBudgetStatus(keyId, NOW), spentUsd: 0, downgradedTasks: [] };
+}
+
+describe("spend budgets", () => {
+  beforeEach(() => {
+    vi.stubEnv("BUDGETS_ENABLED", "true");
+    vi.stubEnv("BUDGET_DAILY_USD", "10");
+    vi.stubEnv("BUDGET_MONTHLY_USD", "100");
+    resetBudgets();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetBudgets();
+  });
+
+  describe("buildBudgetStatus", () => {
+    it.each([
+      [7, "ok"],
+      [8, "soft_limit"],
+      [9.5, "downgrade"],
+      [10, "exhausted"],
+    ])("daily spend of $%s is %s", (spent, state) => {
+      const status = buildBudgetStatus("key1", { daily: spent, monthly: spent, backend: "memory" }, NOW);
+      expect(status.state).toBe(state);
+      expect(status.limiting_period).toBe("daily");
+    });
+
+    it("reports the period with the highest usage", () => {
+      const status = buildBudgetStatus("key1", { daily: 1, monthly: 85, backend: "memory" }, NOW);
+
+      expect(status.state).toBe("soft_limit");
+      expect(status.limiting_period).toBe("monthly");
+      expect(status.monthly.remaining_usd).toBe(15);
+      expect(status.daily.resets_at).toBe("2026-04-01T00:00:00.000Z");
+      expect(status.monthly.resets_at).toBe("2026-04-01T00:00:00.000Z");
+    });
+
+    it("applies per-key overrides and treats unset limits as unlimited", () => {
+      vi.stubEnv("BUDGET_MONTHLY_USD", undefined);
+      vi.stubEnv("BUDGET_KEY_OVERRIDES", JSON.stringify({ vip: { dailyUsd: 50 } }));
+
+      const status = buildBudgetStatus("vip", { daily: 20, monthly: 500, backend: "memory" }, NOW);
+
+      expect(status.state).toBe("ok");
+      expect(status.daily.limit_usd).toBe(50);
+      expect(status.monthly.limit_usd).toBeNull();
+      expect(status.monthly.remaining_usd).toBeNull();
+    });
+  });
+
+  describe("recordSpend", () => {
+    it("accumulates daily and monthly spend and resets the day at UTC midnight", async () => {
+      await recordSpend("key1", 4, NOW);
+      await recordSpend("key1", 2, NOW);
+
+      const sameDay = await getBudgetStatus("key1", NOW);
+      expect(sameDay.daily.spent_usd).toBe(6);
+
+      const nextDay = await getBudgetStatus("key1", new Date("2026-04-01T01:00:00Z"));
+      expect(nextDay.daily.spent_usd).toBe(0);
+      expect(nextDay.monthly.spent_usd).toBe(0);
+    });
+
+    it("keeps monthly spend across days within a month", async () => {
+      await recordSpend("key1", 3, new Date("2026-03-01T12:00:00Z"));
+      const status = await getBudgetStatus("key1", new Date("2026-03-02T12:00:00Z"));
+
+      expect(status.daily.spent_usd).toBe(0);
+      expect(status.monthly.spent_usd).toBe(3);
+    });
+  });
+
+  describe("budget headers", () => {
+    it("adds a warning once past the soft limit", () => {
+      const status = buildBudgetStatus("key1", { daily: 8.5, monthly: 8.5, backend: "memory" }, NOW);
+      const headers = getBudgetHeaders(status, ["critique_graph"]);
+
+      expect(headers["X-Budget-State"]).toBe("soft_limit");
+      expect(headers["X-Budget-Daily-Remaining-USD"]).toBe("1.5000");
+      expect(headers["X-Budget-Warning"]).toContain("daily LLM budget 85% used");
+      expect(headers["X-Budget-Downgraded"]).toBe("critique_graph");
+    });
+
+    it("omits the warning when healthy", () => {
+      const status = buildBudgetStatus("key1", { daily: 1, monthly: 1, backend: "memory" }, NOW);
+      expect(getBudgetHeaders(status)["X-Budget-Warning"]).toBeUndefined();
+    });
+  });
+
+  describe("SpendTrackingAdapter", () => {
+    function pricedAdapter(): LLMAdapter {
+      const fixtures = new FixturesAdapter();
+      const adapter = Object.create(fixtures) as LLMAdapter;
+      Object.defineProperties(adapter, {
+        model: { value: "gpt-5-mini" },
+        draftGraph: {
+          value: async (args: any, opts: any) => ({
+            ...(await fixtures.draftGraph(args, opts)),
+            usage: { input_tokens: 1000, output_tokens: 500 },
+          }),
+        },
+      });
+      return new SpendTrackingAdapter(adapter);
+    }
+
+    it("records call cost against the scoped key", async () => {
+      const adapter = pricedAdapter();
+      const scope = await scopeFor("key1");
+
+      const result = await runWithBudgetScope(scope, () =>
+        adapter.draftGraph({ brief: "Should we open a second office?", seed: 17 }, { requestId: "t", timeoutMs: 1000 })
+      );
+
+      const expected = calculateCost("gpt-5-mini", result.usage.input_tokens, result.usage.output_tokens);
+      expect(expected).toBeGreaterThan(0);
+      expect(scope.spentUsd).toBeCloseTo(expected);
+      expect((await getBudgetStatus("key1")).daily.spent_usd).toBeCloseTo(expected, 5);
+    });
+
+    it("does not record calls made outside a budget scope", async () => {
+      const adapter = pricedAdapter();
+      await adapter.draftGraph({ brief: "Should we open a second office?", seed: 17 }, { requestId: "t", timeoutMs: 1000 });
+
+      expect((await getBudgetStatus("key1")).daily.spent_usd).toBe(0);
+    });
+  });
+
+  describe("fast-tier downgrade", () => {
+    beforeEach(() => {
+      cleanBaseUrl();
+      vi.stubEnv("LLM_PROVIDER", "openai");
+      vi.stubEnv("OPENAI_API_KEY", "sk-test");
+      vi.stubEnv("LLM_MODEL", "");
+      vi.stubEnv("LLM_FAILOVER_PROVIDERS", "");
+      vi.stubEnv("CEE_MODEL_CRITIQUE", "");
+      vi.stubEnv("CEE_MODEL_DRAFT", "");
+      resetAdapterCache();
+    });
+
+    afterEach(() => {
+      resetAdapterCache();
+    });
+
+    it("routes non-quality tasks to a fast-tier model when nearly exhausted", async () => {
+      await recordSpend("key1", 9.5, NOW);
+      const scope = await scopeFor("key1");
+
+      const adapter = runWithBudgetScope(scope, () => getAdapter("critique_graph"));
+
+      expect(getModelConfig(adapter.model)?.tier).toBe("fast");
+      expect(scope.downgradedTasks).toEqual(["critique_graph"]);
+    });
+
+    it("never downgrades QUALITY_REQUIRED_TASKS", async () => {
+      await recordSpend("key1", 9.5, NOW);
+      const scope = await scopeFor("key1");
+
+      const adapter = runWithBudgetScope(scope, () => getAdapter("draft_graph"));
+
+      expect(adapter.model).toBe("gpt-5.2");
+      expect(scope.downgradedTasks).toEqual([]);
+    });
+
+    it("keeps the task default while the budget is healthy", async () => {
+      const scope = await scopeFor("key1");
+      const adapter = runWithBudgetScope(scope, () => getAdapter("critique_graph"));
+
+      expect(adapter.model).toBe("gpt-5.2");
+    });
+
+    it("accounts spend recorded during the request", async () => {
+      await recordSpend("key1", 8.5, NOW);
+      const scope = await scopeFor("key1");
+      scope.spentUsd = 1;
+
+      expect(getScopeStatus(scope, NOW).state).toBe("downgrade");
+    });
+  });
+});
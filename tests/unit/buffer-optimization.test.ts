@@ -89,6 +89,11 @@ describe("Buffer Optimization", () => {
       expect(parsed.payload.telemetry.verbose_logs).toBeUndefined();
     });
 
+    it("should preserve non-stage events unchanged", () => {
+      const payload = JSON.stringify({ delta: "Cost " });
+      expect(trimEventPayload(payload)).toBe(payload);
+    });
+
     it("should handle malformed JSON gracefully", () => {
       const invalid = "{ invalid json";
       const trimmed = trimEventPayload(invalid);
@@ -193,6 +198,11 @@ describe("Buffer Optimization", () => {
       expect(getEventPriority(event)).toBe(EventPriority.CRITICAL);
     });
 
+    it("should assign CRITICAL priority to complete and error events", () => {
+      expect(getEventPriority({ type: "complete", data: JSON.stringify({ message: "done" }) })).toBe(EventPriority.CRITICAL);
+      expect(getEventPriority({ type: "error", data: JSON.stringify({ error: { code: "X" } }) })).toBe(EventPriority.CRITICAL);
+    });
+
     it("should assign LOW priority to heartbeat events", () => {
       const event = {
         type: "heartbeat",
@@ -3,14 +3,15 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { _resetConfigCache } from '../../src/config/index.js';
 
 // Mock Supabase persistence to observe what would be stored
-const { persistMock } = vi.hoisted(() => ({
+const { persistMock, getByIdMock } = vi.hoisted(() => ({
   persistMock: vi.fn().mockResolvedValue({ failureBundleId: 'fail_123' }),
+  getByIdMock: vi.fn(),
 }));
 
 vi.mock('../../src/cee/draft-failures/store.js', () => ({
   persistDraftFailureBundle: persistMock,
   listDraftFailureBundles: vi.fn(),
-  getDraftFailureBundleById: vi.fn(),
+  getDraftFailureBundleById: getByIdMock,
   startDraftFailureRetentionJob: vi.fn(),
 }));
 
@@ -89,4 +90,39 @@ describe('CEE draft failures unsafe gating', () => {
 
     await app.close();
   });
+
+  it('hides raw LLM output and the full brief from viewer keys', async () => {
+    vi.stubEnv('ADMIN_API_KEY_READ', 'viewer-key');
+    getByIdMock.mockResolvedValue({
+      id: '00000000-0000-4000-8000-000000000001',
+      request_id: 'req-1',
+      created_at: '2026-01-01T00:00:00.000Z',
+      brief_hash: 'abc',
+      brief_preview: 'Should we',
+      brief: 'Should we hire two senior engineers?',
+      raw_llm_output: { nodes: [] },
+      raw_llm_text: '{"nodes":[]}',
+      validation_error: 'missing_kinds',
+    });
+
+    const app = await build();
+    await app.ready();
+    const url = '/admin/v1/draft-failures/00000000-0000-4000-8000-000000000001';
+
+    const viewer = await app.inject({ method: 'GET', url, headers: { 'X-Admin-Key': 'viewer-key' } });
+    expect(viewer.statusCode).toBe(200);
+    expect(viewer.json()).toMatchObject({ request_id: 'req-1', brief_preview: 'Should we' });
+    expect(viewer.json()).not.toHaveProperty('brief');
+    expect(viewer.json()).not.toHaveProperty('raw_llm_output');
+    expect(viewer.json()).not.toHaveProperty('raw_llm_text');
+
+    const operator = await app.inject({ method: 'GET', url, headers: { 'X-Admin-Key': 'admin-key' } });
+    expect(operator.json()).toMatchObject({
+      brief: 'Should we hire two senior engineers?',
+      raw_llm_output: { nodes: [] },
+      raw_llm_text: '{"nodes":[]}',
+    });
+
+    await app.close();
+  });
 });
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { _resetConfigCache } from '../../src/config/index.js';
+import { resetAdapterCache } from '../../src/adapters/llm/router.js';
+import type { DraftFailureRow } from '../../src/cee/draft-failures/store.js';
+
+const { getByIdMock, listMock } = vi.hoisted(() => ({
+  getByIdMock: vi.fn(),
+  listMock: vi.fn(),
+}));
+
+vi.mock('../../src/cee/draft-failures/store.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/cee/draft-failures/store.js')>()),
+  getDraftFailureBundleById: getByIdMock,
+  listDraftFailureBundles: listMock,
+}));
+
+import {
+  classifyReplay,
+  replayDraftFailure,
+  replayDraftFailures,
+} from '../../src/cee/draft-failures/replay.js';
+
+const BRIEF = 'Should we expand into the German market next year or focus on growing our existing UK customer base?';
+
+const VALID_OUTPUT = {
+  nodes: [
+    { id: 'goal_1', kind: 'goal', label: 'Grow revenue' },
+    { id: 'dec_1', kind: 'decision', label: 'Market focus' },
+    { id: 'opt_1', kind: 'option', label: 'Expand to Germany' },
+    { id: 'opt_2', kind: 'option', label: 'Grow UK base' },
+    { id: 'fac_1', kind: 'factor', label: 'Market demand', data: { value: 0.5 } },
+    { id: 'out_1', kind: 'outcome', label: 'Revenue growth' },
+  ],
+  edges: [
+    { from: 'dec_1', to: 'opt_1' },
+    { from: 'dec_1', to: 'opt_2' },
+    { from: 'opt_1', to: 'fac_1', strength: { mean: 0.6, std: 0.1 } },
+    { from: 'opt_2', to: 'fac_1', strength: { mean: 0.4, std: 0.1 } },
+    { from: 'fac_1', to: 'out_1', strength: { mean: 0.7, std: 0.1 } },
+    { from: 'out_1', to: 'goal_1', strength: { mean: 0.8, std: 0.1 } },
+  ],
+};
+
+// Options dropped by the model: fails minimum structure
+const NO_OPTIONS_OUTPUT = {
+  nodes: VALID_OUTPUT.nodes.filter((n) => n.kind !== 'option'),
+  edges: [
+    { from: 'fac_1', to: 'out_1', strength: { mean: 0.7, std: 0.1 } },
+    { from: 'out_1', to: 'goal_1', strength: { mean: 0.8, std: 0.1 } },
+  ],
+};
+
+function makeFailure(overrides: Partial<DraftFailureRow> = {}): DraftFailureRow {
+  return {
+    id: '5f0c8a52-7a6e-4c1b-9a51-2d4f3c7e9b10',
+    request_id: 'req-original',
+    correlation_id: 'req-original',
+    created_at: '2026-10-01T12:00:00.000Z',
+    brief_hash: 'hash',
+    brief_preview: BRIEF,
+    brief: BRIEF,
+    raw_llm_output: null,
+    raw_llm_text: JSON.stringify(NO_OPTIONS_OUTPUT),
+    validation_error: 'Graph does not meet minimum structure requirements',
+    status_code: 400,
+    missing_kinds: ['option'],
+    node_kinds_raw_json: ['goal', 'decision', 'factor', 'outcome'],
+    node_kinds_post_normalisation: [],
+    node_kinds_pre_validation: [],
+    prompt_version: 'default:draft_graph',
+    prompt_hash: null,
+    model: 'gpt-4o',
+    temperature: 0,
+    token_usage: null,
+    finish_reason: 'stop',
+    llm_duration_ms: 1200,
+    total_duration_ms: 1500,
+    ...overrides,
+  };
+}
+
+describe('classifyReplay', () => {
+  const failure = { validation_error: 'missing kinds', status_code: 400, missing_kinds: ['option', 'goal'] };
+
+  it('treats a successful replay as fixed', () => {
+    expect(classifyReplay(failure, 200, {})).toBe('fixed');
+  });
+
+  it('treats the same status, message and missing kinds as still failing', () => {
+    expect(classifyReplay(failure, 400, { message: 'missing kinds', missing_kinds: ['goal', 'option'] })).toBe('still_failing');
+  });
+
+  it('treats any other failure as changed', () => {
+    expect(classifyReplay(failure, 400, { message: 'missing kinds', missing_kinds: ['goal'] })).toBe('changed');
+    expect(classifyReplay(failure, 502, { message: 'missing kinds', missing_kinds: ['option', 'goal'] })).toBe('changed');
+  });
+});
+
+describe('draft failure replay', () => {
+  beforeEach(() => {
+    _resetConfigCache();
+    resetAdapterCache();
+    getByIdMock.mockReset();
+    listMock.mockReset();
+    vi.stubEnv('LLM_PROVIDER', 'fixtures');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns null for unknown failures', async () => {
+    getByIdMock.mockResolvedValue(null);
+    expect(await replayDraftFailure('missing', { mode: 'raw_output' })).toBeNull();
+  });
+
+  it('re-runs post-processing on the stored raw output without calling a provider', async () => {
+    getByIdMock.mockResolvedValue(makeFailure({ raw_llm_text: JSON.stringify(VALID_OUTPUT) }));
+
+    const result = await replayDraftFailure('id', { mode: 'raw_output' });
+
+    expect(result?.outcome).toBe('fixed');
+    expect(result?.replay).toMatchObject({ statusCode: 200, nodeCount: 6, model: 'gpt-4o' });
+    expect(result?.replay?.requestId).toMatch(/^replay_/);
+  });
+
+  it('reports failures that still reproduce from the raw output', async () => {
+    getByIdMock.mockResolvedValue(makeFailure());
+    const first = await replayDraftFailure('id', { mode: 'raw_output' });
+    expect(first?.replay?.statusCode).toBe(400);
+    expect(first?.replay?.missingKinds).toContain('option');
+
+    getByIdMock.mockResolvedValue(makeFailure({
+      validation_error: first!.replay!.message!,
+      missing_kinds: first!.replay!.missingKinds,
+    }));
+    const second = await replayDraftFailure('id', { mode: 'raw_output' });
+    expect(second?.outcome).toBe('still_failing');
+  });
+
+  it('skips failures captured without the brief or raw output', async () => {
+    getByIdMock.mockResolvedValue(makeFailure({ brief: null, raw_llm_text: null }));
+
+    expect((await replayDraftFailure('id', { mode: 'pipeline' }))?.skipReason).toBe('brief_not_captured');
+    expect((await replayDraftFailure('id', { mode: 'raw_output' }))?.skipReason).toBe('raw_output_not_captured');
+  });
+
+  it('re-drafts the brief through the current pipeline', async () => {
+    getByIdMock.mockResolvedValue(makeFailure());
+
+    const result = await replayDraftFailure('id', { mode: 'pipeline' });
+
+    expect(result?.outcome).toBe('fixed');
+    expect(result?.replay?.model).toBe('fixture-v1');
+  });
+
+  it('rejects prompt versions that are not in the prompt store', async () => {
+    getByIdMock.mockResolvedValue(makeFailure());
+
+    await expect(replayDraftFailure('id', { mode: 'pipeline', promptVersion: 7 })).rejects.toThrow(
+      'draft_graph prompt version 7 not found'
+    );
+  });
+
+  it('replays a filtered batch and summarises outcomes', async () => {
+    const fixed = makeFailure({ id: 'a', raw_llm_text: JSON.stringify(VALID_OUTPUT) });
+    const skipped = makeFailure({ id: 'b', raw_llm_text: null });
+    listMock.mockResolvedValue({ failures: [fixed, skipped], total: 2 });
+    getByIdMock.mockImplementation(async (id: string) => (id === 'a' ? fixed : skipped));
+
+    const { results, summary } = await replayDraftFailures({ model: 'gpt-4o', limit: 500 }, { mode: 'raw_output' });
+
+    expect(listMock).toHaveBeenCalledWith(expect.objectContaining({ model: 'gpt-4o', limit: 50 }));
+    expect(results.map((r) => r.outcome)).toEqual(['fixed', 'skipped']);
+    expect(summary).toEqual({ total: 2, fixed: 1, still_failing: 0, changed: 0, skipped: 1, errored: 0 });
+  });
+
+  it('records a replay that throws and carries on with the batch', async () => {
+    const broken = makeFailure({ id: 'a' });
+    const fixed = makeFailure({ id: 'b', raw_llm_text: JSON.stringify(VALID_OUTPUT) });
+    listMock.mockResolvedValue({ failures: [broken, fixed], total: 2 });
+    getByIdMock.mockImplementation(async (id: string) => {
+      if (id === 'a') throw new Error('store unavailable');
+      return fixed;
+    });
+
+    const streamed: string[] = [];
+    const { results, summary } = await replayDraftFailures({}, { mode: 'raw_output' }, (result) => {
+      streamed.push(result.failureId);
+    });
+
+    expect(results[0]).toMatchObject({
+      failureId: 'a',
+      outcome: 'errored',
+      error: 'store unavailable',
+      original: { validationError: broken.validation_error, missingKinds: ['option'] },
+    });
+    expect(results[1].outcome).toBe('fixed');
+    expect(streamed).toEqual(['a', 'b']);
+    expect(summary).toMatchObject({ total: 2, fixed: 1, errored: 1 });
+  });
+
+  it('streams batch results from the admin route as NDJSON', async () => {
+    vi.stubEnv('ADMIN_API_KEY', 'admin-key');
+    const fixed = makeFailure({ id: 'a', raw_llm_text: JSON.stringify(VALID_OUTPUT) });
+    listMock.mockResolvedValue({ failures: [fixed], total: 1 });
+    getByIdMock.mockResolvedValue(fixed);
+
+    const { build } = await import('../../src/server.js');
+    const app = await build();
+    await app.ready();
+
+    const res = await app.inject({
+      method: 'POST',
+      url: '/admin/v1/draft-failures/replay',
+      headers: { 'X-Admin-Key': 'admin-key' },
+      payload: { mode: 'raw_output' },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toBe('application/x-ndjson');
+    const lines = res.body.trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toEqual([
+      expect.objectContaining({ type: 'result', failure_id: 'a', outcome: 'fixed' }),
+      { type: 'summary', summary: { total: 1, fixed: 1, still_failing: 0, changed: 0, skipped: 0, errored: 0 } },
+    ]);
+
+    await app.close();
+  });
+});
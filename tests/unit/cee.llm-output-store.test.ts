@@ -0,0 +1,235 @@
+/**
+ * LLM Output Store Tests
+ *
+ * Runs the same contract against the memory, file and SQLite backends
+ * (search by model / prompt version / date range / node count, first write
+ * wins, retention pruning, persistence across restarts), then checks the
+ * facade: redaction at write time, retention on read and backend selection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createHash } from "node:crypto";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  MemoryLLMOutputStore,
+  FileLLMOutputStore,
+  SqliteLLMOutputStore,
+  type ILLMOutputStore,
+  type LLMOutputEntry,
+} from "../../src/cee/llm-output/index.js";
+import {
+  closeLLMOutputStore,
+  flushLLMOutputWrites,
+  getLLMOutput,
+  getLLMOutputStoreStats,
+  searchLLMOutputs,
+  storeLLMOutput,
+} from "../../src/cee/llm-output-store.js";
+import { _resetConfigCache } from "../../src/config/index.js";
+
+const HOUR = 60 * 60 * 1000;
+
+function makeEntry(overrides: Partial<LLMOutputEntry> = {}): LLMOutputEntry {
+  return {
+    requestId: "req-1",
+    outputHash: "abc123",
+    rawText: '{"nodes":[]}',
+    parsedJson: { nodes: [{ id: "goal_1", kind: "goal", label: "Grow" }] },
+    nodeCount: 1,
+    edgeCount: 0,
+    storedAt: Date.now(),
+    model: "gpt-4o",
+    promptVersion: "v3",
+    ...overrides,
+  };
+}
+
+let dir: string;
+
+const backends: Array<[string, (path: string) => ILLMOutputStore]> = [
+  ["memory", () => new MemoryLLMOutputStore(1000)],
+  ["file", (path) => new FileLLMOutputStore(join(path, "outputs.jsonl"))],
+  ["sqlite", (path) => new SqliteLLMOutputStore(join(path, "outputs.db"))],
+];
+
+describe.each(backends)("%s LLM output store", (name, create) => {
+  let store: ILLMOutputStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "llm-output-"));
+    store = create(dir);
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("stores and retrieves entries, first write wins", async () => {
+    expect(await store.put(makeEntry())).toBe(true);
+    expect(await store.put(makeEntry({ rawText: "second" }))).toBe(false);
+
+    const entry = await store.get("req-1");
+    expect(entry).toEqual(makeEntry({ storedAt: entry!.storedAt }));
+    expect(await store.get("missing")).toBeNull();
+    expect(await store.count()).toBe(1);
+  });
+
+  it("searches by model, prompt version, date range and node count", async () => {
+    const now = Date.now();
+    await store.put(makeEntry({ requestId: "a", model: "gpt-4o", promptVersion: "v3", nodeCount: 5, storedAt: now - 3 * HOUR }));
+    await store.put(makeEntry({ requestId: "b", model: "gpt-4o", promptVersion: "v4", nodeCount: 12, storedAt: now - 2 * HOUR }));
+    await store.put(makeEntry({ requestId: "c", model: "claude", promptVersion: "v4", nodeCount: 20, storedAt: now - HOUR }));
+
+    const ids = async (filter: Parameters<ILLMOutputStore["search"]>[0]) =>
+      (await store.search(filter)).map((e) => e.requestId);
+
+    expect(await ids({})).toEqual(["c", "b", "a"]);
+    expect(await ids({ model: "gpt-4o" })).toEqual(["b", "a"]);
+    expect(await ids({ promptVersion: "v4" })).toEqual(["c", "b"]);
+    expect(await ids({ from: now - 2.5 * HOUR, to: now - 1.5 * HOUR })).toEqual(["b"]);
+    expect(await ids({ minNodeCount: 10, maxNodeCount: 20 })).toEqual(["c", "b"]);
+    expect(await ids({ limit: 1, offset: 1 })).toEqual(["b"]);
+  });
+
+  it("prunes by age and entry count", async () => {
+    const now = Date.now();
+    await store.put(makeEntry({ requestId: "old", storedAt: now - 48 * HOUR }));
+    await store.put(makeEntry({ requestId: "a", storedAt: now - 3 * HOUR }));
+    await store.put(makeEntry({ requestId: "b", storedAt: now - 2 * HOUR }));
+    await store.put(makeEntry({ requestId: "c", storedAt: now - HOUR }));
+
+    expect(await store.prune({ maxAgeMs: 24 * HOUR, maxEntries: 2 })).toBe(2);
+    expect((await store.search({})).map((e) => e.requestId)).toEqual(["c", "b"]);
+  });
+
+  it.skipIf(name === "memory")("persists across restarts", async () => {
+    await store.put(makeEntry());
+    await store.put(makeEntry({ requestId: "req-2" }));
+    await store.prune({ maxAgeMs: HOUR, maxEntries: 1 });
+    await store.close();
+
+    const reopened = create(dir);
+    await reopened.initialize();
+    expect(await reopened.count()).toBe(1);
+    expect((await reopened.get("req-2"))?.parsedJson).toEqual(makeEntry().parsedJson);
+    await reopened.close();
+  });
+});
+
+describe("file LLM output store eviction", () => {
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("drops evicted entries from the file on the next prune", async () => {
+    dir = await mkdtemp(join(tmpdir(), "llm-output-"));
+    const path = join(dir, "outputs.jsonl");
+    const store = new FileLLMOutputStore(path, 2);
+    await store.initialize();
+
+    for (const requestId of ["a", "b", "c"]) {
+      await store.put(makeEntry({ requestId }));
+    }
+    const fileIds = async () =>
+      (await readFile(path, "utf-8")).trim().split("\n").map((line) => (JSON.parse(line) as LLMOutputEntry).requestId);
+    expect(await fileIds()).toEqual(["a", "b", "c"]);
+
+    // Nothing expired, but the evicted line is still rewritten away
+    expect(await store.prune({ maxAgeMs: HOUR, maxEntries: 2 })).toBe(0);
+    expect(await fileIds()).toEqual(["b", "c"]);
+    await store.close();
+  });
+});
+
+describe("LLM output store facade", () => {
+  afterEach(async () => {
+    await closeLLMOutputStore();
+    vi.unstubAllEnvs();
+    _resetConfigCache();
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  it("redacts PII at write time and hashes the stored (redacted) output", async () => {
+    const rawText = '{"nodes":[{"id":"n1","label":"Email jane@example.com"}]}';
+    const parsed = { nodes: [{ id: "n1", label: "Email jane@example.com" }], edges: [] };
+
+    const stored = storeLLMOutput("req-pii", rawText, parsed, { model: "gpt-4o" });
+    await flushLLMOutputWrites();
+
+    const entry = await getLLMOutput("req-pii");
+    expect(entry?.rawText).toContain("[EMAIL]");
+    expect(entry?.rawText).not.toContain("jane@example.com");
+    expect(JSON.stringify(entry?.parsedJson)).not.toContain("jane@example.com");
+    expect(entry?.outputHash).toBe(stored.outputHash);
+    expect(stored.outputHash).toBe(createHash("sha256").update(entry!.rawText).digest("hex"));
+    expect(stored).toMatchObject({ nodeCount: 1, edgeCount: 0 });
+  });
+
+  it("hides entries past the retention period", async () => {
+    vi.stubEnv("LLM_OUTPUT_RETENTION_HOURS", "1");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      storeLLMOutput("req-old", "text", undefined);
+      await flushLLMOutputWrites();
+      vi.setSystemTime(Date.now() + 2 * HOUR);
+
+      expect(await getLLMOutput("req-old")).toBeUndefined();
+      expect(await searchLLMOutputs({})).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("uses the configured durable backend", async () => {
+    dir = await mkdtemp(join(tmpdir(), "llm-output-"));
+    vi.stubEnv("LLM_OUTPUT_STORE_TYPE", "sqlite");
+    vi.stubEnv("LLM_OUTPUT_STORE_PATH", join(dir, "outputs.db"));
+
+    storeLLMOutput("req-1", '{"nodes":[]}', { nodes: [] }, { model: "gpt-4o", promptVersion: "v3" });
+    await flushLLMOutputWrites();
+    await closeLLMOutputStore();
+
+    expect(await getLLMOutput("req-1")).toMatchObject({ model: "gpt-4o", promptVersion: "v3" });
+    expect(await getLLMOutputStoreStats()).toMatchObject({
+      storeType: "sqlite",
+      size: 1,
+      retention: { maxAgeMs: 7 * 24 * HOUR, maxEntries: 100_000 },
+    });
+  });
+
+  it("caps the file backend, which keeps entries in memory", async () => {
+    dir = await mkdtemp(join(tmpdir(), "llm-output-"));
+    vi.stubEnv("LLM_OUTPUT_STORE_TYPE", "file");
+    vi.stubEnv("LLM_OUTPUT_STORE_PATH", join(dir, "outputs.jsonl"));
+    expect((await getLLMOutputStoreStats()).retention.maxEntries).toBe(10_000);
+    await closeLLMOutputStore();
+
+    vi.stubEnv("LLM_OUTPUT_MAX_ENTRIES", "2");
+    _resetConfigCache();
+    for (const id of ["req-1", "req-2", "req-3"]) {
+      storeLLMOutput(id, "text", undefined);
+    }
+    await flushLLMOutputWrites();
+
+    expect(await getLLMOutput("req-1")).toBeUndefined();
+    expect((await searchLLMOutputs({})).map((e) => e.requestId).sort()).toEqual(["req-2", "req-3"]);
+
+    // Reloading the file keeps the cap
+    await closeLLMOutputStore();
+    expect((await getLLMOutputStoreStats()).size).toBe(2);
+  });
+
+  it("falls back to memory when the backend cannot initialize", async () => {
+    vi.stubEnv("LLM_OUTPUT_STORE_TYPE", "postgres");
+
+    storeLLMOutput("req-1", "text", undefined);
+    await flushLLMOutputWrites();
+
+    expect(await getLLMOutput("req-1")).toBeDefined();
+    expect((await getLLMOutputStoreStats()).storeType).toBe("memory");
+  });
+});
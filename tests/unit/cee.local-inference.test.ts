@@ -0,0 +1,171 @@
+/**
+ * Local Monte Carlo Inference Tests
+ *
+ * Verifies sampling determinism, option ranking with interventions,
+ * edge existence, top drivers, tipping points, value of information, error
+ * cases, and the InferenceResultsV1 / key-insight / ISL views.
+ */
+
+import { describe, it, expect } from "vitest";
+import { Graph, type GraphT } from "../../src/schemas/graph.js";
+import {
+  LocalInferenceError,
+  runLocalInference,
+  toInferenceResults,
+  toIslSynthesisResults,
+  toKeyInsightDrivers,
+  toRankedActions,
+} from "../../src/cee/inference/index.js";
+
+// Raising price lifts revenue directly (+0.6) but also lifts churn (+0.5),
+// which costs revenue (-0.7): net +0.25 per unit of normalised price.
+function pricingGraph(overrides: { churnToRevenueBelief?: number } = {}): GraphT {
+  return Graph.parse({
+    nodes: [
+      { id: "dec_price", kind: "decision", label: "Pricing" },
+      { id: "opt_raise", kind: "option", label: "Raise to £59", data: { interventions: { fac_price: 59 } } },
+      { id: "opt_hold", kind: "option", label: "Hold at £49", data: { interventions: { fac_price: 49 } } },
+      { id: "fac_price", kind: "factor", label: "Price", data: { value: 49, baseline: 49, range: { min: 39, max: 69 } } },
+      { id: "fac_churn", kind: "factor", label: "Churn rate", data: { value: 0.05, range: { min: 0.02, max: 0.12 } } },
+      { id: "out_revenue", kind: "outcome", label: "Revenue" },
+      { id: "goal_rev", kind: "goal", label: "Grow revenue" },
+    ],
+    edges: [
+      { from: "dec_price", to: "opt_raise" },
+      { from: "dec_price", to: "opt_hold" },
+      { from: "fac_price", to: "out_revenue", strength_mean: 0.6, strength_std: 0.1 },
+      { from: "fac_price", to: "fac_churn", strength_mean: 0.5 },
+      {
+        from: "fac_churn",
+        to: "out_revenue",
+        strength_mean: -0.7,
+        strength_std: 0.1,
+        belief_exists: overrides.churnToRevenueBelief ?? 1,
+      },
+      { from: "out_revenue", to: "goal_rev", strength_mean: 1 },
+    ],
+  });
+}
+
+describe("local inference engine", () => {
+  it("is deterministic for a given seed", () => {
+    const first = runLocalInference(pricingGraph(), { samples: 500, seed: 7 });
+    const second = runLocalInference(pricingGraph(), { samples: 500, seed: 7 });
+    const other = runLocalInference(pricingGraph(), { samples: 500, seed: 8 });
+
+    expect(second).toEqual(first);
+    expect(other.outcomes[0].p50).not.toBe(first.outcomes[0].p50);
+  });
+
+  it("ranks options by expected goal value with distributions", () => {
+    const result = runLocalInference(pricingGraph(), { samples: 2000 });
+
+    expect(result.target_id).toBe("goal_rev");
+    expect(result.outcomes.map((o) => o.option_id)).toEqual(["opt_raise", "opt_hold"]);
+
+    const [raise, hold] = result.outcomes;
+    // Price moves 10 on a 30-wide range: 1/3 × net 0.25
+    expect(raise.mean - hold.mean).toBeCloseTo(0.25 / 3, 2);
+    expect(raise.p10).toBeLessThanOrEqual(raise.p50);
+    expect(raise.p50).toBeLessThanOrEqual(raise.p90);
+    expect(raise.probability_best + hold.probability_best).toBeCloseTo(1, 2);
+  });
+
+  it("drops edges that do not exist", () => {
+    const result = runLocalInference(pricingGraph({ churnToRevenueBelief: 0 }), { samples: 500 });
+
+    const [raise, hold] = result.outcomes;
+    // Only the direct +0.6 effect remains
+    expect(raise.mean - hold.mean).toBeCloseTo(0.6 / 3, 2);
+    expect(result.drivers).toEqual([]);
+  });
+
+  it("reports uncertain factors as signed drivers", () => {
+    const result = runLocalInference(pricingGraph(), { samples: 1000 });
+
+    // Price is fixed by both options, so churn is the only driver
+    expect(result.drivers).toEqual([{ node_id: "fac_churn", label: "Churn rate", contribution: -1 }]);
+  });
+
+  it("finds where moving the recommended option's lever flips the ranking", () => {
+    const result = runLocalInference(pricingGraph(), { samples: 200 });
+
+    expect(result.tipping_points).toEqual([
+      {
+        factor_id: "fac_price",
+        factor_label: "Price",
+        threshold_value: 49,
+        current_value: 59,
+        optimal_before: "Hold at £49",
+        optimal_after: "Raise to £59",
+      },
+    ]);
+  });
+
+  it("values information about factors that change the best option", () => {
+    const graph = pricingGraph();
+    // A retention campaign pins churn; whether raising price beats it depends on churn
+    graph.nodes.push(
+      { id: "opt_market", kind: "option", label: "Retention campaign", data: { interventions: { fac_churn: 0.05 } } },
+    );
+
+    const result = runLocalInference(graph, { samples: 2000 });
+
+    const churn = result.value_of_information.find((item) => item.factor_id === "fac_churn");
+    expect(churn?.voi).toBeGreaterThan(0);
+    expect(runLocalInference(pricingGraph(), { samples: 500 }).value_of_information).toEqual([]);
+  });
+
+  it("evaluates a single baseline scenario when there are no options", () => {
+    const graph = pricingGraph();
+    graph.nodes = graph.nodes.filter((n) => n.kind !== "option");
+
+    const result = runLocalInference(graph, { samples: 200 });
+
+    expect(result.outcomes).toHaveLength(1);
+    expect(result.outcomes[0]).toMatchObject({ option_id: "baseline", probability_best: 1 });
+    expect(result.tipping_points).toEqual([]);
+  });
+
+  it("rejects cyclic graphs and graphs with nothing to evaluate", () => {
+    const cyclic = pricingGraph();
+    cyclic.edges.push({ from: "goal_rev", to: "fac_churn" } as GraphT["edges"][number]);
+    const noGoal = Graph.parse({ nodes: [{ id: "f", kind: "factor" }], edges: [] });
+
+    expect(() => runLocalInference(cyclic, { samples: 100 })).toThrow(LocalInferenceError);
+    expect(() => runLocalInference(noGoal, { samples: 100 })).toThrow(/no goal or outcome/);
+  });
+});
+
+describe("local inference views", () => {
+  const result = runLocalInference(pricingGraph(), { samples: 500 });
+
+  it("maps to InferenceResultsV1 with a reproducible hash", () => {
+    const inference = toInferenceResults(result);
+
+    expect(inference.summary).toContain("Raise to £59 has the highest expected Grow revenue");
+    expect(inference.explain?.top_drivers).toEqual([{ node_id: "fac_churn", description: "Churn rate", contribution: -1 }]);
+    expect(inference.model_card).toMatchObject({ provider: "olumi-local", model: "monte-carlo-v1", samples: 500 });
+    expect(inference.outcomes).toHaveLength(2);
+    expect(inference.seed).toBe("17");
+    expect(toInferenceResults(result).response_hash).toBe(inference.response_hash);
+  });
+
+  it("maps to key-insight ranked actions and drivers", () => {
+    const actions = toRankedActions(result);
+
+    expect(actions[0]).toMatchObject({ node_id: "opt_raise", primary_outcome: "Grow revenue" });
+    expect(actions.every((a) => a.expected_utility >= 0 && a.expected_utility <= 1)).toBe(true);
+    expect(toKeyInsightDrivers(result)).toEqual([
+      { node_id: "fac_churn", label: "Churn rate", impact_pct: 100, direction: "negative", kind: "factor" },
+    ]);
+  });
+
+  it("maps to ISL synthesis results", () => {
+    const isl = toIslSynthesisResults(result);
+
+    expect(isl.sensitivity?.[0]).toMatchObject({ factor_id: "fac_churn", sensitivity: 1, direction: "negative" });
+    expect(isl.robustness?.[0]).toMatchObject({ recommendation_id: "opt_raise", scenarios_tested: 500 });
+    expect(isl.tipping_points?.[0].factor_id).toBe("fac_price");
+  });
+});
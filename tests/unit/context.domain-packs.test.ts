@@ -0,0 +1,143 @@
+/**
+ * Domain Pack Tests
+ *
+ * Verifies the built-in domain packs, weighted multi-domain detection,
+ * top-2 merging, X-Olumi-Domain parsing, and the header override reaching
+ * resolveContext through the caller context.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  clearContextCache,
+  detectDomain,
+  detectDomains,
+  formatContextForPrompt,
+  parseDomainHeader,
+  resolveContext,
+  scoreDomains,
+} from "../../src/context/resolver.js";
+import { DOMAIN_PACKS, getDomainPack } from "../../src/context/packs/index.js";
+import { DomainPackSchema, SUPPORTED_DOMAINS } from "../../src/context/types.js";
+import { createTestContext, runWithCallerContext } from "../../src/context/caller.js";
+
+describe("Domain packs", () => {
+  beforeEach(() => {
+    clearContextCache();
+  });
+
+  describe("registry", () => {
+    it("has a valid pack for every non-core domain", () => {
+      const domains = SUPPORTED_DOMAINS.filter((d) => d !== "core");
+
+      expect(Object.keys(DOMAIN_PACKS).sort()).toEqual([...domains].sort());
+      for (const domain of domains) {
+        const pack = getDomainPack(domain)!;
+        expect(DomainPackSchema.safeParse(pack).success).toBe(true);
+        expect(pack.domain).toBe(domain);
+        expect(pack.typical_factors.length).toBeGreaterThan(0);
+      }
+    });
+
+    it("has no pack for core or unknown domains", () => {
+      expect(getDomainPack("core")).toBeUndefined();
+      expect(getDomainPack("toString")).toBeUndefined();
+    });
+  });
+
+  describe("detection", () => {
+    it.each([
+      ["Should we add a one-click checkout to our online store to cut cart abandonment?", "ecommerce"],
+      ["Should the hospital open a discharge clinic to reduce patient readmission?", "healthcare"],
+      ["Should we automate the production line to lift OEE at the Leeds plant?", "manufacturing"],
+      ["Should we build our own KYC flow or keep a vendor for our payments app?", "fintech"],
+      ["Should the council move housing applications online for citizens?", "public_sector"],
+      ["Should we raise prices for customers paying monthly recurring revenue?", "saas"],
+    ])("detects %s as %s", (brief, domain) => {
+      expect(detectDomain(brief)).toBe(domain);
+    });
+
+    it("does not let a single weak keyword trigger a domain", () => {
+      expect(detectDomains("Check the warranty terms")).toEqual([]);
+      expect(detectDomains("Should we change our supplier?")).toEqual([]);
+    });
+
+    it("merges a runner-up domain that scores at least half of the top one", () => {
+      const brief = "Should our hospital launch a patient subscription app with a freemium tier?";
+
+      expect(detectDomains(brief)).toEqual(["healthcare", "saas"]);
+    });
+
+    it("drops a runner-up that scores under half of the top one", () => {
+      const brief = "Payments fintech: should we expand lending given KYC, AML and default rate risk? Watch churn and upsell.";
+
+      const scores = scoreDomains(brief);
+      expect(scores.map((s) => s.domain)).toEqual(["fintech", "saas"]);
+      expect(detectDomains(brief)).toEqual(["fintech"]);
+      expect(scores[0].matchedKeywords).toContain("kyc");
+    });
+  });
+
+  describe("parseDomainHeader", () => {
+    it("accepts one or two domains, primary first", () => {
+      expect(parseDomainHeader("fintech")).toEqual(["fintech"]);
+      expect(parseDomainHeader(" Healthcare , SaaS ")).toEqual(["healthcare", "saas"]);
+      expect(parseDomainHeader("public-sector")).toEqual(["public_sector"]);
+    });
+
+    it("ignores unknown values and caps at two domains", () => {
+      expect(parseDomainHeader("crypto, ecommerce")).toEqual(["ecommerce"]);
+      expect(parseDomainHeader("saas,fintech,healthcare")).toEqual(["saas", "fintech"]);
+      expect(parseDomainHeader("crypto")).toBeUndefined();
+      expect(parseDomainHeader(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("resolveContext", () => {
+    it("merges two domains with the primary winning", () => {
+      const context = resolveContext("brief", ["healthcare", "saas"]);
+
+      expect(context.domain).toBe("healthcare");
+      expect(context.domains).toEqual(["healthcare", "saas"]);
+      expect(context.sources).toEqual(expect.arrayContaining(["healthcare", "saas"]));
+      expect(context.glossary.map((t) => t.term)).toContain("Readmission Rate");
+      expect(context.typicalFactors[0].label).toBe("Readmission Rate");
+      expect(context.typicalFactors.map((f) => f.label)).toContain("Monthly Recurring Revenue");
+    });
+
+    it("formats merged domains and typical factors for the prompt", () => {
+      const formatted = formatContextForPrompt(resolveContext("brief", ["ecommerce", "saas"]));
+
+      expect(formatted).toContain("# Market Context (ecommerce + saas)");
+      expect(formatted).toContain("## Typical Factors");
+      expect(formatted).toContain("**Average Order Value** [$]");
+    });
+
+    it("honours the caller's X-Olumi-Domain override over detection", () => {
+      const brief = "Should we add a one-click checkout to our online store?";
+      const ctx = createTestContext({ domainOverride: ["manufacturing"] });
+
+      const context = runWithCallerContext(ctx, () => resolveContext(brief));
+
+      expect(context.domains).toEqual(["manufacturing"]);
+      expect(resolveContext(brief).domain).toBe("ecommerce");
+    });
+
+    it("treats a core override as no domain", () => {
+      const ctx = createTestContext({ domainOverride: ["core"] });
+
+      const context = runWithCallerContext(ctx, () => resolveContext("Our MRR and churn rate are flat"));
+
+      expect(context.domain).toBe("core");
+      expect(context.domains).toEqual([]);
+      expect(context.typicalFactors).toEqual([]);
+    });
+
+    it("prefers an explicit domain argument over the caller override", () => {
+      const ctx = createTestContext({ domainOverride: ["fintech"] });
+
+      const context = runWithCallerContext(ctx, () => resolveContext("brief", "public_sector"));
+
+      expect(context.domains).toEqual(["public_sector"]);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  summariseTurns,
+  selectDecisionMemory,
+  loadDecisionMemory,
+  saveDecisionMemory,
+  deleteDecisionMemory,
+  createDecisionMemory,
+  clearDecisionMemoryCache,
+} from "../../src/services/decision-memory.js";
+import { appendTurns, clearMemoryCache } from "../../src/services/session-cache.js";
+import { processAskRequest } from "../../src/adapters/ask/index.js";
+import { _resetConfigCache } from "../../src/config/index.js";
+import type { TurnT, WorkingSetRequestT } from "../../src/schemas/working-set.js";
+import type { GraphT } from "../../src/schemas/graph.js";
+
+// Mock Redis to exercise the in-memory fallback
+vi.mock("../../src/platform/redis.js", () => ({
+  getRedis: vi.fn(() => Promise.resolve(null)),
+  isRedisAvailable: vi.fn(() => false),
+}));
+
+const graph = {
+  version: "1",
+  default_seed: 17,
+  nodes: [
+    { id: "goal_1", kind: "goal", label: "Choose Cloud Provider" },
+    { id: "factor_cost", kind: "factor", label: "Cost" },
+    { id: "option_aws", kind: "option", label: "AWS" },
+    { id: "option_gcp", kind: "option", label: "GCP" },
+    { id: "option_azure", kind: "option", label: "Azure" },
+  ],
+  edges: [
+    { from: "option_aws", to: "factor_cost" },
+    { from: "option_gcp", to: "factor_cost" },
+    { from: "option_azure", to: "factor_cost" },
+    { from: "factor_cost", to: "goal_1" },
+  ],
+  meta: { roots: [], leaves: [], suggested_positions: {}, source: "assistant" },
+} as unknown as GraphT;
+
+const user = (content: string, extra: Partial<TurnT> = {}): TurnT => ({ role: "user", content, ...extra });
+const assistant = (content: string): TurnT => ({ role: "assistant", content });
+
+describe("summariseTurns", () => {
+  it("classifies user sentences into rejected options, preferences, facts and open questions", () => {
+    const memory = summariseTurns(null, "s1", [
+      user("We have ruled out Azure. I prefer low Cost over anything else."),
+      assistant("Noted."),
+      user("Our budget is fixed at 10k per month. Is GCP cheaper than AWS?"),
+    ], graph);
+
+    expect(memory.rejected_options).toEqual([
+      expect.objectContaining({ text: "We have ruled out Azure.", node_ids: ["option_azure"] }),
+    ]);
+    expect(memory.preferences[0]).toMatchObject({ text: "I prefer low Cost over anything else.", node_ids: ["factor_cost"] });
+    expect(memory.facts[0].text).toBe("Our budget is fixed at 10k per month.");
+    expect(memory.open_questions[0]).toMatchObject({ node_ids: ["option_aws", "option_gcp"] });
+    expect(memory.turns_summarised).toBe(3);
+  });
+
+  it("records an assistant statement the user confirmed as an agreed fact", () => {
+    const memory = summariseTurns(null, "s1", [
+      assistant("Cost is the main driver of this decision. Shall we weight it higher?"),
+      user("Yes, exactly."),
+    ], graph);
+
+    expect(memory.facts).toEqual([
+      expect.objectContaining({ text: "Cost is the main driver of this decision.", node_ids: ["factor_cost"] }),
+    ]);
+  });
+
+  it("keys items to referenced_ids and de-duplicates restated items", () => {
+    const first = summariseTurns(null, "s1", [user("I want something simple.", { referenced_ids: ["goal_1"] })], graph);
+    const second = summariseTurns(first, "s1", [user("I want something simple!")], graph);
+
+    expect(first.preferences[0].node_ids).toEqual(["goal_1"]);
+    expect(second.preferences).toHaveLength(1);
+    expect(first.preferences).toHaveLength(1);
+  });
+});
+
+describe("selectDecisionMemory", () => {
+  const memory = summariseTurns(null, "s1", [
+    user("We have ruled out Azure."),
+    user("I care about predictable Cost."),
+    user("Is AWS support any good?"),
+  ], graph);
+
+  it("puts items about the focus nodes first", () => {
+    const selected = selectDecisionMemory(memory, { focusNodeIds: ["option_aws"], tokenBudget: 1000 });
+    expect(selected[0].kind).toBe("open_question");
+    expect(selected).toHaveLength(3);
+  });
+
+  it("stays within the token budget", () => {
+    const selected = selectDecisionMemory(memory, { tokenBudget: 8 });
+    expect(selected.map((i) => i.kind)).toEqual(["rejected_option"]);
+    expect(selectDecisionMemory(memory, { tokenBudget: 0 })).toEqual([]);
+  });
+});
+
+describe("decision memory persistence", () => {
+  beforeEach(() => {
+    _resetConfigCache();
+    clearDecisionMemoryCache();
+    clearMemoryCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    _resetConfigCache();
+  });
+
+  it("saves, loads and deletes memory per scenario", async () => {
+    const memory = { ...createDecisionMemory("s1"), turns_summarised: 4 };
+    await saveDecisionMemory(memory);
+
+    expect((await loadDecisionMemory("s1"))?.turns_summarised).toBe(4);
+    expect(await loadDecisionMemory("s2")).toBeNull();
+
+    await deleteDecisionMemory("s1");
+    expect(await loadDecisionMemory("s1")).toBeNull();
+  });
+
+  it("summarises turns evicted from the session cache", async () => {
+    await appendTurns("s1", [user("We have ruled out Azure."), assistant("Understood.")], { graph });
+    await appendTurns("s1", [user("a?"), assistant("b"), user("c?")], { graph });
+    expect(await loadDecisionMemory("s1")).toBeNull();
+
+    await appendTurns("s1", [user("Next question?")], { graph });
+
+    const memory = await loadDecisionMemory("s1");
+    expect(memory?.turns_summarised).toBe(1);
+    expect(memory?.rejected_options[0].node_ids).toEqual(["option_azure"]);
+  });
+
+  it("does not summarise when disabled", async () => {
+    vi.stubEnv("CEE_DECISION_MEMORY_ENABLED", "false");
+    _resetConfigCache();
+
+    await appendTurns("s1", Array.from({ length: 7 }, (_, i) => user(`We have ruled out option ${i}.`)));
+    expect(await loadDecisionMemory("s1")).toBeNull();
+  });
+});
+
+describe("ask handlers with decision memory", () => {
+  const request = (overrides: Partial<WorkingSetRequestT> = {}): WorkingSetRequestT => ({
+    scenario_id: "s1",
+    graph_schema_version: "2.2",
+    brief: "We need to pick a cloud provider for our SaaS platform.",
+    message: "Compare the options",
+    intent: "compare",
+    graph_snapshot: graph,
+    market_context: { id: "ctx", version: "1", hash: "h" },
+    ...overrides,
+  } as WorkingSetRequestT);
+
+  const memory = summariseTurns(null, "s1", [
+    user("We have ruled out Azure."),
+    user("I care about predictable Cost."),
+    user("Does GCP have a UK region?"),
+  ], graph);
+  const decisionMemory = selectDecisionMemory(memory, { tokenBudget: 1000 });
+
+  it("drops ruled-out options and restates preferences when comparing", async () => {
+    const { response } = await processAskRequest(request(), { requestId: "r1", timeoutMs: 1000, decisionMemory });
+
+    expect(response.highlights?.[0].ids).toEqual(["option_aws", "option_gcp"]);
+    expect(response.message).toContain('Earlier you ruled out: "We have ruled out Azure."');
+    expect(response.message).toContain('"I care about predictable Cost."');
+    // Preferences, rejections and memory about highlighted options are cited
+    expect(response.why?.filter((w) => w.source === "conversation").map((w) => w.note)).toEqual([
+      "Earlier in this conversation (ruled out): We have ruled out Azure.",
+      "Earlier in this conversation (preference): I care about predictable Cost.",
+      "Earlier in this conversation (open question): Does GCP have a UK region?",
+    ]);
+  });
+
+  it("resurfaces an open question when clarifying without a selection", async () => {
+    const { response } = await processAskRequest(
+      request({ intent: "clarify", message: "Help" }),
+      { requestId: "r2", timeoutMs: 1000, decisionMemory }
+    );
+
+    expect(response.follow_up_question).toBe('Earlier you asked: "Does GCP have a UK region?" Shall we pick that up?');
+  });
+
+  it("leaves responses unchanged without memory", async () => {
+    const withMemory = await processAskRequest(request(), { requestId: "r3", timeoutMs: 1000, decisionMemory: [] });
+    const without = await processAskRequest(request(), { requestId: "r3", timeoutMs: 1000 });
+
+    expect(withMemory.response.message).toBe(without.response.message);
+    expect(withMemory.response.why).toBeUndefined();
+  });
+});
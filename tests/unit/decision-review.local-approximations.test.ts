@@ -0,0 +1,190 @@
+/**
+ * Decision Review Local Approximations
+ *
+ * Finite-difference sensitivity, contrastive search, bootstrap intervals and
+ * validation strategies computed from the graph when ISL is unavailable.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { GraphV1 } from '../../src/contracts/plot/engine.js';
+import { createLocalApproximations } from '../../src/cee/decision-review/local-approximations.js';
+import {
+  executeDecisionReview,
+  __resetDecisionReviewCircuitBreakerForTests,
+} from '../../src/cee/decision-review/service.js';
+import { formatDecisionReviewSummary } from '../../src/cee/decision-review/templates.js';
+import { DecisionReviewResponseSchema } from '../../src/cee/decision-review/schema.js';
+
+// Revenue = 0.8·Price + 0.4·Market. "Premium" fixes price at 13; "Status quo" leaves it at 10.
+const createPricingGraph = (): GraphV1 => ({
+  version: '1',
+  default_seed: 17,
+  nodes: [
+    { id: 'goal', kind: 'goal', label: 'Revenue' },
+    { id: 'dec', kind: 'decision', label: 'Pricing' },
+    { id: 'premium', kind: 'option', label: 'Premium', data: { interventions: { price: 13 } } },
+    { id: 'status_quo', kind: 'option', label: 'Status quo' },
+    { id: 'price', kind: 'factor', label: 'Price', data: { value: 10, range: { min: 5, max: 15 } } },
+    { id: 'market', kind: 'factor', label: 'Market size', data: { value: 50 } },
+    { id: 'churn', kind: 'factor', label: 'Churn' },
+    { id: 'sales', kind: 'outcome', label: 'Sales' },
+    { id: 'risk', kind: 'risk', label: 'Competitor response' },
+  ],
+  edges: [
+    { from: 'dec', to: 'premium' },
+    { from: 'dec', to: 'status_quo' },
+    { from: 'price', to: 'sales', strength_mean: 0.8 },
+    { from: 'market', to: 'sales', strength_mean: 0.4 },
+    { from: 'sales', to: 'goal', strength_mean: 1 },
+  ],
+} as unknown as GraphV1);
+
+describe('createLocalApproximations()', () => {
+  const local = createLocalApproximations(createPricingGraph());
+
+  it('scores sensitivity by share of the goal swing across factor ranges', () => {
+    // Swings: Price 0.8 (range 5–15), Market 0.32 (±2σ, σ = 20%) → total 1.12
+    const price = local.sensitivity('price');
+    expect(price).toMatchObject({ available: true, source: 'local_approximation', classification: 'high' });
+    expect(price.score).toBeCloseTo(0.8 / 1.12, 3);
+    expect(price.affectedPaths).toEqual(['Price → Sales → Revenue']);
+
+    const sales = local.sensitivity('sales');
+    expect(sales.score).toBe(1);
+    expect(sales.factors?.[0]).toMatch(/^Price \(71% of the swing in Revenue\)/);
+
+    const premium = local.sensitivity('premium');
+    expect(premium.score).toBeCloseTo(0.24 / 1.12, 3);
+    expect(premium.factors).toEqual([expect.stringMatching(/^Price/)]);
+
+    expect(local.sensitivity('risk')).toMatchObject({ available: true, score: 0, classification: 'low' });
+  });
+
+  it('ranks options and finds the factor value that would flip the decision', () => {
+    const contrastive = local.contrastive('dec');
+
+    expect(contrastive.available).toBe(true);
+    expect(contrastive.source).toBe('local_approximation');
+    expect(contrastive.explanation).toContain('Premium scores highest on Revenue');
+    expect(contrastive.keyFactors?.[0]).toBe('Price');
+    expect(contrastive.counterfactuals).toEqual([
+      { change: 'Price moved from 10 to 13', predictedImpact: 'Status quo would overtake Premium on Revenue' },
+    ]);
+  });
+
+  it('lists every factor the options set differently ahead of the rest', () => {
+    const graph = createPricingGraph();
+    const premium = graph.nodes.find((n) => n.id === 'premium')!;
+    (premium as { data?: unknown }).data = { interventions: { price: 13, market: 40 } };
+
+    expect(createLocalApproximations(graph).contrastive('dec').keyFactors).toEqual(['Price', 'Market size']);
+  });
+
+  it('bootstraps deterministic intervals around the expected value', () => {
+    const first = local.conformal('sales');
+    const again = createLocalApproximations(createPricingGraph()).conformal('sales');
+
+    expect(first).toMatchObject({ available: true, source: 'local_approximation', confidence: 0.9, wellCalibrated: false });
+    expect(first.interval!.lower).toBeLessThan(0);
+    expect(first.interval!.upper).toBeGreaterThan(0);
+    expect(first.widthFactors?.[0]).toBe('Price');
+    expect(again).toEqual(first);
+
+    expect(local.conformal('risk')).toMatchObject({ available: false, source: 'local_approximation' });
+  });
+
+  it('suggests measuring high-swing factors and quantifying empty ones', () => {
+    const suggestions = local.validationStrategies();
+
+    expect(suggestions).toMatchObject({ available: true, source: 'local_approximation', overallPriority: 'high' });
+    expect(suggestions.strategies!.map((s) => s.id)).toEqual(['measure_price', 'measure_market', 'quantify_churn']);
+    expect(suggestions.strategies![0].actions).toContain('Narrow the range for Price');
+    expect(suggestions.coverage).toEqual({ nodeCoverage: 0.67, riskCoverage: 0 });
+  });
+
+  it('degrades with a reason when the graph cannot be evaluated', () => {
+    const cyclic = {
+      nodes: [
+        { id: 'goal', kind: 'goal' },
+        { id: 'a', kind: 'factor', data: { value: 1 } },
+        { id: 'b', kind: 'outcome' },
+      ],
+      edges: [
+        { from: 'a', to: 'b' },
+        { from: 'b', to: 'a' },
+      ],
+    } as unknown as GraphV1;
+
+    expect(createLocalApproximations(cyclic).sensitivity('a')).toEqual({
+      available: false,
+      source: 'local_approximation',
+      error: 'Local approximation unavailable: Graph contains a cycle',
+    });
+  });
+});
+
+describe('executeDecisionReview() local fallback', () => {
+  beforeEach(() => {
+    __resetDecisionReviewCircuitBreakerForTests();
+  });
+
+  const config = { enableConformal: true };
+  const targetNodes = ['dec', 'premium', 'sales'];
+
+  it('approximates every analysis locally without an ISL client', async () => {
+    const result = await executeDecisionReview(createPricingGraph(), { targetNodes, config }, { islClient: null });
+    expect(() => DecisionReviewResponseSchema.parse(result)).not.toThrow();
+
+    expect(result.islAvailability).toMatchObject({
+      serviceAvailable: false,
+      degradationReason: 'ISL client not configured',
+      localApproximations: ['sensitivity', 'contrastive', 'conformal', 'validation'],
+    });
+
+    const decision = result.critiques.find((c) => c.nodeId === 'dec')!;
+    expect(decision.islAnalysis?.contrastive?.source).toBe('local_approximation');
+    expect(result.critiques.find((c) => c.nodeId === 'sales')!.islAnalysis?.conformal?.available).toBe(true);
+    expect(result.globalValidationSuggestions?.source).toBe('local_approximation');
+    expect(result.summary.priorityStrategies[0]).toBe('Measure Price');
+
+    expect(formatDecisionReviewSummary(result)).toContain('Local approximations were used for: sensitivity');
+  });
+
+  it('fills in only the ISL calls that failed', async () => {
+    const islClient = {
+      getSensitivityDetailed: vi.fn().mockRejectedValue(new Error('boom')),
+      getContrastiveExplanation: vi.fn().mockResolvedValue({
+        summary: { explanation: 'Premium wins on margin', key_factors: ['Price'] },
+        contrasts: [],
+      }),
+      getConformalPrediction: vi.fn().mockRejectedValue(new Error('boom')),
+      getValidationStrategies: vi.fn().mockRejectedValue(new Error('boom')),
+    };
+
+    const result = await executeDecisionReview(
+      createPricingGraph(),
+      { targetNodes, config },
+      { islClient: islClient as never },
+    );
+
+    const decision = result.critiques.find((c) => c.nodeId === 'dec')!;
+    expect(decision.islAnalysis?.contrastive).toMatchObject({ source: 'isl', explanation: 'Premium wins on margin' });
+    expect(decision.islAnalysis?.sensitivity?.source).toBe('local_approximation');
+    expect(result.islAvailability).toMatchObject({
+      serviceAvailable: true,
+      endpointsUsed: ['contrastive'],
+      localApproximations: ['sensitivity', 'conformal', 'validation'],
+    });
+  });
+
+  it('keeps LLM-only critiques when local fallback is disabled', async () => {
+    const result = await executeDecisionReview(
+      createPricingGraph(),
+      { targetNodes, config: { ...config, enableLocalFallback: false } },
+      { islClient: null },
+    );
+
+    expect(result.critiques.every((c) => c.islAnalysis === undefined)).toBe(true);
+    expect(result.islAvailability.localApproximations).toBeUndefined();
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Document Preview Budget Tests
+ *
+ * Verifies per-page PDF extraction, the shared token budget allocator,
+ * keyword-prioritised page/row/line selection in processAttachments, and
+ * citation validation against the locations recorded in locationMetadata.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Buffer } from "node:buffer";
+
+const pdfState = vi.hoisted(() => ({ pages: [] as string[] }));
+
+// pdf-parse renders each page through the pagerender hook; feed it synthetic pages
+vi.mock("pdf-parse", () => ({
+  default: vi.fn(async (_buf: Buffer, opts: { pagerender: (pageData: unknown) => Promise<string> }) => {
+    let text = "";
+    for (const [pageIndex, pageText] of pdfState.pages.entries()) {
+      const rendered = await opts.pagerender({
+        pageIndex,
+        getTextContent: async () => ({
+          items: pageText.split("\n").map((str, line) => ({ str, transform: [1, 0, 0, 1, 72, 720 - line * 14] })),
+        }),
+      });
+      text += `\n\n${rendered}`;
+    }
+    return { numpages: pdfState.pages.length, numrender: pdfState.pages.length, info: {}, metadata: null, text };
+  }),
+}));
+
+import { allocateTokenBudget, briefKeywords, extractPdfPages } from "../../src/services/docProcessing.js";
+import { extractLocation, extractTextFromPdf, verifyCitation } from "../../src/grounding/index.js";
+import { processAttachments, type AttachmentInput } from "../../src/grounding/process-attachments.js";
+import { _resetConfigCache } from "../../src/config/index.js";
+
+const PDF = Buffer.from("%PDF-1.4");
+
+/** Grounded previews under a given shared token budget */
+async function budgeted(attachments: AttachmentInput[], tokenBudget: number, brief?: string) {
+  vi.stubEnv("DOC_PREVIEW_TOKEN_BUDGET", String(tokenBudget));
+  _resetConfigCache();
+  return (await processAttachments(attachments, { brief })).docs;
+}
+
+const board = (): AttachmentInput => ({ id: "board", kind: "pdf", name: "board.pdf", content: PDF });
+
+describe("document preview budgets", () => {
+  beforeEach(() => {
+    pdfState.pages = [
+      "Board pack\nAgenda",
+      "Marketing update\nBrand campaign results",
+      "Hiring plan\nTwo senior engineers in Q3",
+      "Appendix\nGlossary",
+    ];
+  });
+
+  describe("extractPdfPages", () => {
+    it("returns text per real page", async () => {
+      const { pages, numpages } = await extractPdfPages(PDF);
+
+      expect(numpages).toBe(4);
+      expect(pages[2]).toBe("Hiring plan\nTwo senior engineers in Q3");
+    });
+
+    it("marks real page boundaries in grounding extraction", async () => {
+      const text = await extractTextFromPdf(PDF);
+
+      expect(text).toContain("[PAGE 3]\nHiring plan");
+      expect(extractLocation("senior engineers", text)).toBe("page 3");
+    });
+  });
+
+  describe("budgetPreviews", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      _resetConfigCache();
+    });
+
+    it("records every page when the PDF fits", async () => {
+      const [doc] = await budgeted([board()], 20000);
+
+      expect(doc.preview).toContain("[PAGE 4]\nAppendix");
+      expect(doc.locationMetadata).toMatchObject({ includedPages: [1, 2, 3, 4], truncated: false });
+    });
+
+    it("keeps pages matching brief keywords first when over budget", async () => {
+      const [doc] = await budgeted([board()], 20, "hiring plan for engineers");
+
+      expect(doc.locationMetadata?.includedPages).toEqual([1, 3]);
+      expect(doc.locationMetadata?.truncated).toBe(true);
+      expect(doc.preview).not.toContain("[PAGE 2]");
+      expect(doc.preview.length).toBeLessThanOrEqual(80);
+    });
+
+    it("cuts a single oversized line instead of returning nothing", async () => {
+      const long = Buffer.from("a".repeat(10000), "utf8");
+      const [doc] = await budgeted([{ id: "long", kind: "txt", name: "long.txt", content: long }], 1250);
+
+      expect(doc.preview.startsWith("1: aaa")).toBe(true);
+      expect(doc.preview.length).toBe(5000);
+      expect(doc.locationMetadata).toMatchObject({ includedLines: [1], truncated: true });
+    });
+
+    it("keeps numbered lines inside a PDF page with their page", async () => {
+      pdfState.pages = [
+        `Cover\n${"Intro text. ".repeat(20)}`,
+        "Results\n2023: revenue grew 12%\n2024: revenue flat",
+      ];
+      const [doc] = await budgeted([board()], 40, "revenue");
+
+      expect(doc.locationMetadata?.includedPages).toEqual([2]);
+      expect(doc.locationMetadata?.includedLines).toBeUndefined();
+      expect(doc.preview).toContain("[PAGE 2]\nResults\n2023: revenue grew 12%");
+      expect(verifyCitation({ source: "board.pdf", quote: "revenue grew 12%", location: "page 2" }, doc)).toBe(true);
+      expect(verifyCitation({ source: "board.pdf", quote: "revenue grew 12%", location: "page 1" }, doc)).toBe(false);
+    });
+
+    it("shares one token budget across attachments and prioritises brief keywords", async () => {
+      const notes = Buffer.from("Q3 priorities\nShip mobile app", "utf8");
+      const docs = await budgeted(
+        [board(), { id: "notes", kind: "txt", name: "notes.txt", content: notes }],
+        25,
+        "Should we follow the hiring plan for senior engineers?"
+      );
+
+      expect(docs[1].locationMetadata?.truncated).toBe(false);
+      expect(docs[0].locationMetadata?.includedPages).toContain(3);
+      expect(docs[0].locationMetadata?.truncated).toBe(true);
+      expect(docs.reduce((sum, doc) => sum + doc.preview.length, 0)).toBeLessThanOrEqual(25 * 4);
+    });
+  });
+
+  describe("allocateTokenBudget", () => {
+    it("gives small documents their full size and redistributes the rest", () => {
+      expect(allocateTokenBudget([100, 5000, 200], 1000)).toEqual([100, 700, 200]);
+    });
+
+    it("splits evenly when every document exceeds its share", () => {
+      expect(allocateTokenBudget([900, 900], 1000)).toEqual([500, 500]);
+    });
+  });
+
+  describe("briefKeywords", () => {
+    it("extracts brief keywords without stop-words or short tokens", () => {
+      expect(briefKeywords("Should we hire the engineers for Q3?")).toEqual(["hire", "engineers"]);
+    });
+  });
+
+  describe("processAttachments", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      _resetConfigCache();
+    });
+
+    it("accepts files over 5k chars and cuts them to the shared budget, brief matches first", async () => {
+      vi.stubEnv("DOC_PREVIEW_TOKEN_BUDGET", "300");
+      _resetConfigCache();
+      pdfState.pages = [
+        ...Array.from({ length: 20 }, (_, i) => `Facilities update ${i + 1}\n${"Parking and catering. ".repeat(10)}`),
+        "Hiring plan\nTwo senior engineers in Q3",
+      ];
+      const notes = Buffer.from("Q3 priorities\nShip mobile app", "utf8");
+
+      const { docs } = await processAttachments(
+        [
+          { id: "board", kind: "pdf", name: "board.pdf", content: PDF },
+          { id: "notes", kind: "txt", name: "notes.txt", content: notes },
+        ],
+        { brief: "Should we follow the hiring plan for senior engineers?" }
+      );
+
+      expect(docs[0].preview).toContain("[PAGE 21]\nHiring plan");
+      expect(docs[0].locationMetadata).toMatchObject({ truncated: true });
+      expect(docs[0].locationMetadata?.includedPages).toContain(21);
+      expect(docs[0].locationMetadata?.includedPages?.length).toBeLessThan(21);
+      expect(docs[1].preview).toBe("1: Q3 priorities\n2: Ship mobile app");
+      expect(docs[1].locationMetadata?.truncated).toBe(false);
+      expect(docs.reduce((sum, doc) => sum + doc.preview.length, 0)).toBeLessThanOrEqual(300 * 4);
+      expect(verifyCitation({ source: "board.pdf", quote: "Two senior engineers", location: "page 21" }, docs[0])).toBe(true);
+    });
+  });
+
+  describe("citation validation", () => {
+    it("maps quotes back to the original text despite collapsed whitespace", () => {
+      const marked = "[PAGE 1]\nIntro    with     lots\n\n\nof   spacing\n\n[PAGE 2]\nTarget quote";
+
+      expect(extractLocation("target quote", marked)).toBe("page 2");
+    });
+
+    it("accepts citations on pages that made it into the preview", async () => {
+      const [doc] = await budgeted([board()], 15, "hiring");
+      vi.unstubAllEnvs();
+      _resetConfigCache();
+
+      expect(verifyCitation({ source: "board.pdf", quote: "Two senior engineers", location: "page 3" }, doc)).toBe(true);
+      expect(verifyCitation({ source: "board.pdf", quote: "Two senior engineers", location: "page 2" }, doc)).toBe(false);
+      expect(verifyCitation({ source: "board.pdf", quote: "Brand campaign", location: "page 2" }, doc)).toBe(false);
+    });
+
+    it("rejects locations missing from locationMetadata", () => {
+      const doc = {
+        source: "notes.txt",
+        type: "txt" as const,
+        preview: "4: Ship mobile app\n",
+        locationMetadata: { totalLines: 10, includedLines: [1, 2] },
+      };
+
+      expect(verifyCitation({ source: "notes.txt", quote: "mobile app", location: "line 4" }, doc)).toBe(false);
+    });
+  });
+});
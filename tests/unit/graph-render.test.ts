@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import { inflateSync } from "node:zlib";
+import { buildScene, renderSvg, renderPng, renderGraph } from "../../src/render/index.js";
+import { wrapLabel } from "../../src/render/scene.js";
+import type { GraphT } from "../../src/schemas/graph.js";
+
+const graph = {
+  version: "1",
+  default_seed: 17,
+  nodes: [
+    { id: "goal_profit", kind: "goal", label: "Profit" },
+    { id: "dec_pricing", kind: "decision", label: "Pricing <tier> & plan" },
+    { id: "opt_premium", kind: "option", label: "Premium Tier" },
+    { id: "fac_churn", kind: "factor", label: "Churn Rate" },
+    { id: "risk_backlash", kind: "risk", label: "Customer backlash" },
+  ],
+  edges: [
+    { from: "dec_pricing", to: "opt_premium" },
+    { from: "opt_premium", to: "fac_churn", strength_mean: 1 },
+    { from: "fac_churn", to: "goal_profit", strength_mean: -0.2, belief_exists: 0.3 },
+    { from: "risk_backlash", to: "goal_profit", strength_mean: -0.5 },
+  ],
+  meta: { roots: ["dec_pricing"], leaves: [], suggested_positions: {}, source: "assistant" },
+} as unknown as GraphT;
+
+/** Decode an 8-bit RGB PNG produced by renderPng */
+function decodePng(png: Buffer): { width: number; height: number; pixel: (x: number, y: number) => number[] } {
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const idat: Buffer[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = png.readUInt32BE(offset);
+    if (png.toString("ascii", offset + 4, offset + 8) === "IDAT") idat.push(png.subarray(offset + 8, offset + 8 + length));
+    offset += length + 12;
+  }
+  const raw = inflateSync(Buffer.concat(idat));
+  return {
+    width,
+    height,
+    pixel: (x, y) => {
+      const i = y * (width * 3 + 1) + 1 + x * 3;
+      return [raw[i], raw[i + 1], raw[i + 2]];
+    },
+  };
+}
+
+describe("buildScene", () => {
+  it("uses kind-specific shapes and styles edges by strength and belief", () => {
+    const scene = buildScene(graph);
+    const shape = (id: string) => scene.nodes.find((n) => n.id === id)?.shape;
+
+    expect(shape("goal_profit")).toBe("ellipse");
+    expect(shape("dec_pricing")).toBe("diamond");
+    expect(shape("opt_premium")).toBe("rounded");
+    expect(shape("fac_churn")).toBe("rect");
+    expect(shape("risk_backlash")).toBe("octagon");
+
+    const edge = (from: string) => scene.edges.find((e) => e.from === from)!;
+    expect(edge("opt_premium").width).toBe(5);
+    expect(edge("dec_pricing").width).toBe(3);
+    expect(edge("fac_churn")).toMatchObject({ dashed: true, color: "#dc2626" });
+    expect(edge("fac_churn").width).toBeCloseTo(1.8);
+    expect(edge("opt_premium").dashed).toBe(false);
+  });
+
+  it("applies node, edge and path highlights", () => {
+    const scene = buildScene(graph, {
+      highlights: [
+        { type: "path", ids: ["opt_premium", "fac_churn", "goal_profit"] },
+        { type: "node", ids: ["risk_backlash"], style: "error" },
+      ],
+    });
+
+    expect(scene.nodes.filter((n) => n.highlight).map((n) => n.id)).toEqual([
+      "goal_profit", "opt_premium", "fac_churn", "risk_backlash",
+    ]);
+    expect(scene.edges.filter((e) => e.highlight).map((e) => `${e.from}->${e.to}`)).toEqual([
+      "opt_premium->fac_churn", "fac_churn->goal_profit",
+    ]);
+    expect(scene.nodes.find((n) => n.id === "risk_backlash")?.highlight).toBe("#b91c1c");
+  });
+
+  it("wraps and truncates long labels", () => {
+    expect(wrapLabel("Customer lifetime value", 14)).toEqual(["Customer", "lifetime value"]);
+    expect(wrapLabel("one two three four five six seven", 9, 2)).toEqual(["one two", "three..."]);
+  });
+});
+
+describe("renderSvg", () => {
+  it("renders a deterministic, escaped SVG document", () => {
+    const svg = renderSvg(buildScene(graph, { title: "Pricing & churn" }));
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg).toContain("<title>Pricing &amp; churn</title>");
+    expect(svg).toContain("Pricing &lt;tier&gt;</tspan>");
+    expect(svg).toContain('<g class="node node-decision" data-id="dec_pricing">');
+    expect(svg.match(/stroke-dasharray/g)).toHaveLength(1);
+    expect(renderSvg(buildScene(graph, { title: "Pricing & churn" }))).toBe(svg);
+  });
+});
+
+describe("renderPng", () => {
+  it("encodes a valid PNG of the scene", () => {
+    const scene = buildScene(graph);
+    const png = decodePng(renderPng(scene));
+
+    expect(png.width).toBe(scene.width);
+    expect(png.height).toBe(scene.height);
+    expect(png.pixel(0, 0)).toEqual([255, 255, 255]);
+
+    // Inside the option node, away from its label
+    const option = scene.nodes.find((n) => n.id === "opt_premium")!;
+    expect(png.pixel(Math.round(option.x - option.width / 2 + 6), Math.round(option.y))).toEqual([0xed, 0xe9, 0xfe]);
+  });
+
+  it("scales the output", () => {
+    const scene = buildScene(graph);
+    const png = decodePng(renderPng(scene, { scale: 2 }));
+
+    expect(png.width).toBe(scene.width * 2);
+  });
+
+  it("returns content types from renderGraph", () => {
+    expect(renderGraph(graph, { format: "svg" }).contentType).toBe("image/svg+xml");
+    expect(renderGraph(graph, { format: "png" }).contentType).toBe("image/png");
+  });
+
+  it("reuses the raster of an identical scene", () => {
+    const first = renderGraph(graph, { format: "png" }).body;
+
+    expect(renderGraph(graph, { format: "png" }).body).toBe(first);
+    expect(renderGraph(graph, { format: "png", scale: 2 }).body).not.toBe(first);
+    expect(renderGraph(graph, { format: "png", title: "Pricing" }).body).not.toBe(first);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Office Document Grounding Tests
+ *
+ * Verifies DOCX/XLSX/PPTX extraction with structural markers (section,
+ * sheet!cell range, slide), character limits, previews with location
+ * metadata, and citation validation against those locations.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { Buffer } from "node:buffer";
+import { parseDocx, parsePptx, parseXlsx } from "../../src/services/officeDocs.js";
+import { extractLocation, extractTextFromOffice, verifyCitation } from "../../src/grounding/index.js";
+import { processAttachments } from "../../src/grounding/process-attachments.js";
+import { readZipEntries } from "../../src/utils/zip.js";
+import { buildDocx, buildPptx, buildXlsx, zipParts } from "../helpers/office-fixtures.js";
+import { _resetConfigCache } from "../../src/config/index.js";
+
+const MEMO = [
+  "Prepared for the leadership team",
+  "# Market Analysis",
+  "Demand in the DACH region grew 18% year over year.",
+  "# Hiring Plan",
+  "Two senior engineers cost $320k per year fully loaded.",
+];
+
+describe("Office document grounding", () => {
+  describe("readZipEntries", () => {
+    it("reads deflated entries and honours the filter", async () => {
+      const zip = await zipParts({ "a.xml": "<a>first</a>", "b.xml": "<b>second</b>" });
+
+      const entries = readZipEntries(zip, { filter: (name) => name === "b.xml" });
+
+      expect([...entries.keys()]).toEqual(["b.xml"]);
+      expect(entries.get("b.xml")?.toString("utf8")).toBe("<b>second</b>");
+    });
+
+    it("rejects entries over the size cap", async () => {
+      const zip = await zipParts({ "big.xml": "x".repeat(10_000) });
+
+      expect(() => readZipEntries(zip, { maxEntryBytes: 1000 })).toThrow(/zip_entry_too_large/);
+    });
+
+    it("rejects archives whose entries together exceed the total cap", async () => {
+      const zip = await zipParts({ "a.xml": "x".repeat(6000), "b.xml": "y".repeat(6000) });
+
+      expect(() => readZipEntries(zip, { maxEntryBytes: 10_000, maxTotalBytes: 10_000 })).toThrow(/zip_too_large/);
+      expect(readZipEntries(zip, { maxTotalBytes: 10_000, filter: (name) => name === "a.xml" }).size).toBe(1);
+    });
+
+    it("rejects non-zip input", () => {
+      expect(() => readZipEntries(Buffer.from("not a zip archive at all"))).toThrow(/zip_invalid/);
+    });
+  });
+
+  describe("parsers", () => {
+    it("splits DOCX into sections at headings", async () => {
+      const sections = parseDocx(await buildDocx(MEMO));
+
+      expect(sections).toEqual([
+        { heading: "", text: "Prepared for the leadership team" },
+        { heading: "Market Analysis", text: "Demand in the DACH region grew 18% year over year." },
+        { heading: "Hiring Plan", text: "Two senior engineers cost $320k per year fully loaded." },
+      ]);
+    });
+
+    it("only inflates the XLSX parts it reads", async () => {
+      const zip = await zipParts({
+        "xl/workbook.xml": '<workbook><sheets><sheet name="Summary" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        "xl/_rels/workbook.xml.rels": '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+        "xl/worksheets/sheet1.xml": '<worksheet><sheetData><row r="1"><c r="A1"><v>42</v></c></row></sheetData></worksheet>',
+        // Over the per-entry cap: would throw if it were inflated
+        "xl/styles.xml": "x".repeat(21 * 1024 * 1024),
+      });
+
+      expect(parseXlsx(zip)).toEqual([{ sheet: "Summary", range: "Summary!A1", values: ["42"] }]);
+    });
+
+    it("reads XLSX rows with sheet!cell ranges", async () => {
+      const rows = parseXlsx(
+        await buildXlsx({
+          Summary: [["Scenario", "NPV"], ["Hire", 1200000]],
+          "Q3 Plan": [["Headcount", 12]],
+        })
+      );
+
+      expect(rows).toEqual([
+        { sheet: "Summary", range: "Summary!A1:B1", values: ["Scenario", "NPV"] },
+        { sheet: "Summary", range: "Summary!A2:B2", values: ["Hire", "1200000"] },
+        { sheet: "Q3 Plan", range: "'Q3 Plan'!A1:B1", values: ["Headcount", "12"] },
+      ]);
+    });
+
+    it("orders PPTX slides by the presentation, not file names", async () => {
+      const slides = parsePptx(await buildPptx([["Title slide"], ["Options", "Build vs buy"]]));
+
+      expect(slides).toEqual(["Title slide", "Options\nBuild vs buy"]);
+    });
+  });
+
+  describe("extractTextFromOffice", () => {
+    it("marks sections, cell ranges and slides for citations", async () => {
+      const docx = extractTextFromOffice("docx", await buildDocx(MEMO));
+      const xlsx = extractTextFromOffice("xlsx", await buildXlsx({ Summary: [["Hire", 1200000]] }));
+      const pptx = extractTextFromOffice("pptx", await buildPptx([["Intro"], ["Build vs buy"]]));
+
+      expect(extractLocation("senior engineers", docx)).toBe("section 3");
+      expect(docx).toContain("[SECTION 2]\nMarket Analysis");
+      expect(extractLocation("1200000", xlsx)).toBe("Summary!A1:B1");
+      expect(extractLocation("build vs buy", pptx)).toBe("slide 2");
+    });
+
+    it("enforces the character limit", async () => {
+      const docx = await buildDocx(["x".repeat(6000)]);
+
+      expect(() => extractTextFromOffice("docx", docx)).toThrow(/docx_exceeds_limit/);
+    });
+
+    it("reports malformed files as parse failures", () => {
+      expect(() => extractTextFromOffice("xlsx", Buffer.from("not a workbook"))).toThrow(/xlsx_parse_failed/);
+    });
+  });
+
+  describe("processAttachments", () => {
+    it("accepts Office attachments with structural location hints", async () => {
+      const { docs, stats } = await processAttachments([
+        { id: "memo", kind: "docx", name: "memo.docx", content: (await buildDocx(MEMO)).toString("base64") },
+        { id: "deck", kind: "pptx", name: "deck.pptx", content: await buildPptx([["Build vs buy"]]) },
+      ]);
+
+      expect(stats.office).toBe(2);
+      expect(docs[0].locationHint).toMatch(/section/);
+      expect(docs[1].preview).toBe("[SLIDE 1]\nBuild vs buy");
+    });
+
+    it("names the file when an Office attachment is malformed", async () => {
+      await expect(
+        processAttachments([{ id: "bad", kind: "pptx", name: "bad.pptx", content: Buffer.from("nope") }])
+      ).rejects.toThrow(/bad\.pptx.*PPTX parsing failed/);
+    });
+  });
+
+  describe("previews and citations", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      _resetConfigCache();
+    });
+
+    it("records included sections and validates citations against them", async () => {
+      vi.stubEnv("DOC_PREVIEW_TOKEN_BUDGET", "22");
+      _resetConfigCache();
+      const { docs: [doc] } = await processAttachments(
+        [{ id: "memo", kind: "docx", name: "memo.docx", content: await buildDocx(MEMO) }],
+        { brief: "Can we afford the engineers?" }
+      );
+
+      expect(doc.locationMetadata).toMatchObject({ includedSections: [3], truncated: true });
+      expect(verifyCitation({ source: "memo.docx", quote: "Two senior engineers", location: "section 3" }, doc)).toBe(true);
+      expect(verifyCitation({ source: "memo.docx", quote: "Two senior engineers", location: "section 2" }, doc)).toBe(false);
+    });
+
+    it("validates spreadsheet citations by cell range", async () => {
+      const xlsx = await buildXlsx({ Summary: [["Scenario", "NPV"], ["Hire", 1200000]] });
+      const { docs: [doc] } = await processAttachments([{ id: "model", kind: "xlsx", name: "model.xlsx", content: xlsx }]);
+
+      expect(doc.locationMetadata?.includedRanges).toEqual(["Summary!A1:B1", "Summary!A2:B2"]);
+      expect(verifyCitation({ source: "model.xlsx", quote: "Hire | 1200000", location: "Summary!A2:B2" }, doc)).toBe(true);
+      expect(verifyCitation({ source: "model.xlsx", quote: "Hire | 1200000", location: "Summary!A1:B1" }, doc)).toBe(false);
+    });
+
+    it("records included slides", async () => {
+      const pptx = await buildPptx([["Intro"], ["Build vs buy"]]);
+      const { docs: [doc] } = await processAttachments([{ id: "deck", kind: "pptx", name: "deck.pptx", content: pptx }]);
+
+      expect(doc.preview).toContain("[SLIDE 2]\nBuild vs buy");
+      expect(doc.locationMetadata).toMatchObject({ includedSlides: [1, 2], truncated: false });
+    });
+  });
+});
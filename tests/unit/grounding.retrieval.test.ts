@@ -0,0 +1,209 @@
+/**
+ * Attachment Retrieval Tests
+ *
+ * Verifies marker-aligned chunking, BM25 ranking, multi-query retrieval,
+ * chunk-based document previews (citations still resolve), chunk IDs in edge
+ * provenance, and document evidence in the ask adapter's explain intent.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ChunkIndex,
+  attachChunkIds,
+  chunkDocuments,
+  chunksToDocs,
+  describeChunk,
+  retrieveChunks,
+  tokenize,
+} from "../../src/grounding/retrieval.js";
+import { extractLocation, verifyCitation } from "../../src/grounding/index.js";
+import { processAskRequest } from "../../src/adapters/ask/index.js";
+import { WorkingSetRequest } from "../../src/schemas/working-set.js";
+import type { DocPreview } from "../../src/services/docProcessing.js";
+import type { GraphT } from "../../src/schemas/graph.js";
+
+// 40-page board pack; the evidence that matters is on page 40
+const BOARD_PACK: DocPreview = {
+  source: "board.pdf",
+  type: "pdf",
+  preview: Array.from({ length: 40 }, (_, i) =>
+    i === 39
+      ? "[PAGE 40]\nOnboarding calls cut first-year churn from 14% to 9% across 300 accounts."
+      : `[PAGE ${i + 1}]\nQuarterly facilities report ${i + 1}: office leases, parking and catering.`
+  ).join("\n\n"),
+  locationHint: "cite with page numbers (e.g., page 2)",
+};
+
+const NOTES: DocPreview = {
+  source: "notes.txt",
+  type: "txt",
+  preview: "1: Pricing review\n2: Enterprise tier price rises 10% in Q3\n3: Churn risk flagged by sales",
+  locationHint: "cite with line numbers if needed (e.g., line 5)",
+};
+
+describe("attachment retrieval", () => {
+  describe("chunkDocuments", () => {
+    it("packs whole units per chunk and records their locations", () => {
+      const chunks = chunkDocuments([BOARD_PACK], 200);
+
+      expect(chunks[0].id).toBe("board.pdf#1");
+      expect(chunks[0].locations).toEqual(["page 1", "page 2"]);
+      expect(chunks.every((chunk) => chunk.text.length <= 200)).toBe(true);
+      expect(chunks.flatMap((chunk) => chunk.locations)).toHaveLength(40);
+    });
+
+    it("splits an oversized unit and repeats its marker on every piece", () => {
+      const doc: DocPreview = { source: "long.pdf", type: "pdf", preview: `[PAGE 1]\n${"word ".repeat(100)}` };
+
+      const chunks = chunkDocuments([doc], 120);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every((chunk) => chunk.text.startsWith("[PAGE 1]\n"))).toBe(true);
+      expect(chunks.every((chunk) => chunk.locations[0] === "page 1")).toBe(true);
+    });
+
+    it("numbers chunks per document and understands line and cell markers", () => {
+      const sheet: DocPreview = { source: "model.xlsx", type: "xlsx", preview: "[CELLS Summary!A2:B2] Hire | 1200000" };
+
+      const chunks = chunkDocuments([NOTES, sheet], 1200);
+
+      expect(chunks.map((chunk) => chunk.id)).toEqual(["notes.txt#1", "model.xlsx#1"]);
+      expect(chunks[0].locations).toEqual(["line 1", "line 2", "line 3"]);
+      expect(chunks[1].locations).toEqual(["Summary!A2:B2"]);
+    });
+
+    it("keeps numbered lines inside a PDF page under that page", () => {
+      const report: DocPreview = {
+        source: "report.pdf",
+        type: "pdf",
+        preview: "[PAGE 1]\nCover\n\n[PAGE 2]\nResults\n2023: revenue grew 12%\n2024: revenue flat",
+      };
+
+      const chunks = chunkDocuments([report], 60);
+
+      expect(new Set(chunks.flatMap((chunk) => chunk.locations))).toEqual(new Set(["page 1", "page 2"]));
+      const cited = chunks.find((chunk) => chunk.text.includes("2023: revenue"));
+      expect(cited?.locations).toEqual(["page 2"]);
+      expect(cited?.text.startsWith("[PAGE 2]\n")).toBe(true);
+    });
+  });
+
+  describe("ChunkIndex", () => {
+    it("folds plurals and drops function words", () => {
+      expect(tokenize("The companies and their calls")).toEqual(["company", "their", "call"]);
+    });
+
+    it("ranks the chunk that answers the query first, however deep it is", () => {
+      const index = new ChunkIndex(chunkDocuments([BOARD_PACK], 200));
+
+      const [best] = index.search("Will onboarding calls reduce churn?", 3);
+
+      expect(best.chunk.locations).toContain("page 40");
+    });
+
+    it("returns nothing for queries with no overlapping terms", () => {
+      const index = new ChunkIndex(chunkDocuments([NOTES]));
+
+      expect(index.search("satellite telemetry", 5)).toEqual([]);
+    });
+  });
+
+  describe("retrieveChunks", () => {
+    it("unions per-query hits and caps the total", () => {
+      const index = new ChunkIndex(chunkDocuments([BOARD_PACK, NOTES], 200));
+
+      const hits = retrieveChunks(index, ["onboarding churn", "enterprise price"], { topK: 1, maxChunks: 5 });
+
+      expect(hits.map((hit) => hit.chunk.source).sort()).toEqual(["board.pdf", "notes.txt"]);
+      expect(retrieveChunks(index, ["onboarding churn", "enterprise price"], { topK: 1, maxChunks: 1 })).toHaveLength(1);
+    });
+  });
+
+  describe("chunksToDocs", () => {
+    it("keeps citations verifiable against the retrieved chunks", () => {
+      const index = new ChunkIndex(chunkDocuments([BOARD_PACK, NOTES], 200));
+      const hits = retrieveChunks(index, ["onboarding calls churn"], { topK: 1, maxChunks: 1 });
+
+      const [board, notes] = chunksToDocs([BOARD_PACK, NOTES], index, hits);
+
+      expect(board.preview).toMatch(/^\[CHUNK board\.pdf#\d+\]\n/);
+      expect(board.locationHint).toMatch(/\[CHUNK id\]/);
+      expect(extractLocation("cut first-year churn", board.preview)).toBe("page 40");
+      expect(verifyCitation({ source: "board.pdf", quote: "cut first-year churn", location: "page 40" }, board)).toBe(true);
+      // Pages outside the retrieved chunks are not citable
+      expect(board.locationMetadata?.includedPages).toContain(40);
+      expect(board.locationMetadata?.includedPages).not.toContain(1);
+      // Documents without a relevant chunk keep their first one
+      expect(notes.preview).toContain("[CHUNK notes.txt#1]");
+    });
+
+    it("describes chunks for API responses", () => {
+      const index = new ChunkIndex(chunkDocuments([NOTES]));
+      const [hit] = index.search("enterprise price", 1);
+
+      expect(describeChunk(hit)).toMatchObject({ chunk_id: "notes.txt#1", source: "notes.txt", location: "line 1" });
+    });
+  });
+
+  describe("attachChunkIds", () => {
+    it("records the chunk an edge's quote came from", () => {
+      const chunks = chunkDocuments([BOARD_PACK, NOTES], 200);
+      const graph = {
+        version: "1",
+        default_seed: 17,
+        nodes: [],
+        edges: [
+          { from: "a", to: "b", provenance: { source: "board.pdf", quote: "cut first-year churn from 14% to 9%" } },
+          { from: "b", to: "c", provenance: { source: "notes.txt", quote: "not in the notes" } },
+          { from: "b", to: "d", provenance: { source: "board.pdf", quote: "cut first-year churn", location: "page 2" } },
+          { from: "c", to: "e", provenance: "hypothesis" },
+        ],
+        meta: { roots: [], leaves: [], suggested_positions: {}, source: "assistant" },
+      } as unknown as GraphT;
+
+      const edges = attachChunkIds(graph, chunks).edges as any[];
+
+      expect(edges[0].provenance.chunk_id).toBe(chunks.find((c) => c.locations.includes("page 40"))?.id);
+      expect(edges[1].provenance.chunk_id).toBeUndefined();
+      // Quote found, but not under the cited page
+      expect(edges[2].provenance.chunk_id).toBeUndefined();
+      expect(edges[3].provenance).toBe("hypothesis");
+    });
+  });
+
+  describe("ask explain", () => {
+    const request = WorkingSetRequest.parse({
+      scenario_id: "s1",
+      graph_schema_version: "2.2",
+      brief: "Should we offer onboarding calls to new customers?",
+      message: "Why does churn matter here?",
+      graph_snapshot: {
+        nodes: [
+          { id: "goal_1", kind: "goal", label: "Grow retention" },
+          { id: "fac_churn", kind: "factor", label: "Churn" },
+        ],
+        edges: [{ from: "fac_churn", to: "goal_1" }],
+      },
+      market_context: { id: "ctx", version: "1", hash: "h" },
+      selection: { node_id: "fac_churn" },
+      intent: "explain",
+    });
+
+    it("cites retrieved chunks as document provenance", async () => {
+      const chunkIndex = new ChunkIndex(chunkDocuments([BOARD_PACK], 200));
+
+      const { response } = await processAskRequest(request, { requestId: "r1", timeoutMs: 1000, chunkIndex });
+
+      const documentWhy = response.why?.filter((item) => item.source === "document") ?? [];
+      expect(documentWhy.length).toBeGreaterThan(0);
+      expect(documentWhy[0].references?.chunk_ids?.[0]).toMatch(/^board\.pdf#\d+$/);
+      expect(response.message).toContain("board.pdf (page");
+    });
+
+    it("explains from the graph alone without an index", async () => {
+      const { response } = await processAskRequest(request, { requestId: "r2", timeoutMs: 1000 });
+
+      expect(response.why?.every((item) => item.source !== "document")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest";
+import { generateKeyPairSync, sign, type KeyObject } from "node:crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { verifyJwt, looksLikeJwt } from "../../src/utils/jwt.js";
+import { hasScope, requiredScopeFor, parseScopeClaim } from "../../src/utils/scopes.js";
+
+const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+
+function makeJwt(
+  claims: Record<string, unknown>,
+  opts: { alg?: string; kid?: string; key?: KeyObject } = {}
+): string {
+  const alg = opts.alg ?? "RS256";
+  const header = Buffer.from(JSON.stringify({ alg, typ: "JWT", kid: opts.kid ?? "rsa-1" })).toString("base64url");
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  const input = Buffer.from(`${header}.${payload}`);
+  const signature = alg === "ES256"
+    ? sign("sha256", input, { key: opts.key ?? ec.privateKey, dsaEncoding: "ieee-p1363" })
+    : sign("sha256", input, opts.key ?? rsa.privateKey);
+  return `${header}.${payload}.${signature.toString("base64url")}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("verifyJwt()", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "jwks-"));
+    writeFileSync(join(dir, "jwks.json"), JSON.stringify({
+      keys: [
+        { ...rsa.publicKey.export({ format: "jwk" }), kid: "rsa-1", alg: "RS256", use: "sig" },
+        { ...ec.publicKey.export({ format: "jwk" }), kid: "ec-1", alg: "ES256", use: "sig" },
+      ],
+    }));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.stubEnv("AUTH_JWKS_PATH", join(dir, "jwks.json"));
+    vi.stubEnv("AUTH_JWT_ISSUER", "https://login.example.com/");
+    vi.stubEnv("AUTH_JWT_AUDIENCE", "olumi-assistants");
+  });
+
+  const base = () => ({
+    iss: "https://login.example.com/",
+    aud: "olumi-assistants",
+    sub: "user-42",
+    exp: now() + 300,
+  });
+
+  it("accepts RS256 and ES256 tokens and extracts subject, tenant and scopes", () => {
+    const rs = verifyJwt(makeJwt({ ...base(), tenant_id: "acme", scope: "draft:write share:create" }));
+    expect(rs).toEqual({
+      valid: true,
+      jwt: { subject: "user-42", tenant: "acme", scopes: ["draft:write", "share:create"], expiresAt: expect.any(Number) },
+    });
+
+    const es = verifyJwt(makeJwt({ ...base(), scp: ["elicit:*"] }, { alg: "ES256", kid: "ec-1" }));
+    expect(es.valid && es.jwt.scopes).toEqual(["elicit:*"]);
+  });
+
+  it("reads the tenant from the configured claim", () => {
+    vi.stubEnv("AUTH_JWT_TENANT_CLAIM", "org");
+    const result = verifyJwt(makeJwt({ ...base(), org: "globex" }));
+    expect(result.valid && result.jwt.tenant).toBe("globex");
+  });
+
+  it("rejects bad signatures, unknown keys and unsupported algorithms", () => {
+    const other = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    expect(verifyJwt(makeJwt(base(), { key: other.privateKey }))).toEqual({ valid: false, error: "INVALID_SIGNATURE" });
+    expect(verifyJwt(makeJwt(base(), { kid: "missing" }))).toEqual({ valid: false, error: "UNKNOWN_KID" });
+
+    const [, payload] = makeJwt(base()).split(".");
+    const none = `${Buffer.from(JSON.stringify({ alg: "none" })).toString("base64url")}.${payload}.x`;
+    expect(verifyJwt(none)).toEqual({ valid: false, error: "UNSUPPORTED_ALG" });
+
+    // An RSA key must not verify an ES256 header
+    expect(verifyJwt(makeJwt(base(), { alg: "ES256", kid: "rsa-1" }))).toEqual({ valid: false, error: "UNKNOWN_KID" });
+  });
+
+  it("checks expiry, not-before, issuer and audience", () => {
+    expect(verifyJwt(makeJwt({ ...base(), exp: now() - 120 }))).toEqual({ valid: false, error: "EXPIRED" });
+    expect(verifyJwt(makeJwt({ ...base(), exp: now() - 30 })).valid).toBe(true); // within clock skew
+    expect(verifyJwt(makeJwt({ ...base(), exp: undefined }))).toEqual({ valid: false, error: "MISSING_EXPIRY" });
+    expect(verifyJwt(makeJwt({ ...base(), nbf: now() + 600 }))).toEqual({ valid: false, error: "NOT_YET_VALID" });
+    expect(verifyJwt(makeJwt({ ...base(), iss: "https://evil.example.com/" }))).toEqual({ valid: false, error: "INVALID_ISSUER" });
+    expect(verifyJwt(makeJwt({ ...base(), aud: ["other"] }))).toEqual({ valid: false, error: "INVALID_AUDIENCE" });
+    expect(verifyJwt(makeJwt({ ...base(), sub: undefined }))).toEqual({ valid: false, error: "MISSING_SUBJECT" });
+  });
+
+  it("fails closed without a JWKS", () => {
+    vi.stubEnv("AUTH_JWKS_PATH", "");
+    expect(verifyJwt(makeJwt(base()))).toEqual({ valid: false, error: "NO_JWKS" });
+
+    vi.stubEnv("AUTH_JWKS_PATH", join(dir, "missing.json"));
+    expect(verifyJwt(makeJwt(base()))).toEqual({ valid: false, error: "NO_JWKS" });
+  });
+
+  it("only treats three-segment tokens as JWTs", () => {
+    expect(looksLikeJwt(makeJwt(base()))).toBe(true);
+    expect(looksLikeJwt("sk-live-abc123")).toBe(false);
+    expect(looksLikeJwt("a.b")).toBe(false);
+  });
+});
+
+describe("scopes", () => {
+  it("maps routes to required scopes", () => {
+    expect(requiredScopeFor("POST", "/assist/v1/draft-graph/stream")).toBe("draft:write");
+    expect(requiredScopeFor("POST", "/assist/suggest-options")).toBe("draft:write");
+    expect(requiredScopeFor("POST", "/assist/v1/ask/resume")).toBe("ask:write");
+    expect(requiredScopeFor("POST", "/assist/v1/elicit/preferences/answer")).toBe("elicit:preferences");
+    expect(requiredScopeFor("POST", "/assist/v1/elicit-belief")).toBe("elicit:belief");
+    expect(requiredScopeFor("POST", "/assist/share")).toBe("share:create");
+    expect(requiredScopeFor("PUT", "/assist/share/abc.def")).toBe("share:create");
+    expect(requiredScopeFor("GET", "/assist/share/abc.def/access-log?x=1")).toBe("share:read");
+    expect(requiredScopeFor("POST", "/assist/v1/explain-graph")).toBe("analysis:read");
+    expect(requiredScopeFor("GET", "/v1/limits")).toBeNull();
+  });
+
+  it("matches exact, wildcard and resource wildcard grants", () => {
+    expect(hasScope(["*"], "draft:write")).toBe(true);
+    expect(hasScope(["elicit:*"], "elicit:belief")).toBe(true);
+    expect(hasScope(["elicit:*"], "draft:write")).toBe(false);
+    expect(hasScope(["analysis:read"], "analysis:read")).toBe(true);
+    expect(hasScope(["analysis:read"], "draft:write")).toBe(false);
+    expect(hasScope([], "analysis:read")).toBe(false);
+  });
+
+  it("parses space-separated and array scope claims", () => {
+    expect(parseScopeClaim("a:b  c:d")).toEqual(["a:b", "c:d"]);
+    expect(parseScopeClaim(["a:b", 3, ""])).toEqual(["a:b"]);
+    expect(parseScopeClaim(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Provider Circuit Breaker Tests
+ *
+ * Verifies breaker state transitions (closed → open → half-open → closed),
+ * rolling-window rates, and that FailoverAdapter skips unhealthy providers
+ * up front.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  ProviderCircuitBreaker,
+  getCircuitBreaker,
+  resetCircuitBreakers,
+  type CircuitBreakerSettings,
+} from "../../src/adapters/llm/circuit-breaker.js";
+import { FailoverAdapter } from "../../src/adapters/llm/failover.js";
+import { UpstreamHTTPError } from "../../src/adapters/llm/errors.js";
+import { FixturesAdapter } from "../../src/adapters/llm/fixtures.js";
+import type { LLMAdapter, CallOpts } from "../../src/adapters/llm/types.js";
+import { setTestSink, TelemetryEvents } from "../../src/utils/telemetry.js";
+
+const settings: CircuitBreakerSettings = {
+  windowMs: 60000,
+  minRequests: 4,
+  errorRateThreshold: 0.5,
+  slowCallMs: 1000,
+  slowCallRateThreshold: 0.75,
+  openMs: 30000,
+  halfOpenMaxProbes: 1,
+};
+
+function createBreaker() {
+  let now = 1_000_000;
+  const breaker = new ProviderCircuitBreaker("test-provider", () => settings, () => now);
+  return {
+    breaker,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+function fail(breaker: ProviderCircuitBreaker, times: number, latencyMs = 100): void {
+  for (let i = 0; i < times; i++) {
+    breaker.recordFailure(breaker.acquire()!, latencyMs);
+  }
+}
+
+function succeed(breaker: ProviderCircuitBreaker, times: number, latencyMs = 100): void {
+  for (let i = 0; i < times; i++) {
+    breaker.recordSuccess(breaker.acquire()!, latencyMs);
+  }
+}
+
+/**
+ * Fixture-backed adapter with a controllable draftGraph outcome
+ */
+function createAdapter(name: string, draftGraph?: () => Promise<any>): LLMAdapter & { calls: number } {
+  const fixtures = new FixturesAdapter();
+  const adapter = Object.create(fixtures) as LLMAdapter & { calls: number };
+  adapter.calls = 0;
+  Object.defineProperties(adapter, {
+    name: { value: name },
+    draftGraph: {
+      value: async (args: any, opts: CallOpts) => {
+        adapter.calls++;
+        return draftGraph ? draftGraph() : fixtures.draftGraph(args, opts);
+      },
+    },
+  });
+  return adapter;
+}
+
+const opts: CallOpts = { requestId: "test-cb", timeoutMs: 1000 };
+const args = { brief: "Should we expand to a new market?", seed: 17 };
+
+describe("ProviderCircuitBreaker", () => {
+  it("stays closed below the minimum sample count", () => {
+    const { breaker } = createBreaker();
+    fail(breaker, 3);
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("opens when the error rate reaches the threshold", () => {
+    const { breaker } = createBreaker();
+    succeed(breaker, 2);
+    fail(breaker, 2);
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.acquire()).toBeNull();
+    expect(breaker.healthScore()).toBe(0);
+  });
+
+  it("opens when the slow-call rate reaches the threshold", () => {
+    const { breaker } = createBreaker();
+    succeed(breaker, 3, 5000);
+    succeed(breaker, 1, 100);
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.snapshot().slow_call_rate).toBe(0.75);
+  });
+
+  it("ignores samples outside the rolling window", () => {
+    const { breaker, advance } = createBreaker();
+    fail(breaker, 3);
+    advance(settings.windowMs + 1);
+    succeed(breaker, 3);
+    fail(breaker, 1);
+
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.snapshot().samples).toBe(4);
+  });
+
+  it("moves to half-open after openMs and allows a single probe", () => {
+    const { breaker, advance } = createBreaker();
+    fail(breaker, 4);
+    advance(settings.openMs);
+
+    expect(breaker.getState()).toBe("half_open");
+    const probe = breaker.acquire();
+    expect(probe).toEqual({ probe: true });
+    expect(breaker.acquire()).toBeNull();
+  });
+
+  it("closes when the probe succeeds and re-opens when it fails", () => {
+    const { breaker, advance } = createBreaker();
+    fail(breaker, 4);
+    advance(settings.openMs);
+    breaker.recordSuccess(breaker.acquire()!, 200);
+    expect(breaker.getState()).toBe("closed");
+    expect(breaker.snapshot().samples).toBe(0);
+
+    fail(breaker, 4);
+    advance(settings.openMs);
+    breaker.recordFailure(breaker.acquire()!, 200);
+    expect(breaker.getState()).toBe("open");
+  });
+
+  it("emits telemetry for each state transition", () => {
+    const events: Array<{ name: string; data: Record<string, any> }> = [];
+    setTestSink((name, data) => events.push({ name, data }));
+    try {
+      const { breaker, advance } = createBreaker();
+      fail(breaker, 4);
+      advance(settings.openMs);
+      breaker.recordSuccess(breaker.acquire()!, 200);
+    } finally {
+      setTestSink(null);
+    }
+
+    const transitions = events.filter((e) => e.data.provider === "test-provider");
+    expect(transitions.map((e) => e.name)).toEqual([
+      TelemetryEvents.ProviderCircuitOpened,
+      TelemetryEvents.ProviderCircuitHalfOpen,
+      TelemetryEvents.ProviderCircuitClosed,
+    ]);
+    expect(transitions[0].data).toMatchObject({ reason: "error_rate", from_state: "closed", to_state: "open" });
+  });
+});
+
+describe("FailoverAdapter circuit breaking", () => {
+  beforeEach(() => {
+    vi.stubEnv("LLM_CIRCUIT_MIN_REQUESTS", "1");
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetCircuitBreakers();
+  });
+
+  it("skips a provider with an open circuit without calling it", async () => {
+    const primary = createAdapter("primary", async () => {
+      throw new Error("primary down");
+    });
+    const fallback = createAdapter("fallback");
+    const failover = new FailoverAdapter([primary, fallback], "draft_graph");
+
+    await failover.draftGraph(args, opts);
+    expect(getCircuitBreaker("primary").getState()).toBe("open");
+
+    const events: string[] = [];
+    setTestSink((name) => events.push(name));
+    try {
+      const result = await failover.draftGraph(args, opts);
+      expect(result.graph).toBeDefined();
+    } finally {
+      setTestSink(null);
+    }
+
+    expect(primary.calls).toBe(1);
+    expect(fallback.calls).toBe(2);
+    expect(events).toContain(TelemetryEvents.ProviderCircuitSkipped);
+    expect(events).not.toContain(TelemetryEvents.ProviderFailover);
+  });
+
+  it("shares breaker state across failover adapters for different tasks", async () => {
+    const primary = createAdapter("primary", async () => {
+      throw new Error("primary down");
+    });
+    const fallback = createAdapter("fallback");
+
+    const draftFailover = new FailoverAdapter([primary, fallback], "draft_graph");
+    await draftFailover.draftGraph(args, opts);
+
+    const otherFailover = new FailoverAdapter([primary, fallback], "repair_graph");
+    await otherFailover.draftGraph(args, opts);
+
+    expect(primary.calls).toBe(1);
+    expect(fallback.calls).toBe(2);
+  });
+
+  it("tries degraded providers after healthy ones", async () => {
+    vi.stubEnv("LLM_CIRCUIT_MIN_REQUESTS", "10");
+    const order: string[] = [];
+    const primary = createAdapter("primary", async () => {
+      order.push("primary");
+      throw new Error("primary flaky");
+    });
+    const fallback = createAdapter("fallback", async () => {
+      order.push("fallback");
+      return new FixturesAdapter().draftGraph(args, opts);
+    });
+    const failover = new FailoverAdapter([primary, fallback], "draft_graph");
+
+    await failover.draftGraph(args, opts);
+    expect(order).toEqual(["primary", "fallback"]);
+
+    // Below minRequests the circuit stays closed, but the failure rate demotes primary
+    order.length = 0;
+    await failover.draftGraph(args, opts);
+
+    expect(getCircuitBreaker("primary").getState()).toBe("closed");
+    expect(order).toEqual(["fallback"]);
+  });
+
+  it("does not count client errors against the provider", async () => {
+    const primary = createAdapter("primary", async () => {
+      throw new UpstreamHTTPError("bad request", "primary", 400, undefined, undefined, 10);
+    });
+    const fallback = createAdapter("fallback");
+    const failover = new FailoverAdapter([primary, fallback], "draft_graph");
+
+    await failover.draftGraph(args, opts);
+    await failover.draftGraph(args, opts);
+    await failover.draftGraph(args, opts);
+
+    expect(getCircuitBreaker("primary").getState()).toBe("closed");
+    expect(primary.calls).toBe(3);
+  });
+
+  it("reports skipped providers when every circuit is open", async () => {
+    const down = async () => {
+      throw new Error("down");
+    };
+    const failover = new FailoverAdapter(
+      [createAdapter("primary", down), createAdapter("fallback", down)],
+      "draft_graph"
+    );
+
+    await expect(failover.draftGraph(args, opts)).rejects.toThrow(AggregateError);
+
+    await expect(failover.draftGraph(args, opts)).rejects.toThrow(
+      "All 2 providers failed for draft_graph: primary: circuit open; fallback: circuit open"
+    );
+  });
+
+  it("routes in configured order when circuit breaking is disabled", async () => {
+    vi.stubEnv("LLM_CIRCUIT_BREAKER_ENABLED", "false");
+    const primary = createAdapter("primary", async () => {
+      throw new Error("primary down");
+    });
+    const fallback = createAdapter("fallback");
+    const failover = new FailoverAdapter([primary, fallback], "draft_graph");
+
+    for (let i = 0; i < 3; i++) {
+      await failover.draftGraph(args, opts);
+    }
+
+    expect(primary.calls).toBe(3);
+  });
+});
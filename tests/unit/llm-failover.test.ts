@@ -7,6 +7,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { FailoverAdapter } from "../../src/adapters/llm/failover.js";
+import { resetCircuitBreakers } from "../../src/adapters/llm/circuit-breaker.js";
 import type { LLMAdapter, CallOpts, DraftGraphArgs, DraftGraphResult } from "../../src/adapters/llm/types.js";
 
 // Mock adapters for testing
@@ -98,6 +99,7 @@ describe("FailoverAdapter", () => {
 
   beforeEach(() => {
     vi.unstubAllEnvs();
+    resetCircuitBreakers();
   });
 
   afterEach(() => {
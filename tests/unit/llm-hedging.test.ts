@@ -0,0 +1,265 @@
+/**
+ * Hedged Request Tests
+ *
+ * Verifies the HedgedAdapter races a secondary only once the primary passes
+ * its percentile deadline, returns the first valid result, cancels the loser,
+ * and reports usage from both calls.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { HedgedAdapter, LatencyTracker, resetHedgeLatencies } from "../../src/adapters/llm/hedging.js";
+import { getAdapter, resetAdapterCache } from "../../src/adapters/llm/router.js";
+import { FixturesAdapter } from "../../src/adapters/llm/fixtures.js";
+import type { LLMAdapter, CallOpts, ClarifyBriefResult } from "../../src/adapters/llm/types.js";
+import { setTestSink, TelemetryEvents, calculateCost } from "../../src/utils/telemetry.js";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+
+interface TestAdapter extends LLMAdapter {
+  signals: AbortSignal[];
+}
+
+/**
+ * Adapter whose clarifyBrief resolves (or rejects) after delayMs, honouring abort
+ */
+function createAdapter(
+  name: string,
+  model: string,
+  delayMs: number,
+  outcome: { fail?: string; inputTokens?: number; ignoreAbort?: boolean } = {}
+): TestAdapter {
+  const adapter = Object.create(new FixturesAdapter()) as TestAdapter;
+  const signals: AbortSignal[] = [];
+  Object.defineProperties(adapter, {
+    name: { value: name },
+    model: { value: model },
+    signals: { value: signals },
+    clarifyBrief: {
+      value: (_args: unknown, opts: CallOpts): Promise<ClarifyBriefResult> => {
+        if (opts.abortSignal) signals.push(opts.abortSignal);
+        return new Promise((resolve, reject) => {
+          const timer = setTimeout(() => {
+            if (outcome.fail) {
+              reject(new Error(outcome.fail));
+              return;
+            }
+            resolve({
+              questions: [{ question: `from ${name}`, why_we_ask: "test", impacts_draft: "test" }],
+              confidence: 0.8,
+              should_continue: false,
+              round: 1,
+              usage: { input_tokens: outcome.inputTokens ?? 100, output_tokens: 50 },
+            });
+          }, delayMs);
+          if (outcome.ignoreAbort) return;
+          opts.abortSignal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(new Error("aborted"));
+          });
+        });
+      },
+    },
+  });
+  return adapter;
+}
+
+const args = { brief: "Should we hire a second sales rep this quarter?", round: 1 };
+const opts: CallOpts = { requestId: "test-hedge", timeoutMs: 5000 };
+
+function captureEvents() {
+  const events: Array<{ name: string; data: Record<string, any> }> = [];
+  setTestSink((name, data) => events.push({ name, data }));
+  return events;
+}
+
+async function waitForEvent(events: Array<{ name: string }>, name: string): Promise<void> {
+  await vi.waitFor(() => {
+    expect(events.some((e) => e.name === name)).toBe(true);
+  });
+}
+
+describe("HedgedAdapter", () => {
+  beforeEach(() => {
+    vi.stubEnv("LLM_HEDGE_INITIAL_DELAY_MS", "30");
+    resetHedgeLatencies();
+  });
+
+  afterEach(() => {
+    setTestSink(null);
+    vi.unstubAllEnvs();
+    resetHedgeLatencies();
+  });
+
+  it("does not hedge when the primary responds before the deadline", async () => {
+    const events = captureEvents();
+    const primary = createAdapter("openai", "gpt-3.5-turbo", 5);
+    const secondary = createAdapter("anthropic", "gpt-4", 5);
+    const hedged = new HedgedAdapter(primary, secondary, "clarify_brief");
+
+    const result = await hedged.clarifyBrief(args, opts);
+
+    expect(result.questions[0].question).toBe("from openai");
+    expect(secondary.signals).toHaveLength(0);
+    expect(events.map((e) => e.name)).not.toContain(TelemetryEvents.LlmHedgeFired);
+  });
+
+  it("returns the secondary result and cancels a slow primary", async () => {
+    const events = captureEvents();
+    const primary = createAdapter("openai", "gpt-3.5-turbo", 500);
+    const secondary = createAdapter("anthropic", "gpt-4", 5, { inputTokens: 200 });
+    const hedged = new HedgedAdapter(primary, secondary, "clarify_brief");
+
+    const result = await hedged.clarifyBrief(args, opts);
+
+    expect(result.questions[0].question).toBe("from anthropic");
+    expect(primary.signals[0].aborted).toBe(true);
+
+    await waitForEvent(events, TelemetryEvents.LlmHedgeCompleted);
+    const fired = events.find((e) => e.name === TelemetryEvents.LlmHedgeFired)!;
+    expect(fired.data).toMatchObject({ task: "clarify_brief", secondary_provider: "anthropic", hedge_delay_ms: 30 });
+
+    const completed = events.find((e) => e.name === TelemetryEvents.LlmHedgeCompleted)!;
+    expect(completed.data.winner).toBe("secondary");
+    expect(completed.data.calls).toEqual([
+      // Cancelled primary is charged for the prompt it was sent
+      expect.objectContaining({
+        role: "primary",
+        succeeded: false,
+        cancelled: true,
+        input_tokens: 200,
+        output_tokens: 0,
+        tokens_estimated: true,
+      }),
+      expect.objectContaining({ role: "secondary", succeeded: true, input_tokens: 200, output_tokens: 50 }),
+    ]);
+    expect(completed.data.total_input_tokens).toBe(400);
+    expect(completed.data.total_cost_usd).toBeCloseTo(
+      calculateCost("gpt-3.5-turbo", 200, 0) + calculateCost("gpt-4", 200, 50)
+    );
+  });
+
+  it("accounts usage from both calls when the loser also completes", async () => {
+    const events = captureEvents();
+    const primary = createAdapter("openai", "gpt-3.5-turbo", 50);
+    // Secondary ignores abort so both calls finish
+    const secondary = createAdapter("anthropic", "gpt-4", 40, { ignoreAbort: true });
+    const hedged = new HedgedAdapter(primary, secondary, "clarify_brief");
+
+    const result = await hedged.clarifyBrief(args, opts);
+    expect(result.questions[0].question).toBe("from openai");
+
+    await waitForEvent(events, TelemetryEvents.LlmHedgeCompleted);
+    const completed = events.find((e) => e.name === TelemetryEvents.LlmHedgeCompleted)!;
+    expect(completed.data.winner).toBe("primary");
+    expect(completed.data.total_input_tokens).toBe(200);
+    expect(completed.data.total_cost_usd).toBeCloseTo(
+      calculateCost("gpt-3.5-turbo", 100, 50) + calculateCost("gpt-4", 100, 50)
+    );
+  });
+
+  it("returns primary failures before the deadline without hedging", async () => {
+    const primary = createAdapter("openai", "gpt-3.5-turbo", 5, { fail: "bad request" });
+    const secondary = createAdapter("anthropic", "gpt-4", 5);
+    const hedged = new HedgedAdapter(primary, secondary, "clarify_brief");
+
+    await expect(hedged.clarifyBrief(args, opts)).rejects.toThrow("bad request");
+    expect(secondary.signals).toHaveLength(0);
+  });
+
+  it("waits for the secondary when a hedged primary fails", async () => {
+    const primary = createAdapter("openai", "gpt-3.5-turbo", 50, { fail: "primary down" });
+    const secondary = createAdapter("anthropic", "gpt-4", 60);
+    const hedged = new HedgedAdapter(primary, secondary, "clarify_brief");
+
+    const result = await hedged.clarifyBrief(args, opts);
+    expect(result.questions[0].question).toBe("from anthropic");
+  });
+
+  it("throws the primary error when both calls fail", async () => {
+    const primary = createAdapter("openai", "gpt-3.5-turbo", 50, { fail: "primary down" });
+    const secondary = createAdapter("anthropic", "gpt-4", 5, { fail: "secondary down" });
+    const hedged = new HedgedAdapter(primary, secondary, "clarify_brief");
+
+    await expect(hedged.clarifyBrief(args, opts)).rejects.toThrow("primary down");
+  });
+
+  it("cancels both calls when the caller aborts", async () => {
+    const primary = createAdapter("openai", "gpt-3.5-turbo", 500);
+    const secondary = createAdapter("anthropic", "gpt-4", 500);
+    const hedged = new HedgedAdapter(primary, secondary, "clarify_brief");
+    const controller = new AbortController();
+
+    const pending = hedged.clarifyBrief(args, { ...opts, abortSignal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    controller.abort();
+
+    await expect(pending).rejects.toThrow("aborted");
+    expect(primary.signals[0].aborted).toBe(true);
+    expect(secondary.signals[0].aborted).toBe(true);
+  });
+});
+
+describe("LatencyTracker", () => {
+  const settings = { percentile: 0.9, initialDelayMs: 2000, minDelayMs: 100, minSamples: 10 };
+
+  it("uses the initial delay until enough samples exist", () => {
+    const tracker = new LatencyTracker();
+    for (let i = 0; i < 9; i++) tracker.record(500);
+    expect(tracker.deadlineMs(settings)).toBe(2000);
+  });
+
+  it("uses the configured percentile of primary latencies", () => {
+    const tracker = new LatencyTracker();
+    for (let i = 1; i <= 10; i++) tracker.record(i * 100);
+    expect(tracker.deadlineMs(settings)).toBe(900);
+  });
+
+  it("never hedges sooner than the minimum delay", () => {
+    const tracker = new LatencyTracker();
+    for (let i = 0; i < 10; i++) tracker.record(20);
+    expect(tracker.deadlineMs(settings)).toBe(100);
+  });
+});
+
+describe("router hedging", () => {
+  beforeEach(() => {
+    cleanBaseUrl();
+    vi.stubEnv("LLM_PROVIDER", "fixtures");
+    vi.stubEnv("LLM_HEDGING_ENABLED", "true");
+    vi.stubEnv("LLM_HEDGE_PROVIDER", "local");
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "http://localhost:11434");
+    vi.stubEnv("LOCAL_LLM_API_STYLE", "ollama");
+    vi.stubEnv("LOCAL_LLM_MODEL", "llama3.1:8b");
+    vi.stubEnv("LLM_FAILOVER_PROVIDERS", "");
+    resetAdapterCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetAdapterCache();
+  });
+
+  it("wraps fast-tier tasks in a HedgedAdapter", () => {
+    expect(getAdapter("clarify_brief")).toBeInstanceOf(HedgedAdapter);
+    expect(getAdapter("explain_diff")).toBeInstanceOf(HedgedAdapter);
+  });
+
+  it("leaves other tasks unhedged", () => {
+    expect(getAdapter("draft_graph")).not.toBeInstanceOf(HedgedAdapter);
+  });
+
+  it("respects LLM_HEDGE_TASKS", () => {
+    vi.stubEnv("LLM_HEDGE_TASKS", "explainer");
+    expect(getAdapter("clarify_brief")).not.toBeInstanceOf(HedgedAdapter);
+    expect(getAdapter("explain_diff")).toBeInstanceOf(HedgedAdapter);
+  });
+
+  it("does not hedge against the same provider and model", () => {
+    vi.stubEnv("LLM_HEDGE_PROVIDER", "fixtures");
+    expect(getAdapter("clarify_brief")).not.toBeInstanceOf(HedgedAdapter);
+  });
+
+  it("is off by default", () => {
+    vi.stubEnv("LLM_HEDGING_ENABLED", "");
+    expect(getAdapter("clarify_brief")).not.toBeInstanceOf(HedgedAdapter);
+  });
+});
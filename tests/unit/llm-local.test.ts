@@ -0,0 +1,260 @@
+/**
+ * Local / Self-Hosted LLM Adapter Tests
+ *
+ * Verifies the LocalAdapter speaks both the OpenAI-compatible and Ollama wire
+ * formats, validates responses through the shared graph pipeline, streams
+ * drafts, and classifies upstream failures.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { LocalAdapter } from "../../src/adapters/llm/local.js";
+import { getAdapterForProvider, resetAdapterCache } from "../../src/adapters/llm/router.js";
+import { UpstreamHTTPError, UpstreamTimeoutError } from "../../src/adapters/llm/errors.js";
+import type { DraftStreamEvent } from "../../src/adapters/llm/types.js";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+
+const draftPayload = {
+  nodes: [
+    { id: "goal_1", kind: "goal", label: "Grow revenue" },
+    { id: "dec_1", kind: "decision", label: "Pricing strategy" },
+    { id: "opt_1", kind: "option", label: "Raise prices" },
+    { id: "opt_2", kind: "option", label: "Keep prices" },
+    { id: "out_1", kind: "outcome", label: "Revenue" },
+  ],
+  edges: [
+    { from: "dec_1", to: "opt_1" },
+    { from: "dec_1", to: "opt_2" },
+    { from: "opt_1", to: "out_1" },
+    { from: "out_1", to: "goal_1" },
+    { from: "out_1", to: "missing_node" },
+  ],
+  rationales: [{ target: "opt_1", why: "Mentioned in brief" }],
+};
+
+const clarifyPayload = {
+  questions: [
+    {
+      question: "What is the target price increase?",
+      choices: ["5%", "10%"],
+      why_we_ask: "The size of the increase drives churn risk",
+      impacts_draft: "Sets the intervention value on the pricing option",
+    },
+  ],
+  confidence: 0.6,
+  should_continue: true,
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function streamResponse(lines: string[]): Response {
+  const encoder = new TextEncoder();
+  const stream = new globalThis.ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const line of lines) controller.enqueue(encoder.encode(line));
+      controller.close();
+    },
+  });
+  return new Response(stream, { status: 200 });
+}
+
+const callOpts = { requestId: "test-local", timeoutMs: 5000 };
+
+describe("LocalAdapter", () => {
+  const originalEnv = { ...process.env };
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    cleanBaseUrl();
+    process.env.LOCAL_LLM_BASE_URL = "http://localhost:8000/v1/";
+    process.env.LOCAL_LLM_MODEL = "qwen2.5-7b-instruct";
+    delete process.env.LOCAL_LLM_API_STYLE;
+    delete process.env.LOCAL_LLM_API_KEY;
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    resetAdapterCache();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    vi.unstubAllGlobals();
+    resetAdapterCache();
+  });
+
+  it("requires LOCAL_LLM_BASE_URL", () => {
+    delete process.env.LOCAL_LLM_BASE_URL;
+    expect(() => new LocalAdapter()).toThrow("LOCAL_LLM_BASE_URL");
+  });
+
+  it("is available through the router as the 'local' provider", () => {
+    const adapter = getAdapterForProvider("local");
+    expect(adapter.name).toBe("local");
+    expect(adapter.model).toBe("qwen2.5-7b-instruct");
+  });
+
+  describe("OpenAI-compatible servers", () => {
+    it("drafts a validated, sorted graph and drops dangling edges", async () => {
+      fetchMock.mockResolvedValue(jsonResponse({
+        choices: [{ message: { content: "```json\n" + JSON.stringify(draftPayload) + "\n```" }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 120, completion_tokens: 80 },
+      }));
+
+      const adapter = new LocalAdapter();
+      const result = await adapter.draftGraph({ brief: "Should we raise prices?", seed: 17 }, callOpts);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("http://localhost:8000/v1/chat/completions");
+      const body = JSON.parse(init.body);
+      expect(body.model).toBe("qwen2.5-7b-instruct");
+      expect(body.response_format).toEqual({ type: "json_object" });
+      expect(body.seed).toBe(17);
+
+      expect(result.graph.nodes.map((n) => n.id)).toEqual(["dec_1", "goal_1", "opt_1", "opt_2", "out_1"]);
+      expect(result.graph.edges.some((e) => e.to === "missing_node")).toBe(false);
+      expect(result.graph.edges.every((e) => typeof e.id === "string")).toBe(true);
+      expect(result.usage).toEqual({ input_tokens: 120, output_tokens: 80 });
+      expect(result.meta?.finish_reason).toBe("stop");
+      expect(result.rationales).toEqual([{ target: "opt_1", why: "Mentioned in brief" }]);
+    });
+
+    it("sends a bearer token when LOCAL_LLM_API_KEY is set", async () => {
+      process.env.LOCAL_LLM_API_KEY = "local-secret";
+      fetchMock.mockResolvedValue(jsonResponse({
+        choices: [{ message: { content: JSON.stringify(clarifyPayload) } }],
+      }));
+
+      const adapter = new LocalAdapter();
+      await adapter.clarifyBrief({ brief: "Should we raise prices?", round: 1 }, callOpts);
+
+      expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe("Bearer local-secret");
+    });
+
+    it("throws UpstreamHTTPError for non-2xx responses", async () => {
+      fetchMock.mockResolvedValue(new Response("model not found", { status: 404 }));
+
+      const adapter = new LocalAdapter();
+      await expect(
+        adapter.clarifyBrief({ brief: "Should we raise prices?", round: 1 }, callOpts)
+      ).rejects.toBeInstanceOf(UpstreamHTTPError);
+    });
+
+    it("throws UpstreamTimeoutError when the caller aborts", async () => {
+      fetchMock.mockImplementation((_url: string, init: globalThis.RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => {
+            const err = new Error("The operation was aborted.");
+            err.name = "AbortError";
+            reject(err);
+          });
+        })
+      );
+
+      const controller = new AbortController();
+      const adapter = new LocalAdapter();
+      const pending = adapter.critiqueGraph(
+        { graph: { version: "1", default_seed: 17, nodes: [], edges: [], meta: { roots: [], leaves: [], suggested_positions: {}, source: "assistant" } } },
+        { ...callOpts, abortSignal: controller.signal }
+      );
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(UpstreamTimeoutError);
+    });
+
+    it("streams draft progress and completes with a validated graph", async () => {
+      const content = JSON.stringify(draftPayload);
+      const half = Math.floor(content.length / 2);
+      fetchMock.mockResolvedValue(streamResponse([
+        `data: ${JSON.stringify({ choices: [{ delta: { content: content.slice(0, half) } }] })}\n\n`,
+        `data: ${JSON.stringify({ choices: [{ delta: { content: content.slice(half) }, finish_reason: "stop" }] })}\n\n`,
+        `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 50, completion_tokens: 40 } })}\n\n`,
+        "data: [DONE]\n\n",
+      ]));
+
+      const adapter = new LocalAdapter();
+      const events: DraftStreamEvent[] = [];
+      for await (const event of adapter.streamDraftGraph({ brief: "Should we raise prices?", seed: 17 }, callOpts)) {
+        events.push(event);
+      }
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+      expect(events[0]).toMatchObject({ type: "stage", stage: "drafting" });
+      const complete = events[events.length - 1];
+      expect(complete.type).toBe("complete");
+      if (complete.type === "complete") {
+        expect(complete.result.graph.nodes).toHaveLength(5);
+        expect(complete.result.usage).toEqual({ input_tokens: 50, output_tokens: 40 });
+      }
+    });
+
+    it("yields an error event when the streamed output is not valid JSON", async () => {
+      fetchMock.mockResolvedValue(streamResponse([
+        `data: ${JSON.stringify({ choices: [{ delta: { content: "not json" } }] })}\n\n`,
+        "data: [DONE]\n\n",
+      ]));
+
+      const adapter = new LocalAdapter();
+      const events: DraftStreamEvent[] = [];
+      for await (const event of adapter.streamDraftGraph({ brief: "Should we raise prices?", seed: 17 }, callOpts)) {
+        events.push(event);
+      }
+
+      expect(events[events.length - 1]).toMatchObject({ type: "error" });
+    });
+  });
+
+  describe("Ollama servers", () => {
+    beforeEach(() => {
+      process.env.LOCAL_LLM_BASE_URL = "http://localhost:11434";
+      process.env.LOCAL_LLM_API_STYLE = "ollama";
+    });
+
+    it("uses /api/chat with format=json and maps eval counts to usage", async () => {
+      fetchMock.mockResolvedValue(jsonResponse({
+        message: { role: "assistant", content: JSON.stringify(clarifyPayload) },
+        done: true,
+        done_reason: "stop",
+        prompt_eval_count: 30,
+        eval_count: 15,
+      }));
+
+      const adapter = new LocalAdapter();
+      const result = await adapter.clarifyBrief({ brief: "Should we raise prices?", round: 1, seed: 3 }, callOpts);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("http://localhost:11434/api/chat");
+      const body = JSON.parse(init.body);
+      expect(body.format).toBe("json");
+      expect(body.stream).toBe(false);
+      expect(body.options.seed).toBe(3);
+
+      expect(result.questions).toHaveLength(1);
+      expect(result.usage).toEqual({ input_tokens: 30, output_tokens: 15 });
+    });
+
+    it("streams NDJSON chunks into a completed draft", async () => {
+      const content = JSON.stringify(draftPayload);
+      fetchMock.mockResolvedValue(streamResponse([
+        JSON.stringify({ message: { content: content.slice(0, 40) }, done: false }) + "\n",
+        JSON.stringify({ message: { content: content.slice(40) }, done: false }) + "\n",
+        JSON.stringify({ message: { content: "" }, done: true, done_reason: "stop", prompt_eval_count: 12, eval_count: 9 }),
+      ]));
+
+      const adapter = new LocalAdapter();
+      const events: DraftStreamEvent[] = [];
+      for await (const event of adapter.streamDraftGraph({ brief: "Should we raise prices?", seed: 17 }, callOpts)) {
+        events.push(event);
+      }
+
+      const complete = events[events.length - 1];
+      expect(complete.type).toBe("complete");
+      if (complete.type === "complete") {
+        expect(complete.result.usage).toEqual({ input_tokens: 12, output_tokens: 9 });
+        expect(complete.result.meta?.finish_reason).toBe("stop");
+      }
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * LLM Provider Registry Tests
+ *
+ * Verifies providers resolve purely through the registry: built-ins are
+ * pre-registered, plugins can register programmatically or from modules, and
+ * model catalogues flow into MODEL_REGISTRY.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  registerProvider,
+  unregisterProvider,
+  resetProviderRegistry,
+  listProviders,
+  hasProvider,
+  getProviderCapabilities,
+  getProviderModels,
+  isProviderConfigured,
+  loadProviderModules,
+  type ProviderDefinition,
+} from "../../src/adapters/llm/registry.js";
+import { getAdapter, getAdapterForProvider, resetAdapterCache } from "../../src/adapters/llm/router.js";
+import { FixturesAdapter } from "../../src/adapters/llm/fixtures.js";
+import type { LLMAdapter } from "../../src/adapters/llm/types.js";
+import { MODEL_REGISTRY, getModelProvider } from "../../src/config/models.js";
+import { cleanBaseUrl } from "../helpers/env-setup.js";
+
+// Fixture behaviour under a plugin provider name
+function createAcmeAdapter(model?: string): LLMAdapter {
+  const adapter = Object.create(new FixturesAdapter()) as LLMAdapter;
+  Object.defineProperties(adapter, {
+    name: { value: "acme" },
+    model: { value: model ?? "acme-small" },
+  });
+  return adapter;
+}
+
+const acmeProvider: ProviderDefinition = {
+  name: "acme",
+  capabilities: { streaming: false, jsonMode: true, reasoningEffort: false, promptCaching: false },
+  models: [
+    {
+      id: "acme-small",
+      provider: "acme",
+      tier: "fast",
+      enabled: true,
+      maxTokens: 4096,
+      costPer1kTokens: 0.1,
+      averageLatencyMs: 500,
+      qualityScore: 0.7,
+      description: "Internal fast model",
+    },
+  ],
+  create: createAcmeAdapter,
+};
+
+describe("LLM provider registry", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    cleanBaseUrl();
+    resetProviderRegistry();
+    resetAdapterCache();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    resetProviderRegistry();
+    resetAdapterCache();
+  });
+
+  describe("built-in providers", () => {
+    it("registers anthropic, openai, local and fixtures", () => {
+      expect(listProviders()).toEqual(["anthropic", "openai", "local", "fixtures"]);
+    });
+
+    it("describes capabilities per provider", () => {
+      expect(getProviderCapabilities("local")?.streaming).toBe(true);
+      expect(getProviderCapabilities("openai")?.reasoningEffort).toBe(true);
+      expect(getProviderCapabilities("anthropic")?.promptCaching).toBe(true);
+      expect(getProviderCapabilities("unknown")).toBeUndefined();
+    });
+
+    it("exposes the static model catalogue", () => {
+      const openaiModels = getProviderModels("openai").map((m) => m.id);
+      expect(openaiModels).toContain("gpt-4o-mini");
+      expect(openaiModels).not.toContain("claude-3-5-sonnet-20241022");
+    });
+
+    it("reports configuration from provider credentials", () => {
+      process.env.OPENAI_API_KEY = "sk-test";
+      delete process.env.ANTHROPIC_API_KEY;
+
+      expect(isProviderConfigured("openai")).toBe(true);
+      expect(isProviderConfigured("anthropic")).toBe(false);
+      expect(isProviderConfigured("fixtures")).toBe(true);
+      expect(isProviderConfigured("unknown")).toBe(false);
+    });
+  });
+
+  describe("plugin providers", () => {
+    it("resolves a registered provider through the router", () => {
+      registerProvider(acmeProvider);
+
+      const adapter = getAdapterForProvider("acme", "acme-small");
+      expect(adapter.name).toBe("acme");
+      expect(adapter.model).toBe("acme-small");
+    });
+
+    it("rejects duplicate names unless replacing", () => {
+      registerProvider(acmeProvider);
+
+      expect(() => registerProvider(acmeProvider)).toThrow("already registered");
+      expect(() => registerProvider(acmeProvider, { replace: true })).not.toThrow();
+    });
+
+    it("adds catalogue models to MODEL_REGISTRY and removes them on unregister", () => {
+      registerProvider(acmeProvider);
+      expect(getModelProvider("acme-small")).toBe("acme");
+
+      expect(unregisterProvider("acme")).toBe(true);
+      expect(MODEL_REGISTRY["acme-small"]).toBeUndefined();
+      expect(hasProvider("acme")).toBe(false);
+    });
+
+    it("does not let a plugin claim another provider's model", () => {
+      registerProvider({
+        ...acmeProvider,
+        models: [{ ...acmeProvider.models![0], id: "gpt-4o-mini" }],
+      });
+
+      expect(getModelProvider("gpt-4o-mini")).toBe("openai");
+    });
+
+    it("selects a plugin via LLM_PROVIDER without applying other providers' task defaults", () => {
+      process.env.LLM_PROVIDER_MODULES = "./acme-provider.js";
+      process.env.LLM_PROVIDER = "acme";
+      delete process.env.LLM_MODEL;
+      delete process.env.CEE_MODEL_DRAFT;
+      registerProvider(acmeProvider);
+
+      const adapter = getAdapter("draft_graph");
+
+      expect(adapter.name).toBe("acme");
+      expect(adapter.model).toBe("acme-small");
+    });
+
+    it("routes reasoning models to the provider default when it lacks reasoning effort", () => {
+      process.env.LLM_PROVIDER_MODULES = "./acme-provider.js";
+      process.env.LLM_PROVIDER = "acme";
+      process.env.CEE_MODEL_DRAFT = "gpt-5.2";
+      delete process.env.LLM_MODEL;
+      registerProvider(acmeProvider);
+
+      const adapter = getAdapter("draft_graph");
+
+      expect(adapter.name).toBe("acme");
+      expect(adapter.model).toBe("acme-small");
+    });
+
+    it("throws for providers that are not registered", () => {
+      expect(() => getAdapterForProvider("acme")).toThrow("Unknown provider: acme");
+    });
+  });
+
+  describe("loadProviderModules", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "llm-provider-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("registers default and named exports from plugin modules", async () => {
+      const defaultModule = join(dir, "default-provider.mjs");
+      writeFileSync(defaultModule, `
+        export default {
+          name: "plugin-a",
+          capabilities: { streaming: false, jsonMode: false, reasoningEffort: false, promptCaching: false },
+          create: (model) => ({ name: "plugin-a", model: model ?? "a-1" }),
+        };
+      `);
+      const namedModule = join(dir, "named-providers.mjs");
+      writeFileSync(namedModule, `
+        export const providers = [{
+          name: "plugin-b",
+          capabilities: { streaming: true, jsonMode: true, reasoningEffort: false, promptCaching: false },
+          create: (model) => ({ name: "plugin-b", model: model ?? "b-1" }),
+        }];
+      `);
+
+      const added = await loadProviderModules([defaultModule, namedModule]);
+
+      expect(added).toEqual(["plugin-a", "plugin-b"]);
+      expect(getAdapterForProvider("plugin-b").model).toBe("b-1");
+      expect(getProviderCapabilities("plugin-b")?.streaming).toBe(true);
+    });
+
+    it("rejects malformed provider exports", async () => {
+      const badModule = join(dir, "bad-provider.mjs");
+      writeFileSync(badModule, `export const providers = [{ name: "broken" }];`);
+
+      await expect(loadProviderModules([badModule])).rejects.toThrow("Invalid provider definition");
+    });
+  });
+
+  describe("config validation", () => {
+    it("rejects unknown LLM_PROVIDER without plugin modules", async () => {
+      vi.resetModules();
+      process.env = { ...originalEnv, LLM_PROVIDER: "acme" };
+      delete process.env.LLM_PROVIDER_MODULES;
+
+      const { config } = await import("../../src/config/index.js");
+      expect(() => config.llm.provider).toThrow("Invalid configuration");
+    });
+
+    it("accepts plugin provider names when LLM_PROVIDER_MODULES is set", async () => {
+      vi.resetModules();
+      process.env = { ...originalEnv, LLM_PROVIDER: "acme", LLM_PROVIDER_MODULES: "./acme.js, @corp/llm" };
+
+      const { config } = await import("../../src/config/index.js");
+      expect(config.llm.provider).toBe("acme");
+      expect(config.llm.providerModules).toEqual(["./acme.js", "@corp/llm"]);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Semantic Cache Tests
+ *
+ * Verifies brief normalisation, similarity signatures, and that the
+ * SemanticCachingAdapter reuses results for near-identical briefs while
+ * respecting numeric differences, tenants and per-task settings.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  SemanticCachingAdapter,
+  computeSignature,
+  normaliseBrief,
+  signatureSimilarity,
+  getSemanticCacheSettings,
+  resetSemanticCache,
+} from "../../src/adapters/llm/semantic-cache.js";
+import { FixturesAdapter } from "../../src/adapters/llm/fixtures.js";
+import type { LLMAdapter } from "../../src/adapters/llm/types.js";
+import { createTestContext, runWithCallerContext } from "../../src/context/index.js";
+
+const BRIEF = "Should we hire 2 senior engineers or outsource the mobile app for $100k over 6 months?";
+const REWORDED = "should we  hire 2 Senior Engineers, or outsource our mobile app, for $100,000 over 6 months";
+const DIFFERENT_BUDGET = "Should we hire 2 senior engineers or outsource the mobile app for $150k over 6 months?";
+
+const OPTS = { requestId: "semantic-test", timeoutMs: 1000 };
+
+function countingAdapter(): { adapter: LLMAdapter; calls: { draft: number; options: number } } {
+  const fixtures = new FixturesAdapter();
+  const calls = { draft: 0, options: 0 };
+  const adapter = Object.create(fixtures) as LLMAdapter;
+  Object.defineProperties(adapter, {
+    draftGraph: {
+      value: async (args: any, opts: any) => {
+        calls.draft++;
+        return { ...(await fixtures.draftGraph(args, opts)), usage: { input_tokens: 900, output_tokens: 400 } };
+      },
+    },
+    suggestOptions: {
+      value: async (args: any, opts: any) => {
+        calls.options++;
+        return fixtures.suggestOptions(args, opts);
+      },
+    },
+  });
+  return { adapter, calls };
+}
+
+describe("semantic cache", () => {
+  beforeEach(() => {
+    vi.stubEnv("SEMANTIC_CACHE_ENABLED", "true");
+    resetSemanticCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetSemanticCache();
+  });
+
+  describe("normaliseBrief", () => {
+    it("canonicalises numbers and drops stop-words", () => {
+      const a = normaliseBrief(BRIEF);
+      const b = normaliseBrief(REWORDED);
+
+      expect(a.numbers).toEqual(["2", "6", "usd100000"]);
+      expect(b.numbers).toEqual(a.numbers);
+      expect(a.words).not.toContain("the");
+      expect(a.words).toContain("engineer");
+    });
+  });
+
+  describe("signatureSimilarity", () => {
+    it("scores trivial rewording close to 1", () => {
+      expect(signatureSimilarity(computeSignature(BRIEF), computeSignature(REWORDED))).toBeGreaterThan(0.9);
+    });
+
+    it("returns 0 when numeric values differ", () => {
+      expect(signatureSimilarity(computeSignature(BRIEF), computeSignature(DIFFERENT_BUDGET))).toBe(0);
+    });
+
+    it("scores unrelated briefs low", () => {
+      const other = computeSignature("Should we hire 2 senior engineers or expand into Germany for $100k over 6 months?");
+      expect(signatureSimilarity(computeSignature(BRIEF), other)).toBeLessThan(0.9);
+    });
+  });
+
+  describe("SemanticCachingAdapter", () => {
+    it("serves a near-identical brief from the cache with a semantic marker", async () => {
+      const { adapter, calls } = countingAdapter();
+      const cached = new SemanticCachingAdapter(adapter);
+
+      const first = await cached.draftGraph({ brief: BRIEF, seed: 17 }, OPTS);
+      const second = await cached.draftGraph({ brief: REWORDED, seed: 17 }, OPTS);
+
+      expect(calls.draft).toBe(1);
+      expect(first.meta?.cache).toBeUndefined();
+      expect(second.meta?.cache).toBe("semantic");
+      expect(second.meta?.cache_similarity).toBeGreaterThan(0.9);
+      expect(second.usage).toEqual({ input_tokens: 0, output_tokens: 0 });
+      expect(second.graph).toEqual(first.graph);
+    });
+
+    it("calls the provider when numbers differ", async () => {
+      const { adapter, calls } = countingAdapter();
+      const cached = new SemanticCachingAdapter(adapter);
+
+      await cached.draftGraph({ brief: BRIEF, seed: 17 }, OPTS);
+      await cached.draftGraph({ brief: DIFFERENT_BUDGET, seed: 17 }, OPTS);
+
+      expect(calls.draft).toBe(2);
+    });
+
+    it("does not share entries across non-text arguments", async () => {
+      const { adapter, calls } = countingAdapter();
+      const cached = new SemanticCachingAdapter(adapter);
+
+      await cached.draftGraph({ brief: BRIEF, seed: 17 }, OPTS);
+      await cached.draftGraph({ brief: BRIEF, seed: 17, flags: { grounding: true } }, OPTS);
+
+      expect(calls.draft).toBe(2);
+    });
+
+    it("partitions entries by tenant", async () => {
+      const { adapter, calls } = countingAdapter();
+      const cached = new SemanticCachingAdapter(adapter);
+
+      await runWithCallerContext(createTestContext({ keyId: "tenant-a" }), () =>
+        cached.draftGraph({ brief: BRIEF, seed: 17 }, OPTS)
+      );
+      await runWithCallerContext(createTestContext({ keyId: "tenant-b" }), () =>
+        cached.draftGraph({ brief: REWORDED, seed: 17 }, OPTS)
+      );
+      const hit = await runWithCallerContext(createTestContext({ keyId: "tenant-a" }), () =>
+        cached.draftGraph({ brief: REWORDED, seed: 17 }, OPTS)
+      );
+
+      expect(calls.draft).toBe(2);
+      expect(hit.meta?.cache).toBe("semantic");
+    });
+
+    it("honours bypassCache", async () => {
+      const { adapter, calls } = countingAdapter();
+      const cached = new SemanticCachingAdapter(adapter);
+
+      await cached.draftGraph({ brief: BRIEF, seed: 17 }, OPTS);
+      await cached.draftGraph({ brief: BRIEF, seed: 17 }, { ...OPTS, bypassCache: true });
+
+      expect(calls.draft).toBe(2);
+    });
+
+    it("only caches draft_graph by default", async () => {
+      const { adapter, calls } = countingAdapter();
+      const cached = new SemanticCachingAdapter(adapter);
+
+      await cached.suggestOptions({ goal: "Grow revenue next quarter" }, OPTS);
+      await cached.suggestOptions({ goal: "grow revenue next quarter" }, OPTS);
+
+      expect(calls.options).toBe(2);
+    });
+
+    it("caches additional tasks listed in SEMANTIC_CACHE_TASKS", async () => {
+      vi.stubEnv("SEMANTIC_CACHE_TASKS", "draft_graph,suggest_options");
+      const { adapter, calls } = countingAdapter();
+      const cached = new SemanticCachingAdapter(adapter);
+
+      await cached.suggestOptions({ goal: "Grow revenue next quarter" }, OPTS);
+      await cached.suggestOptions({ goal: "grow revenue next quarter!" }, OPTS);
+
+      expect(calls.options).toBe(1);
+    });
+  });
+
+  describe("tenant overrides", () => {
+    it("lets a tenant opt out or tighten the threshold", () => {
+      vi.stubEnv(
+        "SEMANTIC_CACHE_TENANT_OVERRIDES",
+        JSON.stringify({ strict: { threshold: 0.99 }, optout: { enabled: false } })
+      );
+
+      expect(getSemanticCacheSettings("draft_graph", "strict")).toEqual({ enabled: true, threshold: 0.99 });
+      expect(getSemanticCacheSettings("draft_graph", "optout").enabled).toBe(false);
+      expect(getSemanticCacheSettings("draft_graph", "other")).toEqual({ enabled: true, threshold: 0.9 });
+    });
+
+    it("is disabled for every tenant when the cache is off", () => {
+      vi.stubEnv("SEMANTIC_CACHE_ENABLED", "false");
+      expect(getSemanticCacheSettings("draft_graph", "any").enabled).toBe(false);
+    });
+  });
+});
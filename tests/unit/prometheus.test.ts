@@ -0,0 +1,145 @@
+/**
+ * Prometheus Metrics Tests
+ *
+ * Verifies that telemetry events reach the Prometheus registry with the same
+ * names and tags StatsD receives: request histograms per route, LLM latency
+ * and tokens per provider/model/operation, failover, prompt cache hit/miss,
+ * SSE buffer sizes and quota rejections, served from GET /metrics.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Fastify from "fastify";
+import { _resetConfigCache } from "../../src/config/index.js";
+import { emit, TelemetryEvents } from "../../src/utils/telemetry.js";
+import {
+  getPrometheusMetrics,
+  initPrometheusMetrics,
+  isPrometheusEnabled,
+  resetPrometheusMetrics,
+} from "../../src/utils/prometheus.js";
+import { metricsRoute } from "../../src/routes/metrics.js";
+import { performanceMonitoring } from "../../src/plugins/performance-monitoring.js";
+import { MetricsAdapter } from "../../src/adapters/llm/metrics.js";
+import { FixturesAdapter } from "../../src/adapters/llm/fixtures.js";
+
+async function scrape(): Promise<string> {
+  return (await getPrometheusMetrics()).body;
+}
+
+describe("prometheus metrics", () => {
+  beforeEach(() => {
+    vi.stubEnv("PROMETHEUS_ENABLE", "true");
+    initPrometheusMetrics();
+  });
+
+  afterEach(() => {
+    resetPrometheusMetrics();
+    vi.unstubAllEnvs();
+  });
+
+  it("is disabled by default", () => {
+    resetPrometheusMetrics();
+    vi.stubEnv("PROMETHEUS_ENABLE", "");
+    _resetConfigCache();
+
+    expect(initPrometheusMetrics()).toBe(false);
+    expect(isPrometheusEnabled()).toBe(false);
+  });
+
+  it("maps telemetry events to counters with their tags", async () => {
+    emit(TelemetryEvents.ProviderFailover, { from_provider: "anthropic", to_provider: "openai", operation: "draft_graph" });
+    emit(TelemetryEvents.PromptCacheHit, { operation: "draft_graph", provider: "openai" });
+    emit(TelemetryEvents.PromptCacheMiss, { operation: "draft_graph", provider: "openai" });
+    emit(TelemetryEvents.PromptCacheMiss, { operation: "draft_graph", provider: "openai" });
+    emit(TelemetryEvents.RateLimited, { key_id: "k1", path: "/assist/v1/draft-graph", is_sse: false });
+
+    const body = await scrape();
+    expect(body).toContain(
+      'olumi_assistants_llm_provider_failover_total{from_provider="anthropic",operation="draft_graph",to_provider="openai"} 1'
+    );
+    expect(body).toContain('olumi_assistants_llm_prompt_cache_hit_total{operation="draft_graph",provider="openai"} 1');
+    expect(body).toContain('olumi_assistants_llm_prompt_cache_miss_total{operation="draft_graph",provider="openai"} 2');
+    expect(body).toContain('olumi_assistants_auth_rate_limited_total{is_sse="false"} 1');
+  });
+
+  it("records SSE buffer sizes as histograms", async () => {
+    emit(TelemetryEvents.SseBufferTrimmed, { reason: "size_limit", new_buffer_size_bytes: 3000, new_buffer_event_count: 12 });
+    emit(TelemetryEvents.SseStreamBuffered, { status: "complete", buffer_size_bytes: 800, buffer_event_count: 4 });
+
+    const body = await scrape();
+    expect(body).toContain('olumi_assistants_sse_buffer_trimmed_total{reason="size_limit"} 1');
+    expect(body).toContain('olumi_assistants_sse_buffer_size_bytes_bucket{le="1024",stage="complete"} 1');
+    expect(body).toContain('olumi_assistants_sse_buffer_size_bytes_count{stage="trimmed"} 1');
+    expect(body).toContain('olumi_assistants_sse_buffer_events_sum{status="complete"} 4');
+  });
+
+  it("records LLM latency and tokens per provider, model and operation", async () => {
+    const fixtures = new FixturesAdapter();
+    const adapter = new MetricsAdapter(Object.assign(Object.create(fixtures), {
+      draftGraph: async (args: any, opts: any) => ({
+        ...(await fixtures.draftGraph(args, opts)),
+        usage: { input_tokens: 900, output_tokens: 400 },
+      }),
+      repairGraph: async () => {
+        throw new Error("upstream down");
+      },
+    }));
+
+    await adapter.draftGraph({ brief: "Should we expand to Germany?" } as any, { requestId: "req-1", timeoutMs: 1000 });
+    await expect(adapter.repairGraph({} as any, { requestId: "req-1", timeoutMs: 1000 })).rejects.toThrow("upstream down");
+
+    const body = await scrape();
+    const labels = `model="${fixtures.model}",operation="draft_graph",provider="fixtures"`;
+    expect(body).toContain(`olumi_assistants_llm_provider_call_tokens_total{${labels},type="input"} 900`);
+    expect(body).toContain(`olumi_assistants_llm_provider_call_tokens_total{${labels},type="output"} 400`);
+    expect(body).toContain(`olumi_assistants_llm_provider_call_latency_ms_count{${labels}} 1`);
+    expect(body).toMatch(/olumi_assistants_llm_provider_call_total\{[^}]*operation="repair_graph"[^}]*status="error"\} 1/);
+  });
+
+  it("reports missing tags as none and keeps the first label set", async () => {
+    emit(TelemetryEvents.SSECompleted, { fixture_shown: true });
+    emit(TelemetryEvents.SSECompleted, {});
+    emit(TelemetryEvents.ProviderCircuitOpened, { provider: "openai", reason: "errors", extra: "ignored" });
+
+    const body = await scrape();
+    expect(body).toContain('olumi_assistants_draft_sse_completed_total{fixture_shown="true"} 1');
+    expect(body).toContain('olumi_assistants_draft_sse_completed_total{fixture_shown="none"} 1');
+    expect(body).toContain('olumi_assistants_llm_provider_circuit_opened_total{provider="openai",reason="errors"} 1');
+    expect(body).not.toContain("ignored");
+  });
+
+  it("serves request histograms per route from GET /metrics", async () => {
+    const app = Fastify();
+    await app.register(performanceMonitoring);
+    await metricsRoute(app);
+    app.get("/things/:id", async () => ({ ok: true }));
+
+    await app.inject({ method: "GET", url: "/things/1" });
+    await app.inject({ method: "GET", url: "/things/2" });
+    const res = await app.inject({ method: "GET", url: "/metrics" });
+    await app.close();
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/plain");
+    expect(res.body).toContain(
+      'olumi_assistants_request_duration_count{method="GET",route="GET /things/:id",status="200"} 2'
+    );
+    expect(res.body).toContain("olumi_assistants_process_cpu_user_seconds_total");
+  });
+
+  it("uses millisecond latency buckets for request durations", async () => {
+    const app = Fastify();
+    await app.register(performanceMonitoring);
+    await metricsRoute(app);
+    app.get("/things/:id", async () => ({ ok: true }));
+
+    await app.inject({ method: "GET", url: "/things/1" });
+    const res = await app.inject({ method: "GET", url: "/metrics" });
+    await app.close();
+
+    const bounds = [...res.body.matchAll(/^olumi_assistants_request_duration_bucket\{[^}]*le="([^"]+)"/gm)].map((m) => m[1]);
+    expect(bounds).toEqual([
+      "5", "10", "25", "50", "100", "250", "500", "1000", "2500", "5000", "10000", "30000", "60000", "120000", "+Inf",
+    ]);
+  });
+});
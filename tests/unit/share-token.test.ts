@@ -4,6 +4,8 @@ import {
   signShareToken,
   verifyShareToken,
   hashShareId,
+  hashSharePassphrase,
+  verifySharePassphrase,
 } from "../../src/utils/share-token.js";
 
 describe("share-token", () => {
@@ -124,6 +126,26 @@ describe("share-token", () => {
     });
   });
 
+  describe("non-expiring tokens", () => {
+    it("should verify tokens with null expires_at", () => {
+      const payload = { share_id: "abc123", created_at: 1700000000000, expires_at: null };
+
+      expect(verifyShareToken(signShareToken(payload))).toEqual(payload);
+    });
+  });
+
+  describe("share passphrases", () => {
+    it("should verify the passphrase it hashed, with a random salt", async () => {
+      const hash = await hashSharePassphrase("correct horse");
+
+      expect(hash).toMatch(/^[a-f0-9]{32}\.[a-f0-9]{64}$/);
+      expect(await hashSharePassphrase("correct horse")).not.toBe(hash);
+      expect(await verifySharePassphrase("correct horse", hash)).toBe(true);
+      expect(await verifySharePassphrase("wrong horse", hash)).toBe(false);
+      expect(await verifySharePassphrase("correct horse", "malformed")).toBe(false);
+    });
+  });
+
   describe("hashShareId()", () => {
     it("should return 16-char hash", () => {
       const hash = hashShareId("abc123");
@@ -0,0 +1,174 @@
+/**
+ * OpenTelemetry Tracing Tests
+ *
+ * Verifies span nesting and error recording, W3C trace-context propagation
+ * through the request plugin, LLM spans with token usage, verification
+ * stage spans, and Redis command spans.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import Fastify from "fastify";
+import { SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-base";
+import type { Command, Redis } from "ioredis";
+import {
+  initTracing,
+  injectTraceContext,
+  isTracingEnabled,
+  shutdownTracing,
+  traceRedisCommands,
+  withSpan,
+} from "../../src/utils/tracing.js";
+import { tracingPlugin } from "../../src/plugins/tracing.js";
+import { TracingAdapter } from "../../src/adapters/llm/tracing.js";
+import { FixturesAdapter } from "../../src/adapters/llm/fixtures.js";
+import { VerificationPipeline } from "../../src/cee/verification/pipeline.js";
+
+const exporter = new InMemorySpanExporter();
+
+function spanNamed(name: string) {
+  const span = exporter.getFinishedSpans().find((s) => s.name === name);
+  expect(span, `span ${name}`).toBeDefined();
+  return span!;
+}
+
+describe("tracing", () => {
+  beforeAll(() => {
+    initTracing({ exporter });
+  });
+
+  afterAll(async () => {
+    await shutdownTracing();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it("nests spans and records errors", async () => {
+    await expect(
+      withSpan("outer", { "test.attr": 1 }, () => withSpan("inner", {}, async () => {
+        throw new Error("boom");
+      }))
+    ).rejects.toThrow("boom");
+
+    const outer = spanNamed("outer");
+    const inner = spanNamed("inner");
+    expect(inner.parentSpanContext?.spanId).toBe(outer.spanContext().spanId);
+    expect(inner.status).toMatchObject({ code: SpanStatusCode.ERROR, message: "boom" });
+    expect(inner.events.map((e) => e.name)).toContain("exception");
+    expect(outer.attributes["test.attr"]).toBe(1);
+  });
+
+  it("injects traceparent for the active span", async () => {
+    const headers = await withSpan("client", {}, async (span) => {
+      const injected = injectTraceContext({ "Content-Type": "application/json" });
+      expect(injected.traceparent).toContain(span.spanContext().traceId);
+      return injected;
+    });
+
+    expect(headers["Content-Type"]).toBe("application/json");
+    expect(injectTraceContext({}).traceparent).toBeUndefined();
+  });
+
+  it("continues incoming W3C trace context across the request", async () => {
+    // Not closed: the plugin's onClose hook would shut the provider down
+    const app = Fastify();
+    await app.register(tracingPlugin);
+    app.get("/things/:id", async () => withSpan("handler.work", {}, async () => ({ ok: true })));
+
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const res = await app.inject({
+      method: "GET",
+      url: "/things/42?x=1",
+      headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` },
+    });
+
+    expect(res.statusCode).toBe(200);
+    const server = spanNamed("GET /things/:id");
+    const work = spanNamed("handler.work");
+    expect(server.kind).toBe(SpanKind.SERVER);
+    expect(server.spanContext().traceId).toBe(traceId);
+    expect(server.parentSpanContext?.spanId).toBe("00f067aa0ba902b7");
+    expect(server.attributes).toMatchObject({
+      "http.route": "/things/:id",
+      "url.path": "/things/42",
+      "http.response.status_code": 200,
+    });
+    expect(work.parentSpanContext?.spanId).toBe(server.spanContext().spanId);
+  });
+
+  it("records LLM calls with token usage", async () => {
+    const fixtures = new FixturesAdapter();
+    const adapter = new TracingAdapter(Object.assign(Object.create(fixtures), {
+      draftGraph: async (args: any, opts: any) => ({
+        ...(await fixtures.draftGraph(args, opts)),
+        usage: { input_tokens: 900, output_tokens: 400, cache_read_input_tokens: 100 },
+      }),
+    }));
+
+    await adapter.draftGraph({ brief: "Should we expand to Germany?" } as any, { requestId: "req-1", timeoutMs: 1000 });
+
+    const span = spanNamed("llm.draft_graph");
+    expect(span.kind).toBe(SpanKind.CLIENT);
+    expect(span.attributes).toMatchObject({
+      "gen_ai.operation.name": "draft_graph",
+      "gen_ai.system": "fixtures",
+      "gen_ai.usage.input_tokens": 900,
+      "gen_ai.usage.output_tokens": 400,
+      "gen_ai.usage.cache_read_input_tokens": 100,
+      "olumi.request_id": "req-1",
+    });
+  });
+
+  it("records a span per verification stage", async () => {
+    const pipeline = new VerificationPipeline();
+
+    await pipeline.verify({ summary: "ok" }, undefined, { endpoint: "test", requiresEngineValidation: false });
+
+    const root = spanNamed("cee.verification");
+    const stages = exporter.getFinishedSpans().filter((s) => s.name.startsWith("cee.verification."));
+    expect(stages.map((s) => s.name)).toEqual(expect.arrayContaining([
+      "cee.verification.schema",
+      "cee.verification.numerical",
+      "cee.verification.comparison",
+    ]));
+    expect(stages.every((s) => s.parentSpanContext?.spanId === root.spanContext().spanId)).toBe(true);
+    expect(spanNamed("cee.verification.schema").attributes["cee.verification.valid"]).toBe(true);
+  });
+
+  it("records Redis commands without their arguments", async () => {
+    let reject: (error: Error) => void = () => {};
+    const failing = new Promise((_resolve, rej) => { reject = rej; });
+    const sent: string[] = [];
+    const client = {
+      sendCommand: (command: Command) => {
+        sent.push(command.name);
+        return command.promise;
+      },
+    } as unknown as Redis;
+
+    traceRedisCommands(client);
+    await client.sendCommand({ name: "get", args: ["secret-key"], promise: Promise.resolve("v") } as unknown as Command);
+    const pending = client.sendCommand({ name: "set", args: ["k", "v"], promise: failing } as unknown as Command);
+    reject(new Error("READONLY"));
+    await expect(pending).rejects.toThrow("READONLY");
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(sent).toEqual(["get", "set"]);
+    const get = spanNamed("redis get");
+    expect(get.attributes).toEqual({ "db.system.name": "redis", "db.operation.name": "GET" });
+    expect(spanNamed("redis set").status.code).toBe(SpanStatusCode.ERROR);
+  });
+
+  it("is a no-op once shut down", async () => {
+    await shutdownTracing();
+
+    expect(isTracingEnabled()).toBe(false);
+    await withSpan("after-shutdown", {}, async (span) => {
+      expect(span.isRecording()).toBe(false);
+    });
+    expect(exporter.getFinishedSpans()).toEqual([]);
+    expect(trace.getActiveSpan()).toBeUndefined();
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { parseWhatIf, applyWhatIf, simulateRankingShift, findPathToTarget } from "../../src/services/what-if.js";
+import { processAskRequest } from "../../src/adapters/ask/index.js";
+import { inferIntent } from "../../src/services/intent-inference.js";
+import { _resetConfigCache } from "../../src/config/index.js";
+import type { WorkingSetRequestT } from "../../src/schemas/working-set.js";
+import type { GraphT } from "../../src/schemas/graph.js";
+
+const graph = {
+  version: "1",
+  default_seed: 17,
+  nodes: [
+    { id: "goal_profit", kind: "goal", label: "Profit" },
+    { id: "factor_churn", kind: "factor", label: "Churn Rate", data: { value: 0.05 } },
+    { id: "factor_price", kind: "factor", label: "Price", data: { value: 50, unit: "£" } },
+    { id: "factor_brand", kind: "factor", label: "Brand Awareness" },
+    { id: "outcome_revenue", kind: "outcome", label: "Revenue" },
+    { id: "option_premium", kind: "option", label: "Premium Tier", data: { interventions: { factor_price: 80 } } },
+    { id: "option_budget", kind: "option", label: "Budget Tier", data: { interventions: { factor_price: 30 } } },
+  ],
+  edges: [
+    { from: "option_premium", to: "factor_price" },
+    { from: "option_budget", to: "factor_price" },
+    { from: "option_premium", to: "factor_churn", strength_mean: 0.6 },
+    { from: "factor_price", to: "outcome_revenue", strength_mean: 0.5 },
+    { from: "factor_churn", to: "outcome_revenue", strength_mean: -0.8 },
+    { from: "factor_brand", to: "outcome_revenue", strength_mean: 0.3 },
+    { from: "outcome_revenue", to: "goal_profit", strength_mean: 0.9 },
+  ],
+  meta: { roots: [], leaves: [], suggested_positions: {}, source: "assistant" },
+} as unknown as GraphT;
+
+describe("parseWhatIf", () => {
+  it("parses multiplier, percentage and absolute factor changes", () => {
+    expect(parseWhatIf("What if churn doubles?", graph).changes).toEqual([
+      expect.objectContaining({ kind: "factor_value", target_id: "factor_churn", from_value: 0.05, to_value: 0.1 }),
+    ]);
+    expect(parseWhatIf("What if we cut price by 10%?", graph).changes[0]).toMatchObject({ target_id: "factor_price", to_value: 45 });
+    expect(parseWhatIf("Suppose price goes up to £60", graph).changes[0]).toMatchObject({ to_value: 60, unit: "£" });
+    // "8%" for a factor stored as a fraction
+    expect(parseWhatIf("What if churn rate is 8%?", graph).changes[0].to_value).toBe(0.08);
+  });
+
+  it("parses edge strength changes and several changes in one message", () => {
+    const { changes } = parseWhatIf("What if price rises by 20% and the effect of churn on revenue halves?", graph);
+
+    expect(changes).toEqual([
+      expect.objectContaining({ kind: "factor_value", target_id: "factor_price", to_value: 60 }),
+      expect.objectContaining({ kind: "edge_strength", target_id: "factor_churn->outcome_revenue", from_value: -0.8, to_value: -0.4 }),
+    ]);
+  });
+
+  it("resolves pronouns to the selection", () => {
+    expect(parseWhatIf("What if this doubles?", graph, { node_id: "factor_price" }).changes[0].to_value).toBe(100);
+    expect(
+      parseWhatIf("What if it doubles?", graph, { edge_id: "factor_brand->outcome_revenue" }).changes[0]
+    ).toMatchObject({ kind: "edge_strength", to_value: 0.6 });
+  });
+
+  it("reports changes it cannot resolve", () => {
+    expect(parseWhatIf("What if brand awareness doubles?", graph).unresolved).toEqual([
+      expect.objectContaining({ reason: "no_baseline", label: "Brand Awareness" }),
+    ]);
+    expect(parseWhatIf("What if price increases?", graph).unresolved[0].reason).toBe("no_amount");
+    expect(parseWhatIf("What if we consider a different approach?", graph)).toEqual({ changes: [], unresolved: [] });
+  });
+});
+
+describe("what-if simulation", () => {
+  beforeEach(() => {
+    vi.stubEnv("LOCAL_INFERENCE_ENABLED", "true");
+    vi.stubEnv("LOCAL_INFERENCE_SAMPLES", "500");
+    _resetConfigCache();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    _resetConfigCache();
+  });
+
+  it("applies changes to a copy of the graph", () => {
+    const { changes } = parseWhatIf("What if churn doubles and the effect of brand awareness on revenue is 0.9?", graph);
+    const simulated = applyWhatIf(graph, changes);
+
+    expect(simulated.nodes.find((n) => n.id === "factor_churn")?.data).toEqual({ value: 0.1 });
+    expect(simulated.edges.find((e) => e.from === "factor_brand")?.strength_mean).toBe(0.9);
+    expect(graph.nodes.find((n) => n.id === "factor_churn")?.data).toEqual({ value: 0.05 });
+  });
+
+  it("compares option rankings with the same seed", () => {
+    const unchanged = simulateRankingShift(graph, [
+      { kind: "factor_value", target_id: "factor_brand", label: "Brand Awareness", to_value: 0, phrase: "" },
+    ] as never);
+    expect(unchanged?.before.outcomes.map((o) => o.option_id)).toEqual(unchanged?.after.outcomes.map((o) => o.option_id));
+    expect(unchanged?.leader_changed).toBe(false);
+
+    // Churn hurts the premium tier only; a much stronger churn effect flips the ranking
+    const { changes } = parseWhatIf("What if the effect of premium tier on churn rate is 1?", graph);
+    const flipped = simulateRankingShift(applyWhatIf(graph, parseWhatIf("What if churn is 0.9", graph).changes), changes);
+    expect(flipped?.before.outcomes[0].option_id).toBe("option_premium");
+    expect(flipped?.leader_changed).toBe(true);
+    expect(flipped?.after.outcomes[0].option_id).toBe("option_budget");
+  });
+
+  it("is unavailable when local inference is disabled", () => {
+    vi.stubEnv("LOCAL_INFERENCE_ENABLED", "false");
+    _resetConfigCache();
+
+    expect(simulateRankingShift(graph, parseWhatIf("What if churn doubles?", graph).changes)).toBeNull();
+  });
+
+  it("finds the path from a factor to the goal", () => {
+    expect(findPathToTarget(graph, "factor_churn", "goal_profit")).toEqual(["factor_churn", "outcome_revenue", "goal_profit"]);
+    expect(findPathToTarget(graph, "goal_profit", "factor_churn")).toEqual([]);
+  });
+});
+
+describe("ask simulate intent", () => {
+  const request = (overrides: Partial<WorkingSetRequestT> = {}): WorkingSetRequestT => ({
+    scenario_id: "s1",
+    graph_schema_version: "2.2",
+    brief: "We need to choose a pricing tier for our subscription product.",
+    message: "What if churn doubles?",
+    graph_snapshot: graph,
+    market_context: { id: "ctx", version: "1", hash: "h" },
+    ...overrides,
+  } as WorkingSetRequestT);
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    _resetConfigCache();
+  });
+
+  it("is inferred for quantified what-ifs only", () => {
+    expect(inferIntent("What if churn doubles?").intent).toBe("simulate");
+    expect(inferIntent("What happens if price drops by 10%?").intent).toBe("simulate");
+    expect(inferIntent("What if price is £60?").intent).toBe("simulate");
+    expect(inferIntent("What if we consider a different approach?").intent).toBe("ideate");
+  });
+
+  it("returns previewable model actions and highlights the affected path", async () => {
+    const { response, inferredIntent } = await processAskRequest(request(), { requestId: "r1", timeoutMs: 1000 });
+
+    expect(inferredIntent).toBe("simulate");
+    expect(response.model_actions).toEqual([
+      expect.objectContaining({
+        op: "update_node",
+        target_id: "factor_churn",
+        payload: { data: { value: 0.1 } },
+        label: "Churn Rate 0.05 → 0.1",
+      }),
+    ]);
+    expect(response.highlights?.[0]).toMatchObject({ type: "path", ids: ["factor_churn", "outcome_revenue", "goal_profit"] });
+    expect(response.message).toContain("run the analysis");
+  });
+
+  it("explains the ranking shift when local inference is enabled", async () => {
+    vi.stubEnv("LOCAL_INFERENCE_ENABLED", "true");
+    vi.stubEnv("LOCAL_INFERENCE_SAMPLES", "500");
+    _resetConfigCache();
+
+    const { response } = await processAskRequest(
+      request({ message: "What if the effect of premium tier on churn rate is 1 and churn is 0.9?" }),
+      { requestId: "r2", timeoutMs: 1000 }
+    );
+
+    expect(response.model_actions?.map((a) => a.op)).toEqual(["update_edge", "update_node"]);
+    expect(response.message).toContain("Budget Tier would overtake Premium Tier as the best option");
+    expect(response.highlights?.at(-1)).toMatchObject({ ids: ["option_premium", "option_budget"], style: "warning" });
+    expect(response.why?.at(-1)).toMatchObject({ source: "engine" });
+  });
+
+  it("asks for a change it can simulate when none is given", async () => {
+    const { response } = await processAskRequest(
+      request({ intent: "simulate", message: "Simulate something" }),
+      { requestId: "r3", timeoutMs: 1000 }
+    );
+
+    expect(response.model_actions).toBeUndefined();
+    expect(response.follow_up_question).toBe('Which factor should change, and by how much? For example: "What if Churn Rate doubles?"');
+  });
+});
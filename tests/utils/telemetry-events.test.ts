@@ -88,15 +88,29 @@ describe("Telemetry Events (Frozen Enum - M3)", () => {
         ProviderFailoverSuccess: "assist.llm.provider_failover_success",
         ProviderFailoverExhausted: "assist.llm.provider_failover_exhausted",
 
+        ProviderCircuitOpened: "assist.llm.provider_circuit_opened",
+        ProviderCircuitHalfOpen: "assist.llm.provider_circuit_half_open",
+        ProviderCircuitClosed: "assist.llm.provider_circuit_closed",
+        ProviderCircuitSkipped: "assist.llm.provider_circuit_skipped",
+        LlmHedgeFired: "assist.llm.hedge_fired",
+        LlmHedgeCompleted: "assist.llm.hedge_completed",
+        BudgetThresholdCrossed: "assist.llm.budget_threshold_crossed",
+        BudgetExceeded: "assist.llm.budget_exceeded",
+        BudgetModelDowngraded: "assist.llm.budget_model_downgraded",
+
         ShareCreated: "assist.share.created",
         ShareAccessed: "assist.share.accessed",
         ShareRevoked: "assist.share.revoked",
         ShareExpired: "assist.share.expired",
         ShareNotFound: "assist.share.not_found",
+        ShareUpdated: "assist.share.updated",
+        ShareAccessDenied: "assist.share.access_denied",
 
         PromptCacheHit: "assist.llm.prompt_cache_hit",
         PromptCacheMiss: "assist.llm.prompt_cache_miss",
         PromptCacheEviction: "assist.llm.prompt_cache_eviction",
+        SemanticCacheHit: "assist.llm.semantic_cache_hit",
+        SemanticCacheMiss: "assist.llm.semantic_cache_miss",
 
         ValidationCacheHit: "assist.draft.validation_cache_hit",
         ValidationCacheMiss: "assist.draft.validation_cache_miss",
@@ -359,6 +373,12 @@ describe("Telemetry Events (Frozen Enum - M3)", () => {
         // Performance timing events (Observability v2)
         LlmCall: "llm.call",
         DownstreamCall: "downstream.call",
+
+        // Provider call metrics (Prometheus /metrics)
+        LlmProviderCall: "assist.llm.provider_call",
+
+        // SSE buffer size at stream end
+        SseStreamBuffered: "assist.sse.stream_buffered",
       };
 
       // Ensure TelemetryEvents matches the snapshot exactly
@@ -500,6 +520,21 @@ describe("Telemetry Events (Frozen Enum - M3)", () => {
         "llm.provider_failover.success": [TelemetryEvents.ProviderFailoverSuccess],
         "llm.provider_failover.exhausted": [TelemetryEvents.ProviderFailoverExhausted],
 
+        // Provider circuit breaker events
+        "llm.provider_circuit.opened": [TelemetryEvents.ProviderCircuitOpened],
+        "llm.provider_circuit.half_open": [TelemetryEvents.ProviderCircuitHalfOpen],
+        "llm.provider_circuit.closed": [TelemetryEvents.ProviderCircuitClosed],
+        "llm.provider_circuit.skipped": [TelemetryEvents.ProviderCircuitSkipped],
+
+        // Hedged request events
+        "llm.hedge.fired": [TelemetryEvents.LlmHedgeFired],
+        "llm.hedge.completed": [TelemetryEvents.LlmHedgeCompleted],
+
+        // Per-key spend budget events
+        "budget.threshold_crossed": [TelemetryEvents.BudgetThresholdCrossed],
+        "budget.exceeded": [TelemetryEvents.BudgetExceeded],
+        "budget.model_downgraded": [TelemetryEvents.BudgetModelDowngraded],
+
         // SSE client events (v1.2.1)
         "sse.client_closed": [TelemetryEvents.SseClientClosed],
 
@@ -513,11 +548,15 @@ describe("Telemetry Events (Frozen Enum - M3)", () => {
         "share.revoked": [TelemetryEvents.ShareRevoked],
         "share.expired": [TelemetryEvents.ShareExpired],
         "share.not_found": [TelemetryEvents.ShareNotFound],
+        "share.updated": [TelemetryEvents.ShareUpdated],
+        "share.access_denied": [TelemetryEvents.ShareAccessDenied],
 
         // Prompt cache & validation cache events
         "llm.prompt_cache.hit": [TelemetryEvents.PromptCacheHit],
         "llm.prompt_cache.miss": [TelemetryEvents.PromptCacheMiss],
         "llm.prompt_cache.eviction": [TelemetryEvents.PromptCacheEviction],
+        "llm.semantic_cache.hit": [TelemetryEvents.SemanticCacheHit],
+        "llm.semantic_cache.miss": [TelemetryEvents.SemanticCacheMiss],
         "draft.validation_cache.hit": [TelemetryEvents.ValidationCacheHit],
         "draft.validation_cache.miss": [TelemetryEvents.ValidationCacheMiss],
         "draft.validation_cache.bypass": [TelemetryEvents.ValidationCacheBypass],
@@ -739,6 +778,15 @@ describe("Telemetry Events (Frozen Enum - M3)", () => {
         "downstream.call": [TelemetryEvents.DownstreamCall],
         "downstream.call.latency_ms": [TelemetryEvents.DownstreamCall],
         "downstream.call.status": [TelemetryEvents.DownstreamCall],
+
+        // Provider call metrics (Prometheus /metrics)
+        "llm.provider_call": [TelemetryEvents.LlmProviderCall],
+        "llm.provider_call.latency_ms": [TelemetryEvents.LlmProviderCall],
+        "llm.provider_call.tokens": [TelemetryEvents.LlmProviderCall],
+
+        // SSE buffer sizes
+        "sse.buffer.size_bytes": [TelemetryEvents.SseBufferTrimmed, TelemetryEvents.SseStreamBuffered],
+        "sse.buffer.events": [TelemetryEvents.SseStreamBuffered],
       };
 
       // Verify all events are documented, except debug-only events
@@ -850,14 +898,27 @@ describe("Telemetry Events (Frozen Enum - M3)", () => {
         "assist.llm.provider_failover",
         "assist.llm.provider_failover_success",
         "assist.llm.provider_failover_exhausted",
+        "assist.llm.provider_circuit_opened",
+        "assist.llm.provider_circuit_half_open",
+        "assist.llm.provider_circuit_closed",
+        "assist.llm.provider_circuit_skipped",
+        "assist.llm.hedge_fired",
+        "assist.llm.hedge_completed",
+        "assist.llm.budget_threshold_crossed",
+        "assist.llm.budget_exceeded",
+        "assist.llm.budget_model_downgraded",
         "assist.share.created",
         "assist.share.accessed",
         "assist.share.revoked",
         "assist.share.expired",
         "assist.share.not_found",
+        "assist.share.updated",
+        "assist.share.access_denied",
         "assist.llm.prompt_cache_hit",
         "assist.llm.prompt_cache_miss",
         "assist.llm.prompt_cache_eviction",
+        "assist.llm.semantic_cache_hit",
+        "assist.llm.semantic_cache_miss",
         // v1.8 SSE Resume events
         "assist.sse.resume_issued",
         "assist.sse.resume_attempt",
@@ -1124,6 +1185,12 @@ describe("Telemetry Events (Frozen Enum - M3)", () => {
         // Performance timing events (Observability v2)
         "llm.call",
         "downstream.call",
+
+        // Provider call metrics (Prometheus /metrics)
+        "assist.llm.provider_call",
+
+        // SSE buffer size at stream end
+        "assist.sse.stream_buffered",
       ];
 
       const actualEvents = Object.values(TelemetryEvents).sort();